@@ -18,16 +18,35 @@ import {
   Check,
   User,
   Search,
+  AlertTriangle,
 } from 'lucide-react';
 import { format } from 'date-fns';
 import toast from 'react-hot-toast';
 import { api } from '@/lib/api';
 import { formatCurrency, cn } from '@/lib/utils';
-import type { Deposit, DepositStatus, DepositMethod, DepositStats } from '@/types';
+import type { Deposit, DepositStatus, DepositMethod, DepositStats, CryptoReviewReason } from '@/types';
 
 type DateRangeType = 'all' | 'today' | '7d' | '30d';
 
-function StatusBadge({ status }: { status: DepositStatus }) {
+// 'REVIEW' narrows Pending to crypto payments the chain watcher could not auto-credit
+type StatusFilter = DepositStatus | 'REVIEW' | '';
+
+const REVIEW_REASON_LABELS: Record<CryptoReviewReason, string> = {
+  UNDERPAID: 'Underpaid',
+  OVERPAID: 'Overpaid',
+  LATE: 'Late Payment',
+  BLOCKED: 'Account Blocked',
+};
+
+function StatusBadge({ status, reviewReason }: { status: DepositStatus; reviewReason?: CryptoReviewReason | null }) {
+  if (status === 'PENDING' && reviewReason) {
+    return (
+      <span className="inline-flex items-center gap-1 px-2 py-0.5 rounded-full text-[10px] sm:text-xs font-medium text-orange-400 bg-orange-500/20">
+        <AlertTriangle className="h-3 w-3" />
+        {REVIEW_REASON_LABELS[reviewReason]}
+      </span>
+    );
+  }
   if (status === 'PENDING') {
     return (
       <span className="inline-flex items-center gap-1 px-2 py-0.5 rounded-full text-[10px] sm:text-xs font-medium text-amber-400 bg-amber-500/20">
@@ -219,16 +238,21 @@ function DepositDetailModal({
 
           {/* Details */}
           <div className="space-y-3">
-            <DetailRow label="Status" value={<StatusBadge status={deposit.status} />} />
+            <DetailRow label="Status" value={<StatusBadge status={deposit.status} reviewReason={deposit.reviewReason} />} />
             <DetailRow label="Method" value={deposit.method === 'MOBILE_MONEY' ? 'Mobile Money' : 'Cryptocurrency'} />
             {deposit.method === 'MOBILE_MONEY' ? (
               <>
                 <DetailRow label="Provider" value={deposit.mobileProvider || '-'} />
                 <DetailRow label="Phone" value={deposit.phoneNumber || '-'} />
+                {deposit.transactionHash && <DetailRow label="Provider Ref" value={deposit.transactionHash} />}
               </>
             ) : (
               <>
                 <DetailRow label="Currency" value={deposit.cryptoCurrency || '-'} />
+                {deposit.network && <DetailRow label="Network" value={deposit.network} />}
+                {deposit.cryptoAmount && (
+                  <DetailRow label="Received" value={`${deposit.cryptoAmount} ${deposit.cryptoCurrency || ''}`} />
+                )}
                 {deposit.walletAddress && (
                   <div>
                     <p className="text-slate-400 text-xs mb-1">Wallet Address</p>
@@ -237,6 +261,14 @@ function DepositDetailModal({
                     </p>
                   </div>
                 )}
+                {deposit.transactionHash && (
+                  <div>
+                    <p className="text-slate-400 text-xs mb-1">Transaction Hash</p>
+                    <p className="text-white text-xs font-mono bg-slate-900 p-2 rounded-lg break-all">
+                      {deposit.transactionHash}
+                    </p>
+                  </div>
+                )}
               </>
             )}
             <DetailRow label="Created" value={format(new Date(deposit.createdAt), 'MMM d, yyyy HH:mm')} />
@@ -294,7 +326,7 @@ export default function AdminDepositsPage() {
   const [isRefreshing, setIsRefreshing] = useState(false);
   const [isProcessing, setIsProcessing] = useState(false);
 
-  const [statusFilter, setStatusFilter] = useState<DepositStatus | ''>('');
+  const [statusFilter, setStatusFilter] = useState<StatusFilter>('');
   const [methodFilter, setMethodFilter] = useState<DepositMethod | ''>('');
   const [searchQuery, setSearchQuery] = useState('');
 
@@ -312,7 +344,8 @@ export default function AdminDepositsPage() {
       const response = await api.getAdminDeposits({
         page: pagination.page,
         limit: pagination.limit,
-        status: statusFilter || undefined,
+        status: statusFilter === 'REVIEW' ? 'PENDING' : statusFilter || undefined,
+        review: statusFilter === 'REVIEW' || undefined,
         method: methodFilter || undefined,
       });
       setDeposits(response.data);
@@ -376,9 +409,10 @@ export default function AdminDepositsPage() {
     );
   });
 
-  const statusOptions: { value: DepositStatus | ''; label: string }[] = [
+  const statusOptions: { value: StatusFilter; label: string }[] = [
     { value: '', label: 'All Status' },
     { value: 'PENDING', label: 'Pending' },
+    { value: 'REVIEW', label: 'Needs Review' },
     { value: 'APPROVED', label: 'Approved' },
     { value: 'REJECTED', label: 'Rejected' },
   ];
@@ -416,7 +450,12 @@ export default function AdminDepositsPage() {
             </div>
             <span className="text-slate-400 text-[10px] sm:text-xs">Pending</span>
           </div>
-          <p className="text-white text-sm sm:text-base font-bold">{stats?.pending ?? 0}</p>
+          <p className="text-white text-sm sm:text-base font-bold">
+            {stats?.pending ?? 0}
+            {!!stats?.review && (
+              <span className="ml-1.5 text-orange-400 text-[10px] sm:text-xs font-medium">{stats.review} need review</span>
+            )}
+          </p>
         </div>
         <div className="bg-slate-800/50 border border-slate-700 rounded-xl p-3">
           <div className="flex items-center gap-2 mb-1">
@@ -462,7 +501,7 @@ export default function AdminDepositsPage() {
         <select
           value={statusFilter}
           onChange={(e) => {
-            setStatusFilter(e.target.value as DepositStatus | '');
+            setStatusFilter(e.target.value as StatusFilter);
             setPagination(p => ({ ...p, page: 1 }));
           }}
           className="bg-slate-800/50 border border-slate-700 text-white px-3 py-2 rounded-lg text-sm focus:outline-none focus:border-[#1079ff]"
@@ -548,7 +587,7 @@ export default function AdminDepositsPage() {
                       </div>
                     </td>
                     <td className="px-4 py-3">
-                      <StatusBadge status={deposit.status} />
+                      <StatusBadge status={deposit.status} reviewReason={deposit.reviewReason} />
                     </td>
                     <td className="px-4 py-3">
                       <p className="text-white text-sm">{format(new Date(deposit.createdAt), 'MMM d, yyyy')}</p>
@@ -611,7 +650,7 @@ export default function AdminDepositsPage() {
                       <p className="text-slate-500 text-[10px]">{deposit.user?.email}</p>
                     </div>
                   </div>
-                  <StatusBadge status={deposit.status} />
+                  <StatusBadge status={deposit.status} reviewReason={deposit.reviewReason} />
                 </div>
                 <div className="flex items-center justify-between pt-2 border-t border-slate-700/50">
                   <span className="text-slate-500 text-[10px]">
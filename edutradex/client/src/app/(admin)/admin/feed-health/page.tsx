@@ -0,0 +1,254 @@
+'use client';
+
+import { useCallback, useEffect, useState } from 'react';
+import {
+  HeartPulse,
+  Loader2,
+  AlertCircle,
+  AlertTriangle,
+  RefreshCw,
+  Info,
+} from 'lucide-react';
+import { api } from '@/lib/api';
+import { cn, getErrorMessage } from '@/lib/utils';
+import type { FeedAlert, FeedHealthReport, FeedState, SymbolFeedHealth } from '@/types';
+
+const REFRESH_INTERVAL_MS = 5000;
+
+const STATE_STYLES: Record<FeedState, string> = {
+  HEALTHY: 'bg-emerald-900/50 text-emerald-400',
+  FAILOVER: 'bg-amber-900/50 text-amber-400',
+  SUSPENDED: 'bg-red-900/50 text-red-400',
+  CLOSED: 'bg-slate-700 text-slate-400',
+};
+
+// Problems first, then by symbol
+const STATE_ORDER: Record<FeedState, number> = { SUSPENDED: 0, FAILOVER: 1, HEALTHY: 2, CLOSED: 3 };
+
+function formatMs(ms: number | null): string {
+  if (ms === null) return '-';
+  if (ms < 1000) return `${ms}ms`;
+  if (ms < 60000) return `${(ms / 1000).toFixed(1)}s`;
+  return `${Math.floor(ms / 60000)}m ${Math.floor((ms % 60000) / 1000)}s`;
+}
+
+function SummaryCard({ label, value, className }: { label: string; value: number; className: string }) {
+  return (
+    <div className="bg-slate-800 rounded-xl border border-slate-700 p-4">
+      <p className="text-sm text-slate-400">{label}</p>
+      <p className={cn('text-2xl font-bold mt-1', className)}>{value}</p>
+    </div>
+  );
+}
+
+function AlertRow({ alert }: { alert: FeedAlert }) {
+  const Icon = alert.severity === 'critical' ? AlertCircle : alert.severity === 'warning' ? AlertTriangle : Info;
+
+  return (
+    <div className="flex items-start gap-3 px-4 py-3">
+      <Icon
+        className={cn(
+          'h-4 w-4 mt-0.5 flex-shrink-0',
+          alert.severity === 'critical'
+            ? 'text-red-400'
+            : alert.severity === 'warning'
+            ? 'text-amber-400'
+            : 'text-blue-400'
+        )}
+      />
+      <div className="flex-1 min-w-0">
+        <p className="text-sm text-white">{alert.message}</p>
+        <p className="text-xs text-slate-500 mt-0.5">{new Date(alert.createdAt).toLocaleString()}</p>
+      </div>
+    </div>
+  );
+}
+
+function FeedRow({ feed }: { feed: SymbolFeedHealth }) {
+  const active = feed.sources.find((source) => source.source === feed.activeSource);
+  const standby = feed.sources.filter((source) => source.source !== feed.activeSource);
+  const isStale = feed.state !== 'CLOSED' && (active?.lastTickAgeMs ?? 0) > feed.staleThresholdMs;
+
+  return (
+    <tr className="hover:bg-slate-700/50 transition-colors align-top">
+      <td className="px-4 py-3">
+        <span className="text-white font-medium">{feed.symbol}</span>
+        <p className="text-xs text-slate-500 capitalize">{feed.marketType}</p>
+      </td>
+      <td className="px-4 py-3">
+        <span className={cn('px-2 py-1 rounded text-xs font-medium', STATE_STYLES[feed.state])}>
+          {feed.state}
+        </span>
+        {feed.suspendedReason && <p className="text-xs text-red-400/80 mt-1 max-w-xs">{feed.suspendedReason}</p>}
+      </td>
+      <td className="px-4 py-3 text-sm">
+        <span className="text-white">{feed.activeSource}</span>
+        <p className="text-xs text-slate-500">
+          {feed.secondarySource
+            ? `${feed.primarySource} / ${feed.secondarySource}`
+            : `${feed.primarySource} only`}
+        </p>
+      </td>
+      <td className={cn('px-4 py-3 text-sm', isStale ? 'text-red-400' : 'text-white')}>
+        {formatMs(active?.lastTickAgeMs ?? null)}
+        {standby.map((source) => (
+          <p key={source.source} className="text-xs text-slate-500">
+            {source.source}: {formatMs(source.lastTickAgeMs)}
+          </p>
+        ))}
+      </td>
+      <td className="px-4 py-3 text-sm text-white">
+        {formatMs(active?.avgGapMs ?? null)}
+        <p className="text-xs text-slate-500">max {formatMs(active?.maxGapMs ?? null)}</p>
+      </td>
+      <td className="px-4 py-3 text-sm text-white">
+        {formatMs(active?.avgLatencyMs ?? null)}
+        <p className="text-xs text-slate-500">max {formatMs(active?.maxLatencyMs ?? null)}</p>
+      </td>
+      <td className="px-4 py-3 text-sm text-white">{(active?.tickCount ?? 0).toLocaleString()}</td>
+      <td className="px-4 py-3 text-sm text-white">
+        {feed.sources.reduce((total, source) => total + source.outliers, 0)}
+      </td>
+      <td className="px-4 py-3 text-sm text-white">{feed.staleEvents}</td>
+    </tr>
+  );
+}
+
+export default function FeedHealthPage() {
+  const [report, setReport] = useState<FeedHealthReport | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [showIssuesOnly, setShowIssuesOnly] = useState(false);
+
+  const fetchReport = useCallback(
+    () =>
+      api.getFeedHealth()
+        .then((data) => {
+          setReport(data);
+          setError(null);
+        })
+        .catch((err) => setError(getErrorMessage(err))),
+    []
+  );
+
+  useEffect(() => {
+    fetchReport();
+    const interval = setInterval(fetchReport, REFRESH_INTERVAL_MS);
+    return () => clearInterval(interval);
+  }, [fetchReport]);
+
+  if (!report) {
+    return (
+      <div className="flex items-center justify-center h-64">
+        {error ? (
+          <div className="text-center">
+            <AlertCircle className="h-12 w-12 text-red-500 mx-auto" />
+            <p className="mt-4 text-slate-400">{error}</p>
+          </div>
+        ) : (
+          <Loader2 className="h-8 w-8 text-[#1079ff] animate-spin" />
+        )}
+      </div>
+    );
+  }
+
+  const feeds = report.symbols
+    .filter((feed) => !showIssuesOnly || feed.state === 'SUSPENDED' || feed.state === 'FAILOVER')
+    .sort((a, b) => STATE_ORDER[a.state] - STATE_ORDER[b.state] || a.symbol.localeCompare(b.symbol));
+
+  return (
+    <div className="space-y-6">
+      <div className="flex items-center justify-between">
+        <div>
+          <h1 className="text-2xl font-bold text-white">Feed Health</h1>
+          <p className="text-slate-400 mt-1">
+            Live price feeds, stale and outlier detection, and failover between sources
+          </p>
+        </div>
+        <button
+          onClick={fetchReport}
+          className="flex items-center gap-2 px-4 py-2 bg-slate-700 hover:bg-slate-600 text-white rounded-lg transition-colors"
+        >
+          <RefreshCw className="h-4 w-4" />
+          Refresh
+        </button>
+      </div>
+
+      {error && (
+        <div className="flex items-center gap-2 px-4 py-3 bg-red-900/30 border border-red-800 rounded-lg text-sm text-red-300">
+          <AlertCircle className="h-4 w-4" />
+          {error}
+        </div>
+      )}
+
+      <div className="grid grid-cols-2 md:grid-cols-4 gap-4">
+        <SummaryCard label="Healthy" value={report.summary.healthy} className="text-emerald-400" />
+        <SummaryCard label="On Failover" value={report.summary.failover} className="text-amber-400" />
+        <SummaryCard label="Suspended" value={report.summary.suspended} className="text-red-400" />
+        <SummaryCard label="Market Closed" value={report.summary.closed} className="text-slate-300" />
+      </div>
+
+      <div className="grid grid-cols-1 xl:grid-cols-3 gap-6">
+        <div className="xl:col-span-2 bg-slate-800 rounded-xl border border-slate-700">
+          <div className="p-4 border-b border-slate-700 flex items-center justify-between">
+            <div className="flex items-center gap-2">
+              <HeartPulse className="h-5 w-5 text-slate-400" />
+              <h2 className="text-lg font-semibold text-white">Symbols</h2>
+            </div>
+            <label className="flex items-center gap-2 text-sm text-slate-400">
+              <input
+                type="checkbox"
+                checked={showIssuesOnly}
+                onChange={(e) => setShowIssuesOnly(e.target.checked)}
+                className="rounded border-slate-600 bg-slate-700"
+              />
+              Issues only
+            </label>
+          </div>
+          {feeds.length === 0 ? (
+            <p className="p-8 text-center text-slate-400">
+              {report.summary.total === 0 ? 'No live feeds are being supervised' : 'All feeds are healthy'}
+            </p>
+          ) : (
+            <div className="overflow-x-auto">
+              <table className="w-full">
+                <thead>
+                  <tr className="border-b border-slate-700">
+                    <th className="px-4 py-3 text-left text-sm font-medium text-slate-400">Symbol</th>
+                    <th className="px-4 py-3 text-left text-sm font-medium text-slate-400">State</th>
+                    <th className="px-4 py-3 text-left text-sm font-medium text-slate-400">Source</th>
+                    <th className="px-4 py-3 text-left text-sm font-medium text-slate-400">Last Tick</th>
+                    <th className="px-4 py-3 text-left text-sm font-medium text-slate-400">Avg Gap</th>
+                    <th className="px-4 py-3 text-left text-sm font-medium text-slate-400">Latency</th>
+                    <th className="px-4 py-3 text-left text-sm font-medium text-slate-400">Ticks</th>
+                    <th className="px-4 py-3 text-left text-sm font-medium text-slate-400">Outliers</th>
+                    <th className="px-4 py-3 text-left text-sm font-medium text-slate-400">Stalls</th>
+                  </tr>
+                </thead>
+                <tbody className="divide-y divide-slate-700">
+                  {feeds.map((feed) => (
+                    <FeedRow key={feed.symbol} feed={feed} />
+                  ))}
+                </tbody>
+              </table>
+            </div>
+          )}
+        </div>
+
+        <div className="bg-slate-800 rounded-xl border border-slate-700 h-fit">
+          <div className="p-4 border-b border-slate-700">
+            <h2 className="text-lg font-semibold text-white">Recent Alerts</h2>
+          </div>
+          {report.alerts.length === 0 ? (
+            <p className="p-8 text-center text-slate-400">No alerts</p>
+          ) : (
+            <div className="divide-y divide-slate-700 max-h-[600px] overflow-y-auto">
+              {report.alerts.map((alert) => (
+                <AlertRow key={alert.id} alert={alert} />
+              ))}
+            </div>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+}
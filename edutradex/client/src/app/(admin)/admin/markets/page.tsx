@@ -1,6 +1,6 @@
 'use client';
 
-import { useEffect, useState } from 'react';
+import { useCallback, useEffect, useState } from 'react';
 import {
   TrendingUp,
   Settings,
@@ -9,11 +9,15 @@ import {
   Check,
   X,
   RefreshCw,
+  Clock,
+  Plus,
+  Trash2,
 } from 'lucide-react';
 import toast from 'react-hot-toast';
 import { useAdminStore } from '@/store/admin.store';
-import { formatCurrency, cn } from '@/lib/utils';
-import type { MarketConfig } from '@/types';
+import { api } from '@/lib/api';
+import { formatCurrency, getErrorMessage, cn } from '@/lib/utils';
+import type { MarketCalendar, MarketConfig, SessionMarketType } from '@/types';
 
 function MarketTable({
   title,
@@ -111,7 +115,7 @@ function EditMarketModal({
   onCancel,
 }: {
   market: MarketConfig;
-  onSave: (config: Partial<Pick<MarketConfig, 'isActive' | 'payoutPercent' | 'minTradeAmount' | 'maxTradeAmount' | 'volatilityMode'>>) => void;
+  onSave: (config: Partial<Pick<MarketConfig, 'isActive' | 'payoutPercent' | 'minTradeAmount' | 'maxTradeAmount' | 'volatilityMode' | 'drawPolicy' | 'exchange'>>) => void;
   onCancel: () => void;
 }) {
   const [isActive, setIsActive] = useState(market.isActive);
@@ -119,6 +123,8 @@ function EditMarketModal({
   const [minTradeAmount, setMinTradeAmount] = useState(market.minTradeAmount.toString());
   const [maxTradeAmount, setMaxTradeAmount] = useState(market.maxTradeAmount.toString());
   const [volatilityMode, setVolatilityMode] = useState(market.volatilityMode);
+  const [drawPolicy, setDrawPolicy] = useState<'' | 'REFUND' | 'LOSE'>(market.drawPolicy ?? '');
+  const [exchange, setExchange] = useState(market.exchange ?? '');
 
   const handleSubmit = (e: React.FormEvent) => {
     e.preventDefault();
@@ -146,6 +152,8 @@ function EditMarketModal({
       minTradeAmount: minTrade,
       maxTradeAmount: maxTrade,
       volatilityMode,
+      drawPolicy: drawPolicy || null,
+      exchange: exchange.trim().toUpperCase() || null,
     });
   };
 
@@ -234,6 +242,38 @@ function EditMarketModal({
             </select>
           </div>
 
+          <div>
+            <label className="block text-sm font-medium text-slate-400 mb-1">
+              Draw Policy (exit price equals entry)
+            </label>
+            <select
+              value={drawPolicy}
+              onChange={(e) => setDrawPolicy(e.target.value as '' | 'REFUND' | 'LOSE')}
+              className="w-full px-3 py-2 bg-slate-700 border border-slate-600 rounded-lg text-white focus:outline-none focus:ring-2 focus:ring-[#1079ff]"
+            >
+              <option value="">Platform default</option>
+              <option value="REFUND">Refund stake</option>
+              <option value="LOSE">Trade loses</option>
+            </select>
+          </div>
+
+          <div>
+            <label className="block text-sm font-medium text-slate-400 mb-1">
+              Exchange Calendar
+            </label>
+            <input
+              type="text"
+              value={exchange}
+              onChange={(e) => setExchange(e.target.value)}
+              placeholder="Market type default"
+              maxLength={20}
+              className="w-full px-3 py-2 bg-slate-700 border border-slate-600 rounded-lg text-white focus:outline-none focus:ring-2 focus:ring-[#1079ff]"
+            />
+            <p className="text-xs text-slate-500 mt-1">
+              Follows the trading sessions added for this exchange, if any
+            </p>
+          </div>
+
           <div className="flex gap-3 justify-end pt-4">
             <button
               type="button"
@@ -255,6 +295,354 @@ function EditMarketModal({
   );
 }
 
+const WEEKDAYS = ['Sun', 'Mon', 'Tue', 'Wed', 'Thu', 'Fri', 'Sat'];
+const SESSION_MARKET_TYPES: SessionMarketType[] = ['forex', 'stock', 'index'];
+
+const inputClass =
+  'px-3 py-2 bg-slate-700 border border-slate-600 rounded-lg text-white text-sm focus:outline-none focus:ring-2 focus:ring-[#1079ff]';
+
+function formatStatusTime(value: string | null): string {
+  return value ? new Date(value).toLocaleString() : '-';
+}
+
+function TradingHoursSection() {
+  const [calendar, setCalendar] = useState<MarketCalendar | null>(null);
+  const [isSaving, setIsSaving] = useState(false);
+
+  const [sessionForm, setSessionForm] = useState({
+    marketType: 'stock' as SessionMarketType,
+    exchange: '',
+    openDay: 1,
+    openTime: '09:30',
+    closeDay: 1,
+    closeTime: '16:00',
+    timezone: 'America/New_York',
+  });
+  const [holidayForm, setHolidayForm] = useState({
+    name: '',
+    date: '',
+    marketType: '' as '' | SessionMarketType,
+    exchange: '',
+    earlyCloseTime: '',
+  });
+
+  const loadCalendar = useCallback(
+    () =>
+      api.getMarketCalendar()
+        .then(setCalendar)
+        .catch((error) => toast.error(getErrorMessage(error))),
+    []
+  );
+
+  useEffect(() => {
+    loadCalendar();
+  }, [loadCalendar]);
+
+  const runAction = async (action: () => Promise<unknown>, successMessage: string) => {
+    setIsSaving(true);
+    try {
+      await action();
+      toast.success(successMessage);
+      await loadCalendar();
+    } catch (error) {
+      toast.error(getErrorMessage(error));
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const handleAddSession = () =>
+    runAction(
+      () =>
+        api.createMarketSession({
+          ...sessionForm,
+          exchange: sessionForm.exchange.trim().toUpperCase() || null,
+        }),
+      'Trading session added'
+    );
+
+  const handleAddHoliday = async () => {
+    if (!holidayForm.name.trim() || !holidayForm.date) {
+      toast.error('Holiday name and date are required');
+      return;
+    }
+    await runAction(
+      () =>
+        api.createMarketHoliday({
+          name: holidayForm.name.trim(),
+          date: holidayForm.date,
+          marketType: holidayForm.marketType || null,
+          exchange: holidayForm.exchange.trim().toUpperCase() || null,
+          earlyCloseTime: holidayForm.earlyCloseTime || null,
+        }),
+      'Holiday added'
+    );
+    setHolidayForm((form) => ({ ...form, name: '', date: '', earlyCloseTime: '' }));
+  };
+
+  if (!calendar) {
+    return (
+      <div className="bg-slate-800 rounded-xl border border-slate-700 p-8 flex justify-center">
+        <Loader2 className="h-6 w-6 text-[#1079ff] animate-spin" />
+      </div>
+    );
+  }
+
+  return (
+    <div className="bg-slate-800 rounded-xl border border-slate-700">
+      <div className="p-4 border-b border-slate-700 flex items-center gap-2">
+        <Clock className="h-5 w-5 text-slate-400" />
+        <h2 className="text-lg font-semibold text-white">Trading Hours</h2>
+      </div>
+
+      <div className="p-4 grid grid-cols-1 md:grid-cols-4 gap-3">
+        {Object.entries(calendar.statuses).map(([marketType, status]) => (
+          <div key={marketType} className="bg-slate-900/50 rounded-lg p-3">
+            <div className="flex items-center justify-between">
+              <span className="text-white font-medium capitalize">{marketType}</span>
+              <span
+                className={cn(
+                  'px-2 py-0.5 rounded text-xs font-medium',
+                  status.isOpen ? 'bg-emerald-900/50 text-emerald-400' : 'bg-slate-700 text-slate-400'
+                )}
+              >
+                {status.state === 'ALWAYS_OPEN' ? '24/7' : status.isOpen ? 'Open' : 'Closed'}
+              </span>
+            </div>
+            {status.holiday && <p className="text-xs text-amber-400 mt-1">{status.holiday}</p>}
+            {status.state !== 'ALWAYS_OPEN' && (
+              <p className="text-xs text-slate-500 mt-1">
+                {status.isOpen
+                  ? `Closes ${formatStatusTime(status.nextClose)}`
+                  : `Opens ${formatStatusTime(status.nextOpen)}`}
+              </p>
+            )}
+          </div>
+        ))}
+      </div>
+
+      <div className="px-4 pb-4">
+        <h3 className="text-sm font-medium text-slate-400 mb-2">Sessions</h3>
+        <div className="overflow-x-auto">
+          <table className="w-full">
+            <thead>
+              <tr className="border-b border-slate-700">
+                <th className="px-4 py-2 text-left text-sm font-medium text-slate-400">Market</th>
+                <th className="px-4 py-2 text-left text-sm font-medium text-slate-400">Exchange</th>
+                <th className="px-4 py-2 text-left text-sm font-medium text-slate-400">Opens</th>
+                <th className="px-4 py-2 text-left text-sm font-medium text-slate-400">Closes</th>
+                <th className="px-4 py-2 text-left text-sm font-medium text-slate-400">Timezone</th>
+                <th className="px-4 py-2 text-left text-sm font-medium text-slate-400">Status</th>
+                <th className="px-4 py-2 text-right text-sm font-medium text-slate-400">Actions</th>
+              </tr>
+            </thead>
+            <tbody className="divide-y divide-slate-700">
+              {calendar.sessions.map((session) => (
+                <tr key={session.id}>
+                  <td className="px-4 py-2 text-white capitalize">{session.marketType}</td>
+                  <td className="px-4 py-2 text-slate-300">{session.exchange ?? 'Default'}</td>
+                  <td className="px-4 py-2 text-white">{WEEKDAYS[session.openDay]} {session.openTime}</td>
+                  <td className="px-4 py-2 text-white">{WEEKDAYS[session.closeDay]} {session.closeTime}</td>
+                  <td className="px-4 py-2 text-slate-300">{session.timezone}</td>
+                  <td className="px-4 py-2">
+                    <button
+                      disabled={isSaving}
+                      onClick={() =>
+                        runAction(
+                          () => api.updateMarketSession(session.id, { isActive: !session.isActive }),
+                          session.isActive ? 'Session disabled' : 'Session enabled'
+                        )
+                      }
+                      className={cn(
+                        'flex items-center gap-1 px-2 py-1 rounded text-xs font-medium transition-colors',
+                        session.isActive
+                          ? 'bg-emerald-900/50 text-emerald-400 hover:bg-emerald-900/70'
+                          : 'bg-slate-700 text-slate-400 hover:bg-slate-600'
+                      )}
+                    >
+                      {session.isActive ? <Check className="h-3 w-3" /> : <X className="h-3 w-3" />}
+                      {session.isActive ? 'Active' : 'Disabled'}
+                    </button>
+                  </td>
+                  <td className="px-4 py-2 text-right">
+                    <button
+                      disabled={isSaving}
+                      onClick={() => runAction(() => api.deleteMarketSession(session.id), 'Session removed')}
+                      className="p-2 text-slate-400 hover:text-red-400 hover:bg-slate-700 rounded-lg transition-colors"
+                    >
+                      <Trash2 className="h-4 w-4" />
+                    </button>
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+
+        <div className="mt-3 flex flex-wrap items-center gap-2">
+          <select
+            value={sessionForm.marketType}
+            onChange={(e) => setSessionForm({ ...sessionForm, marketType: e.target.value as SessionMarketType })}
+            className={inputClass}
+          >
+            {SESSION_MARKET_TYPES.map((type) => (
+              <option key={type} value={type}>{type}</option>
+            ))}
+          </select>
+          <input
+            type="text"
+            value={sessionForm.exchange}
+            onChange={(e) => setSessionForm({ ...sessionForm, exchange: e.target.value })}
+            placeholder="Exchange (optional)"
+            maxLength={20}
+            className={cn(inputClass, 'w-40')}
+          />
+          <select
+            value={sessionForm.openDay}
+            onChange={(e) => setSessionForm({ ...sessionForm, openDay: Number(e.target.value) })}
+            className={inputClass}
+          >
+            {WEEKDAYS.map((day, index) => (
+              <option key={day} value={index}>{day}</option>
+            ))}
+          </select>
+          <input
+            type="time"
+            value={sessionForm.openTime}
+            onChange={(e) => setSessionForm({ ...sessionForm, openTime: e.target.value })}
+            className={inputClass}
+          />
+          <span className="text-slate-500">to</span>
+          <select
+            value={sessionForm.closeDay}
+            onChange={(e) => setSessionForm({ ...sessionForm, closeDay: Number(e.target.value) })}
+            className={inputClass}
+          >
+            {WEEKDAYS.map((day, index) => (
+              <option key={day} value={index}>{day}</option>
+            ))}
+          </select>
+          <input
+            type="time"
+            value={sessionForm.closeTime}
+            onChange={(e) => setSessionForm({ ...sessionForm, closeTime: e.target.value })}
+            className={inputClass}
+          />
+          <input
+            type="text"
+            value={sessionForm.timezone}
+            onChange={(e) => setSessionForm({ ...sessionForm, timezone: e.target.value })}
+            placeholder="Timezone"
+            className={cn(inputClass, 'w-44')}
+          />
+          <button
+            onClick={handleAddSession}
+            disabled={isSaving}
+            className="flex items-center gap-1 px-3 py-2 bg-slate-700 hover:bg-slate-600 text-white text-sm rounded-lg transition-colors disabled:opacity-50"
+          >
+            <Plus className="h-4 w-4" />
+            Add Session
+          </button>
+        </div>
+      </div>
+
+      <div className="px-4 pb-4 border-t border-slate-700 pt-4">
+        <h3 className="text-sm font-medium text-slate-400 mb-2">Holidays & Early Closes</h3>
+        {calendar.holidays.length === 0 ? (
+          <p className="text-sm text-slate-500">No holidays scheduled</p>
+        ) : (
+          <div className="overflow-x-auto">
+            <table className="w-full">
+              <thead>
+                <tr className="border-b border-slate-700">
+                  <th className="px-4 py-2 text-left text-sm font-medium text-slate-400">Date</th>
+                  <th className="px-4 py-2 text-left text-sm font-medium text-slate-400">Name</th>
+                  <th className="px-4 py-2 text-left text-sm font-medium text-slate-400">Applies To</th>
+                  <th className="px-4 py-2 text-left text-sm font-medium text-slate-400">Hours</th>
+                  <th className="px-4 py-2 text-right text-sm font-medium text-slate-400">Actions</th>
+                </tr>
+              </thead>
+              <tbody className="divide-y divide-slate-700">
+                {calendar.holidays.map((holiday) => (
+                  <tr key={holiday.id}>
+                    <td className="px-4 py-2 text-white">{holiday.date}</td>
+                    <td className="px-4 py-2 text-white">{holiday.name}</td>
+                    <td className="px-4 py-2 text-slate-300 capitalize">
+                      {[holiday.marketType ?? 'All markets', holiday.exchange].filter(Boolean).join(' · ')}
+                    </td>
+                    <td className="px-4 py-2 text-slate-300">
+                      {holiday.earlyCloseTime ? `Closes at ${holiday.earlyCloseTime}` : 'Closed'}
+                    </td>
+                    <td className="px-4 py-2 text-right">
+                      <button
+                        disabled={isSaving}
+                        onClick={() => runAction(() => api.deleteMarketHoliday(holiday.id), 'Holiday removed')}
+                        className="p-2 text-slate-400 hover:text-red-400 hover:bg-slate-700 rounded-lg transition-colors"
+                      >
+                        <Trash2 className="h-4 w-4" />
+                      </button>
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        )}
+
+        <div className="mt-3 flex flex-wrap items-center gap-2">
+          <input
+            type="date"
+            value={holidayForm.date}
+            onChange={(e) => setHolidayForm({ ...holidayForm, date: e.target.value })}
+            className={inputClass}
+          />
+          <input
+            type="text"
+            value={holidayForm.name}
+            onChange={(e) => setHolidayForm({ ...holidayForm, name: e.target.value })}
+            placeholder="Holiday name"
+            maxLength={100}
+            className={cn(inputClass, 'w-48')}
+          />
+          <select
+            value={holidayForm.marketType}
+            onChange={(e) => setHolidayForm({ ...holidayForm, marketType: e.target.value as '' | SessionMarketType })}
+            className={inputClass}
+          >
+            <option value="">All markets</option>
+            {SESSION_MARKET_TYPES.map((type) => (
+              <option key={type} value={type}>{type}</option>
+            ))}
+          </select>
+          <input
+            type="text"
+            value={holidayForm.exchange}
+            onChange={(e) => setHolidayForm({ ...holidayForm, exchange: e.target.value })}
+            placeholder="Exchange (optional)"
+            maxLength={20}
+            className={cn(inputClass, 'w-40')}
+          />
+          <input
+            type="time"
+            value={holidayForm.earlyCloseTime}
+            onChange={(e) => setHolidayForm({ ...holidayForm, earlyCloseTime: e.target.value })}
+            title="Early close time (leave empty for a full-day closure)"
+            className={inputClass}
+          />
+          <button
+            onClick={handleAddHoliday}
+            disabled={isSaving}
+            className="flex items-center gap-1 px-3 py-2 bg-slate-700 hover:bg-slate-600 text-white text-sm rounded-lg transition-colors disabled:opacity-50"
+          >
+            <Plus className="h-4 w-4" />
+            Add Holiday
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+}
+
 export default function MarketsPage() {
   const {
     marketConfigs,
@@ -274,7 +662,7 @@ export default function MarketsPage() {
   }, [fetchMarketConfigs]);
 
   const handleSaveMarket = async (
-    config: Partial<Pick<MarketConfig, 'isActive' | 'payoutPercent' | 'minTradeAmount' | 'maxTradeAmount' | 'volatilityMode'>>
+    config: Partial<Pick<MarketConfig, 'isActive' | 'payoutPercent' | 'minTradeAmount' | 'maxTradeAmount' | 'volatilityMode' | 'drawPolicy' | 'exchange'>>
   ) => {
     if (!editingMarket) return;
     try {
@@ -428,6 +816,8 @@ export default function MarketsPage() {
         </>
       )}
 
+      <TradingHoursSection />
+
       {editingMarket && (
         <EditMarketModal
           market={editingMarket}
@@ -0,0 +1,504 @@
+'use client';
+
+import { useEffect, useState } from 'react';
+import {
+  Gift,
+  Loader2,
+  Plus,
+  Pencil,
+  Trash2,
+  Check,
+  X,
+  Ticket,
+  Sparkles,
+} from 'lucide-react';
+import toast from 'react-hot-toast';
+import { api } from '@/lib/api';
+import { cn } from '@/lib/utils';
+import type { Promotion, PromotionInput, PromotionType } from '@/types';
+
+function getErrorMessage(error: unknown, fallback: string): string {
+  const errorObj = error as { response?: { data?: { error?: string } } } | null;
+  return errorObj?.response?.data?.error || fallback;
+}
+
+function formatUsd(value: number | undefined): string {
+  return `$${Number(value ?? 0).toFixed(2)}`;
+}
+
+// <input type="datetime-local"> works in local time without a zone suffix
+function toDateTimeInput(value: string | null): string {
+  if (!value) return '';
+  const date = new Date(value);
+  const offset = date.getTimezoneOffset() * 60000;
+  return new Date(date.getTime() - offset).toISOString().slice(0, 16);
+}
+
+const inputClass =
+  'w-full px-3 py-2 bg-slate-700 border border-slate-600 rounded-lg text-white placeholder-slate-400 focus:outline-none focus:ring-2 focus:ring-[#1079ff]';
+
+interface PromotionModalProps {
+  promotion?: Promotion;
+  onSave: () => void;
+  onCancel: () => void;
+}
+
+function PromotionModal({ promotion, onSave, onCancel }: PromotionModalProps) {
+  const isEditing = !!promotion;
+  const [isSubmitting, setIsSubmitting] = useState(false);
+
+  const [name, setName] = useState(promotion?.name || '');
+  const [type, setType] = useState<PromotionType>(promotion?.type || 'PROMO_CODE');
+  const [code, setCode] = useState(promotion?.code || '');
+  const [bonusPercent, setBonusPercent] = useState(promotion?.bonusPercent?.toString() || '100');
+  const [maxBonus, setMaxBonus] = useState(promotion?.maxBonus?.toString() || '100');
+  const [minDeposit, setMinDeposit] = useState(promotion?.minDeposit?.toString() || '10');
+  const [wageringMultiplier, setWageringMultiplier] = useState(promotion?.wageringMultiplier?.toString() || '10');
+  const [expiryDays, setExpiryDays] = useState(promotion?.expiryDays?.toString() || '30');
+  const [maxRedemptions, setMaxRedemptions] = useState(promotion?.maxRedemptions?.toString() || '');
+  const [startsAt, setStartsAt] = useState(toDateTimeInput(promotion?.startsAt ?? null));
+  const [endsAt, setEndsAt] = useState(toDateTimeInput(promotion?.endsAt ?? null));
+  const [isActive, setIsActive] = useState(promotion?.isActive ?? true);
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setIsSubmitting(true);
+
+    const data: PromotionInput = {
+      name: name.trim(),
+      type,
+      code: type === 'PROMO_CODE' ? code.trim() : null,
+      bonusPercent: parseFloat(bonusPercent),
+      maxBonus: parseFloat(maxBonus),
+      minDeposit: parseFloat(minDeposit) || 0,
+      wageringMultiplier: parseFloat(wageringMultiplier) || 0,
+      expiryDays: parseInt(expiryDays, 10),
+      maxRedemptions: maxRedemptions ? parseInt(maxRedemptions, 10) : null,
+      startsAt: startsAt ? new Date(startsAt).toISOString() : null,
+      endsAt: endsAt ? new Date(endsAt).toISOString() : null,
+      isActive,
+    };
+
+    try {
+      if (isEditing && promotion) {
+        await api.updatePromotion(promotion.id, data);
+        toast.success('Promotion updated');
+      } else {
+        await api.createPromotion(data);
+        toast.success('Promotion created');
+      }
+      onSave();
+    } catch (error) {
+      toast.error(getErrorMessage(error, isEditing ? 'Failed to update promotion' : 'Failed to create promotion'));
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center overflow-y-auto">
+      <div className="absolute inset-0 bg-black/50" onClick={onCancel} />
+      <div className="relative bg-slate-800 rounded-xl p-6 max-w-2xl w-full mx-4 my-8 border border-slate-700 max-h-[90vh] overflow-y-auto">
+        <div className="flex items-center justify-between mb-6">
+          <h3 className="text-lg font-semibold text-white">{isEditing ? 'Edit' : 'New'} Promotion</h3>
+          <button onClick={onCancel} className="p-1 hover:bg-slate-700 rounded">
+            <X className="h-5 w-5 text-slate-400" />
+          </button>
+        </div>
+
+        <form onSubmit={handleSubmit} className="space-y-4">
+          <div>
+            <label className="block text-sm font-medium text-slate-400 mb-1">Name *</label>
+            <input
+              type="text"
+              value={name}
+              onChange={(e) => setName(e.target.value)}
+              placeholder="Welcome bonus"
+              className={inputClass}
+              required
+            />
+          </div>
+
+          <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+            <div>
+              <label className="block text-sm font-medium text-slate-400 mb-1">Type *</label>
+              <select
+                value={type}
+                onChange={(e) => setType(e.target.value as PromotionType)}
+                className={inputClass}
+              >
+                <option value="PROMO_CODE">Promo code</option>
+                <option value="FIRST_DEPOSIT">Automatic first deposit</option>
+              </select>
+            </div>
+            {type === 'PROMO_CODE' && (
+              <div>
+                <label className="block text-sm font-medium text-slate-400 mb-1">Code *</label>
+                <input
+                  type="text"
+                  value={code}
+                  onChange={(e) => setCode(e.target.value.toUpperCase().replace(/[^A-Z0-9_-]/g, ''))}
+                  placeholder="WELCOME100"
+                  className={cn(inputClass, 'font-mono')}
+                  required
+                />
+              </div>
+            )}
+          </div>
+
+          <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+            <div>
+              <label className="block text-sm font-medium text-slate-400 mb-1">Bonus (% of deposit) *</label>
+              <input
+                type="number"
+                value={bonusPercent}
+                onChange={(e) => setBonusPercent(e.target.value)}
+                min="1"
+                max="500"
+                step="any"
+                className={inputClass}
+                required
+              />
+            </div>
+            <div>
+              <label className="block text-sm font-medium text-slate-400 mb-1">Maximum bonus ($) *</label>
+              <input
+                type="number"
+                value={maxBonus}
+                onChange={(e) => setMaxBonus(e.target.value)}
+                min="0.01"
+                step="0.01"
+                className={inputClass}
+                required
+              />
+            </div>
+            <div>
+              <label className="block text-sm font-medium text-slate-400 mb-1">Minimum deposit ($)</label>
+              <input
+                type="number"
+                value={minDeposit}
+                onChange={(e) => setMinDeposit(e.target.value)}
+                min="0"
+                step="0.01"
+                className={inputClass}
+              />
+            </div>
+          </div>
+
+          <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+            <div>
+              <label className="block text-sm font-medium text-slate-400 mb-1">Wagering (× bonus)</label>
+              <input
+                type="number"
+                value={wageringMultiplier}
+                onChange={(e) => setWageringMultiplier(e.target.value)}
+                min="0"
+                max="100"
+                step="any"
+                className={inputClass}
+              />
+            </div>
+            <div>
+              <label className="block text-sm font-medium text-slate-400 mb-1">Expires after (days)</label>
+              <input
+                type="number"
+                value={expiryDays}
+                onChange={(e) => setExpiryDays(e.target.value)}
+                min="1"
+                max="365"
+                className={inputClass}
+                required
+              />
+            </div>
+            <div>
+              <label className="block text-sm font-medium text-slate-400 mb-1">Redemption limit</label>
+              <input
+                type="number"
+                value={maxRedemptions}
+                onChange={(e) => setMaxRedemptions(e.target.value)}
+                min="1"
+                placeholder="Unlimited"
+                className={inputClass}
+              />
+            </div>
+          </div>
+
+          <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+            <div>
+              <label className="block text-sm font-medium text-slate-400 mb-1">Starts</label>
+              <input
+                type="datetime-local"
+                value={startsAt}
+                onChange={(e) => setStartsAt(e.target.value)}
+                className={inputClass}
+              />
+            </div>
+            <div>
+              <label className="block text-sm font-medium text-slate-400 mb-1">Ends</label>
+              <input
+                type="datetime-local"
+                value={endsAt}
+                onChange={(e) => setEndsAt(e.target.value)}
+                className={inputClass}
+              />
+            </div>
+          </div>
+
+          <label className="flex items-center gap-2 text-sm text-slate-300">
+            <input
+              type="checkbox"
+              checked={isActive}
+              onChange={(e) => setIsActive(e.target.checked)}
+              className="rounded border-slate-600 bg-slate-700"
+            />
+            Active
+          </label>
+
+          <div className="flex justify-end gap-3 pt-2">
+            <button type="button" onClick={onCancel} className="px-4 py-2 text-slate-400 hover:text-white transition-colors">
+              Cancel
+            </button>
+            <button
+              type="submit"
+              disabled={isSubmitting}
+              className="flex items-center gap-2 px-4 py-2 bg-[#1079ff] hover:bg-[#1079ff]/80 text-white rounded-lg font-medium transition-colors disabled:opacity-50"
+            >
+              {isSubmitting && <Loader2 className="h-4 w-4 animate-spin" />}
+              {isEditing ? 'Save Changes' : 'Create Promotion'}
+            </button>
+          </div>
+        </form>
+      </div>
+    </div>
+  );
+}
+
+function DeleteModal({
+  promotion,
+  onConfirm,
+  onCancel,
+}: {
+  promotion: Promotion;
+  onConfirm: () => void;
+  onCancel: () => void;
+}) {
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center">
+      <div className="absolute inset-0 bg-black/50" onClick={onCancel} />
+      <div className="relative bg-slate-800 rounded-xl p-6 max-w-md w-full mx-4 border border-slate-700">
+        <h3 className="text-lg font-semibold text-white">Delete Promotion</h3>
+        <p className="mt-2 text-slate-400">
+          Are you sure you want to delete <span className="text-white font-medium">{promotion.name}</span>?
+          Promotions that have been redeemed can only be deactivated.
+        </p>
+        <div className="mt-6 flex gap-3 justify-end">
+          <button onClick={onCancel} className="px-4 py-2 text-slate-400 hover:text-white transition-colors">
+            Cancel
+          </button>
+          <button
+            onClick={onConfirm}
+            className="px-4 py-2 bg-red-600 hover:bg-red-700 text-white rounded-lg font-medium transition-colors"
+          >
+            Delete
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+}
+
+export default function PromotionsPage() {
+  const [promotions, setPromotions] = useState<Promotion[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [editModal, setEditModal] = useState<{ promotion?: Promotion } | null>(null);
+  const [deleteModal, setDeleteModal] = useState<Promotion | null>(null);
+
+  const fetchPromotions = async () => {
+    try {
+      setPromotions(await api.getPromotions());
+    } catch (error) {
+      toast.error(getErrorMessage(error, 'Failed to load promotions'));
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  useEffect(() => {
+    fetchPromotions();
+  }, []);
+
+  const handleToggleActive = async (promotion: Promotion) => {
+    try {
+      await api.updatePromotion(promotion.id, { isActive: !promotion.isActive });
+      toast.success(`${promotion.name} ${promotion.isActive ? 'deactivated' : 'activated'}`);
+      fetchPromotions();
+    } catch (error) {
+      toast.error(getErrorMessage(error, 'Failed to update promotion'));
+    }
+  };
+
+  const handleDelete = async () => {
+    if (!deleteModal) return;
+    try {
+      await api.deletePromotion(deleteModal.id);
+      toast.success('Promotion deleted');
+      setDeleteModal(null);
+      fetchPromotions();
+    } catch (error) {
+      toast.error(getErrorMessage(error, 'Failed to delete promotion'));
+    }
+  };
+
+  if (isLoading) {
+    return (
+      <div className="flex items-center justify-center h-64">
+        <Loader2 className="h-8 w-8 text-[#1079ff] animate-spin" />
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-6">
+      <div className="flex items-center justify-between">
+        <div>
+          <h1 className="text-2xl font-bold text-white">Promotions</h1>
+          <p className="text-slate-400 mt-1">Deposit bonuses, promo codes and their wagering requirements</p>
+        </div>
+        <button
+          onClick={() => setEditModal({})}
+          className="flex items-center gap-2 px-4 py-2 bg-[#1079ff] hover:bg-[#1079ff]/80 text-white rounded-lg font-medium transition-colors"
+        >
+          <Plus className="h-4 w-4" />
+          New Promotion
+        </button>
+      </div>
+
+      {promotions.length === 0 ? (
+        <div className="bg-slate-800 rounded-xl border border-slate-700 p-8 text-center">
+          <Gift className="h-12 w-12 text-slate-500 mx-auto" />
+          <p className="mt-4 text-slate-400">No promotions yet</p>
+        </div>
+      ) : (
+        <div className="bg-slate-800 rounded-xl border border-slate-700 overflow-x-auto">
+          <table className="w-full">
+            <thead>
+              <tr className="border-b border-slate-700">
+                <th className="px-6 py-3 text-left text-sm font-medium text-slate-400">Promotion</th>
+                <th className="px-6 py-3 text-left text-sm font-medium text-slate-400">Bonus</th>
+                <th className="px-6 py-3 text-left text-sm font-medium text-slate-400">Wagering</th>
+                <th className="px-6 py-3 text-left text-sm font-medium text-slate-400">Redeemed</th>
+                <th className="px-6 py-3 text-left text-sm font-medium text-slate-400">Granted / Converted</th>
+                <th className="px-6 py-3 text-left text-sm font-medium text-slate-400">Status</th>
+                <th className="px-6 py-3 text-right text-sm font-medium text-slate-400">Actions</th>
+              </tr>
+            </thead>
+            <tbody className="divide-y divide-slate-700">
+              {promotions.map((promotion) => (
+                <tr key={promotion.id} className="hover:bg-slate-700/50 transition-colors">
+                  <td className="px-6 py-4">
+                    <div className="flex items-center gap-2">
+                      {promotion.type === 'PROMO_CODE' ? (
+                        <Ticket className="h-4 w-4 text-[#1079ff]" />
+                      ) : (
+                        <Sparkles className="h-4 w-4 text-amber-400" />
+                      )}
+                      <span className="text-white font-medium">{promotion.name}</span>
+                    </div>
+                    <p className="text-xs text-slate-400 mt-1">
+                      {promotion.code ? (
+                        <span className="font-mono text-slate-300">{promotion.code}</span>
+                      ) : (
+                        'Automatic on first deposit'
+                      )}
+                      {promotion.endsAt && ` · ends ${new Date(promotion.endsAt).toLocaleDateString()}`}
+                    </p>
+                  </td>
+                  <td className="px-6 py-4 text-sm">
+                    <span className="text-white">{promotion.bonusPercent}%</span>
+                    <span className="text-slate-400"> up to {formatUsd(promotion.maxBonus)}</span>
+                    {promotion.minDeposit > 0 && (
+                      <p className="text-xs text-slate-500">Min deposit {formatUsd(promotion.minDeposit)}</p>
+                    )}
+                  </td>
+                  <td className="px-6 py-4 text-sm text-slate-300">
+                    {promotion.wageringMultiplier}× bonus
+                    <p className="text-xs text-slate-500">within {promotion.expiryDays} days</p>
+                  </td>
+                  <td className="px-6 py-4 text-sm text-slate-300">
+                    {promotion.redemptionCount}
+                    {promotion.maxRedemptions !== null && ` / ${promotion.maxRedemptions}`}
+                    {!!promotion.activeCount && (
+                      <p className="text-xs text-slate-500">{promotion.activeCount} in progress</p>
+                    )}
+                  </td>
+                  <td className="px-6 py-4 text-sm">
+                    <span className="text-white">{formatUsd(promotion.grantedAmount)}</span>
+                    <span className="text-slate-400"> / {formatUsd(promotion.convertedAmount)}</span>
+                  </td>
+                  <td className="px-6 py-4">
+                    <button
+                      onClick={() => handleToggleActive(promotion)}
+                      className={cn(
+                        'flex items-center gap-1 px-2 py-1 rounded text-xs font-medium transition-colors',
+                        promotion.isActive
+                          ? 'bg-emerald-900/50 text-emerald-400 hover:bg-emerald-900/70'
+                          : 'bg-slate-700 text-slate-400 hover:bg-slate-600'
+                      )}
+                    >
+                      {promotion.isActive ? <Check className="h-3 w-3" /> : <X className="h-3 w-3" />}
+                      {promotion.isActive ? 'Active' : 'Disabled'}
+                    </button>
+                  </td>
+                  <td className="px-6 py-4">
+                    <div className="flex items-center justify-end gap-2">
+                      <button
+                        onClick={() => setEditModal({ promotion })}
+                        className="p-2 text-slate-400 hover:text-white hover:bg-slate-700 rounded-lg transition-colors"
+                        title="Edit promotion"
+                      >
+                        <Pencil className="h-4 w-4" />
+                      </button>
+                      <button
+                        onClick={() => setDeleteModal(promotion)}
+                        className="p-2 text-slate-400 hover:text-red-400 hover:bg-slate-700 rounded-lg transition-colors"
+                        title="Delete promotion"
+                      >
+                        <Trash2 className="h-4 w-4" />
+                      </button>
+                    </div>
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      )}
+
+      <div className="bg-blue-900/20 border border-blue-900/50 rounded-lg p-4">
+        <h3 className="text-sm font-medium text-blue-400 mb-2">How bonuses work</h3>
+        <p className="text-xs text-blue-300/80 leading-relaxed">
+          A bonus is held apart from the user&apos;s balance until they have traded the wagering
+          requirement (the bonus times the multiplier) on their live account, then it is added to
+          their balance. Requesting a withdrawal before that forfeits it (it is restored if the
+          withdrawal is rejected, cancelled or fails), and it expires if the requirement is not met
+          in time. Only converted bonuses count as a cost in the financial reports.
+        </p>
+      </div>
+
+      {editModal && (
+        <PromotionModal
+          promotion={editModal.promotion}
+          onSave={() => {
+            setEditModal(null);
+            fetchPromotions();
+          }}
+          onCancel={() => setEditModal(null)}
+        />
+      )}
+
+      {deleteModal && (
+        <DeleteModal promotion={deleteModal} onConfirm={handleDelete} onCancel={() => setDeleteModal(null)} />
+      )}
+    </div>
+  );
+}
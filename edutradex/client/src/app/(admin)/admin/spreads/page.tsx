@@ -260,21 +260,27 @@ export default function SpreadsPage() {
             <div className="flex-1">
               <h3 className="text-sm font-medium text-white">Market Status</h3>
               <div className="flex items-center gap-4 mt-1 text-xs text-slate-400">
-                <span>
-                  Deriv API:{' '}
-                  <span
-                    className={cn(
-                      'font-medium',
-                      marketStatus.derivConnected ? 'text-emerald-400' : 'text-red-400'
-                    )}
-                  >
-                    {marketStatus.derivConnected ? 'Connected' : 'Disconnected'}
+                {(marketStatus.providers ?? []).map((provider) => (
+                  <span key={provider.name}>
+                    {provider.name}:{' '}
+                    <span
+                      className={cn(
+                        'font-medium',
+                        provider.connected ? 'text-emerald-400' : 'text-red-400'
+                      )}
+                    >
+                      {provider.connected ? 'Connected' : 'Disconnected'}
+                    </span>
                   </span>
-                </span>
+                ))}
                 <span>
                   Mode:{' '}
                   <span className="font-medium text-slate-300">
-                    {marketStatus.usingSimulation ? 'Simulation' : 'Real Data'}
+                    {marketStatus.dataMode === 'replay'
+                      ? 'Replay'
+                      : marketStatus.usingSimulation
+                      ? 'Simulation'
+                      : 'Real Data'}
                   </span>
                 </span>
                 <span>
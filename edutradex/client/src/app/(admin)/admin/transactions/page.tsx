@@ -24,6 +24,8 @@ import {
   ChevronRight,
   FileText,
   Hash,
+  Send,
+  Ban,
 } from 'lucide-react';
 import { format } from 'date-fns';
 import { api } from '@/lib/api';
@@ -59,7 +61,43 @@ interface Transaction {
   userId: string;
 }
 
+// Badges for statuses only withdrawals have
+const WITHDRAWAL_BADGES: Partial<Record<WithdrawalStatus, { icon: typeof Clock; className: string; label: string }>> = {
+  UNDER_REVIEW: { icon: Clock, className: 'text-purple-400 bg-purple-500/20', label: 'Under Review' },
+  PROCESSING: { icon: Send, className: 'text-blue-400 bg-blue-500/20', label: 'Sent' },
+  COMPLETED: { icon: CheckCircle, className: 'text-emerald-400 bg-emerald-500/20', label: 'Completed' },
+  FAILED: { icon: XCircle, className: 'text-red-400 bg-red-500/20', label: 'Failed' },
+  CANCELLED: { icon: Ban, className: 'text-slate-400 bg-slate-500/20', label: 'Cancelled' },
+};
+
+// Filter bucket for a transaction - APPROVED means done for a deposit but
+// still awaiting payout for a withdrawal
+function getStatusGroup(tx: Pick<Transaction, 'type' | 'status'>): Exclude<TransactionStatus, 'all'> {
+  switch (tx.status) {
+    case 'PENDING':
+    case 'UNDER_REVIEW':
+    case 'PROCESSING':
+      return 'PENDING';
+    case 'APPROVED':
+      return tx.type === 'deposit' ? 'APPROVED' : 'PENDING';
+    case 'COMPLETED':
+      return 'APPROVED';
+    default:
+      return 'REJECTED';
+  }
+}
+
 function StatusBadge({ status }: { status: DepositStatus | WithdrawalStatus }) {
+  const withdrawalBadge = WITHDRAWAL_BADGES[status as WithdrawalStatus];
+  if (withdrawalBadge) {
+    const { icon: Icon, className, label } = withdrawalBadge;
+    return (
+      <span className={cn('inline-flex items-center gap-1 px-2 py-0.5 rounded-full text-[10px] sm:text-xs font-medium', className)}>
+        <Icon className="h-3 w-3" />
+        {label}
+      </span>
+    );
+  }
   if (status === 'PENDING') {
     return (
       <span className="inline-flex items-center gap-1 px-2 py-0.5 rounded-full text-[10px] sm:text-xs font-medium text-amber-400 bg-amber-500/20">
@@ -177,6 +215,7 @@ export default function AdminTransactionsPage() {
       cryptoCurrency: w.cryptoCurrency,
       walletAddress: w.walletAddress,
       network: w.network,
+      transactionHash: w.payoutReference,
       adminNote: w.adminNote,
       user: w.user,
       userId: w.userId,
@@ -194,7 +233,7 @@ export default function AdminTransactionsPage() {
 
     return allTransactions.filter(tx => {
       if (typeFilter !== 'all' && tx.type !== typeFilter) return false;
-      if (statusFilter !== 'all' && tx.status !== statusFilter) return false;
+      if (statusFilter !== 'all' && getStatusGroup(tx) !== statusFilter) return false;
       if (cutoff && new Date(tx.createdAt) < cutoff) return false;
 
       // Search by ID, user name, email, phone, wallet address
@@ -216,7 +255,7 @@ export default function AdminTransactionsPage() {
     totalDeposits: depositStats?.totalVolume ?? 0,
     totalWithdrawals: withdrawalStats?.totalVolume ?? 0,
     pendingDeposits: depositStats?.pending ?? 0,
-    pendingWithdrawals: withdrawalStats?.pending ?? 0,
+    pendingWithdrawals: (withdrawalStats?.pending ?? 0) + (withdrawalStats?.underReview ?? 0),
     totalTransactions: allTransactions.length,
   }), [depositStats, withdrawalStats, allTransactions]);
 
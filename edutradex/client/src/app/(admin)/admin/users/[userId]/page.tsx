@@ -30,13 +30,24 @@ import {
   RotateCcw,
   Trash2,
   Eye,
+  Gauge,
+  PlayCircle,
 } from 'lucide-react';
 import toast from 'react-hot-toast';
 import { api } from '@/lib/api';
 import { formatCurrency, formatDate, cn } from '@/lib/utils';
 import { useAuthStore } from '@/store/auth.store';
 import { PasswordConfirmModal } from '@/components/modals/PasswordConfirmModal';
-import type { AdminUserDetail } from '@/types';
+import { TradeReplayModal } from '@/components/trading/TradeReplayModal';
+import type { AdminUserDetail, TradingLimits, TradingLimitType } from '@/types';
+
+const TRADING_LIMIT_FIELDS: { type: TradingLimitType; label: string; isMoney: boolean }[] = [
+  { type: 'dailyLossLimit', label: 'Daily Loss Limit', isMoney: true },
+  { type: 'dailyStakeLimit', label: 'Daily Stake Limit', isMoney: true },
+  { type: 'maxStakePerTrade', label: 'Max Stake / Trade', isMoney: true },
+  { type: 'maxOpenTrades', label: 'Max Open Trades', isMoney: false },
+  { type: 'sessionTimeLimitMinutes', label: 'Session Limit (min)', isMoney: false },
+];
 
 interface LiveTrade {
   id: string;
@@ -174,6 +185,8 @@ export default function UserDetailPage() {
   const [isOnline, setIsOnline] = useState(false);
   const [liveTrades, setLiveTrades] = useState<LiveTrade[]>([]);
   const [accountStats, setAccountStats] = useState<AccountStats | null>(null);
+  const [tradingLimits, setTradingLimits] = useState<TradingLimits | null>(null);
+  const [replayTradeId, setReplayTradeId] = useState<string | null>(null);
   const [transactions, setTransactions] = useState<Transaction[]>([]);
   const [transactionsPagination, setTransactionsPagination] = useState({
     page: 1,
@@ -211,6 +224,7 @@ export default function UserDetailPage() {
       setIsOnline(data.isOnline);
       setLiveTrades(data.liveTrades);
       setAccountStats(data.accountStats);
+      setTradingLimits(data.tradingLimits);
     } catch (err) {
       if (showLoading) {
         setError('Failed to load user details');
@@ -659,6 +673,55 @@ export default function UserDetailPage() {
         </div>
       </div>
 
+      {/* Self-imposed Trading Limits */}
+      {tradingLimits && (
+        <div className="bg-slate-800/50 border border-slate-700/50 rounded-xl p-4">
+          <div className="flex items-center gap-3 mb-4">
+            <div className="p-2 rounded-lg bg-purple-500/20">
+              <Gauge className="h-4 w-4 text-purple-400" />
+            </div>
+            <div className="flex-1">
+              <p className="text-sm font-semibold text-white">Trading Limits</p>
+              <p className="text-xs text-slate-400">Self-imposed by the user, LIVE account only</p>
+            </div>
+            {tradingLimits.selfExcludedUntil && new Date(tradingLimits.selfExcludedUntil) > new Date() ? (
+              <span className="px-2 py-1 rounded-lg text-xs font-medium bg-red-500/20 text-red-400">
+                Self-excluded until {formatDate(tradingLimits.selfExcludedUntil)}
+              </span>
+            ) : tradingLimits.timeOutUntil && new Date(tradingLimits.timeOutUntil) > new Date() ? (
+              <span className="px-2 py-1 rounded-lg text-xs font-medium bg-yellow-500/20 text-yellow-400">
+                Time-out until {formatDate(tradingLimits.timeOutUntil)}
+              </span>
+            ) : null}
+          </div>
+          <div className="grid grid-cols-2 lg:grid-cols-5 gap-3">
+            {TRADING_LIMIT_FIELDS.map(({ type, label, isMoney }) => {
+              const value = tradingLimits.limits[type];
+              const pending = tradingLimits.pendingChanges.find((change) => change.limitType === type);
+              const format = (v: number | null) =>
+                v === null ? 'No limit' : isMoney ? formatCurrency(v) : v.toString();
+
+              return (
+                <div key={type} className="bg-slate-900/50 rounded-lg p-3">
+                  <p className="text-xs text-slate-400">{label}</p>
+                  <p className="text-sm font-bold text-white">{format(value)}</p>
+                  {pending && (
+                    <p className="text-xs text-yellow-400 mt-1">
+                      {format(pending.newValue)} from {formatDate(pending.effectiveAt)}
+                    </p>
+                  )}
+                </div>
+              );
+            })}
+          </div>
+          <div className="flex flex-wrap gap-4 mt-3 text-xs text-slate-400">
+            <span>Today&apos;s loss: {formatCurrency(tradingLimits.usage.dailyLoss)}</span>
+            <span>Today&apos;s stake: {formatCurrency(tradingLimits.usage.dailyStake)}</span>
+            <span>Open trades: {tradingLimits.usage.openTrades}</span>
+          </div>
+        </div>
+      )}
+
       {/* Tabs */}
       <div className="flex gap-2 border-b border-slate-700/50 pb-2">
         {(['overview', 'trades', 'transactions'] as Tab[]).map((tab) => (
@@ -812,12 +875,13 @@ export default function UserDetailPage() {
                   <th className="px-4 py-3 text-left text-xs font-medium text-slate-400 uppercase">Profit</th>
                   <th className="px-4 py-3 text-left text-xs font-medium text-slate-400 uppercase">Status</th>
                   <th className="px-4 py-3 text-left text-xs font-medium text-slate-400 uppercase">Date</th>
+                  <th className="px-4 py-3 text-left text-xs font-medium text-slate-400 uppercase">Replay</th>
                 </tr>
               </thead>
               <tbody className="divide-y divide-slate-700/50">
                 {(!user.recentTrades || user.recentTrades.length === 0) ? (
                   <tr>
-                    <td colSpan={6} className="px-4 py-8 text-center text-slate-400">
+                    <td colSpan={7} className="px-4 py-8 text-center text-slate-400">
                       No trades found
                     </td>
                   </tr>
@@ -866,6 +930,15 @@ export default function UserDetailPage() {
                       <td className="px-4 py-3 text-xs text-slate-400" suppressHydrationWarning>
                         {formatDate(trade.openedAt)}
                       </td>
+                      <td className="px-4 py-3">
+                        <button
+                          onClick={() => setReplayTradeId(trade.id)}
+                          className="p-1.5 rounded-lg text-slate-400 hover:text-white hover:bg-slate-700 transition-colors"
+                          title="Replay trade"
+                        >
+                          <PlayCircle className="h-4 w-4" />
+                        </button>
+                      </td>
                     </tr>
                   ))
                 )}
@@ -944,13 +1017,13 @@ export default function UserDetailPage() {
                         <td className="px-4 py-3">
                           <span className={cn(
                             'px-2 py-1 rounded text-xs font-medium',
-                            tx.status === 'APPROVED'
+                            tx.status === 'APPROVED' || tx.status === 'COMPLETED'
                               ? 'bg-emerald-500/20 text-emerald-400'
-                              : tx.status === 'PENDING'
+                              : ['PENDING', 'UNDER_REVIEW', 'PROCESSING'].includes(tx.status)
                               ? 'bg-amber-500/20 text-amber-400'
                               : 'bg-red-500/20 text-red-400'
                           )}>
-                            {tx.status}
+                            {tx.status.replace('_', ' ')}
                           </span>
                         </td>
                         <td className="px-4 py-3 text-xs text-slate-400" suppressHydrationWarning>
@@ -1000,6 +1073,15 @@ export default function UserDetailPage() {
         />
       )}
 
+      {/* Trade replay */}
+      {replayTradeId && (
+        <TradeReplayModal
+          tradeId={replayTradeId}
+          userId={userId}
+          onClose={() => setReplayTradeId(null)}
+        />
+      )}
+
       {/* Password confirmation modal for impersonation */}
       {user && (
         <PasswordConfirmModal
@@ -18,41 +18,163 @@ import {
   X,
   RefreshCw,
   ArrowDownRight,
+  FileSearch,
+  Send,
+  AlertTriangle,
+  Ban,
+  Paperclip,
+  ShieldCheck,
+  Settings2,
 } from 'lucide-react';
 import toast from 'react-hot-toast';
 import { api } from '@/lib/api';
 import { formatCurrency, formatDate, cn } from '@/lib/utils';
-import type { Withdrawal, WithdrawalStatus, WithdrawalMethod, WithdrawalStats } from '@/types';
+import type {
+  Withdrawal,
+  WithdrawalStatus,
+  WithdrawalMethod,
+  WithdrawalStats,
+  WithdrawalRule,
+  WithdrawalRuleAction,
+  WithdrawalRuleCheck,
+  WithdrawalRuleOutcome,
+  WithdrawalRuleSettings,
+} from '@/types';
 
 type DateRange = 'all' | 'today' | '7days' | '30days';
 
-function WithdrawalDetailModal({
-  withdrawal,
-  onClose,
+type WithdrawalAction = 'review' | 'approve' | 'reject' | 'processing' | 'complete' | 'fail';
+
+const STATUS_CONFIG: Record<WithdrawalStatus, { label: string; className: string; icon: typeof Clock }> = {
+  PENDING: { label: 'Pending', className: 'bg-amber-500/20 text-amber-400 border-amber-500/30', icon: Clock },
+  UNDER_REVIEW: { label: 'Under Review', className: 'bg-purple-500/20 text-purple-400 border-purple-500/30', icon: FileSearch },
+  APPROVED: { label: 'Approved', className: 'bg-sky-500/20 text-sky-400 border-sky-500/30', icon: CheckCircle },
+  PROCESSING: { label: 'Processing', className: 'bg-blue-500/20 text-blue-400 border-blue-500/30', icon: Send },
+  COMPLETED: { label: 'Completed', className: 'bg-emerald-500/20 text-emerald-400 border-emerald-500/30', icon: CheckCircle },
+  FAILED: { label: 'Failed', className: 'bg-red-500/20 text-red-400 border-red-500/30', icon: AlertTriangle },
+  REJECTED: { label: 'Rejected', className: 'bg-red-500/20 text-red-400 border-red-500/30', icon: XCircle },
+  CANCELLED: { label: 'Cancelled', className: 'bg-slate-500/20 text-slate-400 border-slate-500/30', icon: Ban },
+};
+
+// Admin actions offered for each status, mirroring the server's allowed transitions
+const STATUS_ACTIONS: Partial<Record<WithdrawalStatus, WithdrawalAction[]>> = {
+  PENDING: ['review', 'approve', 'reject'],
+  UNDER_REVIEW: ['approve', 'reject'],
+  APPROVED: ['processing', 'fail'],
+  PROCESSING: ['complete', 'fail'],
+};
+
+const ACTION_CONFIG: Record<WithdrawalAction, {
+  label: string;
+  title: string;
+  icon: typeof Clock;
+  buttonClass: string;
+  iconClass: string;
+  confirmClass: string;
+}> = {
+  review: {
+    label: 'Review',
+    title: 'Put Withdrawal Under Review',
+    icon: FileSearch,
+    buttonClass: 'bg-purple-600/20 hover:bg-purple-600/30 text-purple-400',
+    iconClass: 'text-purple-400 hover:text-purple-300 hover:bg-purple-900/30',
+    confirmClass: 'bg-purple-600 hover:bg-purple-700',
+  },
+  approve: {
+    label: 'Approve',
+    title: 'Approve Withdrawal',
+    icon: CheckCircle,
+    buttonClass: 'bg-emerald-600/20 hover:bg-emerald-600/30 text-emerald-400',
+    iconClass: 'text-emerald-400 hover:text-emerald-300 hover:bg-emerald-900/30',
+    confirmClass: 'bg-emerald-600 hover:bg-emerald-700',
+  },
+  reject: {
+    label: 'Reject',
+    title: 'Reject Withdrawal',
+    icon: XCircle,
+    buttonClass: 'bg-red-600/20 hover:bg-red-600/30 text-red-400',
+    iconClass: 'text-red-400 hover:text-red-300 hover:bg-red-900/30',
+    confirmClass: 'bg-red-600 hover:bg-red-700',
+  },
+  processing: {
+    label: 'Mark Sent',
+    title: 'Mark Payment as Sent',
+    icon: Send,
+    buttonClass: 'bg-blue-600/20 hover:bg-blue-600/30 text-blue-400',
+    iconClass: 'text-blue-400 hover:text-blue-300 hover:bg-blue-900/30',
+    confirmClass: 'bg-blue-600 hover:bg-blue-700',
+  },
+  complete: {
+    label: 'Complete',
+    title: 'Complete Withdrawal',
+    icon: CheckCircle,
+    buttonClass: 'bg-emerald-600/20 hover:bg-emerald-600/30 text-emerald-400',
+    iconClass: 'text-emerald-400 hover:text-emerald-300 hover:bg-emerald-900/30',
+    confirmClass: 'bg-emerald-600 hover:bg-emerald-700',
+  },
+  fail: {
+    label: 'Fail',
+    title: 'Mark Withdrawal as Failed',
+    icon: AlertTriangle,
+    buttonClass: 'bg-red-600/20 hover:bg-red-600/30 text-red-400',
+    iconClass: 'text-red-400 hover:text-red-300 hover:bg-red-900/30',
+    confirmClass: 'bg-red-600 hover:bg-red-700',
+  },
+};
+
+const RULE_LABELS: Record<WithdrawalRule, string> = {
+  TURNOVER: 'Trading turnover',
+  CLOSED_LOOP: 'Closed loop',
+  VELOCITY: 'Velocity limits',
+  SECURITY_COOLDOWN: 'Security cooldown',
+};
+
+const RULE_OUTCOME_CONFIG: Record<WithdrawalRuleOutcome, { label: string; className: string; icon: typeof Clock }> = {
+  ALLOW: { label: 'Passed', className: 'text-emerald-400', icon: CheckCircle },
+  HOLD: { label: 'Held by rules', className: 'text-purple-400', icon: FileSearch },
+  DENY: { label: 'Denied by rules', className: 'text-red-400', icon: XCircle },
+};
+
+function RuleChecks({ checks }: { checks: WithdrawalRuleCheck[] }) {
+  return (
+    <div className="space-y-2">
+      {checks.map((check) => {
+        const { className, icon: Icon } = RULE_OUTCOME_CONFIG[check.outcome];
+        return (
+          <div key={check.rule} className="flex items-start gap-2">
+            <Icon className={cn('h-4 w-4 mt-0.5 flex-shrink-0', className)} />
+            <div>
+              <p className="text-sm text-white">{RULE_LABELS[check.rule]}</p>
+              <p className="text-xs text-slate-400">{check.reason}</p>
+            </div>
+          </div>
+        );
+      })}
+    </div>
+  );
+}
+
+function DetailRow({
+  label,
+  value,
+  copyable = false,
+  mono = false,
 }: {
-  withdrawal: Withdrawal;
-  onClose: () => void;
+  label: string;
+  value: string;
+  copyable?: boolean;
+  mono?: boolean;
 }) {
-  const [copiedField, setCopiedField] = useState<string | null>(null);
+  const [copied, setCopied] = useState(false);
 
-  const copyToClipboard = (text: string, field: string) => {
-    navigator.clipboard.writeText(text);
-    setCopiedField(field);
+  const copyToClipboard = () => {
+    navigator.clipboard.writeText(value);
+    setCopied(true);
     toast.success('Copied to clipboard');
-    setTimeout(() => setCopiedField(null), 2000);
+    setTimeout(() => setCopied(false), 2000);
   };
 
-  const DetailRow = ({
-    label,
-    value,
-    copyable = false,
-    mono = false,
-  }: {
-    label: string;
-    value: string;
-    copyable?: boolean;
-    mono?: boolean;
-  }) => (
+  return (
     <div className="flex items-start justify-between py-2 border-b border-slate-700/50 last:border-0">
       <span className="text-slate-400 text-sm">{label}</span>
       <div className="flex items-center gap-2">
@@ -61,10 +183,10 @@ function WithdrawalDetailModal({
         </span>
         {copyable && (
           <button
-            onClick={() => copyToClipboard(value, label)}
+            onClick={copyToClipboard}
             className="p-1 hover:bg-slate-700 rounded transition-colors"
           >
-            {copiedField === label ? (
+            {copied ? (
               <Check className="h-3.5 w-3.5 text-emerald-400" />
             ) : (
               <Copy className="h-3.5 w-3.5 text-slate-400" />
@@ -74,26 +196,54 @@ function WithdrawalDetailModal({
       </div>
     </div>
   );
+}
 
-  const getStatusBadge = (status: WithdrawalStatus) => {
-    const styles = {
-      PENDING: 'bg-amber-500/20 text-amber-400 border-amber-500/30',
-      APPROVED: 'bg-emerald-500/20 text-emerald-400 border-emerald-500/30',
-      REJECTED: 'bg-red-500/20 text-red-400 border-red-500/30',
-    };
-    const icons = {
-      PENDING: <Clock className="h-3.5 w-3.5" />,
-      APPROVED: <CheckCircle className="h-3.5 w-3.5" />,
-      REJECTED: <XCircle className="h-3.5 w-3.5" />,
-    };
-    return (
-      <span className={cn('inline-flex items-center gap-1.5 px-2.5 py-1 rounded-full text-xs font-medium border', styles[status])}>
-        {icons[status]}
-        {status.charAt(0) + status.slice(1).toLowerCase()}
-      </span>
-    );
-  };
+// Shown next to the status when the rules held or denied the request
+function RuleFlag({ withdrawal }: { withdrawal: Withdrawal }) {
+  if (!withdrawal.ruleOutcome || withdrawal.ruleOutcome === 'ALLOW') return null;
+
+  const { label, className } = RULE_OUTCOME_CONFIG[withdrawal.ruleOutcome];
+  const reasons = (withdrawal.ruleChecks ?? [])
+    .filter((check) => check.outcome === withdrawal.ruleOutcome)
+    .map((check) => check.reason);
 
+  return (
+    <p className={cn('flex items-center gap-1 text-xs mt-1', className)} title={reasons.join('\n')}>
+      <ShieldCheck className="h-3 w-3" />
+      {label}
+    </p>
+  );
+}
+
+function StatusBadge({ status, bordered = false }: { status: WithdrawalStatus; bordered?: boolean }) {
+  const { label, className, icon: Icon } = STATUS_CONFIG[status];
+  return (
+    <span
+      className={cn(
+        'inline-flex items-center rounded-full text-xs font-medium',
+        bordered ? 'gap-1.5 px-2.5 py-1 border' : 'gap-1 px-2 py-1',
+        className
+      )}
+    >
+      <Icon className="h-3.5 w-3.5" />
+      {label}
+    </span>
+  );
+}
+
+// Receipts are stored as server-relative upload paths
+function getReceiptUrl(path: string): string {
+  const apiUrl = process.env.NEXT_PUBLIC_API_URL || 'http://localhost:5000/api';
+  return `${apiUrl.replace(/\/api\/?$/, '')}/${path}`;
+}
+
+function WithdrawalDetailModal({
+  withdrawal,
+  onClose,
+}: {
+  withdrawal: Withdrawal;
+  onClose: () => void;
+}) {
   return (
     <div className="fixed inset-0 z-50 flex items-center justify-center p-4">
       <div className="absolute inset-0 bg-black/60 backdrop-blur-sm" onClick={onClose} />
@@ -117,7 +267,7 @@ function WithdrawalDetailModal({
           <div className="text-center py-4 bg-slate-900/50 rounded-xl">
             <p className="text-sm text-slate-400 mb-1">Amount</p>
             <p className="text-3xl font-bold text-orange-400">{formatCurrency(withdrawal.amount)}</p>
-            <div className="mt-2">{getStatusBadge(withdrawal.status)}</div>
+            <div className="mt-2"><StatusBadge status={withdrawal.status} bordered /></div>
           </div>
 
           <div className="space-y-1 bg-slate-900/30 rounded-lg p-3">
@@ -144,11 +294,40 @@ function WithdrawalDetailModal({
             )}
           </div>
 
+          {withdrawal.ruleChecks && withdrawal.ruleChecks.length > 0 && (
+            <div className="bg-slate-900/30 rounded-lg p-3">
+              <h4 className="text-xs font-medium text-slate-500 uppercase tracking-wider mb-3">Withdrawal Rules</h4>
+              <RuleChecks checks={withdrawal.ruleChecks} />
+            </div>
+          )}
+
           <div className="space-y-1 bg-slate-900/30 rounded-lg p-3">
             <h4 className="text-xs font-medium text-slate-500 uppercase tracking-wider mb-2">Transaction Info</h4>
             <DetailRow label="Transaction ID" value={withdrawal.id} copyable mono />
             <DetailRow label="Created" value={formatDate(withdrawal.createdAt)} />
+            {withdrawal.reviewedAt && <DetailRow label="Reviewed" value={formatDate(withdrawal.reviewedAt)} />}
             {withdrawal.processedAt && <DetailRow label="Processed" value={formatDate(withdrawal.processedAt)} />}
+            {withdrawal.payoutSentAt && <DetailRow label="Payment Sent" value={formatDate(withdrawal.payoutSentAt)} />}
+            {withdrawal.completedAt && <DetailRow label="Completed" value={formatDate(withdrawal.completedAt)} />}
+            {withdrawal.failedAt && <DetailRow label="Failed" value={formatDate(withdrawal.failedAt)} />}
+            {withdrawal.cancelledAt && <DetailRow label="Cancelled" value={formatDate(withdrawal.cancelledAt)} />}
+            {withdrawal.payoutReference && (
+              <DetailRow label="Payout Ref" value={withdrawal.payoutReference} copyable mono />
+            )}
+            {withdrawal.payoutReceiptUrl && (
+              <div className="flex items-center justify-between py-2 border-b border-slate-700/50 last:border-0">
+                <span className="text-slate-400 text-sm">Receipt</span>
+                <a
+                  href={getReceiptUrl(withdrawal.payoutReceiptUrl)}
+                  target="_blank"
+                  rel="noopener noreferrer"
+                  className="flex items-center gap-1.5 text-sm text-[#1079ff] hover:underline"
+                >
+                  <Paperclip className="h-3.5 w-3.5" />
+                  View receipt
+                </a>
+              </div>
+            )}
             {withdrawal.adminNote && (
               <div className="pt-2 mt-2 border-t border-slate-700/50">
                 <p className="text-xs text-slate-500 mb-1">Admin Note</p>
@@ -170,21 +349,25 @@ function ProcessWithdrawalModal({
   isProcessing,
 }: {
   withdrawal: Withdrawal;
-  action: 'approve' | 'reject';
-  onConfirm: (note: string) => void;
+  action: WithdrawalAction;
+  onConfirm: (details: { note: string; payoutReference: string; receipt: File | null }) => void;
   onCancel: () => void;
   isProcessing: boolean;
 }) {
   const [note, setNote] = useState('');
+  const [payoutReference, setPayoutReference] = useState('');
+  const [receipt, setReceipt] = useState<File | null>(null);
+
+  const config = ACTION_CONFIG[action];
+  const takesReference = action === 'processing' || action === 'complete';
+  const noteRequired = action === 'fail';
 
   return (
     <div className="fixed inset-0 z-50 flex items-center justify-center p-4">
       <div className="absolute inset-0 bg-black/60 backdrop-blur-sm" onClick={onCancel} />
       <div className="relative bg-slate-800 rounded-xl w-full max-w-md border border-slate-700 shadow-xl">
         <div className="px-5 py-4 border-b border-slate-700">
-          <h3 className="text-lg font-semibold text-white">
-            {action === 'approve' ? 'Approve Withdrawal' : 'Reject Withdrawal'}
-          </h3>
+          <h3 className="text-lg font-semibold text-white">{config.title}</h3>
         </div>
 
         <div className="p-5 space-y-4">
@@ -222,26 +405,72 @@ function ProcessWithdrawalModal({
             )}
           </div>
 
-          {action === 'approve' ? (
+          {withdrawal.ruleOutcome === 'HOLD' && withdrawal.ruleChecks && (
+            <div className="p-3 bg-purple-900/20 border border-purple-900/50 rounded-lg">
+              <p className="text-xs font-medium text-purple-400 mb-2">Held by withdrawal rules</p>
+              <RuleChecks checks={withdrawal.ruleChecks.filter((check) => check.outcome !== 'ALLOW')} />
+            </div>
+          )}
+
+          {action === 'reject' || action === 'fail' ? (
+            <div className="p-3 bg-amber-900/30 border border-amber-900/50 rounded-lg">
+              <p className="text-sm text-amber-400">
+                {action === 'reject' ? 'Rejecting' : 'Failing'} will refund {formatCurrency(withdrawal.amount)} to user&apos;s balance.
+              </p>
+            </div>
+          ) : action === 'review' ? (
+            <div className="p-3 bg-purple-900/30 border border-purple-900/50 rounded-lg">
+              <p className="text-sm text-purple-400">
+                The user will be told their withdrawal is being reviewed. Funds stay on hold.
+              </p>
+            </div>
+          ) : (
             <div className="p-3 bg-emerald-900/30 border border-emerald-900/50 rounded-lg">
               <p className="text-sm text-emerald-400">
                 {formatCurrency(withdrawal.amount)} was already deducted from user&apos;s balance.
               </p>
             </div>
-          ) : (
-            <div className="p-3 bg-amber-900/30 border border-amber-900/50 rounded-lg">
-              <p className="text-sm text-amber-400">
-                Rejecting will refund {formatCurrency(withdrawal.amount)} to user&apos;s balance.
-              </p>
+          )}
+
+          {takesReference && (
+            <div>
+              <label className="block text-sm font-medium text-slate-400 mb-2">
+                {withdrawal.method === 'CRYPTO' ? 'Transaction Hash' : 'Payment Reference'} (optional)
+              </label>
+              <input
+                type="text"
+                value={payoutReference}
+                onChange={(e) => setPayoutReference(e.target.value)}
+                placeholder={withdrawal.payoutReference || 'Reference from the payment provider...'}
+                className="w-full px-3 py-2.5 bg-slate-900/50 border border-slate-600 rounded-lg text-white placeholder-slate-500 focus:outline-none focus:ring-2 focus:ring-[#1079ff] focus:border-transparent text-sm font-mono"
+              />
+            </div>
+          )}
+
+          {action === 'complete' && (
+            <div>
+              <label className="block text-sm font-medium text-slate-400 mb-2">Receipt (optional)</label>
+              <input
+                type="file"
+                accept="image/jpeg,image/png,application/pdf"
+                onChange={(e) => setReceipt(e.target.files?.[0] ?? null)}
+                className="w-full text-sm text-slate-400 file:mr-3 file:px-3 file:py-1.5 file:rounded-lg file:border-0 file:bg-slate-700 file:text-white hover:file:bg-slate-600"
+              />
             </div>
           )}
 
           <div>
-            <label className="block text-sm font-medium text-slate-400 mb-2">Admin Note (optional)</label>
+            <label className="block text-sm font-medium text-slate-400 mb-2">
+              {noteRequired ? 'Reason' : 'Admin Note (optional)'}
+            </label>
             <textarea
               value={note}
               onChange={(e) => setNote(e.target.value)}
-              placeholder={action === 'reject' ? 'Reason for rejection...' : 'Add a note...'}
+              placeholder={
+                action === 'reject' ? 'Reason for rejection...'
+                  : action === 'fail' ? 'Why the payment could not be made...'
+                    : 'Add a note...'
+              }
               rows={3}
               className="w-full px-3 py-2.5 bg-slate-900/50 border border-slate-600 rounded-lg text-white placeholder-slate-500 focus:outline-none focus:ring-2 focus:ring-[#1079ff] focus:border-transparent resize-none text-sm"
             />
@@ -257,17 +486,245 @@ function ProcessWithdrawalModal({
             Cancel
           </button>
           <button
-            onClick={() => onConfirm(note)}
-            disabled={isProcessing}
+            onClick={() => onConfirm({ note, payoutReference, receipt })}
+            disabled={isProcessing || (noteRequired && !note.trim())}
             className={cn(
-              'px-4 py-2 rounded-lg font-medium transition-colors flex items-center gap-2',
-              action === 'approve'
-                ? 'bg-emerald-600 hover:bg-emerald-700 text-white'
-                : 'bg-red-600 hover:bg-red-700 text-white'
+              'px-4 py-2 rounded-lg font-medium transition-colors flex items-center gap-2 text-white disabled:opacity-50',
+              config.confirmClass
             )}
           >
             {isProcessing && <Loader2 className="h-4 w-4 animate-spin" />}
-            {action === 'approve' ? 'Approve' : 'Reject'}
+            {config.label}
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+}
+
+const RULE_ACTION_OPTIONS: { value: WithdrawalRuleAction; label: string }[] = [
+  { value: 'OFF', label: 'Off' },
+  { value: 'HOLD', label: 'Hold for review' },
+  { value: 'DENY', label: 'Deny' },
+];
+
+type RuleLimitField = 'dailyAmountLimit' | 'dailyCountLimit' | 'weeklyAmountLimit' | 'weeklyCountLimit';
+
+const RULE_LIMIT_FIELDS: { field: RuleLimitField; label: string }[] = [
+  { field: 'dailyAmountLimit', label: 'Daily amount ($)' },
+  { field: 'dailyCountLimit', label: 'Daily requests' },
+  { field: 'weeklyAmountLimit', label: 'Weekly amount ($)' },
+  { field: 'weeklyCountLimit', label: 'Weekly requests' },
+];
+
+function RuleActionSelect({
+  value,
+  onChange,
+}: {
+  value: WithdrawalRuleAction;
+  onChange: (action: WithdrawalRuleAction) => void;
+}) {
+  return (
+    <select
+      value={value}
+      onChange={(e) => onChange(e.target.value as WithdrawalRuleAction)}
+      className="px-3 py-1.5 bg-slate-900/50 border border-slate-600 rounded-lg text-white text-sm focus:outline-none focus:ring-2 focus:ring-[#1079ff]"
+    >
+      {RULE_ACTION_OPTIONS.map(({ value: action, label }) => (
+        <option key={action} value={action}>{label}</option>
+      ))}
+    </select>
+  );
+}
+
+function WithdrawalRulesModal({ onClose }: { onClose: () => void }) {
+  const [settings, setSettings] = useState<WithdrawalRuleSettings | null>(null);
+  // Limits are edited as text so an empty field can mean "no limit"
+  const [limits, setLimits] = useState<Record<RuleLimitField, string>>({
+    dailyAmountLimit: '',
+    dailyCountLimit: '',
+    weeklyAmountLimit: '',
+    weeklyCountLimit: '',
+  });
+  const [isSaving, setIsSaving] = useState(false);
+
+  useEffect(() => {
+    api.getWithdrawalRules()
+      .then((data) => {
+        setSettings(data);
+        setLimits({
+          dailyAmountLimit: data.dailyAmountLimit?.toString() ?? '',
+          dailyCountLimit: data.dailyCountLimit?.toString() ?? '',
+          weeklyAmountLimit: data.weeklyAmountLimit?.toString() ?? '',
+          weeklyCountLimit: data.weeklyCountLimit?.toString() ?? '',
+        });
+      })
+      .catch((error) => {
+        console.error('Failed to fetch withdrawal rules:', error);
+        toast.error('Failed to load withdrawal rules');
+        onClose();
+      });
+  }, [onClose]);
+
+  const update = <K extends keyof WithdrawalRuleSettings>(field: K, value: WithdrawalRuleSettings[K]) => {
+    setSettings((current) => (current ? { ...current, [field]: value } : current));
+  };
+
+  const handleSave = async () => {
+    if (!settings) return;
+
+    const toLimit = (value: string) => (value.trim() === '' ? null : Number(value));
+
+    setIsSaving(true);
+    try {
+      await api.updateWithdrawalRules({
+        isActive: settings.isActive,
+        turnoverAction: settings.turnoverAction,
+        turnoverMultiplier: settings.turnoverMultiplier,
+        closedLoopAction: settings.closedLoopAction,
+        velocityAction: settings.velocityAction,
+        dailyAmountLimit: toLimit(limits.dailyAmountLimit),
+        dailyCountLimit: toLimit(limits.dailyCountLimit),
+        weeklyAmountLimit: toLimit(limits.weeklyAmountLimit),
+        weeklyCountLimit: toLimit(limits.weeklyCountLimit),
+        cooldownAction: settings.cooldownAction,
+        cooldownHours: settings.cooldownHours,
+      });
+      toast.success('Withdrawal rules updated');
+      onClose();
+    } catch (error) {
+      const errorMessage = error instanceof Error ? error.message : 'Failed to update withdrawal rules';
+      toast.error(errorMessage);
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const inputClass = 'w-full px-3 py-2 bg-slate-900/50 border border-slate-600 rounded-lg text-white text-sm focus:outline-none focus:ring-2 focus:ring-[#1079ff]';
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center p-4">
+      <div className="absolute inset-0 bg-black/60 backdrop-blur-sm" onClick={onClose} />
+      <div className="relative bg-slate-800 rounded-xl w-full max-w-lg border border-slate-700 shadow-xl max-h-[90vh] overflow-y-auto">
+        <div className="sticky top-0 bg-slate-800 px-5 py-4 border-b border-slate-700 flex items-center justify-between">
+          <div>
+            <h3 className="text-lg font-semibold text-white">Withdrawal Rules</h3>
+            <p className="text-xs text-slate-400">Checked on every request before funds are held</p>
+          </div>
+          <button onClick={onClose} className="p-2 hover:bg-slate-700 rounded-lg transition-colors">
+            <X className="h-5 w-5 text-slate-400" />
+          </button>
+        </div>
+
+        {!settings ? (
+          <div className="flex justify-center py-12">
+            <Loader2 className="h-8 w-8 text-[#1079ff] animate-spin" />
+          </div>
+        ) : (
+          <div className="p-5 space-y-4">
+            <label className="flex items-center justify-between p-3 bg-slate-900/30 rounded-lg cursor-pointer">
+              <span className="text-sm text-white">Rules enabled</span>
+              <input
+                type="checkbox"
+                checked={settings.isActive}
+                onChange={(e) => update('isActive', e.target.checked)}
+                className="h-4 w-4 accent-[#1079ff]"
+              />
+            </label>
+
+            <div className="p-3 bg-slate-900/30 rounded-lg space-y-3">
+              <div className="flex items-center justify-between gap-3">
+                <div>
+                  <p className="text-sm text-white">{RULE_LABELS.TURNOVER}</p>
+                  <p className="text-xs text-slate-400">LIVE trading since the last deposit</p>
+                </div>
+                <RuleActionSelect value={settings.turnoverAction} onChange={(action) => update('turnoverAction', action)} />
+              </div>
+              <div>
+                <label className="block text-xs text-slate-400 mb-1">Required turnover (x last deposit)</label>
+                <input
+                  type="number"
+                  min={0}
+                  step={0.1}
+                  value={settings.turnoverMultiplier}
+                  onChange={(e) => update('turnoverMultiplier', Number(e.target.value))}
+                  className={inputClass}
+                />
+              </div>
+            </div>
+
+            <div className="p-3 bg-slate-900/30 rounded-lg">
+              <div className="flex items-center justify-between gap-3">
+                <div>
+                  <p className="text-sm text-white">{RULE_LABELS.CLOSED_LOOP}</p>
+                  <p className="text-xs text-slate-400">Deposits are returned to their deposit method first</p>
+                </div>
+                <RuleActionSelect value={settings.closedLoopAction} onChange={(action) => update('closedLoopAction', action)} />
+              </div>
+            </div>
+
+            <div className="p-3 bg-slate-900/30 rounded-lg space-y-3">
+              <div className="flex items-center justify-between gap-3">
+                <div>
+                  <p className="text-sm text-white">{RULE_LABELS.VELOCITY}</p>
+                  <p className="text-xs text-slate-400">Rolling 24 hour and 7 day caps; leave empty for no cap</p>
+                </div>
+                <RuleActionSelect value={settings.velocityAction} onChange={(action) => update('velocityAction', action)} />
+              </div>
+              <div className="grid grid-cols-2 gap-3">
+                {RULE_LIMIT_FIELDS.map(({ field, label }) => (
+                  <div key={field}>
+                    <label className="block text-xs text-slate-400 mb-1">{label}</label>
+                    <input
+                      type="number"
+                      min={0}
+                      value={limits[field]}
+                      onChange={(e) => setLimits((current) => ({ ...current, [field]: e.target.value }))}
+                      placeholder="No limit"
+                      className={inputClass}
+                    />
+                  </div>
+                ))}
+              </div>
+            </div>
+
+            <div className="p-3 bg-slate-900/30 rounded-lg space-y-3">
+              <div className="flex items-center justify-between gap-3">
+                <div>
+                  <p className="text-sm text-white">{RULE_LABELS.SECURITY_COOLDOWN}</p>
+                  <p className="text-xs text-slate-400">After a password or two-factor change</p>
+                </div>
+                <RuleActionSelect value={settings.cooldownAction} onChange={(action) => update('cooldownAction', action)} />
+              </div>
+              <div>
+                <label className="block text-xs text-slate-400 mb-1">Cooldown (hours)</label>
+                <input
+                  type="number"
+                  min={0}
+                  value={settings.cooldownHours}
+                  onChange={(e) => update('cooldownHours', Number(e.target.value))}
+                  className={inputClass}
+                />
+              </div>
+            </div>
+          </div>
+        )}
+
+        <div className="px-5 py-4 border-t border-slate-700 flex gap-3 justify-end">
+          <button
+            onClick={onClose}
+            disabled={isSaving}
+            className="px-4 py-2 text-slate-400 hover:text-white transition-colors disabled:opacity-50"
+          >
+            Cancel
+          </button>
+          <button
+            onClick={handleSave}
+            disabled={isSaving || !settings}
+            className="px-4 py-2 rounded-lg font-medium transition-colors flex items-center gap-2 text-white bg-[#1079ff] hover:bg-[#1079ff]/80 disabled:opacity-50"
+          >
+            {isSaving && <Loader2 className="h-4 w-4 animate-spin" />}
+            Save Rules
           </button>
         </div>
       </div>
@@ -288,9 +745,10 @@ export default function AdminWithdrawalsPage() {
   const [dateRange, setDateRange] = useState<DateRange>('all');
 
   const [selectedWithdrawal, setSelectedWithdrawal] = useState<Withdrawal | null>(null);
+  const [showRules, setShowRules] = useState(false);
   const [processingWithdrawal, setProcessingWithdrawal] = useState<{
     withdrawal: Withdrawal;
-    action: 'approve' | 'reject';
+    action: WithdrawalAction;
   } | null>(null);
 
   const fetchWithdrawals = async () => {
@@ -363,17 +821,50 @@ export default function AdminWithdrawalsPage() {
     return result;
   }, [withdrawals, searchQuery, dateRange]);
 
-  const handleProcess = async (note: string) => {
+  const handleProcess = async ({ note, payoutReference, receipt }: {
+    note: string;
+    payoutReference: string;
+    receipt: File | null;
+  }) => {
     if (!processingWithdrawal) return;
 
+    const { withdrawal, action } = processingWithdrawal;
+    const adminNote = note.trim() || undefined;
+    const reference = payoutReference.trim() || undefined;
+
     setIsProcessing(true);
     try {
-      if (processingWithdrawal.action === 'approve') {
-        await api.approveWithdrawal(processingWithdrawal.withdrawal.id, note || undefined);
-        toast.success('Withdrawal approved successfully');
-      } else {
-        await api.rejectWithdrawal(processingWithdrawal.withdrawal.id, note || undefined);
-        toast.success('Withdrawal rejected');
+      switch (action) {
+        case 'review':
+          await api.reviewWithdrawal(withdrawal.id, adminNote);
+          toast.success('Withdrawal placed under review');
+          break;
+        case 'approve': {
+          const updated = await api.approveWithdrawal(withdrawal.id, adminNote);
+          toast.success(updated.status === 'PROCESSING' ? 'Withdrawal approved and payout sent' : 'Withdrawal approved successfully');
+          break;
+        }
+        case 'reject':
+          await api.rejectWithdrawal(withdrawal.id, adminNote);
+          toast.success('Withdrawal rejected');
+          break;
+        case 'processing':
+          await api.markWithdrawalProcessing(withdrawal.id, { payoutReference: reference, adminNote });
+          toast.success('Withdrawal marked as payment sent');
+          break;
+        case 'complete': {
+          const formData = new FormData();
+          if (reference) formData.append('payoutReference', reference);
+          if (adminNote) formData.append('adminNote', adminNote);
+          if (receipt) formData.append('receipt', receipt);
+          await api.completeWithdrawal(withdrawal.id, formData);
+          toast.success('Withdrawal completed');
+          break;
+        }
+        case 'fail':
+          await api.failWithdrawal(withdrawal.id, note.trim());
+          toast.success('Withdrawal marked as failed and funds returned');
+          break;
       }
       setProcessingWithdrawal(null);
       fetchWithdrawals();
@@ -393,25 +884,6 @@ export default function AdminWithdrawalsPage() {
     toast.success('Data refreshed');
   };
 
-  const getStatusBadge = (status: WithdrawalStatus) => {
-    const styles = {
-      PENDING: 'bg-amber-500/20 text-amber-400',
-      APPROVED: 'bg-emerald-500/20 text-emerald-400',
-      REJECTED: 'bg-red-500/20 text-red-400',
-    };
-    const icons = {
-      PENDING: <Clock className="h-3.5 w-3.5" />,
-      APPROVED: <CheckCircle className="h-3.5 w-3.5" />,
-      REJECTED: <XCircle className="h-3.5 w-3.5" />,
-    };
-    return (
-      <span className={cn('inline-flex items-center gap-1 px-2 py-1 rounded-full text-xs font-medium', styles[status])}>
-        {icons[status]}
-        {status.charAt(0) + status.slice(1).toLowerCase()}
-      </span>
-    );
-  };
-
   return (
     <div className="space-y-5">
       {/* Header */}
@@ -420,26 +892,46 @@ export default function AdminWithdrawalsPage() {
           <h1 className="text-xl font-bold text-white">Withdrawal Management</h1>
           <p className="text-sm text-slate-400">Review and process withdrawal requests</p>
         </div>
-        <button
-          onClick={handleRefresh}
-          disabled={isLoading}
-          className="flex items-center gap-2 px-4 py-2 bg-slate-800 hover:bg-slate-700 border border-slate-700 rounded-lg text-white transition-colors disabled:opacity-50"
-        >
-          <RefreshCw className={cn('h-4 w-4', isLoading && 'animate-spin')} />
-          Refresh
-        </button>
+        <div className="flex items-center gap-2">
+          <button
+            onClick={() => setShowRules(true)}
+            className="flex items-center gap-2 px-4 py-2 bg-slate-800 hover:bg-slate-700 border border-slate-700 rounded-lg text-white transition-colors"
+          >
+            <Settings2 className="h-4 w-4" />
+            Rules
+          </button>
+          <button
+            onClick={handleRefresh}
+            disabled={isLoading}
+            className="flex items-center gap-2 px-4 py-2 bg-slate-800 hover:bg-slate-700 border border-slate-700 rounded-lg text-white transition-colors disabled:opacity-50"
+          >
+            <RefreshCw className={cn('h-4 w-4', isLoading && 'animate-spin')} />
+            Refresh
+          </button>
+        </div>
       </div>
 
       {/* Stats */}
-      <div className="grid grid-cols-2 lg:grid-cols-4 gap-3">
+      <div className="grid grid-cols-2 lg:grid-cols-5 gap-3">
         <div className="bg-slate-800/50 border border-slate-700/50 rounded-xl p-4">
           <div className="flex items-center gap-3">
             <div className="p-2 rounded-lg bg-amber-500/20">
               <Clock className="h-4 w-4 text-amber-400" />
             </div>
             <div>
-              <p className="text-xs text-slate-400">Pending</p>
-              <p className="text-lg font-bold text-white">{stats?.pending ?? 0}</p>
+              <p className="text-xs text-slate-400">Awaiting Review</p>
+              <p className="text-lg font-bold text-white">{(stats?.pending ?? 0) + (stats?.underReview ?? 0)}</p>
+            </div>
+          </div>
+        </div>
+        <div className="bg-slate-800/50 border border-slate-700/50 rounded-xl p-4">
+          <div className="flex items-center gap-3">
+            <div className="p-2 rounded-lg bg-blue-500/20">
+              <Send className="h-4 w-4 text-blue-400" />
+            </div>
+            <div>
+              <p className="text-xs text-slate-400">Awaiting Payout</p>
+              <p className="text-lg font-bold text-white">{(stats?.approved ?? 0) + (stats?.processing ?? 0)}</p>
             </div>
           </div>
         </div>
@@ -449,8 +941,8 @@ export default function AdminWithdrawalsPage() {
               <CheckCircle className="h-4 w-4 text-emerald-400" />
             </div>
             <div>
-              <p className="text-xs text-slate-400">Approved</p>
-              <p className="text-lg font-bold text-white">{stats?.approved ?? 0}</p>
+              <p className="text-xs text-slate-400">Completed</p>
+              <p className="text-lg font-bold text-white">{stats?.completed ?? 0}</p>
             </div>
           </div>
         </div>
@@ -460,8 +952,8 @@ export default function AdminWithdrawalsPage() {
               <XCircle className="h-4 w-4 text-red-400" />
             </div>
             <div>
-              <p className="text-xs text-slate-400">Rejected</p>
-              <p className="text-lg font-bold text-white">{stats?.rejected ?? 0}</p>
+              <p className="text-xs text-slate-400">Failed / Rejected</p>
+              <p className="text-lg font-bold text-white">{(stats?.failed ?? 0) + (stats?.rejected ?? 0)}</p>
             </div>
           </div>
         </div>
@@ -501,9 +993,9 @@ export default function AdminWithdrawalsPage() {
               className="px-3 py-2.5 bg-slate-900/50 border border-slate-600 rounded-lg text-white text-sm focus:outline-none focus:ring-2 focus:ring-[#1079ff]"
             >
               <option value="">All Status</option>
-              <option value="PENDING">Pending</option>
-              <option value="APPROVED">Approved</option>
-              <option value="REJECTED">Rejected</option>
+              {(Object.keys(STATUS_CONFIG) as WithdrawalStatus[]).map((status) => (
+                <option key={status} value={status}>{STATUS_CONFIG[status].label}</option>
+              ))}
             </select>
             <select
               value={methodFilter}
@@ -605,7 +1097,10 @@ export default function AdminWithdrawalsPage() {
                         )}
                       </div>
                     </td>
-                    <td className="px-4 py-3">{getStatusBadge(withdrawal.status)}</td>
+                    <td className="px-4 py-3">
+                      <StatusBadge status={withdrawal.status} />
+                      <RuleFlag withdrawal={withdrawal} />
+                    </td>
                     <td className="px-4 py-3 text-xs text-slate-400" suppressHydrationWarning>
                       {formatDate(withdrawal.createdAt)}
                     </td>
@@ -618,24 +1113,19 @@ export default function AdminWithdrawalsPage() {
                         >
                           <Eye className="h-4 w-4" />
                         </button>
-                        {withdrawal.status === 'PENDING' && (
-                          <>
+                        {STATUS_ACTIONS[withdrawal.status]?.map((action) => {
+                          const { label, icon: Icon, iconClass } = ACTION_CONFIG[action];
+                          return (
                             <button
-                              onClick={() => setProcessingWithdrawal({ withdrawal, action: 'approve' })}
-                              className="p-2 text-emerald-400 hover:text-emerald-300 hover:bg-emerald-900/30 rounded-lg transition-colors"
-                              title="Approve"
+                              key={action}
+                              onClick={() => setProcessingWithdrawal({ withdrawal, action })}
+                              className={cn('p-2 rounded-lg transition-colors', iconClass)}
+                              title={label}
                             >
-                              <CheckCircle className="h-4 w-4" />
+                              <Icon className="h-4 w-4" />
                             </button>
-                            <button
-                              onClick={() => setProcessingWithdrawal({ withdrawal, action: 'reject' })}
-                              className="p-2 text-red-400 hover:text-red-300 hover:bg-red-900/30 rounded-lg transition-colors"
-                              title="Reject"
-                            >
-                              <XCircle className="h-4 w-4" />
-                            </button>
-                          </>
-                        )}
+                          );
+                        })}
                       </div>
                     </td>
                   </tr>
@@ -702,7 +1192,10 @@ export default function AdminWithdrawalsPage() {
                     <p className="text-xs text-slate-400">{withdrawal.user?.email}</p>
                   </div>
                 </div>
-                {getStatusBadge(withdrawal.status)}
+                <div className="text-right">
+                  <StatusBadge status={withdrawal.status} />
+                  <RuleFlag withdrawal={withdrawal} />
+                </div>
               </div>
 
               <div className="space-y-2 mb-3">
@@ -734,24 +1227,19 @@ export default function AdminWithdrawalsPage() {
                   <Eye className="h-4 w-4" />
                   Details
                 </button>
-                {withdrawal.status === 'PENDING' && (
-                  <>
+                {STATUS_ACTIONS[withdrawal.status]?.map((action) => {
+                  const { label, icon: Icon, buttonClass } = ACTION_CONFIG[action];
+                  return (
                     <button
-                      onClick={() => setProcessingWithdrawal({ withdrawal, action: 'approve' })}
-                      className="flex-1 flex items-center justify-center gap-2 px-3 py-2 bg-emerald-600/20 hover:bg-emerald-600/30 rounded-lg text-sm text-emerald-400 transition-colors"
+                      key={action}
+                      onClick={() => setProcessingWithdrawal({ withdrawal, action })}
+                      className={cn('flex-1 flex items-center justify-center gap-2 px-3 py-2 rounded-lg text-sm transition-colors', buttonClass)}
                     >
-                      <CheckCircle className="h-4 w-4" />
-                      Approve
+                      <Icon className="h-4 w-4" />
+                      {label}
                     </button>
-                    <button
-                      onClick={() => setProcessingWithdrawal({ withdrawal, action: 'reject' })}
-                      className="flex-1 flex items-center justify-center gap-2 px-3 py-2 bg-red-600/20 hover:bg-red-600/30 rounded-lg text-sm text-red-400 transition-colors"
-                    >
-                      <XCircle className="h-4 w-4" />
-                      Reject
-                    </button>
-                  </>
-                )}
+                  );
+                })}
               </div>
             </div>
           ))
@@ -790,6 +1278,9 @@ export default function AdminWithdrawalsPage() {
         />
       )}
 
+      {/* Rules Modal */}
+      {showRules && <WithdrawalRulesModal onClose={() => setShowRules(false)} />}
+
       {/* Process Modal */}
       {processingWithdrawal && (
         <ProcessWithdrawalModal
@@ -71,8 +71,16 @@ export default function DemoTradePage() {
     toggleVolume,
     drawingTool,
     setDrawingTool,
+    syncWithServer: syncChartLayouts,
   } = useChartStore();
 
+  // Pull the chart workspace saved to the account, then keep it in sync
+  useEffect(() => {
+    syncChartLayouts().catch((error) => {
+      console.error('Failed to load chart layouts:', error);
+    });
+  }, [syncChartLayouts]);
+
   // Force DEMO mode when on this page
   useEffect(() => {
     if (user && user.activeAccountType !== 'DEMO') {
@@ -183,13 +191,13 @@ export default function DemoTradePage() {
     }
   }, [latestPrices, selectedAsset]);
 
-  // Fetch asset payout when selected asset changes
+  // Fetch the payout quote the server will apply for this asset and duration
   useEffect(() => {
     async function fetchAssetPayout() {
       try {
-        const asset = await api.getAsset(selectedAsset);
-        if (asset?.payoutPercent) {
-          setAssetPayout(asset.payoutPercent);
+        const quote = await api.getPayoutQuote(selectedAsset, selectedDuration);
+        if (quote?.payoutPercent) {
+          setAssetPayout(quote.payoutPercent);
         }
       } catch (error) {
         console.error('Failed to fetch asset payout:', error);
@@ -197,7 +205,7 @@ export default function DemoTradePage() {
       }
     }
     fetchAssetPayout();
-  }, [selectedAsset]);
+  }, [selectedAsset, selectedDuration]);
 
   // Get demo/practice balance
   const getDemoBalance = () => user?.practiceBalance ?? 10000;
@@ -465,6 +473,7 @@ export default function DemoTradePage() {
             isCollapsed={false}
             onToggle={() => setIsTradesPanelOpen(false)}
             latestPrices={latestPrices}
+            symbol={selectedAsset}
           />
         )}
       </div>
@@ -17,6 +17,7 @@ import {
   QrCode,
   RefreshCw,
   Info,
+  Gift,
 } from 'lucide-react';
 import toast from 'react-hot-toast';
 import { api } from '@/lib/api';
@@ -25,7 +26,13 @@ import { formatCurrency, formatDate, cn } from '@/lib/utils';
 import { useDepositUpdates } from '@/hooks/useDepositUpdates';
 import { useFormValidation } from '@/hooks/useFormValidation';
 import { createDepositSchema } from '@/schemas/deposit.schema';
-import type { Deposit, PaymentMethod as PaymentMethodType } from '@/types';
+import type {
+  BonusSummary,
+  CryptoDepositAddress,
+  Deposit,
+  PaymentMethod as PaymentMethodType,
+  UserBonus,
+} from '@/types';
 
 type Step = 1 | 2 | 3;
 type PaymentCategory = 'popular' | 'mobile' | 'crypto';
@@ -130,6 +137,110 @@ function StatusBadge({ status }: { status: Deposit['status'] }) {
   );
 }
 
+function BonusWidget({
+  summary,
+  bonuses,
+  onClaim,
+}: {
+  summary: BonusSummary | null;
+  bonuses: UserBonus[];
+  onClaim: (code: string) => Promise<void>;
+}) {
+  const [code, setCode] = useState('');
+  const [isClaiming, setIsClaiming] = useState(false);
+
+  const activeBonuses = bonuses.filter((bonus) => bonus.status === 'ACTIVE');
+  const pendingClaim = bonuses.find((bonus) => bonus.status === 'PENDING');
+
+  const handleClaim = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!code.trim()) return;
+
+    setIsClaiming(true);
+    try {
+      await onClaim(code.trim());
+      setCode('');
+    } finally {
+      setIsClaiming(false);
+    }
+  };
+
+  return (
+    <div className="bg-slate-800/50 border border-slate-700 rounded-xl overflow-hidden">
+      <div className="p-2.5 sm:p-3 border-b border-slate-700 bg-slate-800 flex items-center justify-between">
+        <h3 className="text-white font-medium text-xs sm:text-sm flex items-center gap-1.5">
+          <Gift className="h-3.5 w-3.5 text-[#1079ff]" />
+          Bonuses
+        </h3>
+        {summary && summary.bonusBalance > 0 && (
+          <span className="text-[10px] sm:text-xs text-slate-400">
+            Locked: <span className="text-white font-medium">{formatCurrency(summary.bonusBalance)}</span>
+          </span>
+        )}
+      </div>
+
+      <div className="p-2.5 sm:p-3 space-y-3">
+        {pendingClaim ? (
+          <div className="p-2 bg-[#1079ff]/10 border border-[#1079ff]/30 rounded-lg text-[10px] sm:text-xs text-slate-300">
+            <span className="font-mono text-white">{pendingClaim.promotionCode}</span> applied:{' '}
+            {pendingClaim.bonusPercent}% up to {formatCurrency(pendingClaim.maxBonus)} on your next deposit
+            {pendingClaim.minDeposit > 0 && ` of ${formatCurrency(pendingClaim.minDeposit)} or more`}.
+          </div>
+        ) : (
+          <form onSubmit={handleClaim} className="flex gap-2">
+            <input
+              type="text"
+              value={code}
+              onChange={(e) => setCode(e.target.value.toUpperCase())}
+              placeholder="Promo code"
+              className="flex-1 min-w-0 px-2.5 py-1.5 bg-slate-900 border border-slate-700 rounded-lg text-white text-xs font-mono placeholder-slate-500 focus:outline-none focus:border-[#1079ff]"
+            />
+            <button
+              type="submit"
+              disabled={isClaiming || !code.trim()}
+              className="px-3 py-1.5 bg-[#1079ff] hover:bg-[#1079ff]/80 text-white rounded-lg text-xs font-medium transition-colors disabled:opacity-50"
+            >
+              {isClaiming ? <Loader2 className="h-3.5 w-3.5 animate-spin" /> : 'Apply'}
+            </button>
+          </form>
+        )}
+
+        {activeBonuses.map((bonus) => {
+          const progress = bonus.wageringRequired > 0
+            ? Math.min(100, (bonus.wageredAmount / bonus.wageringRequired) * 100)
+            : 100;
+
+          return (
+            <div key={bonus.id} className="space-y-1.5">
+              <div className="flex items-center justify-between text-xs">
+                <span className="text-white font-medium truncate">{bonus.promotionName}</span>
+                <span className="text-[#1079ff] font-semibold">{formatCurrency(bonus.amount)}</span>
+              </div>
+              <div className="h-1.5 bg-slate-700 rounded-full overflow-hidden">
+                <div className="h-full bg-[#1079ff] rounded-full transition-all" style={{ width: `${progress}%` }} />
+              </div>
+              <div className="flex items-center justify-between text-[10px] text-slate-500">
+                <span>
+                  Traded {formatCurrency(bonus.wageredAmount)} of {formatCurrency(bonus.wageringRequired)}
+                </span>
+                {bonus.expiresAt && <span>Expires {formatDate(bonus.expiresAt)}</span>}
+              </div>
+            </div>
+          );
+        })}
+
+        {activeBonuses.length > 0 && (
+          <p className="text-[10px] text-slate-500 flex items-start gap-1">
+            <Info className="h-3 w-3 shrink-0 mt-0.5" />
+            Bonuses are added to your balance once the trading target is reached. Requesting a
+            withdrawal before then forfeits them.
+          </p>
+        )}
+      </div>
+    </div>
+  );
+}
+
 function getProviderIconText(provider?: string): string {
   if (!provider) return '?';
   const icons: Record<string, string> = {
@@ -156,6 +267,10 @@ export default function DepositPage() {
   const [isRefreshing, setIsRefreshing] = useState(false);
   const [showQR, setShowQR] = useState(false);
   const [lastSubmittedDepositId, setLastSubmittedDepositId] = useState<string | null>(null);
+  const [personalAddress, setPersonalAddress] = useState<CryptoDepositAddress | null>(null);
+  const [paymentRequested, setPaymentRequested] = useState(false);
+  const [bonusSummary, setBonusSummary] = useState<BonusSummary | null>(null);
+  const [bonuses, setBonuses] = useState<UserBonus[]>([]);
 
   // Form state
   const [amount, setAmount] = useState('');
@@ -205,6 +320,16 @@ export default function DepositPage() {
     }
   }, []);
 
+  const refreshBonuses = useCallback(async () => {
+    try {
+      const result = await api.getMyBonuses();
+      setBonusSummary(result.summary);
+      setBonuses(result.bonuses);
+    } catch (error) {
+      console.error('Failed to fetch bonuses:', error);
+    }
+  }, []);
+
   const refreshDeposits = useCallback(async () => {
     try {
       const depositsData = await api.getMyDeposits({ limit: 5 });
@@ -219,8 +344,9 @@ export default function DepositPage() {
       d.id === depositId ? { ...d, status } : d
     ));
     refreshDeposits();
+    refreshBonuses();
     refreshProfile();
-  }, [refreshDeposits, refreshProfile]));
+  }, [refreshDeposits, refreshBonuses, refreshProfile]));
 
   const handleRefreshBalance = async () => {
     setIsRefreshing(true);
@@ -236,12 +362,32 @@ export default function DepositPage() {
 
   useEffect(() => {
     fetchData();
+    refreshBonuses();
     refreshProfile();
-  }, [fetchData, refreshProfile]);
+  }, [fetchData, refreshBonuses, refreshProfile]);
+
+  const handleClaimPromoCode = async (code: string) => {
+    try {
+      await api.claimPromoCode(code);
+      toast.success('Promo code applied to your next deposit');
+      await refreshBonuses();
+    } catch (error) {
+      const errorObj = error as { response?: { data?: { error?: string } } };
+      toast.error(errorObj.response?.data?.error || 'Failed to apply promo code');
+    }
+  };
 
   const handleMethodSelect = (method: PaymentMethodType) => {
     setSelectedMethod(method);
+    setPersonalAddress(null);
     setStep(2);
+
+    // Networks without personal addresses fall back to the method's shared address
+    if (method.type === 'CRYPTO' && method.cryptoCurrency) {
+      api.getCryptoDepositAddress(method.cryptoCurrency, method.network || undefined)
+        .then(setPersonalAddress)
+        .catch(() => setPersonalAddress(null));
+    }
   };
 
   const handleSubmit = async (e: React.FormEvent) => {
@@ -280,6 +426,7 @@ export default function DepositPage() {
         depositResult = await api.createCryptoDeposit({
           amount: amountNum,
           cryptoCurrency: selectedMethod.cryptoCurrency as any,
+          network: selectedMethod.network || undefined,
         });
       }
 
@@ -287,14 +434,15 @@ export default function DepositPage() {
       if (depositResult?.id) {
         setLastSubmittedDepositId(depositResult.id);
       }
+      setPaymentRequested(!!depositResult?.paymentRequested);
 
       setStep(3);
-      toast.success('Deposit request submitted!');
+      toast.success(depositResult?.paymentRequested ? 'Payment request sent to your phone' : 'Deposit request submitted!');
       clearErrors();
       fetchData();
       refreshProfile();
     } catch (error) {
-      toast.error('Failed to submit deposit');
+      toast.error(error instanceof Error ? error.message : 'Failed to submit deposit');
       console.error(error);
     } finally {
       setIsSubmitting(false);
@@ -308,6 +456,8 @@ export default function DepositPage() {
     setPhoneNumber('');
     setShowQR(false);
     setLastSubmittedDepositId(null);
+    setPersonalAddress(null);
+    setPaymentRequested(false);
   };
 
   const categories: { id: PaymentCategory; label: string; icon: React.ReactNode }[] = [
@@ -316,6 +466,8 @@ export default function DepositPage() {
     { id: 'crypto', label: 'Crypto', icon: <Bitcoin className="h-3.5 w-3.5" /> },
   ];
 
+  const cryptoAddress = personalAddress?.address || selectedMethod?.walletAddress;
+
   // Wait for hydration to prevent mismatch
   if (!isHydrated || isLoading) {
     return (
@@ -578,7 +730,7 @@ export default function DepositPage() {
                   ) : (
                     <>
                       {/* Deposit Address with QR */}
-                      {selectedMethod.walletAddress && (
+                      {cryptoAddress && (
                         <div className="bg-amber-900/20 border border-amber-900/30 rounded-lg p-3">
                           <div className="flex items-center justify-between mb-2">
                             <p className="text-amber-400 text-xs sm:text-sm font-medium">
@@ -599,21 +751,23 @@ export default function DepositPage() {
 
                           {showQR && (
                             <div className="mb-3">
-                              <QRCodeDisplay address={selectedMethod.walletAddress} name={selectedMethod.name} />
+                              <QRCodeDisplay address={cryptoAddress} name={selectedMethod.name} />
                             </div>
                           )}
 
                           <div className="flex items-center justify-between bg-slate-900 rounded-lg px-3 py-2 gap-2">
-                            <span className="text-white font-mono text-[10px] sm:text-xs break-all">{selectedMethod.walletAddress}</span>
-                            <CopyButton text={selectedMethod.walletAddress} />
+                            <span className="text-white font-mono text-[10px] sm:text-xs break-all">{cryptoAddress}</span>
+                            <CopyButton text={cryptoAddress} />
                           </div>
-                          {selectedMethod.network && (
+                          {(personalAddress || selectedMethod.network) && (
                             <p className="text-amber-300 text-[10px] sm:text-xs mt-2">
-                              Network: <span className="font-medium">{selectedMethod.network}</span>
+                              Network: <span className="font-medium">{personalAddress?.networkLabel || selectedMethod.network}</span>
                             </p>
                           )}
                           <p className="text-slate-500 text-[10px] sm:text-xs mt-2">
-                            Send the exact amount to the address above, then click submit.
+                            {personalAddress
+                              ? 'This address is yours alone. Submit the amount you plan to send, then make the payment.'
+                              : 'Send the exact amount to the address above, then click submit.'}
                           </p>
                         </div>
                       )}
@@ -624,7 +778,9 @@ export default function DepositPage() {
                   <div className="bg-blue-900/20 border border-blue-900/30 rounded-lg p-3 flex items-start gap-2">
                     <Info className="h-4 w-4 text-blue-400 shrink-0 mt-0.5" />
                     <p className="text-blue-300 text-[10px] sm:text-xs">
-                      Your deposit will be credited after admin approval. Processing time: {selectedMethod.processingTime}
+                      {personalAddress
+                        ? `Your deposit is credited automatically after ${personalAddress.confirmations} network confirmations.`
+                        : `Your deposit will be credited after admin approval. Processing time: ${selectedMethod.processingTime}`}
                     </p>
                   </div>
 
@@ -705,14 +861,20 @@ export default function DepositPage() {
                       <div className="w-14 h-14 sm:w-16 sm:h-16 bg-amber-500/20 rounded-full flex items-center justify-center mx-auto mb-3 sm:mb-4">
                         <Loader2 className="h-7 w-7 sm:h-8 sm:w-8 text-amber-400 animate-spin" />
                       </div>
-                      <h2 className="text-base sm:text-lg font-bold text-white mb-1">Deposit Pending</h2>
+                      <h2 className="text-base sm:text-lg font-bold text-white mb-1">
+                        {paymentRequested ? 'Check Your Phone' : 'Deposit Pending'}
+                      </h2>
                       <p className="text-slate-400 text-xs sm:text-sm mb-2">
-                        Your deposit request has been submitted and is awaiting approval.
+                        {paymentRequested
+                          ? 'A payment request was sent to your phone. Enter your mobile money PIN to approve it.'
+                          : 'Your deposit request has been submitted and is awaiting approval.'}
                       </p>
-                      <div className="bg-slate-900/50 border border-slate-700 rounded-lg p-2.5 sm:p-3 mb-3 sm:mb-4">
-                        <p className="text-slate-300 text-xs sm:text-sm font-medium">Estimated Processing Time</p>
-                        <p className="text-amber-400 text-base sm:text-lg font-bold">5 minutes - 4 hours</p>
-                      </div>
+                      {!paymentRequested && (
+                        <div className="bg-slate-900/50 border border-slate-700 rounded-lg p-2.5 sm:p-3 mb-3 sm:mb-4">
+                          <p className="text-slate-300 text-xs sm:text-sm font-medium">Estimated Processing Time</p>
+                          <p className="text-amber-400 text-base sm:text-lg font-bold">5 minutes - 4 hours</p>
+                        </div>
+                      )}
                       <p className="text-slate-500 text-[10px] sm:text-xs mb-4 sm:mb-6">
                         You will be notified in real-time when it's processed.
                       </p>
@@ -730,7 +892,11 @@ export default function DepositPage() {
           </div>
 
           {/* Recent Deposits Sidebar */}
-          <div className="lg:col-span-1 order-first lg:order-last">
+          <div className="lg:col-span-1 order-first lg:order-last space-y-3 sm:space-y-4">
+            {isLiveAccount && (
+              <BonusWidget summary={bonusSummary} bonuses={bonuses} onClaim={handleClaimPromoCode} />
+            )}
+
             <div className="bg-slate-800/50 border border-slate-700 rounded-xl overflow-hidden lg:sticky lg:top-4">
               <div className="p-2.5 sm:p-3 border-b border-slate-700 bg-slate-800">
                 <h3 className="text-white font-medium text-xs sm:text-sm">Recent Deposits</h3>
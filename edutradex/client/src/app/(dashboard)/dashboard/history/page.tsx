@@ -23,6 +23,9 @@ import {
   Check,
   RefreshCw,
   Search,
+  PlayCircle,
+  Send,
+  Ban,
 } from 'lucide-react';
 import { format } from 'date-fns';
 import { useTradeStore, useFilteredTrades, Trade } from '@/store/trade.store';
@@ -30,7 +33,8 @@ import { useAuthStore } from '@/store/auth.store';
 import { cn, formatCurrency } from '@/lib/utils';
 import { api } from '@/lib/api';
 import toast from 'react-hot-toast';
-import type { Deposit, Withdrawal } from '@/types';
+import type { Deposit, DepositStatus, Withdrawal, WithdrawalStatus } from '@/types';
+import { TradeReplayModal } from '@/components/trading/TradeReplayModal';
 
 type TabType = 'trades' | 'deposits' | 'withdrawals';
 type TradeFilterType = 'all' | 'won' | 'lost';
@@ -39,8 +43,17 @@ type DateRangeType = 'all' | 'today' | '7d' | '30d';
 
 const ITEMS_PER_PAGE = 20;
 
+// The current month and the eleven before it, newest first
+function getStatementMonths(): { value: string; label: string }[] {
+  const now = new Date();
+  return Array.from({ length: 12 }, (_, i) => {
+    const month = new Date(now.getFullYear(), now.getMonth() - i, 1);
+    return { value: format(month, 'yyyy-MM'), label: format(month, 'MMM yyyy') };
+  });
+}
+
 export default function HistoryPage() {
-  const { isHydrated } = useAuthStore();
+  const { isHydrated, user } = useAuthStore();
   // Use filtered trades - only shows data for current account type (LIVE or DEMO)
   const trades = useFilteredTrades();
   const clearHistory = useTradeStore((state) => state.clearHistory);
@@ -52,8 +65,11 @@ export default function HistoryPage() {
   const [dateRange, setDateRange] = useState<DateRangeType>('all');
   const [searchQuery, setSearchQuery] = useState('');
   const [currentPage, setCurrentPage] = useState(1);
+  const statementMonths = useMemo(getStatementMonths, []);
+  const [statementMonth, setStatementMonth] = useState(statementMonths[0].value);
   const [clearHistoryEnabled, setClearHistoryEnabled] = useState(false);
   const [isRefreshing, setIsRefreshing] = useState(false);
+  const [isExporting, setIsExporting] = useState(false);
 
   // Deposits & Withdrawals state
   const [deposits, setDeposits] = useState<Deposit[]>([]);
@@ -64,6 +80,7 @@ export default function HistoryPage() {
   // Detail modal
   const [selectedDeposit, setSelectedDeposit] = useState<Deposit | null>(null);
   const [selectedWithdrawal, setSelectedWithdrawal] = useState<Withdrawal | null>(null);
+  const [replayTradeId, setReplayTradeId] = useState<string | null>(null);
 
   // Ref for search input debounce
   const searchTimeoutRef = useRef<NodeJS.Timeout | null>(null);
@@ -229,7 +246,7 @@ export default function HistoryPage() {
     const cutoff = getDateCutoff(dateRange);
 
     return withdrawals.filter((withdrawal) => {
-      if (statusFilter !== 'all' && withdrawal.status !== statusFilter) return false;
+      if (statusFilter !== 'all' && getWithdrawalStatusGroup(withdrawal.status) !== statusFilter) return false;
       if (cutoff && new Date(withdrawal.createdAt) < cutoff) return false;
       return true;
     });
@@ -248,48 +265,35 @@ export default function HistoryPage() {
     return `${Math.floor(seconds / 60)}m`;
   };
 
-  const handleExport = () => {
-    if (filteredTrades.length === 0) {
-      toast.error('No trades to export');
-      return;
-    }
+  const handleExportStatement = async (exportFormat: 'pdf' | 'csv') => {
+    const [year, month] = statementMonth.split('-').map(Number);
+    const isCurrentMonth = statementMonth === statementMonths[0].value;
+    const nextMonth = new Date(year, month, 1);
 
-    const headers = ['Date', 'Asset', 'Market Type', 'Direction', 'Amount ($)', 'Duration', 'Entry Price', 'Exit Price', 'Result', 'Profit/Loss ($)'];
-    const rows = filteredTrades.map((trade) => [
-      format(new Date(trade.createdAt), 'yyyy-MM-dd HH:mm:ss'),
-      trade.symbol,
-      trade.marketType.toUpperCase(),
-      trade.direction,
-      trade.amount.toFixed(2),
-      formatDuration(trade.duration),
-      trade.entryPrice?.toFixed(5) || 'N/A',
-      trade.exitPrice?.toFixed(5) || 'N/A',
-      trade.status === 'won' ? 'PROFIT' : 'LOSS',
-      (trade.profit || 0).toFixed(2),
-    ]);
-
-    const csvContent = [headers.join(','), ...rows.map((row) => row.map((cell) => `"${cell}"`).join(','))].join('\n');
-    const summary = [
-      '',
-      '',
-      'Summary',
-      `Total Trades,${filteredStats.totalTrades}`,
-      `Profit,${filteredStats.wonTrades}`,
-      `Loss,${filteredStats.lostTrades}`,
-      `Total Profit/Loss,$${filteredStats.totalProfit.toFixed(2)}`,
-      `Win Rate,${filteredStats.winRate.toFixed(1)}%`
-    ].join('\n');
-
-    const blob = new Blob([csvContent + '\n' + summary], { type: 'text/csv;charset=utf-8;' });
-    const url = URL.createObjectURL(blob);
-    const link = document.createElement('a');
-    link.href = url;
-    link.download = `trade-history-${format(new Date(), 'yyyy-MM-dd')}.csv`;
-    document.body.appendChild(link);
-    link.click();
-    document.body.removeChild(link);
-    URL.revokeObjectURL(url);
-    toast.success(`Exported ${filteredTrades.length} trades`);
+    setIsExporting(true);
+    try {
+      // The current month runs up to now, which the server uses by default
+      const blob = await api.downloadAccountStatement({
+        format: exportFormat,
+        accountType: user?.activeAccountType || 'LIVE',
+        from: isCurrentMonth ? undefined : `${statementMonth}-01`,
+        to: isCurrentMonth ? undefined : format(nextMonth, 'yyyy-MM-01'),
+      });
+
+      const url = URL.createObjectURL(blob);
+      const link = document.createElement('a');
+      link.href = url;
+      link.download = `statement-${statementMonth}.${exportFormat}`;
+      document.body.appendChild(link);
+      link.click();
+      document.body.removeChild(link);
+      URL.revokeObjectURL(url);
+      toast.success('Statement downloaded');
+    } catch {
+      toast.error('Failed to download statement');
+    } finally {
+      setIsExporting(false);
+    }
   };
 
   // Wait for hydration
@@ -334,26 +338,45 @@ export default function HistoryPage() {
               <RefreshCw className={cn('h-3.5 w-3.5', isRefreshing && 'animate-spin')} />
               <span className="hidden sm:inline">Refresh</span>
             </button>
-            {activeTab === 'trades' && (
-              <>
-                {clearHistoryEnabled && (
-                  <button
-                    onClick={handleClearHistory}
-                    className="flex items-center gap-1.5 px-3 py-1.5 bg-red-600/20 hover:bg-red-600/30 text-red-400 text-xs sm:text-sm rounded-lg transition-colors"
-                  >
-                    <Trash2 className="h-3.5 w-3.5" />
-                    <span className="hidden sm:inline">Clear</span>
-                  </button>
-                )}
+            {activeTab === 'trades' && clearHistoryEnabled && (
+              <button
+                onClick={handleClearHistory}
+                className="flex items-center gap-1.5 px-3 py-1.5 bg-red-600/20 hover:bg-red-600/30 text-red-400 text-xs sm:text-sm rounded-lg transition-colors"
+              >
+                <Trash2 className="h-3.5 w-3.5" />
+                <span className="hidden sm:inline">Clear</span>
+              </button>
+            )}
+            <div className="flex items-center gap-1 bg-slate-800 rounded-lg p-0.5 pl-2">
+              {isExporting ? (
+                <Loader2 className="h-3.5 w-3.5 text-slate-400 animate-spin" />
+              ) : (
+                <Download className="h-3.5 w-3.5 text-slate-400" />
+              )}
+              <select
+                value={statementMonth}
+                onChange={(e) => setStatementMonth(e.target.value)}
+                aria-label="Statement month"
+                className="bg-transparent text-white text-xs sm:text-sm px-2 py-1 focus:outline-none"
+              >
+                {statementMonths.map((month) => (
+                  <option key={month.value} value={month.value} className="bg-slate-800">
+                    {month.label}
+                  </option>
+                ))}
+              </select>
+              {(['pdf', 'csv'] as const).map((exportFormat) => (
                 <button
-                  onClick={handleExport}
-                  className="flex items-center gap-1.5 px-3 py-1.5 bg-slate-700 hover:bg-slate-600 text-white text-xs sm:text-sm rounded-lg transition-colors"
+                  key={exportFormat}
+                  onClick={() => handleExportStatement(exportFormat)}
+                  disabled={isExporting}
+                  title={`Download ${exportFormat.toUpperCase()} statement`}
+                  className="px-2.5 py-1 bg-slate-700 hover:bg-slate-600 disabled:opacity-50 text-white text-xs sm:text-sm rounded-md transition-colors"
                 >
-                  <Download className="h-3.5 w-3.5" />
-                  <span className="hidden sm:inline">Export</span>
+                  {exportFormat.toUpperCase()}
                 </button>
-              </>
-            )}
+              ))}
+            </div>
           </div>
         </div>
 
@@ -495,6 +518,7 @@ export default function HistoryPage() {
               isLoading={isTradesLoading}
               formatDate={formatDate}
               formatDuration={formatDuration}
+              onReplay={setReplayTradeId}
             />
             {/* Pagination */}
             {totalPages > 1 && (
@@ -539,6 +563,11 @@ export default function HistoryPage() {
           />
         )}
 
+        {/* Trade Replay Modal */}
+        {replayTradeId && (
+          <TradeReplayModal tradeId={replayTradeId} onClose={() => setReplayTradeId(null)} />
+        )}
+
         {/* Deposit Detail Modal */}
         {selectedDeposit && (
           <DetailModal
@@ -569,11 +598,13 @@ function TradesContent({
   isLoading,
   formatDate,
   formatDuration,
+  onReplay,
 }: {
   trades: Trade[];
   isLoading: boolean;
   formatDate: (d: string) => string;
   formatDuration: (s: number) => string;
+  onReplay: (tradeId: string) => void;
 }) {
   if (isLoading) {
     return (
@@ -614,6 +645,7 @@ function TradesContent({
                 <th className="px-4 py-3 text-left text-xs font-medium text-slate-400 uppercase">Result</th>
                 <th className="px-4 py-3 text-left text-xs font-medium text-slate-400 uppercase">Profit/Loss</th>
                 <th className="px-4 py-3 text-left text-xs font-medium text-slate-400 uppercase">Date</th>
+                <th className="px-4 py-3 text-left text-xs font-medium text-slate-400 uppercase">Replay</th>
               </tr>
             </thead>
             <tbody className="divide-y divide-slate-700/50">
@@ -641,9 +673,9 @@ function TradesContent({
                   <td className="px-4 py-3">
                     <span className={cn(
                       'px-2 py-0.5 rounded-full text-xs font-medium',
-                      trade.status === 'won' ? 'bg-emerald-600/20 text-emerald-400' : 'bg-red-600/20 text-red-400'
+                      trade.status === 'won' ? 'bg-emerald-600/20 text-emerald-400' : trade.status === 'draw' ? 'bg-slate-600/20 text-slate-300' : 'bg-red-600/20 text-red-400'
                     )}>
-                      {trade.status === 'won' ? 'PROFIT' : 'LOSS'}
+                      {trade.status === 'won' ? 'PROFIT' : trade.status === 'draw' ? 'DRAW' : 'LOSS'}
                     </span>
                   </td>
                   <td className="px-4 py-3">
@@ -652,6 +684,15 @@ function TradesContent({
                     </span>
                   </td>
                   <td className="px-4 py-3 text-slate-400 text-xs">{formatDate(trade.createdAt)}</td>
+                  <td className="px-4 py-3">
+                    <button
+                      onClick={() => onReplay(trade.id)}
+                      className="p-1.5 rounded-lg text-slate-400 hover:text-white hover:bg-slate-700 transition-colors"
+                      title="Replay trade"
+                    >
+                      <PlayCircle className="h-4 w-4" />
+                    </button>
+                  </td>
                 </tr>
               ))}
             </tbody>
@@ -675,9 +716,9 @@ function TradesContent({
               </div>
               <span className={cn(
                 'px-2 py-0.5 rounded-full text-[10px] font-medium',
-                trade.status === 'won' ? 'bg-emerald-600/20 text-emerald-400' : 'bg-red-600/20 text-red-400'
+                trade.status === 'won' ? 'bg-emerald-600/20 text-emerald-400' : trade.status === 'draw' ? 'bg-slate-600/20 text-slate-300' : 'bg-red-600/20 text-red-400'
               )}>
-                {trade.status === 'won' ? 'PROFIT' : 'LOSS'}
+                {trade.status === 'won' ? 'PROFIT' : trade.status === 'draw' ? 'DRAW' : 'LOSS'}
               </span>
             </div>
             <div className="flex items-center justify-between">
@@ -693,7 +734,16 @@ function TradesContent({
                 {(trade.profit || 0) >= 0 ? '+' : ''}${(trade.profit || 0).toFixed(2)}
               </span>
             </div>
-            <p className="text-slate-500 text-[10px] mt-2">{formatDate(trade.createdAt)}</p>
+            <div className="flex items-center justify-between mt-2">
+              <p className="text-slate-500 text-[10px]">{formatDate(trade.createdAt)}</p>
+              <button
+                onClick={() => onReplay(trade.id)}
+                className="flex items-center gap-1 text-[10px] text-slate-400 hover:text-white transition-colors"
+              >
+                <PlayCircle className="h-3 w-3" />
+                Replay
+              </button>
+            </div>
           </div>
         ))}
       </div>
@@ -945,8 +995,33 @@ function WithdrawalsContent({
   );
 }
 
+// In-flight withdrawals count as pending, paid ones as done
+function getWithdrawalStatusGroup(status: WithdrawalStatus): Exclude<StatusFilterType, 'all'> {
+  if (status === 'COMPLETED') return 'APPROVED';
+  if (status === 'FAILED' || status === 'REJECTED' || status === 'CANCELLED') return 'REJECTED';
+  return 'PENDING';
+}
+
+const WITHDRAWAL_BADGES: Partial<Record<WithdrawalStatus, { icon: typeof Clock; className: string; label: string }>> = {
+  UNDER_REVIEW: { icon: Clock, className: 'text-purple-400 bg-purple-500/20', label: 'Under Review' },
+  PROCESSING: { icon: Send, className: 'text-blue-400 bg-blue-500/20', label: 'Sent' },
+  COMPLETED: { icon: CheckCircle, className: 'text-emerald-400 bg-emerald-500/20', label: 'Completed' },
+  FAILED: { icon: XCircle, className: 'text-red-400 bg-red-500/20', label: 'Failed' },
+  CANCELLED: { icon: Ban, className: 'text-slate-400 bg-slate-500/20', label: 'Cancelled' },
+};
+
 // Status Badge Component
-function StatusBadge({ status }: { status: 'PENDING' | 'APPROVED' | 'REJECTED' }) {
+function StatusBadge({ status }: { status: DepositStatus | WithdrawalStatus }) {
+  const withdrawalBadge = WITHDRAWAL_BADGES[status as WithdrawalStatus];
+  if (withdrawalBadge) {
+    const { icon: Icon, className, label } = withdrawalBadge;
+    return (
+      <span className={cn('inline-flex items-center gap-1 px-2 py-0.5 rounded-full text-[10px] font-medium', className)}>
+        <Icon className="h-3 w-3" />
+        {label}
+      </span>
+    );
+  }
   if (status === 'PENDING') {
     return (
       <span className="inline-flex items-center gap-1 px-2 py-0.5 rounded-full text-[10px] font-medium text-amber-400 bg-amber-500/20">
@@ -1096,6 +1171,17 @@ function WithdrawalDetail({ withdrawal, formatDate }: { withdrawal: Withdrawal;
         {withdrawal.processedAt && (
           <DetailRow label="Processed" value={formatDate(withdrawal.processedAt)} />
         )}
+        {withdrawal.completedAt && (
+          <DetailRow label="Completed" value={formatDate(withdrawal.completedAt)} />
+        )}
+        {withdrawal.payoutReference && (
+          <div>
+            <p className="text-slate-400 text-xs mb-1">Payout Reference</p>
+            <p className="text-white text-xs font-mono bg-slate-900 p-2 rounded break-all">
+              {withdrawal.payoutReference}
+            </p>
+          </div>
+        )}
       </div>
 
       {withdrawal.adminNote && (
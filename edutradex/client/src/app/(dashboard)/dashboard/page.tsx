@@ -72,10 +72,12 @@ function RecentTradeItem({ trade }: { trade: Trade }) {
         <p className={cn(
           'text-xs sm:text-sm font-medium',
           trade.status === 'won' ? 'text-emerald-400' :
-          trade.status === 'lost' ? 'text-red-400' : 'text-amber-400'
+          trade.status === 'lost' ? 'text-red-400' :
+          trade.status === 'draw' ? 'text-slate-300' : 'text-amber-400'
         )}>
           {trade.status === 'won' ? `+${formatCurrency(trade.profit || 0)}` :
-           trade.status === 'lost' ? `-${formatCurrency(trade.amount)}` : 'Active'}
+           trade.status === 'lost' ? `-${formatCurrency(trade.amount)}` :
+           trade.status === 'draw' ? formatCurrency(0) : 'Active'}
         </p>
         <p className="text-[10px] sm:text-xs text-slate-500 capitalize">{trade.status}</p>
       </div>
@@ -44,6 +44,8 @@ import toast from 'react-hot-toast';
 import { cn } from '@/lib/utils';
 import { DeviceCard } from '@/components/profile/DeviceCard';
 import { LoginHistoryTable } from '@/components/profile/LoginHistoryTable';
+import { TradingLimitsCard } from '@/components/profile/TradingLimitsCard';
+import { NotificationPreferencesCard } from '@/components/profile/NotificationPreferencesCard';
 import { StepPill } from '../settings/StepPill';
 
 export default function ProfilePage() {
@@ -1362,6 +1364,12 @@ export default function ProfilePage() {
         )}
       </div>
 
+      {/* Trading Limits Section */}
+      <TradingLimitsCard />
+
+      {/* Notification Preferences Section */}
+      <NotificationPreferencesCard />
+
       {/* Login History Section */}
       <div className="bg-slate-800/50 border border-slate-700/50 rounded-xl overflow-hidden">
         <button
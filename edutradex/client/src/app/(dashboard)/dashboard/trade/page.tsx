@@ -82,8 +82,16 @@ export default function TradePage() {
     toggleVolume,
     drawingTool,
     setDrawingTool,
+    syncWithServer: syncChartLayouts,
   } = useChartStore();
 
+  // Pull the chart workspace saved to the account, then keep it in sync
+  useEffect(() => {
+    syncChartLayouts().catch((error) => {
+      console.error('Failed to load chart layouts:', error);
+    });
+  }, [syncChartLayouts]);
+
   // Drawing control handlers
   const handleUndoDrawing = useCallback(() => {
     priceChartRef.current?.undoDrawing();
@@ -185,13 +193,13 @@ export default function TradePage() {
     }
   }, [latestPrices, selectedAsset]);
 
-  // Fetch asset payout when selected asset changes
+  // Fetch the payout quote the server will apply for this asset and duration
   useEffect(() => {
     async function fetchAssetPayout() {
       try {
-        const asset = await api.getAsset(selectedAsset);
-        if (asset?.payoutPercent) {
-          setAssetPayout(asset.payoutPercent);
+        const quote = await api.getPayoutQuote(selectedAsset, selectedDuration);
+        if (quote?.payoutPercent) {
+          setAssetPayout(quote.payoutPercent);
         }
       } catch (error) {
         console.error('Failed to fetch asset payout:', error);
@@ -199,7 +207,7 @@ export default function TradePage() {
       }
     }
     fetchAssetPayout();
-  }, [selectedAsset]);
+  }, [selectedAsset, selectedDuration]);
 
   // Execute the actual trade (called directly or after confirmation)
   const executeTrade = useCallback(
@@ -475,6 +483,7 @@ export default function TradePage() {
             isCollapsed={false}
             onToggle={() => setIsTradesPanelOpen(false)}
             latestPrices={latestPrices}
+            symbol={selectedAsset}
           />
         )}
       </div>
@@ -18,6 +18,8 @@ import {
   X,
   Copy,
   Check,
+  Send,
+  Ban,
 } from 'lucide-react';
 import { format } from 'date-fns';
 import { api } from '@/lib/api';
@@ -47,7 +49,43 @@ interface Transaction {
   adminNote?: string;
 }
 
+// Withdrawal-only lifecycle states; PENDING, APPROVED and REJECTED are shared with deposits
+const WITHDRAWAL_BADGES: Partial<Record<WithdrawalStatus, { icon: typeof Clock; className: string; label: string }>> = {
+  UNDER_REVIEW: { icon: Clock, className: 'text-purple-400 bg-purple-500/20', label: 'Under Review' },
+  PROCESSING: { icon: Send, className: 'text-blue-400 bg-blue-500/20', label: 'Sent' },
+  COMPLETED: { icon: CheckCircle, className: 'text-emerald-400 bg-emerald-500/20', label: 'Completed' },
+  FAILED: { icon: XCircle, className: 'text-red-400 bg-red-500/20', label: 'Failed' },
+  CANCELLED: { icon: Ban, className: 'text-slate-400 bg-slate-500/20', label: 'Cancelled' },
+};
+
+// Folds both lifecycles into the pending / done / rejected filter buckets;
+// an approved withdrawal is still on its way, an approved deposit is done
+function getStatusGroup(tx: Pick<Transaction, 'type' | 'status'>): Exclude<TransactionStatus, 'all'> {
+  switch (tx.status) {
+    case 'PENDING':
+    case 'UNDER_REVIEW':
+    case 'PROCESSING':
+      return 'PENDING';
+    case 'APPROVED':
+      return tx.type === 'deposit' ? 'APPROVED' : 'PENDING';
+    case 'COMPLETED':
+      return 'APPROVED';
+    default:
+      return 'REJECTED';
+  }
+}
+
 function StatusBadge({ status }: { status: DepositStatus | WithdrawalStatus }) {
+  const withdrawalBadge = WITHDRAWAL_BADGES[status as WithdrawalStatus];
+  if (withdrawalBadge) {
+    const { icon: Icon, className, label } = withdrawalBadge;
+    return (
+      <span className={cn('inline-flex items-center gap-1 px-2 py-0.5 rounded-full text-[10px] sm:text-xs font-medium', className)}>
+        <Icon className="h-3 w-3" />
+        {label}
+      </span>
+    );
+  }
   if (status === 'PENDING') {
     return (
       <span className="inline-flex items-center gap-1 px-2 py-0.5 rounded-full text-[10px] sm:text-xs font-medium text-amber-400 bg-amber-500/20">
@@ -150,6 +188,7 @@ export default function TransactionsPage() {
       cryptoCurrency: w.cryptoCurrency,
       walletAddress: w.walletAddress,
       network: w.network,
+      transactionHash: w.payoutReference,
       adminNote: w.adminNote,
     }));
 
@@ -164,7 +203,7 @@ export default function TransactionsPage() {
 
     return allTransactions.filter(tx => {
       if (typeFilter !== 'all' && tx.type !== typeFilter) return false;
-      if (statusFilter !== 'all' && tx.status !== statusFilter) return false;
+      if (statusFilter !== 'all' && getStatusGroup(tx) !== statusFilter) return false;
       if (cutoff && new Date(tx.createdAt) < cutoff) return false;
       return true;
     });
@@ -173,8 +212,8 @@ export default function TransactionsPage() {
   // Calculate stats
   const stats = useMemo(() => {
     const totalDeposits = deposits.filter(d => d.status === 'APPROVED').reduce((sum, d) => sum + d.amount, 0);
-    const totalWithdrawals = withdrawals.filter(w => w.status === 'APPROVED').reduce((sum, w) => sum + w.amount, 0);
-    const pendingCount = allTransactions.filter(tx => tx.status === 'PENDING').length;
+    const totalWithdrawals = withdrawals.filter(w => w.status === 'COMPLETED').reduce((sum, w) => sum + w.amount, 0);
+    const pendingCount = allTransactions.filter(tx => getStatusGroup(tx) === 'PENDING').length;
     const totalTransactions = allTransactions.length;
 
     return { totalDeposits, totalWithdrawals, pendingCount, totalTransactions };
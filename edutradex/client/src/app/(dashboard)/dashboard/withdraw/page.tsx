@@ -14,6 +14,9 @@ import {
   Mail,
   Shield,
   Info,
+  FileSearch,
+  Send,
+  Ban,
 } from 'lucide-react';
 import toast from 'react-hot-toast';
 import { api } from '@/lib/api';
@@ -22,7 +25,7 @@ import { formatCurrency, formatDate, cn } from '@/lib/utils';
 import { useWithdrawalUpdates } from '@/hooks/useWithdrawalUpdates';
 import { useFormValidation } from '@/hooks/useFormValidation';
 import { createWithdrawalSchema } from '@/schemas/withdrawal.schema';
-import type { Withdrawal, PaymentMethod as PaymentMethodType } from '@/types';
+import type { Withdrawal, WithdrawalStatus, PaymentMethod as PaymentMethodType } from '@/types';
 
 type Step = 1 | 2 | 3 | 4;
 
@@ -68,6 +71,14 @@ function StepIndicator({ currentStep, totalSteps = 4 }: { currentStep: Step; tot
   );
 }
 
+// Reasons the withdrawal rules gave for sending a request to review
+function getHoldReasons(withdrawal: Withdrawal): string[] {
+  if (withdrawal.ruleOutcome !== 'HOLD') return [];
+  return (withdrawal.ruleChecks ?? [])
+    .filter((check) => check.outcome === 'HOLD')
+    .map((check) => check.reason);
+}
+
 function StatusBadge({ status }: { status: Withdrawal['status'] }) {
   if (status === 'PENDING') {
     return (
@@ -79,8 +90,13 @@ function StatusBadge({ status }: { status: Withdrawal['status'] }) {
   }
 
   const config = {
-    APPROVED: { icon: CheckCircle, color: 'text-emerald-400 bg-emerald-500/20', label: 'Completed' },
+    UNDER_REVIEW: { icon: FileSearch, color: 'text-purple-400 bg-purple-500/20', label: 'Under Review' },
+    APPROVED: { icon: CheckCircle, color: 'text-sky-400 bg-sky-500/20', label: 'Approved' },
+    PROCESSING: { icon: Send, color: 'text-blue-400 bg-blue-500/20', label: 'Sent' },
+    COMPLETED: { icon: CheckCircle, color: 'text-emerald-400 bg-emerald-500/20', label: 'Completed' },
+    FAILED: { icon: AlertTriangle, color: 'text-red-400 bg-red-500/20', label: 'Failed' },
     REJECTED: { icon: XCircle, color: 'text-red-400 bg-red-500/20', label: 'Rejected' },
+    CANCELLED: { icon: Ban, color: 'text-slate-400 bg-slate-500/20', label: 'Cancelled' },
   };
   const { icon: Icon, color, label } = config[status];
   return (
@@ -206,8 +222,11 @@ export default function WithdrawPage() {
   const [canResendCode, setCanResendCode] = useState(true);
   const [resendCountdown, setResendCountdown] = useState(0);
   const [lastWithdrawalId, setLastWithdrawalId] = useState<string | null>(null);
-  const [lastWithdrawalStatus, setLastWithdrawalStatus] = useState<'PENDING' | 'APPROVED' | 'REJECTED'>('PENDING');
+  const [lastWithdrawalStatus, setLastWithdrawalStatus] = useState<WithdrawalStatus>('PENDING');
+  const [lastHoldReasons, setLastHoldReasons] = useState<string[]>([]);
+  const [cancellingId, setCancellingId] = useState<string | null>(null);
   const [hasNoDeposit, setHasNoDeposit] = useState(false);
+  const [activeBonusAmount, setActiveBonusAmount] = useState(0);
 
   // Form state
   const [amount, setAmount] = useState('');
@@ -247,11 +266,13 @@ export default function WithdrawPage() {
   const fetchData = useCallback(async () => {
     setIsLoading(true);
     try {
-      const [withdrawalsData, depositMethodData] = await Promise.all([
+      const [withdrawalsData, depositMethodData, bonusData] = await Promise.all([
         api.getMyWithdrawals({ limit: 5 }),
         api.getMyDepositMethod(),
+        api.getMyBonuses().catch(() => null),
       ]);
       setWithdrawals(withdrawalsData);
+      setActiveBonusAmount(bonusData?.summary.bonusBalance ?? 0);
 
       if (depositMethodData) {
         setDepositMethod(depositMethodData);
@@ -279,7 +300,7 @@ export default function WithdrawPage() {
     }
   }, []);
 
-  useWithdrawalUpdates(useCallback((withdrawalId: string, status: 'APPROVED' | 'REJECTED') => {
+  useWithdrawalUpdates(useCallback((withdrawalId: string, status: WithdrawalStatus) => {
     setWithdrawals(prev => prev.map(w =>
       w.id === withdrawalId ? { ...w, status } : w
     ));
@@ -288,8 +309,14 @@ export default function WithdrawPage() {
       setLastWithdrawalStatus(status);
       if (status === 'APPROVED') {
         toast.success('Your withdrawal has been approved!');
+      } else if (status === 'PROCESSING') {
+        toast.success('Your withdrawal has been sent!');
+      } else if (status === 'COMPLETED') {
+        toast.success('Your withdrawal has been completed!');
       } else if (status === 'REJECTED') {
         toast.error('Your withdrawal has been rejected.');
+      } else if (status === 'FAILED') {
+        toast.error('Your withdrawal could not be sent.');
       }
     }
 
@@ -429,7 +456,8 @@ export default function WithdrawPage() {
       }
 
       setLastWithdrawalId(withdrawal.id);
-      setLastWithdrawalStatus('PENDING');
+      setLastWithdrawalStatus(withdrawal.status);
+      setLastHoldReasons(getHoldReasons(withdrawal));
 
       setStep(4);
       toast.success('Withdrawal request submitted!');
@@ -444,6 +472,24 @@ export default function WithdrawPage() {
     }
   };
 
+  const handleCancelWithdrawal = async (withdrawalId: string) => {
+    setCancellingId(withdrawalId);
+    try {
+      await api.cancelWithdrawal(withdrawalId);
+      if (withdrawalId === lastWithdrawalId) {
+        setLastWithdrawalStatus('CANCELLED');
+      }
+      toast.success('Withdrawal cancelled. Funds returned to your balance.');
+      refreshWithdrawals();
+      refreshProfile();
+    } catch (error) {
+      const errorMessage = error instanceof Error ? error.message : 'Failed to cancel withdrawal';
+      toast.error(errorMessage);
+    } finally {
+      setCancellingId(null);
+    }
+  };
+
   const handleReset = () => {
     setStep(1);
     setAmount('');
@@ -664,6 +710,16 @@ export default function WithdrawPage() {
           </div>
         )}
 
+        {/* Bonus Forfeit Warning */}
+        {activeBonusAmount > 0 && step < 4 && (
+          <div className="bg-amber-900/20 border border-amber-900/30 rounded-xl p-3 flex items-start sm:items-center gap-2 sm:gap-3">
+            <AlertTriangle className="h-4 w-4 text-amber-400 shrink-0 mt-0.5 sm:mt-0" />
+            <p className="text-amber-300 text-xs sm:text-sm">
+              Withdrawing now forfeits your {formatCurrency(activeBonusAmount)} bonus. Reach its trading target first to keep it.
+            </p>
+          </div>
+        )}
+
         {/* Step Indicator */}
         <StepIndicator currentStep={step} />
 
@@ -939,15 +995,29 @@ export default function WithdrawPage() {
             {/* Step 4: Status */}
             {step === 4 && (
               <div className="bg-slate-800/50 border border-slate-700 rounded-xl p-4 sm:p-6 text-center">
-                {lastWithdrawalStatus === 'PENDING' && (
+                {(lastWithdrawalStatus === 'PENDING' || lastWithdrawalStatus === 'UNDER_REVIEW') && (
                   <>
                     <div className="w-14 h-14 sm:w-16 sm:h-16 bg-amber-500/20 rounded-full flex items-center justify-center mx-auto mb-3 sm:mb-4">
                       <Loader2 className="h-7 w-7 sm:h-8 sm:w-8 text-amber-400 animate-spin" />
                     </div>
-                    <h2 className="text-base sm:text-lg font-bold text-white mb-1">Withdrawal Pending</h2>
+                    <h2 className="text-base sm:text-lg font-bold text-white mb-1">
+                      {lastWithdrawalStatus === 'UNDER_REVIEW' ? 'Withdrawal Under Review' : 'Withdrawal Pending'}
+                    </h2>
                     <p className="text-slate-400 text-xs sm:text-sm mb-2">
-                      Your withdrawal request has been submitted and is awaiting approval.
+                      {lastWithdrawalStatus === 'UNDER_REVIEW'
+                        ? 'Our team is reviewing your withdrawal request.'
+                        : 'Your withdrawal request has been submitted and is awaiting approval.'}
                     </p>
+                    {lastWithdrawalStatus === 'UNDER_REVIEW' && lastHoldReasons.length > 0 && (
+                      <div className="bg-purple-500/10 border border-purple-500/30 rounded-lg p-2.5 sm:p-3 mb-3 text-left">
+                        <p className="text-purple-300 text-xs sm:text-sm font-medium mb-1">Why it needs review</p>
+                        <ul className="list-disc list-inside space-y-0.5 text-slate-400 text-[10px] sm:text-xs">
+                          {lastHoldReasons.map((reason) => (
+                            <li key={reason}>{reason}</li>
+                          ))}
+                        </ul>
+                      </div>
+                    )}
                     <div className="bg-slate-900/50 border border-slate-700 rounded-lg p-2.5 sm:p-3 mb-3 sm:mb-4">
                       <p className="text-slate-300 text-xs sm:text-sm font-medium">Estimated Processing Time</p>
                       <p className="text-amber-400 text-base sm:text-lg font-bold">5 minutes - 4 hours</p>
@@ -958,29 +1028,55 @@ export default function WithdrawPage() {
                   </>
                 )}
 
-                {lastWithdrawalStatus === 'APPROVED' && (
+                {(lastWithdrawalStatus === 'APPROVED' || lastWithdrawalStatus === 'PROCESSING') && (
                   <>
                     <div className="w-14 h-14 sm:w-16 sm:h-16 bg-emerald-500/20 rounded-full flex items-center justify-center mx-auto mb-3 sm:mb-4 animate-in zoom-in duration-300">
-                      <CheckCircle className="h-7 w-7 sm:h-8 sm:w-8 text-emerald-400" />
+                      {lastWithdrawalStatus === 'PROCESSING' ? (
+                        <Send className="h-7 w-7 sm:h-8 sm:w-8 text-emerald-400" />
+                      ) : (
+                        <CheckCircle className="h-7 w-7 sm:h-8 sm:w-8 text-emerald-400" />
+                      )}
                     </div>
-                    <h2 className="text-base sm:text-lg font-bold text-white mb-1">Withdrawal Approved!</h2>
+                    <h2 className="text-base sm:text-lg font-bold text-white mb-1">
+                      {lastWithdrawalStatus === 'PROCESSING' ? 'Payment Sent!' : 'Withdrawal Approved!'}
+                    </h2>
                     <p className="text-slate-400 text-xs sm:text-sm mb-2">
-                      Your withdrawal has been approved and is being processed.
+                      {lastWithdrawalStatus === 'PROCESSING'
+                        ? 'Your payment is on its way.'
+                        : 'Your withdrawal has been approved and is being processed.'}
                     </p>
                     <p className="text-emerald-400 text-[10px] sm:text-xs mb-4 sm:mb-6">
-                      Funds will be sent to your account shortly.
+                      {lastWithdrawalStatus === 'PROCESSING'
+                        ? 'We will confirm once it has arrived.'
+                        : 'Funds will be sent to your account shortly.'}
                     </p>
                   </>
                 )}
 
-                {lastWithdrawalStatus === 'REJECTED' && (
+                {lastWithdrawalStatus === 'COMPLETED' && (
+                  <>
+                    <div className="w-14 h-14 sm:w-16 sm:h-16 bg-emerald-500/20 rounded-full flex items-center justify-center mx-auto mb-3 sm:mb-4 animate-in zoom-in duration-300">
+                      <CheckCircle className="h-7 w-7 sm:h-8 sm:w-8 text-emerald-400" />
+                    </div>
+                    <h2 className="text-base sm:text-lg font-bold text-white mb-1">Withdrawal Completed!</h2>
+                    <p className="text-slate-400 text-xs sm:text-sm mb-4 sm:mb-6">
+                      The funds have been paid out to your account.
+                    </p>
+                  </>
+                )}
+
+                {(lastWithdrawalStatus === 'REJECTED' || lastWithdrawalStatus === 'FAILED') && (
                   <>
                     <div className="w-14 h-14 sm:w-16 sm:h-16 bg-red-500/20 rounded-full flex items-center justify-center mx-auto mb-3 sm:mb-4 animate-in zoom-in duration-300">
                       <XCircle className="h-7 w-7 sm:h-8 sm:w-8 text-red-400" />
                     </div>
-                    <h2 className="text-base sm:text-lg font-bold text-white mb-1">Withdrawal Rejected</h2>
+                    <h2 className="text-base sm:text-lg font-bold text-white mb-1">
+                      {lastWithdrawalStatus === 'FAILED' ? 'Withdrawal Failed' : 'Withdrawal Rejected'}
+                    </h2>
                     <p className="text-slate-400 text-xs sm:text-sm mb-2">
-                      Unfortunately, your withdrawal request was not approved.
+                      {lastWithdrawalStatus === 'FAILED'
+                        ? 'The payment could not be completed.'
+                        : 'Unfortunately, your withdrawal request was not approved.'}
                     </p>
                     <p className="text-red-400 text-[10px] sm:text-xs mb-4 sm:mb-6">
                       Your funds have been returned to your balance.
@@ -988,12 +1084,36 @@ export default function WithdrawPage() {
                   </>
                 )}
 
-                <button
-                  onClick={handleReset}
-                  className="px-5 sm:px-6 py-2 sm:py-2.5 bg-gradient-to-r from-[#1079ff] to-[#092ab2] hover:from-[#3a93ff] hover:to-[#1079ff] text-white text-sm font-medium rounded-lg transition-all"
-                >
-                  {lastWithdrawalStatus === 'PENDING' ? 'Make Another Withdrawal' : 'Done'}
-                </button>
+                {lastWithdrawalStatus === 'CANCELLED' && (
+                  <>
+                    <div className="w-14 h-14 sm:w-16 sm:h-16 bg-slate-500/20 rounded-full flex items-center justify-center mx-auto mb-3 sm:mb-4 animate-in zoom-in duration-300">
+                      <Ban className="h-7 w-7 sm:h-8 sm:w-8 text-slate-400" />
+                    </div>
+                    <h2 className="text-base sm:text-lg font-bold text-white mb-1">Withdrawal Cancelled</h2>
+                    <p className="text-slate-400 text-xs sm:text-sm mb-4 sm:mb-6">
+                      Your funds have been returned to your balance.
+                    </p>
+                  </>
+                )}
+
+                <div className="flex flex-col sm:flex-row items-center justify-center gap-2">
+                  <button
+                    onClick={handleReset}
+                    className="px-5 sm:px-6 py-2 sm:py-2.5 bg-gradient-to-r from-[#1079ff] to-[#092ab2] hover:from-[#3a93ff] hover:to-[#1079ff] text-white text-sm font-medium rounded-lg transition-all"
+                  >
+                    {lastWithdrawalStatus === 'PENDING' ? 'Make Another Withdrawal' : 'Done'}
+                  </button>
+                  {lastWithdrawalId && (lastWithdrawalStatus === 'PENDING' || lastWithdrawalStatus === 'UNDER_REVIEW') && (
+                    <button
+                      onClick={() => handleCancelWithdrawal(lastWithdrawalId)}
+                      disabled={cancellingId === lastWithdrawalId}
+                      className="flex items-center gap-2 px-5 sm:px-6 py-2 sm:py-2.5 text-slate-400 hover:text-white text-sm font-medium transition-colors disabled:opacity-50"
+                    >
+                      {cancellingId === lastWithdrawalId && <Loader2 className="h-4 w-4 animate-spin" />}
+                      Cancel Withdrawal
+                    </button>
+                  )}
+                </div>
               </div>
             )}
           </div>
@@ -1028,11 +1148,31 @@ export default function WithdrawPage() {
                           </span>
                           <span>{formatDate(withdrawal.createdAt)}</span>
                         </div>
+                        {withdrawal.status === 'UNDER_REVIEW' && getHoldReasons(withdrawal).length > 0 && (
+                          <div className="mt-1.5 sm:mt-2 p-1.5 sm:p-2 bg-slate-900 rounded text-[10px] sm:text-xs text-slate-400">
+                            <span className="text-slate-300">In review:</span> {getHoldReasons(withdrawal).join('. ')}
+                          </div>
+                        )}
                         {withdrawal.adminNote && withdrawal.status !== 'PENDING' && (
                           <div className="mt-1.5 sm:mt-2 p-1.5 sm:p-2 bg-slate-900 rounded text-[10px] sm:text-xs text-slate-400">
                             <span className="text-slate-300">Note:</span> {withdrawal.adminNote}
                           </div>
                         )}
+                        {withdrawal.payoutReference && (
+                          <div className="mt-1 text-[10px] sm:text-xs text-slate-500 truncate" title={withdrawal.payoutReference}>
+                            Ref: <span className="font-mono text-slate-400">{withdrawal.payoutReference}</span>
+                          </div>
+                        )}
+                        {(withdrawal.status === 'PENDING' || withdrawal.status === 'UNDER_REVIEW') && (
+                          <button
+                            onClick={() => handleCancelWithdrawal(withdrawal.id)}
+                            disabled={cancellingId === withdrawal.id}
+                            className="mt-1.5 flex items-center gap-1 text-[10px] sm:text-xs text-red-400 hover:text-red-300 transition-colors disabled:opacity-50"
+                          >
+                            {cancellingId === withdrawal.id && <Loader2 className="h-3 w-3 animate-spin" />}
+                            Cancel
+                          </button>
+                        )}
                       </div>
                     ))}
                   </div>
@@ -470,6 +470,25 @@ export default function DailySnapshotsPage() {
                 </div>
               </div>
 
+              {/* Deposit Bonuses */}
+              <div>
+                <h3 className="text-white font-medium mb-3">Bonuses</h3>
+                <div className="grid grid-cols-3 gap-3">
+                  <div className="flex justify-between p-2 bg-slate-700/30 rounded">
+                    <span className="text-slate-400">Granted</span>
+                    <span className="text-white">{formatCurrency(selectedSnapshot.bonusesGranted)}</span>
+                  </div>
+                  <div className="flex justify-between p-2 bg-slate-700/30 rounded">
+                    <span className="text-slate-400">Converted (cost)</span>
+                    <span className="text-red-400">{formatCurrency(selectedSnapshot.bonusCosts)}</span>
+                  </div>
+                  <div className="flex justify-between p-2 bg-slate-700/30 rounded">
+                    <span className="text-slate-400">Forfeited</span>
+                    <span className="text-slate-300">{formatCurrency(selectedSnapshot.bonusesForfeited)}</span>
+                  </div>
+                </div>
+              </div>
+
               {/* Actions */}
               <div className="flex justify-end gap-3 pt-4 border-t border-slate-700">
                 <button
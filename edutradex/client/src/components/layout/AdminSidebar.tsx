@@ -20,6 +20,8 @@ import {
   MessageSquare,
   Activity,
   Crown,
+  HeartPulse,
+  Gift,
 } from 'lucide-react';
 import { cn } from '@/lib/utils';
 import { api } from '@/lib/api';
@@ -33,9 +35,11 @@ const navItems = [
   { href: '/admin/withdrawals', label: 'Withdrawals', icon: ArrowUpFromLine, badgeKey: 'withdrawals' },
   { href: '/admin/tickets', label: 'Support Tickets', icon: MessageSquare, badgeKey: 'tickets' },
   { href: '/admin/payment-methods', label: 'Payment Methods', icon: CreditCard },
+  { href: '/admin/promotions', label: 'Promotions', icon: Gift },
   { href: '/admin/copy-trading', label: 'Copy Trading', icon: Copy, badgeKey: 'pendingLeaders' },
   { href: '/admin/markets', label: 'Markets', icon: TrendingUp },
   { href: '/admin/otc', label: 'OTC Markets', icon: Activity },
+  { href: '/admin/feed-health', label: 'Feed Health', icon: HeartPulse },
   { href: '/admin/spreads', label: 'Spreads', icon: Percent },
   { href: '/admin/settings', label: 'Settings', icon: Settings },
 ];
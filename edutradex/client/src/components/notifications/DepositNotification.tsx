@@ -5,6 +5,7 @@ import { CheckCircle2, XCircle, X, DollarSign, ArrowUpFromLine, Bell } from 'luc
 import { api } from '@/lib/api';
 import { useAuthStore } from '@/store/auth.store';
 import { useNotificationStore } from '@/store/notification.store';
+import type { UserNotification } from '@/types';
 import { formatCurrency } from '@/lib/utils';
 import toast from 'react-hot-toast';
 import type { DepositStatus, WithdrawalStatus } from '@/types';
@@ -26,12 +27,22 @@ interface TransactionNotificationData {
   adminNote?: string;
 }
 
+// Outcomes that get the full notification; a withdrawal's intermediate
+// steps (review, approval, payment sent) only reach the notification bell
+const FINAL_STATUSES: Record<TransactionType, TransactionStatus[]> = {
+  deposit: ['APPROVED', 'REJECTED'],
+  withdrawal: ['COMPLETED', 'FAILED', 'REJECTED'],
+};
+
+const isSuccessful = (type: TransactionType, status: TransactionStatus) =>
+  status === (type === 'deposit' ? 'APPROVED' : 'COMPLETED');
+
 interface WebSocketMessage {
   type: string;
   payload?: {
     id?: string;
     amount?: number;
-    status?: 'APPROVED' | 'REJECTED';
+    status?: TransactionStatus;
     method?: string;
     adminNote?: string;
     timestamp?: number;
@@ -49,7 +60,6 @@ interface WebSocketMessage {
 
 export function DepositNotificationProvider({ children }: { children: React.ReactNode }) {
   const { user, token, isAuthenticated, refreshProfile } = useAuthStore();
-  const { addNotification } = useNotificationStore();
 
   // Debug: Log when provider mounts
   useEffect(() => {
@@ -80,8 +90,13 @@ export function DepositNotificationProvider({ children }: { children: React.Reac
       return;
     }
 
-    const isApproved = payload.status === 'APPROVED';
+    if (!FINAL_STATUSES[type].includes(payload.status)) {
+      return;
+    }
+
+    const isApproved = isSuccessful(type, payload.status);
     const isDeposit = type === 'deposit';
+    const isFailed = payload.status === 'FAILED';
     const amount = payload.amount || 0;
 
     // Show toast notification immediately
@@ -104,7 +119,7 @@ export function DepositNotificationProvider({ children }: { children: React.Reac
                   {isDeposit ? 'Deposit Completed!' : 'Withdrawal Completed!'}
                 </p>
                 <p className="mt-1 text-sm text-emerald-400 font-bold">
-                  {formatCurrency(amount)} has been {isDeposit ? 'credited to your account' : 'processed'}
+                  {formatCurrency(amount)} has been {isDeposit ? 'credited to your account' : 'sent to you'}
                 </p>
               </div>
             </div>
@@ -138,10 +153,12 @@ export function DepositNotificationProvider({ children }: { children: React.Reac
               </div>
               <div className="ml-3 flex-1">
                 <p className="text-sm font-medium text-white">
-                  {isDeposit ? 'Deposit Declined' : 'Withdrawal Declined'}
+                  {isDeposit ? 'Deposit Declined' : isFailed ? 'Withdrawal Failed' : 'Withdrawal Declined'}
                 </p>
                 <p className="mt-1 text-sm text-red-400">
-                  {formatCurrency(amount)} request was not approved
+                  {isFailed
+                    ? `${formatCurrency(amount)} could not be sent and was returned to your balance`
+                    : `${formatCurrency(amount)} request was not approved`}
                 </p>
               </div>
             </div>
@@ -161,24 +178,6 @@ export function DepositNotificationProvider({ children }: { children: React.Reac
       });
     }
 
-    // Add to notification store for the bell icon
-    const notificationType = isDeposit
-      ? isApproved ? 'deposit_approved' : 'deposit_rejected'
-      : isApproved ? 'withdrawal_approved' : 'withdrawal_rejected';
-
-    addNotification({
-      type: notificationType,
-      title: isDeposit
-        ? isApproved ? 'Deposit Completed' : 'Deposit Declined'
-        : isApproved ? 'Withdrawal Completed' : 'Withdrawal Declined',
-      message: isApproved
-        ? isDeposit
-          ? 'Your funds have been credited to your account'
-          : 'Your withdrawal has been processed'
-        : payload.adminNote || 'Your request was not approved',
-      amount: amount,
-    });
-
     // Also set notification for modal
     setNotification({
       id: payload.id,
@@ -192,7 +191,7 @@ export function DepositNotificationProvider({ children }: { children: React.Reac
 
     // Refresh profile to update balance
     refreshProfile();
-  }, [refreshProfile, addNotification]);
+  }, [refreshProfile]);
 
   // WebSocket connection logic
   const clearWsTimers = useCallback(() => {
@@ -256,12 +255,7 @@ export function DepositNotificationProvider({ children }: { children: React.Reac
             case 'ticket_reply':
               console.log('[Notifications] Ticket reply received');
               if (message.payload?.ticketNumber) {
-                const { ticketNumber, subject, isClosed } = message.payload;
-                addNotification({
-                  type: 'ticket_reply',
-                  title: isClosed ? 'Ticket Closed' : 'New Reply to Your Ticket',
-                  message: `${ticketNumber}: ${subject}`,
-                });
+                const { ticketNumber, isClosed } = message.payload;
                 toast.success(
                   isClosed
                     ? `Your ticket ${ticketNumber} has been resolved`
@@ -271,6 +265,16 @@ export function DepositNotificationProvider({ children }: { children: React.Reac
               }
               break;
 
+            case 'notification':
+              // Stored server-side by the event that sent it - add it to the bell
+              useNotificationStore.getState().receiveNotification(message.payload as unknown as UserNotification);
+              break;
+
+            case 'notifications_changed':
+              // Announcement fan-out: refetch rather than one message per user
+              useNotificationStore.getState().fetchNotifications().catch(() => undefined);
+              break;
+
             case 'error':
               console.error('[Notifications] WebSocket error:', message.payload);
               break;
@@ -366,7 +370,7 @@ export function DepositNotificationProvider({ children }: { children: React.Reac
       for (const withdrawal of withdrawals) {
         const previousStatus = previousWithdrawalsRef.current.get(withdrawal.id);
         if (previousStatus && previousStatus !== withdrawal.status) {
-          if (withdrawal.status === 'APPROVED' || withdrawal.status === 'REJECTED') {
+          if (FINAL_STATUSES.withdrawal.includes(withdrawal.status)) {
             setNotification({
               id: withdrawal.id,
               type: 'withdrawal',
@@ -436,8 +440,9 @@ export function DepositNotificationProvider({ children }: { children: React.Reac
     setNotification(null);
   };
 
-  const isApproved = notification?.status === 'APPROVED';
+  const isApproved = !!notification && isSuccessful(notification.type, notification.status);
   const isDeposit = notification?.type === 'deposit';
+  const isFailed = notification?.status === 'FAILED';
 
   return (
     <>
@@ -494,7 +499,7 @@ export function DepositNotificationProvider({ children }: { children: React.Reac
                 `}>
                   {isDeposit
                     ? isApproved ? 'Deposit Completed!' : 'Deposit Declined'
-                    : isApproved ? 'Withdrawal Completed!' : 'Withdrawal Declined'
+                    : isApproved ? 'Withdrawal Completed!' : isFailed ? 'Withdrawal Failed' : 'Withdrawal Declined'
                   }
                 </h2>
               </div>
@@ -547,12 +552,14 @@ export function DepositNotificationProvider({ children }: { children: React.Reac
                 ) : (
                   isApproved ? (
                     <p className="text-slate-300 text-center mb-4">
-                      Your withdrawal has been processed. The funds will be sent to your account shortly.
+                      Your withdrawal has been paid out. The funds are on their way to your account.
                     </p>
                   ) : (
                     <div className="text-center mb-4">
                       <p className="text-slate-300 mb-2">
-                        Unfortunately, your withdrawal request was declined.
+                        {isFailed
+                          ? 'The payment could not be completed. The funds are back in your balance.'
+                          : 'Unfortunately, your withdrawal request was declined.'}
                       </p>
                       {notification.adminNote && (
                         <p className="text-slate-400 text-sm italic">
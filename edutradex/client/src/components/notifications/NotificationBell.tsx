@@ -3,76 +3,67 @@
 import { useState, useRef, useEffect } from 'react';
 import {
   Bell,
+  BellRing,
   CheckCircle2,
   XCircle,
+  ArrowDownToLine,
   ArrowUpFromLine,
   Users,
   TrendingUp,
   TrendingDown,
-  Info,
+  Timer,
+  ShieldCheck,
+  Megaphone,
   X,
   Check,
   Trash2,
   MessageCircle,
+  Loader2,
+  FileText,
 } from 'lucide-react';
-import { useNotificationStore, type NotificationType, type Notification } from '@/store/notification.store';
+import { useNotificationStore, type Notification } from '@/store/notification.store';
 import { formatCurrency, cn } from '@/lib/utils';
 
-const notificationConfig: Record<
-  NotificationType,
-  { icon: typeof Bell; color: string; bgColor: string }
-> = {
-  deposit_approved: {
-    icon: CheckCircle2,
-    color: 'text-emerald-400',
-    bgColor: 'bg-emerald-500/20',
-  },
-  deposit_rejected: {
-    icon: XCircle,
-    color: 'text-red-400',
-    bgColor: 'bg-red-500/20',
-  },
-  withdrawal_approved: {
-    icon: ArrowUpFromLine,
-    color: 'text-emerald-400',
-    bgColor: 'bg-emerald-500/20',
-  },
-  withdrawal_rejected: {
-    icon: XCircle,
-    color: 'text-red-400',
-    bgColor: 'bg-red-500/20',
-  },
-  copy_trading_approved: {
-    icon: Users,
-    color: 'text-blue-400',
-    bgColor: 'bg-blue-500/20',
-  },
-  copy_trading_rejected: {
-    icon: Users,
-    color: 'text-red-400',
-    bgColor: 'bg-red-500/20',
-  },
-  trade_win: {
-    icon: TrendingUp,
-    color: 'text-emerald-400',
-    bgColor: 'bg-emerald-500/20',
-  },
-  trade_loss: {
-    icon: TrendingDown,
-    color: 'text-red-400',
-    bgColor: 'bg-red-500/20',
-  },
-  ticket_reply: {
-    icon: MessageCircle,
-    color: 'text-emerald-400',
-    bgColor: 'bg-emerald-500/20',
-  },
-  system: {
-    icon: Info,
-    color: 'text-blue-400',
-    bgColor: 'bg-blue-500/20',
-  },
-};
+type NotificationStyle = { icon: typeof Bell; color: string; bgColor: string };
+
+const POSITIVE = { color: 'text-emerald-400', bgColor: 'bg-emerald-500/20' };
+const NEGATIVE = { color: 'text-red-400', bgColor: 'bg-red-500/20' };
+const NEUTRAL = { color: 'text-blue-400', bgColor: 'bg-blue-500/20' };
+const WARNING = { color: 'text-amber-400', bgColor: 'bg-amber-500/20' };
+
+function getNotificationStyle(notification: Notification): NotificationStyle {
+  const status = notification.data?.status;
+  const isNegative = status === 'REJECTED' || status === 'FAILED' || status === 'SUSPENDED';
+
+  switch (notification.type) {
+    case 'TRADE_SETTLED': {
+      const profit = Number(notification.data?.profit ?? 0);
+      return profit > 0
+        ? { icon: TrendingUp, ...POSITIVE }
+        : profit < 0 ? { icon: TrendingDown, ...NEGATIVE } : { icon: TrendingUp, ...NEUTRAL };
+    }
+    case 'PENDING_ORDER':
+      return { icon: Timer, ...(isNegative ? NEGATIVE : WARNING) };
+    case 'DEPOSIT':
+      return isNegative ? { icon: XCircle, ...NEGATIVE } : { icon: ArrowDownToLine, ...POSITIVE };
+    case 'WITHDRAWAL':
+      return isNegative ? { icon: XCircle, ...NEGATIVE } : { icon: ArrowUpFromLine, ...POSITIVE };
+    case 'KYC':
+      return isNegative ? { icon: XCircle, ...NEGATIVE } : { icon: ShieldCheck, ...POSITIVE };
+    case 'TICKET_REPLY':
+      return { icon: MessageCircle, ...POSITIVE };
+    case 'COPY_TRADING':
+      return { icon: Users, ...(isNegative ? NEGATIVE : NEUTRAL) };
+    case 'ADMIN_MESSAGE':
+      return { icon: Megaphone, ...NEUTRAL };
+    case 'PRICE_ALERT':
+      return { icon: BellRing, ...WARNING };
+    case 'ACCOUNT_STATEMENT':
+      return { icon: FileText, ...NEUTRAL };
+    default:
+      return { icon: CheckCircle2, ...NEUTRAL };
+  }
+}
 
 function formatTimeAgo(dateString: string): string {
   const now = new Date();
@@ -88,42 +79,24 @@ function formatTimeAgo(dateString: string): string {
 
 export function NotificationBell() {
   const [isOpen, setIsOpen] = useState(false);
-  const [isMounted, setIsMounted] = useState(false);
   const dropdownRef = useRef<HTMLDivElement>(null);
 
-  // Store state - will only be used after mounting
-  const [storeData, setStoreData] = useState<{
-    notifications: Notification[];
-    unreadCount: number;
-  }>({ notifications: [], unreadCount: 0 });
-
-  // Get store actions (these are stable and don't cause hydration issues)
+  const notifications = useNotificationStore((state) => state.notifications);
+  const unreadCount = useNotificationStore((state) => state.unreadCount);
+  const total = useNotificationStore((state) => state.total);
+  const isLoading = useNotificationStore((state) => state.isLoading);
+  const fetchNotifications = useNotificationStore((state) => state.fetchNotifications);
+  const loadMore = useNotificationStore((state) => state.loadMore);
   const markAsRead = useNotificationStore((state) => state.markAsRead);
   const markAllAsRead = useNotificationStore((state) => state.markAllAsRead);
   const removeNotification = useNotificationStore((state) => state.removeNotification);
   const clearAll = useNotificationStore((state) => state.clearAll);
 
-  // Subscribe to store changes only after mounting
   useEffect(() => {
-    setIsMounted(true);
-
-    // Get initial state after mount
-    const state = useNotificationStore.getState();
-    setStoreData({
-      notifications: state.notifications,
-      unreadCount: state.unreadCount,
-    });
-
-    // Subscribe to changes
-    const unsubscribe = useNotificationStore.subscribe((state) => {
-      setStoreData({
-        notifications: state.notifications,
-        unreadCount: state.unreadCount,
-      });
+    fetchNotifications().catch((error) => {
+      console.error('Failed to load notifications:', error);
     });
-
-    return () => unsubscribe();
-  }, []);
+  }, [fetchNotifications]);
 
   // Close dropdown when clicking outside
   useEffect(() => {
@@ -141,8 +114,6 @@ export function NotificationBell() {
     markAsRead(id);
   };
 
-  const { notifications, unreadCount } = storeData;
-
   return (
     <div className="relative" ref={dropdownRef}>
       {/* Bell Button */}
@@ -151,7 +122,7 @@ export function NotificationBell() {
         className="relative p-2 text-slate-400 hover:text-white hover:bg-slate-700 rounded-lg transition-colors"
       >
         <Bell className="h-5 w-5" />
-        {isMounted && unreadCount > 0 && (
+        {unreadCount > 0 && (
           <span className="absolute -top-0.5 -right-0.5 h-5 w-5 bg-red-500 text-white text-xs font-bold rounded-full flex items-center justify-center animate-pulse">
             {unreadCount > 9 ? '9+' : unreadCount}
           </span>
@@ -166,14 +137,14 @@ export function NotificationBell() {
             <div className="flex items-center gap-2">
               <Bell className="h-5 w-5 text-emerald-400" />
               <h3 className="font-semibold text-white">Notifications</h3>
-              {isMounted && unreadCount > 0 && (
+              {unreadCount > 0 && (
                 <span className="px-2 py-0.5 bg-emerald-500/20 text-emerald-400 text-xs font-medium rounded-full">
                   {unreadCount} new
                 </span>
               )}
             </div>
             <div className="flex items-center gap-1">
-              {isMounted && unreadCount > 0 && (
+              {unreadCount > 0 && (
                 <button
                   onClick={markAllAsRead}
                   className="p-1.5 text-slate-400 hover:text-emerald-400 hover:bg-slate-700 rounded-lg transition-colors"
@@ -182,7 +153,7 @@ export function NotificationBell() {
                   <Check className="h-4 w-4" />
                 </button>
               )}
-              {isMounted && notifications.length > 0 && (
+              {notifications.length > 0 && (
                 <button
                   onClick={clearAll}
                   className="p-1.5 text-slate-400 hover:text-red-400 hover:bg-slate-700 rounded-lg transition-colors"
@@ -196,7 +167,7 @@ export function NotificationBell() {
 
           {/* Notifications List */}
           <div className="max-h-[400px] overflow-y-auto">
-            {!isMounted ? (
+            {isLoading && notifications.length === 0 ? (
               <div className="py-12 text-center">
                 <div className="h-12 w-12 bg-slate-700 rounded-full mx-auto mb-3 animate-pulse" />
                 <div className="h-4 w-32 bg-slate-700 rounded mx-auto animate-pulse" />
@@ -212,8 +183,9 @@ export function NotificationBell() {
             ) : (
               <div className="divide-y divide-slate-700/50">
                 {notifications.map((notification) => {
-                  const config = notificationConfig[notification.type];
+                  const config = getNotificationStyle(notification);
                   const Icon = config.icon;
+                  const amount = notification.data?.amount;
 
                   return (
                     <div
@@ -221,7 +193,7 @@ export function NotificationBell() {
                       onClick={() => handleNotificationClick(notification.id)}
                       className={cn(
                         'flex gap-3 p-4 cursor-pointer transition-colors hover:bg-slate-700/50',
-                        !notification.read && 'bg-slate-700/30'
+                        !notification.isRead && 'bg-slate-700/30'
                       )}
                     >
                       {/* Icon */}
@@ -240,7 +212,7 @@ export function NotificationBell() {
                           <p
                             className={cn(
                               'font-medium text-sm',
-                              notification.read ? 'text-slate-300' : 'text-white'
+                              notification.isRead ? 'text-slate-300' : 'text-white'
                             )}
                           >
                             {notification.title}
@@ -258,9 +230,9 @@ export function NotificationBell() {
                         <p className="text-slate-400 text-sm mt-0.5 line-clamp-2">
                           {notification.message}
                         </p>
-                        {notification.amount !== undefined && (
+                        {typeof amount === 'number' && (
                           <p className={cn('text-sm font-semibold mt-1', config.color)}>
-                            {formatCurrency(notification.amount)}
+                            {formatCurrency(amount)}
                           </p>
                         )}
                         <p className="text-slate-500 text-xs mt-1">
@@ -269,7 +241,7 @@ export function NotificationBell() {
                       </div>
 
                       {/* Unread indicator */}
-                      {!notification.read && (
+                      {!notification.isRead && (
                         <div className="flex-shrink-0 h-2 w-2 bg-emerald-500 rounded-full mt-2" />
                       )}
                     </div>
@@ -280,11 +252,22 @@ export function NotificationBell() {
           </div>
 
           {/* Footer */}
-          {isMounted && notifications.length > 0 && (
+          {notifications.length > 0 && (
             <div className="px-4 py-3 border-t border-slate-700 bg-slate-800/80">
-              <p className="text-center text-slate-500 text-xs">
-                Showing last {notifications.length} notifications
-              </p>
+              {notifications.length < total ? (
+                <button
+                  onClick={() => loadMore()}
+                  disabled={isLoading}
+                  className="w-full flex items-center justify-center gap-2 text-xs text-emerald-400 hover:text-emerald-300 disabled:opacity-50"
+                >
+                  {isLoading && <Loader2 className="h-3 w-3 animate-spin" />}
+                  Load older notifications
+                </button>
+              ) : (
+                <p className="text-center text-slate-500 text-xs">
+                  Showing all {notifications.length} notifications
+                </p>
+              )}
             </div>
           )}
         </div>
@@ -1,11 +1,11 @@
 'use client';
 
-import { TrendingUp, TrendingDown } from 'lucide-react';
+import { TrendingUp, TrendingDown, Minus } from 'lucide-react';
 import toast from 'react-hot-toast';
 
 interface TradeNotificationProps {
   symbol: string;
-  result: 'WON' | 'LOST';
+  result: 'WON' | 'LOST' | 'DRAW';
   amount: number;
   profit: number;
   direction: string;
@@ -24,6 +24,7 @@ export function showTradeNotification({
   amount,
 }: TradeNotificationProps): void {
   const isWin = result === 'WON';
+  const isDraw = result === 'DRAW';
   const displayAmount = isWin ? profit : amount;
 
   // Dismiss any existing trade notifications to prevent stacking
@@ -41,11 +42,15 @@ export function showTradeNotification({
           className={`flex items-center gap-1.5 px-2.5 py-1.5 rounded-md shadow-lg text-xs ${
             isWin
               ? 'bg-emerald-600/95'
+              : isDraw
+              ? 'bg-gray-600/95'
               : 'bg-red-600/95'
           }`}
         >
           {isWin ? (
             <TrendingUp className="h-3.5 w-3.5 text-white flex-shrink-0" strokeWidth={2.5} />
+          ) : isDraw ? (
+            <Minus className="h-3.5 w-3.5 text-white flex-shrink-0" strokeWidth={2.5} />
           ) : (
             <TrendingDown className="h-3.5 w-3.5 text-white flex-shrink-0" strokeWidth={2.5} />
           )}
@@ -53,7 +58,7 @@ export function showTradeNotification({
             {symbol}
           </span>
           <span className="text-white font-bold whitespace-nowrap">
-            {isWin ? '+' : '-'}${displayAmount.toFixed(2)}
+            {isDraw ? `Refund $${displayAmount.toFixed(2)}` : `${isWin ? '+' : '-'}$${displayAmount.toFixed(2)}`}
           </span>
         </div>
       </div>
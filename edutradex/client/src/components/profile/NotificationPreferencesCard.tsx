@@ -0,0 +1,122 @@
+'use client';
+
+import { useState, useEffect } from 'react';
+import { Bell, Loader2 } from 'lucide-react';
+import toast from 'react-hot-toast';
+import { api } from '@/lib/api';
+import { cn, getErrorMessage } from '@/lib/utils';
+import type { NotificationPreference, NotificationType } from '@/types';
+
+const TYPE_LABELS: Record<NotificationType, { label: string; hint: string }> = {
+  TRADE_SETTLED: { label: 'Trade results', hint: 'Each settled trade' },
+  PENDING_ORDER: { label: 'Pending orders', hint: 'Triggered, failed or expired' },
+  DEPOSIT: { label: 'Deposits', hint: 'Approved or declined' },
+  WITHDRAWAL: { label: 'Withdrawals', hint: 'Processed or declined' },
+  KYC: { label: 'Identity verification', hint: 'KYC decisions' },
+  TICKET_REPLY: { label: 'Support replies', hint: 'Replies to your tickets' },
+  COPY_TRADING: { label: 'Copy trading', hint: 'Copied trades and leader status' },
+  ADMIN_MESSAGE: { label: 'Announcements', hint: 'News from OptigoBroker' },
+  PRICE_ALERT: { label: 'Price alerts', hint: 'Email is set per alert' },
+  ACCOUNT_STATEMENT: { label: 'Monthly statement', hint: 'PDF statement emailed on the 1st' },
+};
+
+function Toggle({ checked, disabled, onChange }: { checked: boolean; disabled?: boolean; onChange: () => void }) {
+  return (
+    <button
+      type="button"
+      role="switch"
+      aria-checked={checked}
+      disabled={disabled}
+      onClick={onChange}
+      className={cn(
+        'relative inline-flex h-5 w-9 items-center rounded-full transition-colors disabled:opacity-30',
+        checked ? 'bg-emerald-500' : 'bg-slate-600'
+      )}
+    >
+      <span
+        className={cn(
+          'inline-block h-4 w-4 rounded-full bg-white transition-transform',
+          checked ? 'translate-x-4' : 'translate-x-0.5'
+        )}
+      />
+    </button>
+  );
+}
+
+export function NotificationPreferencesCard() {
+  const [preferences, setPreferences] = useState<NotificationPreference[] | null>(null);
+  const [savingType, setSavingType] = useState<NotificationType | null>(null);
+
+  useEffect(() => {
+    api.getNotificationPreferences()
+      .then(setPreferences)
+      .catch((error) => {
+        console.error('Failed to load notification preferences:', error);
+      });
+  }, []);
+
+  const handleToggle = async (type: NotificationType, channel: 'inApp' | 'email') => {
+    const current = preferences?.find((pref) => pref.type === type);
+    if (!current) return;
+
+    setSavingType(type);
+    try {
+      setPreferences(await api.updateNotificationPreferences([{ type, [channel]: !current[channel] }]));
+    } catch (error) {
+      toast.error(getErrorMessage(error));
+    } finally {
+      setSavingType(null);
+    }
+  };
+
+  return (
+    <div className="bg-slate-800/50 border border-slate-700/50 rounded-xl p-6">
+      <div className="flex items-center gap-3 mb-6">
+        <div className="p-2.5 bg-emerald-500/20 rounded-lg">
+          <Bell className="h-5 w-5 text-emerald-400" />
+        </div>
+        <div className="flex-1">
+          <h3 className="text-lg font-semibold text-white">Notifications</h3>
+          <p className="text-sm text-slate-400">
+            Choose what reaches your notification bell and your inbox. Security emails are always sent.
+          </p>
+        </div>
+      </div>
+
+      {!preferences ? (
+        <div className="flex items-center justify-center py-8">
+          <Loader2 className="h-6 w-6 animate-spin text-slate-400" />
+        </div>
+      ) : (
+        <div>
+          <div className="grid grid-cols-[1fr_auto_auto] gap-x-6 pb-2 mb-1 border-b border-slate-700/50 text-xs text-slate-500">
+            <span />
+            <span className="w-9 text-center">In-app</span>
+            <span className="w-9 text-center">Email</span>
+          </div>
+          {preferences.map((pref) => (
+            <div
+              key={pref.type}
+              className="grid grid-cols-[1fr_auto_auto] items-center gap-x-6 py-2.5 border-b border-slate-700/30 last:border-0"
+            >
+              <div>
+                <p className="text-sm text-white">{TYPE_LABELS[pref.type].label}</p>
+                <p className="text-xs text-slate-500">{TYPE_LABELS[pref.type].hint}</p>
+              </div>
+              <Toggle
+                checked={pref.inApp}
+                disabled={savingType === pref.type}
+                onChange={() => handleToggle(pref.type, 'inApp')}
+              />
+              <Toggle
+                checked={pref.email}
+                disabled={!pref.emailAvailable || savingType === pref.type}
+                onChange={() => handleToggle(pref.type, 'email')}
+              />
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,312 @@
+'use client';
+
+import { useState, useEffect } from 'react';
+import { Gauge, Loader2, Clock, Ban, X, AlertCircle } from 'lucide-react';
+import toast from 'react-hot-toast';
+import { api } from '@/lib/api';
+import { formatCurrency, formatDate, getErrorMessage } from '@/lib/utils';
+import type {
+  TradingLimits,
+  TradingLimitType,
+  TradingLimitValues,
+  TimeOutPeriod,
+  SelfExclusionPeriod,
+} from '@/types';
+
+const LIMIT_FIELDS: { type: TradingLimitType; label: string; hint: string; isMoney: boolean }[] = [
+  { type: 'dailyLossLimit', label: 'Daily loss limit ($)', hint: 'Max net loss per day', isMoney: true },
+  { type: 'dailyStakeLimit', label: 'Daily stake limit ($)', hint: 'Max total staked per day', isMoney: true },
+  { type: 'maxStakePerTrade', label: 'Max stake per trade ($)', hint: 'Largest single trade', isMoney: true },
+  { type: 'maxOpenTrades', label: 'Max open trades', hint: 'Trades open at once', isMoney: false },
+  { type: 'sessionTimeLimitMinutes', label: 'Session time limit (minutes)', hint: 'Counted from your first trade', isMoney: false },
+];
+
+const TIME_OUT_OPTIONS: { value: TimeOutPeriod; label: string }[] = [
+  { value: '24_HOURS', label: '24 hours' },
+  { value: '7_DAYS', label: '7 days' },
+  { value: '30_DAYS', label: '30 days' },
+];
+
+const SELF_EXCLUSION_OPTIONS: { value: SelfExclusionPeriod; label: string }[] = [
+  { value: '6_MONTHS', label: '6 months' },
+  { value: '1_YEAR', label: '1 year' },
+  { value: '5_YEARS', label: '5 years' },
+];
+
+type LimitInputs = Record<TradingLimitType, string>;
+
+function toInputs(limits: TradingLimitValues): LimitInputs {
+  return {
+    dailyLossLimit: limits.dailyLossLimit?.toString() ?? '',
+    dailyStakeLimit: limits.dailyStakeLimit?.toString() ?? '',
+    maxStakePerTrade: limits.maxStakePerTrade?.toString() ?? '',
+    maxOpenTrades: limits.maxOpenTrades?.toString() ?? '',
+    sessionTimeLimitMinutes: limits.sessionTimeLimitMinutes?.toString() ?? '',
+  };
+}
+
+export function TradingLimitsCard() {
+  const [data, setData] = useState<TradingLimits | null>(null);
+  const [isLoading, setIsLoading] = useState(true);
+  const [inputs, setInputs] = useState<LimitInputs | null>(null);
+  const [isSaving, setIsSaving] = useState(false);
+  const [timeOutPeriod, setTimeOutPeriod] = useState<TimeOutPeriod>('24_HOURS');
+  const [exclusionPeriod, setExclusionPeriod] = useState<SelfExclusionPeriod>('6_MONTHS');
+  const [confirmExclusion, setConfirmExclusion] = useState(false);
+  const [isExcluding, setIsExcluding] = useState(false);
+
+  const applyData = (next: TradingLimits) => {
+    setData(next);
+    setInputs(toInputs(next.limits));
+  };
+
+  useEffect(() => {
+    api.getTradingLimits()
+      .then(applyData)
+      .catch((error) => {
+        console.error('Failed to load trading limits:', error);
+      })
+      .finally(() => setIsLoading(false));
+  }, []);
+
+  const handleSave = async () => {
+    if (!data || !inputs) return;
+
+    const changes: Partial<TradingLimitValues> = {};
+    for (const { type, isMoney } of LIMIT_FIELDS) {
+      const raw = inputs[type].trim();
+      const value = raw === '' ? null : isMoney ? parseFloat(raw) : parseInt(raw, 10);
+
+      if (value !== null && (isNaN(value) || value <= 0)) {
+        toast.error('Limits must be positive numbers');
+        return;
+      }
+      if (value !== data.limits[type]) {
+        changes[type] = value;
+      }
+    }
+
+    if (Object.keys(changes).length === 0) {
+      toast('No changes to save');
+      return;
+    }
+
+    setIsSaving(true);
+    try {
+      const updated = await api.updateTradingLimits(changes);
+      applyData(updated);
+      toast.success(
+        updated.pendingChanges.length > 0
+          ? `Limits saved. Increases apply after ${updated.increaseDelayHours} hours.`
+          : 'Limits saved'
+      );
+    } catch (error) {
+      toast.error(getErrorMessage(error));
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const handleCancelPending = async (limitType: TradingLimitType) => {
+    try {
+      applyData(await api.cancelPendingLimitChange(limitType));
+      toast.success('Pending increase cancelled');
+    } catch (error) {
+      toast.error(getErrorMessage(error));
+    }
+  };
+
+  const handleTimeOut = async () => {
+    try {
+      applyData(await api.startTradingTimeOut(timeOutPeriod));
+      toast.success('Time-out started');
+    } catch (error) {
+      toast.error(getErrorMessage(error));
+    }
+  };
+
+  const handleSelfExclusion = async () => {
+    setIsExcluding(true);
+    try {
+      applyData(await api.startSelfExclusion(exclusionPeriod));
+      setConfirmExclusion(false);
+      toast.success('Self-exclusion started');
+    } catch (error) {
+      toast.error(getErrorMessage(error));
+    } finally {
+      setIsExcluding(false);
+    }
+  };
+
+  const now = new Date();
+  const selfExcluded = data?.selfExcludedUntil && new Date(data.selfExcludedUntil) > now;
+  const timedOut = data?.timeOutUntil && new Date(data.timeOutUntil) > now;
+
+  return (
+    <div className="bg-slate-800/50 border border-slate-700/50 rounded-xl p-6">
+      <div className="flex items-center gap-3 mb-6">
+        <div className="p-2.5 bg-emerald-500/20 rounded-lg">
+          <Gauge className="h-5 w-5 text-emerald-400" />
+        </div>
+        <div className="flex-1">
+          <h3 className="text-lg font-semibold text-white">Trading Limits</h3>
+          <p className="text-sm text-slate-400">
+            Cap your own risk on the live account. Lowering a limit applies now; raising one
+            {data ? ` takes ${data.increaseDelayHours} hours.` : ' is delayed.'}
+          </p>
+        </div>
+      </div>
+
+      {isLoading || !data || !inputs ? (
+        <div className="flex items-center justify-center py-8">
+          <Loader2 className="h-6 w-6 animate-spin text-slate-400" />
+        </div>
+      ) : (
+        <div className="space-y-6">
+          {(selfExcluded || timedOut) && (
+            <div className="flex items-start gap-3 p-4 bg-red-500/10 border border-red-500/30 rounded-lg">
+              <AlertCircle className="h-5 w-5 text-red-400 flex-shrink-0 mt-0.5" />
+              <p className="text-sm text-red-300">
+                {selfExcluded
+                  ? `You are self-excluded until ${formatDate(data.selfExcludedUntil)}.`
+                  : `You are on a time-out until ${formatDate(data.timeOutUntil)}.`}
+                {' '}Trading and deposits are blocked until then. Withdrawals remain available.
+              </p>
+            </div>
+          )}
+
+          {/* Limits */}
+          <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+            {LIMIT_FIELDS.map(({ type, label, hint, isMoney }) => {
+              const pending = data.pendingChanges.find((change) => change.limitType === type);
+
+              return (
+                <div key={type}>
+                  <label className="block text-sm text-slate-400 mb-1.5">{label}</label>
+                  <input
+                    type="number"
+                    min={isMoney ? '0.01' : '1'}
+                    step={isMoney ? '0.01' : '1'}
+                    value={inputs[type]}
+                    placeholder="No limit"
+                    onChange={(e) => setInputs({ ...inputs, [type]: e.target.value })}
+                    className="w-full px-3 py-2 bg-slate-700 border border-slate-600 rounded-lg text-white placeholder-slate-500 focus:ring-2 focus:ring-[#1079ff] focus:border-transparent"
+                  />
+                  <p className="text-xs text-slate-500 mt-1">{hint}</p>
+                  {pending && (
+                    <div className="flex items-center gap-2 mt-1 text-xs text-yellow-400">
+                      <Clock className="h-3 w-3" />
+                      <span>
+                        {pending.newValue === null
+                          ? 'Removal'
+                          : `Increase to ${isMoney ? formatCurrency(pending.newValue) : pending.newValue}`}
+                        {' '}from {formatDate(pending.effectiveAt)}
+                      </span>
+                      <button
+                        onClick={() => handleCancelPending(type)}
+                        className="text-slate-400 hover:text-white"
+                        title="Cancel pending change"
+                      >
+                        <X className="h-3 w-3" />
+                      </button>
+                    </div>
+                  )}
+                </div>
+              );
+            })}
+          </div>
+
+          <div className="flex flex-wrap items-center justify-between gap-3">
+            <div className="flex flex-wrap gap-4 text-xs text-slate-400">
+              <span>Today&apos;s loss: {formatCurrency(data.usage.dailyLoss)}</span>
+              <span>Today&apos;s stake: {formatCurrency(data.usage.dailyStake)}</span>
+              <span>Open trades: {data.usage.openTrades}</span>
+              {data.usage.sessionCoolOffUntil ? (
+                <span>Session limit reached until {formatDate(data.usage.sessionCoolOffUntil)}</span>
+              ) : data.usage.sessionMinutes !== null && <span>Session: {data.usage.sessionMinutes} min</span>}
+            </div>
+            <button
+              onClick={handleSave}
+              disabled={isSaving}
+              className="px-4 py-2 bg-gradient-to-r from-[#1079ff] to-[#092ab2] hover:from-[#3a93ff] hover:to-[#1079ff] disabled:opacity-50 text-white text-sm font-medium rounded-lg transition-colors flex items-center gap-2"
+            >
+              {isSaving && <Loader2 className="h-4 w-4 animate-spin" />}
+              Save Limits
+            </button>
+          </div>
+
+          {/* Time-out and self-exclusion */}
+          <div className="grid grid-cols-1 md:grid-cols-2 gap-4 pt-6 border-t border-slate-700/50">
+            <div className="p-4 bg-slate-900/50 rounded-lg">
+              <div className="flex items-center gap-2 mb-2">
+                <Clock className="h-4 w-4 text-yellow-400" />
+                <h4 className="text-sm font-semibold text-white">Take a Time-out</h4>
+              </div>
+              <p className="text-xs text-slate-400 mb-3">
+                Pause trading and deposits for a short break. It cannot be ended early.
+              </p>
+              <div className="flex gap-2">
+                <select
+                  value={timeOutPeriod}
+                  onChange={(e) => setTimeOutPeriod(e.target.value as TimeOutPeriod)}
+                  className="flex-1 px-3 py-2 bg-slate-700 border border-slate-600 rounded-lg text-white text-sm"
+                >
+                  {TIME_OUT_OPTIONS.map((option) => (
+                    <option key={option.value} value={option.value}>{option.label}</option>
+                  ))}
+                </select>
+                <button
+                  onClick={handleTimeOut}
+                  className="px-4 py-2 bg-yellow-500/20 hover:bg-yellow-500/30 text-yellow-400 text-sm font-medium rounded-lg transition-colors"
+                >
+                  Start
+                </button>
+              </div>
+            </div>
+
+            <div className="p-4 bg-slate-900/50 rounded-lg">
+              <div className="flex items-center gap-2 mb-2">
+                <Ban className="h-4 w-4 text-red-400" />
+                <h4 className="text-sm font-semibold text-white">Self-exclusion</h4>
+              </div>
+              <p className="text-xs text-slate-400 mb-3">
+                Block trading and deposits for a long period. This cannot be undone.
+              </p>
+              <div className="flex gap-2">
+                <select
+                  value={exclusionPeriod}
+                  onChange={(e) => {
+                    setExclusionPeriod(e.target.value as SelfExclusionPeriod);
+                    setConfirmExclusion(false);
+                  }}
+                  className="flex-1 px-3 py-2 bg-slate-700 border border-slate-600 rounded-lg text-white text-sm"
+                >
+                  {SELF_EXCLUSION_OPTIONS.map((option) => (
+                    <option key={option.value} value={option.value}>{option.label}</option>
+                  ))}
+                </select>
+                {confirmExclusion ? (
+                  <button
+                    onClick={handleSelfExclusion}
+                    disabled={isExcluding}
+                    className="px-4 py-2 bg-red-600 hover:bg-red-700 disabled:opacity-50 text-white text-sm font-medium rounded-lg transition-colors flex items-center gap-2"
+                  >
+                    {isExcluding && <Loader2 className="h-4 w-4 animate-spin" />}
+                    Confirm
+                  </button>
+                ) : (
+                  <button
+                    onClick={() => setConfirmExclusion(true)}
+                    className="px-4 py-2 bg-red-500/20 hover:bg-red-500/30 text-red-400 text-sm font-medium rounded-lg transition-colors"
+                  >
+                    Exclude
+                  </button>
+                )}
+              </div>
+            </div>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -2,9 +2,10 @@
 
 import { useState, useEffect, useMemo } from 'react';
 import { ChevronDown, Search, TrendingUp, TrendingDown, Loader2, Star } from 'lucide-react';
-import { cn, isMarketOpen, MarketType } from '@/lib/utils';
+import { cn, MarketType } from '@/lib/utils';
 import { api, MarketAsset, PriceTick } from '@/lib/api';
 import { useChartStore } from '@/store/chart.store';
+import { useMarketSessions } from '@/hooks/useMarketSessions';
 
 type AssetCategory = 'all' | 'favorites' | 'forex' | 'crypto' | 'stocks' | 'indices';
 
@@ -58,12 +59,8 @@ export function AssetSelector({ selectedAsset, onSelectAsset, currentPrice, curr
   const [category, setCategory] = useState<AssetCategory>('all');
   const [assets, setAssets] = useState<MarketAsset[]>([]);
   const [isLoading, setIsLoading] = useState(true);
-  const [marketStatus, setMarketStatus] = useState<Record<MarketType, boolean>>({
-    forex: true,
-    crypto: true,
-    stock: true,
-    index: true,
-  });
+  // Trading hours from the server calendar
+  const { getMarketState } = useMarketSessions();
 
   const { favoritePairs, addFavoritePair, removeFavoritePair } = useChartStore();
 
@@ -78,23 +75,6 @@ export function AssetSelector({ selectedAsset, onSelectAsset, currentPrice, curr
     }
   };
 
-  // Check market status on mount and periodically
-  useEffect(() => {
-    const checkMarkets = () => {
-      setMarketStatus({
-        forex: isMarketOpen('forex'),
-        crypto: isMarketOpen('crypto'),
-        stock: isMarketOpen('stock'),
-        index: isMarketOpen('index'),
-      });
-    };
-
-    checkMarkets();
-    // Check every minute
-    const interval = setInterval(checkMarkets, 60000);
-    return () => clearInterval(interval);
-  }, []);
-
   // Fetch assets on mount
   useEffect(() => {
     async function fetchAssets() {
@@ -266,7 +246,7 @@ export function AssetSelector({ selectedAsset, onSelectAsset, currentPrice, curr
 
                     // Check if market is open for this asset
                     const assetMarketType = getMarketType(asset);
-                    const isAssetMarketOpen = marketStatus[assetMarketType];
+                    const { isOpen: isAssetMarketOpen, closedLabel } = getMarketState(asset.symbol, assetMarketType);
                     const isStarred = isFavorite(asset.symbol);
                     const isSelected = selectedAsset === asset.symbol;
 
@@ -330,7 +310,9 @@ export function AssetSelector({ selectedAsset, onSelectAsset, currentPrice, curr
                                 </span>
                               </>
                             ) : (
-                              <span className="text-xs text-red-400/70 font-medium">CLOSED</span>
+                              <span className="text-xs text-red-400/70 font-medium" title={closedLabel ?? undefined}>
+                                {closedLabel && closedLabel !== 'Closed' ? closedLabel : 'CLOSED'}
+                              </span>
                             )}
                           </div>
                         </button>
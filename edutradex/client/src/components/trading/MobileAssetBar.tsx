@@ -35,7 +35,8 @@ import toast from 'react-hot-toast';
 import { useTradeStore } from '@/store/trade.store';
 import { useAuthStore } from '@/store/auth.store';
 import { api, PriceTick, MarketAsset } from '@/lib/api';
-import { cn, isMarketOpen, MarketType } from '@/lib/utils';
+import { cn, MarketType } from '@/lib/utils';
+import { useMarketSessions } from '@/hooks/useMarketSessions';
 
 type AssetCategory = 'all' | 'forex' | 'crypto' | 'stocks' | 'indices';
 
@@ -143,27 +144,8 @@ export function MobileAssetBar({
     fetchAssets();
   }, []);
 
-  // Check market status
-  const [marketStatus, setMarketStatus] = useState<Record<MarketType, boolean>>({
-    forex: true,
-    crypto: true,
-    stock: true,
-    index: true,
-  });
-
-  useEffect(() => {
-    const checkMarkets = () => {
-      setMarketStatus({
-        forex: isMarketOpen('forex'),
-        crypto: isMarketOpen('crypto'),
-        stock: isMarketOpen('stock'),
-        index: isMarketOpen('index'),
-      });
-    };
-    checkMarkets();
-    const interval = setInterval(checkMarkets, 60000);
-    return () => clearInterval(interval);
-  }, []);
+  // Trading hours from the server calendar
+  const { getMarketState } = useMarketSessions();
 
   const formatTime = (timestamp: string | Date) => {
     const date = new Date(timestamp);
@@ -472,7 +454,7 @@ export function MobileAssetBar({
                         const price = liveData?.price ?? asset.basePrice;
                         const change = liveData?.changePercent ?? 0;
                         const assetMarketType = getMarketType(asset);
-                        const isAssetMarketOpen = marketStatus[assetMarketType];
+                        const { isOpen: isAssetMarketOpen, closedLabel } = getMarketState(asset.symbol, assetMarketType);
 
                         return (
                           <button
@@ -501,7 +483,7 @@ export function MobileAssetBar({
                                 {asset.symbol}
                               </div>
                               <div className="text-gray-500 text-xs truncate max-w-[150px]">
-                                {isAssetMarketOpen ? asset.name : 'Market Closed'}
+                                {isAssetMarketOpen ? asset.name : closedLabel ?? 'Market Closed'}
                               </div>
                             </div>
                             <div className="text-right">
@@ -48,7 +48,7 @@ export function MobileTradesSheet({ isOpen, onClose, latestPrices }: MobileTrade
     const twentyFourHoursAgo = Date.now() - 24 * 60 * 60 * 1000;
     return allTrades
       .filter(t => {
-        if (t.status !== 'won' && t.status !== 'lost') return false;
+        if (t.status === 'active') return false;
         const closedTime = new Date(t.closedAt || t.createdAt).getTime();
         return closedTime > twentyFourHoursAgo;
       })
@@ -59,11 +59,14 @@ export function MobileTradesSheet({ isOpen, onClose, latestPrices }: MobileTrade
   const historyStats = useMemo(() => {
     const wins = closedTrades.filter(t => t.status === 'won').length;
     const losses = closedTrades.filter(t => t.status === 'lost').length;
+    const draws = closedTrades.filter(t => t.status === 'draw').length;
     const totalPL = closedTrades.reduce((acc, t) => {
       if (t.status === 'won') return acc + (t.profit || 0);
+      if (t.status === 'draw') return acc;
       return acc - t.amount;
     }, 0);
-    const winRate = closedTrades.length > 0 ? (wins / closedTrades.length) * 100 : 0;
+    const decided = closedTrades.length - draws;
+    const winRate = decided > 0 ? (wins / decided) * 100 : 0;
     return { wins, losses, totalPL, winRate, total: closedTrades.length };
   }, [closedTrades]);
 
@@ -392,6 +395,7 @@ function HistoryTradeCard({ trade }: { trade: Trade }) {
   const [expanded, setExpanded] = useState(false);
 
   const isWon = trade.status === 'won';
+  const isDraw = trade.status === 'draw';
   const isUp = trade.direction === 'UP';
   const profit = trade.profit || 0;
 
@@ -409,7 +413,7 @@ function HistoryTradeCard({ trade }: { trade: Trade }) {
       className={cn(
         'bg-[#1a1a2e] rounded-xl overflow-hidden cursor-pointer transition-all',
         'border',
-        isWon ? 'border-emerald-500/20' : 'border-red-500/20'
+        isWon ? 'border-emerald-500/20' : isDraw ? 'border-gray-500/20' : 'border-red-500/20'
       )}
       onClick={() => setExpanded(!expanded)}
     >
@@ -444,15 +448,15 @@ function HistoryTradeCard({ trade }: { trade: Trade }) {
           <div className="text-right">
             <p className={cn(
               'font-bold text-base',
-              isWon ? 'text-emerald-400' : 'text-red-400'
+              isWon ? 'text-emerald-400' : isDraw ? 'text-gray-300' : 'text-red-400'
             )}>
-              {isWon ? '+' : '-'}${Math.abs(isWon ? profit : trade.amount).toFixed(2)}
+              {isDraw ? '$0.00' : `${isWon ? '+' : '-'}$${Math.abs(isWon ? profit : trade.amount).toFixed(2)}`}
             </p>
             <span className={cn(
               'text-[10px] font-semibold px-2 py-0.5 rounded-full',
-              isWon ? 'bg-emerald-500/20 text-emerald-400' : 'bg-red-500/20 text-red-400'
+              isWon ? 'bg-emerald-500/20 text-emerald-400' : isDraw ? 'bg-gray-500/20 text-gray-300' : 'bg-red-500/20 text-red-400'
             )}>
-              {isWon ? 'WIN' : 'LOSS'}
+              {isWon ? 'WIN' : isDraw ? 'DRAW' : 'LOSS'}
             </span>
           </div>
         </div>
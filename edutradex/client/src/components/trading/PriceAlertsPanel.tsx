@@ -0,0 +1,262 @@
+'use client';
+
+import { useState, useEffect } from 'react';
+import { BellRing, Mail, Repeat, X } from 'lucide-react';
+import toast from 'react-hot-toast';
+import { usePriceAlertStore } from '@/store/price-alert.store';
+import { api, PriceAlert, PriceAlertEvent, PriceAlertType, CreatePriceAlertData } from '@/lib/api';
+import { cn, getErrorMessage } from '@/lib/utils';
+
+interface PriceAlertsPanelProps {
+  symbol: string;
+  currentPrice?: number;
+  searchQuery: string;
+}
+
+const ALERT_TYPE_OPTIONS: { value: PriceAlertType; label: string }[] = [
+  { value: 'CROSS_UP', label: 'Price rises above' },
+  { value: 'CROSS_DOWN', label: 'Price falls below' },
+  { value: 'PERCENT_CHANGE', label: 'Moves by %' },
+  { value: 'RSI_ABOVE', label: 'RSI rises above' },
+  { value: 'RSI_BELOW', label: 'RSI falls below' },
+];
+
+function describeAlert(alert: PriceAlert): string {
+  switch (alert.type) {
+    case 'CROSS_UP':
+      return `≥ ${alert.targetPrice}`;
+    case 'CROSS_DOWN':
+      return `≤ ${alert.targetPrice}`;
+    case 'PERCENT_CHANGE':
+      return `±${alert.percentChange}% / ${alert.windowMinutes}m`;
+    case 'RSI_ABOVE':
+      return `RSI(${alert.rsiPeriod}) ≥ ${alert.rsiThreshold}`;
+    case 'RSI_BELOW':
+      return `RSI(${alert.rsiPeriod}) ≤ ${alert.rsiThreshold}`;
+  }
+}
+
+export function PriceAlertsPanel({ symbol, currentPrice, searchQuery }: PriceAlertsPanelProps) {
+  const alerts = usePriceAlertStore((state) => state.alerts);
+  const [events, setEvents] = useState<PriceAlertEvent[]>([]);
+
+  useEffect(() => {
+    api.getPriceAlertInbox(false, 10)
+      .then(({ events, unreadCount }) => {
+        setEvents(events);
+        if (unreadCount > 0) {
+          api.markAllPriceAlertEventsRead().catch(() => undefined);
+        }
+      })
+      .catch((error) => {
+        console.error('Failed to fetch alert inbox:', error);
+      });
+  }, [alerts.length]);
+
+  const query = searchQuery.toLowerCase().trim();
+  const visibleAlerts = query
+    ? alerts.filter((alert) => alert.symbol.toLowerCase().includes(query))
+    : alerts;
+
+  return (
+    <div className="p-2 space-y-3">
+      <CreateAlertForm symbol={symbol} currentPrice={currentPrice} />
+
+      <div className="space-y-2">
+        <p className="text-[10px] uppercase tracking-wide text-gray-500 px-1">Active alerts</p>
+        {visibleAlerts.length === 0 ? (
+          <p className="text-xs text-gray-500 px-1">
+            {query ? 'No matches' : 'Alerts fire even when this tab is closed'}
+          </p>
+        ) : (
+          visibleAlerts.map((alert) => <PriceAlertCard key={alert.id} alert={alert} />)
+        )}
+      </div>
+
+      {events.length > 0 && (
+        <div className="space-y-1.5">
+          <p className="text-[10px] uppercase tracking-wide text-gray-500 px-1">Recently triggered</p>
+          {events.map((event) => (
+            <div
+              key={event.id}
+              className={cn('rounded-lg px-2.5 py-2 text-xs', event.isRead ? 'bg-[#252542]/60' : 'bg-[#252542]')}
+            >
+              <p className="text-gray-200">{event.message}</p>
+              <p className="text-[10px] text-gray-500 mt-0.5">
+                {new Date(event.createdAt).toLocaleString('en-US', { hour12: false })}
+              </p>
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
+
+function CreateAlertForm({ symbol, currentPrice }: { symbol: string; currentPrice?: number }) {
+  const createAlert = usePriceAlertStore((state) => state.createAlert);
+  const [type, setType] = useState<PriceAlertType>('CROSS_UP');
+  const [value, setValue] = useState('');
+  const [windowMinutes, setWindowMinutes] = useState('60');
+  const [isRecurring, setIsRecurring] = useState(false);
+  const [notifyEmail, setNotifyEmail] = useState(false);
+  const [isSubmitting, setIsSubmitting] = useState(false);
+
+  const isCross = type === 'CROSS_UP' || type === 'CROSS_DOWN';
+  const placeholder = isCross
+    ? currentPrice?.toString() ?? 'Price'
+    : type === 'PERCENT_CHANGE'
+    ? 'Percent'
+    : type === 'RSI_ABOVE' ? '70' : '30';
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    const numericValue = parseFloat(value);
+    if (!Number.isFinite(numericValue) || numericValue <= 0) {
+      toast.error('Enter a valid value');
+      return;
+    }
+
+    const data: CreatePriceAlertData = {
+      symbol,
+      type,
+      mode: isRecurring ? 'RECURRING' : 'ONE_SHOT',
+      notifyEmail,
+    };
+    if (isCross) {
+      data.targetPrice = numericValue;
+    } else if (type === 'PERCENT_CHANGE') {
+      data.percentChange = numericValue;
+      data.windowMinutes = parseInt(windowMinutes, 10);
+    } else {
+      data.rsiThreshold = numericValue;
+    }
+
+    setIsSubmitting(true);
+    try {
+      await createAlert(data);
+      setValue('');
+      toast.success(`Alert set on ${symbol}`);
+    } catch (error) {
+      toast.error(getErrorMessage(error));
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  return (
+    <form onSubmit={handleSubmit} className="bg-[#252542] rounded-lg p-2.5 space-y-2">
+      <div className="flex items-center gap-1.5 text-xs text-white font-semibold">
+        <BellRing className="h-3.5 w-3.5 text-amber-400" />
+        New alert · {symbol}
+      </div>
+      <select
+        value={type}
+        onChange={(e) => setType(e.target.value as PriceAlertType)}
+        className="w-full px-2 py-1.5 bg-[#1a1a2e] border border-[#3d3d5c] rounded text-xs text-white focus:outline-none focus:border-amber-500/50"
+      >
+        {ALERT_TYPE_OPTIONS.map((option) => (
+          <option key={option.value} value={option.value}>{option.label}</option>
+        ))}
+      </select>
+      <div className="flex gap-1.5">
+        <input
+          type="number"
+          step="any"
+          min="0"
+          value={value}
+          onChange={(e) => setValue(e.target.value)}
+          placeholder={placeholder}
+          className="flex-1 min-w-0 px-2 py-1.5 bg-[#1a1a2e] border border-[#3d3d5c] rounded text-xs text-white placeholder-gray-500 focus:outline-none focus:border-amber-500/50"
+        />
+        {type === 'PERCENT_CHANGE' && (
+          <select
+            value={windowMinutes}
+            onChange={(e) => setWindowMinutes(e.target.value)}
+            className="px-1.5 py-1.5 bg-[#1a1a2e] border border-[#3d3d5c] rounded text-xs text-white focus:outline-none"
+            title="Within"
+          >
+            <option value="15">15m</option>
+            <option value="60">1h</option>
+            <option value="240">4h</option>
+            <option value="1440">24h</option>
+          </select>
+        )}
+      </div>
+      <div className="flex items-center justify-between">
+        <div className="flex gap-1">
+          <button
+            type="button"
+            onClick={() => setIsRecurring(!isRecurring)}
+            className={cn(
+              'p-1.5 rounded transition-colors',
+              isRecurring ? 'bg-amber-500/20 text-amber-400' : 'text-gray-500 hover:text-white'
+            )}
+            title={isRecurring ? 'Recurring - fires again after a cooldown' : 'One-shot - fires once'}
+          >
+            <Repeat className="h-3.5 w-3.5" />
+          </button>
+          <button
+            type="button"
+            onClick={() => setNotifyEmail(!notifyEmail)}
+            className={cn(
+              'p-1.5 rounded transition-colors',
+              notifyEmail ? 'bg-amber-500/20 text-amber-400' : 'text-gray-500 hover:text-white'
+            )}
+            title={notifyEmail ? 'Email me too' : 'In-app only'}
+          >
+            <Mail className="h-3.5 w-3.5" />
+          </button>
+        </div>
+        <button
+          type="submit"
+          disabled={isSubmitting || !value}
+          className="px-3 py-1 bg-amber-600 hover:bg-amber-500 disabled:opacity-50 rounded text-xs font-medium text-white transition-colors"
+        >
+          Set alert
+        </button>
+      </div>
+    </form>
+  );
+}
+
+function PriceAlertCard({ alert }: { alert: PriceAlert }) {
+  const [isDeleting, setIsDeleting] = useState(false);
+  const deleteAlert = usePriceAlertStore((state) => state.deleteAlert);
+
+  const handleDelete = async () => {
+    setIsDeleting(true);
+    try {
+      await deleteAlert(alert.id);
+    } catch (error) {
+      toast.error(getErrorMessage(error));
+      setIsDeleting(false);
+    }
+  };
+
+  return (
+    <div className="bg-[#252542] rounded-lg p-2.5 border-l-amber-500" style={{ borderLeftWidth: '3px' }}>
+      <div className="flex items-center justify-between">
+        <span className="text-white text-xs font-semibold">{alert.symbol}</span>
+        <div className="flex items-center gap-1">
+          {alert.mode === 'RECURRING' && <Repeat className="h-3 w-3 text-gray-500" />}
+          {alert.notifyEmail && <Mail className="h-3 w-3 text-gray-500" />}
+          <button
+            onClick={handleDelete}
+            disabled={isDeleting}
+            className="p-1 hover:bg-[#1a1a2e] rounded transition-colors disabled:opacity-50"
+            title="Delete alert"
+          >
+            <X className="h-3.5 w-3.5 text-gray-400 hover:text-white" />
+          </button>
+        </div>
+      </div>
+      <div className="flex items-center justify-between text-[11px] mt-1">
+        <span className="text-amber-400 font-mono">{describeAlert(alert)}</span>
+        {alert.triggerCount > 0 && (
+          <span className="text-gray-500">fired {alert.triggerCount}×</span>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -33,8 +33,10 @@ import {
   CandleData as IndicatorCandleData,
   CandleDataWithVolume,
 } from '@/lib/indicators';
-import { useChartStore, IndicatorConfig, DrawingTool, DrawnLine, CHART_TEMPLATES, PriceAlert } from '@/store/chart.store';
+import { useChartStore, IndicatorConfig, DrawingTool, DrawnLine, CHART_TEMPLATES } from '@/store/chart.store';
+import { useSymbolPriceAlerts } from '@/store/price-alert.store';
 import { useTradeStore, useFilteredActiveTrades, Trade } from '@/store/trade.store';
+import { useFilteredPendingOrders } from '@/store/pending-order.store';
 import { ArrowUp, ArrowDown } from 'lucide-react';
 
 interface PriceChartProps {
@@ -342,11 +344,9 @@ const PriceChartComponent = forwardRef<PriceChartHandle, PriceChartProps>(
     // Templates
     activeTemplateId,
     applyTemplate,
-    // Price Alerts
-    priceAlerts: storePriceAlerts,
-    addPriceAlert: storeAddPriceAlert,
-    removePriceAlert: storeRemovePriceAlert,
-    clearPriceAlerts: storeClearPriceAlerts,
+    userTemplates,
+    saveTemplate,
+    deleteTemplate,
   } = useChartStore();
 
   // Local UI state
@@ -363,15 +363,26 @@ const PriceChartComponent = forwardRef<PriceChartHandle, PriceChartProps>(
   // Filter drawings by current symbol from store
   const drawnLines = storeDrawnLines.filter((d) => d.symbol === symbol);
 
-  // Filter price alerts by current symbol
-  const priceAlerts = storePriceAlerts.filter((a) => a.symbol === symbol);
+  // Server-side price alerts on the current symbol - only crossing alerts have a level to draw
+  const priceAlerts = useSymbolPriceAlerts(symbol).filter((a) => a.targetPrice !== null);
 
   // Template menu state
   const [showTemplateMenu, setShowTemplateMenu] = useState(false);
+  const [newTemplateName, setNewTemplateName] = useState('');
 
   // Price alert lines ref
   const priceAlertLinesRef = useRef<Map<string, IPriceLine>>(new Map());
 
+  // Pending price orders for the current symbol
+  const allPendingOrders = useFilteredPendingOrders();
+  const pendingPriceOrders = useMemo(
+    () => allPendingOrders.filter(
+      (o) => o.symbol === symbol && o.triggerType === 'PRICE' && o.triggerPrice !== null
+    ),
+    [allPendingOrders, symbol]
+  );
+  const pendingOrderLinesRef = useRef<Map<string, IPriceLine>>(new Map());
+
   // Professional chart features state
   const [candleCountdown, setCandleCountdown] = useState<number>(0);
   const [flashClass, setFlashClass] = useState<string>('');
@@ -482,18 +493,50 @@ const PriceChartComponent = forwardRef<PriceChartHandle, PriceChartProps>(
     priceAlerts.forEach((alert) => {
       if (!priceAlertLinesRef.current.has(alert.id)) {
         const priceLine = mainSeries.createPriceLine({
-          price: alert.price,
-          color: alert.triggered ? '#6b7280' : '#f59e0b',
+          price: alert.targetPrice!,
+          color: '#f59e0b',
           lineWidth: 1,
           lineStyle: LineStyle.Dashed,
           axisLabelVisible: true,
-          title: alert.triggered ? 'Triggered' : 'Alert',
+          title: alert.type === 'CROSS_UP' ? 'Alert ↑' : 'Alert ↓',
         });
         priceAlertLinesRef.current.set(alert.id, priceLine);
       }
     });
   }, [priceAlerts]);
 
+  // Render pending order trigger lines on chart
+  useEffect(() => {
+    const mainSeries = mainSeriesRef.current;
+    if (!mainSeries) return;
+
+    const currentOrderIds = new Set(pendingPriceOrders.map((o) => o.id));
+    pendingOrderLinesRef.current.forEach((priceLine, orderId) => {
+      if (!currentOrderIds.has(orderId)) {
+        try {
+          mainSeries.removePriceLine(priceLine);
+        } catch {
+          // Line may already be removed
+        }
+        pendingOrderLinesRef.current.delete(orderId);
+      }
+    });
+
+    pendingPriceOrders.forEach((order) => {
+      if (!pendingOrderLinesRef.current.has(order.id)) {
+        const priceLine = mainSeries.createPriceLine({
+          price: order.triggerPrice!,
+          color: order.direction === 'UP' ? '#10b981' : '#ef4444',
+          lineWidth: 1,
+          lineStyle: LineStyle.Dotted,
+          axisLabelVisible: true,
+          title: `Order ${order.direction === 'UP' ? 'BUY' : 'SELL'}`,
+        });
+        pendingOrderLinesRef.current.set(order.id, priceLine);
+      }
+    });
+  }, [pendingPriceOrders]);
+
   const candleInterval = selectedTimeframe.seconds;
 
   const hasRSI = indicators.find((i) => i.id === 'rsi')?.enabled;
@@ -3087,6 +3130,63 @@ const PriceChartComponent = forwardRef<PriceChartHandle, PriceChartProps>(
                     <span className="text-[10px] text-gray-500 mt-0.5">{template.description}</span>
                   </button>
                 ))}
+                {userTemplates.length > 0 && (
+                  <div className="px-3 py-2 border-y border-[#2d2d44] bg-[#1a1a2e]/50">
+                    <span className="text-xs font-bold text-blue-400 uppercase tracking-wider">My Templates</span>
+                  </div>
+                )}
+                {userTemplates.map((template) => (
+                  <div
+                    key={template.id}
+                    className={`flex items-center text-sm transition-all ${
+                      activeTemplateId === template.id
+                        ? 'bg-blue-500/20 text-blue-400'
+                        : 'text-gray-400 hover:bg-[#252542] hover:text-white'
+                    }`}
+                  >
+                    <button
+                      onClick={() => { applyTemplate(template.id); setShowTemplateMenu(false); }}
+                      className="flex-1 min-w-0 flex flex-col items-start px-3 py-2.5"
+                    >
+                      <div className="flex items-center justify-between w-full">
+                        <span className="font-medium truncate">{template.name}</span>
+                        {activeTemplateId === template.id && <Check className="w-4 h-4" />}
+                      </div>
+                      <span className="text-[10px] text-gray-500 mt-0.5 truncate w-full text-left">{template.description}</span>
+                    </button>
+                    <button
+                      onClick={() => deleteTemplate(template.id)}
+                      className="p-2 mr-1 text-gray-500 hover:text-red-400 transition-colors"
+                      title="Delete template"
+                    >
+                      <Trash2 className="w-3.5 h-3.5" />
+                    </button>
+                  </div>
+                ))}
+                <form
+                  onSubmit={(e) => {
+                    e.preventDefault();
+                    if (!newTemplateName.trim()) return;
+                    saveTemplate(newTemplateName.slice(0, 40));
+                    setNewTemplateName('');
+                  }}
+                  className="flex items-center gap-1.5 p-2 border-t border-[#2d2d44]"
+                >
+                  <input
+                    value={newTemplateName}
+                    onChange={(e) => setNewTemplateName(e.target.value)}
+                    maxLength={40}
+                    placeholder="Save current as..."
+                    className="flex-1 min-w-0 px-2 py-1.5 bg-[#12121f] border border-[#2d2d44] rounded-lg text-xs text-white placeholder-gray-500 focus:outline-none focus:border-blue-500/50"
+                  />
+                  <button
+                    type="submit"
+                    disabled={!newTemplateName.trim()}
+                    className="px-2 py-1.5 rounded-lg text-xs font-semibold bg-blue-500/20 text-blue-400 hover:bg-blue-500/30 disabled:opacity-40 transition-colors"
+                  >
+                    Save
+                  </button>
+                </form>
               </div>
             </>
           )}
@@ -0,0 +1,193 @@
+'use client';
+
+import { useEffect, useMemo, useState } from 'react';
+import {
+  LineChart,
+  Line,
+  XAxis,
+  YAxis,
+  CartesianGrid,
+  Tooltip,
+  ReferenceLine,
+  ReferenceDot,
+  ResponsiveContainer,
+} from 'recharts';
+import { X, Loader2, AlertCircle, ArrowUp, ArrowDown } from 'lucide-react';
+import { format } from 'date-fns';
+import { api, type TradeReplay } from '@/lib/api';
+import { cn, formatCurrency, getErrorMessage } from '@/lib/utils';
+
+interface TradeReplayModalProps {
+  tradeId: string;
+  // Set when opened from the admin panel for another user's trade
+  userId?: string;
+  onClose: () => void;
+}
+
+const SOURCE_LABELS: Record<TradeReplay['source'], string> = {
+  PRICE_TICK_JOURNAL: 'Recorded market ticks',
+  OTC_PRICE_HISTORY: 'OTC price history',
+};
+
+export function TradeReplayModal({ tradeId, userId, onClose }: TradeReplayModalProps) {
+  const [replay, setReplay] = useState<TradeReplay | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    const request = userId ? api.getAdminTradeReplay(userId, tradeId) : api.getTradeReplay(tradeId);
+    request
+      .then(setReplay)
+      .catch((err) => setError(getErrorMessage(err)));
+  }, [tradeId, userId]);
+
+  const chartData = useMemo(
+    () => replay?.ticks.map((tick) => ({ ...tick, time: new Date(tick.timestamp).getTime() })) ?? [],
+    [replay]
+  );
+
+  const decimals = replay && replay.trade.entryPrice < 10 ? 5 : 2;
+  const formatPrice = (price: number) => price.toFixed(decimals);
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center p-4">
+      <div className="absolute inset-0 bg-black/60 backdrop-blur-sm" onClick={onClose} />
+      <div className="relative bg-slate-800 border border-slate-700 rounded-xl w-full max-w-3xl max-h-[90vh] overflow-y-auto">
+        <div className="sticky top-0 bg-slate-800 flex items-center justify-between p-4 border-b border-slate-700 z-10">
+          <h3 className="text-white font-semibold">
+            Trade Replay{replay ? ` - ${replay.trade.symbol}` : ''}
+          </h3>
+          <button onClick={onClose} className="p-1 hover:bg-slate-700 rounded-lg transition-colors">
+            <X className="h-5 w-5 text-slate-400" />
+          </button>
+        </div>
+
+        <div className="p-4">
+          {error ? (
+            <div className="flex items-center gap-2 p-4 bg-red-500/10 border border-red-500/30 rounded-lg text-sm text-red-300">
+              <AlertCircle className="h-4 w-4 flex-shrink-0" />
+              {error}
+            </div>
+          ) : !replay ? (
+            <div className="flex items-center justify-center py-16">
+              <Loader2 className="h-8 w-8 text-[#1079ff] animate-spin" />
+            </div>
+          ) : (
+            <div className="space-y-4">
+              {/* Summary */}
+              <div className="grid grid-cols-2 sm:grid-cols-4 gap-3 text-sm">
+                <div className="bg-slate-900/50 rounded-lg p-3">
+                  <p className="text-xs text-slate-400">Direction</p>
+                  <p className={cn(
+                    'flex items-center gap-1 font-medium',
+                    replay.trade.direction === 'UP' ? 'text-emerald-400' : 'text-red-400'
+                  )}>
+                    {replay.trade.direction === 'UP' ? <ArrowUp className="h-3.5 w-3.5" /> : <ArrowDown className="h-3.5 w-3.5" />}
+                    {replay.trade.direction} · {formatCurrency(replay.trade.amount)}
+                  </p>
+                </div>
+                <div className="bg-slate-900/50 rounded-lg p-3">
+                  <p className="text-xs text-slate-400">Entry</p>
+                  <p className="text-white font-medium">{formatPrice(replay.entryTick.price)}</p>
+                  <p className="text-[10px] text-slate-500">{format(new Date(replay.entryTick.timestamp), 'HH:mm:ss.SSS')}</p>
+                </div>
+                <div className="bg-slate-900/50 rounded-lg p-3">
+                  <p className="text-xs text-slate-400">Settlement</p>
+                  {replay.settlementTick ? (
+                    <>
+                      <p className="text-white font-medium">{formatPrice(replay.settlementTick.price)}</p>
+                      <p className="text-[10px] text-slate-500">
+                        {format(new Date(replay.settlementTick.timestamp), 'HH:mm:ss.SSS')}
+                        {replay.settlementTick.source && ` · ${replay.settlementTick.source}`}
+                      </p>
+                    </>
+                  ) : (
+                    <p className="text-slate-400">Open</p>
+                  )}
+                </div>
+                <div className="bg-slate-900/50 rounded-lg p-3">
+                  <p className="text-xs text-slate-400">Result</p>
+                  <p className={cn(
+                    'font-medium',
+                    (replay.trade.profit ?? 0) > 0 ? 'text-emerald-400' : (replay.trade.profit ?? 0) < 0 ? 'text-red-400' : 'text-slate-300'
+                  )}>
+                    {replay.trade.result ?? replay.trade.status}
+                    {replay.trade.profit !== null && ` (${replay.trade.profit >= 0 ? '+' : ''}${formatCurrency(replay.trade.profit)})`}
+                  </p>
+                </div>
+              </div>
+
+              {/* Price path */}
+              {chartData.length === 0 ? (
+                <div className="flex items-center gap-2 p-4 bg-slate-900/50 rounded-lg text-sm text-slate-400">
+                  <AlertCircle className="h-4 w-4 flex-shrink-0" />
+                  No recorded ticks for this trade. Price history may have expired.
+                </div>
+              ) : (
+                <div className="h-72 bg-slate-900/50 rounded-lg p-2">
+                  <ResponsiveContainer width="100%" height="100%">
+                    <LineChart data={chartData}>
+                      <CartesianGrid strokeDasharray="3 3" stroke="#334155" />
+                      <XAxis
+                        dataKey="time"
+                        type="number"
+                        domain={['dataMin', 'dataMax']}
+                        stroke="#64748b"
+                        tickFormatter={(v: number) => format(new Date(v), 'HH:mm:ss')}
+                      />
+                      <YAxis
+                        stroke="#64748b"
+                        domain={['auto', 'auto']}
+                        width={70}
+                        tickFormatter={(v: number) => formatPrice(v)}
+                      />
+                      <Tooltip
+                        contentStyle={{
+                          backgroundColor: '#1e293b',
+                          border: '1px solid #334155',
+                          borderRadius: '8px',
+                        }}
+                        labelFormatter={(v) => format(new Date(Number(v)), 'HH:mm:ss.SSS')}
+                        formatter={(value) => [formatPrice(Number(value)), '']}
+                      />
+                      <ReferenceLine
+                        y={replay.entryTick.price}
+                        stroke="#1079ff"
+                        strokeDasharray="4 4"
+                        label={{ value: 'Entry', fill: '#1079ff', fontSize: 10, position: 'insideTopLeft' }}
+                      />
+                      <Line type="monotone" dataKey="ask" stroke="#475569" strokeWidth={1} dot={false} isAnimationActive={false} />
+                      <Line type="monotone" dataKey="bid" stroke="#475569" strokeWidth={1} dot={false} isAnimationActive={false} />
+                      <Line type="monotone" dataKey="price" stroke="#e2e8f0" strokeWidth={2} dot={false} isAnimationActive={false} />
+                      {replay.settlementTick && (
+                        <ReferenceDot
+                          x={new Date(replay.settlementTick.timestamp).getTime()}
+                          y={replay.settlementTick.price}
+                          r={5}
+                          fill={(replay.trade.profit ?? 0) >= 0 ? '#10b981' : '#ef4444'}
+                          stroke="none"
+                        />
+                      )}
+                    </LineChart>
+                  </ResponsiveContainer>
+                </div>
+              )}
+
+              {/* Source and spread */}
+              <div className="flex flex-wrap gap-x-4 gap-y-1 text-xs text-slate-400">
+                <span>Source: {SOURCE_LABELS[replay.source]}</span>
+                <span>
+                  Ticks: {replay.totalTicks.toLocaleString()}
+                  {replay.isDownsampled && ` (showing ${replay.ticks.length.toLocaleString()})`}
+                </span>
+                {replay.spread.markupPips !== null && <span>Spread markup: {replay.spread.markupPips} pips</span>}
+                {replay.spread.averageSpread !== null && (
+                  <span>Avg. bid/ask spread: {formatPrice(replay.spread.averageSpread)}</span>
+                )}
+              </div>
+            </div>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -1,17 +1,22 @@
 'use client';
 
 import { useState, useEffect, useMemo } from 'react';
-import { ArrowUp, ArrowDown, Clock, CheckCircle, XCircle, ListOrdered, History, ChevronRight, ChevronDown, Search } from 'lucide-react';
+import { ArrowUp, ArrowDown, Clock, CheckCircle, XCircle, ListOrdered, History, ChevronRight, ChevronDown, Search, Timer, X, BellRing } from 'lucide-react';
+import toast from 'react-hot-toast';
 import { Trade, useFilteredActiveTrades, useFilteredTrades } from '@/store/trade.store';
-import { PriceTick } from '@/lib/api';
+import { usePendingOrderStore, useFilteredPendingOrders } from '@/store/pending-order.store';
+import { usePriceAlertStore } from '@/store/price-alert.store';
+import { PriceAlertsPanel } from './PriceAlertsPanel';
+import { PriceTick, PendingOrder } from '@/lib/api';
 import { cn } from '@/lib/utils';
 
-type TabType = 'opened' | 'closed';
+type TabType = 'opened' | 'orders' | 'alerts' | 'closed';
 
 interface TradesSidebarProps {
   isCollapsed?: boolean;
   onToggle?: () => void;
   latestPrices: Map<string, PriceTick>;
+  symbol: string; // Selected asset, used for new price alerts
 }
 
 // Calculate pips difference between two prices
@@ -30,7 +35,7 @@ function formatPrice(price: number, symbol: string): string {
   return price.toFixed(isJPYPair ? 3 : 5);
 }
 
-export function TradesSidebar({ onToggle, latestPrices }: TradesSidebarProps) {
+export function TradesSidebar({ onToggle, latestPrices, symbol }: TradesSidebarProps) {
   const [activeTab, setActiveTab] = useState<TabType>('opened');
   const [isClient, setIsClient] = useState(false);
   const [searchQuery, setSearchQuery] = useState('');
@@ -38,18 +43,34 @@ export function TradesSidebar({ onToggle, latestPrices }: TradesSidebarProps) {
   // Use filtered trades - only shows trades for current account type (LIVE or DEMO)
   const activeTrades = useFilteredActiveTrades();
   const trades = useFilteredTrades();
+  const pendingOrders = useFilteredPendingOrders();
+  const fetchPendingOrders = usePendingOrderStore((state) => state.fetchOrders);
+  const priceAlertCount = usePriceAlertStore((state) => state.alerts.length);
+  const fetchPriceAlerts = usePriceAlertStore((state) => state.fetchAlerts);
 
   // Prevent hydration mismatch - only render on client side
   useEffect(() => {
     setIsClient(true);
   }, []);
 
+  useEffect(() => {
+    fetchPendingOrders().catch((error) => {
+      console.error('Failed to fetch pending orders:', error);
+    });
+  }, [fetchPendingOrders]);
+
+  useEffect(() => {
+    fetchPriceAlerts().catch((error) => {
+      console.error('Failed to fetch price alerts:', error);
+    });
+  }, [fetchPriceAlerts]);
+
   // Get closed trades from the last 24 hours only (max 20)
   const closedTrades = useMemo(() => {
     const twentyFourHoursAgo = Date.now() - 24 * 60 * 60 * 1000;
     return trades
       .filter(t => {
-        if (t.status !== 'won' && t.status !== 'lost') return false;
+        if (t.status === 'active') return false;
         const closedTime = new Date(t.closedAt || t.createdAt).getTime();
         return closedTime > twentyFourHoursAgo;
       })
@@ -65,6 +86,14 @@ export function TradesSidebar({ onToggle, latestPrices }: TradesSidebarProps) {
     );
   }, [activeTrades, searchQuery]);
 
+  const filteredPendingOrders = useMemo(() => {
+    if (!searchQuery.trim()) return pendingOrders;
+    const query = searchQuery.toLowerCase().trim();
+    return pendingOrders.filter((order) =>
+      order.symbol.toLowerCase().includes(query)
+    );
+  }, [pendingOrders, searchQuery]);
+
   const filteredClosedTrades = useMemo(() => {
     if (!searchQuery.trim()) return closedTrades;
     const query = searchQuery.toLowerCase().trim();
@@ -127,6 +156,46 @@ export function TradesSidebar({ onToggle, latestPrices }: TradesSidebarProps) {
             </span>
           )}
         </button>
+        <button
+          onClick={() => setActiveTab('orders')}
+          className={cn(
+            'flex-1 py-2 px-2 rounded-lg text-xs font-medium transition-all flex items-center justify-center gap-1',
+            activeTab === 'orders'
+              ? 'bg-amber-600 text-white shadow-lg shadow-amber-600/20'
+              : 'bg-[#252542] text-gray-400 hover:text-white hover:bg-[#2d2d52]'
+          )}
+          title="Pending orders"
+        >
+          <Timer className="h-3.5 w-3.5" />
+          {pendingOrders.length > 0 && (
+            <span className={cn(
+              'px-1.5 py-0.5 text-[10px] rounded-full font-bold',
+              activeTab === 'orders' ? 'bg-white/20' : 'bg-amber-600 text-white'
+            )}>
+              {pendingOrders.length}
+            </span>
+          )}
+        </button>
+        <button
+          onClick={() => setActiveTab('alerts')}
+          className={cn(
+            'flex-1 py-2 px-2 rounded-lg text-xs font-medium transition-all flex items-center justify-center gap-1',
+            activeTab === 'alerts'
+              ? 'bg-amber-600 text-white shadow-lg shadow-amber-600/20'
+              : 'bg-[#252542] text-gray-400 hover:text-white hover:bg-[#2d2d52]'
+          )}
+          title="Price alerts"
+        >
+          <BellRing className="h-3.5 w-3.5" />
+          {priceAlertCount > 0 && (
+            <span className={cn(
+              'px-1.5 py-0.5 text-[10px] rounded-full font-bold',
+              activeTab === 'alerts' ? 'bg-white/20' : 'bg-amber-600 text-white'
+            )}>
+              {priceAlertCount}
+            </span>
+          )}
+        </button>
         <button
           onClick={() => setActiveTab('closed')}
           className={cn(
@@ -145,6 +214,10 @@ export function TradesSidebar({ onToggle, latestPrices }: TradesSidebarProps) {
       <div className="flex-1 overflow-y-auto custom-scrollbar">
         {activeTab === 'opened' ? (
           <OpenedTrades trades={filteredActiveTrades} latestPrices={latestPrices} searchQuery={searchQuery} />
+        ) : activeTab === 'orders' ? (
+          <PendingOrders orders={filteredPendingOrders} latestPrices={latestPrices} searchQuery={searchQuery} />
+        ) : activeTab === 'alerts' ? (
+          <PriceAlertsPanel symbol={symbol} currentPrice={latestPrices.get(symbol)?.price} searchQuery={searchQuery} />
         ) : (
           <ClosedTrades trades={filteredClosedTrades} searchQuery={searchQuery} />
         )}
@@ -359,6 +432,89 @@ function OpenedTradeCard({ trade, currentPrice }: { trade: Trade; currentPrice?:
   );
 }
 
+function PendingOrders({ orders, latestPrices, searchQuery }: { orders: PendingOrder[]; latestPrices: Map<string, PriceTick>; searchQuery: string }) {
+  if (orders.length === 0) {
+    return (
+      <div className="flex flex-col items-center justify-center h-full text-gray-500 p-4">
+        <div className="w-16 h-16 rounded-full bg-[#252542] flex items-center justify-center mb-3">
+          <Timer className="h-8 w-8 opacity-50" />
+        </div>
+        <p className="text-sm font-medium text-gray-400">{searchQuery ? 'No matches' : 'No pending orders'}</p>
+        <p className="text-xs text-gray-500 mt-1 text-center">{searchQuery ? 'Try a different symbol' : 'Orders waiting for a price or time appear here'}</p>
+      </div>
+    );
+  }
+
+  return (
+    <div className="p-2 space-y-2">
+      {orders.map((order) => (
+        <PendingOrderCard key={order.id} order={order} currentPrice={latestPrices.get(order.symbol)?.price} />
+      ))}
+    </div>
+  );
+}
+
+function PendingOrderCard({ order, currentPrice }: { order: PendingOrder; currentPrice?: number }) {
+  const [isCancelling, setIsCancelling] = useState(false);
+  const cancelOrder = usePendingOrderStore((state) => state.cancelOrder);
+  const isUp = order.direction === 'UP';
+
+  const trigger = order.triggerType === 'PRICE' && order.triggerPrice !== null
+    ? `${order.triggerCondition === 'ABOVE' ? '≥' : '≤'} ${formatPrice(order.triggerPrice, order.symbol)}`
+    : order.triggerAt
+    ? `at ${new Date(order.triggerAt).toLocaleTimeString('en-US', { hour12: false })}`
+    : '-';
+
+  const handleCancel = async () => {
+    setIsCancelling(true);
+    try {
+      await cancelOrder(order.id);
+      toast.success('Order cancelled');
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : 'Failed to cancel order');
+    } finally {
+      setIsCancelling(false);
+    }
+  };
+
+  return (
+    <div className="bg-[#252542] rounded-lg p-3 border-l-amber-500" style={{ borderLeftWidth: '3px' }}>
+      <div className="flex items-center justify-between mb-2">
+        <div className="flex items-center gap-2">
+          <div className={cn(
+            'w-6 h-6 rounded-full flex items-center justify-center',
+            isUp ? 'bg-emerald-500/20' : 'bg-red-500/20'
+          )}>
+            {isUp ? (
+              <ArrowUp className="h-3.5 w-3.5 text-emerald-400" />
+            ) : (
+              <ArrowDown className="h-3.5 w-3.5 text-red-400" />
+            )}
+          </div>
+          <span className="text-white text-sm font-semibold">{order.symbol}</span>
+        </div>
+        <button
+          onClick={handleCancel}
+          disabled={isCancelling}
+          className="p-1 hover:bg-[#1a1a2e] rounded transition-colors disabled:opacity-50"
+          title="Cancel order"
+        >
+          <X className="h-3.5 w-3.5 text-gray-400 hover:text-white" />
+        </button>
+      </div>
+      <div className="flex items-center justify-between text-xs">
+        <span className="text-amber-400 font-mono font-semibold">{trigger}</span>
+        <span className="text-gray-400">${order.amount.toFixed(0)} · {order.duration}s</span>
+      </div>
+      {order.triggerType === 'PRICE' && currentPrice && (
+        <div className="text-[10px] text-gray-500 mt-1">
+          Now <span className="font-mono text-gray-300">{formatPrice(currentPrice, order.symbol)}</span>
+        </div>
+      )}
+    </div>
+  );
+}
+
 // Helper to format relative time
 function getRelativeTime(dateStr: string): string {
   const now = Date.now();
@@ -379,6 +535,7 @@ function ClosedTrades({ trades, searchQuery }: { trades: Trade[]; searchQuery: s
     const losses = trades.filter(t => t.status === 'lost').length;
     const totalPnL = trades.reduce((sum, t) => {
       if (t.status === 'won') return sum + (t.profit || 0);
+      if (t.status === 'draw') return sum;
       return sum - t.amount;
     }, 0);
     return { wins, losses, totalPnL };
@@ -421,6 +578,7 @@ function ClosedTrades({ trades, searchQuery }: { trades: Trade[]; searchQuery: s
 function ClosedTradeCard({ trade }: { trade: Trade }) {
   const [isExpanded, setIsExpanded] = useState(false);
   const isWon = trade.status === 'won';
+  const isDraw = trade.status === 'draw';
   const isUp = trade.direction === 'UP';
   const profit = trade.profit || 0;
   const amount = isWon ? profit : trade.amount;
@@ -434,7 +592,7 @@ function ClosedTradeCard({ trade }: { trade: Trade }) {
     <div
       className={cn(
         'rounded-lg transition-all cursor-pointer',
-        isWon ? 'bg-emerald-500/10 hover:bg-emerald-500/15' : 'bg-red-500/10 hover:bg-red-500/15'
+        isWon ? 'bg-emerald-500/10 hover:bg-emerald-500/15' : isDraw ? 'bg-gray-500/10 hover:bg-gray-500/15' : 'bg-red-500/10 hover:bg-red-500/15'
       )}
       onClick={() => setIsExpanded(!isExpanded)}
     >
@@ -446,12 +604,12 @@ function ClosedTradeCard({ trade }: { trade: Trade }) {
         <div className="flex-1 min-w-0">
           <div className="flex items-center gap-1.5">
             <span className="text-white text-xs font-medium truncate">{trade.symbol}</span>
-            <span className={cn('text-[9px] font-bold px-1 rounded', isWon ? 'bg-emerald-500/20 text-emerald-400' : 'bg-red-500/20 text-red-400')}>{isWon ? 'WIN' : 'LOSS'}</span>
+            <span className={cn('text-[9px] font-bold px-1 rounded', isWon ? 'bg-emerald-500/20 text-emerald-400' : isDraw ? 'bg-gray-500/20 text-gray-300' : 'bg-red-500/20 text-red-400')}>{isWon ? 'WIN' : isDraw ? 'DRAW' : 'LOSS'}</span>
           </div>
           <span className="text-gray-500 text-[10px]">{getRelativeTime(trade.closedAt || trade.createdAt)}</span>
         </div>
         <div className="flex items-center gap-1">
-          <span className={cn('text-xs font-bold', isWon ? 'text-emerald-400' : 'text-red-400')}>{isWon ? '+' : '-'}${amount.toFixed(2)}</span>
+          <span className={cn('text-xs font-bold', isWon ? 'text-emerald-400' : isDraw ? 'text-gray-300' : 'text-red-400')}>{isDraw ? '$0.00' : `${isWon ? '+' : '-'}$${amount.toFixed(2)}`}</span>
           <ChevronDown className={cn('h-3 w-3 text-gray-500 transition-transform', isExpanded && 'rotate-180')} />
         </div>
       </div>
@@ -0,0 +1,83 @@
+import { useCallback, useEffect, useState } from 'react';
+import { api } from '@/lib/api';
+import { formatCountdown, isMarketOpen, MarketType } from '@/lib/utils';
+import type { SymbolSessionStatus } from '@/types';
+
+const REFRESH_INTERVAL_MS = 60000;
+const CLOCK_INTERVAL_MS = 15000;
+
+export interface SymbolMarketState {
+  isOpen: boolean;
+  // e.g. "Opens in 2h 15m" or "Christmas Day · Opens in 2d 4h"; null while open
+  closedLabel: string | null;
+}
+
+/**
+ * Trading hours from the server's market calendar (GET /market/sessions).
+ * Refreshed every minute; between refreshes the next open/close times keep the
+ * state and countdowns current. Falls back to the built-in hours until loaded.
+ */
+export function useMarketSessions() {
+  const [sessions, setSessions] = useState<Map<string, SymbolSessionStatus> | null>(null);
+  const [clockOffset, setClockOffset] = useState(0);
+  const [now, setNow] = useState(() => Date.now());
+
+  useEffect(() => {
+    let cancelled = false;
+
+    const load = () => {
+      api.getMarketSessions()
+        .then((overview) => {
+          if (cancelled) return;
+          setSessions(new Map(overview.symbols.map((status) => [status.symbol, status])));
+          setClockOffset(new Date(overview.serverTime).getTime() - Date.now());
+          setNow(Date.now());
+        })
+        .catch((error) => {
+          console.error('Failed to load market sessions:', error);
+        });
+    };
+
+    load();
+    const refresh = setInterval(load, REFRESH_INTERVAL_MS);
+    const clock = setInterval(() => setNow(Date.now()), CLOCK_INTERVAL_MS);
+
+    return () => {
+      cancelled = true;
+      clearInterval(refresh);
+      clearInterval(clock);
+    };
+  }, []);
+
+  const getMarketState = useCallback(
+    (symbol: string, marketType: MarketType): SymbolMarketState => {
+      const status = sessions?.get(symbol);
+      if (!status) {
+        // Not loaded yet, or an OTC symbol the calendar does not cover
+        const isOpen = sessions ? true : isMarketOpen(marketType);
+        return { isOpen, closedLabel: isOpen ? null : 'Closed' };
+      }
+
+      const serverNow = now + clockOffset;
+      const nextOpen = status.nextOpen ? new Date(status.nextOpen).getTime() : null;
+      const nextClose = status.nextClose ? new Date(status.nextClose).getTime() : null;
+
+      const isOpen = status.isOpen
+        ? nextClose === null || serverNow < nextClose
+        : nextOpen !== null && serverNow >= nextOpen && (nextClose === null || serverNow < nextClose);
+
+      if (isOpen) return { isOpen, closedLabel: null };
+
+      const reopensAt = status.isOpen ? nextOpen : nextOpen !== null && serverNow < nextOpen ? nextOpen : null;
+      const countdown = reopensAt !== null ? `Opens in ${formatCountdown(reopensAt - serverNow)}` : 'Closed';
+
+      return {
+        isOpen,
+        closedLabel: status.holiday && !status.isOpen ? `${status.holiday} · ${countdown}` : countdown,
+      };
+    },
+    [sessions, clockOffset, now]
+  );
+
+  return { getMarketState, isLoaded: sessions !== null };
+}
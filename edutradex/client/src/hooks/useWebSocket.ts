@@ -1,8 +1,11 @@
 import { useEffect, useRef, useState, useCallback } from 'react';
-import { PriceTick } from '@/lib/api';
-import { useNotificationStore } from '@/store/notification.store';
+import toast from 'react-hot-toast';
+import { PriceTick, PlaceTradeData, ApiTrade } from '@/lib/api';
+import { wsTrading, type TradingResponsePayload } from '@/lib/ws-trading';
 import { useAuthStore } from '@/store/auth.store';
 import { useTradeStore, markTradeNotified } from '@/store/trade.store';
+import { usePendingOrderStore } from '@/store/pending-order.store';
+import { usePriceAlertStore } from '@/store/price-alert.store';
 import { playWinSound, playLoseSound } from '@/lib/sounds';
 import { showTradeNotification } from '@/components/notifications/TradeNotification';
 
@@ -23,6 +26,7 @@ interface UseWebSocketReturn {
   subscribe: (symbol: string) => void;
   unsubscribe: (symbol: string) => void;
   subscribeAll: (symbols: string[]) => void;
+  placeTrade: (data: PlaceTradeData) => Promise<ApiTrade>; // Over the socket, REST when it is down
 }
 
 const MAX_HISTORY_LENGTH = 300; // Keep 5 minutes of history at 1 tick/second
@@ -62,6 +66,8 @@ export function useWebSocket(): UseWebSocketReturn {
     sendMessageRef.current({ type: 'subscribe_all', payload: { symbols } });
   }, []);
 
+  const placeTrade = useCallback((data: PlaceTradeData) => wsTrading.placeTrade(data), []);
+
   // Connection effect - runs only once on mount
   useEffect(() => {
     const clearTimers = () => {
@@ -127,6 +133,12 @@ export function useWebSocket(): UseWebSocketReturn {
               case 'authenticated':
                 if (IS_DEV) console.log('[WebSocket] Authenticated');
                 isAuthenticatedRef.current = true;
+                wsTrading.attach(ws);
+                break;
+
+              case 'response':
+                // Answer to a trading request sent through wsTrading
+                wsTrading.handleResponse(message.payload as TradingResponsePayload);
                 break;
 
               case 'price_update':
@@ -160,45 +172,47 @@ export function useWebSocket(): UseWebSocketReturn {
               // deposit_update and withdrawal_update are handled by DepositNotificationProvider
               // to avoid duplicate notifications
 
-              case 'copy_trade_executed': {
-                const { symbol, direction, amount, leaderName } = message.payload;
-                useNotificationStore.getState().addNotification({
-                  type: 'system',
-                  title: 'Trade Copied',
-                  message: `Copied ${direction} trade on ${symbol} for $${amount.toFixed(2)} from ${leaderName}`,
-                  amount,
-                });
+              // Bell entries for copy trading, pending orders, price alerts and
+              // leader status arrive separately as 'notification' messages
+
+              case 'pending_order_update': {
+                const { id, symbol, status, failureReason } = message.payload || {};
+                if (id) {
+                  usePendingOrderStore.getState().removeOrder(id);
+                }
+                if (status === 'TRIGGERED') {
+                  // Pick up the trade the order just opened
+                  useTradeStore.getState().syncFromApi();
+                  toast.success(`Your pending order on ${symbol} opened a trade`);
+                } else if (status === 'FAILED') {
+                  toast.error(`Your pending order on ${symbol} could not be placed${failureReason ? `: ${failureReason}` : ''}`);
+                }
                 break;
               }
 
-              case 'pending_copy_trade': {
-                const { symbol, direction, suggestedAmount, leaderName } = message.payload;
-                useNotificationStore.getState().addNotification({
-                  type: 'system',
-                  title: 'Trade Pending Approval',
-                  message: `${leaderName} placed a ${direction} trade on ${symbol}. Approve to copy for $${suggestedAmount.toFixed(2)}`,
-                  amount: suggestedAmount,
-                });
+              case 'price_alert': {
+                const { alertId, message: alertMessage, isActive } = message.payload || {};
+                if (alertId) {
+                  usePriceAlertStore.getState().handleTriggered({ alertId, isActive });
+                }
+                toast(alertMessage, { icon: '🔔', duration: 6000 });
                 break;
               }
 
-              case 'leader_status_change': {
-                const { status, adminNote } = message.payload;
-                const isApproved = status === 'APPROVED';
-                const isSuspended = status === 'SUSPENDED';
-                useNotificationStore.getState().addNotification({
-                  type: isApproved ? 'copy_trading_approved' : 'copy_trading_rejected',
-                  title: isApproved
-                    ? 'Leader Application Approved'
-                    : isSuspended
-                    ? 'Leader Account Suspended'
-                    : 'Leader Application Rejected',
-                  message: isApproved
-                    ? 'Congratulations! Your leader application has been approved. Traders can now follow you.'
-                    : isSuspended
-                    ? `Your leader account has been suspended.${adminNote ? ` Reason: ${adminNote}` : ''}`
-                    : `Your leader application has been rejected.${adminNote ? ` Reason: ${adminNote}` : ''}`,
-                });
+              case 'feed_alerts': {
+                // Sent to admins only, batched per supervisor check
+                const alerts: { message: string; severity: string }[] = message.payload?.alerts || [];
+                if (alerts.length === 1) {
+                  const [alert] = alerts;
+                  if (alert.severity === 'critical') toast.error(alert.message, { duration: 8000 });
+                  else toast(alert.message, { icon: '📡', duration: 6000 });
+                } else if (alerts.length > 1) {
+                  const hasCritical = alerts.some((alert) => alert.severity === 'critical');
+                  toast(`${alerts.length} price feed alerts - see Admin > Feed Health`, {
+                    icon: hasCritical ? '🚨' : '📡',
+                    duration: 8000,
+                  });
+                }
                 break;
               }
 
@@ -222,8 +236,10 @@ export function useWebSocket(): UseWebSocketReturn {
 
               case 'trade_settled': {
                 const { id, symbol, result, profit, amount, newBalance, accountType, direction, entryPrice, exitPrice } = message.payload || {};
-                const won = result === 'WON';
                 const profitAmount = typeof profit === 'number' ? profit : 0;
+                // Early closes count as a win when the buy-back returned more than the stake
+                const won = result === 'WON' || (result === 'CLOSED_EARLY' && profitAmount > 0);
+                const draw = result === 'DRAW';
                 const tradeAmount = typeof amount === 'number' ? amount : 0;
 
                 // Only show notification if not already shown (prevents duplicates)
@@ -232,14 +248,14 @@ export function useWebSocket(): UseWebSocketReturn {
                   // Play sound
                   if (won) {
                     playWinSound();
-                  } else {
+                  } else if (!draw) {
                     playLoseSound();
                   }
 
                   // Show styled trade notification
                   showTradeNotification({
                     symbol: symbol || 'Unknown',
-                    result: won ? 'WON' : 'LOST',
+                    result: won ? 'WON' : draw ? 'DRAW' : 'LOST',
                     amount: tradeAmount,
                     profit: profitAmount,
                     direction: direction || 'UP',
@@ -256,7 +272,7 @@ export function useWebSocket(): UseWebSocketReturn {
                     useTradeStore.setState({
                       activeTrades: tradeStore.activeTrades.filter(t => t.id !== id),
                       trades: tradeStore.trades.map(t =>
-                        t.id === id ? { ...t, status: won ? 'won' : 'lost', profit: profitAmount } : t
+                        t.id === id ? { ...t, status: won ? 'won' : draw ? 'draw' : 'lost', profit: profitAmount } : t
                       ),
                     });
                   }
@@ -317,6 +333,7 @@ export function useWebSocket(): UseWebSocketReturn {
           isConnectingRef.current = false;
           setIsConnected(false);
           clearTimers();
+          wsTrading.detach(ws);
 
           // Attempt reconnect
           if (!event.wasClean) {
@@ -363,10 +380,12 @@ export function useWebSocket(): UseWebSocketReturn {
       if (state.token && !prevState.token && wsRef.current?.readyState === WebSocket.OPEN) {
         wsRef.current.send(JSON.stringify({ type: 'authenticate', payload: { token: state.token } }));
         isAuthenticatedRef.current = false; // Reset so authenticated message sets it
+        wsTrading.detach();
       }
       // If token changed from a value to null (logout), reset authenticated state
       if (!state.token && prevState.token) {
         isAuthenticatedRef.current = false;
+        wsTrading.detach();
       }
     });
 
@@ -380,5 +399,6 @@ export function useWebSocket(): UseWebSocketReturn {
     subscribe,
     unsubscribe,
     subscribeAll,
+    placeTrade,
   };
 }
@@ -1,9 +1,10 @@
 import { useEffect, useRef } from 'react';
 import { useAuthStore } from '@/store/auth.store';
+import type { WithdrawalStatus } from '@/types';
 
 const WS_URL = process.env.NEXT_PUBLIC_WS_URL || 'ws://localhost:5000/ws';
 
-type UpdateCallback = (withdrawalId: string, status: 'APPROVED' | 'REJECTED') => void;
+type UpdateCallback = (withdrawalId: string, status: WithdrawalStatus) => void;
 
 /**
  * Hook to listen for real-time withdrawal updates via WebSocket.
@@ -35,7 +36,7 @@ export function useWithdrawalUpdates(onUpdate: UpdateCallback) {
 
         if (message.type === 'withdrawal_update' && message.payload) {
           const { id, status } = message.payload;
-          if (id && (status === 'APPROVED' || status === 'REJECTED')) {
+          if (id && status) {
             console.log('[useWithdrawalUpdates] Withdrawal update received:', id, status);
             onUpdateRef.current(id, status);
           }
@@ -10,6 +10,7 @@ import type {
   PaginatedResponse,
   Deposit,
   DepositStats,
+  CryptoDepositAddress,
   DepositMethod,
   DepositStatus,
   MobileProvider,
@@ -18,8 +19,18 @@ import type {
   CreateSpreadConfigInput,
   UpdateSpreadConfigInput,
   MarketStatus,
+  MarketSession,
+  MarketHoliday,
+  MarketCalendar,
+  MarketSessionsOverview,
+  FeedHealthReport,
   Withdrawal,
   WithdrawalStats,
+  WithdrawalRuleSettings,
+  Promotion,
+  PromotionInput,
+  UserBonus,
+  BonusSummary,
   WithdrawalMethod,
   WithdrawalStatus,
   PaymentMethod,
@@ -48,6 +59,17 @@ import type {
   ProfileDevice,
   LoginHistoryItem,
   ProfileStats,
+  TradingLimits,
+  TradingLimitType,
+  TradingLimitValues,
+  TimeOutPeriod,
+  SelfExclusionPeriod,
+  NotificationType,
+  UserNotification,
+  NotificationPreference,
+  ChartLayoutKind,
+  ChartLayoutDocument,
+  ChartLayoutSaveResult,
 } from '@/types';
 
 export type { PaginatedResponse };
@@ -72,6 +94,135 @@ export interface ApiTrade {
   openedAt: string;
   closedAt: string | null;
   expiresAt: string;
+  exitTickAt: string | null; // Timestamp of the tick the trade settled against
+  exitTickSource: string | null;
+}
+
+export interface EarlyCloseQuote {
+  quoteId: string;
+  tradeId: string;
+  closeValue: number; // Amount returned to the balance if accepted
+  currentPrice: number;
+  remainingSeconds: number;
+  winProbability: number;
+  feePercent: number;
+  quotedAt: string;
+  validUntil: string;
+}
+
+export interface TradeReplayTick {
+  timestamp: string;
+  price: number;
+  bid: number;
+  ask: number;
+}
+
+export interface TradeReplay {
+  trade: Pick<ApiTrade,
+    'id' | 'userId' | 'symbol' | 'market' | 'direction' | 'amount' | 'entryPrice' | 'exitPrice'
+    | 'payoutPercent' | 'status' | 'result' | 'profit' | 'accountType' | 'openedAt' | 'expiresAt' | 'closedAt'>;
+  source: 'PRICE_TICK_JOURNAL' | 'OTC_PRICE_HISTORY';
+  ticks: TradeReplayTick[];
+  totalTicks: number;
+  isDownsampled: boolean;
+  entryTick: { timestamp: string; price: number };
+  settlementTick: { timestamp: string; price: number; source: string | null } | null;
+  spread: {
+    markupPips: number | null; // Markup configured for the symbol now (real symbols only)
+    markupValue: number | null;
+    averageSpread: number | null; // Average ask - bid across the replayed ticks
+  };
+}
+
+export type PendingOrderStatus = 'PENDING' | 'TRIGGERED' | 'CANCELLED' | 'EXPIRED' | 'FAILED';
+
+export interface PendingOrder {
+  id: string;
+  userId: string;
+  symbol: string;
+  direction: 'UP' | 'DOWN';
+  amount: number;
+  duration: number;
+  marketType: 'forex' | 'crypto' | 'stock' | 'index';
+  accountType: 'LIVE' | 'DEMO';
+  triggerType: 'PRICE' | 'TIME';
+  triggerPrice: number | null;
+  triggerCondition: 'ABOVE' | 'BELOW' | null;
+  triggerAt: string | null;
+  status: PendingOrderStatus;
+  expiresAt: string;
+  tradeId: string | null;
+  failureReason: string | null;
+  triggeredAt: string | null;
+  cancelledAt: string | null;
+  createdAt: string;
+  updatedAt: string;
+}
+
+export interface CreatePendingOrderData {
+  symbol: string;
+  direction: 'UP' | 'DOWN';
+  amount: number;
+  duration: number;
+  marketType: 'forex' | 'crypto' | 'stock' | 'index';
+  triggerType: 'PRICE' | 'TIME';
+  triggerPrice?: number;
+  triggerAt?: string;
+  expiresAt?: string;
+}
+
+export type PriceAlertType = 'CROSS_UP' | 'CROSS_DOWN' | 'PERCENT_CHANGE' | 'RSI_ABOVE' | 'RSI_BELOW';
+export type PriceAlertMode = 'ONE_SHOT' | 'RECURRING';
+
+export interface PriceAlert {
+  id: string;
+  userId: string;
+  symbol: string;
+  type: PriceAlertType;
+  targetPrice: number | null;
+  percentChange: number | null;
+  windowMinutes: number | null;
+  rsiPeriod: number | null;
+  rsiResolution: number | null; // Candle size in seconds
+  rsiThreshold: number | null;
+  mode: PriceAlertMode;
+  cooldownMinutes: number;
+  notifyEmail: boolean;
+  note: string | null;
+  isActive: boolean;
+  triggerCount: number;
+  lastTriggeredAt: string | null;
+  createdAt: string;
+  updatedAt: string;
+}
+
+export interface CreatePriceAlertData {
+  symbol: string;
+  type: PriceAlertType;
+  targetPrice?: number;
+  percentChange?: number;
+  windowMinutes?: number;
+  rsiPeriod?: number;
+  rsiResolution?: number;
+  rsiThreshold?: number;
+  mode?: PriceAlertMode;
+  cooldownMinutes?: number;
+  notifyEmail?: boolean;
+  note?: string | null;
+}
+
+export interface PriceAlertEvent {
+  id: string;
+  alertId: string;
+  userId: string;
+  symbol: string;
+  type: PriceAlertType;
+  message: string;
+  price: number;
+  value: number | null;
+  emailSent: boolean;
+  isRead: boolean;
+  createdAt: string;
 }
 
 export interface PlaceTradeData {
@@ -87,6 +238,7 @@ export interface TradeStats {
   totalTrades: number;
   wonTrades: number;
   lostTrades: number;
+  drawTrades: number;
   totalProfit: number;
   winRate: number;
 }
@@ -111,6 +263,16 @@ export interface MarketAsset {
   payoutPercent: number;
 }
 
+export interface PayoutQuote {
+  symbol: string;
+  marketType: string | null;
+  duration: number;
+  payoutPercent: number;
+  source: 'RULE' | 'OTC_CONFIG' | 'MARKET_CONFIG' | 'ASSET' | 'DEFAULT';
+  ruleId: string | null;
+  ruleName: string | null;
+}
+
 export interface OHLCBar {
   time: number;
   open: number;
@@ -171,6 +333,16 @@ export interface TwoFactorPendingResponse {
   userId: string;
 }
 
+const IDEMPOTENT_RETRY_LIMIT = 2;
+const IDEMPOTENT_RETRY_DELAY_MS = 500;
+
+// URL segment for each synced chart layout kind
+const CHART_LAYOUT_PATHS: Record<ChartLayoutKind, string> = {
+  SETTINGS: 'settings',
+  DRAWINGS: 'drawings',
+  TEMPLATE: 'templates',
+};
+
 class ApiClient {
   private client: AxiosInstance;
   private token: string | null = null;
@@ -245,6 +417,25 @@ class ApiClient {
     return response.data;
   }
 
+  // POST with an Idempotency-Key so a retried request never moves money twice.
+  // The same key is reused when the request is resent after a network failure;
+  // the server replays the original response instead of executing it again.
+  private async postIdempotent<T>(url: string, data = {}, idempotencyKey: string = crypto.randomUUID()): Promise<T> {
+    const config = { headers: { 'Idempotency-Key': idempotencyKey } };
+
+    for (let attempt = 0; ; attempt++) {
+      try {
+        return await this.post<T>(url, data, config);
+      } catch (error) {
+        const isNetworkError = axios.isAxiosError(error) && !error.response;
+        if (!isNetworkError || attempt >= IDEMPOTENT_RETRY_LIMIT) {
+          throw error;
+        }
+        await new Promise(resolve => setTimeout(resolve, IDEMPOTENT_RETRY_DELAY_MS * (attempt + 1)));
+      }
+    }
+  }
+
   async put<T>(url: string, data = {}, config = {}) {
     const response = await this.client.put<T>(url, data, config);
     return response.data;
@@ -260,8 +451,9 @@ class ApiClient {
     return response.data;
   }
 
-  async placeTrade(data: PlaceTradeData): Promise<ApiTrade> {
-    const response = await this.post<ApiResponse<ApiTrade>>('/trades', data);
+  // Pass the key of a WebSocket attempt so a fallback can't place the trade twice
+  async placeTrade(data: PlaceTradeData, idempotencyKey?: string): Promise<ApiTrade> {
+    const response = await this.postIdempotent<ApiResponse<ApiTrade>>('/trades', data, idempotencyKey);
     return response.data;
   }
 
@@ -302,6 +494,7 @@ class ApiClient {
       totalTrades: 0,
       wonTrades: 0,
       lostTrades: 0,
+      drawTrades: 0,
       totalProfit: 0,
       winRate: 0,
     };
@@ -312,6 +505,89 @@ class ApiClient {
     return response?.data || null;
   }
 
+  async getTradeReplay(tradeId: string): Promise<TradeReplay> {
+    const response = await this.get<ApiResponse<TradeReplay>>(`/trades/${tradeId}/replay`);
+    return response.data;
+  }
+
+  async getCloseQuote(tradeId: string): Promise<EarlyCloseQuote> {
+    const response = await this.post<ApiResponse<{ quote: EarlyCloseQuote }>>(`/trades/${tradeId}/close`, {});
+    return response.data.quote;
+  }
+
+  async acceptCloseQuote(tradeId: string, quoteId: string): Promise<ApiTrade> {
+    const response = await this.postIdempotent<ApiResponse<{ quote: EarlyCloseQuote; trade: ApiTrade }>>(
+      `/trades/${tradeId}/close`,
+      { quoteId }
+    );
+    return response.data.trade;
+  }
+
+  async getPendingOrders(status?: Lowercase<PendingOrderStatus>): Promise<PendingOrder[]> {
+    const query = status ? `?status=${status}` : '';
+    const response = await this.safeGet<ApiResponse<PendingOrder[]>>(`/pending-orders${query}`);
+    return response?.data || [];
+  }
+
+  async createPendingOrder(data: CreatePendingOrderData): Promise<PendingOrder> {
+    const response = await this.postIdempotent<ApiResponse<PendingOrder>>('/pending-orders', data);
+    return response.data;
+  }
+
+  async updatePendingOrder(
+    orderId: string,
+    data: Partial<Pick<CreatePendingOrderData, 'amount' | 'duration' | 'triggerPrice' | 'triggerAt' | 'expiresAt'>>
+  ): Promise<PendingOrder> {
+    const response = await this.patch<ApiResponse<PendingOrder>>(`/pending-orders/${orderId}`, data);
+    return response.data;
+  }
+
+  async cancelPendingOrder(orderId: string): Promise<PendingOrder> {
+    const response = await this.delete<ApiResponse<PendingOrder>>(`/pending-orders/${orderId}`);
+    return response.data;
+  }
+
+  async getPriceAlerts(status?: 'active' | 'inactive', symbol?: string): Promise<PriceAlert[]> {
+    const params = new URLSearchParams();
+    if (status) params.append('status', status);
+    if (symbol) params.append('symbol', symbol);
+    const query = params.toString() ? `?${params.toString()}` : '';
+    const response = await this.safeGet<ApiResponse<PriceAlert[]>>(`/alerts${query}`);
+    return response?.data || [];
+  }
+
+  async createPriceAlert(data: CreatePriceAlertData): Promise<PriceAlert> {
+    const response = await this.post<ApiResponse<PriceAlert>>('/alerts', data);
+    return response.data;
+  }
+
+  async updatePriceAlert(
+    alertId: string,
+    data: Partial<Omit<CreatePriceAlertData, 'symbol' | 'type'>> & { isActive?: boolean }
+  ): Promise<PriceAlert> {
+    const response = await this.patch<ApiResponse<PriceAlert>>(`/alerts/${alertId}`, data);
+    return response.data;
+  }
+
+  async deletePriceAlert(alertId: string): Promise<void> {
+    await this.delete(`/alerts/${alertId}`);
+  }
+
+  async getPriceAlertInbox(unreadOnly = false, limit = 50): Promise<{ events: PriceAlertEvent[]; unreadCount: number }> {
+    const response = await this.safeGet<ApiResponse<PriceAlertEvent[]> & { unreadCount: number }>(
+      `/alerts/inbox?limit=${limit}${unreadOnly ? '&unread=true' : ''}`
+    );
+    return { events: response?.data || [], unreadCount: response?.unreadCount || 0 };
+  }
+
+  async markPriceAlertEventRead(eventId: string): Promise<void> {
+    await this.post(`/alerts/inbox/${eventId}/read`);
+  }
+
+  async markAllPriceAlertEventsRead(): Promise<void> {
+    await this.post('/alerts/inbox/read-all');
+  }
+
   async clearTradeHistory(): Promise<{ deletedCount: number }> {
     const response = await this.delete<ApiResponse<{ deletedCount: number }>>('/trades/history');
     return response.data;
@@ -375,6 +651,17 @@ class ApiClient {
     }
   }
 
+  async getPayoutQuote(symbol: string, duration: number): Promise<PayoutQuote | null> {
+    try {
+      const response = await this.get<ApiResponse<PayoutQuote>>(
+        `/market/payout/${encodeURIComponent(symbol)}?duration=${duration}`
+      );
+      return response.data;
+    } catch {
+      return null;
+    }
+  }
+
   async getHistoricalBars(
     symbol: string,
     resolution: number = 60,
@@ -558,6 +845,7 @@ class ApiClient {
       pendingDeposits: number;
       pendingWithdrawals: number;
     };
+    tradingLimits: TradingLimits;
   }> {
     const response = await this.get<ApiResponse<{
       user: AdminUserDetail;
@@ -583,10 +871,16 @@ class ApiClient {
         pendingDeposits: number;
         pendingWithdrawals: number;
       };
+      tradingLimits: TradingLimits;
     }>>(`/admin/users/${userId}/full`);
     return response.data;
   }
 
+  async getAdminTradeReplay(userId: string, tradeId: string): Promise<TradeReplay> {
+    const response = await this.get<ApiResponse<TradeReplay>>(`/admin/users/${userId}/trades/${tradeId}/replay`);
+    return response.data;
+  }
+
   async getUserLiveTrades(userId: string): Promise<{
     id: string;
     symbol: string;
@@ -663,7 +957,7 @@ class ApiClient {
 
   async updateMarketConfig(
     symbol: string,
-    config: Partial<Pick<MarketConfig, 'isActive' | 'payoutPercent' | 'minTradeAmount' | 'maxTradeAmount' | 'volatilityMode'>>
+    config: Partial<Pick<MarketConfig, 'isActive' | 'payoutPercent' | 'minTradeAmount' | 'maxTradeAmount' | 'volatilityMode' | 'drawPolicy' | 'exchange'>>
   ): Promise<MarketConfig> {
     const response = await this.patch<ApiResponse<MarketConfig>>(`/admin/markets/${encodeURIComponent(symbol)}`, config);
     return response.data;
@@ -674,6 +968,44 @@ class ApiClient {
     return response.data;
   }
 
+  async getFeedHealth(): Promise<FeedHealthReport> {
+    const response = await this.get<ApiResponse<FeedHealthReport>>('/admin/markets/feed-health');
+    return response.data;
+  }
+
+  async getMarketCalendar(): Promise<MarketCalendar> {
+    const response = await this.get<ApiResponse<MarketCalendar>>('/admin/markets/sessions');
+    return response.data;
+  }
+
+  async createMarketSession(
+    data: Omit<MarketSession, 'id' | 'isActive' | 'createdAt' | 'updatedAt'> & { isActive?: boolean }
+  ): Promise<MarketSession> {
+    const response = await this.post<ApiResponse<MarketSession>>('/admin/markets/sessions', data);
+    return response.data;
+  }
+
+  async updateMarketSession(
+    id: string,
+    data: Partial<Omit<MarketSession, 'id' | 'createdAt' | 'updatedAt'>>
+  ): Promise<MarketSession> {
+    const response = await this.patch<ApiResponse<MarketSession>>(`/admin/markets/sessions/${id}`, data);
+    return response.data;
+  }
+
+  async deleteMarketSession(id: string): Promise<void> {
+    await this.delete(`/admin/markets/sessions/${id}`);
+  }
+
+  async createMarketHoliday(data: Omit<MarketHoliday, 'id' | 'createdAt'>): Promise<MarketHoliday> {
+    const response = await this.post<ApiResponse<MarketHoliday>>('/admin/markets/holidays', data);
+    return response.data;
+  }
+
+  async deleteMarketHoliday(id: string): Promise<void> {
+    await this.delete(`/admin/markets/holidays/${id}`);
+  }
+
   async getSystemSettings(): Promise<SystemSetting[]> {
     const response = await this.get<ApiResponse<SystemSetting[]>>('/admin/settings');
     return response.data;
@@ -699,15 +1031,23 @@ class ApiClient {
     phoneNumber: string;
     mobileProvider: MobileProvider;
   }): Promise<Deposit> {
-    const response = await this.post<ApiResponse<Deposit>>('/deposits/mobile-money', data);
+    const response = await this.postIdempotent<ApiResponse<Deposit>>('/deposits/mobile-money', data);
     return response.data;
   }
 
   async createCryptoDeposit(data: {
     amount: number;
     cryptoCurrency: CryptoCurrency;
+    network?: string;
   }): Promise<Deposit> {
-    const response = await this.post<ApiResponse<Deposit>>('/deposits/crypto', data);
+    const response = await this.postIdempotent<ApiResponse<Deposit>>('/deposits/crypto', data);
+    return response.data;
+  }
+
+  async getCryptoDepositAddress(cryptoCurrency: string, network?: string): Promise<CryptoDepositAddress> {
+    const params = new URLSearchParams({ cryptoCurrency });
+    if (network) params.append('network', network);
+    const response = await this.get<ApiResponse<CryptoDepositAddress>>(`/deposits/crypto/address?${params.toString()}`);
     return response.data;
   }
 
@@ -738,6 +1078,7 @@ class ApiClient {
     status?: DepositStatus;
     method?: DepositMethod;
     userId?: string;
+    review?: boolean;
     page?: number;
     limit?: number;
   }): Promise<PaginatedResponse<Deposit>> {
@@ -745,6 +1086,7 @@ class ApiClient {
     if (options?.status) params.append('status', options.status);
     if (options?.method) params.append('method', options.method);
     if (options?.userId) params.append('userId', options.userId);
+    if (options?.review) params.append('review', 'true');
     if (options?.page) params.append('page', options.page.toString());
     if (options?.limit) params.append('limit', options.limit.toString());
     const queryStr = params.toString();
@@ -812,6 +1154,12 @@ class ApiClient {
     return response.data;
   }
 
+  // Trading hours of every non-OTC symbol
+  async getMarketSessions(): Promise<MarketSessionsOverview> {
+    const response = await this.get<ApiResponse<MarketSessionsOverview>>('/market/sessions');
+    return response.data;
+  }
+
   // Get current user profile (refreshes balance from server)
   async getProfile(): Promise<{ id: string; email: string; name: string; role: 'USER' | 'ADMIN' | 'SUPERADMIN'; liveBalance: number; demoBalance: number; practiceBalance: number; activeAccountType: 'LIVE' | 'DEMO'; emailVerified: boolean; kycStatus: 'NOT_SUBMITTED' | 'PENDING' | 'APPROVED' | 'REJECTED' }> {
     const response = await this.get<ApiResponse<{ user: { id: string; email: string; name: string; role: 'USER' | 'ADMIN' | 'SUPERADMIN'; liveBalance: number; demoBalance: number; practiceBalance: number; activeAccountType: 'LIVE' | 'DEMO'; emailVerified: boolean; kycStatus: 'NOT_SUBMITTED' | 'PENDING' | 'APPROVED' | 'REJECTED' } }>>('/auth/me');
@@ -824,7 +1172,7 @@ class ApiClient {
     phoneNumber: string;
     mobileProvider: MobileProvider;
   }): Promise<Withdrawal> {
-    const response = await this.post<ApiResponse<Withdrawal>>('/withdrawals/mobile-money', data);
+    const response = await this.postIdempotent<ApiResponse<Withdrawal>>('/withdrawals/mobile-money', data);
     return response.data;
   }
 
@@ -834,7 +1182,7 @@ class ApiClient {
     walletAddress: string;
     network: string;
   }): Promise<Withdrawal> {
-    const response = await this.post<ApiResponse<Withdrawal>>('/withdrawals/crypto', data);
+    const response = await this.postIdempotent<ApiResponse<Withdrawal>>('/withdrawals/crypto', data);
     return response.data;
   }
 
@@ -855,6 +1203,11 @@ class ApiClient {
     return response.data;
   }
 
+  async cancelWithdrawal(withdrawalId: string): Promise<Withdrawal> {
+    const response = await this.post<ApiResponse<Withdrawal>>(`/withdrawals/${withdrawalId}/cancel`);
+    return response.data;
+  }
+
   // Withdrawal Verification Methods
   async sendWithdrawalVerificationCode(data: { amount: number; method: string }): Promise<void> {
     await this.post<ApiResponse<void>>('/withdrawals/send-verification', data);
@@ -908,6 +1261,74 @@ class ApiClient {
     return response.data;
   }
 
+  async reviewWithdrawal(withdrawalId: string, adminNote?: string): Promise<Withdrawal> {
+    const response = await this.post<ApiResponse<Withdrawal>>(`/withdrawals/admin/${withdrawalId}/review`, { adminNote });
+    return response.data;
+  }
+
+  async markWithdrawalProcessing(
+    withdrawalId: string,
+    data: { payoutReference?: string; adminNote?: string }
+  ): Promise<Withdrawal> {
+    const response = await this.post<ApiResponse<Withdrawal>>(`/withdrawals/admin/${withdrawalId}/processing`, data);
+    return response.data;
+  }
+
+  async completeWithdrawal(withdrawalId: string, formData: FormData): Promise<Withdrawal> {
+    const response = await this.post<ApiResponse<Withdrawal>>(`/withdrawals/admin/${withdrawalId}/complete`, formData, {
+      headers: { 'Content-Type': 'multipart/form-data' },
+    });
+    return response.data;
+  }
+
+  async failWithdrawal(withdrawalId: string, reason: string): Promise<Withdrawal> {
+    const response = await this.post<ApiResponse<Withdrawal>>(`/withdrawals/admin/${withdrawalId}/fail`, { reason });
+    return response.data;
+  }
+
+  async getWithdrawalRules(): Promise<WithdrawalRuleSettings> {
+    const response = await this.get<ApiResponse<WithdrawalRuleSettings>>('/withdrawals/admin/rules');
+    return response.data;
+  }
+
+  async updateWithdrawalRules(
+    data: Partial<Omit<WithdrawalRuleSettings, 'id' | 'updatedAt'>>
+  ): Promise<WithdrawalRuleSettings> {
+    const response = await this.put<ApiResponse<WithdrawalRuleSettings>>('/withdrawals/admin/rules', data);
+    return response.data;
+  }
+
+  // Bonus API Methods (User)
+  async getMyBonuses(): Promise<{ summary: BonusSummary; bonuses: UserBonus[] }> {
+    const response = await this.get<ApiResponse<{ summary: BonusSummary; bonuses: UserBonus[] }>>('/bonuses/my-bonuses');
+    return response.data;
+  }
+
+  async claimPromoCode(code: string): Promise<UserBonus> {
+    const response = await this.post<ApiResponse<UserBonus>>('/bonuses/claim', { code });
+    return response.data;
+  }
+
+  // Bonus API Methods (Admin)
+  async getPromotions(): Promise<Promotion[]> {
+    const response = await this.get<ApiResponse<Promotion[]>>('/bonuses/admin/promotions');
+    return response.data;
+  }
+
+  async createPromotion(data: PromotionInput): Promise<Promotion> {
+    const response = await this.post<ApiResponse<Promotion>>('/bonuses/admin/promotions', data);
+    return response.data;
+  }
+
+  async updatePromotion(id: string, data: Partial<PromotionInput>): Promise<Promotion> {
+    const response = await this.patch<ApiResponse<Promotion>>(`/bonuses/admin/promotions/${id}`, data);
+    return response.data;
+  }
+
+  async deletePromotion(id: string): Promise<void> {
+    await this.delete(`/bonuses/admin/promotions/${id}`);
+  }
+
   // Payment Method API Methods (Public)
   async getActivePaymentMethods(): Promise<PaymentMethod[]> {
     const response = await this.get<ApiResponse<PaymentMethod[]>>('/payment-methods/active');
@@ -2367,6 +2788,141 @@ Object.assign(ApiClient.prototype, {
     };
   },
 
+  async getTradingLimits(): Promise<TradingLimits> {
+    const response = await api.get<ApiResponse<TradingLimits>>('/user/profile/limits');
+    return response.data;
+  },
+
+  async updateTradingLimits(limits: Partial<TradingLimitValues>): Promise<TradingLimits> {
+    const response = await api.put<ApiResponse<TradingLimits>>('/user/profile/limits', limits);
+    return response.data;
+  },
+
+  async cancelPendingLimitChange(limitType: TradingLimitType): Promise<TradingLimits> {
+    const response = await api.delete<ApiResponse<TradingLimits>>(`/user/profile/limits/pending/${limitType}`);
+    return response.data;
+  },
+
+  async startTradingTimeOut(period: TimeOutPeriod): Promise<TradingLimits> {
+    const response = await api.post<ApiResponse<TradingLimits>>('/user/profile/limits/time-out', { period });
+    return response.data;
+  },
+
+  async startSelfExclusion(period: SelfExclusionPeriod): Promise<TradingLimits> {
+    const response = await api.post<ApiResponse<TradingLimits>>('/user/profile/limits/self-exclusion', {
+      period,
+      confirm: true,
+    });
+    return response.data;
+  },
+
+  async downloadAccountStatement(options: {
+    format: 'pdf' | 'csv';
+    accountType?: 'LIVE' | 'DEMO';
+    from?: string;
+    to?: string;
+  }): Promise<Blob> {
+    const params = new URLSearchParams({ format: options.format });
+    if (options.accountType) params.append('accountType', options.accountType);
+    if (options.from) params.append('from', options.from);
+    if (options.to) params.append('to', options.to);
+
+    return api.get<Blob>(`/user/profile/statement?${params.toString()}`, { responseType: 'blob' });
+  },
+
+  // ============= Notification Center =============
+
+  async getNotifications(options?: {
+    unreadOnly?: boolean;
+    type?: NotificationType;
+    limit?: number;
+    offset?: number;
+  }): Promise<{ data: UserNotification[]; unreadCount: number; total: number }> {
+    const params = new URLSearchParams();
+    if (options?.unreadOnly) params.append('unread', 'true');
+    if (options?.type) params.append('type', options.type);
+    if (options?.limit) params.append('limit', options.limit.toString());
+    if (options?.offset) params.append('offset', options.offset.toString());
+    const queryStr = params.toString();
+
+    const response = await api.get<
+      ApiResponse<UserNotification[]> & { unreadCount: number; pagination: { total: number } }
+    >(`/notifications${queryStr ? `?${queryStr}` : ''}`);
+    return {
+      data: response.data,
+      unreadCount: response.unreadCount,
+      total: response.pagination.total,
+    };
+  },
+
+  async markNotificationRead(notificationId: string): Promise<void> {
+    await api.post(`/notifications/${notificationId}/read`);
+  },
+
+  async markAllNotificationsRead(): Promise<void> {
+    await api.post('/notifications/read-all');
+  },
+
+  async deleteNotification(notificationId: string): Promise<void> {
+    await api.delete(`/notifications/${notificationId}`);
+  },
+
+  async clearNotifications(): Promise<void> {
+    await api.delete('/notifications');
+  },
+
+  async getNotificationPreferences(): Promise<NotificationPreference[]> {
+    const response = await api.get<ApiResponse<NotificationPreference[]>>('/notifications/preferences');
+    return response.data;
+  },
+
+  async updateNotificationPreferences(
+    preferences: Array<Pick<NotificationPreference, 'type'> & Partial<Pick<NotificationPreference, 'inApp' | 'email'>>>
+  ): Promise<NotificationPreference[]> {
+    const response = await api.put<ApiResponse<NotificationPreference[]>>('/notifications/preferences', {
+      preferences,
+    });
+    return response.data;
+  },
+
+  // ============= Chart Layouts =============
+
+  async getChartLayouts(): Promise<ChartLayoutDocument[]> {
+    const response = await api.get<ApiResponse<ChartLayoutDocument[]>>('/user/profile/chart-layouts');
+    return response.data;
+  },
+
+  async saveChartLayout(
+    kind: ChartLayoutKind,
+    key: string,
+    data: unknown,
+    baseVersion: number
+  ): Promise<ChartLayoutSaveResult> {
+    try {
+      const response = await api.put<ApiResponse<ChartLayoutDocument>>(
+        `/user/profile/chart-layouts/${CHART_LAYOUT_PATHS[kind]}/${encodeURIComponent(key)}`,
+        { data, baseVersion }
+      );
+      return { status: 'saved', layout: response.data };
+    } catch (error) {
+      if (axios.isAxiosError(error) && error.response?.status === 409) {
+        const body = error.response.data as { data?: ChartLayoutDocument | null };
+        return { status: 'conflict', current: body.data ?? null };
+      }
+      throw error;
+    }
+  },
+
+  async deleteChartLayout(kind: ChartLayoutKind, key: string): Promise<void> {
+    try {
+      await api.delete(`/user/profile/chart-layouts/${CHART_LAYOUT_PATHS[kind]}/${encodeURIComponent(key)}`);
+    } catch (error) {
+      // Already deleted on another device
+      if (axios.isAxiosError(error) && error.response?.status === 404) return;
+      throw error;
+    }
+  },
+
   // ============= Financial Management =============
 
   async getFinancialSummary(): Promise<FinancialSummary> {
@@ -2881,6 +3437,41 @@ interface ApiClient {
     limit?: number;
     offset?: number;
   }): Promise<{ data: LoginHistoryItem[]; total: number }>;
+  getTradingLimits(): Promise<TradingLimits>;
+  updateTradingLimits(limits: Partial<TradingLimitValues>): Promise<TradingLimits>;
+  cancelPendingLimitChange(limitType: TradingLimitType): Promise<TradingLimits>;
+  startTradingTimeOut(period: TimeOutPeriod): Promise<TradingLimits>;
+  startSelfExclusion(period: SelfExclusionPeriod): Promise<TradingLimits>;
+  downloadAccountStatement(options: {
+    format: 'pdf' | 'csv';
+    accountType?: 'LIVE' | 'DEMO';
+    from?: string;
+    to?: string;
+  }): Promise<Blob>;
+  // Notification Center
+  getNotifications(options?: {
+    unreadOnly?: boolean;
+    type?: NotificationType;
+    limit?: number;
+    offset?: number;
+  }): Promise<{ data: UserNotification[]; unreadCount: number; total: number }>;
+  markNotificationRead(notificationId: string): Promise<void>;
+  markAllNotificationsRead(): Promise<void>;
+  deleteNotification(notificationId: string): Promise<void>;
+  clearNotifications(): Promise<void>;
+  getNotificationPreferences(): Promise<NotificationPreference[]>;
+  updateNotificationPreferences(
+    preferences: Array<Pick<NotificationPreference, 'type'> & Partial<Pick<NotificationPreference, 'inApp' | 'email'>>>
+  ): Promise<NotificationPreference[]>;
+  // Chart Layouts
+  getChartLayouts(): Promise<ChartLayoutDocument[]>;
+  saveChartLayout(
+    kind: ChartLayoutKind,
+    key: string,
+    data: unknown,
+    baseVersion: number
+  ): Promise<ChartLayoutSaveResult>;
+  deleteChartLayout(kind: ChartLayoutKind, key: string): Promise<void>;
   // Financial Management
   getFinancialSummary(): Promise<FinancialSummary>;
   getFinancialRealTimeMetrics(): Promise<RealTimeMetrics>;
@@ -3003,6 +3594,9 @@ export interface DailySnapshot {
   depositCommissionCosts: number;
   tradeCommissionCosts: number;
   affiliateCount: number;
+  bonusCosts: number;
+  bonusesGranted: number;
+  bonusesForfeited: number;
   netRevenue: number;
   operatingCosts: number;
   netProfit: number;
@@ -3042,6 +3636,7 @@ export interface MonthlyReport {
   totalRevenue: number;
   totalVolume: number;
   totalTrades: number;
+  totalBonusCosts: number;
   netProfit: number;
   profitMargin: number;
   totalDeposits: number;
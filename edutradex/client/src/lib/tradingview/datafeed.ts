@@ -11,6 +11,15 @@ interface Bar {
   volume?: number;
 }
 
+// Resolutions the server stores candles for (5s, 1m, 5m, 15m, 1h, 4h, 1d)
+const SUPPORTED_RESOLUTIONS = ['5S', '1', '5', '15', '60', '240', 'D'];
+
+interface ServerCandle extends Bar {
+  symbol: string;
+  resolution: number; // seconds
+  volume: number;
+}
+
 interface SymbolInfo {
   name: string;
   description: string;
@@ -69,14 +78,9 @@ class TradingViewDatafeed {
         console.log('[Datafeed] WebSocket connected');
         this.isConnecting = false;
 
-        // Resubscribe to all active symbols
+        // Resubscribe to all active candle streams
         Object.values(this.subscribers).forEach(sub => {
-          if (this.ws && this.ws.readyState === WebSocket.OPEN) {
-            this.ws.send(JSON.stringify({
-              type: 'subscribe',
-              payload: { symbol: sub.symbolInfo.name }
-            }));
-          }
+          this.sendCandleSubscription('subscribe_candles', sub.symbolInfo.name, sub.resolution);
         });
       };
 
@@ -84,8 +88,8 @@ class TradingViewDatafeed {
         try {
           const message = JSON.parse(event.data);
 
-          if (message.type === 'price_update') {
-            this.handlePriceUpdate(message.payload);
+          if (message.type === 'candle_update') {
+            this.handleCandleUpdate(message.payload);
           }
         } catch (error) {
           console.error('[Datafeed] Failed to parse WebSocket message:', error);
@@ -116,80 +120,43 @@ class TradingViewDatafeed {
     }
   }
 
-  private handlePriceUpdate(tick: any): void {
-    const symbol = tick.symbol;
-
-    // Update all subscribers for this symbol
-    Object.entries(this.subscribers).forEach(([uid, sub]) => {
-      if (sub.symbolInfo.name === symbol) {
-        // Convert timestamp to seconds (to match historical bar format)
-        const tickTimeSeconds = Math.floor(new Date(tick.timestamp).getTime() / 1000);
-        const price = tick.price;
-
-        // Get resolution in seconds
-        const resolutionSeconds = this.parseResolution(sub.resolution);
-
-        // Align tick time to bar boundary
-        const barTime = Math.floor(tickTimeSeconds / resolutionSeconds) * resolutionSeconds;
-
-        // Update or create the current bar
-        if (sub.lastBar) {
-          const lastBarTime = sub.lastBar.time;
-
-          if (barTime === lastBarTime) {
-            // Update existing bar - only update high/low/close
-            sub.lastBar.high = Math.max(sub.lastBar.high, price);
-            sub.lastBar.low = Math.min(sub.lastBar.low, price);
-            sub.lastBar.close = price;
-            sub.lastBar.volume = (sub.lastBar.volume || 0) + 1;
-
-            sub.callback({ ...sub.lastBar });
-          } else if (barTime > lastBarTime) {
-            // New bar - use previous close as open for continuity
-            // Check for unrealistic gaps based on asset type
-            const gapPercent = Math.abs(price - sub.lastBar.close) / sub.lastBar.close * 100;
-            const isCrypto = symbol.includes('BTC') || symbol.includes('ETH') || symbol.includes('SOL');
-            const isOTC = symbol.startsWith('OTC_');
-            // OTC and crypto allow larger gaps (1%), forex strict (0.1%)
-            const maxGapPercent = (isCrypto || isOTC) ? 1.0 : 0.1;
-
-            let openPrice = sub.lastBar.close;
-
-            // If gap is too large, use current price as open (prevents giant candles)
-            if (gapPercent > maxGapPercent) {
-              console.warn(`[Datafeed] Large gap detected for ${symbol}: ${gapPercent.toFixed(2)}%, using current price as open`);
-              openPrice = price;
-            }
-
-            const newBar: Bar = {
-              time: barTime,
-              open: openPrice,
-              high: Math.max(openPrice, price),
-              low: Math.min(openPrice, price),
-              close: price,
-              volume: 1
-            };
-            sub.lastBar = newBar;
-            sub.callback(newBar);
-          }
-          // Ignore ticks older than lastBar (barTime < lastBarTime)
-        } else {
-          // First tick - create initial bar
-          const newBar: Bar = {
-            time: barTime,
-            open: price,
-            high: price,
-            low: price,
-            close: price,
-            volume: 1
-          };
-          sub.lastBar = newBar;
-          sub.callback(newBar);
-        }
-      }
+  /**
+   * Candles are built on the server; pass each update straight to the chart
+   */
+  private handleCandleUpdate(candle: ServerCandle): void {
+    Object.values(this.subscribers).forEach(sub => {
+      if (sub.symbolInfo.name !== candle.symbol) return;
+      if (this.parseResolution(sub.resolution) !== candle.resolution) return;
+
+      // The chart only accepts updates to its latest bar or newer ones
+      if (sub.lastBar && candle.time < sub.lastBar.time) return;
+
+      const bar: Bar = {
+        time: candle.time,
+        open: candle.open,
+        high: candle.high,
+        low: candle.low,
+        close: candle.close,
+        volume: candle.volume,
+      };
+      sub.lastBar = bar;
+      sub.callback({ ...bar });
     });
   }
 
+  private sendCandleSubscription(
+    type: 'subscribe_candles' | 'unsubscribe_candles',
+    symbol: string,
+    resolution: string
+  ): void {
+    if (this.ws && this.ws.readyState === WebSocket.OPEN) {
+      this.ws.send(JSON.stringify({
+        type,
+        payload: { symbol, resolution: this.parseResolution(resolution) }
+      }));
+    }
+  }
+
   private parseResolution(resolution: string): number {
     // Convert TradingView resolution to SECONDS (to match historical bar format)
     if (resolution.endsWith('S')) {
@@ -206,7 +173,7 @@ class TradingViewDatafeed {
   onReady(callback: (config: any) => void): void {
     setTimeout(() => {
       callback({
-        supported_resolutions: ['1S', '5S', '15S', '30S', '1', '5', '15', '30', '60', '240', 'D'],
+        supported_resolutions: SUPPORTED_RESOLUTIONS,
         supports_marks: false,
         supports_timescale_marks: false,
         supports_time: true,
@@ -269,9 +236,9 @@ class TradingViewDatafeed {
           pricescale: pricescale,
           has_intraday: true,
           has_seconds: true,
-          seconds_multipliers: ['1', '5', '15', '30'],
-          intraday_multipliers: ['1', '5', '15', '30', '60', '240'],
-          supported_resolutions: ['1S', '5S', '15S', '30S', '1', '5', '15', '30', '60', '240', 'D'],
+          seconds_multipliers: ['5'],
+          intraday_multipliers: ['1', '5', '15', '60', '240'],
+          supported_resolutions: SUPPORTED_RESOLUTIONS,
           volume_precision: 0,
           data_status: 'streaming',
           format: 'price',
@@ -297,68 +264,40 @@ class TradingViewDatafeed {
     onError: (error: string) => void
   ): Promise<void> {
     try {
-      // Convert resolution to seconds
-      let resolutionSeconds = 60; // default 1 minute
-      if (resolution.endsWith('S')) {
-        resolutionSeconds = parseInt(resolution);
-      } else if (resolution === 'D') {
-        resolutionSeconds = 86400;
-      } else {
-        resolutionSeconds = parseInt(resolution) * 60;
-      }
+      const resolutionSeconds = this.parseResolution(resolution);
 
-      // Fetch historical bars from our API
+      // The first request asks for the latest bars, including the one still
+      // being built; later ones page back from the oldest bar already loaded
       const response = await api.get<{
         success: boolean;
         data: Bar[];
       }>(`/market/bars/${encodeURIComponent(symbolInfo.name)}`, {
         params: {
           resolution: resolutionSeconds,
-          limit: periodParams.countBack || 300
+          limit: Math.min(periodParams.countBack || 300, 1000),
+          from: periodParams.firstDataRequest ? undefined : periodParams.from,
+          to: periodParams.firstDataRequest ? undefined : periodParams.to,
         }
       });
 
-      if (response.success && response.data.length > 0) {
-        let bars = response.data.filter(bar =>
-          bar.time >= periodParams.from && bar.time <= periodParams.to
-        );
-
-        // Ensure bars are sorted by time ascending
-        bars = bars.sort((a, b) => a.time - b.time);
-
-        // IMPORTANT: Store the last bar for real-time continuity
-        // This ensures live ticks continue from the correct price level
-        if (bars.length > 0) {
-          const lastBar = bars[bars.length - 1];
-
-          // Calculate current bar time boundary
-          const now = Math.floor(Date.now() / 1000);
-          const currentBarTime = Math.floor(now / resolutionSeconds) * resolutionSeconds;
-
-          // If the last historical bar is the current bar, use it directly
-          // Otherwise, we need to handle the transition
-          Object.values(this.subscribers).forEach(sub => {
-            if (sub.symbolInfo.name === symbolInfo.name && sub.resolution === resolution) {
-              // Clone the last bar to avoid mutation issues
-              sub.lastBar = {
-                time: lastBar.time,
-                open: lastBar.open,
-                high: lastBar.high,
-                low: lastBar.low,
-                close: lastBar.close,
-                volume: lastBar.volume || 0
-              };
-
-              console.log(`[Datafeed] Set lastBar for ${symbolInfo.name}: time=${lastBar.time}, close=${lastBar.close}`);
-            }
-          });
-        }
+      const bars = response.success ? response.data : [];
 
-        onResult(bars, { noData: bars.length === 0 });
-      } else {
-        onResult([], { noData: true });
+      if (periodParams.firstDataRequest && bars.length > 0) {
+        const lastBar = bars[bars.length - 1];
+        Object.values(this.subscribers).forEach(sub => {
+          if (sub.symbolInfo.name === symbolInfo.name && sub.resolution === resolution) {
+            sub.lastBar = { ...lastBar };
+          }
+        });
       }
+
+      onResult(bars, { noData: bars.length === 0 });
     } catch (error: any) {
+      // No stored or fallback data for the symbol at all
+      if (error?.response?.status === 404) {
+        onResult([], { noData: true });
+        return;
+      }
       console.error('[Datafeed] Error fetching bars:', error);
       onError(error.message || 'Failed to fetch historical data');
     }
@@ -378,13 +317,8 @@ class TradingViewDatafeed {
       callback: onTick,
     };
 
-    // Subscribe to WebSocket updates for this symbol
-    if (this.ws && this.ws.readyState === WebSocket.OPEN) {
-      this.ws.send(JSON.stringify({
-        type: 'subscribe',
-        payload: { symbol: symbolInfo.name }
-      }));
-    }
+    // Subscribe to live candles for this symbol and resolution
+    this.sendCandleSubscription('subscribe_candles', symbolInfo.name, resolution);
 
     console.log(`[Datafeed] Subscribed to ${symbolInfo.name} with UID ${subscriberUID}`);
   }
@@ -393,17 +327,15 @@ class TradingViewDatafeed {
     const subscriber = this.subscribers[subscriberUID];
 
     if (subscriber) {
-      // Unsubscribe from WebSocket if no other subscribers for this symbol
+      // Unsubscribe from the candle stream if no other chart uses it
       const symbolName = subscriber.symbolInfo.name;
       const hasOtherSubscribers = Object.entries(this.subscribers).some(
-        ([uid, sub]) => uid !== subscriberUID && sub.symbolInfo.name === symbolName
+        ([uid, sub]) =>
+          uid !== subscriberUID && sub.symbolInfo.name === symbolName && sub.resolution === subscriber.resolution
       );
 
-      if (!hasOtherSubscribers && this.ws && this.ws.readyState === WebSocket.OPEN) {
-        this.ws.send(JSON.stringify({
-          type: 'unsubscribe',
-          payload: { symbol: symbolName }
-        }));
+      if (!hasOtherSubscribers) {
+        this.sendCandleSubscription('unsubscribe_candles', symbolName, subscriber.resolution);
       }
 
       delete this.subscribers[subscriberUID];
@@ -253,6 +253,20 @@ export function isMarketOpen(marketType: MarketType): boolean {
   return true;
 }
 
+/**
+ * Compact time until an event, e.g. "2d 4h", "3h 12m" or "45m"
+ */
+export function formatCountdown(ms: number): string {
+  const totalMinutes = Math.max(1, Math.ceil(ms / 60000));
+  const days = Math.floor(totalMinutes / 1440);
+  const hours = Math.floor((totalMinutes % 1440) / 60);
+  const minutes = totalMinutes % 60;
+
+  if (days > 0) return `${days}d ${hours}h`;
+  if (hours > 0) return `${hours}h ${minutes}m`;
+  return `${minutes}m`;
+}
+
 /**
  * Get market status text
  */
@@ -0,0 +1,161 @@
+import { api, ApiTrade, PlaceTradeData } from '@/lib/api';
+
+/**
+ * Trading over the price WebSocket.
+ *
+ * useWebSocket attaches its socket once the server confirms authentication and
+ * forwards 'response' messages here. Requests carry a requestId that the
+ * server echoes back. When the socket is unavailable, drops or does not answer
+ * in time, placeTrade falls back to REST with the same Idempotency-Key, so the
+ * trade is placed at most once whichever path reaches the server.
+ */
+
+const REQUEST_TIMEOUT_MS = 5000;
+
+export type TradingRequestType = 'place_trade' | 'close_trade' | 'get_active_trades' | 'get_balance';
+
+export interface TradingResponsePayload {
+  requestId: string | null;
+  requestType: TradingRequestType | null;
+  status: number;
+  success: boolean;
+  data?: unknown;
+  error?: string;
+  details?: { field: string; message: string }[];
+  replayed?: boolean;
+}
+
+export interface SocketBalance {
+  liveBalance: number;
+  demoBalance: number;
+  practiceBalance: number;
+  activeAccountType: 'LIVE' | 'DEMO';
+}
+
+// Shaped like an Axios error so getErrorMessage() reads it the same way
+export class TradingRequestError extends Error {
+  response: { status: number; data: TradingResponsePayload };
+
+  constructor(payload: TradingResponsePayload) {
+    super(payload.error || 'Request failed');
+    this.name = 'TradingRequestError';
+    this.response = { status: payload.status, data: payload };
+  }
+}
+
+// The request never got an answer - it may or may not have run
+class SocketUnavailableError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'SocketUnavailableError';
+  }
+}
+
+interface PendingRequest {
+  resolve: (payload: TradingResponsePayload) => void;
+  reject: (error: Error) => void;
+  timer: ReturnType<typeof setTimeout>;
+}
+
+class WsTradingChannel {
+  private socket: WebSocket | null = null;
+  private pending: Map<string, PendingRequest> = new Map();
+
+  get isAvailable(): boolean {
+    return this.socket?.readyState === WebSocket.OPEN;
+  }
+
+  attach(socket: WebSocket): void {
+    this.socket = socket;
+  }
+
+  /**
+   * Called when the socket closes or the user logs out. Requests still waiting
+   * are failed so their callers can fall back to REST.
+   */
+  detach(socket?: WebSocket): void {
+    if (socket && this.socket !== socket) return;
+    this.socket = null;
+
+    for (const [requestId, request] of this.pending) {
+      clearTimeout(request.timer);
+      request.reject(new SocketUnavailableError('WebSocket closed before the server answered'));
+      this.pending.delete(requestId);
+    }
+  }
+
+  handleResponse(payload: TradingResponsePayload): void {
+    if (!payload?.requestId) return;
+    const request = this.pending.get(payload.requestId);
+    if (!request) return; // Timed out already
+
+    clearTimeout(request.timer);
+    this.pending.delete(payload.requestId);
+    request.resolve(payload);
+  }
+
+  /**
+   * Send one request and resolve with its data; rejects with a
+   * TradingRequestError when the server answers with an error
+   */
+  async request<T>(type: TradingRequestType, payload?: unknown, idempotencyKey?: string): Promise<T> {
+    const response = await this.send(type, payload, idempotencyKey);
+    if (!response.success) {
+      throw new TradingRequestError(response);
+    }
+    return response.data as T;
+  }
+
+  async placeTrade(data: PlaceTradeData): Promise<ApiTrade> {
+    // Same body on both paths - the server hashes it to match retries
+    const body: PlaceTradeData = {
+      symbol: data.symbol,
+      direction: data.direction,
+      amount: data.amount,
+      duration: data.duration,
+      entryPrice: data.entryPrice,
+      marketType: data.marketType,
+    };
+    const idempotencyKey = crypto.randomUUID();
+
+    if (this.isAvailable) {
+      try {
+        const response = await this.send('place_trade', body, idempotencyKey);
+        // A 401 means the socket session went stale - let REST handle the login state
+        if (response.status !== 401) {
+          if (!response.success) throw new TradingRequestError(response);
+          return response.data as ApiTrade;
+        }
+      } catch (error) {
+        if (!(error instanceof SocketUnavailableError)) throw error;
+      }
+    }
+
+    return api.placeTrade(body, idempotencyKey);
+  }
+
+  private send(
+    type: TradingRequestType,
+    payload: unknown,
+    idempotencyKey?: string
+  ): Promise<TradingResponsePayload> {
+    const socket = this.socket;
+    if (!socket || socket.readyState !== WebSocket.OPEN) {
+      return Promise.reject(new SocketUnavailableError('WebSocket is not connected'));
+    }
+
+    const requestId = crypto.randomUUID();
+
+    return new Promise((resolve, reject) => {
+      const timer = setTimeout(() => {
+        this.pending.delete(requestId);
+        reject(new SocketUnavailableError('WebSocket request timed out'));
+      }, REQUEST_TIMEOUT_MS);
+
+      this.pending.set(requestId, { resolve, reject, timer });
+      socket.send(JSON.stringify({ type, requestId, idempotencyKey, payload }));
+    });
+  }
+}
+
+export const wsTrading = new WsTradingChannel();
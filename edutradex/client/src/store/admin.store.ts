@@ -46,7 +46,7 @@ interface AdminActions {
   fetchMarketConfigs: () => Promise<void>;
   updateMarketConfig: (
     symbol: string,
-    config: Partial<Pick<MarketConfig, 'isActive' | 'payoutPercent' | 'minTradeAmount' | 'maxTradeAmount' | 'volatilityMode'>>
+    config: Partial<Pick<MarketConfig, 'isActive' | 'payoutPercent' | 'minTradeAmount' | 'maxTradeAmount' | 'volatilityMode' | 'drawPolicy' | 'exchange'>>
   ) => Promise<void>;
   initializeMarketConfigs: () => Promise<void>;
   fetchSystemSettings: () => Promise<void>;
@@ -156,6 +156,30 @@ export const useAuthStore = create<AuthStore>()(
           console.error('Failed to reset notification store:', error);
         }
 
+        // Clear pending orders to prevent data leakage between users
+        try {
+          const { usePendingOrderStore } = require('./pending-order.store');
+          usePendingOrderStore.getState().resetStore();
+        } catch (error) {
+          console.error('Failed to reset pending order store:', error);
+        }
+
+        // Clear price alerts to prevent data leakage between users
+        try {
+          const { usePriceAlertStore } = require('./price-alert.store');
+          usePriceAlertStore.getState().resetStore();
+        } catch (error) {
+          console.error('Failed to reset price alert store:', error);
+        }
+
+        // Clear the synced chart workspace so the next user starts from their own
+        try {
+          const { useChartStore } = require('./chart.store');
+          useChartStore.getState().resetStore();
+        } catch (error) {
+          console.error('Failed to reset chart store:', error);
+        }
+
         set({
           user: null,
           token: null,
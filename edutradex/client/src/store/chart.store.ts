@@ -1,5 +1,7 @@
 import { create } from 'zustand';
 import { persist } from 'zustand/middleware';
+import { api } from '@/lib/api';
+import type { ChartLayoutDocument, ChartLayoutKind } from '@/types';
 
 type ChartType = 'candlestick' | 'line' | 'area' | 'bars' | 'heikin-ashi';
 export type DrawingTool = 'none' | 'trendline' | 'horizontal' | 'fibonacci' | 'rectangle' | 'ray';
@@ -44,6 +46,11 @@ export interface ChartTemplate {
   showVolume: boolean;
 }
 
+// Template saved by the user - also keeps indicator parameters
+export interface UserChartTemplate extends ChartTemplate {
+  indicatorParams: Record<string, Record<string, number>>;
+}
+
 export const CHART_TEMPLATES: ChartTemplate[] = [
   {
     id: 'clean',
@@ -87,15 +94,6 @@ export const CHART_TEMPLATES: ChartTemplate[] = [
   },
 ];
 
-// Price Alerts
-export interface PriceAlert {
-  id: string;
-  symbol: string;
-  price: number;
-  createdAt: number;
-  triggered: boolean;
-}
-
 const DEFAULT_INDICATORS: IndicatorConfig[] = [
   // Overlay indicators
   { id: 'sma', name: 'SMA', type: 'overlay', enabled: false, color: '#f59e0b', parameters: { period: 20 } },
@@ -112,6 +110,9 @@ const DEFAULT_INDICATORS: IndicatorConfig[] = [
 ];
 
 const DEFAULT_TIMEFRAME: TimeframeOption = { label: '1m', seconds: 60 };
+const MAX_DRAWINGS_PER_SYMBOL = 50;
+const SAVE_DEBOUNCE_MS = 1000;
+const MAX_SAVE_ATTEMPTS = 3;
 
 interface ChartState {
   // Timeframe
@@ -152,14 +153,247 @@ interface ChartState {
   // Chart Templates
   activeTemplateId: string | null;
   applyTemplate: (templateId: string) => void;
+  userTemplates: UserChartTemplate[];
+  saveTemplate: (name: string) => UserChartTemplate;
+  deleteTemplate: (templateId: string) => void;
 
-  // Price Alerts
-  priceAlerts: PriceAlert[];
-  addPriceAlert: (symbol: string, price: number) => void;
-  removePriceAlert: (id: string) => void;
-  clearPriceAlerts: (symbol?: string) => void;
-  getAlertsForSymbol: (symbol: string) => PriceAlert[];
-  markAlertTriggered: (id: string) => void;
+  // Account sync
+  syncWithServer: () => Promise<void>;
+  resetStore: () => void;
+}
+
+// ============= Account sync =============
+// Settings, each symbol's drawings and each saved template are separate server
+// documents. A document is saved SAVE_DEBOUNCE_MS after its last change with the
+// version last seen; when another device saved first, its copy is merged with the
+// changes made here and the save is retried.
+
+interface SyncedIndicator {
+  id: string;
+  enabled: boolean;
+  parameters: Record<string, number>;
+}
+
+interface SettingsDocument {
+  selectedTimeframe: TimeframeOption;
+  chartType: ChartType;
+  indicators: SyncedIndicator[];
+  showVolume: boolean;
+  favoritePairs: FavoritePair[];
+  activeTemplateId: string | null;
+}
+
+interface DrawingsDocument {
+  lines: Omit<DrawnLine, 'symbol'>[];
+}
+
+interface TemplateDocument {
+  name: string;
+  description: string;
+  chartType: ChartType;
+  showVolume: boolean;
+  indicators: SyncedIndicator[];
+}
+
+const SETTINGS_FIELDS = [
+  'selectedTimeframe',
+  'chartType',
+  'indicators',
+  'showVolume',
+  'favoritePairs',
+  'activeTemplateId',
+] as const;
+
+const sync = {
+  started: false,
+  enabled: false,
+  applyingRemote: false, // Set while server data is written to the store, so it is not saved back
+  documents: new Map<string, { version: number; data: unknown }>(), // Last copy seen on the server
+  timers: new Map<string, ReturnType<typeof setTimeout>>(),
+  inFlight: new Map<string, Promise<void>>(),
+};
+
+function documentId(kind: ChartLayoutKind, key: string): string {
+  return `${kind}:${key}`;
+}
+
+function buildDocument(state: ChartState, kind: ChartLayoutKind, key: string): unknown {
+  switch (kind) {
+    case 'SETTINGS':
+      return {
+        selectedTimeframe: state.selectedTimeframe,
+        chartType: state.chartType,
+        indicators: state.indicators.map(({ id, enabled, parameters }) => ({ id, enabled, parameters })),
+        showVolume: state.showVolume,
+        favoritePairs: state.favoritePairs,
+        activeTemplateId: state.activeTemplateId,
+      } satisfies SettingsDocument;
+    case 'DRAWINGS':
+      return {
+        lines: state.drawnLines
+          .filter((line) => line.symbol === key)
+          .map(({ id, type, points, color, createdAt }) => ({ id, type, points, color, createdAt })),
+      } satisfies DrawingsDocument;
+    case 'TEMPLATE': {
+      const template = state.userTemplates.find((t) => t.id === key);
+      if (!template) return null; // Deleted
+      return {
+        name: template.name,
+        description: template.description,
+        chartType: template.chartType,
+        showVolume: template.showVolume,
+        indicators: Object.entries(template.indicatorParams).map(([id, parameters]) => ({
+          id,
+          enabled: template.indicatorIds.includes(id),
+          parameters,
+        })),
+      } satisfies TemplateDocument;
+    }
+  }
+}
+
+function applyDocument(state: ChartState, kind: ChartLayoutKind, key: string, data: unknown): Partial<ChartState> {
+  switch (kind) {
+    case 'SETTINGS': {
+      const settings = data as SettingsDocument;
+      const synced = new Map(settings.indicators.map((ind) => [ind.id, ind]));
+      return {
+        selectedTimeframe: settings.selectedTimeframe,
+        chartType: settings.chartType,
+        // Colors and names stay local so new indicators and restyles still show up
+        indicators: state.indicators.map((ind) => {
+          const saved = synced.get(ind.id);
+          return saved ? { ...ind, enabled: saved.enabled, parameters: { ...ind.parameters, ...saved.parameters } } : ind;
+        }),
+        showVolume: settings.showVolume,
+        favoritePairs: settings.favoritePairs,
+        activeTemplateId: settings.activeTemplateId,
+      };
+    }
+    case 'DRAWINGS': {
+      const { lines } = data as DrawingsDocument;
+      return {
+        drawnLines: [
+          ...state.drawnLines.filter((line) => line.symbol !== key),
+          ...lines.map((line) => ({ ...line, symbol: key })),
+        ],
+      };
+    }
+    case 'TEMPLATE': {
+      const doc = data as TemplateDocument;
+      const template: UserChartTemplate = {
+        id: key,
+        name: doc.name,
+        description: doc.description,
+        indicatorIds: doc.indicators.filter((ind) => ind.enabled).map((ind) => ind.id),
+        chartType: doc.chartType,
+        showVolume: doc.showVolume,
+        indicatorParams: Object.fromEntries(doc.indicators.map((ind) => [ind.id, ind.parameters])),
+      };
+      const exists = state.userTemplates.some((t) => t.id === key);
+      return {
+        userTemplates: exists
+          ? state.userTemplates.map((t) => (t.id === key ? template : t))
+          : [...state.userTemplates, template],
+      };
+    }
+  }
+}
+
+/**
+ * Three-way merge of this device's copy with the server's. Drawings are merged
+ * line by line (additions and removals made here are kept); other documents
+ * field by field, where fields changed here win.
+ */
+function mergeDocument(kind: ChartLayoutKind, base: unknown, local: unknown, server: unknown): unknown {
+  if (kind === 'DRAWINGS') {
+    const baseIds = new Set(((base as DrawingsDocument | undefined)?.lines ?? []).map((line) => line.id));
+    const localLines = (local as DrawingsDocument).lines;
+    const localIds = new Set(localLines.map((line) => line.id));
+    const serverLines = (server as DrawingsDocument).lines;
+    const serverIds = new Set(serverLines.map((line) => line.id));
+
+    const lines = [
+      ...serverLines.filter((line) => !baseIds.has(line.id) || localIds.has(line.id)),
+      ...localLines.filter((line) => !baseIds.has(line.id) && !serverIds.has(line.id)),
+    ]
+      .sort((a, b) => a.createdAt - b.createdAt)
+      .slice(-MAX_DRAWINGS_PER_SYMBOL);
+    return { lines } satisfies DrawingsDocument;
+  }
+
+  const baseFields = (base ?? {}) as Record<string, unknown>;
+  const merged = { ...(server as Record<string, unknown>) };
+  for (const [field, value] of Object.entries(local as Record<string, unknown>)) {
+    if (JSON.stringify(value) !== JSON.stringify(baseFields[field])) {
+      merged[field] = value;
+    }
+  }
+  return merged;
+}
+
+function applyRemote(kind: ChartLayoutKind, key: string, data: unknown): void {
+  sync.applyingRemote = true;
+  try {
+    useChartStore.setState((state) => applyDocument(state, kind, key, data));
+  } finally {
+    sync.applyingRemote = false;
+  }
+}
+
+async function pushDocument(kind: ChartLayoutKind, key: string): Promise<void> {
+  const id = documentId(kind, key);
+
+  for (let attempt = 0; attempt < MAX_SAVE_ATTEMPTS; attempt++) {
+    if (!sync.enabled) return; // Logged out in the meantime
+
+    const data = buildDocument(useChartStore.getState(), kind, key);
+    const base = sync.documents.get(id);
+
+    if (data === null) {
+      if (base) {
+        await api.deleteChartLayout(kind, key);
+        sync.documents.delete(id);
+      }
+      return;
+    }
+    if (!base && kind === 'DRAWINGS' && (data as DrawingsDocument).lines.length === 0) return;
+
+    const result = await api.saveChartLayout(kind, key, data, base?.version ?? 0);
+    if (result.status === 'saved') {
+      sync.documents.set(id, { version: result.layout.version, data: result.layout.data });
+      return;
+    }
+
+    if (result.current) {
+      sync.documents.set(id, { version: result.current.version, data: result.current.data });
+      applyRemote(kind, key, mergeDocument(kind, base?.data, data, result.current.data));
+    } else {
+      sync.documents.delete(id); // Deleted on the other device - save it again as new
+    }
+  }
+
+  console.warn(`Chart layout ${id} kept changing on another device, giving up for now`);
+}
+
+function queueSave(kind: ChartLayoutKind, key: string): void {
+  const id = documentId(kind, key);
+  clearTimeout(sync.timers.get(id));
+
+  sync.timers.set(id, setTimeout(() => {
+    sync.timers.delete(id);
+    // Saves of the same document run one after another
+    const previous = sync.inFlight.get(id) ?? Promise.resolve();
+    const next: Promise<void> = previous
+      .then(() => pushDocument(kind, key))
+      .catch((error) => {
+        console.error('Failed to sync chart layout:', error);
+      })
+      .finally(() => {
+        if (sync.inFlight.get(id) === next) sync.inFlight.delete(id);
+      });
+    sync.inFlight.set(id, next);
+  }, SAVE_DEBOUNCE_MS));
 }
 
 export const useChartStore = create<ChartState>()(
@@ -200,7 +434,7 @@ export const useChartStore = create<ChartState>()(
         set((state) => {
           // Limit to 50 drawings per symbol
           const symbolDrawings = state.drawnLines.filter((d) => d.symbol === line.symbol);
-          if (symbolDrawings.length >= 50) {
+          if (symbolDrawings.length >= MAX_DRAWINGS_PER_SYMBOL) {
             // Remove oldest drawing for this symbol
             const oldestId = symbolDrawings.sort((a, b) => a.createdAt - b.createdAt)[0].id;
             return {
@@ -253,8 +487,10 @@ export const useChartStore = create<ChartState>()(
       // Chart Templates
       activeTemplateId: null,
       applyTemplate: (templateId: string) => {
-        const template = CHART_TEMPLATES.find((t) => t.id === templateId);
+        const userTemplate = get().userTemplates.find((t) => t.id === templateId);
+        const template = CHART_TEMPLATES.find((t) => t.id === templateId) ?? userTemplate;
         if (!template) return;
+        const indicatorParams = userTemplate?.indicatorParams ?? {};
 
         set((state) => ({
           activeTemplateId: templateId,
@@ -263,64 +499,97 @@ export const useChartStore = create<ChartState>()(
           indicators: state.indicators.map((ind) => ({
             ...ind,
             enabled: template.indicatorIds.includes(ind.id),
+            parameters: indicatorParams[ind.id] ? { ...ind.parameters, ...indicatorParams[ind.id] } : ind.parameters,
           })),
         }));
       },
+      userTemplates: [] as UserChartTemplate[],
+      saveTemplate: (name: string) => {
+        const { indicators, chartType, showVolume } = get();
+        const enabled = indicators.filter((ind) => ind.enabled);
+        const template: UserChartTemplate = {
+          id: `user-${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 8)}`,
+          name: name.trim(),
+          description: enabled.length > 0 ? enabled.map((ind) => ind.name).join(', ') : 'No indicators',
+          indicatorIds: enabled.map((ind) => ind.id),
+          chartType,
+          showVolume,
+          indicatorParams: Object.fromEntries(indicators.map((ind) => [ind.id, ind.parameters])),
+        };
 
-      // Price Alerts
-      priceAlerts: [] as PriceAlert[],
-      addPriceAlert: (symbol: string, price: number) =>
-        set((state) => {
-          // Limit to 10 alerts per symbol
-          const symbolAlerts = state.priceAlerts.filter((a) => a.symbol === symbol);
-          if (symbolAlerts.length >= 10) {
-            // Remove oldest alert for this symbol
-            const oldestId = symbolAlerts.sort((a, b) => a.createdAt - b.createdAt)[0].id;
-            return {
-              priceAlerts: [
-                ...state.priceAlerts.filter((a) => a.id !== oldestId),
-                {
-                  id: `alert-${Date.now()}-${Math.random().toString(36).substr(2, 9)}`,
-                  symbol,
-                  price,
-                  createdAt: Date.now(),
-                  triggered: false,
-                },
-              ],
-            };
-          }
-          return {
-            priceAlerts: [
-              ...state.priceAlerts,
-              {
-                id: `alert-${Date.now()}-${Math.random().toString(36).substr(2, 9)}`,
-                symbol,
-                price,
-                createdAt: Date.now(),
-                triggered: false,
-              },
-            ],
-          };
-        }),
-      removePriceAlert: (id: string) =>
         set((state) => ({
-          priceAlerts: state.priceAlerts.filter((a) => a.id !== id),
-        })),
-      clearPriceAlerts: (symbol?: string) =>
-        set((state) => ({
-          priceAlerts: symbol
-            ? state.priceAlerts.filter((a) => a.symbol !== symbol)
-            : [],
-        })),
-      getAlertsForSymbol: (symbol: string): PriceAlert[] => {
-        return get().priceAlerts.filter((a: PriceAlert) => a.symbol === symbol);
+          userTemplates: [...state.userTemplates, template],
+          activeTemplateId: template.id,
+        }));
+        return template;
       },
-      markAlertTriggered: (id: string) =>
+      deleteTemplate: (templateId: string) =>
         set((state) => ({
-          priceAlerts: state.priceAlerts.map((a) =>
-            a.id === id ? { ...a, triggered: true } : a
-          ),
+          userTemplates: state.userTemplates.filter((t) => t.id !== templateId),
+          activeTemplateId: state.activeTemplateId === templateId ? null : state.activeTemplateId,
         })),
+
+      // Account sync
+      syncWithServer: async () => {
+        if (sync.started) return;
+        sync.started = true;
+
+        let layouts: ChartLayoutDocument[];
+        try {
+          layouts = await api.getChartLayouts();
+        } catch (error) {
+          sync.started = false;
+          throw error;
+        }
+
+        const local = get();
+        sync.documents.clear();
+        sync.applyingRemote = true;
+        try {
+          for (const layout of layouts) {
+            sync.documents.set(documentId(layout.kind, layout.key), { version: layout.version, data: layout.data });
+            set((state) => applyDocument(state, layout.kind, layout.key, layout.data));
+          }
+        } finally {
+          sync.applyingRemote = false;
+        }
+        sync.enabled = true;
+
+        // Upload what this browser had before the account did (first sync after upgrading)
+        if (!sync.documents.has(documentId('SETTINGS', 'default'))) {
+          queueSave('SETTINGS', 'default');
+        }
+        for (const symbol of new Set(local.drawnLines.map((line) => line.symbol))) {
+          if (!sync.documents.has(documentId('DRAWINGS', symbol))) {
+            queueSave('DRAWINGS', symbol);
+          }
+        }
+        for (const template of local.userTemplates) {
+          if (!sync.documents.has(documentId('TEMPLATE', template.id))) {
+            queueSave('TEMPLATE', template.id);
+          }
+        }
+      },
+      resetStore: () => {
+        // Called on logout - the workspace belongs to the account, not the browser
+        for (const timer of sync.timers.values()) clearTimeout(timer);
+        sync.timers.clear();
+        sync.documents.clear();
+        sync.started = false;
+        sync.enabled = false;
+
+        set({
+          selectedTimeframe: DEFAULT_TIMEFRAME,
+          chartType: 'candlestick',
+          indicators: DEFAULT_INDICATORS,
+          showVolume: false,
+          drawingTool: 'none',
+          drawnLines: [],
+          favoritePairs: [],
+          activeTemplateId: null,
+          userTemplates: [],
+        });
+      },
     }),
     {
       name: 'chart-settings-v3',
@@ -332,8 +601,36 @@ export const useChartStore = create<ChartState>()(
         favoritePairs: state.favoritePairs,
         drawnLines: state.drawnLines,
         activeTemplateId: state.activeTemplateId,
-        priceAlerts: state.priceAlerts,
+        userTemplates: state.userTemplates,
       }),
     }
   )
 );
+
+// Queue a save for every synced document the change touched
+useChartStore.subscribe((state, prev) => {
+  if (!sync.enabled || sync.applyingRemote) return;
+
+  if (SETTINGS_FIELDS.some((field) => state[field] !== prev[field])) {
+    queueSave('SETTINGS', 'default');
+  }
+
+  if (state.drawnLines !== prev.drawnLines) {
+    const symbols = new Set([...state.drawnLines, ...prev.drawnLines].map((line) => line.symbol));
+    for (const symbol of symbols) {
+      const current = JSON.stringify(buildDocument(state, 'DRAWINGS', symbol));
+      if (current !== JSON.stringify(buildDocument(prev, 'DRAWINGS', symbol))) {
+        queueSave('DRAWINGS', symbol);
+      }
+    }
+  }
+
+  if (state.userTemplates !== prev.userTemplates) {
+    const ids = new Set([...state.userTemplates, ...prev.userTemplates].map((t) => t.id));
+    for (const id of ids) {
+      if (state.userTemplates.find((t) => t.id === id) !== prev.userTemplates.find((t) => t.id === id)) {
+        queueSave('TEMPLATE', id);
+      }
+    }
+  }
+});
@@ -1,153 +1,140 @@
 import { create } from 'zustand';
-import { persist, createJSONStorage } from 'zustand/middleware';
+import { api } from '@/lib/api';
+import type { UserNotification, NotificationType } from '@/types';
 
-export type NotificationType =
-  | 'deposit_approved'
-  | 'deposit_rejected'
-  | 'withdrawal_approved'
-  | 'withdrawal_rejected'
-  | 'copy_trading_approved'
-  | 'copy_trading_rejected'
-  | 'trade_win'
-  | 'trade_loss'
-  | 'ticket_reply'
-  | 'system';
+export type { NotificationType };
+export type Notification = UserNotification;
 
-export interface Notification {
-  id: string;
-  type: NotificationType;
-  title: string;
-  message: string;
-  amount?: number;
-  read: boolean;
-  createdAt: string; // Changed to string for serialization
-}
+const PAGE_SIZE = 20;
 
 interface NotificationState {
   notifications: Notification[];
   unreadCount: number;
-  isHydrated: boolean;
-  addNotification: (notification: Omit<Notification, 'id' | 'read' | 'createdAt'>) => void;
+  total: number;
+  isLoading: boolean;
+  fetchNotifications: () => Promise<void>;
+  loadMore: () => Promise<void>;
+  receiveNotification: (notification: Notification) => void; // Pushed over the WebSocket
   markAsRead: (id: string) => void;
   markAllAsRead: () => void;
   removeNotification: (id: string) => void;
   clearAll: () => void;
   resetStore: () => void;
-  setHydrated: () => void;
 }
 
-// Helper to get user-specific storage key
-function getUserStorageKey(): string {
-  try {
-    const authData = localStorage.getItem('auth-storage');
-    if (authData) {
-      const parsed = JSON.parse(authData);
-      const userId = parsed?.state?.user?.id;
-      if (userId) {
-        return `notifications-storage-${userId}`;
-      }
-    }
-  } catch {
-    // Fallback to default key if parsing fails
-  }
-  return 'notifications-storage';
-}
+/**
+ * Notification center. The server is the source of truth; actions update the
+ * list optimistically and sync in the background.
+ */
+export const useNotificationStore = create<NotificationState>()((set, get) => ({
+  notifications: [],
+  unreadCount: 0,
+  total: 0,
+  isLoading: false,
 
-export const useNotificationStore = create<NotificationState>()(
-  persist(
-    (set) => ({
-      notifications: [],
-      unreadCount: 0,
-      isHydrated: false,
+  fetchNotifications: async () => {
+    set({ isLoading: true });
+    try {
+      const { data, unreadCount, total } = await api.getNotifications({ limit: PAGE_SIZE });
+      set({ notifications: data, unreadCount, total });
+    } finally {
+      set({ isLoading: false });
+    }
+  },
 
-      setHydrated: () => set({ isHydrated: true }),
+  loadMore: async () => {
+    const { notifications, total, isLoading } = get();
+    if (isLoading || notifications.length >= total) return;
 
-      addNotification: (notification) => {
-        const newNotification: Notification = {
-          ...notification,
-          id: crypto.randomUUID(),
-          read: false,
-          createdAt: new Date().toISOString(),
+    set({ isLoading: true });
+    try {
+      const { data, unreadCount, total: newTotal } = await api.getNotifications({
+        limit: PAGE_SIZE,
+        offset: notifications.length,
+      });
+      set((state) => {
+        const known = new Set(state.notifications.map((n) => n.id));
+        return {
+          notifications: [...state.notifications, ...data.filter((n) => !known.has(n.id))],
+          unreadCount,
+          total: newTotal,
         };
+      });
+    } finally {
+      set({ isLoading: false });
+    }
+  },
 
-        set((state) => ({
-          notifications: [newNotification, ...state.notifications].slice(0, 50),
-          unreadCount: state.unreadCount + 1,
-        }));
-      },
+  receiveNotification: (notification) => {
+    set((state) => {
+      // The same notification can arrive on more than one socket
+      if (state.notifications.some((n) => n.id === notification.id)) return state;
+      return {
+        notifications: [notification, ...state.notifications],
+        unreadCount: state.unreadCount + (notification.isRead ? 0 : 1),
+        total: state.total + 1,
+      };
+    });
+  },
 
-      markAsRead: (id) => {
-        set((state) => {
-          const notification = state.notifications.find((n) => n.id === id);
-          if (notification && !notification.read) {
-            return {
-              notifications: state.notifications.map((n) =>
-                n.id === id ? { ...n, read: true } : n
-              ),
-              unreadCount: Math.max(0, state.unreadCount - 1),
-            };
-          }
-          return state;
-        });
-      },
+  markAsRead: (id) => {
+    const notification = get().notifications.find((n) => n.id === id);
+    if (!notification || notification.isRead) return;
 
-      markAllAsRead: () => {
-        set((state) => ({
-          notifications: state.notifications.map((n) => ({ ...n, read: true })),
-          unreadCount: 0,
-        }));
-      },
+    set((state) => ({
+      notifications: state.notifications.map((n) =>
+        n.id === id ? { ...n, isRead: true, readAt: new Date().toISOString() } : n
+      ),
+      unreadCount: Math.max(0, state.unreadCount - 1),
+    }));
+    api.markNotificationRead(id).catch((error) => {
+      console.error('Failed to mark notification as read:', error);
+    });
+  },
+
+  markAllAsRead: () => {
+    set((state) => ({
+      notifications: state.notifications.map((n) => ({ ...n, isRead: true })),
+      unreadCount: 0,
+    }));
+    api.markAllNotificationsRead().catch((error) => {
+      console.error('Failed to mark notifications as read:', error);
+    });
+  },
 
-      removeNotification: (id) => {
-        set((state) => {
-          const notification = state.notifications.find((n) => n.id === id);
-          return {
-            notifications: state.notifications.filter((n) => n.id !== id),
-            unreadCount: notification && !notification.read
-              ? Math.max(0, state.unreadCount - 1)
-              : state.unreadCount,
-          };
-        });
-      },
+  removeNotification: (id) => {
+    set((state) => {
+      const notification = state.notifications.find((n) => n.id === id);
+      return {
+        notifications: state.notifications.filter((n) => n.id !== id),
+        unreadCount: notification && !notification.isRead
+          ? Math.max(0, state.unreadCount - 1)
+          : state.unreadCount,
+        total: Math.max(0, state.total - 1),
+      };
+    });
+    api.deleteNotification(id).catch((error) => {
+      console.error('Failed to delete notification:', error);
+    });
+  },
 
-      clearAll: () => {
-        set({ notifications: [], unreadCount: 0 });
-      },
+  clearAll: () => {
+    set({ notifications: [], unreadCount: 0, total: 0 });
+    api.clearNotifications().catch((error) => {
+      console.error('Failed to clear notifications:', error);
+    });
+  },
 
-      resetStore: () => {
-        // Clear all notification data (called on logout)
-        set({
-          notifications: [],
-          unreadCount: 0,
-          isHydrated: false,
-        });
-        // Clear localStorage for ALL possible user keys
-        try {
-          const keys = Object.keys(localStorage);
-          keys.forEach(key => {
-            if (key.startsWith('notifications-storage')) {
-              localStorage.removeItem(key);
-            }
-          });
-        } catch (error) {
-          console.error('Failed to clear notification storage:', error);
-        }
-      },
-    }),
-    {
-      name: getUserStorageKey(), // User-specific storage key
-      storage: createJSONStorage(() => localStorage),
-      partialize: (state) => ({
-        notifications: state.notifications.slice(0, 20),
-      }),
-      onRehydrateStorage: () => (state) => {
-        if (state) {
-          // Recalculate unreadCount from notifications
-          const unreadCount = state.notifications.filter((n) => !n.read).length;
-          state.unreadCount = unreadCount;
-          state.isHydrated = true;
-        }
-      },
+  resetStore: () => {
+    // Called on logout
+    set({ notifications: [], unreadCount: 0, total: 0, isLoading: false });
+    // Drop caches left by the old browser-only store
+    try {
+      Object.keys(localStorage)
+        .filter((key) => key.startsWith('notifications-storage'))
+        .forEach((key) => localStorage.removeItem(key));
+    } catch (error) {
+      console.error('Failed to clear notification storage:', error);
     }
-  )
-);
+  },
+}));
@@ -0,0 +1,58 @@
+import { create } from 'zustand';
+import { api, PendingOrder, CreatePendingOrderData } from '@/lib/api';
+import { useAuthStore } from './auth.store';
+
+interface PendingOrderState {
+  orders: PendingOrder[]; // Only orders still waiting for their trigger
+  isLoading: boolean;
+
+  fetchOrders: () => Promise<void>;
+  createOrder: (data: CreatePendingOrderData) => Promise<PendingOrder>;
+  cancelOrder: (orderId: string) => Promise<void>;
+  removeOrder: (orderId: string) => void; // Drop locally after a trigger/expiry notification
+  resetStore: () => void;
+}
+
+export const usePendingOrderStore = create<PendingOrderState>()((set) => ({
+  orders: [],
+  isLoading: false,
+
+  fetchOrders: async () => {
+    set({ isLoading: true });
+    try {
+      const orders = await api.getPendingOrders('pending');
+      set({ orders });
+    } finally {
+      set({ isLoading: false });
+    }
+  },
+
+  createOrder: async (data) => {
+    const order = await api.createPendingOrder(data);
+    set((state) => ({ orders: [order, ...state.orders] }));
+    return order;
+  },
+
+  cancelOrder: async (orderId) => {
+    await api.cancelPendingOrder(orderId);
+    set((state) => ({ orders: state.orders.filter((o) => o.id !== orderId) }));
+  },
+
+  removeOrder: (orderId) => {
+    set((state) => ({ orders: state.orders.filter((o) => o.id !== orderId) }));
+  },
+
+  resetStore: () => {
+    set({ orders: [], isLoading: false });
+  },
+}));
+
+/**
+ * Pending orders for the current account type (LIVE or DEMO)
+ */
+export function useFilteredPendingOrders() {
+  const orders = usePendingOrderStore((state) => state.orders);
+  const accountType = useAuthStore((state) => state.user?.activeAccountType ?? 'LIVE');
+
+  return orders.filter((order) => order.accountType === accountType);
+}
@@ -0,0 +1,78 @@
+import { create } from 'zustand';
+import { api, PriceAlert, CreatePriceAlertData } from '@/lib/api';
+
+interface PriceAlertTriggeredPayload {
+  alertId: string;
+  isActive: boolean;
+}
+
+interface PriceAlertState {
+  alerts: PriceAlert[]; // Only alerts that can still fire
+  isLoading: boolean;
+
+  fetchAlerts: () => Promise<void>;
+  createAlert: (data: CreatePriceAlertData) => Promise<PriceAlert>;
+  setAlertActive: (alertId: string, isActive: boolean) => Promise<void>;
+  deleteAlert: (alertId: string) => Promise<void>;
+  handleTriggered: (payload: PriceAlertTriggeredPayload) => void; // Apply a price_alert notification
+  resetStore: () => void;
+}
+
+export const usePriceAlertStore = create<PriceAlertState>()((set) => ({
+  alerts: [],
+  isLoading: false,
+
+  fetchAlerts: async () => {
+    set({ isLoading: true });
+    try {
+      const alerts = await api.getPriceAlerts('active');
+      set({ alerts });
+    } finally {
+      set({ isLoading: false });
+    }
+  },
+
+  createAlert: async (data) => {
+    const alert = await api.createPriceAlert(data);
+    set((state) => ({ alerts: [alert, ...state.alerts] }));
+    return alert;
+  },
+
+  setAlertActive: async (alertId, isActive) => {
+    const alert = await api.updatePriceAlert(alertId, { isActive });
+    set((state) => ({
+      alerts: alert.isActive
+        ? state.alerts.map((a) => (a.id === alertId ? alert : a))
+        : state.alerts.filter((a) => a.id !== alertId),
+    }));
+  },
+
+  deleteAlert: async (alertId) => {
+    await api.deletePriceAlert(alertId);
+    set((state) => ({ alerts: state.alerts.filter((a) => a.id !== alertId) }));
+  },
+
+  handleTriggered: ({ alertId, isActive }) => {
+    set((state) => ({
+      alerts: isActive
+        ? state.alerts.map((a) =>
+            a.id === alertId
+              ? { ...a, triggerCount: a.triggerCount + 1, lastTriggeredAt: new Date().toISOString() }
+              : a
+          )
+        : state.alerts.filter((a) => a.id !== alertId),
+    }));
+  },
+
+  resetStore: () => {
+    set({ alerts: [], isLoading: false });
+  },
+}));
+
+/**
+ * Active price alerts on one symbol
+ */
+export function useSymbolPriceAlerts(symbol: string) {
+  const alerts = usePriceAlertStore((state) => state.alerts);
+  return alerts.filter((alert) => alert.symbol === symbol);
+}
@@ -3,6 +3,7 @@ import { persist } from 'zustand/middleware';
 import toast from 'react-hot-toast';
 import { api, ApiTrade, TradeStats as ApiTradeStats } from '@/lib/api';
 import { playWinSound, playLoseSound } from '@/lib/sounds';
+import { wsTrading } from '@/lib/ws-trading';
 import { useAuthStore } from './auth.store';
 
 // Throttle state for preventing rapid API calls
@@ -17,7 +18,7 @@ const SYNC_THROTTLE_MS = 5000; // Minimum 5 seconds between full syncs
 const notifiedTrades = new Set<string>();
 
 export type TradeDirection = 'UP' | 'DOWN';
-export type TradeStatus = 'active' | 'won' | 'lost';
+export type TradeStatus = 'active' | 'won' | 'lost' | 'draw';
 export type MarketType = 'forex' | 'crypto' | 'stock' | 'index';
 
 export type AccountType = 'LIVE' | 'DEMO';
@@ -44,6 +45,7 @@ interface TradeStats {
   totalTrades: number;
   wonTrades: number;
   lostTrades: number;
+  drawTrades: number;
   totalProfit: number;
   winRate: number;
 }
@@ -76,8 +78,10 @@ function mapApiTradeToTrade(apiTrade: ApiTrade): Trade {
   const status: TradeStatus =
     apiTrade.status === 'OPEN'
       ? 'active'
-      : apiTrade.result === 'WON'
+      : apiTrade.result === 'WON' || (apiTrade.result === 'CLOSED_EARLY' && (apiTrade.profit ?? 0) > 0)
       ? 'won'
+      : apiTrade.result === 'DRAW'
+      ? 'draw'
       : 'lost';
 
   return {
@@ -131,6 +135,7 @@ export const useTradeStore = create<TradeState>()(
         totalTrades: 0,
         wonTrades: 0,
         lostTrades: 0,
+        drawTrades: 0,
         totalProfit: 0,
         winRate: 0,
       },
@@ -139,7 +144,8 @@ export const useTradeStore = create<TradeState>()(
 
       placeTrade: async (tradeData) => {
         // Don't set global isLoading - allows rapid multiple trades
-        const apiTrade = await api.placeTrade({
+        // Over the WebSocket when connected, REST otherwise
+        const apiTrade = await wsTrading.placeTrade({
           symbol: tradeData.symbol,
           direction: tradeData.direction,
           amount: tradeData.amount,
@@ -283,7 +289,7 @@ export const useTradeStore = create<TradeState>()(
             const updatedTrade = await api.getTradeById(tradeId);
             if (updatedTrade && updatedTrade.status === 'CLOSED') {
               const mappedTrade = mapApiTradeToTrade(updatedTrade);
-              const won = updatedTrade.result === 'WON';
+              const won = mappedTrade.status === 'won';
               const profit = updatedTrade.profit ?? 0;
 
               // Remove from polling set and update trade state
@@ -304,6 +310,8 @@ export const useTradeStore = create<TradeState>()(
                 if (won) {
                   playWinSound();
                   toast.success(`Profit +$${profit.toFixed(2)} on ${updatedTrade.symbol}`, { duration: 4000 });
+                } else if (mappedTrade.status === 'draw') {
+                  toast(`Draw on ${updatedTrade.symbol} - $${updatedTrade.amount.toFixed(2)} refunded`, { duration: 4000 });
                 } else {
                   playLoseSound();
                   toast.error(`Loss -$${updatedTrade.amount.toFixed(2)} on ${updatedTrade.symbol}`, { duration: 4000 });
@@ -333,6 +341,7 @@ export const useTradeStore = create<TradeState>()(
               totalTrades: 0,
               wonTrades: 0,
               lostTrades: 0,
+              drawTrades: 0,
               totalProfit: 0,
               winRate: 0,
             },
@@ -391,6 +400,7 @@ export const useTradeStore = create<TradeState>()(
             totalTrades: 0,
             wonTrades: 0,
             lostTrades: 0,
+            drawTrades: 0,
             totalProfit: 0,
             winRate: 0,
           },
@@ -475,14 +485,18 @@ export function useFilteredStats() {
 
   const wonTrades = closedTrades.filter((trade) => trade.status === 'won').length;
   const lostTrades = closedTrades.filter((trade) => trade.status === 'lost').length;
+  const drawTrades = closedTrades.filter((trade) => trade.status === 'draw').length;
   const totalTrades = closedTrades.length;
   const totalProfit = closedTrades.reduce((sum, trade) => sum + (trade.profit ?? 0), 0);
-  const winRate = totalTrades > 0 ? (wonTrades / totalTrades) * 100 : 0;
+  // Refunded draws have no winner, so they are left out of the win rate
+  const decidedTrades = totalTrades - drawTrades;
+  const winRate = decidedTrades > 0 ? (wonTrades / decidedTrades) * 100 : 0;
 
   return {
     totalTrades,
     wonTrades,
     lostTrades,
+    drawTrades,
     totalProfit,
     winRate,
   };
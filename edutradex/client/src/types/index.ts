@@ -166,10 +166,119 @@ export interface MarketConfig {
   minTradeAmount: number;
   maxTradeAmount: number;
   volatilityMode: 'LOW' | 'MEDIUM' | 'HIGH';
+  drawPolicy: 'REFUND' | 'LOSE' | null;
+  exchange: string | null;
   createdAt: string;
   updatedAt: string;
 }
 
+export type SessionMarketType = 'forex' | 'stock' | 'index';
+
+// Weekly trading session; days are 0 (Sunday) to 6, times HH:MM in `timezone`
+export interface MarketSession {
+  id: string;
+  marketType: SessionMarketType;
+  exchange: string | null;
+  openDay: number;
+  openTime: string;
+  closeDay: number;
+  closeTime: string;
+  timezone: string;
+  isActive: boolean;
+  createdAt: string;
+  updatedAt: string;
+}
+
+export interface MarketHoliday {
+  id: string;
+  name: string;
+  date: string;
+  marketType: SessionMarketType | null;
+  exchange: string | null;
+  earlyCloseTime: string | null;
+  createdAt: string;
+}
+
+export interface TradingSessionStatus {
+  isOpen: boolean;
+  state: 'OPEN' | 'CLOSED' | 'HOLIDAY' | 'ALWAYS_OPEN';
+  holiday: string | null;
+  nextOpen: string | null;
+  nextClose: string | null;
+}
+
+export interface SymbolSessionStatus extends TradingSessionStatus {
+  symbol: string;
+  marketType: string;
+  exchange: string | null;
+}
+
+export interface MarketSessionsOverview {
+  serverTime: string;
+  symbols: SymbolSessionStatus[];
+}
+
+export interface MarketCalendar {
+  sessions: MarketSession[];
+  holidays: MarketHoliday[];
+  statuses: Record<string, TradingSessionStatus>;
+}
+
+export type FeedSource = 'DERIV' | 'BINANCE' | 'FINNHUB' | 'REPLAY';
+export type FeedState = 'HEALTHY' | 'FAILOVER' | 'SUSPENDED' | 'CLOSED';
+
+export interface FeedHealthSummary {
+  total: number;
+  healthy: number;
+  failover: number;
+  suspended: number;
+  closed: number;
+  suspendedSymbols: string[];
+}
+
+export interface FeedSourceHealth {
+  source: FeedSource;
+  tickCount: number;
+  lastTickAt: string | null;
+  lastTickAgeMs: number | null;
+  avgGapMs: number | null;
+  maxGapMs: number;
+  avgLatencyMs: number | null;
+  maxLatencyMs: number;
+  outliers: number;
+}
+
+export interface SymbolFeedHealth {
+  symbol: string;
+  marketType: string;
+  state: FeedState;
+  activeSource: FeedSource;
+  primarySource: FeedSource;
+  secondarySource: FeedSource | null;
+  suspendedReason: string | null;
+  stateSince: string;
+  staleEvents: number;
+  staleThresholdMs: number;
+  sources: FeedSourceHealth[];
+}
+
+export interface FeedAlert {
+  id: string;
+  symbol: string;
+  type: 'STALE' | 'OUTLIER' | 'FAILOVER' | 'RESUMED' | 'RECOVERED';
+  severity: 'info' | 'warning' | 'critical';
+  source: FeedSource;
+  message: string;
+  createdAt: string;
+}
+
+export interface FeedHealthReport {
+  serverTime: string;
+  summary: FeedHealthSummary;
+  symbols: SymbolFeedHealth[];
+  alerts: FeedAlert[];
+}
+
 export interface SystemSetting {
   id: string;
   key: string;
@@ -193,6 +302,8 @@ export type DepositStatus = 'PENDING' | 'APPROVED' | 'REJECTED';
 export type MobileProvider = 'MPESA' | 'AIRTEL' | 'MTN' | 'VODAFONE' | 'ORANGE' | 'TIGO' | 'OTHER';
 export type CryptoCurrency = 'BTC' | 'ETH' | 'USDT' | 'USDC' | 'BNB' | 'SOL' | 'XRP' | 'OTHER';
 
+export type CryptoReviewReason = 'UNDERPAID' | 'OVERPAID' | 'LATE' | 'BLOCKED';
+
 export interface Deposit {
   id: string;
   userId: string;
@@ -202,8 +313,14 @@ export interface Deposit {
   phoneNumber?: string;
   mobileProvider?: MobileProvider;
   cryptoCurrency?: CryptoCurrency;
+  network?: string;
   walletAddress?: string;
   transactionHash?: string;
+  cryptoAmount?: string;
+  // Detected crypto payment that needs an admin
+  reviewReason?: CryptoReviewReason;
+  // Set on creation when a push payment was sent to the user's phone
+  paymentRequested?: boolean;
   adminNote?: string;
   processedBy?: string;
   processedAt?: string;
@@ -218,11 +335,21 @@ export interface Deposit {
 
 export interface DepositStats {
   pending: number;
+  review: number;
   approved: number;
   rejected: number;
   totalVolume: number;
 }
 
+// Personal deposit address, credited automatically once confirmed
+export interface CryptoDepositAddress {
+  network: string;
+  networkLabel: string;
+  asset: string;
+  address: string;
+  confirmations: number;
+}
+
 export interface SpreadConfig {
   id: string;
   symbol: string;
@@ -246,15 +373,34 @@ export interface UpdateSpreadConfigInput {
   isActive?: boolean;
 }
 
+export interface MarketDataProviderStatus {
+  name: FeedSource;
+  available: boolean;
+  connected: boolean;
+  subscriptions: number;
+}
+
 export interface MarketStatus {
+  dataMode?: 'live' | 'replay';
+  providers?: MarketDataProviderStatus[];
   derivAvailable: boolean;
   derivConnected: boolean;
   usingSimulation: boolean;
   spreadConfigsLoaded: number;
+  sessions?: Record<string, TradingSessionStatus>;
+  feedHealth?: FeedHealthSummary;
 }
 
 export type WithdrawalMethod = 'MOBILE_MONEY' | 'CRYPTO';
-export type WithdrawalStatus = 'PENDING' | 'APPROVED' | 'REJECTED';
+export type WithdrawalStatus =
+  | 'PENDING'
+  | 'UNDER_REVIEW'
+  | 'APPROVED'
+  | 'PROCESSING'
+  | 'COMPLETED'
+  | 'FAILED'
+  | 'REJECTED'
+  | 'CANCELLED';
 
 export interface Withdrawal {
   id: string;
@@ -270,6 +416,16 @@ export interface Withdrawal {
   adminNote?: string;
   processedBy?: string;
   processedAt?: string;
+  reviewedBy?: string;
+  reviewedAt?: string;
+  payoutReference?: string;
+  payoutReceiptUrl?: string;
+  payoutSentAt?: string;
+  completedAt?: string;
+  failedAt?: string;
+  cancelledAt?: string;
+  ruleOutcome?: WithdrawalRuleOutcome | null;
+  ruleChecks?: WithdrawalRuleCheck[];
   createdAt: string;
   updatedAt: string;
   user?: {
@@ -279,13 +435,113 @@ export interface Withdrawal {
   };
 }
 
+export type WithdrawalRuleAction = 'OFF' | 'HOLD' | 'DENY';
+export type WithdrawalRuleOutcome = 'ALLOW' | 'HOLD' | 'DENY';
+export type WithdrawalRule = 'TURNOVER' | 'CLOSED_LOOP' | 'VELOCITY' | 'SECURITY_COOLDOWN';
+
+export interface WithdrawalRuleCheck {
+  rule: WithdrawalRule;
+  outcome: WithdrawalRuleOutcome;
+  reason: string;
+}
+
+export interface WithdrawalRuleSettings {
+  id: string;
+  turnoverAction: WithdrawalRuleAction;
+  turnoverMultiplier: number;
+  closedLoopAction: WithdrawalRuleAction;
+  velocityAction: WithdrawalRuleAction;
+  dailyAmountLimit: number | null;
+  dailyCountLimit: number | null;
+  weeklyAmountLimit: number | null;
+  weeklyCountLimit: number | null;
+  cooldownAction: WithdrawalRuleAction;
+  cooldownHours: number;
+  isActive: boolean;
+  updatedAt: string;
+}
+
 export interface WithdrawalStats {
   pending: number;
+  underReview: number;
   approved: number;
+  processing: number;
+  completed: number;
+  failed: number;
   rejected: number;
+  cancelled: number;
   totalVolume: number;
 }
 
+// Deposit bonuses: FIRST_DEPOSIT offers apply automatically, PROMO_CODE ones are claimed
+export type PromotionType = 'FIRST_DEPOSIT' | 'PROMO_CODE';
+export type BonusStatus = 'PENDING' | 'ACTIVE' | 'CONVERTED' | 'FORFEITED' | 'EXPIRED';
+
+export interface Promotion {
+  id: string;
+  name: string;
+  code: string | null;
+  type: PromotionType;
+  bonusPercent: number;
+  maxBonus: number;
+  minDeposit: number;
+  wageringMultiplier: number;
+  expiryDays: number;
+  maxRedemptions: number | null;
+  redemptionCount: number;
+  startsAt: string | null;
+  endsAt: string | null;
+  isActive: boolean;
+  activeCount?: number;
+  grantedAmount?: number;
+  convertedAmount?: number;
+  createdAt: string;
+  updatedAt: string;
+}
+
+export interface PromotionInput {
+  name: string;
+  code?: string | null;
+  type: PromotionType;
+  bonusPercent: number;
+  maxBonus: number;
+  minDeposit?: number;
+  wageringMultiplier?: number;
+  expiryDays?: number;
+  maxRedemptions?: number | null;
+  startsAt?: string | null;
+  endsAt?: string | null;
+  isActive?: boolean;
+}
+
+export interface UserBonus {
+  id: string;
+  promotionId: string;
+  promotionName: string;
+  promotionCode: string | null;
+  bonusPercent: number;
+  maxBonus: number;
+  minDeposit: number;
+  depositId: string | null;
+  amount: number;
+  wageringRequired: number;
+  wageredAmount: number;
+  status: BonusStatus;
+  expiresAt: string | null;
+  activatedAt: string | null;
+  convertedAt: string | null;
+  forfeitedAt: string | null;
+  expiredAt: string | null;
+  createdAt: string;
+}
+
+export interface BonusSummary {
+  bonusBalance: number;
+  activeCount: number;
+  wageringRequired: number;
+  wageredAmount: number;
+}
+
 export type PaymentMethodType = 'CRYPTO' | 'MOBILE_MONEY';
 
 export interface PaymentMethod {
@@ -709,3 +965,90 @@ export interface ProfileStats {
   referralCount: number;
   referralEarnings: number;
 }
+
+// ============= Trading Limits (Responsible Trading) =============
+
+export type TradingLimitType =
+  | 'dailyLossLimit'
+  | 'dailyStakeLimit'
+  | 'maxOpenTrades'
+  | 'maxStakePerTrade'
+  | 'sessionTimeLimitMinutes';
+
+export type TimeOutPeriod = '24_HOURS' | '7_DAYS' | '30_DAYS';
+export type SelfExclusionPeriod = '6_MONTHS' | '1_YEAR' | '5_YEARS';
+
+// null means no limit
+export type TradingLimitValues = Record<TradingLimitType, number | null>;
+
+export interface PendingLimitChange {
+  limitType: TradingLimitType;
+  newValue: number | null;
+  effectiveAt: string;
+}
+
+export interface TradingLimits {
+  limits: TradingLimitValues;
+  pendingChanges: PendingLimitChange[];
+  timeOutUntil: string | null;
+  selfExcludedUntil: string | null;
+  usage: {
+    dailyLoss: number;
+    dailyStake: number;
+    openTrades: number;
+    sessionMinutes: number | null;
+    sessionCoolOffUntil: string | null;
+  };
+  increaseDelayHours: number;
+}
+
+// ============= Notification Center =============
+
+export type NotificationType =
+  | 'TRADE_SETTLED'
+  | 'PENDING_ORDER'
+  | 'DEPOSIT'
+  | 'WITHDRAWAL'
+  | 'KYC'
+  | 'TICKET_REPLY'
+  | 'COPY_TRADING'
+  | 'ADMIN_MESSAGE'
+  | 'PRICE_ALERT'
+  | 'ACCOUNT_STATEMENT';
+
+export interface UserNotification {
+  id: string;
+  type: NotificationType;
+  title: string;
+  message: string;
+  data: {
+    amount?: number;
+    status?: string;
+    [key: string]: unknown;
+  } | null;
+  isRead: boolean;
+  readAt: string | null;
+  createdAt: string;
+}
+
+export interface NotificationPreference {
+  type: NotificationType;
+  inApp: boolean;
+  email: boolean;
+  emailAvailable: boolean; // false for types that only notify in-app
+}
+
+export type ChartLayoutKind = 'SETTINGS' | 'DRAWINGS' | 'TEMPLATE';
+
+// One synced chart document: SETTINGS/default, DRAWINGS/<symbol> or TEMPLATE/<id>
+export interface ChartLayoutDocument {
+  kind: ChartLayoutKind;
+  key: string;
+  data: unknown;
+  version: number;
+  updatedAt: string;
+}
+
+export type ChartLayoutSaveResult =
+  | { status: 'saved'; layout: ChartLayoutDocument }
+  | { status: 'conflict'; current: ChartLayoutDocument | null }; // Another device wrote first
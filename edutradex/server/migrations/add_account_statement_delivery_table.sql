@@ -0,0 +1,20 @@
+-- Add AccountStatementDelivery table for the emailed monthly account statement
+-- Records which period was sent to which user so a statement is never emailed twice
+-- This is safe to run on production - new table only
+
+CREATE TABLE IF NOT EXISTS "AccountStatementDelivery" (
+    "id" TEXT NOT NULL,
+    "userId" TEXT NOT NULL,
+    "period" TEXT NOT NULL,
+    "sentAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "AccountStatementDelivery_pkey" PRIMARY KEY ("id"),
+    CONSTRAINT "AccountStatementDelivery_userId_fkey" FOREIGN KEY ("userId") REFERENCES "User"("id") ON DELETE CASCADE ON UPDATE CASCADE
+);
+
+CREATE UNIQUE INDEX IF NOT EXISTS "AccountStatementDelivery_userId_period_key" ON "AccountStatementDelivery"("userId", "period");
+
+-- Verify the table was created
+SELECT column_name, data_type, is_nullable
+FROM information_schema.columns
+WHERE table_name = 'AccountStatementDelivery';
@@ -0,0 +1,15 @@
+-- Add forfeitWithdrawalId to UserBonus
+-- Requesting a withdrawal forfeits active bonuses. The forfeiting request is now
+-- recorded so the bonuses can be restored when that withdrawal is rejected,
+-- cancelled or fails and its held funds are returned
+-- This is safe to run on production - nullable column, existing rows are not affected
+
+ALTER TABLE "UserBonus"
+ADD COLUMN IF NOT EXISTS "forfeitWithdrawalId" TEXT;
+
+CREATE INDEX IF NOT EXISTS "UserBonus_forfeitWithdrawalId_idx" ON "UserBonus"("forfeitWithdrawalId");
+
+-- Verify the column was added
+SELECT column_name, data_type, is_nullable
+FROM information_schema.columns
+WHERE table_name = 'UserBonus' AND column_name = 'forfeitWithdrawalId';
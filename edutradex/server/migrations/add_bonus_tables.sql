@@ -0,0 +1,79 @@
+-- Add deposit bonuses and promo codes
+-- Promotion is an offer: either an automatic first-deposit bonus (no code) or
+-- one a user claims with a promo code before depositing. UserBonus is one
+-- user's grant of an offer; its amount sits outside the wallet until the
+-- wagering requirement is met, when it is converted to real balance through
+-- the ledger. The financial snapshot and monthly report gain bonus columns
+-- This is safe to run on production - new tables and defaulted columns only
+
+CREATE TABLE IF NOT EXISTS "Promotion" (
+    "id" TEXT NOT NULL,
+    "name" TEXT NOT NULL,
+    "code" TEXT,
+    "type" TEXT NOT NULL,
+    "bonusPercent" DOUBLE PRECISION NOT NULL,
+    "maxBonus" DECIMAL(18,2) NOT NULL,
+    "minDeposit" DECIMAL(18,2) NOT NULL DEFAULT 0,
+    "wageringMultiplier" DOUBLE PRECISION NOT NULL DEFAULT 10,
+    "expiryDays" INTEGER NOT NULL DEFAULT 30,
+    "maxRedemptions" INTEGER,
+    "redemptionCount" INTEGER NOT NULL DEFAULT 0,
+    "startsAt" TIMESTAMP(3),
+    "endsAt" TIMESTAMP(3),
+    "isActive" BOOLEAN NOT NULL DEFAULT true,
+    "createdBy" TEXT,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "Promotion_pkey" PRIMARY KEY ("id")
+);
+
+CREATE UNIQUE INDEX IF NOT EXISTS "Promotion_code_key" ON "Promotion"("code");
+CREATE INDEX IF NOT EXISTS "Promotion_type_isActive_idx" ON "Promotion"("type", "isActive");
+
+CREATE TABLE IF NOT EXISTS "UserBonus" (
+    "id" TEXT NOT NULL,
+    "userId" TEXT NOT NULL,
+    "promotionId" TEXT NOT NULL,
+    "depositId" TEXT,
+    "amount" DECIMAL(18,2) NOT NULL DEFAULT 0,
+    "wageringRequired" DECIMAL(18,2) NOT NULL DEFAULT 0,
+    "wageredAmount" DECIMAL(18,2) NOT NULL DEFAULT 0,
+    "status" TEXT NOT NULL DEFAULT 'PENDING',
+    "expiresAt" TIMESTAMP(3),
+    "activatedAt" TIMESTAMP(3),
+    "convertedAt" TIMESTAMP(3),
+    "forfeitedAt" TIMESTAMP(3),
+    "expiredAt" TIMESTAMP(3),
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "UserBonus_pkey" PRIMARY KEY ("id"),
+    CONSTRAINT "UserBonus_userId_fkey" FOREIGN KEY ("userId") REFERENCES "User"("id") ON DELETE CASCADE ON UPDATE CASCADE,
+    CONSTRAINT "UserBonus_promotionId_fkey" FOREIGN KEY ("promotionId") REFERENCES "Promotion"("id") ON DELETE RESTRICT ON UPDATE CASCADE
+);
+
+-- One grant per user per offer
+CREATE UNIQUE INDEX IF NOT EXISTS "UserBonus_userId_promotionId_key" ON "UserBonus"("userId", "promotionId");
+CREATE INDEX IF NOT EXISTS "UserBonus_userId_status_idx" ON "UserBonus"("userId", "status");
+CREATE INDEX IF NOT EXISTS "UserBonus_status_expiresAt_idx" ON "UserBonus"("status", "expiresAt");
+
+ALTER TABLE "BrokerFinancialSnapshot"
+ADD COLUMN IF NOT EXISTS "bonusCosts" DECIMAL(18,2) NOT NULL DEFAULT 0;
+
+ALTER TABLE "BrokerFinancialSnapshot"
+ADD COLUMN IF NOT EXISTS "bonusesGranted" DECIMAL(18,2) NOT NULL DEFAULT 0;
+
+ALTER TABLE "BrokerFinancialSnapshot"
+ADD COLUMN IF NOT EXISTS "bonusesForfeited" DECIMAL(18,2) NOT NULL DEFAULT 0;
+
+ALTER TABLE "BrokerMonthlyReport"
+ADD COLUMN IF NOT EXISTS "totalBonusCosts" DECIMAL(18,2) NOT NULL DEFAULT 0;
+
+-- Verify the tables and columns were added
+SELECT table_name, column_name, data_type
+FROM information_schema.columns
+WHERE table_name IN ('Promotion', 'UserBonus')
+   OR (table_name = 'BrokerFinancialSnapshot' AND column_name IN ('bonusCosts', 'bonusesGranted', 'bonusesForfeited'))
+   OR (table_name = 'BrokerMonthlyReport' AND column_name = 'totalBonusCosts')
+ORDER BY table_name, ordinal_position;
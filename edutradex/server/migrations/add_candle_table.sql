@@ -0,0 +1,27 @@
+-- Add Candle table for OHLC candles aggregated from live ticks
+-- Candles are built at 5s/1m/5m/15m/1h/4h/1d as ticks arrive and pruned per
+-- resolution by CandleService, so charts no longer rebuild bars from memory
+-- This is safe to run on production - new table only
+
+CREATE TABLE IF NOT EXISTS "Candle" (
+    "id" TEXT NOT NULL,
+    "symbol" TEXT NOT NULL,
+    "resolution" INTEGER NOT NULL,
+    "time" TIMESTAMP(3) NOT NULL,
+    "open" DOUBLE PRECISION NOT NULL,
+    "high" DOUBLE PRECISION NOT NULL,
+    "low" DOUBLE PRECISION NOT NULL,
+    "close" DOUBLE PRECISION NOT NULL,
+    "volume" INTEGER NOT NULL DEFAULT 0,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "Candle_pkey" PRIMARY KEY ("id")
+);
+
+CREATE UNIQUE INDEX IF NOT EXISTS "Candle_symbol_resolution_time_key" ON "Candle"("symbol", "resolution", "time");
+CREATE INDEX IF NOT EXISTS "Candle_resolution_time_idx" ON "Candle"("resolution", "time");
+
+-- Verify the table was created
+SELECT column_name, data_type, is_nullable
+FROM information_schema.columns
+WHERE table_name = 'Candle';
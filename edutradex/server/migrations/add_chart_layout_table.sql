@@ -0,0 +1,26 @@
+-- Add ChartLayout table for chart settings, drawings and templates synced to the account
+-- The chart workspace was previously only kept in browser storage, so it was lost
+-- when switching devices; each row is one versioned document
+-- This is safe to run on production - new tables only
+
+CREATE TABLE IF NOT EXISTS "ChartLayout" (
+    "id" TEXT NOT NULL,
+    "userId" TEXT NOT NULL,
+    "kind" TEXT NOT NULL,
+    "key" TEXT NOT NULL,
+    "data" JSONB NOT NULL,
+    "version" INTEGER NOT NULL DEFAULT 1,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "ChartLayout_pkey" PRIMARY KEY ("id"),
+    CONSTRAINT "ChartLayout_userId_fkey" FOREIGN KEY ("userId") REFERENCES "User"("id") ON DELETE CASCADE ON UPDATE CASCADE
+);
+
+CREATE UNIQUE INDEX IF NOT EXISTS "ChartLayout_userId_kind_key_key" ON "ChartLayout"("userId", "kind", "key");
+
+-- Verify the table was created
+SELECT table_name, column_name, data_type, is_nullable
+FROM information_schema.columns
+WHERE table_name = 'ChartLayout'
+ORDER BY ordinal_position;
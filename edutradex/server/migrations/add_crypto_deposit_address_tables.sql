@@ -0,0 +1,62 @@
+-- Add per-user crypto deposit addresses and the chain watcher's transfer log
+-- Deposit gains the network, the on-chain amount and a review reason for
+-- payments that could not be credited automatically
+-- This is safe to run on production - new tables and nullable columns only
+
+ALTER TABLE "Deposit"
+ADD COLUMN IF NOT EXISTS "network" TEXT;
+
+ALTER TABLE "Deposit"
+ADD COLUMN IF NOT EXISTS "cryptoAmount" DECIMAL(36,18);
+
+ALTER TABLE "Deposit"
+ADD COLUMN IF NOT EXISTS "reviewReason" TEXT;
+
+CREATE INDEX IF NOT EXISTS "Deposit_walletAddress_idx" ON "Deposit"("walletAddress");
+
+CREATE TABLE IF NOT EXISTS "CryptoDepositAddress" (
+    "id" TEXT NOT NULL,
+    "userId" TEXT NOT NULL,
+    "network" TEXT NOT NULL,
+    "address" TEXT NOT NULL,
+    "derivationIndex" INTEGER NOT NULL,
+    "lastRequestedAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "lastCheckedAt" TIMESTAMP(3),
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "CryptoDepositAddress_pkey" PRIMARY KEY ("id"),
+    CONSTRAINT "CryptoDepositAddress_userId_fkey" FOREIGN KEY ("userId") REFERENCES "User"("id") ON DELETE CASCADE ON UPDATE CASCADE
+);
+
+CREATE UNIQUE INDEX IF NOT EXISTS "CryptoDepositAddress_userId_network_key" ON "CryptoDepositAddress"("userId", "network");
+CREATE UNIQUE INDEX IF NOT EXISTS "CryptoDepositAddress_network_derivationIndex_key" ON "CryptoDepositAddress"("network", "derivationIndex");
+CREATE UNIQUE INDEX IF NOT EXISTS "CryptoDepositAddress_network_address_key" ON "CryptoDepositAddress"("network", "address");
+CREATE INDEX IF NOT EXISTS "CryptoDepositAddress_lastRequestedAt_idx" ON "CryptoDepositAddress"("lastRequestedAt");
+
+CREATE TABLE IF NOT EXISTS "CryptoTransfer" (
+    "id" TEXT NOT NULL,
+    "network" TEXT NOT NULL,
+    "txHash" TEXT NOT NULL,
+    "transferIndex" INTEGER NOT NULL,
+    "address" TEXT NOT NULL,
+    "userId" TEXT NOT NULL,
+    "asset" TEXT NOT NULL,
+    "amount" DECIMAL(36,18) NOT NULL,
+    "confirmations" INTEGER NOT NULL DEFAULT 0,
+    "status" TEXT NOT NULL DEFAULT 'CONFIRMING',
+    "depositId" TEXT,
+    "detectedAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "settledAt" TIMESTAMP(3),
+
+    CONSTRAINT "CryptoTransfer_pkey" PRIMARY KEY ("id")
+);
+
+CREATE UNIQUE INDEX IF NOT EXISTS "CryptoTransfer_network_txHash_transferIndex_key" ON "CryptoTransfer"("network", "txHash", "transferIndex");
+CREATE INDEX IF NOT EXISTS "CryptoTransfer_status_idx" ON "CryptoTransfer"("status");
+CREATE INDEX IF NOT EXISTS "CryptoTransfer_userId_idx" ON "CryptoTransfer"("userId");
+
+-- Verify the tables were created
+SELECT table_name, column_name, data_type
+FROM information_schema.columns
+WHERE table_name IN ('CryptoDepositAddress', 'CryptoTransfer')
+   OR (table_name = 'Deposit' AND column_name IN ('network', 'cryptoAmount', 'reviewReason'));
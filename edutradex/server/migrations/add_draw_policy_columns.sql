@@ -0,0 +1,20 @@
+-- Add DRAW outcome support
+-- drawPolicy decides what happens when a trade's exit price equals its entry price:
+-- 'REFUND' settles the trade as DRAW and returns the stake, 'LOSE' settles it as LOST.
+-- NULL falls back to the DEFAULT_DRAW_POLICY environment setting.
+-- This is safe to run on production - nullable/defaulted columns, existing rows are not affected
+
+ALTER TABLE "MarketConfig"
+ADD COLUMN IF NOT EXISTS "drawPolicy" TEXT;
+
+ALTER TABLE "OTCConfig"
+ADD COLUMN IF NOT EXISTS "drawPolicy" TEXT;
+
+ALTER TABLE "BrokerFinancialSnapshot"
+ADD COLUMN IF NOT EXISTS "drawTrades" INTEGER NOT NULL DEFAULT 0;
+
+-- Verify the columns were added
+SELECT table_name, column_name, data_type, is_nullable
+FROM information_schema.columns
+WHERE (table_name IN ('MarketConfig', 'OTCConfig') AND column_name = 'drawPolicy')
+   OR (table_name = 'BrokerFinancialSnapshot' AND column_name = 'drawTrades');
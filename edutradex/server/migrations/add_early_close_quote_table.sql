@@ -0,0 +1,31 @@
+-- Add EarlyCloseQuote table
+-- Early close quotes were held in the memory of the instance that issued them,
+-- so accepting one on another instance of a cluster failed with "quote not
+-- found". Quotes are now stored here and deleted when accepted or expired
+-- This is safe to run on production - new table only
+
+CREATE TABLE IF NOT EXISTS "EarlyCloseQuote" (
+    "id" TEXT NOT NULL,
+    "tradeId" TEXT NOT NULL,
+    "userId" TEXT NOT NULL,
+    "closeValue" DECIMAL(18,2) NOT NULL,
+    "currentPrice" DOUBLE PRECISION NOT NULL,
+    "priceTimestamp" TIMESTAMP(3) NOT NULL,
+    "priceSource" TEXT NOT NULL,
+    "remainingSeconds" INTEGER NOT NULL,
+    "winProbability" DOUBLE PRECISION NOT NULL,
+    "feePercent" DOUBLE PRECISION NOT NULL,
+    "quotedAt" TIMESTAMP(3) NOT NULL,
+    "validUntil" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "EarlyCloseQuote_pkey" PRIMARY KEY ("id"),
+    CONSTRAINT "EarlyCloseQuote_tradeId_fkey" FOREIGN KEY ("tradeId") REFERENCES "Trade"("id") ON DELETE CASCADE ON UPDATE CASCADE
+);
+
+CREATE INDEX IF NOT EXISTS "EarlyCloseQuote_tradeId_idx" ON "EarlyCloseQuote"("tradeId");
+CREATE INDEX IF NOT EXISTS "EarlyCloseQuote_validUntil_idx" ON "EarlyCloseQuote"("validUntil");
+
+-- Verify the table was created
+SELECT column_name, data_type, is_nullable
+FROM information_schema.columns
+WHERE table_name = 'EarlyCloseQuote';
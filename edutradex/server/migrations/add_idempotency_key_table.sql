@@ -0,0 +1,30 @@
+-- Add IdempotencyKey table for Idempotency-Key header support
+-- Stores the first response per (userId, key, route) so client retries of
+-- trade, deposit and withdrawal requests are replayed instead of re-executed
+-- This is safe to run on production - new table only
+
+CREATE TABLE IF NOT EXISTS "IdempotencyKey" (
+    "id" TEXT NOT NULL,
+    "userId" TEXT NOT NULL,
+    "key" TEXT NOT NULL,
+    "route" TEXT NOT NULL,
+    "requestHash" TEXT NOT NULL,
+    "status" TEXT NOT NULL DEFAULT 'IN_PROGRESS',
+    "responseStatus" INTEGER,
+    "responseBody" JSONB,
+    "lockedUntil" TIMESTAMP(3) NOT NULL,
+    "expiresAt" TIMESTAMP(3) NOT NULL,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "completedAt" TIMESTAMP(3),
+
+    CONSTRAINT "IdempotencyKey_pkey" PRIMARY KEY ("id"),
+    CONSTRAINT "IdempotencyKey_userId_fkey" FOREIGN KEY ("userId") REFERENCES "User"("id") ON DELETE CASCADE ON UPDATE CASCADE
+);
+
+CREATE UNIQUE INDEX IF NOT EXISTS "IdempotencyKey_userId_key_route_key" ON "IdempotencyKey"("userId", "key", "route");
+CREATE INDEX IF NOT EXISTS "IdempotencyKey_expiresAt_idx" ON "IdempotencyKey"("expiresAt");
+
+-- Verify the table was created
+SELECT column_name, data_type, is_nullable
+FROM information_schema.columns
+WHERE table_name = 'IdempotencyKey';
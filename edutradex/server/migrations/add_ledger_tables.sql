@@ -0,0 +1,94 @@
+-- Add double-entry ledger tables
+-- LedgerEntry holds balanced DEBIT/CREDIT journal lines for every balance movement.
+-- LedgerDiscrepancy records mismatches found by the nightly reconciliation.
+-- Existing users get opening journals for their current balances so the ledger
+-- reconciles from day one. Users that already have ledger lines are skipped,
+-- so the backfill can be re-run safely.
+
+CREATE TABLE IF NOT EXISTS "LedgerEntry" (
+    "id" TEXT NOT NULL,
+    "journalId" TEXT NOT NULL,
+    "userId" TEXT,
+    "account" TEXT NOT NULL,
+    "side" TEXT NOT NULL,
+    "amount" DOUBLE PRECISION NOT NULL,
+    "reason" TEXT NOT NULL,
+    "sourceType" TEXT,
+    "sourceId" TEXT,
+    "description" TEXT,
+    "balanceAfter" DOUBLE PRECISION,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "LedgerEntry_pkey" PRIMARY KEY ("id")
+);
+
+CREATE INDEX IF NOT EXISTS "LedgerEntry_userId_account_createdAt_idx" ON "LedgerEntry"("userId", "account", "createdAt");
+CREATE INDEX IF NOT EXISTS "LedgerEntry_journalId_idx" ON "LedgerEntry"("journalId");
+CREATE INDEX IF NOT EXISTS "LedgerEntry_sourceType_sourceId_idx" ON "LedgerEntry"("sourceType", "sourceId");
+CREATE INDEX IF NOT EXISTS "LedgerEntry_reason_idx" ON "LedgerEntry"("reason");
+
+CREATE TABLE IF NOT EXISTS "LedgerDiscrepancy" (
+    "id" TEXT NOT NULL,
+    "userId" TEXT NOT NULL,
+    "account" TEXT NOT NULL,
+    "storedBalance" DOUBLE PRECISION NOT NULL,
+    "ledgerBalance" DOUBLE PRECISION NOT NULL,
+    "difference" DOUBLE PRECISION NOT NULL,
+    "detectedAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "lastCheckedAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "resolvedAt" TIMESTAMP(3),
+
+    CONSTRAINT "LedgerDiscrepancy_pkey" PRIMARY KEY ("id")
+);
+
+CREATE INDEX IF NOT EXISTS "LedgerDiscrepancy_userId_idx" ON "LedgerDiscrepancy"("userId");
+CREATE INDEX IF NOT EXISTS "LedgerDiscrepancy_resolvedAt_idx" ON "LedgerDiscrepancy"("resolvedAt");
+
+-- Opening balances for existing users
+-- LIVE (demoBalance) is split into the referral earnings already paid and the rest,
+-- so referralEarnings reconciles against REFERRAL_COMMISSION lines.
+WITH openings AS (
+    SELECT u.id AS "userId", 'USER_LIVE' AS account, 'HOUSE_OPENING' AS contra, 'OPENING_BALANCE' AS reason,
+           u."demoBalance" - u."referralEarnings" AS amount, u."demoBalance" AS "balanceAfter"
+    FROM "User" u
+    UNION ALL
+    SELECT u.id, 'USER_LIVE', 'HOUSE_REFERRAL', 'REFERRAL_COMMISSION',
+           u."referralEarnings", u."demoBalance"
+    FROM "User" u
+    UNION ALL
+    SELECT u.id, 'USER_DEMO', 'HOUSE_DEMO', 'OPENING_BALANCE',
+           u."practiceBalance", u."practiceBalance"
+    FROM "User" u
+),
+journals AS (
+    SELECT gen_random_uuid()::text AS "journalId", o.*
+    FROM openings o
+    WHERE o.amount <> 0
+      AND NOT EXISTS (SELECT 1 FROM "LedgerEntry" l WHERE l."userId" = o."userId")
+)
+INSERT INTO "LedgerEntry" (
+    "id", "journalId", "userId", "account", "side", "amount", "reason",
+    "sourceType", "sourceId", "description", "balanceAfter", "createdAt"
+)
+SELECT gen_random_uuid()::text, j."journalId", j."userId", j.account,
+       CASE WHEN j.amount > 0 THEN 'CREDIT' ELSE 'DEBIT' END, ABS(j.amount), j.reason,
+       'USER', j."userId", 'Opening balance (ledger backfill)', j."balanceAfter", CURRENT_TIMESTAMP
+FROM journals j
+UNION ALL
+SELECT gen_random_uuid()::text, j."journalId", j."userId", j.contra,
+       CASE WHEN j.amount > 0 THEN 'DEBIT' ELSE 'CREDIT' END, ABS(j.amount), j.reason,
+       'USER', j."userId", 'Opening balance (ledger backfill)', NULL, CURRENT_TIMESTAMP
+FROM journals j;
+
+-- Verify the tables were created and the backfill is balanced
+SELECT table_name, column_name, data_type, is_nullable
+FROM information_schema.columns
+WHERE table_name IN ('LedgerEntry', 'LedgerDiscrepancy');
+
+SELECT COUNT(*) AS unbalanced_journals
+FROM (
+    SELECT "journalId"
+    FROM "LedgerEntry"
+    GROUP BY "journalId"
+    HAVING ABS(SUM(CASE WHEN "side" = 'DEBIT' THEN "amount" ELSE -"amount" END)) > 0.01
+) j;
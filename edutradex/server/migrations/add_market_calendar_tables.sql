@@ -0,0 +1,66 @@
+-- Add MarketSession and MarketHoliday tables for the market hours calendar
+-- Trades on forex, stock and index symbols are only accepted while their sessions are open
+-- Seeds the current hours: forex Sunday 17:00 to Friday 17:00, stocks and indices
+-- weekdays 09:30 to 16:00 (America/New_York). Crypto has no sessions and stays 24/7.
+-- This is safe to run on production - new tables and a nullable column only
+
+CREATE TABLE IF NOT EXISTS "MarketSession" (
+    "id" TEXT NOT NULL,
+    "marketType" TEXT NOT NULL,
+    "exchange" TEXT,
+    "openDay" INTEGER NOT NULL,
+    "openTime" TEXT NOT NULL,
+    "closeDay" INTEGER NOT NULL,
+    "closeTime" TEXT NOT NULL,
+    "timezone" TEXT NOT NULL DEFAULT 'America/New_York',
+    "isActive" BOOLEAN NOT NULL DEFAULT true,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "MarketSession_pkey" PRIMARY KEY ("id")
+);
+
+CREATE INDEX IF NOT EXISTS "MarketSession_marketType_exchange_idx" ON "MarketSession"("marketType", "exchange");
+
+CREATE TABLE IF NOT EXISTS "MarketHoliday" (
+    "id" TEXT NOT NULL,
+    "name" TEXT NOT NULL,
+    "date" TEXT NOT NULL,
+    "marketType" TEXT,
+    "exchange" TEXT,
+    "earlyCloseTime" TEXT,
+    "createdBy" TEXT,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "MarketHoliday_pkey" PRIMARY KEY ("id")
+);
+
+CREATE INDEX IF NOT EXISTS "MarketHoliday_date_idx" ON "MarketHoliday"("date");
+
+ALTER TABLE "MarketConfig"
+ADD COLUMN IF NOT EXISTS "exchange" TEXT;
+
+-- Default sessions, only when none exist yet
+INSERT INTO "MarketSession" ("id", "marketType", "exchange", "openDay", "openTime", "closeDay", "closeTime", "timezone", "updatedAt")
+SELECT gen_random_uuid()::text, s."marketType", NULL, s."openDay", s."openTime", s."closeDay", s."closeTime", 'America/New_York', CURRENT_TIMESTAMP
+FROM (VALUES
+    ('forex', 0, '17:00', 5, '17:00'),
+    ('stock', 1, '09:30', 1, '16:00'),
+    ('stock', 2, '09:30', 2, '16:00'),
+    ('stock', 3, '09:30', 3, '16:00'),
+    ('stock', 4, '09:30', 4, '16:00'),
+    ('stock', 5, '09:30', 5, '16:00'),
+    ('index', 1, '09:30', 1, '16:00'),
+    ('index', 2, '09:30', 2, '16:00'),
+    ('index', 3, '09:30', 3, '16:00'),
+    ('index', 4, '09:30', 4, '16:00'),
+    ('index', 5, '09:30', 5, '16:00')
+) AS s("marketType", "openDay", "openTime", "closeDay", "closeTime")
+WHERE NOT EXISTS (SELECT 1 FROM "MarketSession");
+
+-- Verify the tables were created
+SELECT table_name, column_name, data_type, is_nullable
+FROM information_schema.columns
+WHERE table_name IN ('MarketSession', 'MarketHoliday')
+   OR (table_name = 'MarketConfig' AND column_name = 'exchange');
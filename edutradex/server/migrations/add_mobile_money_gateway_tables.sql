@@ -0,0 +1,53 @@
+-- Add the mobile money gateway's transaction log and callback replay guard
+-- Each push-payment collection or payout sent to a provider is one
+-- MobileMoneyTransaction; every accepted callback is recorded once in
+-- MobileMoneyCallbackEvent so a replayed delivery is ignored
+-- This is safe to run on production - new tables only
+
+CREATE TABLE IF NOT EXISTS "MobileMoneyTransaction" (
+    "id" TEXT NOT NULL,
+    "type" TEXT NOT NULL,
+    "provider" TEXT NOT NULL,
+    "userId" TEXT NOT NULL,
+    "depositId" TEXT,
+    "withdrawalId" TEXT,
+    "phoneNumber" TEXT NOT NULL,
+    "mobileProvider" TEXT NOT NULL,
+    "amount" DECIMAL(18,2) NOT NULL,
+    "currency" TEXT NOT NULL,
+    "status" TEXT NOT NULL DEFAULT 'PENDING',
+    "providerReference" TEXT,
+    "failureReason" TEXT,
+    "completedAt" TIMESTAMP(3),
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "MobileMoneyTransaction_pkey" PRIMARY KEY ("id")
+);
+
+CREATE UNIQUE INDEX IF NOT EXISTS "MobileMoneyTransaction_provider_providerReference_key" ON "MobileMoneyTransaction"("provider", "providerReference");
+CREATE INDEX IF NOT EXISTS "MobileMoneyTransaction_depositId_idx" ON "MobileMoneyTransaction"("depositId");
+CREATE INDEX IF NOT EXISTS "MobileMoneyTransaction_withdrawalId_idx" ON "MobileMoneyTransaction"("withdrawalId");
+CREATE INDEX IF NOT EXISTS "MobileMoneyTransaction_status_createdAt_idx" ON "MobileMoneyTransaction"("status", "createdAt");
+
+-- At most one live payout per withdrawal, so a double approval cannot pay twice
+CREATE UNIQUE INDEX IF NOT EXISTS "MobileMoneyTransaction_active_payout_key"
+ON "MobileMoneyTransaction"("withdrawalId") WHERE "type" = 'PAYOUT' AND "status" <> 'FAILED';
+
+CREATE TABLE IF NOT EXISTS "MobileMoneyCallbackEvent" (
+    "id" TEXT NOT NULL,
+    "provider" TEXT NOT NULL,
+    "eventId" TEXT NOT NULL,
+    "providerReference" TEXT NOT NULL,
+    "receivedAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "MobileMoneyCallbackEvent_pkey" PRIMARY KEY ("id")
+);
+
+CREATE UNIQUE INDEX IF NOT EXISTS "MobileMoneyCallbackEvent_provider_eventId_key" ON "MobileMoneyCallbackEvent"("provider", "eventId");
+CREATE INDEX IF NOT EXISTS "MobileMoneyCallbackEvent_receivedAt_idx" ON "MobileMoneyCallbackEvent"("receivedAt");
+
+-- Verify the tables were created
+SELECT table_name, column_name, data_type
+FROM information_schema.columns
+WHERE table_name IN ('MobileMoneyTransaction', 'MobileMoneyCallbackEvent');
@@ -0,0 +1,31 @@
+-- Add PayoutRule table for the payout schedule engine
+-- Rules override MarketConfig/OTCConfig payouts by symbol, market type, duration and time of day
+-- This is safe to run on production - new table only, existing payouts keep applying until rules are added
+
+CREATE TABLE IF NOT EXISTS "PayoutRule" (
+    "id" TEXT NOT NULL,
+    "name" TEXT NOT NULL,
+    "symbol" TEXT,
+    "marketType" TEXT,
+    "minDuration" INTEGER,
+    "maxDuration" INTEGER,
+    "windowStart" TEXT,
+    "windowEnd" TEXT,
+    "payoutPercent" DOUBLE PRECISION NOT NULL,
+    "priority" INTEGER NOT NULL DEFAULT 0,
+    "isActive" BOOLEAN NOT NULL DEFAULT true,
+    "createdBy" TEXT,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "PayoutRule_pkey" PRIMARY KEY ("id")
+);
+
+CREATE INDEX IF NOT EXISTS "PayoutRule_symbol_idx" ON "PayoutRule"("symbol");
+CREATE INDEX IF NOT EXISTS "PayoutRule_marketType_idx" ON "PayoutRule"("marketType");
+CREATE INDEX IF NOT EXISTS "PayoutRule_isActive_idx" ON "PayoutRule"("isActive");
+
+-- Verify the table was created
+SELECT column_name, data_type, is_nullable
+FROM information_schema.columns
+WHERE table_name = 'PayoutRule';
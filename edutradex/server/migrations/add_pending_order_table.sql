@@ -0,0 +1,39 @@
+-- Add PendingOrder table for price and time triggered trades
+-- Orders are held PENDING until their trigger fires, then placed through the normal trade flow
+-- This is safe to run on production - new table only
+
+CREATE TABLE IF NOT EXISTS "PendingOrder" (
+    "id" TEXT NOT NULL,
+    "userId" TEXT NOT NULL,
+    "symbol" TEXT NOT NULL,
+    "direction" TEXT NOT NULL,
+    "amount" DOUBLE PRECISION NOT NULL,
+    "duration" INTEGER NOT NULL,
+    "marketType" TEXT NOT NULL,
+    "accountType" TEXT NOT NULL,
+    "triggerType" TEXT NOT NULL,
+    "triggerPrice" DOUBLE PRECISION,
+    "triggerCondition" TEXT,
+    "triggerAt" TIMESTAMP(3),
+    "status" TEXT NOT NULL DEFAULT 'PENDING',
+    "expiresAt" TIMESTAMP(3) NOT NULL,
+    "tradeId" TEXT,
+    "failureReason" TEXT,
+    "triggeredAt" TIMESTAMP(3),
+    "cancelledAt" TIMESTAMP(3),
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "PendingOrder_pkey" PRIMARY KEY ("id"),
+    CONSTRAINT "PendingOrder_userId_fkey" FOREIGN KEY ("userId") REFERENCES "User"("id") ON DELETE CASCADE ON UPDATE CASCADE
+);
+
+CREATE INDEX IF NOT EXISTS "PendingOrder_userId_idx" ON "PendingOrder"("userId");
+CREATE INDEX IF NOT EXISTS "PendingOrder_status_idx" ON "PendingOrder"("status");
+CREATE INDEX IF NOT EXISTS "PendingOrder_userId_status_idx" ON "PendingOrder"("userId", "status");
+CREATE INDEX IF NOT EXISTS "PendingOrder_status_expiresAt_idx" ON "PendingOrder"("status", "expiresAt");
+
+-- Verify the table was created
+SELECT column_name, data_type, is_nullable
+FROM information_schema.columns
+WHERE table_name = 'PendingOrder';
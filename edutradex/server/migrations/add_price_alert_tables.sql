@@ -0,0 +1,61 @@
+-- Add PriceAlert and PriceAlertEvent tables for server-side price alerts
+-- Alerts are evaluated on the server against live and OTC ticks; every firing is
+-- stored as a PriceAlertEvent, which doubles as the user's alert inbox
+-- This is safe to run on production - new tables only
+
+CREATE TABLE IF NOT EXISTS "PriceAlert" (
+    "id" TEXT NOT NULL,
+    "userId" TEXT NOT NULL,
+    "symbol" TEXT NOT NULL,
+    "type" TEXT NOT NULL,
+    "targetPrice" DOUBLE PRECISION,
+    "percentChange" DOUBLE PRECISION,
+    "windowMinutes" INTEGER,
+    "rsiPeriod" INTEGER,
+    "rsiResolution" INTEGER,
+    "rsiThreshold" DOUBLE PRECISION,
+    "mode" TEXT NOT NULL DEFAULT 'ONE_SHOT',
+    "cooldownMinutes" INTEGER NOT NULL DEFAULT 60,
+    "notifyEmail" BOOLEAN NOT NULL DEFAULT false,
+    "note" TEXT,
+    "isActive" BOOLEAN NOT NULL DEFAULT true,
+    "triggerCount" INTEGER NOT NULL DEFAULT 0,
+    "lastTriggeredAt" TIMESTAMP(3),
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "PriceAlert_pkey" PRIMARY KEY ("id"),
+    CONSTRAINT "PriceAlert_userId_fkey" FOREIGN KEY ("userId") REFERENCES "User"("id") ON DELETE CASCADE ON UPDATE CASCADE
+);
+
+CREATE INDEX IF NOT EXISTS "PriceAlert_userId_idx" ON "PriceAlert"("userId");
+CREATE INDEX IF NOT EXISTS "PriceAlert_isActive_idx" ON "PriceAlert"("isActive");
+CREATE INDEX IF NOT EXISTS "PriceAlert_userId_isActive_idx" ON "PriceAlert"("userId", "isActive");
+
+CREATE TABLE IF NOT EXISTS "PriceAlertEvent" (
+    "id" TEXT NOT NULL,
+    "alertId" TEXT NOT NULL,
+    "userId" TEXT NOT NULL,
+    "symbol" TEXT NOT NULL,
+    "type" TEXT NOT NULL,
+    "message" TEXT NOT NULL,
+    "price" DOUBLE PRECISION NOT NULL,
+    "value" DOUBLE PRECISION,
+    "emailSent" BOOLEAN NOT NULL DEFAULT false,
+    "isRead" BOOLEAN NOT NULL DEFAULT false,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "PriceAlertEvent_pkey" PRIMARY KEY ("id"),
+    CONSTRAINT "PriceAlertEvent_alertId_fkey" FOREIGN KEY ("alertId") REFERENCES "PriceAlert"("id") ON DELETE CASCADE ON UPDATE CASCADE,
+    CONSTRAINT "PriceAlertEvent_userId_fkey" FOREIGN KEY ("userId") REFERENCES "User"("id") ON DELETE CASCADE ON UPDATE CASCADE
+);
+
+CREATE INDEX IF NOT EXISTS "PriceAlertEvent_userId_createdAt_idx" ON "PriceAlertEvent"("userId", "createdAt");
+CREATE INDEX IF NOT EXISTS "PriceAlertEvent_userId_isRead_idx" ON "PriceAlertEvent"("userId", "isRead");
+CREATE INDEX IF NOT EXISTS "PriceAlertEvent_alertId_idx" ON "PriceAlertEvent"("alertId");
+
+-- Verify the tables were created
+SELECT table_name, column_name, data_type, is_nullable
+FROM information_schema.columns
+WHERE table_name IN ('PriceAlert', 'PriceAlertEvent')
+ORDER BY table_name, ordinal_position;
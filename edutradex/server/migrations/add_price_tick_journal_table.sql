@@ -0,0 +1,24 @@
+-- Add PriceTickJournal table for per-trade replay of real (non-OTC) symbols
+-- Ticks are persisted only for symbols that have open trades, and purged after
+-- the configured retention period (PRICE_TICK_JOURNAL_RETENTION_DAYS)
+-- This is safe to run on production - new table only
+
+CREATE TABLE IF NOT EXISTS "PriceTickJournal" (
+    "id" TEXT NOT NULL,
+    "symbol" TEXT NOT NULL,
+    "price" DOUBLE PRECISION NOT NULL,
+    "bid" DOUBLE PRECISION NOT NULL,
+    "ask" DOUBLE PRECISION NOT NULL,
+    "source" TEXT NOT NULL,
+    "timestamp" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "PriceTickJournal_pkey" PRIMARY KEY ("id")
+);
+
+CREATE INDEX IF NOT EXISTS "PriceTickJournal_symbol_timestamp_idx" ON "PriceTickJournal"("symbol", "timestamp");
+CREATE INDEX IF NOT EXISTS "PriceTickJournal_timestamp_idx" ON "PriceTickJournal"("timestamp");
+
+-- Verify the table was created
+SELECT column_name, data_type, is_nullable
+FROM information_schema.columns
+WHERE table_name = 'PriceTickJournal';
@@ -0,0 +1,14 @@
+-- Add settlement tick columns to Trade table
+-- Records which journaled tick (timestamp + feed source) a trade settled against
+-- This is safe to run on production - nullable columns, existing rows are not affected
+
+ALTER TABLE "Trade"
+ADD COLUMN IF NOT EXISTS "exitTickAt" TIMESTAMP(3);
+
+ALTER TABLE "Trade"
+ADD COLUMN IF NOT EXISTS "exitTickSource" TEXT;
+
+-- Verify the columns were added
+SELECT column_name, data_type, is_nullable
+FROM information_schema.columns
+WHERE table_name = 'Trade' AND column_name IN ('exitTickAt', 'exitTickSource');
@@ -0,0 +1,45 @@
+-- Add self-imposed trading limits (responsible trading)
+-- TradingLimits holds one row per user with their current limits, time-out and
+-- self-exclusion; PendingLimitChange holds limit increases waiting out the
+-- cooling delay before they take effect
+-- This is safe to run on production - new tables only
+
+CREATE TABLE IF NOT EXISTS "TradingLimits" (
+    "id" TEXT NOT NULL,
+    "userId" TEXT NOT NULL,
+    "dailyLossLimit" DECIMAL(18,2),
+    "dailyStakeLimit" DECIMAL(18,2),
+    "maxOpenTrades" INTEGER,
+    "maxStakePerTrade" DECIMAL(18,2),
+    "sessionTimeLimitMinutes" INTEGER,
+    "timeOutUntil" TIMESTAMP(3),
+    "selfExcludedUntil" TIMESTAMP(3),
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "TradingLimits_pkey" PRIMARY KEY ("id"),
+    CONSTRAINT "TradingLimits_userId_fkey" FOREIGN KEY ("userId") REFERENCES "User"("id") ON DELETE CASCADE ON UPDATE CASCADE
+);
+
+CREATE UNIQUE INDEX IF NOT EXISTS "TradingLimits_userId_key" ON "TradingLimits"("userId");
+
+CREATE TABLE IF NOT EXISTS "PendingLimitChange" (
+    "id" TEXT NOT NULL,
+    "userId" TEXT NOT NULL,
+    "limitType" TEXT NOT NULL,
+    "newValue" DECIMAL(18,2),
+    "effectiveAt" TIMESTAMP(3) NOT NULL,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "PendingLimitChange_pkey" PRIMARY KEY ("id"),
+    CONSTRAINT "PendingLimitChange_userId_fkey" FOREIGN KEY ("userId") REFERENCES "User"("id") ON DELETE CASCADE ON UPDATE CASCADE
+);
+
+CREATE UNIQUE INDEX IF NOT EXISTS "PendingLimitChange_userId_limitType_key" ON "PendingLimitChange"("userId", "limitType");
+CREATE INDEX IF NOT EXISTS "PendingLimitChange_effectiveAt_idx" ON "PendingLimitChange"("effectiveAt");
+
+-- Verify the tables were created
+SELECT table_name, column_name, data_type, is_nullable
+FROM information_schema.columns
+WHERE table_name IN ('TradingLimits', 'PendingLimitChange')
+ORDER BY table_name, ordinal_position;
@@ -0,0 +1,13 @@
+-- Add session start to TradingLimits
+-- The session time limit was measured from User.lastLoginAt, which every sign in
+-- resets. A session now starts with the first LIVE trade and is only replaced once
+-- the limit and the following cool-off period have both passed
+-- This is safe to run on production - nullable column, existing rows are not affected
+
+ALTER TABLE "TradingLimits"
+ADD COLUMN IF NOT EXISTS "sessionStartedAt" TIMESTAMP(3);
+
+-- Verify the column was added
+SELECT column_name, data_type, is_nullable
+FROM information_schema.columns
+WHERE table_name = 'TradingLimits' AND column_name = 'sessionStartedAt';
@@ -0,0 +1,40 @@
+-- Add the full withdrawal lifecycle
+-- Status now runs PENDING -> UNDER_REVIEW -> APPROVED -> PROCESSING ->
+-- COMPLETED | FAILED, plus REJECTED and CANCELLED; the new columns record
+-- who reviewed the request, when each step happened and the payout proof
+-- This is safe to run on production - nullable columns only
+
+ALTER TABLE "Withdrawal"
+ADD COLUMN IF NOT EXISTS "reviewedBy" TEXT;
+
+ALTER TABLE "Withdrawal"
+ADD COLUMN IF NOT EXISTS "reviewedAt" TIMESTAMP(3);
+
+ALTER TABLE "Withdrawal"
+ADD COLUMN IF NOT EXISTS "payoutReference" TEXT;
+
+ALTER TABLE "Withdrawal"
+ADD COLUMN IF NOT EXISTS "payoutReceiptUrl" TEXT;
+
+ALTER TABLE "Withdrawal"
+ADD COLUMN IF NOT EXISTS "payoutSentAt" TIMESTAMP(3);
+
+ALTER TABLE "Withdrawal"
+ADD COLUMN IF NOT EXISTS "completedAt" TIMESTAMP(3);
+
+ALTER TABLE "Withdrawal"
+ADD COLUMN IF NOT EXISTS "failedAt" TIMESTAMP(3);
+
+ALTER TABLE "Withdrawal"
+ADD COLUMN IF NOT EXISTS "cancelledAt" TIMESTAMP(3);
+
+-- Before this change APPROVED meant the money had been sent
+UPDATE "Withdrawal"
+SET status = 'COMPLETED', "completedAt" = COALESCE("processedAt", "updatedAt")
+WHERE status = 'APPROVED';
+
+-- Verify the columns were added
+SELECT column_name, data_type
+FROM information_schema.columns
+WHERE table_name = 'Withdrawal'
+  AND column_name IN ('reviewedBy', 'reviewedAt', 'payoutReference', 'payoutReceiptUrl', 'payoutSentAt', 'completedAt', 'failedAt', 'cancelledAt');
@@ -0,0 +1,45 @@
+-- Add the withdrawal rules engine
+-- WithdrawalRuleSettings holds the single row of rule configuration; each
+-- rule's action is OFF, HOLD (send the request to review) or DENY. Withdrawals
+-- record the combined outcome and every rule's reason, and users record when
+-- their password or two-factor setup last changed for the security cooldown
+-- This is safe to run on production - new table and defaulted columns only
+
+CREATE TABLE IF NOT EXISTS "WithdrawalRuleSettings" (
+    "id" TEXT NOT NULL,
+    "turnoverAction" TEXT NOT NULL DEFAULT 'HOLD',
+    "turnoverMultiplier" DOUBLE PRECISION NOT NULL DEFAULT 1,
+    "closedLoopAction" TEXT NOT NULL DEFAULT 'DENY',
+    "velocityAction" TEXT NOT NULL DEFAULT 'HOLD',
+    "dailyAmountLimit" DECIMAL(18,2),
+    "dailyCountLimit" INTEGER,
+    "weeklyAmountLimit" DECIMAL(18,2),
+    "weeklyCountLimit" INTEGER,
+    "cooldownAction" TEXT NOT NULL DEFAULT 'HOLD',
+    "cooldownHours" INTEGER NOT NULL DEFAULT 24,
+    "isActive" BOOLEAN NOT NULL DEFAULT true,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "WithdrawalRuleSettings_pkey" PRIMARY KEY ("id")
+);
+
+ALTER TABLE "Withdrawal"
+ADD COLUMN IF NOT EXISTS "ruleOutcome" TEXT;
+
+ALTER TABLE "Withdrawal"
+ADD COLUMN IF NOT EXISTS "ruleChecks" JSONB NOT NULL DEFAULT '[]';
+
+ALTER TABLE "User"
+ADD COLUMN IF NOT EXISTS "passwordChangedAt" TIMESTAMP(3);
+
+ALTER TABLE "User"
+ADD COLUMN IF NOT EXISTS "twoFactorChangedAt" TIMESTAMP(3);
+
+-- Verify the table and columns were added
+SELECT table_name, column_name, data_type
+FROM information_schema.columns
+WHERE table_name = 'WithdrawalRuleSettings'
+   OR (table_name = 'Withdrawal' AND column_name IN ('ruleOutcome', 'ruleChecks'))
+   OR (table_name = 'User' AND column_name IN ('passwordChangedAt', 'twoFactorChangedAt'))
+ORDER BY table_name, ordinal_position;
@@ -0,0 +1,163 @@
+-- Move money columns from DOUBLE PRECISION to exact DECIMAL(18,2)
+-- Existing values are rounded half away from zero to whole cents (Postgres ROUND on numeric),
+-- the same policy the server applies in utils/money.ts.
+-- Run inside a single transaction; ALTER COLUMN TYPE rewrites each table, so schedule
+-- it in a maintenance window on large databases. Re-running is a no-op cast.
+
+BEGIN;
+
+ALTER TABLE "User"
+    ALTER COLUMN "liveBalance" TYPE DECIMAL(18,2) USING ROUND("liveBalance"::numeric, 2),
+    ALTER COLUMN "demoBalance" TYPE DECIMAL(18,2) USING ROUND("demoBalance"::numeric, 2),
+    ALTER COLUMN "practiceBalance" TYPE DECIMAL(18,2) USING ROUND("practiceBalance"::numeric, 2),
+    ALTER COLUMN "referralEarnings" TYPE DECIMAL(18,2) USING ROUND("referralEarnings"::numeric, 2);
+
+ALTER TABLE "Trade"
+    ALTER COLUMN "amount" TYPE DECIMAL(18,2) USING ROUND("amount"::numeric, 2),
+    ALTER COLUMN "profit" TYPE DECIMAL(18,2) USING ROUND("profit"::numeric, 2);
+
+ALTER TABLE "PendingOrder"
+    ALTER COLUMN "amount" TYPE DECIMAL(18,2) USING ROUND("amount"::numeric, 2);
+
+ALTER TABLE "LedgerEntry"
+    ALTER COLUMN "amount" TYPE DECIMAL(18,2) USING ROUND("amount"::numeric, 2),
+    ALTER COLUMN "balanceAfter" TYPE DECIMAL(18,2) USING ROUND("balanceAfter"::numeric, 2);
+
+ALTER TABLE "LedgerDiscrepancy"
+    ALTER COLUMN "storedBalance" TYPE DECIMAL(18,2) USING ROUND("storedBalance"::numeric, 2),
+    ALTER COLUMN "ledgerBalance" TYPE DECIMAL(18,2) USING ROUND("ledgerBalance"::numeric, 2),
+    ALTER COLUMN "difference" TYPE DECIMAL(18,2) USING ROUND("difference"::numeric, 2);
+
+ALTER TABLE "MarketConfig"
+    ALTER COLUMN "minTradeAmount" TYPE DECIMAL(18,2) USING ROUND("minTradeAmount"::numeric, 2),
+    ALTER COLUMN "maxTradeAmount" TYPE DECIMAL(18,2) USING ROUND("maxTradeAmount"::numeric, 2);
+
+ALTER TABLE "Deposit"
+    ALTER COLUMN "amount" TYPE DECIMAL(18,2) USING ROUND("amount"::numeric, 2);
+
+ALTER TABLE "Withdrawal"
+    ALTER COLUMN "amount" TYPE DECIMAL(18,2) USING ROUND("amount"::numeric, 2);
+
+ALTER TABLE "PaymentMethod"
+    ALTER COLUMN "minAmount" TYPE DECIMAL(18,2) USING ROUND("minAmount"::numeric, 2),
+    ALTER COLUMN "maxAmount" TYPE DECIMAL(18,2) USING ROUND("maxAmount"::numeric, 2);
+
+ALTER TABLE "CopyTradingLeader"
+    ALTER COLUMN "totalProfit" TYPE DECIMAL(18,2) USING ROUND("totalProfit"::numeric, 2);
+
+ALTER TABLE "CopyTradingFollower"
+    ALTER COLUMN "fixedAmount" TYPE DECIMAL(18,2) USING ROUND("fixedAmount"::numeric, 2),
+    ALTER COLUMN "dailyLossLimit" TYPE DECIMAL(18,2) USING ROUND("dailyLossLimit"::numeric, 2),
+    ALTER COLUMN "dailyProfitLimit" TYPE DECIMAL(18,2) USING ROUND("dailyProfitLimit"::numeric, 2),
+    ALTER COLUMN "dailyLoss" TYPE DECIMAL(18,2) USING ROUND("dailyLoss"::numeric, 2),
+    ALTER COLUMN "dailyProfit" TYPE DECIMAL(18,2) USING ROUND("dailyProfit"::numeric, 2),
+    ALTER COLUMN "totalProfit" TYPE DECIMAL(18,2) USING ROUND("totalProfit"::numeric, 2);
+
+ALTER TABLE "CopiedTrade"
+    ALTER COLUMN "amount" TYPE DECIMAL(18,2) USING ROUND("amount"::numeric, 2),
+    ALTER COLUMN "profit" TYPE DECIMAL(18,2) USING ROUND("profit"::numeric, 2);
+
+ALTER TABLE "PendingCopyTrade"
+    ALTER COLUMN "suggestedAmount" TYPE DECIMAL(18,2) USING ROUND("suggestedAmount"::numeric, 2);
+
+ALTER TABLE "ReferralCommission"
+    ALTER COLUMN "amount" TYPE DECIMAL(18,2) USING ROUND("amount"::numeric, 2),
+    ALTER COLUMN "sourceAmount" TYPE DECIMAL(18,2) USING ROUND("sourceAmount"::numeric, 2);
+
+ALTER TABLE "ReferralSettings"
+    ALTER COLUMN "signupBonus" TYPE DECIMAL(18,2) USING ROUND("signupBonus"::numeric, 2),
+    ALTER COLUMN "minWithdrawal" TYPE DECIMAL(18,2) USING ROUND("minWithdrawal"::numeric, 2),
+    ALTER COLUMN "maxCommissionPerUser" TYPE DECIMAL(18,2) USING ROUND("maxCommissionPerUser"::numeric, 2);
+
+ALTER TABLE "BrokerFinancialSnapshot"
+    ALTER COLUMN "grossTradingRevenue" TYPE DECIMAL(18,2) USING ROUND("grossTradingRevenue"::numeric, 2),
+    ALTER COLUMN "totalTradeVolume" TYPE DECIMAL(18,2) USING ROUND("totalTradeVolume"::numeric, 2),
+    ALTER COLUMN "totalWonAmount" TYPE DECIMAL(18,2) USING ROUND("totalWonAmount"::numeric, 2),
+    ALTER COLUMN "totalLostAmount" TYPE DECIMAL(18,2) USING ROUND("totalLostAmount"::numeric, 2),
+    ALTER COLUMN "totalPayoutsPaid" TYPE DECIMAL(18,2) USING ROUND("totalPayoutsPaid"::numeric, 2),
+    ALTER COLUMN "totalAffiliateCommissions" TYPE DECIMAL(18,2) USING ROUND("totalAffiliateCommissions"::numeric, 2),
+    ALTER COLUMN "signupBonusCosts" TYPE DECIMAL(18,2) USING ROUND("signupBonusCosts"::numeric, 2),
+    ALTER COLUMN "depositCommissionCosts" TYPE DECIMAL(18,2) USING ROUND("depositCommissionCosts"::numeric, 2),
+    ALTER COLUMN "tradeCommissionCosts" TYPE DECIMAL(18,2) USING ROUND("tradeCommissionCosts"::numeric, 2),
+    ALTER COLUMN "netRevenue" TYPE DECIMAL(18,2) USING ROUND("netRevenue"::numeric, 2),
+    ALTER COLUMN "operatingCosts" TYPE DECIMAL(18,2) USING ROUND("operatingCosts"::numeric, 2),
+    ALTER COLUMN "netProfit" TYPE DECIMAL(18,2) USING ROUND("netProfit"::numeric, 2),
+    ALTER COLUMN "totalDeposits" TYPE DECIMAL(18,2) USING ROUND("totalDeposits"::numeric, 2),
+    ALTER COLUMN "totalWithdrawals" TYPE DECIMAL(18,2) USING ROUND("totalWithdrawals"::numeric, 2),
+    ALTER COLUMN "netDeposits" TYPE DECIMAL(18,2) USING ROUND("netDeposits"::numeric, 2),
+    ALTER COLUMN "realUserVolume" TYPE DECIMAL(18,2) USING ROUND("realUserVolume"::numeric, 2),
+    ALTER COLUMN "testUserVolume" TYPE DECIMAL(18,2) USING ROUND("testUserVolume"::numeric, 2),
+    ALTER COLUMN "copyTradingVolume" TYPE DECIMAL(18,2) USING ROUND("copyTradingVolume"::numeric, 2),
+    ALTER COLUMN "otcTradingVolume" TYPE DECIMAL(18,2) USING ROUND("otcTradingVolume"::numeric, 2),
+    ALTER COLUMN "otcBrokerRevenue" TYPE DECIMAL(18,2) USING ROUND("otcBrokerRevenue"::numeric, 2),
+    ALTER COLUMN "revenuePerUser" TYPE DECIMAL(18,2) USING ROUND("revenuePerUser"::numeric, 2),
+    ALTER COLUMN "revenuePerTrade" TYPE DECIMAL(18,2) USING ROUND("revenuePerTrade"::numeric, 2);
+
+ALTER TABLE "BrokerMonthlyReport"
+    ALTER COLUMN "totalRevenue" TYPE DECIMAL(18,2) USING ROUND("totalRevenue"::numeric, 2),
+    ALTER COLUMN "totalVolume" TYPE DECIMAL(18,2) USING ROUND("totalVolume"::numeric, 2),
+    ALTER COLUMN "totalAffiliateCommissions" TYPE DECIMAL(18,2) USING ROUND("totalAffiliateCommissions"::numeric, 2),
+    ALTER COLUMN "totalOperatingCosts" TYPE DECIMAL(18,2) USING ROUND("totalOperatingCosts"::numeric, 2),
+    ALTER COLUMN "netProfit" TYPE DECIMAL(18,2) USING ROUND("netProfit"::numeric, 2),
+    ALTER COLUMN "totalDeposits" TYPE DECIMAL(18,2) USING ROUND("totalDeposits"::numeric, 2),
+    ALTER COLUMN "totalWithdrawals" TYPE DECIMAL(18,2) USING ROUND("totalWithdrawals"::numeric, 2),
+    ALTER COLUMN "netDeposits" TYPE DECIMAL(18,2) USING ROUND("netDeposits"::numeric, 2),
+    ALTER COLUMN "previousMonthRevenue" TYPE DECIMAL(18,2) USING ROUND("previousMonthRevenue"::numeric, 2),
+    ALTER COLUMN "previousMonthProfit" TYPE DECIMAL(18,2) USING ROUND("previousMonthProfit"::numeric, 2),
+    ALTER COLUMN "avgDailyRevenue" TYPE DECIMAL(18,2) USING ROUND("avgDailyRevenue"::numeric, 2),
+    ALTER COLUMN "avgDailyVolume" TYPE DECIMAL(18,2) USING ROUND("avgDailyVolume"::numeric, 2),
+    ALTER COLUMN "peakDayRevenue" TYPE DECIMAL(18,2) USING ROUND("peakDayRevenue"::numeric, 2),
+    ALTER COLUMN "lowestDayRevenue" TYPE DECIMAL(18,2) USING ROUND("lowestDayRevenue"::numeric, 2),
+    ALTER COLUMN "arpu" TYPE DECIMAL(18,2) USING ROUND("arpu"::numeric, 2),
+    ALTER COLUMN "ltv" TYPE DECIMAL(18,2) USING ROUND("ltv"::numeric, 2),
+    ALTER COLUMN "topAffiliateRevenue" TYPE DECIMAL(18,2) USING ROUND("topAffiliateRevenue"::numeric, 2);
+
+ALTER TABLE "BrokerRealTimeMetrics"
+    ALTER COLUMN "totalOpenVolume" TYPE DECIMAL(18,2) USING ROUND("totalOpenVolume"::numeric, 2),
+    ALTER COLUMN "maxPotentialPayout" TYPE DECIMAL(18,2) USING ROUND("maxPotentialPayout"::numeric, 2),
+    ALTER COLUMN "netExposure" TYPE DECIMAL(18,2) USING ROUND("netExposure"::numeric, 2),
+    ALTER COLUMN "todayRevenue" TYPE DECIMAL(18,2) USING ROUND("todayRevenue"::numeric, 2),
+    ALTER COLUMN "todayVolume" TYPE DECIMAL(18,2) USING ROUND("todayVolume"::numeric, 2),
+    ALTER COLUMN "todayDeposits" TYPE DECIMAL(18,2) USING ROUND("todayDeposits"::numeric, 2),
+    ALTER COLUMN "todayWithdrawals" TYPE DECIMAL(18,2) USING ROUND("todayWithdrawals"::numeric, 2),
+    ALTER COLUMN "todayAffiliateCommissions" TYPE DECIMAL(18,2) USING ROUND("todayAffiliateCommissions"::numeric, 2),
+    ALTER COLUMN "exposureAlertThreshold" TYPE DECIMAL(18,2) USING ROUND("exposureAlertThreshold"::numeric, 2),
+    ALTER COLUMN "dailyLossLimit" TYPE DECIMAL(18,2) USING ROUND("dailyLossLimit"::numeric, 2),
+    ALTER COLUMN "currentDailyPL" TYPE DECIMAL(18,2) USING ROUND("currentDailyPL"::numeric, 2);
+
+ALTER TABLE "BrokerRevenueByMarket"
+    ALTER COLUMN "grossRevenue" TYPE DECIMAL(18,2) USING ROUND("grossRevenue"::numeric, 2),
+    ALTER COLUMN "totalVolume" TYPE DECIMAL(18,2) USING ROUND("totalVolume"::numeric, 2),
+    ALTER COLUMN "totalPayouts" TYPE DECIMAL(18,2) USING ROUND("totalPayouts"::numeric, 2),
+    ALTER COLUMN "avgTradeSize" TYPE DECIMAL(18,2) USING ROUND("avgTradeSize"::numeric, 2);
+
+ALTER TABLE "BrokerRevenueBySymbol"
+    ALTER COLUMN "grossRevenue" TYPE DECIMAL(18,2) USING ROUND("grossRevenue"::numeric, 2),
+    ALTER COLUMN "totalVolume" TYPE DECIMAL(18,2) USING ROUND("totalVolume"::numeric, 2);
+
+COMMIT;
+
+-- Verify the columns were converted
+SELECT table_name, column_name, data_type, numeric_precision, numeric_scale
+FROM information_schema.columns
+WHERE (table_name = 'User' AND column_name IN ('liveBalance', 'demoBalance', 'practiceBalance', 'referralEarnings'))
+   OR (table_name = 'Trade' AND column_name IN ('amount', 'profit'))
+   OR (table_name = 'PendingOrder' AND column_name IN ('amount'))
+   OR (table_name = 'LedgerEntry' AND column_name IN ('amount', 'balanceAfter'))
+   OR (table_name = 'LedgerDiscrepancy' AND column_name IN ('storedBalance', 'ledgerBalance', 'difference'))
+   OR (table_name = 'MarketConfig' AND column_name IN ('minTradeAmount', 'maxTradeAmount'))
+   OR (table_name = 'Deposit' AND column_name IN ('amount'))
+   OR (table_name = 'Withdrawal' AND column_name IN ('amount'))
+   OR (table_name = 'PaymentMethod' AND column_name IN ('minAmount', 'maxAmount'))
+   OR (table_name = 'CopyTradingLeader' AND column_name IN ('totalProfit'))
+   OR (table_name = 'CopyTradingFollower' AND column_name IN ('fixedAmount', 'dailyLossLimit', 'dailyProfitLimit', 'dailyLoss', 'dailyProfit', 'totalProfit'))
+   OR (table_name = 'CopiedTrade' AND column_name IN ('amount', 'profit'))
+   OR (table_name = 'PendingCopyTrade' AND column_name IN ('suggestedAmount'))
+   OR (table_name = 'ReferralCommission' AND column_name IN ('amount', 'sourceAmount'))
+   OR (table_name = 'ReferralSettings' AND column_name IN ('signupBonus', 'minWithdrawal', 'maxCommissionPerUser'))
+   OR (table_name = 'BrokerFinancialSnapshot' AND column_name IN ('grossTradingRevenue', 'totalTradeVolume', 'totalWonAmount', 'totalLostAmount', 'totalPayoutsPaid', 'totalAffiliateCommissions', 'signupBonusCosts', 'depositCommissionCosts', 'tradeCommissionCosts', 'netRevenue', 'operatingCosts', 'netProfit', 'totalDeposits', 'totalWithdrawals', 'netDeposits', 'realUserVolume', 'testUserVolume', 'copyTradingVolume', 'otcTradingVolume', 'otcBrokerRevenue', 'revenuePerUser', 'revenuePerTrade'))
+   OR (table_name = 'BrokerMonthlyReport' AND column_name IN ('totalRevenue', 'totalVolume', 'totalAffiliateCommissions', 'totalOperatingCosts', 'netProfit', 'totalDeposits', 'totalWithdrawals', 'netDeposits', 'previousMonthRevenue', 'previousMonthProfit', 'avgDailyRevenue', 'avgDailyVolume', 'peakDayRevenue', 'lowestDayRevenue', 'arpu', 'ltv', 'topAffiliateRevenue'))
+   OR (table_name = 'BrokerRealTimeMetrics' AND column_name IN ('totalOpenVolume', 'maxPotentialPayout', 'netExposure', 'todayRevenue', 'todayVolume', 'todayDeposits', 'todayWithdrawals', 'todayAffiliateCommissions', 'exposureAlertThreshold', 'dailyLossLimit', 'currentDailyPL'))
+   OR (table_name = 'BrokerRevenueByMarket' AND column_name IN ('grossRevenue', 'totalVolume', 'totalPayouts', 'avgTradeSize'))
+   OR (table_name = 'BrokerRevenueBySymbol' AND column_name IN ('grossRevenue', 'totalVolume'))
+ORDER BY table_name, column_name;
@@ -0,0 +1,16 @@
+-- Relabel open copied trades as LIVE
+-- Copied trades were inserted with accountType DEMO although their stake is
+-- taken from the real-money balance, so their payout or refund was credited to
+-- the practice balance. New copies are inserted as LIVE; this moves the copies
+-- still open at deploy time over so they settle to the balance they came from.
+-- Closed copies are left as they are - their payouts have already been posted
+-- This is safe to run on production - only OPEN copied trades are updated
+
+UPDATE "Trade"
+SET "accountType" = 'LIVE'
+WHERE "isCopyTrade" = true AND "accountType" = 'DEMO' AND status = 'OPEN';
+
+-- Verify no open copied trade is left on DEMO
+SELECT COUNT(*) as "openDemoCopies"
+FROM "Trade"
+WHERE "isCopyTrade" = true AND "accountType" = 'DEMO' AND status = 'OPEN';
@@ -13,11 +13,26 @@ import { logger } from './utils/logger.js';
 import { connectDatabase, disconnectDatabase } from './config/db.js';
 import routes from './routes/index.js';
 import { wsManager } from './services/websocket/websocket.manager.js';
+import { wsTradingHandler } from './services/websocket/ws-trading.handler.js';
 import { emailService } from './services/email/email.service.js';
 import { commissionScheduler } from './services/scheduler/commission.scheduler.js';
 import { tradeSettlementScheduler } from './services/scheduler/trade.scheduler.js';
 import { financialScheduler } from './services/scheduler/financial.scheduler.js';
+import { ledgerScheduler } from './services/scheduler/ledger.scheduler.js';
+import { statementScheduler } from './services/scheduler/statement.scheduler.js';
+import { chainWatcherService } from './services/crypto-deposit/chain-watcher.service.js';
+import { mobileMoneySettlementService } from './services/mobile-money/mobile-money-settlement.service.js';
 import { otcMarketService } from './services/otc/otc-market.service.js';
+import { pendingOrderService } from './services/trade/pending-order.service.js';
+import { priceAlertService } from './services/alerts/price-alert.service.js';
+import { idempotencyService } from './services/idempotency/idempotency.service.js';
+import { bonusService } from './services/bonus/bonus.service.js';
+import { priceTickJournal } from './services/market/price-tick-journal.service.js';
+import { candleService } from './services/market/candle.service.js';
+import { marketService } from './services/market/market.service.js';
+import { tradeService } from './services/trade/trade.service.js';
+import { clusterBus } from './services/cluster/backplane.js';
+import { leaderElection } from './services/cluster/leader-election.js';
 
 // Constants
 const REQUEST_BODY_LIMIT = '10mb';
@@ -37,7 +52,8 @@ app.use(cors({
   origin: config.client.url,
   credentials: true,
   methods: ['GET', 'POST', 'PUT', 'PATCH', 'DELETE', 'OPTIONS'],
-  allowedHeaders: ['Content-Type', 'Authorization']
+  allowedHeaders: ['Content-Type', 'Authorization', 'Idempotency-Key'],
+  exposedHeaders: ['Idempotent-Replayed']
 }));
 
 // Rate limiting - General API limiter
@@ -52,6 +68,9 @@ const apiLimiter = rateLimit({
 // Apply rate limiting (auth rate limiting disabled for testing phase)
 app.use('/api', apiLimiter);
 
+// Provider webhooks are signed over the exact bytes sent, so keep them raw
+app.use('/api/webhooks', express.raw({ type: '*/*', limit: '1mb' }));
+
 // Body parsing with size limits
 app.use(express.json({ limit: REQUEST_BODY_LIMIT }));
 app.use(express.urlencoded({ extended: true, limit: REQUEST_BODY_LIMIT }));
@@ -179,9 +198,11 @@ wss.on('connection', (ws: WebSocket) => {
               const decoded = jwt.verify(message.payload.token, config.jwt.secret) as { userId: string; email: string; role: string };
               logger.info('Token verified successfully', { clientId, userId: decoded.userId });
               wsManager.authenticateClient(clientId, decoded.userId);
+              wsTradingHandler.setToken(clientId, message.payload.token);
               logger.info('WebSocket client authenticated', { clientId, userId: decoded.userId });
             } catch (error) {
               logger.error('Token verification failed', { clientId, error: (error as Error).message });
+              wsTradingHandler.setToken(clientId, null);
               ws.send(JSON.stringify({
                 type: 'error',
                 payload: { message: 'Invalid authentication token' }
@@ -226,6 +247,25 @@ wss.on('connection', (ws: WebSocket) => {
           }
           break;
 
+        case 'subscribe_candles':
+        case 'unsubscribe_candles': {
+          const symbol = message.payload?.symbol;
+          const resolution = Number(message.payload?.resolution);
+          if (typeof symbol !== 'string' || !symbol || !candleService.isStoredResolution(resolution)) {
+            ws.send(JSON.stringify({
+              type: 'error',
+              payload: { message: 'Symbol and a supported candle resolution are required' }
+            }));
+            break;
+          }
+          if (message.type === 'subscribe_candles') {
+            wsManager.subscribeToCandles(clientId, symbol, resolution);
+          } else {
+            wsManager.unsubscribeFromCandles(clientId, symbol, resolution);
+          }
+          break;
+        }
+
         case 'subscribe_all':
           // Subscribe to all available market symbols
           const symbols = message.payload?.symbols || [];
@@ -245,6 +285,16 @@ wss.on('connection', (ws: WebSocket) => {
           }
           break;
 
+        // Trading requests - answered with a 'response' message carrying the requestId
+        case 'place_trade':
+        case 'close_trade':
+        case 'get_active_trades':
+        case 'get_balance':
+          wsTradingHandler.handle(ws, clientId, message).catch((error) => {
+            logger.error('WebSocket trading request error', { clientId, type: message.type, error });
+          });
+          break;
+
         default:
           logger.debug('Unhandled WebSocket message type', { type: message.type });
       }
@@ -263,22 +313,119 @@ wss.on('connection', (ws: WebSocket) => {
 
   ws.on('close', () => {
     wsManager.removeClient(clientId);
+    wsTradingHandler.removeClient(clientId);
     logger.info('WebSocket client disconnected', { clientId });
   });
 });
 
-// Graceful shutdown handler
-async function gracefulShutdown(signal: string): Promise<void> {
-  logger.info(`${signal} received, shutting down gracefully`);
+// Singleton work that runs on the cluster leader only (every node when
+// clustering is off, since a lone node is always the leader)
+async function startLeaderDuties(): Promise<void> {
+  // Start commission scheduler (runs every 24 hours)
+  commissionScheduler.start();
+
+  // Start trade settlement scheduler (runs every 5 seconds to catch expired trades)
+  tradeSettlementScheduler.start();
 
+  // Start financial scheduler (real-time metrics, daily snapshots, monthly reports)
+  financialScheduler.start();
+
+  // Start ledger scheduler (nightly balance reconciliation)
+  ledgerScheduler.start();
+
+  // Start statement scheduler (emails last month's statement to opted-in users)
+  statementScheduler.start();
+
+  // Watch personal crypto deposit addresses and credit confirmed payments
+  chainWatcherService.start();
+
+  // Expire unanswered mobile money push payments and retry stuck settlements
+  mobileMoneySettlementService.start();
+
+  // Purge expired Idempotency-Key records (hourly)
+  idempotencyService.startCleanup();
+
+  // Expire unconverted deposit bonuses and stale promo code claims (hourly)
+  bonusService.startExpiryCheck();
+
+  // Persist real-symbol ticks for trade replay
+  priceTickJournal.start();
+
+  // Persist live candles and prune them per resolution
+  candleService.start();
+
+  // Start OTC price generation, continuing from any previous leader's state
+  try {
+    await otcMarketService.refreshSharedState();
+    otcMarketService.start();
+  } catch (error) {
+    logger.warn('OTC Market Service failed to start - OTC trading will be unavailable', { error });
+  }
+
+  // Take over settlement timers for trades that are still open
+  try {
+    await tradeService.scheduleOpenTrades();
+  } catch (error) {
+    logger.error('Failed to schedule open trade settlements', { error });
+  }
+
+  // Start pending order watcher (price and time triggered trades)
+  try {
+    await pendingOrderService.initialize();
+  } catch (error) {
+    logger.warn('Pending order watcher failed to start - pending orders will not trigger', { error });
+  }
+
+  // Start price alert evaluator
+  try {
+    await priceAlertService.initialize();
+  } catch (error) {
+    logger.warn('Price alert evaluator failed to start - price alerts will not fire', { error });
+  }
+}
+
+function stopLeaderDuties(): void {
   // Stop schedulers
   commissionScheduler.stop();
   tradeSettlementScheduler.stop();
   financialScheduler.stop();
+  ledgerScheduler.stop();
+  statementScheduler.stop();
+  chainWatcherService.stop();
+  mobileMoneySettlementService.stop();
+  idempotencyService.stopCleanup();
+  bonusService.stopExpiryCheck();
+  priceTickJournal.stop();
+  candleService.stop();
+
+  // Stop pending order watcher
+  pendingOrderService.shutdown();
+
+  // Stop price alert evaluator
+  priceAlertService.shutdown();
 
   // Stop OTC market service
   otcMarketService.stop();
 
+  // Drop settlement timers - the next leader schedules them again
+  tradeService.shutdown();
+}
+
+leaderElection.onLeadershipChange((isLeader) => (isLeader ? startLeaderDuties() : stopLeaderDuties()));
+
+// Graceful shutdown handler
+async function gracefulShutdown(signal: string): Promise<void> {
+  logger.info(`${signal} received, shutting down gracefully`);
+
+  // Hand over leadership (stops the schedulers and OTC generation here)
+  await leaderElection.stop();
+  candleService.shutdown();
+  marketService.stopFeedSupervision();
+
+  // Leave the cluster backplane
+  wsManager.stopPresence();
+  await clusterBus.stop();
+
   // Close WebSocket server
   wss.close(() => {
     logger.info('WebSocket server closed');
@@ -354,24 +501,27 @@ async function startServer(): Promise<void> {
     // Connect to database
     await connectDatabase();
 
-    // Start commission scheduler (runs every 24 hours)
-    commissionScheduler.start();
-
-    // Start trade settlement scheduler (runs every 5 seconds to catch expired trades)
-    tradeSettlementScheduler.start();
-
-    // Start financial scheduler (real-time metrics, daily snapshots, monthly reports)
-    financialScheduler.start();
+    // Join the cluster backplane (no-op for a single instance)
+    await clusterBus.start();
+    wsManager.startPresence();
 
-    // Initialize and start OTC market service
+    // Load OTC configs on every node; only the leader generates prices
     try {
       await otcMarketService.initialize();
-      otcMarketService.start();
-      logger.info('OTC Market Service initialized and started');
+      logger.info('OTC Market Service initialized');
     } catch (error) {
       logger.warn('OTC Market Service initialization failed - OTC trading will be unavailable', { error });
     }
 
+    // Build live candles on every node; only the leader stores them
+    candleService.initialize();
+
+    // Watch this node's feeds for stale and outlier ticks
+    marketService.startFeedSupervision();
+
+    // Elect a leader to run the schedulers and OTC generation
+    await leaderElection.start();
+
     // Start HTTP server
     server.listen(config.port, () => {
       logger.info('OptigoBroker Server started', {
@@ -1,6 +1,11 @@
-import { Pool, PoolClient, QueryResult, QueryResultRow } from 'pg';
+import { Client, Pool, PoolClient, QueryResult, QueryResultRow, types } from 'pg';
 import { logger } from '../utils/logger.js';
 
+// Money columns are DECIMAL(18,2), which pg returns as strings by default.
+// Parse NUMERIC to numbers so rows keep their numeric shape; whole-cent values
+// round-trip exactly, and arithmetic on them goes through utils/money.ts.
+types.setTypeParser(types.builtins.NUMERIC, (value: string) => parseFloat(value));
+
 // Connection pool configuration optimized for 4GB RAM VPS
 const pool = new Pool({
   connectionString: process.env.DATABASE_URL,
@@ -61,6 +66,16 @@ export async function getClient(): Promise<PoolClient> {
   return client;
 }
 
+// Long-lived connection outside the pool, for session state such as LISTEN
+// or advisory locks. The caller owns it and must end() it.
+export function createDedicatedClient(): Client {
+  return new Client({
+    connectionString: process.env.DATABASE_URL,
+    keepAlive: true,
+    keepAliveInitialDelayMillis: 10000,
+  });
+}
+
 // Transaction isolation levels
 export type IsolationLevel = 'READ COMMITTED' | 'REPEATABLE READ' | 'SERIALIZABLE';
 
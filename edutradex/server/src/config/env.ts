@@ -24,6 +24,8 @@ const envSchema = z.object({
   DEFAULT_PAYOUT_PERCENTAGE: z.string().default('80'),
   MIN_TRADE_AMOUNT: z.string().default('1'),
   MAX_TRADE_AMOUNT: z.string().default('100000'),
+  // Outcome when the exit price equals the entry price: REFUND the stake or LOSE it
+  DEFAULT_DRAW_POLICY: z.enum(['REFUND', 'LOSE']).default('REFUND'),
 
   // Deriv API
   DERIV_APP_ID: z.string().default('1089'),
@@ -39,6 +41,13 @@ const envSchema = z.object({
   // Finnhub API (for stocks/indices)
   FINNHUB_API_KEY: z.string().default(''),
 
+  // Market data source: live provider feeds, or recorded ticks replayed from file
+  MARKET_DATA_MODE: z.enum(['live', 'replay']).default('live'),
+  // Comma-separated .csv / .jsonl tick files (timestamp, symbol, price[, bid, ask])
+  MARKET_REPLAY_FILES: z.string().default(''),
+  MARKET_REPLAY_SPEED: z.string().default('1'),
+  MARKET_REPLAY_LOOP: z.string().default('true'),
+
   // Email/SMTP Configuration
   SMTP_HOST: z.string().default('smtp.gmail.com'),
   SMTP_PORT: z.string().default('587'),
@@ -62,6 +71,75 @@ const envSchema = z.object({
   // Trade Settlement Configuration
   TRADE_SETTLEMENT_CHECK_INTERVAL: z.string().default('10000'),
   TRADE_SETTLEMENT_MAX_RETRIES: z.string().default('3'),
+
+  // Tick Journal Configuration (used for settlement at the exact expiry tick)
+  TICK_JOURNAL_RETENTION_MS: z.string().default('900000'),
+  TICK_JOURNAL_MAX_TICKS_PER_SYMBOL: z.string().default('10000'),
+  // Persistent tick journal for trade replay (real symbols only)
+  PRICE_TICK_JOURNAL_RETENTION_DAYS: z.string().default('30'),
+
+  // Feed supervisor - stale/outlier tick detection and failover to a secondary source
+  FEED_HEALTH_CHECK_INTERVAL_MS: z.string().default('5000'),
+  FEED_STALE_THRESHOLD_MS: z.string().default('30000'),
+  // Stocks and indices tick less often than forex and crypto
+  FEED_STALE_THRESHOLD_EQUITY_MS: z.string().default('120000'),
+  FEED_OUTLIER_SIGMA: z.string().default('8'),
+  FEED_RECOVERY_MS: z.string().default('30000'),
+
+  // Early Close Configuration (sell-back of open trades before expiry)
+  EARLY_CLOSE_QUOTE_TTL_MS: z.string().default('5000'),
+  EARLY_CLOSE_FEE_PERCENT: z.string().default('10'),
+  EARLY_CLOSE_MIN_REMAINING_SECONDS: z.string().default('3'),
+
+  // Ledger Configuration (hour of day, server time, for the nightly balance reconciliation)
+  LEDGER_RECONCILIATION_HOUR: z.string().default('2'),
+
+  // Idempotency-Key Configuration (stored responses and in-flight locks)
+  IDEMPOTENCY_KEY_TTL_HOURS: z.string().default('24'),
+  IDEMPOTENCY_LOCK_TIMEOUT_MS: z.string().default('60000'),
+
+  // Self-imposed trading limits - cooling delay before a raised limit applies
+  TRADING_LIMIT_INCREASE_DELAY_HOURS: z.string().default('24'),
+  // Break enforced once a session time limit is reached, before a new session can start
+  TRADING_SESSION_COOL_OFF_MINUTES: z.string().default('60'),
+
+  // Crypto deposits - per-user addresses derived from an account-level xpub per network
+  CRYPTO_XPUB_BITCOIN: z.string().default(''),
+  CRYPTO_XPUB_ERC20: z.string().default(''),
+  CRYPTO_XPUB_BEP20: z.string().default(''),
+  CRYPTO_XPUB_TRC20: z.string().default(''),
+  // explorer = public chain APIs below, mock = in-memory chain for development
+  CRYPTO_CHAIN_PROVIDER: z.enum(['explorer', 'mock']).default('explorer'),
+  CRYPTO_MOCK_BLOCK_TIME_MS: z.string().default('10000'),
+  CRYPTO_WATCH_INTERVAL_MS: z.string().default('30000'),
+  // How long a deposit request waits for its payment before a transfer counts as late
+  CRYPTO_DEPOSIT_WINDOW_HOURS: z.string().default('24'),
+  // Allowed difference between requested and received value before review
+  CRYPTO_AMOUNT_TOLERANCE_PERCENT: z.string().default('1'),
+  ESPLORA_API_URL: z.string().default('https://blockstream.info/api'),
+  ETHERSCAN_API_URL: z.string().default('https://api.etherscan.io/v2/api'),
+  ETHERSCAN_API_KEY: z.string().default(''),
+  TRONGRID_API_URL: z.string().default('https://api.trongrid.io'),
+  TRONGRID_API_KEY: z.string().default(''),
+
+  // Mobile money - manual = admin approval, simulator = local push-payment simulator
+  MOBILE_MONEY_GATEWAY: z.enum(['manual', 'simulator']).default('manual'),
+  MOBILE_MONEY_CURRENCY: z.string().default('USD'),
+  // Public base URL providers post callbacks to; /<provider> is appended
+  MOBILE_MONEY_CALLBACK_URL: z.string().optional(),
+  // Callbacks signed longer ago than this are refused as replays
+  MOBILE_MONEY_CALLBACK_TOLERANCE_SECONDS: z.string().default('300'),
+  // Push payments the customer has not approved by then are failed
+  MOBILE_MONEY_COLLECTION_TIMEOUT_MINUTES: z.string().default('15'),
+  // Required with the simulator gateway, which is refused in production
+  MOBILE_MONEY_SIMULATOR_SECRET: z.string().optional(),
+  MOBILE_MONEY_SIMULATOR_DELAY_MS: z.string().default('5000'),
+
+  // Horizontal scaling - Postgres LISTEN/NOTIFY backplane and leader election
+  CLUSTER_ENABLED: z.string().default('false'),
+  CLUSTER_CHANNEL: z.string().default('optigo_cluster'),
+  CLUSTER_NODE_ID: z.string().optional(),
+  CLUSTER_LEADER_CHECK_INTERVAL_MS: z.string().default('5000'),
 });
 
 function validateEnv() {
@@ -73,6 +151,19 @@ function validateEnv() {
     process.exit(1);
   }
 
+  // The simulator confirms its own push payments, and anyone holding its secret
+  // can sign a "payment successful" callback - it must never credit real deposits
+  if (parsed.data.MOBILE_MONEY_GATEWAY === 'simulator') {
+    if (parsed.data.NODE_ENV === 'production') {
+      console.error('Environment validation failed: MOBILE_MONEY_GATEWAY=simulator is not allowed in production');
+      process.exit(1);
+    }
+    if (!parsed.data.MOBILE_MONEY_SIMULATOR_SECRET) {
+      console.error('Environment validation failed: MOBILE_MONEY_SIMULATOR_SECRET is required when MOBILE_MONEY_GATEWAY=simulator');
+      process.exit(1);
+    }
+  }
+
   return parsed.data;
 }
 
@@ -102,6 +193,7 @@ export const config = {
     defaultPayoutPercentage: parseFloat(env.DEFAULT_PAYOUT_PERCENTAGE),
     minTradeAmount: parseFloat(env.MIN_TRADE_AMOUNT),
     maxTradeAmount: parseFloat(env.MAX_TRADE_AMOUNT),
+    defaultDrawPolicy: env.DEFAULT_DRAW_POLICY,
   },
 
   deriv: {
@@ -121,6 +213,15 @@ export const config = {
     apiKey: env.FINNHUB_API_KEY,
   },
 
+  marketData: {
+    mode: env.MARKET_DATA_MODE,
+    replay: {
+      files: env.MARKET_REPLAY_FILES.split(',').map((file) => file.trim()).filter(Boolean),
+      speed: parseFloat(env.MARKET_REPLAY_SPEED),
+      loop: env.MARKET_REPLAY_LOOP === 'true',
+    },
+  },
+
   email: {
     host: env.SMTP_HOST,
     port: parseInt(env.SMTP_PORT, 10),
@@ -148,4 +249,74 @@ export const config = {
     checkInterval: parseInt(env.TRADE_SETTLEMENT_CHECK_INTERVAL, 10),
     maxRetries: parseInt(env.TRADE_SETTLEMENT_MAX_RETRIES, 10),
   },
+
+  tickJournal: {
+    retentionMs: parseInt(env.TICK_JOURNAL_RETENTION_MS, 10),
+    maxTicksPerSymbol: parseInt(env.TICK_JOURNAL_MAX_TICKS_PER_SYMBOL, 10),
+    persistRetentionDays: parseInt(env.PRICE_TICK_JOURNAL_RETENTION_DAYS, 10),
+  },
+
+  feedHealth: {
+    checkIntervalMs: parseInt(env.FEED_HEALTH_CHECK_INTERVAL_MS, 10),
+    staleThresholdMs: parseInt(env.FEED_STALE_THRESHOLD_MS, 10),
+    staleThresholdEquityMs: parseInt(env.FEED_STALE_THRESHOLD_EQUITY_MS, 10),
+    outlierSigma: parseFloat(env.FEED_OUTLIER_SIGMA),
+    recoveryMs: parseInt(env.FEED_RECOVERY_MS, 10),
+  },
+
+  earlyClose: {
+    quoteTtlMs: parseInt(env.EARLY_CLOSE_QUOTE_TTL_MS, 10),
+    feePercent: parseFloat(env.EARLY_CLOSE_FEE_PERCENT),
+    minRemainingSeconds: parseInt(env.EARLY_CLOSE_MIN_REMAINING_SECONDS, 10),
+  },
+
+  ledger: {
+    reconciliationHour: parseInt(env.LEDGER_RECONCILIATION_HOUR, 10),
+  },
+
+  idempotency: {
+    keyTtlHours: parseInt(env.IDEMPOTENCY_KEY_TTL_HOURS, 10),
+    lockTimeoutMs: parseInt(env.IDEMPOTENCY_LOCK_TIMEOUT_MS, 10),
+  },
+
+  tradingLimits: {
+    increaseDelayHours: parseFloat(env.TRADING_LIMIT_INCREASE_DELAY_HOURS),
+    sessionCoolOffMinutes: parseInt(env.TRADING_SESSION_COOL_OFF_MINUTES, 10),
+  },
+
+  cryptoDeposits: {
+    xpubs: {
+      BITCOIN: env.CRYPTO_XPUB_BITCOIN,
+      ERC20: env.CRYPTO_XPUB_ERC20,
+      BEP20: env.CRYPTO_XPUB_BEP20,
+      TRC20: env.CRYPTO_XPUB_TRC20,
+    },
+    chainProvider: env.CRYPTO_CHAIN_PROVIDER,
+    mockBlockTimeMs: parseInt(env.CRYPTO_MOCK_BLOCK_TIME_MS, 10),
+    watchIntervalMs: parseInt(env.CRYPTO_WATCH_INTERVAL_MS, 10),
+    windowHours: parseFloat(env.CRYPTO_DEPOSIT_WINDOW_HOURS),
+    tolerancePercent: parseFloat(env.CRYPTO_AMOUNT_TOLERANCE_PERCENT),
+    esploraUrl: env.ESPLORA_API_URL,
+    etherscanUrl: env.ETHERSCAN_API_URL,
+    etherscanApiKey: env.ETHERSCAN_API_KEY,
+    tronGridUrl: env.TRONGRID_API_URL,
+    tronGridApiKey: env.TRONGRID_API_KEY,
+  },
+
+  mobileMoney: {
+    gateway: env.MOBILE_MONEY_GATEWAY,
+    currency: env.MOBILE_MONEY_CURRENCY,
+    callbackUrl: env.MOBILE_MONEY_CALLBACK_URL || `http://localhost:${env.PORT}/api/webhooks/mobile-money`,
+    callbackToleranceSeconds: parseInt(env.MOBILE_MONEY_CALLBACK_TOLERANCE_SECONDS, 10),
+    collectionTimeoutMinutes: parseInt(env.MOBILE_MONEY_COLLECTION_TIMEOUT_MINUTES, 10),
+    simulatorSecret: env.MOBILE_MONEY_SIMULATOR_SECRET ?? '',
+    simulatorDelayMs: parseInt(env.MOBILE_MONEY_SIMULATOR_DELAY_MS, 10),
+  },
+
+  cluster: {
+    enabled: env.CLUSTER_ENABLED === 'true',
+    channel: env.CLUSTER_CHANNEL,
+    nodeId: env.CLUSTER_NODE_ID,
+    leaderCheckIntervalMs: parseInt(env.CLUSTER_LEADER_CHECK_INTERVAL_MS, 10),
+  },
 };
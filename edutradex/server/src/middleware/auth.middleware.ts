@@ -10,6 +10,7 @@ export interface AuthenticatedUser {
   role: string;
   liveBalance: number;
   demoBalance: number;
+  practiceBalance: number;
   activeAccountType: 'LIVE' | 'DEMO';
   emailVerified: boolean;
   kycStatus: 'NOT_SUBMITTED' | 'PENDING' | 'APPROVED' | 'REJECTED';
@@ -26,6 +27,39 @@ declare global {
   }
 }
 
+/**
+ * Resolve a bearer token to its user with the same revocation and account
+ * checks as authMiddleware. Throws when the token is invalid or expired.
+ * Also used by the WebSocket trading channel, which has no HTTP request.
+ */
+export async function resolveTokenUser(
+  token: string
+): Promise<{ user: AuthenticatedUser } | { error: string }> {
+  // Check if token is blacklisted (revoked)
+  const isBlacklisted = await tokenBlacklistService.isTokenBlacklisted(token);
+  if (isBlacklisted) {
+    logger.debug('Blocked blacklisted token attempt');
+    return { error: 'Token has been revoked' };
+  }
+
+  const decoded = authService.verifyToken(token);
+
+  // Also check if all user tokens are blacklisted (password change, security breach)
+  const allTokensBlacklisted = await tokenBlacklistService.areAllUserTokensBlacklisted(decoded.userId);
+  if (allTokensBlacklisted) {
+    logger.debug('Blocked user with all tokens blacklisted', { userId: decoded.userId });
+    return { error: 'Session expired. Please log in again.' };
+  }
+
+  const user = await authService.getUserById(decoded.userId);
+
+  if (!user) {
+    return { error: 'User not found or account deactivated' };
+  }
+
+  return { user };
+}
+
 export async function authMiddleware(
   req: Request,
   res: Response,
@@ -60,39 +94,17 @@ export async function authMiddleware(
       return;
     }
 
-    // Check if token is blacklisted (revoked)
-    const isBlacklisted = await tokenBlacklistService.isTokenBlacklisted(token);
-    if (isBlacklisted) {
-      logger.debug('Blocked blacklisted token attempt');
-      res.status(401).json({
-        success: false,
-        error: 'Token has been revoked',
-      });
-      return;
-    }
+    const result = await resolveTokenUser(token);
 
-    const decoded = authService.verifyToken(token);
-
-    // Also check if all user tokens are blacklisted (password change, security breach)
-    const allTokensBlacklisted = await tokenBlacklistService.areAllUserTokensBlacklisted(decoded.userId);
-    if (allTokensBlacklisted) {
-      logger.debug('Blocked user with all tokens blacklisted', { userId: decoded.userId });
+    if ('error' in result) {
       res.status(401).json({
         success: false,
-        error: 'Session expired. Please log in again.',
+        error: result.error,
       });
       return;
     }
 
-    const user = await authService.getUserById(decoded.userId);
-
-    if (!user) {
-      res.status(401).json({
-        success: false,
-        error: 'User not found or account deactivated',
-      });
-      return;
-    }
+    const { user } = result;
 
     req.userId = user.id;
     req.userEmail = user.email;
@@ -0,0 +1,109 @@
+import { Request, Response, NextFunction } from 'express';
+import { createHash } from 'crypto';
+import {
+  idempotencyService,
+  IdempotencyServiceError,
+} from '../services/idempotency/idempotency.service.js';
+import { logger } from '../utils/logger.js';
+
+const IDEMPOTENCY_HEADER = 'idempotency-key';
+const REPLAYED_HEADER = 'Idempotent-Replayed';
+const MAX_KEY_LENGTH = 255;
+
+/**
+ * Honours an optional Idempotency-Key header on money-moving routes.
+ * Must run after authMiddleware (keys are scoped per user) and before body
+ * validation so the request hash covers exactly what the client sent.
+ *
+ * - First request: runs normally; a response below 500 is stored for replay
+ * - Retry after completion: the stored response is replayed, nothing re-executes
+ * - Retry while the first is still running (even if its client has gone): 409
+ * - Same key reused with a different body: 422
+ */
+export async function idempotencyMiddleware(
+  req: Request,
+  res: Response,
+  next: NextFunction
+): Promise<void> {
+  const key = req.get(IDEMPOTENCY_HEADER);
+
+  if (key === undefined) {
+    next();
+    return;
+  }
+
+  if (!key.trim() || key.length > MAX_KEY_LENGTH) {
+    res.status(400).json({
+      success: false,
+      error: `Idempotency-Key must be between 1 and ${MAX_KEY_LENGTH} characters`,
+    });
+    return;
+  }
+
+  if (!req.userId) {
+    res.status(401).json({ success: false, error: 'Not authenticated' });
+    return;
+  }
+
+  const route = `${req.method} ${req.baseUrl}${req.path}`;
+  const requestHash = createHash('sha256')
+    .update(JSON.stringify(req.body ?? null))
+    .digest('hex');
+
+  let claimId: string;
+  try {
+    const claim = await idempotencyService.claim(req.userId, key, route, requestHash);
+
+    if (claim.state === 'REPLAY') {
+      res.setHeader(REPLAYED_HEADER, 'true');
+      res.status(claim.responseStatus).json(claim.responseBody);
+      return;
+    }
+
+    claimId = claim.id;
+  } catch (error) {
+    if (error instanceof IdempotencyServiceError) {
+      res.status(error.statusCode).json({
+        success: false,
+        error: error.message,
+      });
+      return;
+    }
+    next(error);
+    return;
+  }
+
+  // The outcome is recorded when the handler responds, not when the socket
+  // closes: a client that disconnects mid-request must keep the claim until
+  // the work is done, or a retry would run it a second time. A claim whose
+  // handler never responds (crashed process) is reclaimable after its lock times out.
+  let settled = false;
+  const settle = (body: unknown): void => {
+    if (settled) return;
+    settled = true;
+
+    const persist = res.statusCode < 500
+      ? idempotencyService.complete(claimId, res.statusCode, body)
+      : idempotencyService.release(claimId);
+
+    persist.catch((error) => {
+      logger.error('[Idempotency] Failed to record request outcome', {
+        userId: req.userId,
+        route,
+        error,
+      });
+    });
+  };
+
+  // Capture the JSON body the route sends so it can be replayed later
+  const originalJson = res.json.bind(res);
+  res.json = (body: unknown) => {
+    settle(body);
+    return originalJson(body);
+  };
+
+  // Responses sent without res.json
+  res.on('finish', () => settle(undefined));
+
+  next();
+}
@@ -4,6 +4,7 @@ import { impersonationRateLimiter } from '../middleware/rate-limit.middleware.js
 import { requirePasswordMiddleware } from '../middleware/superadmin-auth.middleware.js';
 import { adminService, AdminServiceError } from '../services/admin/admin.service.js';
 import { authService, AuthServiceError } from '../services/auth/auth.service.js';
+import { tradeReplayService, TradeReplayError } from '../services/trade/trade-replay.service.js';
 import {
   adminCopyTradingService,
   AdminCopyTradingServiceError,
@@ -14,6 +15,11 @@ import {
   updateUserRoleSchema,
   resetUserBalanceSchema,
   updateMarketConfigSchema,
+  createPayoutRuleSchema,
+  updatePayoutRuleSchema,
+  createMarketSessionSchema,
+  updateMarketSessionSchema,
+  createMarketHolidaySchema,
   setSystemSettingSchema,
 } from '../validators/admin.validators.js';
 import {
@@ -33,6 +39,15 @@ import {
   otcMarketService,
 } from '../services/otc/index.js';
 import { marketService } from '../services/market/market.service.js';
+import {
+  payoutScheduleService,
+  PayoutScheduleServiceError,
+} from '../services/market/payout-schedule.service.js';
+import {
+  marketCalendarService,
+  MarketCalendarServiceError,
+} from '../services/market/market-calendar.service.js';
+import { feedHealthService } from '../services/market/feed-health.service.js';
 import {
   getOTCConfigsQuerySchema,
   otcConfigIdSchema,
@@ -202,7 +217,7 @@ router.post(
         return;
       }
 
-      const result = await adminService.resetUserBalance(userId, parsed.data.newBalance);
+      const result = await adminService.resetUserBalance(userId, parsed.data.newBalance, req.user!.id);
 
       res.json({
         success: true,
@@ -447,6 +462,31 @@ router.get(
   }
 );
 
+// Replay a user's trade: tick path from entry to settlement
+router.get(
+  '/users/:userId/trades/:tradeId/replay',
+  async (req: Request, res: Response, next: NextFunction): Promise<void> => {
+    try {
+      const { userId, tradeId } = req.params;
+      const replay = await tradeReplayService.getReplay(tradeId, userId);
+
+      res.json({
+        success: true,
+        data: replay,
+      });
+    } catch (error) {
+      if (error instanceof TradeReplayError) {
+        res.status(error.statusCode).json({
+          success: false,
+          error: error.message,
+        });
+        return;
+      }
+      next(error);
+    }
+  }
+);
+
 // Get user's transaction history
 router.get(
   '/users/:userId/transactions',
@@ -497,6 +537,301 @@ router.get(
   }
 );
 
+// ============= Payout Schedule =============
+// Registered before /markets/:symbol so "payout-rules" is not captured as a symbol
+
+router.get(
+  '/markets/payout-rules',
+  async (_req: Request, res: Response, next: NextFunction): Promise<void> => {
+    try {
+      const rules = await payoutScheduleService.getAllRules();
+
+      res.json({
+        success: true,
+        data: rules,
+      });
+    } catch (error) {
+      next(error);
+    }
+  }
+);
+
+router.post(
+  '/markets/payout-rules',
+  async (req: Request, res: Response, next: NextFunction): Promise<void> => {
+    try {
+      const parsed = createPayoutRuleSchema.safeParse(req.body);
+
+      if (!parsed.success) {
+        res.status(400).json({
+          success: false,
+          error: 'Invalid request body',
+          details: parsed.error.issues,
+        });
+        return;
+      }
+
+      const rule = await payoutScheduleService.createRule(parsed.data, req.user!.id);
+
+      res.status(201).json({
+        success: true,
+        message: 'Payout rule created successfully',
+        data: rule,
+      });
+    } catch (error) {
+      if (error instanceof PayoutScheduleServiceError) {
+        res.status(error.statusCode).json({
+          success: false,
+          error: error.message,
+        });
+        return;
+      }
+      next(error);
+    }
+  }
+);
+
+router.patch(
+  '/markets/payout-rules/:id',
+  async (req: Request, res: Response, next: NextFunction): Promise<void> => {
+    try {
+      const parsed = updatePayoutRuleSchema.safeParse(req.body);
+
+      if (!parsed.success) {
+        res.status(400).json({
+          success: false,
+          error: 'Invalid request body',
+          details: parsed.error.issues,
+        });
+        return;
+      }
+
+      const rule = await payoutScheduleService.updateRule(req.params.id, parsed.data);
+
+      res.json({
+        success: true,
+        message: 'Payout rule updated successfully',
+        data: rule,
+      });
+    } catch (error) {
+      if (error instanceof PayoutScheduleServiceError) {
+        res.status(error.statusCode).json({
+          success: false,
+          error: error.message,
+        });
+        return;
+      }
+      next(error);
+    }
+  }
+);
+
+router.delete(
+  '/markets/payout-rules/:id',
+  async (req: Request, res: Response, next: NextFunction): Promise<void> => {
+    try {
+      await payoutScheduleService.deleteRule(req.params.id);
+
+      res.json({
+        success: true,
+        message: 'Payout rule deleted successfully',
+      });
+    } catch (error) {
+      if (error instanceof PayoutScheduleServiceError) {
+        res.status(error.statusCode).json({
+          success: false,
+          error: error.message,
+        });
+        return;
+      }
+      next(error);
+    }
+  }
+);
+
+// ============= Market Hours Calendar =============
+// Registered before /markets/:symbol for the same reason as payout rules
+
+// Feed supervisor: per-symbol feed state, latency and gap statistics, recent alerts
+router.get(
+  '/markets/feed-health',
+  (_req: Request, res: Response): void => {
+    res.json({
+      success: true,
+      data: {
+        serverTime: new Date().toISOString(),
+        summary: feedHealthService.getSummary(),
+        symbols: feedHealthService.getSymbolHealth(),
+        alerts: feedHealthService.getRecentAlerts(),
+      },
+    });
+  }
+);
+
+router.get(
+  '/markets/sessions',
+  async (_req: Request, res: Response, next: NextFunction): Promise<void> => {
+    try {
+      const [sessions, holidays, statuses] = await Promise.all([
+        marketCalendarService.getAllSessions(),
+        marketCalendarService.getAllHolidays(),
+        marketCalendarService.getMarketTypeStatuses(),
+      ]);
+
+      res.json({
+        success: true,
+        data: { sessions, holidays, statuses },
+      });
+    } catch (error) {
+      next(error);
+    }
+  }
+);
+
+router.post(
+  '/markets/sessions',
+  async (req: Request, res: Response, next: NextFunction): Promise<void> => {
+    try {
+      const parsed = createMarketSessionSchema.safeParse(req.body);
+
+      if (!parsed.success) {
+        res.status(400).json({
+          success: false,
+          error: 'Invalid request body',
+          details: parsed.error.issues,
+        });
+        return;
+      }
+
+      const session = await marketCalendarService.createSession(parsed.data);
+
+      res.status(201).json({
+        success: true,
+        message: 'Market session created successfully',
+        data: session,
+      });
+    } catch (error) {
+      if (error instanceof MarketCalendarServiceError) {
+        res.status(error.statusCode).json({
+          success: false,
+          error: error.message,
+        });
+        return;
+      }
+      next(error);
+    }
+  }
+);
+
+router.patch(
+  '/markets/sessions/:id',
+  async (req: Request, res: Response, next: NextFunction): Promise<void> => {
+    try {
+      const parsed = updateMarketSessionSchema.safeParse(req.body);
+
+      if (!parsed.success) {
+        res.status(400).json({
+          success: false,
+          error: 'Invalid request body',
+          details: parsed.error.issues,
+        });
+        return;
+      }
+
+      const session = await marketCalendarService.updateSession(req.params.id, parsed.data);
+
+      res.json({
+        success: true,
+        message: 'Market session updated successfully',
+        data: session,
+      });
+    } catch (error) {
+      if (error instanceof MarketCalendarServiceError) {
+        res.status(error.statusCode).json({
+          success: false,
+          error: error.message,
+        });
+        return;
+      }
+      next(error);
+    }
+  }
+);
+
+router.delete(
+  '/markets/sessions/:id',
+  async (req: Request, res: Response, next: NextFunction): Promise<void> => {
+    try {
+      await marketCalendarService.deleteSession(req.params.id);
+
+      res.json({
+        success: true,
+        message: 'Market session deleted successfully',
+      });
+    } catch (error) {
+      if (error instanceof MarketCalendarServiceError) {
+        res.status(error.statusCode).json({
+          success: false,
+          error: error.message,
+        });
+        return;
+      }
+      next(error);
+    }
+  }
+);
+
+router.post(
+  '/markets/holidays',
+  async (req: Request, res: Response, next: NextFunction): Promise<void> => {
+    try {
+      const parsed = createMarketHolidaySchema.safeParse(req.body);
+
+      if (!parsed.success) {
+        res.status(400).json({
+          success: false,
+          error: 'Invalid request body',
+          details: parsed.error.issues,
+        });
+        return;
+      }
+
+      const holiday = await marketCalendarService.createHoliday(parsed.data, req.user!.id);
+
+      res.status(201).json({
+        success: true,
+        message: 'Market holiday created successfully',
+        data: holiday,
+      });
+    } catch (error) {
+      next(error);
+    }
+  }
+);
+
+router.delete(
+  '/markets/holidays/:id',
+  async (req: Request, res: Response, next: NextFunction): Promise<void> => {
+    try {
+      await marketCalendarService.deleteHoliday(req.params.id);
+
+      res.json({
+        success: true,
+        message: 'Market holiday deleted successfully',
+      });
+    } catch (error) {
+      if (error instanceof MarketCalendarServiceError) {
+        res.status(error.statusCode).json({
+          success: false,
+          error: error.message,
+        });
+        return;
+      }
+      next(error);
+    }
+  }
+);
+
 router.get(
   '/markets/:symbol',
   async (req: Request, res: Response, next: NextFunction): Promise<void> => {
@@ -541,6 +876,8 @@ router.patch(
       }
 
       const config = await adminService.updateMarketConfig(decodedSymbol, parsed.data);
+      payoutScheduleService.invalidate();
+      marketCalendarService.invalidate();
 
       res.json({
         success: true,
@@ -565,6 +902,7 @@ router.post(
   async (_req: Request, res: Response, next: NextFunction): Promise<void> => {
     try {
       const result = await adminService.initializeMarketConfigs();
+      payoutScheduleService.invalidate();
 
       res.json({
         success: true,
@@ -0,0 +1,146 @@
+import { Router, Request, Response, NextFunction } from 'express';
+import { bonusService, BonusServiceError } from '../services/bonus/bonus.service.js';
+import { authMiddleware, adminMiddleware } from '../middleware/auth.middleware.js';
+import { validateBody } from '../middleware/validate.middleware.js';
+import {
+  createPromotionSchema,
+  updatePromotionSchema,
+  claimPromoCodeSchema,
+  type CreatePromotionInput,
+  type UpdatePromotionInput,
+  type ClaimPromoCodeInput,
+} from '../validators/bonus.validators.js';
+import { logger } from '../utils/logger.js';
+
+const router = Router();
+
+// User routes
+router.get(
+  '/my-bonuses',
+  authMiddleware,
+  async (req: Request, res: Response, next: NextFunction) => {
+    try {
+      const result = await bonusService.getUserBonuses(req.user!.id);
+
+      res.json({
+        success: true,
+        data: result,
+      });
+    } catch (error) {
+      next(error);
+    }
+  }
+);
+
+router.post(
+  '/claim',
+  authMiddleware,
+  validateBody(claimPromoCodeSchema),
+  async (req: Request, res: Response, next: NextFunction) => {
+    try {
+      const { code } = req.body as ClaimPromoCodeInput;
+      const bonus = await bonusService.claimCode(req.user!.id, code);
+
+      res.status(201).json({
+        success: true,
+        data: bonus,
+        message: 'Promo code applied - the bonus is added with your next qualifying deposit',
+      });
+    } catch (error) {
+      next(error);
+    }
+  }
+);
+
+// Admin routes
+router.get(
+  '/admin/promotions',
+  authMiddleware,
+  adminMiddleware,
+  async (req: Request, res: Response, next: NextFunction) => {
+    try {
+      const promotions = await bonusService.getAllPromotions();
+
+      res.json({
+        success: true,
+        data: promotions,
+      });
+    } catch (error) {
+      next(error);
+    }
+  }
+);
+
+router.post(
+  '/admin/promotions',
+  authMiddleware,
+  adminMiddleware,
+  validateBody(createPromotionSchema),
+  async (req: Request, res: Response, next: NextFunction) => {
+    try {
+      const promotion = await bonusService.createPromotion(req.body as CreatePromotionInput, req.user!.id);
+
+      res.status(201).json({
+        success: true,
+        data: promotion,
+        message: 'Promotion created',
+      });
+    } catch (error) {
+      next(error);
+    }
+  }
+);
+
+router.patch(
+  '/admin/promotions/:id',
+  authMiddleware,
+  adminMiddleware,
+  validateBody(updatePromotionSchema),
+  async (req: Request, res: Response, next: NextFunction) => {
+    try {
+      const promotion = await bonusService.updatePromotion(req.params.id, req.body as UpdatePromotionInput);
+
+      logger.info('Promotion updated', { promotionId: req.params.id, adminId: req.user!.id, changes: req.body });
+
+      res.json({
+        success: true,
+        data: promotion,
+        message: 'Promotion updated',
+      });
+    } catch (error) {
+      next(error);
+    }
+  }
+);
+
+router.delete(
+  '/admin/promotions/:id',
+  authMiddleware,
+  adminMiddleware,
+  async (req: Request, res: Response, next: NextFunction) => {
+    try {
+      await bonusService.deletePromotion(req.params.id);
+
+      res.json({
+        success: true,
+        message: 'Promotion deleted',
+      });
+    } catch (error) {
+      next(error);
+    }
+  }
+);
+
+// Error handler for this router
+router.use((error: Error, req: Request, res: Response, next: NextFunction): void => {
+  if (error instanceof BonusServiceError) {
+    res.status(error.statusCode).json({
+      success: false,
+      error: error.message,
+    });
+    return;
+  }
+  next(error);
+});
+
+export default router;
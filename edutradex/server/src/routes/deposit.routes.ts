@@ -1,15 +1,23 @@
 import { Router, Request, Response } from 'express';
 import { depositService, DepositServiceError } from '../services/deposit/deposit.service.js';
+import { cryptoAddressService, CryptoAddressServiceError } from '../services/crypto-deposit/crypto-address.service.js';
+import { chainWatcherService } from '../services/crypto-deposit/chain-watcher.service.js';
+import { CRYPTO_NETWORKS } from '../services/crypto-deposit/crypto-networks.js';
 import { authMiddleware, adminMiddleware } from '../middleware/auth.middleware.js';
+import { idempotencyMiddleware } from '../middleware/idempotency.middleware.js';
 import { validateBody, validateQuery } from '../middleware/validate.middleware.js';
 import {
   mobileMoneyDepositSchema,
   cryptoDepositSchema,
+  depositAddressQuerySchema,
   depositFiltersSchema,
   processDepositSchema,
+  mockChainTransferSchema,
   type MobileMoneyDepositInput,
   type CryptoDepositInput,
+  type DepositAddressQueryInput,
   type ProcessDepositInput,
+  type MockChainTransferInput,
 } from '../validators/deposit.validators.js';
 import { logger } from '../utils/logger.js';
 
@@ -19,11 +27,12 @@ const router = Router();
 
 /**
  * POST /api/deposits/mobile-money
- * Create a mobile money deposit request
+ * Create a mobile money deposit request (sends a push payment when the gateway serves the operator)
  */
 router.post(
   '/mobile-money',
   authMiddleware,
+  idempotencyMiddleware,
   validateBody(mobileMoneyDepositSchema),
   async (req: Request<object, object, MobileMoneyDepositInput>, res: Response): Promise<void> => {
     try {
@@ -42,7 +51,9 @@ router.post(
       res.status(201).json({
         success: true,
         data: deposit,
-        message: 'Deposit request submitted. Please wait for admin approval.',
+        message: deposit.paymentRequested
+          ? 'Payment request sent. Approve it on your phone to complete the deposit.'
+          : 'Deposit request submitted. Please wait for admin approval.',
       });
     } catch (error) {
       if (error instanceof DepositServiceError) {
@@ -62,6 +73,7 @@ router.post(
 router.post(
   '/crypto',
   authMiddleware,
+  idempotencyMiddleware,
   validateBody(cryptoDepositSchema),
   async (req: Request<object, object, CryptoDepositInput>, res: Response): Promise<void> => {
     try {
@@ -74,12 +86,15 @@ router.post(
         userId: req.userId,
         amount: req.body.amount,
         cryptoCurrency: req.body.cryptoCurrency,
+        network: req.body.network,
       });
 
       res.status(201).json({
         success: true,
         data: deposit,
-        message: 'Deposit request submitted. Please wait for admin approval.',
+        message: deposit.walletAddress
+          ? 'Deposit request submitted. It will be credited automatically once the payment is confirmed.'
+          : 'Deposit request submitted. Please wait for admin approval.',
       });
     } catch (error) {
       if (error instanceof DepositServiceError) {
@@ -92,6 +107,39 @@ router.post(
   }
 );
 
+/**
+ * GET /api/deposits/crypto/address
+ * Get (or assign) the user's personal deposit address for a currency and network
+ */
+router.get(
+  '/crypto/address',
+  authMiddleware,
+  validateQuery(depositAddressQuerySchema),
+  async (req: Request, res: Response): Promise<void> => {
+    try {
+      if (!req.userId) {
+        res.status(401).json({ success: false, error: 'Not authenticated' });
+        return;
+      }
+
+      const { cryptoCurrency, network } = (req as any).validatedQuery as DepositAddressQueryInput;
+      const address = await cryptoAddressService.getDepositAddress(req.userId, cryptoCurrency, network);
+
+      res.json({
+        success: true,
+        data: address,
+      });
+    } catch (error) {
+      if (error instanceof CryptoAddressServiceError) {
+        res.status(error.statusCode).json({ success: false, error: error.message });
+        return;
+      }
+      logger.error('Get crypto deposit address error', { error });
+      res.status(500).json({ success: false, error: 'Failed to get deposit address' });
+    }
+  }
+);
+
 /**
  * GET /api/deposits/my
  * Get current user's deposits
@@ -198,6 +246,7 @@ router.get(
         status: validatedQuery.status as 'PENDING' | 'APPROVED' | 'REJECTED' | undefined,
         method: validatedQuery.method as 'MOBILE_MONEY' | 'CRYPTO' | undefined,
         userId: validatedQuery.userId as string | undefined,
+        review: validatedQuery.review as boolean | undefined,
         page: validatedQuery.page as number | undefined,
         limit: validatedQuery.limit as number | undefined,
       };
@@ -340,4 +389,38 @@ router.post(
   }
 );
 
+/**
+ * POST /api/deposits/admin/mock-chain/transfer
+ * Send a payment on the in-memory mock chain (CRYPTO_CHAIN_PROVIDER=mock only)
+ */
+router.post(
+  '/admin/mock-chain/transfer',
+  authMiddleware,
+  adminMiddleware,
+  validateBody(mockChainTransferSchema),
+  async (req: Request<object, object, MockChainTransferInput>, res: Response): Promise<void> => {
+    try {
+      const mockChain = chainWatcherService.getMockChain();
+      if (!mockChain) {
+        res.status(404).json({ success: false, error: 'Mock chain is not enabled on this server' });
+        return;
+      }
+
+      const { network, address, asset, amount, confirm } = req.body;
+      const transfer = mockChain.send(network, address, asset, amount);
+      if (confirm) {
+        mockChain.mine(network, CRYPTO_NETWORKS[network].confirmations);
+      }
+
+      res.status(201).json({
+        success: true,
+        data: { ...transfer, height: mockChain.getHeight(network) },
+      });
+    } catch (error) {
+      logger.error('Mock chain transfer error', { error });
+      res.status(500).json({ success: false, error: 'Failed to send mock transfer' });
+    }
+  }
+);
+
 export default router;
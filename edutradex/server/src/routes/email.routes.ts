@@ -1,6 +1,7 @@
 import { Router, Request, Response, NextFunction } from 'express';
 import { z } from 'zod';
 import { emailService } from '../services/email/email.service.js';
+import { wsManager } from '../services/websocket/websocket.manager.js';
 import { queryOne, queryMany } from '../config/db.js';
 import { authMiddleware, adminMiddleware } from '../middleware/auth.middleware.js';
 import { logger } from '../utils/logger.js';
@@ -46,14 +47,22 @@ router.post(
           adminId
         );
 
+        wsManager.notifyAdminMessage(result.recipientIds, {
+          subject: body.subject,
+          content: body.content,
+          isAnnouncement: true,
+        });
+
         res.json({
           success: true,
           data: {
             message: 'Bulk message sent successfully',
             sent: result.sent,
             failed: result.failed,
+            skipped: result.skipped,
           },
         });
+        return;
       }
 
       if (!body.userId) {
@@ -61,6 +70,7 @@ router.post(
           success: false,
           error: 'User ID is required when not sending to all',
         });
+        return;
       }
 
       const user = await queryOne<{ id: string; email: string; name: string }>(
@@ -84,6 +94,12 @@ router.post(
         adminId
       );
 
+      wsManager.notifyAdminMessage([user.id], {
+        subject: body.subject,
+        content: body.content,
+        isAnnouncement: false,
+      });
+
       res.json({
         success: true,
         data: {
@@ -2,12 +2,16 @@ import { Router } from 'express';
 import authRoutes from './auth.routes.js';
 import twoFactorRoutes from './two-factor.routes.js';
 import tradeRoutes from './trade.routes.js';
+import pendingOrderRoutes from './pending-order.routes.js';
+import priceAlertRoutes from './price-alert.routes.js';
+import notificationRoutes from './notification.routes.js';
 import marketRoutes from './market.routes.js';
 import adminRoutes from './admin.routes.js';
 import superadminRoutes from './superadmin.routes.js';
 import depositRoutes from './deposit.routes.js';
 import spreadRoutes from './spread.routes.js';
 import withdrawalRoutes from './withdrawal.routes.js';
+import bonusRoutes from './bonus.routes.js';
 import paymentMethodRoutes from './payment-method.routes.js';
 import copyTradingRoutes from './copy-trading.routes.js';
 import referralRoutes from './referral.routes.js';
@@ -18,6 +22,7 @@ import supportRoutes from './support.routes.js';
 import simulatedLeaderRoutes from './simulated-leader.routes.js';
 import securityRoutes from './security.routes.js';
 import profileRoutes from './profile.routes.js';
+import webhookRoutes from './webhook.routes.js';
 
 const router = Router();
 
@@ -25,11 +30,15 @@ const router = Router();
 router.use('/auth', authRoutes);
 router.use('/auth/2fa', twoFactorRoutes);
 router.use('/trades', tradeRoutes);
+router.use('/pending-orders', pendingOrderRoutes);
+router.use('/alerts', priceAlertRoutes);
+router.use('/notifications', notificationRoutes);
 router.use('/market', marketRoutes);
 router.use('/admin', adminRoutes);
 router.use('/superadmin', superadminRoutes);
 router.use('/deposits', depositRoutes);
 router.use('/withdrawals', withdrawalRoutes);
+router.use('/bonuses', bonusRoutes);
 router.use('/admin/spreads', spreadRoutes);
 router.use('/admin/security', securityRoutes);
 router.use('/payment-methods', paymentMethodRoutes);
@@ -41,5 +50,6 @@ router.use('/settings', settingsRoutes);
 router.use('/support', supportRoutes);
 router.use('/simulated-leaders', simulatedLeaderRoutes);
 router.use('/user', profileRoutes);
+router.use('/webhooks', webhookRoutes);
 
 export default router;
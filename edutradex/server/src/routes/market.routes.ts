@@ -1,6 +1,10 @@
 import { Router, Request, Response } from 'express';
 import { marketService } from '../services/market/market.service.js';
 import { otcMarketService } from '../services/otc/otc-market.service.js';
+import { payoutScheduleService } from '../services/market/payout-schedule.service.js';
+import { candleService } from '../services/market/candle.service.js';
+import { marketCalendarService } from '../services/market/market-calendar.service.js';
+import { feedHealthService } from '../services/market/feed-health.service.js';
 
 const router = Router();
 
@@ -106,24 +110,29 @@ router.get('/history/:symbol', (req: Request, res: Response) => {
   });
 });
 
+// `from` (inclusive) and `to` (exclusive) are unix seconds; page back by
+// passing the time of the oldest bar received as the next `to`
 router.get('/bars/:symbol', async (req: Request, res: Response) => {
   const { symbol } = req.params;
   const decodedSymbol = decodeURIComponent(symbol);
   const resolution = parseInt(req.query.resolution as string) || 60;
   const limit = Math.min(parseInt(req.query.limit as string) || 500, 1000);
+  const from = req.query.from !== undefined ? parseInt(req.query.from as string) : undefined;
+  const to = req.query.to !== undefined ? parseInt(req.query.to as string) : undefined;
+
+  if (resolution <= 0 || (from !== undefined && isNaN(from)) || (to !== undefined && isNaN(to))) {
+    res.status(400).json({
+      success: false,
+      error: 'Invalid resolution or time range',
+    });
+    return;
+  }
 
   try {
-    let bars;
-
-    // Check if this is an OTC symbol - fetch from OTC database
-    if (otcMarketService.isOTCSymbol(decodedSymbol)) {
-      bars = await otcMarketService.getHistoricalBars(decodedSymbol, resolution, limit);
-    } else {
-      // Use real historical data from Binance/Deriv for regular symbols
-      bars = await marketService.getRealHistoricalBars(decodedSymbol, resolution, limit);
-    }
+    const bars = await candleService.getBars(decodedSymbol, resolution, { from, to, limit });
 
-    if (bars.length === 0) {
+    // An empty page while paging just means there is no older data
+    if (bars.length === 0 && from === undefined && to === undefined) {
       res.status(404).json({
         success: false,
         error: 'No data available for symbol',
@@ -216,12 +225,91 @@ router.get('/asset/:symbol', (req: Request, res: Response) => {
   });
 });
 
-router.get('/status', (_req: Request, res: Response) => {
+router.get('/payout/:symbol', async (req: Request, res: Response) => {
+  const { symbol } = req.params;
+  const decodedSymbol = decodeURIComponent(symbol);
+  const duration = parseInt(req.query.duration as string);
+
+  if (!Number.isInteger(duration) || duration < 5 || duration > 86400) {
+    res.status(400).json({
+      success: false,
+      error: 'duration must be between 5 and 86400 seconds',
+    });
+    return;
+  }
+
+  if (!marketService.getAsset(decodedSymbol) && !otcMarketService.getConfig(decodedSymbol)) {
+    res.status(404).json({
+      success: false,
+      error: 'Asset not found',
+    });
+    return;
+  }
+
+  try {
+    const quote = await payoutScheduleService.resolvePayout(decodedSymbol, duration);
+
+    res.json({
+      success: true,
+      data: quote,
+    });
+  } catch (error) {
+    res.status(500).json({
+      success: false,
+      error: 'Failed to resolve payout',
+    });
+  }
+});
+
+router.get('/status', async (_req: Request, res: Response) => {
   const status = marketService.getMarketStatus();
 
+  try {
+    const sessions = await marketCalendarService.getMarketTypeStatuses();
+
+    res.json({
+      success: true,
+      data: { ...status, sessions },
+    });
+  } catch (error) {
+    res.status(500).json({
+      success: false,
+      error: 'Failed to fetch market status',
+    });
+  }
+});
+
+// Trading hours of every non-OTC symbol, with the next open and close times
+router.get('/sessions', async (_req: Request, res: Response) => {
+  try {
+    const symbols = await marketCalendarService.getAllSymbolStatuses();
+
+    res.json({
+      success: true,
+      data: {
+        serverTime: new Date().toISOString(),
+        symbols,
+      },
+    });
+  } catch (error) {
+    res.status(500).json({
+      success: false,
+      error: 'Failed to fetch market sessions',
+    });
+  }
+});
+
+// Live feed health - 'degraded' while any symbol has trading suspended
+router.get('/health', (_req: Request, res: Response) => {
+  const summary = feedHealthService.getSummary();
+
   res.json({
     success: true,
-    data: status,
+    data: {
+      status: summary.suspended > 0 ? 'degraded' : 'ok',
+      serverTime: new Date().toISOString(),
+      ...summary,
+    },
   });
 });
 
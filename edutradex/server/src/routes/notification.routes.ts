@@ -0,0 +1,177 @@
+import { Router, Request, Response, NextFunction } from 'express';
+import { authMiddleware } from '../middleware/auth.middleware.js';
+import { validate } from '../middleware/validate.middleware.js';
+import {
+  notificationService,
+  NotificationServiceError,
+} from '../services/notification/notification.service.js';
+import {
+  getNotificationsQuerySchema,
+  updateNotificationPreferencesSchema,
+  type UpdateNotificationPreferencesInput,
+} from '../validators/notification.validators.js';
+
+const router = Router();
+
+router.use(authMiddleware);
+
+router.get(
+  '/',
+  async (req: Request, res: Response, next: NextFunction): Promise<void> => {
+    try {
+      const userId = req.userId!;
+      const parsed = getNotificationsQuerySchema.safeParse(req.query);
+
+      if (!parsed.success) {
+        res.status(400).json({
+          success: false,
+          error: 'Invalid query parameters',
+          details: parsed.error.issues,
+        });
+        return;
+      }
+
+      const { unread, type, limit, offset } = parsed.data;
+      const result = await notificationService.getUserNotifications(userId, {
+        unreadOnly: unread,
+        type,
+        limit,
+        offset,
+      });
+
+      res.json({
+        success: true,
+        data: result.notifications,
+        unreadCount: result.unreadCount,
+        pagination: {
+          total: result.total,
+          limit,
+          offset,
+        },
+      });
+    } catch (error) {
+      next(error);
+    }
+  }
+);
+
+router.get(
+  '/preferences',
+  async (req: Request, res: Response, next: NextFunction): Promise<void> => {
+    try {
+      const preferences = await notificationService.getPreferences(req.userId!);
+
+      res.json({
+        success: true,
+        data: preferences,
+      });
+    } catch (error) {
+      next(error);
+    }
+  }
+);
+
+router.put(
+  '/preferences',
+  validate(updateNotificationPreferencesSchema),
+  async (req: Request, res: Response, next: NextFunction): Promise<void> => {
+    try {
+      const { preferences } = req.body as UpdateNotificationPreferencesInput;
+      const updated = await notificationService.updatePreferences(req.userId!, preferences);
+
+      res.json({
+        success: true,
+        data: updated,
+      });
+    } catch (error) {
+      if (error instanceof NotificationServiceError) {
+        res.status(error.statusCode).json({
+          success: false,
+          error: error.message,
+        });
+        return;
+      }
+      next(error);
+    }
+  }
+);
+
+router.post(
+  '/read-all',
+  async (req: Request, res: Response, next: NextFunction): Promise<void> => {
+    try {
+      const count = await notificationService.markAllRead(req.userId!);
+
+      res.json({
+        success: true,
+        data: { count },
+      });
+    } catch (error) {
+      next(error);
+    }
+  }
+);
+
+router.post(
+  '/:notificationId/read',
+  async (req: Request, res: Response, next: NextFunction): Promise<void> => {
+    try {
+      await notificationService.markRead(req.userId!, req.params.notificationId);
+
+      res.json({
+        success: true,
+        message: 'Marked as read',
+      });
+    } catch (error) {
+      if (error instanceof NotificationServiceError) {
+        res.status(error.statusCode).json({
+          success: false,
+          error: error.message,
+        });
+        return;
+      }
+      next(error);
+    }
+  }
+);
+
+router.delete(
+  '/:notificationId',
+  async (req: Request, res: Response, next: NextFunction): Promise<void> => {
+    try {
+      await notificationService.deleteNotification(req.userId!, req.params.notificationId);
+
+      res.json({
+        success: true,
+        message: 'Notification deleted',
+      });
+    } catch (error) {
+      if (error instanceof NotificationServiceError) {
+        res.status(error.statusCode).json({
+          success: false,
+          error: error.message,
+        });
+        return;
+      }
+      next(error);
+    }
+  }
+);
+
+router.delete(
+  '/',
+  async (req: Request, res: Response, next: NextFunction): Promise<void> => {
+    try {
+      const count = await notificationService.clearAll(req.userId!);
+
+      res.json({
+        success: true,
+        data: { count },
+      });
+    } catch (error) {
+      next(error);
+    }
+  }
+);
+
+export default router;
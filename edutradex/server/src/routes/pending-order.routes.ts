@@ -0,0 +1,162 @@
+import { Router, Request, Response, NextFunction } from 'express';
+import { authMiddleware } from '../middleware/auth.middleware.js';
+import { idempotencyMiddleware } from '../middleware/idempotency.middleware.js';
+import { validate } from '../middleware/validate.middleware.js';
+import {
+  pendingOrderService,
+  PendingOrderServiceError,
+} from '../services/trade/pending-order.service.js';
+import {
+  createPendingOrderSchema,
+  updatePendingOrderSchema,
+  getPendingOrdersQuerySchema,
+  type CreatePendingOrderInput,
+  type UpdatePendingOrderInput,
+} from '../validators/pending-order.validators.js';
+
+const router = Router();
+
+router.use(authMiddleware);
+
+router.post(
+  '/',
+  idempotencyMiddleware,
+  validate(createPendingOrderSchema),
+  async (req: Request, res: Response, next: NextFunction): Promise<void> => {
+    try {
+      const userId = req.userId!;
+      const order = await pendingOrderService.createOrder(userId, req.body as CreatePendingOrderInput);
+
+      res.status(201).json({
+        success: true,
+        data: order,
+      });
+    } catch (error) {
+      if (error instanceof PendingOrderServiceError) {
+        res.status(error.statusCode).json({
+          success: false,
+          error: error.message,
+        });
+        return;
+      }
+      next(error);
+    }
+  }
+);
+
+router.get(
+  '/',
+  async (req: Request, res: Response, next: NextFunction): Promise<void> => {
+    try {
+      const userId = req.userId!;
+      const parsed = getPendingOrdersQuerySchema.safeParse(req.query);
+
+      if (!parsed.success) {
+        res.status(400).json({
+          success: false,
+          error: 'Invalid query parameters',
+          details: parsed.error.issues,
+        });
+        return;
+      }
+
+      const { status, limit, offset } = parsed.data;
+      const result = await pendingOrderService.getUserOrders(userId, { status, limit, offset });
+
+      res.json({
+        success: true,
+        data: result.orders,
+        pagination: {
+          total: result.total,
+          limit,
+          offset,
+        },
+      });
+    } catch (error) {
+      next(error);
+    }
+  }
+);
+
+router.get(
+  '/:orderId',
+  async (req: Request, res: Response, next: NextFunction): Promise<void> => {
+    try {
+      const userId = req.userId!;
+      const { orderId } = req.params;
+
+      const order = await pendingOrderService.getOrderById(orderId, userId);
+
+      if (!order) {
+        res.status(404).json({
+          success: false,
+          error: 'Order not found',
+        });
+        return;
+      }
+
+      res.json({
+        success: true,
+        data: order,
+      });
+    } catch (error) {
+      next(error);
+    }
+  }
+);
+
+router.patch(
+  '/:orderId',
+  validate(updatePendingOrderSchema),
+  async (req: Request, res: Response, next: NextFunction): Promise<void> => {
+    try {
+      const userId = req.userId!;
+      const { orderId } = req.params;
+
+      const order = await pendingOrderService.updateOrder(userId, orderId, req.body as UpdatePendingOrderInput);
+
+      res.json({
+        success: true,
+        data: order,
+      });
+    } catch (error) {
+      if (error instanceof PendingOrderServiceError) {
+        res.status(error.statusCode).json({
+          success: false,
+          error: error.message,
+        });
+        return;
+      }
+      next(error);
+    }
+  }
+);
+
+router.delete(
+  '/:orderId',
+  async (req: Request, res: Response, next: NextFunction): Promise<void> => {
+    try {
+      const userId = req.userId!;
+      const { orderId } = req.params;
+
+      const order = await pendingOrderService.cancelOrder(userId, orderId);
+
+      res.json({
+        success: true,
+        message: 'Order cancelled',
+        data: order,
+      });
+    } catch (error) {
+      if (error instanceof PendingOrderServiceError) {
+        res.status(error.statusCode).json({
+          success: false,
+          error: error.message,
+        });
+        return;
+      }
+      next(error);
+    }
+  }
+);
+
+export default router;
@@ -0,0 +1,212 @@
+import { Router, Request, Response, NextFunction } from 'express';
+import { authMiddleware } from '../middleware/auth.middleware.js';
+import { validate } from '../middleware/validate.middleware.js';
+import {
+  priceAlertService,
+  PriceAlertServiceError,
+} from '../services/alerts/price-alert.service.js';
+import {
+  createPriceAlertSchema,
+  updatePriceAlertSchema,
+  getPriceAlertsQuerySchema,
+  getAlertInboxQuerySchema,
+  type CreatePriceAlertInput,
+  type UpdatePriceAlertInput,
+} from '../validators/price-alert.validators.js';
+
+const router = Router();
+
+router.use(authMiddleware);
+
+router.post(
+  '/',
+  validate(createPriceAlertSchema),
+  async (req: Request, res: Response, next: NextFunction): Promise<void> => {
+    try {
+      const userId = req.userId!;
+      const alert = await priceAlertService.createAlert(userId, req.body as CreatePriceAlertInput);
+
+      res.status(201).json({
+        success: true,
+        data: alert,
+      });
+    } catch (error) {
+      if (error instanceof PriceAlertServiceError) {
+        res.status(error.statusCode).json({
+          success: false,
+          error: error.message,
+        });
+        return;
+      }
+      next(error);
+    }
+  }
+);
+
+router.get(
+  '/',
+  async (req: Request, res: Response, next: NextFunction): Promise<void> => {
+    try {
+      const userId = req.userId!;
+      const parsed = getPriceAlertsQuerySchema.safeParse(req.query);
+
+      if (!parsed.success) {
+        res.status(400).json({
+          success: false,
+          error: 'Invalid query parameters',
+          details: parsed.error.issues,
+        });
+        return;
+      }
+
+      const { status, symbol, limit, offset } = parsed.data;
+      const result = await priceAlertService.getUserAlerts(userId, { status, symbol, limit, offset });
+
+      res.json({
+        success: true,
+        data: result.alerts,
+        pagination: {
+          total: result.total,
+          limit,
+          offset,
+        },
+      });
+    } catch (error) {
+      next(error);
+    }
+  }
+);
+
+// Alert inbox - one entry per firing
+router.get(
+  '/inbox',
+  async (req: Request, res: Response, next: NextFunction): Promise<void> => {
+    try {
+      const userId = req.userId!;
+      const parsed = getAlertInboxQuerySchema.safeParse(req.query);
+
+      if (!parsed.success) {
+        res.status(400).json({
+          success: false,
+          error: 'Invalid query parameters',
+          details: parsed.error.issues,
+        });
+        return;
+      }
+
+      const { unread, limit, offset } = parsed.data;
+      const result = await priceAlertService.getInbox(userId, { unreadOnly: unread, limit, offset });
+
+      res.json({
+        success: true,
+        data: result.events,
+        unreadCount: result.unreadCount,
+        pagination: {
+          total: result.total,
+          limit,
+          offset,
+        },
+      });
+    } catch (error) {
+      next(error);
+    }
+  }
+);
+
+router.post(
+  '/inbox/read-all',
+  async (req: Request, res: Response, next: NextFunction): Promise<void> => {
+    try {
+      const userId = req.userId!;
+      const count = await priceAlertService.markAllEventsRead(userId);
+
+      res.json({
+        success: true,
+        data: { count },
+      });
+    } catch (error) {
+      next(error);
+    }
+  }
+);
+
+router.post(
+  '/inbox/:eventId/read',
+  async (req: Request, res: Response, next: NextFunction): Promise<void> => {
+    try {
+      const userId = req.userId!;
+      const { eventId } = req.params;
+
+      await priceAlertService.markEventRead(userId, eventId);
+
+      res.json({
+        success: true,
+        message: 'Marked as read',
+      });
+    } catch (error) {
+      if (error instanceof PriceAlertServiceError) {
+        res.status(error.statusCode).json({
+          success: false,
+          error: error.message,
+        });
+        return;
+      }
+      next(error);
+    }
+  }
+);
+
+router.patch(
+  '/:alertId',
+  validate(updatePriceAlertSchema),
+  async (req: Request, res: Response, next: NextFunction): Promise<void> => {
+    try {
+      const userId = req.userId!;
+      const { alertId } = req.params;
+
+      const alert = await priceAlertService.updateAlert(userId, alertId, req.body as UpdatePriceAlertInput);
+
+      res.json({
+        success: true,
+        data: alert,
+      });
+    } catch (error) {
+      if (error instanceof PriceAlertServiceError) {
+        res.status(error.statusCode).json({
+          success: false,
+          error: error.message,
+        });
+        return;
+      }
+      next(error);
+    }
+  }
+);
+
+router.delete(
+  '/:alertId',
+  async (req: Request, res: Response, next: NextFunction): Promise<void> => {
+    try {
+      const userId = req.userId!;
+      const { alertId } = req.params;
+
+      await priceAlertService.deleteAlert(userId, alertId);
+
+      res.json({
+        success: true,
+        message: 'Alert deleted',
+      });
+    } catch (error) {
+      if (error instanceof PriceAlertServiceError) {
+        res.status(error.statusCode).json({
+          success: false,
+          error: error.message,
+        });
+        return;
+      }
+      next(error);
+    }
+  }
+);
+
+export default router;
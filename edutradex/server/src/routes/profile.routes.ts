@@ -4,7 +4,29 @@ import { profileService, ProfileServiceError } from '../services/user/profile.se
 import {
   deviceIdParamsSchema,
   loginHistoryQuerySchema,
+  statementQuerySchema,
+  updateTradingLimitsSchema,
+  limitTypeParamsSchema,
+  timeOutSchema,
+  selfExclusionSchema,
+  chartLayoutParamsSchema,
+  chartLayoutDataSchemas,
+  saveChartLayoutSchema,
 } from '../validators/profile.validators.js';
+import { ledgerService } from '../services/ledger/ledger.service.js';
+import {
+  accountStatementService,
+  AccountStatementServiceError,
+} from '../services/user/account-statement.service.js';
+import { pdfExportService } from '../services/financial/pdf-export.service.js';
+import {
+  tradingLimitsService,
+  TradingLimitsServiceError,
+} from '../services/limits/trading-limits.service.js';
+import {
+  chartLayoutService,
+  ChartLayoutServiceError,
+} from '../services/user/chart-layout.service.js';
 import { logger } from '../utils/logger.js';
 
 const router = Router();
@@ -158,12 +180,265 @@ router.get(
   }
 );
 
+/**
+ * GET /api/user/profile/statement
+ * Returns the user's account statement built from the ledger.
+ * format=pdf|csv downloads the full statement for the period instead.
+ */
+router.get(
+  '/profile/statement',
+  authMiddleware,
+  async (req: Request, res: Response, next: NextFunction): Promise<void> => {
+    try {
+      const userId = req.userId!;
+      const { accountType, format, from, to, limit, offset } = statementQuerySchema.parse(req.query);
+
+      if (format !== 'json') {
+        const statement = await accountStatementService.getStatement(userId, { accountType, from, to });
+        const lastDay = new Date(statement.to.getTime() - 1);
+        const filename = `statement-${accountType.toLowerCase()}-${statement.from.toISOString().split('T')[0]}-${lastDay.toISOString().split('T')[0]}.${format}`;
+
+        if (format === 'pdf') {
+          const pdfBuffer = await pdfExportService.generateAccountStatementPDF(statement);
+          res.setHeader('Content-Type', 'application/pdf');
+          res.setHeader('Content-Disposition', `attachment; filename="${filename}"`);
+          res.send(pdfBuffer);
+        } else {
+          res.setHeader('Content-Type', 'text/csv');
+          res.setHeader('Content-Disposition', `attachment; filename="${filename}"`);
+          res.send(accountStatementService.toCsv(statement));
+        }
+        return;
+      }
+
+      const statement = await ledgerService.getStatement(userId, { accountType, from, to, limit, offset });
+
+      res.json({
+        success: true,
+        data: statement,
+        pagination: {
+          total: statement.total,
+          limit,
+          offset,
+        },
+      });
+    } catch (error) {
+      next(error);
+    }
+  }
+);
+
+/**
+ * GET /api/user/profile/limits
+ * Returns the user's self-imposed trading limits, pending increases and today's usage
+ */
+router.get(
+  '/profile/limits',
+  authMiddleware,
+  async (req: Request, res: Response, next: NextFunction): Promise<void> => {
+    try {
+      const limits = await tradingLimitsService.getLimits(req.userId!);
+
+      res.json({
+        success: true,
+        data: limits,
+      });
+    } catch (error) {
+      next(error);
+    }
+  }
+);
+
+/**
+ * PUT /api/user/profile/limits
+ * Set trading limits - decreases apply now, increases after the cooling delay
+ */
+router.put(
+  '/profile/limits',
+  authMiddleware,
+  async (req: Request, res: Response, next: NextFunction): Promise<void> => {
+    try {
+      const userId = req.userId!;
+      const changes = updateTradingLimitsSchema.parse(req.body);
+
+      const limits = await tradingLimitsService.updateLimits(userId, changes);
+
+      res.json({
+        success: true,
+        data: limits,
+        message: limits.pendingChanges.length > 0
+          ? `Limits updated. Increases take effect after ${limits.increaseDelayHours} hours.`
+          : 'Limits updated',
+      });
+    } catch (error) {
+      next(error);
+    }
+  }
+);
+
+/**
+ * DELETE /api/user/profile/limits/pending/:limitType
+ * Cancel a limit increase that has not taken effect yet
+ */
+router.delete(
+  '/profile/limits/pending/:limitType',
+  authMiddleware,
+  async (req: Request, res: Response, next: NextFunction): Promise<void> => {
+    try {
+      const userId = req.userId!;
+      const { limitType } = limitTypeParamsSchema.parse(req.params);
+
+      const limits = await tradingLimitsService.cancelPendingChange(userId, limitType);
+
+      res.json({
+        success: true,
+        data: limits,
+      });
+    } catch (error) {
+      next(error);
+    }
+  }
+);
+
+/**
+ * POST /api/user/profile/limits/time-out
+ * Take a break - blocks trading and deposits until the period ends
+ */
+router.post(
+  '/profile/limits/time-out',
+  authMiddleware,
+  async (req: Request, res: Response, next: NextFunction): Promise<void> => {
+    try {
+      const userId = req.userId!;
+      const { period } = timeOutSchema.parse(req.body);
+
+      const limits = await tradingLimitsService.startTimeOut(userId, period);
+
+      res.json({
+        success: true,
+        data: limits,
+        message: 'Time-out started',
+      });
+    } catch (error) {
+      next(error);
+    }
+  }
+);
+
+/**
+ * POST /api/user/profile/limits/self-exclusion
+ * Self-exclude - blocks trading and deposits until the period ends, cannot be undone
+ */
+router.post(
+  '/profile/limits/self-exclusion',
+  authMiddleware,
+  async (req: Request, res: Response, next: NextFunction): Promise<void> => {
+    try {
+      const userId = req.userId!;
+      const { period } = selfExclusionSchema.parse(req.body);
+
+      const limits = await tradingLimitsService.startSelfExclusion(userId, period);
+
+      res.json({
+        success: true,
+        data: limits,
+        message: 'Self-exclusion started',
+      });
+    } catch (error) {
+      next(error);
+    }
+  }
+);
+
+/**
+ * GET /api/user/profile/chart-layouts
+ * Returns the user's synced chart settings, per-symbol drawings and saved templates
+ */
+router.get(
+  '/profile/chart-layouts',
+  authMiddleware,
+  async (req: Request, res: Response, next: NextFunction): Promise<void> => {
+    try {
+      const layouts = await chartLayoutService.getLayouts(req.userId!);
+
+      res.json({
+        success: true,
+        data: layouts,
+      });
+    } catch (error) {
+      next(error);
+    }
+  }
+);
+
+/**
+ * PUT /api/user/profile/chart-layouts/:kind/:key
+ * Save one layout document - 409 with the current copy if baseVersion is stale
+ */
+router.put(
+  '/profile/chart-layouts/:kind/:key',
+  authMiddleware,
+  async (req: Request, res: Response, next: NextFunction): Promise<void> => {
+    try {
+      const userId = req.userId!;
+      const { kind, key } = chartLayoutParamsSchema.parse(req.params);
+      const { baseVersion, data } = saveChartLayoutSchema.parse(req.body);
+      const layoutData = chartLayoutDataSchemas[kind].parse(data);
+
+      const layout = await chartLayoutService.saveLayout(userId, kind, key, layoutData, baseVersion);
+
+      res.json({
+        success: true,
+        data: layout,
+      });
+    } catch (error) {
+      next(error);
+    }
+  }
+);
+
+/**
+ * DELETE /api/user/profile/chart-layouts/:kind/:key
+ * Remove a saved template or a symbol's drawings
+ */
+router.delete(
+  '/profile/chart-layouts/:kind/:key',
+  authMiddleware,
+  async (req: Request, res: Response, next: NextFunction): Promise<void> => {
+    try {
+      const { kind, key } = chartLayoutParamsSchema.parse(req.params);
+
+      await chartLayoutService.deleteLayout(req.userId!, kind, key);
+
+      res.json({
+        success: true,
+        message: 'Layout deleted',
+      });
+    } catch (error) {
+      next(error);
+    }
+  }
+);
+
 /**
  * Error handler for profile routes
  */
 router.use(
   (error: Error, _req: Request, res: Response, next: NextFunction): void => {
-    if (error instanceof ProfileServiceError) {
+    if (error instanceof ChartLayoutServiceError) {
+      res.status(error.statusCode).json({
+        success: false,
+        error: error.message,
+        ...(error.statusCode === 409 && { data: error.current ?? null }),
+      });
+      return;
+    }
+
+    if (
+      error instanceof ProfileServiceError ||
+      error instanceof TradingLimitsServiceError ||
+      error instanceof AccountStatementServiceError
+    ) {
       res.status(error.statusCode).json({
         success: false,
         error: error.message,
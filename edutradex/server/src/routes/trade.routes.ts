@@ -1,11 +1,15 @@
 import { Router, Request, Response, NextFunction } from 'express';
 import { authMiddleware } from '../middleware/auth.middleware.js';
+import { idempotencyMiddleware } from '../middleware/idempotency.middleware.js';
 import { validate } from '../middleware/validate.middleware.js';
-import { tradeService, TradeServiceError } from '../services/trade/trade.service.js';
+import { tradeService, TradeServiceError, toEarlyCloseBody } from '../services/trade/trade.service.js';
+import { tradeReplayService, TradeReplayError } from '../services/trade/trade-replay.service.js';
 import {
   placeTradeSchema,
   getTradesQuerySchema,
+  closeTradeSchema,
   type PlaceTradeInput,
+  type CloseTradeInput,
 } from '../validators/trade.validators.js';
 import { logger } from '../utils/logger.js';
 
@@ -15,6 +19,7 @@ router.use(authMiddleware);
 
 router.post(
   '/',
+  idempotencyMiddleware,
   validate(placeTradeSchema),
   async (req: Request, res: Response, next: NextFunction): Promise<void> => {
     try {
@@ -108,6 +113,32 @@ router.get(
   }
 );
 
+router.get(
+  '/:tradeId/replay',
+  async (req: Request, res: Response, next: NextFunction): Promise<void> => {
+    try {
+      const userId = req.userId!;
+      const { tradeId } = req.params;
+
+      const replay = await tradeReplayService.getReplay(tradeId, userId);
+
+      res.json({
+        success: true,
+        data: replay,
+      });
+    } catch (error) {
+      if (error instanceof TradeReplayError) {
+        res.status(error.statusCode).json({
+          success: false,
+          error: error.message,
+        });
+        return;
+      }
+      next(error);
+    }
+  }
+);
+
 router.get(
   '/:tradeId',
   async (req: Request, res: Response, next: NextFunction): Promise<void> => {
@@ -135,6 +166,32 @@ router.get(
   }
 );
 
+router.post(
+  '/:tradeId/close',
+  idempotencyMiddleware,
+  validate(closeTradeSchema),
+  async (req: Request, res: Response, next: NextFunction): Promise<void> => {
+    try {
+      const userId = req.userId!;
+      const { tradeId } = req.params;
+      const { quoteId } = req.body as CloseTradeInput;
+
+      const result = await tradeService.closeTradeEarly(userId, tradeId, quoteId);
+
+      res.json(toEarlyCloseBody(result));
+    } catch (error) {
+      if (error instanceof TradeServiceError) {
+        res.status(error.statusCode).json({
+          success: false,
+          error: error.message,
+        });
+        return;
+      }
+      next(error);
+    }
+  }
+);
+
 router.delete(
   '/history',
   async (req: Request, res: Response, next: NextFunction): Promise<void> => {
@@ -0,0 +1,33 @@
+import { Router, Request, Response } from 'express';
+import { mobileMoneySettlementService } from '../services/mobile-money/mobile-money-settlement.service.js';
+import { MobileMoneyGatewayError } from '../services/mobile-money/mobile-money-gateway.service.js';
+import { logger } from '../utils/logger.js';
+
+const router = Router();
+
+/**
+ * POST /api/webhooks/mobile-money/:provider
+ * Signed status callback from a mobile money provider. The body arrives raw
+ * (see app.ts) because the signature covers the exact bytes sent.
+ */
+router.post(
+  '/mobile-money/:provider',
+  async (req: Request<{ provider: string }>, res: Response): Promise<void> => {
+    try {
+      const rawBody = Buffer.isBuffer(req.body) ? req.body : Buffer.alloc(0);
+      await mobileMoneySettlementService.handleCallback(req.params.provider, req.headers, rawBody);
+
+      res.json({ success: true });
+    } catch (error) {
+      if (error instanceof MobileMoneyGatewayError) {
+        logger.warn('Mobile money callback refused', { provider: req.params.provider, reason: error.message, ip: req.ip });
+        res.status(error.statusCode).json({ success: false, error: error.message });
+        return;
+      }
+      logger.error('Mobile money callback error', { error });
+      res.status(500).json({ success: false, error: 'Failed to process callback' });
+    }
+  }
+);
+
+export default router;
@@ -1,24 +1,63 @@
 import { Router, Request, Response, NextFunction } from 'express';
-import { withdrawalService, WithdrawalServiceError } from '../services/withdrawal/withdrawal.service.js';
+import multer from 'multer';
+import path from 'path';
+import {
+  withdrawalService,
+  WithdrawalServiceError,
+  type WithdrawalMethod,
+  type WithdrawalStatus,
+} from '../services/withdrawal/withdrawal.service.js';
+import { withdrawalRulesService } from '../services/withdrawal/withdrawal-rules.service.js';
 import { authMiddleware, adminMiddleware } from '../middleware/auth.middleware.js';
+import { idempotencyMiddleware } from '../middleware/idempotency.middleware.js';
 import { validateBody, validateQuery } from '../middleware/validate.middleware.js';
 import {
   mobileMoneyWithdrawalSchema,
   cryptoWithdrawalSchema,
   withdrawalFiltersSchema,
   processWithdrawalSchema,
+  markProcessingSchema,
+  completeWithdrawalSchema,
+  failWithdrawalSchema,
+  withdrawalRuleSettingsSchema,
   userWithdrawalsQuerySchema,
   sendVerificationCodeSchema,
   verifyWithdrawalCodeSchema,
 } from '../validators/withdrawal.validators.js';
 import { emailService } from '../services/email/email.service.js';
+import { logger } from '../utils/logger.js';
 
 const router = Router();
 
+// Payout receipts attached when an admin completes a withdrawal
+const receiptStorage = multer.diskStorage({
+  destination: (_req, _file, cb) => {
+    cb(null, 'uploads/withdrawal-receipts');
+  },
+  filename: (_req, file, cb) => {
+    const uniqueSuffix = Date.now() + '-' + Math.round(Math.random() * 1e9);
+    cb(null, uniqueSuffix + path.extname(file.originalname));
+  },
+});
+
+const receiptUpload = multer({
+  storage: receiptStorage,
+  fileFilter: (_req, file, cb) => {
+    const allowedTypes = ['image/jpeg', 'image/png', 'image/jpg', 'application/pdf'];
+    if (allowedTypes.includes(file.mimetype)) {
+      cb(null, true);
+    } else {
+      cb(new Error('Invalid file type. Only JPEG, PNG, and PDF are allowed.'));
+    }
+  },
+  limits: { fileSize: 5 * 1024 * 1024 }, // 5MB limit
+});
+
 // User routes
 router.post(
   '/mobile-money',
   authMiddleware,
+  idempotencyMiddleware,
   validateBody(mobileMoneyWithdrawalSchema),
   async (req: Request, res: Response, next: NextFunction) => {
     try {
@@ -44,6 +83,7 @@ router.post(
 router.post(
   '/crypto',
   authMiddleware,
+  idempotencyMiddleware,
   validateBody(cryptoWithdrawalSchema),
   async (req: Request, res: Response, next: NextFunction) => {
     try {
@@ -75,7 +115,7 @@ router.get(
     try {
       // User is set by authMiddleware
       const withdrawals = await withdrawalService.getUserWithdrawals(req.user!.id, {
-        status: req.query.status as 'PENDING' | 'APPROVED' | 'REJECTED' | undefined,
+        status: req.query.status as WithdrawalStatus | undefined,
         limit: req.query.limit ? Number(req.query.limit) : undefined,
       });
 
@@ -110,6 +150,28 @@ router.get(
   }
 );
 
+router.post(
+  '/:withdrawalId/cancel',
+  authMiddleware,
+  async (req: Request, res: Response, next: NextFunction) => {
+    try {
+      // User is set by authMiddleware
+      const withdrawal = await withdrawalService.cancelWithdrawal(
+        req.params.withdrawalId,
+        req.user!.id
+      );
+
+      res.json({
+        success: true,
+        data: withdrawal,
+        message: 'Withdrawal cancelled and funds returned to your balance',
+      });
+    } catch (error) {
+      next(error);
+    }
+  }
+);
+
 // Withdrawal verification routes
 router.post(
   '/send-verification',
@@ -183,8 +245,8 @@ router.get(
   async (req: Request, res: Response, next: NextFunction) => {
     try {
       const result = await withdrawalService.getAllWithdrawals({
-        status: req.query.status as 'PENDING' | 'APPROVED' | 'REJECTED' | undefined,
-        method: req.query.method as 'MOBILE_MONEY' | 'CRYPTO' | undefined,
+        status: req.query.status as WithdrawalStatus | undefined,
+        method: req.query.method as WithdrawalMethod | undefined,
         userId: req.query.userId as string | undefined,
         page: req.query.page ? Number(req.query.page) : undefined,
         limit: req.query.limit ? Number(req.query.limit) : undefined,
@@ -236,6 +298,46 @@ router.get(
   }
 );
 
+router.get(
+  '/admin/rules',
+  authMiddleware,
+  adminMiddleware,
+  async (req: Request, res: Response, next: NextFunction) => {
+    try {
+      const settings = await withdrawalRulesService.getSettings();
+
+      res.json({
+        success: true,
+        data: settings,
+      });
+    } catch (error) {
+      next(error);
+    }
+  }
+);
+
+router.put(
+  '/admin/rules',
+  authMiddleware,
+  adminMiddleware,
+  validateBody(withdrawalRuleSettingsSchema),
+  async (req: Request, res: Response, next: NextFunction) => {
+    try {
+      const settings = await withdrawalRulesService.updateSettings(req.body);
+
+      logger.info('Withdrawal rules updated', { adminId: req.user!.id, changes: req.body });
+
+      res.json({
+        success: true,
+        data: settings,
+        message: 'Withdrawal rules updated',
+      });
+    } catch (error) {
+      next(error);
+    }
+  }
+);
+
 router.post(
   '/admin/:withdrawalId/approve',
   authMiddleware,
@@ -253,7 +355,9 @@ router.post(
       res.json({
         success: true,
         data: withdrawal,
-        message: 'Withdrawal approved successfully',
+        message: withdrawal.status === 'PROCESSING'
+          ? 'Withdrawal approved and payout sent'
+          : 'Withdrawal approved successfully',
       });
     } catch (error) {
       next(error);
@@ -286,6 +390,116 @@ router.post(
   }
 );
 
+router.post(
+  '/admin/:withdrawalId/review',
+  authMiddleware,
+  adminMiddleware,
+  validateBody(processWithdrawalSchema),
+  async (req: Request, res: Response, next: NextFunction) => {
+    try {
+      const withdrawal = await withdrawalService.reviewWithdrawal(
+        req.params.withdrawalId,
+        req.user!.id,
+        req.body.adminNote
+      );
+
+      res.json({
+        success: true,
+        data: withdrawal,
+        message: 'Withdrawal placed under review',
+      });
+    } catch (error) {
+      next(error);
+    }
+  }
+);
+
+router.post(
+  '/admin/:withdrawalId/processing',
+  authMiddleware,
+  adminMiddleware,
+  validateBody(markProcessingSchema),
+  async (req: Request, res: Response, next: NextFunction) => {
+    try {
+      const withdrawal = await withdrawalService.markWithdrawalProcessing(
+        req.params.withdrawalId,
+        req.user!.id,
+        req.body
+      );
+
+      res.json({
+        success: true,
+        data: withdrawal,
+        message: 'Withdrawal marked as payment sent',
+      });
+    } catch (error) {
+      next(error);
+    }
+  }
+);
+
+router.post(
+  '/admin/:withdrawalId/complete',
+  authMiddleware,
+  adminMiddleware,
+  (req: Request, res: Response, next: NextFunction) => {
+    receiptUpload.single('receipt')(req, res, (err) => {
+      if (err) {
+        logger.error('Multer error', { error: err.message });
+        res.status(400).json({ success: false, error: err.message });
+        return;
+      }
+      next();
+    });
+  },
+  validateBody(completeWithdrawalSchema),
+  async (req: Request, res: Response, next: NextFunction) => {
+    try {
+      const withdrawal = await withdrawalService.completeWithdrawal(
+        req.params.withdrawalId,
+        req.user!.id,
+        {
+          ...req.body,
+          // Normalize paths to use forward slashes for consistency
+          payoutReceiptUrl: req.file?.path.replace(/\\/g, '/'),
+        }
+      );
+
+      res.json({
+        success: true,
+        data: withdrawal,
+        message: 'Withdrawal completed',
+      });
+    } catch (error) {
+      next(error);
+    }
+  }
+);
+
+router.post(
+  '/admin/:withdrawalId/fail',
+  authMiddleware,
+  adminMiddleware,
+  validateBody(failWithdrawalSchema),
+  async (req: Request, res: Response, next: NextFunction) => {
+    try {
+      const withdrawal = await withdrawalService.failWithdrawal(
+        req.params.withdrawalId,
+        req.user!.id,
+        req.body.reason
+      );
+
+      res.json({
+        success: true,
+        data: withdrawal,
+        message: 'Withdrawal marked as failed and funds returned',
+      });
+    } catch (error) {
+      next(error);
+    }
+  }
+);
+
 // Error handler for this router
 router.use((error: Error, req: Request, res: Response, next: NextFunction): void => {
   if (error instanceof WithdrawalServiceError) {
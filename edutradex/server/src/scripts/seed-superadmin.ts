@@ -19,7 +19,8 @@ dotenv.config({ path: path.resolve(__dirname, '../../.env') });
 
 import bcrypt from 'bcryptjs';
 import { randomBytes } from 'crypto';
-import { query, queryOne } from '../config/db.js';
+import { query, queryOne, transaction } from '../config/db.js';
+import { ledgerService } from '../services/ledger/ledger.service.js';
 
 const SALT_ROUNDS = 10;
 
@@ -100,17 +101,25 @@ async function seedSuperAdmin(): Promise<void> {
 
   // Create the SuperAdmin
   try {
-    const superAdmin = await queryOne<{ id: string; email: string }>(
-      `INSERT INTO "User" (
-        id, email, password, name, role, "isActive", "isProtected",
-        "demoBalance", "liveBalance", "activeAccountType", "emailVerified"
-      ) VALUES (
-        gen_random_uuid(), $1, $2, $3, 'SUPERADMIN', true, true,
-        0, 0, 'LIVE', true
-      )
-      RETURNING id, email`,
-      [email.toLowerCase(), hashedPassword, name]
-    );
+    const superAdmin = await transaction(async (client) => {
+      const result = await client.query<{ id: string; email: string; demoBalance: number; practiceBalance: number }>(
+        `INSERT INTO "User" (
+          id, email, password, name, role, "isActive", "isProtected",
+          "demoBalance", "liveBalance", "activeAccountType", "emailVerified"
+        ) VALUES (
+          gen_random_uuid(), $1, $2, $3, 'SUPERADMIN', true, true,
+          0, 0, 'LIVE', true
+        )
+        RETURNING id, email, "demoBalance", "practiceBalance"`,
+        [email.toLowerCase(), hashedPassword, name]
+      );
+
+      const created = result.rows[0];
+      if (created) {
+        await ledgerService.recordOpeningBalances(client, created.id, created);
+      }
+      return created;
+    });
 
     if (!superAdmin) {
       throw new Error('Failed to create SuperAdmin - no result returned');
@@ -1,8 +1,10 @@
-import { query, queryOne, queryMany } from '../../config/db.js';
+import { query, queryOne, queryMany, transaction } from '../../config/db.js';
 import { config } from '../../config/env.js';
 import { logger } from '../../utils/logger.js';
 import { marketService } from '../market/market.service.js';
 import { wsManager } from '../websocket/websocket.manager.js';
+import { ledgerService } from '../ledger/ledger.service.js';
+import { tradingLimitsService, type TradingLimitsState } from '../limits/trading-limits.service.js';
 import { randomUUID } from 'crypto';
 
 interface UserListItem {
@@ -67,6 +69,8 @@ interface MarketConfigData {
   minTradeAmount: number;
   maxTradeAmount: number;
   volatilityMode: string;
+  drawPolicy: 'REFUND' | 'LOSE' | null;
+  exchange: string | null;
   createdAt: Date;
   updatedAt: Date;
 }
@@ -341,7 +345,7 @@ class AdminService {
     return { success: true };
   }
 
-  async resetUserBalance(userId: string, newBalance?: number): Promise<{ demoBalance: number }> {
+  async resetUserBalance(userId: string, newBalance?: number, adminId?: string): Promise<{ demoBalance: number }> {
     const user = await queryOne<{ id: string; role: string; isProtected: boolean }>(
       `SELECT id, role, "isProtected" FROM "User" WHERE id = $1`,
       [userId]
@@ -363,14 +367,21 @@ class AdminService {
 
     const balance = newBalance ?? config.trading.defaultDemoBalance;
 
-    const updated = await queryOne<{ demoBalance: number }>(
-      `UPDATE "User" SET "demoBalance" = $1, "updatedAt" = $2 WHERE id = $3 RETURNING "demoBalance"`,
-      [balance, new Date(), userId]
+    const updated = await transaction((client) =>
+      ledgerService.setBalance(client, {
+        userId,
+        accountType: 'LIVE',
+        target: balance,
+        reason: 'BALANCE_RESET',
+        sourceType: 'ADMIN',
+        sourceId: adminId ?? null,
+        description: 'Balance reset by admin',
+      })
     );
 
-    logger.info('User balance reset by admin', { userId, newBalance: balance });
+    logger.info('User balance reset by admin', { userId, newBalance: balance, adminId });
 
-    return { demoBalance: Number(updated?.demoBalance || 0) };
+    return { demoBalance: Number(updated.demoBalance) };
   }
 
   async deleteUser(userId: string): Promise<{ success: boolean }> {
@@ -502,6 +513,8 @@ class AdminService {
       minTradeAmount?: number;
       maxTradeAmount?: number;
       volatilityMode?: string;
+      drawPolicy?: 'REFUND' | 'LOSE' | null;
+      exchange?: string | null;
     }
   ): Promise<MarketConfigData> {
     let config = await queryOne<MarketConfigData>(
@@ -520,8 +533,8 @@ class AdminService {
       config = await queryOne<MarketConfigData>(
         `INSERT INTO "MarketConfig" (
           id, symbol, "marketType", name, "isActive", "payoutPercent",
-          "minTradeAmount", "maxTradeAmount", "volatilityMode", "createdAt", "updatedAt"
-        ) VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10, $11) RETURNING *`,
+          "minTradeAmount", "maxTradeAmount", "volatilityMode", "drawPolicy", exchange, "createdAt", "updatedAt"
+        ) VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10, $11, $12, $13) RETURNING *`,
         [
           randomUUID(),
           symbol,
@@ -532,6 +545,8 @@ class AdminService {
           data.minTradeAmount ?? 1,
           data.maxTradeAmount ?? 1000,
           data.volatilityMode ?? 'MEDIUM',
+          data.drawPolicy ?? null,
+          data.exchange ?? null,
           now,
           now,
         ]
@@ -561,6 +576,14 @@ class AdminService {
         updates.push(`"volatilityMode" = $${paramIndex++}`);
         params.push(data.volatilityMode);
       }
+      if (data.drawPolicy !== undefined) {
+        updates.push(`"drawPolicy" = $${paramIndex++}`);
+        params.push(data.drawPolicy);
+      }
+      if (data.exchange !== undefined) {
+        updates.push(`exchange = $${paramIndex++}`);
+        params.push(data.exchange);
+      }
 
       if (updates.length > 0) {
         updates.push(`"updatedAt" = $${paramIndex++}`);
@@ -951,10 +974,12 @@ class AdminService {
       pendingDeposits: number;
       pendingWithdrawals: number;
     };
+    tradingLimits: TradingLimitsState;
   }> {
     const user = await this.getUserDetail(userId);
     const isOnline = this.isUserOnline(userId);
     const liveTrades = await this.getUserLiveTrades(userId);
+    const tradingLimits = await tradingLimitsService.getLimits(userId);
 
     // Get account stats
     const [accountInfo, depositStats, withdrawalStats] = await Promise.all([
@@ -975,8 +1000,8 @@ class AdminService {
       ),
       queryOne<{ total: number; pending: number }>(
         `SELECT
-          COALESCE(SUM(amount) FILTER (WHERE status = 'APPROVED'), 0) as total,
-          COUNT(*) FILTER (WHERE status = 'PENDING') as pending
+          COALESCE(SUM(amount) FILTER (WHERE status IN ('APPROVED', 'PROCESSING', 'COMPLETED')), 0) as total,
+          COUNT(*) FILTER (WHERE status IN ('PENDING', 'UNDER_REVIEW')) as pending
          FROM "Withdrawal" WHERE "userId" = $1`,
         [userId]
       ),
@@ -995,6 +1020,7 @@ class AdminService {
         pendingDeposits: Number(depositStats?.pending || 0),
         pendingWithdrawals: Number(withdrawalStats?.pending || 0),
       },
+      tradingLimits,
     };
   }
 
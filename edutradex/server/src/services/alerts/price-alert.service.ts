@@ -0,0 +1,678 @@
+import { query, queryOne, queryMany, transaction } from '../../config/db.js';
+import { logger } from '../../utils/logger.js';
+import { marketService } from '../market/market.service.js';
+import { otcMarketService } from '../otc/otc-market.service.js';
+import { wsManager } from '../websocket/websocket.manager.js';
+import { emailService } from '../email/email.service.js';
+import { clusterBus } from '../cluster/backplane.js';
+import { leaderElection } from '../cluster/leader-election.js';
+import { randomUUID } from 'crypto';
+import type {
+  CreatePriceAlertInput,
+  UpdatePriceAlertInput,
+} from '../../validators/price-alert.validators.js';
+
+/**
+ * Price Alerts
+ *
+ * Alerts are stored and evaluated on the server so they fire while the user
+ * is offline. Each firing is delivered over the WebSocket, optionally by
+ * email, and recorded as a PriceAlertEvent (the user's alert inbox).
+ *
+ * - CROSS_UP / CROSS_DOWN fire on the tick that crosses the target
+ * - PERCENT_CHANGE and RSI_ABOVE / RSI_BELOW are checked on an interval
+ *   against candles, and re-arm only once the condition has cleared
+ *
+ * ONE_SHOT alerts deactivate after firing; RECURRING alerts stay active and
+ * wait out their cooldown between firings. Like pending orders, only the
+ * cluster leader evaluates; other nodes ask it to re-read changed alerts.
+ */
+
+type PriceAlertType = 'CROSS_UP' | 'CROSS_DOWN' | 'PERCENT_CHANGE' | 'RSI_ABOVE' | 'RSI_BELOW';
+type PriceAlertMode = 'ONE_SHOT' | 'RECURRING';
+
+interface PriceAlertRow {
+  id: string;
+  userId: string;
+  symbol: string;
+  type: PriceAlertType;
+  targetPrice: number | null;
+  percentChange: number | null;
+  windowMinutes: number | null;
+  rsiPeriod: number | null;
+  rsiResolution: number | null;
+  rsiThreshold: number | null;
+  mode: PriceAlertMode;
+  cooldownMinutes: number;
+  notifyEmail: boolean;
+  note: string | null;
+  isActive: boolean;
+  triggerCount: number;
+  lastTriggeredAt: Date | null;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+interface PriceAlertEventRow {
+  id: string;
+  alertId: string;
+  userId: string;
+  symbol: string;
+  type: PriceAlertType;
+  message: string;
+  price: number;
+  value: number | null;
+  emailSent: boolean;
+  isRead: boolean;
+  createdAt: Date;
+}
+
+interface Bar {
+  time: number;
+  close: number;
+}
+
+class PriceAlertServiceError extends Error {
+  constructor(
+    message: string,
+    public statusCode: number = 400
+  ) {
+    super(message);
+    this.name = 'PriceAlertServiceError';
+  }
+}
+
+const ALERT_SYNC_CHANNEL = 'price-alerts:sync';
+const DEFAULT_RSI_PERIOD = 14;
+const DEFAULT_RSI_RESOLUTION = 300;
+
+const isOTCSymbol = (symbol: string): boolean => symbol.endsWith('-OTC');
+const isCrossAlert = (type: PriceAlertType): boolean => type === 'CROSS_UP' || type === 'CROSS_DOWN';
+
+class PriceAlertService {
+  private crossAlerts: Map<string, Map<string, PriceAlertRow>> = new Map(); // symbol -> alertId -> alert
+  private indicatorAlerts: Map<string, PriceAlertRow> = new Map();
+  private lastPrices: Map<string, number> = new Map();
+  // Indicator alerts that fired and wait for their condition to clear
+  private disarmed: Set<string> = new Set();
+  private firing: Set<string> = new Set();
+  private indicatorInterval: NodeJS.Timeout | null = null;
+  private isCheckingIndicators = false;
+  private unsubscribers: Array<() => void> = [];
+  private readonly INDICATOR_CHECK_INTERVAL_MS = 30000;
+  private readonly MAX_ACTIVE_PER_USER = 50;
+
+  constructor() {
+    clusterBus.subscribe<{ alertId: string }>(ALERT_SYNC_CHANNEL, ({ alertId }) => {
+      if (!leaderElection.isLeader()) return;
+
+      this.syncAlert(alertId).catch((error) => {
+        logger.error('[PriceAlerts] Failed to sync alert from cluster', { alertId, error });
+      });
+    });
+  }
+
+  /**
+   * Load active alerts and start evaluating them.
+   * Call after the market services are running.
+   */
+  async initialize(): Promise<void> {
+    const alerts = await queryMany<PriceAlertRow>(
+      `SELECT * FROM "PriceAlert" WHERE "isActive" = true`
+    );
+    alerts.forEach((alert) => this.watch(alert));
+
+    this.unsubscribers.push(
+      marketService.onPriceUpdate((tick) => this.handleTick(tick.symbol, tick.price)),
+      otcMarketService.onPriceUpdate((tick) => this.handleTick(tick.symbol, tick.price))
+    );
+
+    this.indicatorInterval = setInterval(() => {
+      this.checkIndicatorAlerts().catch((error) => {
+        logger.error('[PriceAlerts] Indicator check failed', { error });
+      });
+    }, this.INDICATOR_CHECK_INTERVAL_MS);
+
+    logger.info('[PriceAlerts] Evaluator started', { activeAlerts: alerts.length });
+  }
+
+  shutdown(): void {
+    this.unsubscribers.forEach((unsubscribe) => unsubscribe());
+    this.unsubscribers = [];
+
+    if (this.indicatorInterval) {
+      clearInterval(this.indicatorInterval);
+      this.indicatorInterval = null;
+    }
+
+    this.crossAlerts.clear();
+    this.indicatorAlerts.clear();
+    this.lastPrices.clear();
+    this.disarmed.clear();
+
+    logger.info('[PriceAlerts] Evaluator stopped');
+  }
+
+  async createAlert(userId: string, data: CreatePriceAlertInput): Promise<PriceAlertRow> {
+    if (!marketService.getAsset(data.symbol) && !otcMarketService.getConfig(data.symbol)) {
+      throw new PriceAlertServiceError('Symbol not found', 404);
+    }
+
+    await this.assertBelowActiveLimit(userId);
+
+    const isRsi = data.type === 'RSI_ABOVE' || data.type === 'RSI_BELOW';
+    const now = new Date();
+
+    const alert = await queryOne<PriceAlertRow>(
+      `INSERT INTO "PriceAlert" (
+        id, "userId", symbol, type, "targetPrice", "percentChange", "windowMinutes",
+        "rsiPeriod", "rsiResolution", "rsiThreshold", mode, "cooldownMinutes",
+        "notifyEmail", note, "isActive", "createdAt", "updatedAt"
+      ) VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10, $11, $12, $13, $14, true, $15, $15)
+      RETURNING *`,
+      [
+        randomUUID(),
+        userId,
+        data.symbol,
+        data.type,
+        isCrossAlert(data.type) ? data.targetPrice : null,
+        data.type === 'PERCENT_CHANGE' ? data.percentChange : null,
+        data.type === 'PERCENT_CHANGE' ? data.windowMinutes : null,
+        isRsi ? data.rsiPeriod ?? DEFAULT_RSI_PERIOD : null,
+        isRsi ? data.rsiResolution ?? DEFAULT_RSI_RESOLUTION : null,
+        isRsi ? data.rsiThreshold : null,
+        data.mode ?? 'ONE_SHOT',
+        data.cooldownMinutes ?? 60,
+        data.notifyEmail ?? false,
+        data.note ?? null,
+        now,
+      ]
+    );
+
+    this.watch(alert!);
+
+    logger.info('[PriceAlerts] Alert created', {
+      alertId: alert!.id,
+      userId,
+      symbol: alert!.symbol,
+      type: alert!.type,
+    });
+
+    return alert!;
+  }
+
+  async getUserAlerts(
+    userId: string,
+    options: { status?: 'active' | 'inactive'; symbol?: string; limit?: number; offset?: number } = {}
+  ): Promise<{ alerts: PriceAlertRow[]; total: number }> {
+    const { status, symbol, limit = 50, offset = 0 } = options;
+
+    let whereClause = `"userId" = $1`;
+    const params: any[] = [userId];
+
+    if (status) {
+      params.push(status === 'active');
+      whereClause += ` AND "isActive" = $${params.length}`;
+    }
+    if (symbol) {
+      params.push(symbol);
+      whereClause += ` AND symbol = $${params.length}`;
+    }
+
+    const [alerts, countResult] = await Promise.all([
+      queryMany<PriceAlertRow>(
+        `SELECT * FROM "PriceAlert" WHERE ${whereClause}
+         ORDER BY "createdAt" DESC LIMIT $${params.length + 1} OFFSET $${params.length + 2}`,
+        [...params, limit, offset]
+      ),
+      queryOne<{ count: string }>(
+        `SELECT COUNT(*) as count FROM "PriceAlert" WHERE ${whereClause}`,
+        params
+      ),
+    ]);
+
+    return {
+      alerts,
+      total: parseInt(countResult?.count || '0', 10),
+    };
+  }
+
+  async updateAlert(userId: string, alertId: string, data: UpdatePriceAlertInput): Promise<PriceAlertRow> {
+    const existing = await queryOne<PriceAlertRow>(
+      `SELECT * FROM "PriceAlert" WHERE id = $1 AND "userId" = $2`,
+      [alertId, userId]
+    );
+
+    if (!existing) {
+      throw new PriceAlertServiceError('Alert not found', 404);
+    }
+
+    if (data.targetPrice !== undefined && !isCrossAlert(existing.type)) {
+      throw new PriceAlertServiceError('targetPrice only applies to crossing alerts', 400);
+    }
+    if ((data.percentChange !== undefined || data.windowMinutes !== undefined) && existing.type !== 'PERCENT_CHANGE') {
+      throw new PriceAlertServiceError('percentChange and windowMinutes only apply to percent change alerts', 400);
+    }
+    if (
+      (data.rsiPeriod !== undefined || data.rsiResolution !== undefined || data.rsiThreshold !== undefined) &&
+      existing.type !== 'RSI_ABOVE' && existing.type !== 'RSI_BELOW'
+    ) {
+      throw new PriceAlertServiceError('RSI settings only apply to RSI alerts', 400);
+    }
+
+    if (data.isActive === true && !existing.isActive) {
+      await this.assertBelowActiveLimit(userId);
+    }
+
+    const fields: Array<[keyof UpdatePriceAlertInput, string]> = [
+      ['targetPrice', '"targetPrice"'],
+      ['percentChange', '"percentChange"'],
+      ['windowMinutes', '"windowMinutes"'],
+      ['rsiPeriod', '"rsiPeriod"'],
+      ['rsiResolution', '"rsiResolution"'],
+      ['rsiThreshold', '"rsiThreshold"'],
+      ['mode', 'mode'],
+      ['cooldownMinutes', '"cooldownMinutes"'],
+      ['notifyEmail', '"notifyEmail"'],
+      ['note', 'note'],
+      ['isActive', '"isActive"'],
+    ];
+
+    const updates: string[] = [];
+    const params: any[] = [];
+    for (const [key, column] of fields) {
+      if (data[key] !== undefined) {
+        params.push(data[key]);
+        updates.push(`${column} = $${params.length}`);
+      }
+    }
+
+    params.push(new Date());
+    updates.push(`"updatedAt" = $${params.length}`);
+    params.push(alertId);
+
+    const alert = await queryOne<PriceAlertRow>(
+      `UPDATE "PriceAlert" SET ${updates.join(', ')} WHERE id = $${params.length} RETURNING *`,
+      params
+    );
+
+    this.unwatch(existing);
+    if (alert!.isActive) {
+      this.watch(alert!);
+    }
+
+    logger.info('[PriceAlerts] Alert updated', { alertId, userId, data });
+
+    return alert!;
+  }
+
+  async deleteAlert(userId: string, alertId: string): Promise<void> {
+    const alert = await queryOne<PriceAlertRow>(
+      `DELETE FROM "PriceAlert" WHERE id = $1 AND "userId" = $2 RETURNING *`,
+      [alertId, userId]
+    );
+
+    if (!alert) {
+      throw new PriceAlertServiceError('Alert not found', 404);
+    }
+
+    this.unwatch(alert);
+
+    logger.info('[PriceAlerts] Alert deleted', { alertId, userId });
+  }
+
+  async getInbox(
+    userId: string,
+    options: { unreadOnly?: boolean; limit?: number; offset?: number } = {}
+  ): Promise<{ events: PriceAlertEventRow[]; total: number; unreadCount: number }> {
+    const { unreadOnly = false, limit = 50, offset = 0 } = options;
+    const whereClause = unreadOnly ? `"userId" = $1 AND "isRead" = false` : `"userId" = $1`;
+
+    const [events, countResult, unreadResult] = await Promise.all([
+      queryMany<PriceAlertEventRow>(
+        `SELECT * FROM "PriceAlertEvent" WHERE ${whereClause}
+         ORDER BY "createdAt" DESC LIMIT $2 OFFSET $3`,
+        [userId, limit, offset]
+      ),
+      queryOne<{ count: string }>(
+        `SELECT COUNT(*) as count FROM "PriceAlertEvent" WHERE ${whereClause}`,
+        [userId]
+      ),
+      queryOne<{ count: string }>(
+        `SELECT COUNT(*) as count FROM "PriceAlertEvent" WHERE "userId" = $1 AND "isRead" = false`,
+        [userId]
+      ),
+    ]);
+
+    return {
+      events,
+      total: parseInt(countResult?.count || '0', 10),
+      unreadCount: parseInt(unreadResult?.count || '0', 10),
+    };
+  }
+
+  async markEventRead(userId: string, eventId: string): Promise<void> {
+    const result = await query(
+      `UPDATE "PriceAlertEvent" SET "isRead" = true WHERE id = $1 AND "userId" = $2`,
+      [eventId, userId]
+    );
+
+    if (result.rowCount === 0) {
+      throw new PriceAlertServiceError('Alert event not found', 404);
+    }
+  }
+
+  async markAllEventsRead(userId: string): Promise<number> {
+    const result = await query(
+      `UPDATE "PriceAlertEvent" SET "isRead" = true WHERE "userId" = $1 AND "isRead" = false`,
+      [userId]
+    );
+    return result.rowCount || 0;
+  }
+
+  private async assertBelowActiveLimit(userId: string): Promise<void> {
+    const activeCount = await queryOne<{ count: string }>(
+      `SELECT COUNT(*) as count FROM "PriceAlert" WHERE "userId" = $1 AND "isActive" = true`,
+      [userId]
+    );
+    if (parseInt(activeCount?.count || '0', 10) >= this.MAX_ACTIVE_PER_USER) {
+      throw new PriceAlertServiceError(
+        `You can have at most ${this.MAX_ACTIVE_PER_USER} active alerts`,
+        400
+      );
+    }
+  }
+
+  private watch(alert: PriceAlertRow): void {
+    if (!leaderElection.isLeader()) {
+      clusterBus.publish(ALERT_SYNC_CHANNEL, { alertId: alert.id });
+      return;
+    }
+
+    if (isCrossAlert(alert.type)) {
+      let alerts = this.crossAlerts.get(alert.symbol);
+      if (!alerts) {
+        alerts = new Map();
+        this.crossAlerts.set(alert.symbol, alerts);
+      }
+      alerts.set(alert.id, alert);
+      return;
+    }
+
+    this.indicatorAlerts.set(alert.id, alert);
+  }
+
+  private unwatch(alert: Pick<PriceAlertRow, 'id' | 'symbol'>): void {
+    if (!leaderElection.isLeader()) {
+      clusterBus.publish(ALERT_SYNC_CHANNEL, { alertId: alert.id });
+      return;
+    }
+
+    this.crossAlerts.get(alert.symbol)?.delete(alert.id);
+    this.indicatorAlerts.delete(alert.id);
+    this.disarmed.delete(alert.id);
+  }
+
+  /**
+   * Match the watch state to the database copy of an alert. Safe to repeat
+   * and to receive out of order.
+   */
+  private async syncAlert(alertId: string): Promise<void> {
+    const alert = await queryOne<PriceAlertRow>(
+      `SELECT * FROM "PriceAlert" WHERE id = $1`,
+      [alertId]
+    );
+
+    this.crossAlerts.forEach((alerts) => alerts.delete(alertId));
+    this.indicatorAlerts.delete(alertId);
+
+    if (alert?.isActive) {
+      this.watch(alert);
+    } else {
+      this.disarmed.delete(alertId);
+    }
+  }
+
+  private handleTick(symbol: string, price: number): void {
+    const previous = this.lastPrices.get(symbol);
+    this.lastPrices.set(symbol, price);
+
+    const alerts = this.crossAlerts.get(symbol);
+    if (previous === undefined || !alerts || alerts.size === 0) return;
+
+    for (const alert of alerts.values()) {
+      const target = alert.targetPrice!;
+      const crossed = alert.type === 'CROSS_UP'
+        ? previous < target && price >= target
+        : previous > target && price <= target;
+
+      if (crossed && this.isOffCooldown(alert)) {
+        const message = alert.type === 'CROSS_UP'
+          ? `${symbol} rose above ${target}`
+          : `${symbol} fell below ${target}`;
+        this.fireAlert(alert, price, null, message).catch((error) => {
+          logger.error('[PriceAlerts] Failed to fire alert', { alertId: alert.id, error });
+        });
+      }
+    }
+  }
+
+  private async checkIndicatorAlerts(): Promise<void> {
+    if (this.isCheckingIndicators || this.indicatorAlerts.size === 0) return;
+    this.isCheckingIndicators = true;
+
+    // Alerts on the same symbol and candle size share one fetch per run
+    const barCache = new Map<string, Promise<Bar[]>>();
+    const getBars = (symbol: string, resolution: number, limit: number): Promise<Bar[]> => {
+      const key = `${symbol}:${resolution}:${limit}`;
+      if (!barCache.has(key)) {
+        barCache.set(key, this.getBars(symbol, resolution, limit));
+      }
+      return barCache.get(key)!;
+    };
+
+    try {
+      for (const alert of Array.from(this.indicatorAlerts.values())) {
+        try {
+          await this.checkIndicatorAlert(alert, getBars);
+        } catch (error) {
+          logger.error('[PriceAlerts] Failed to check alert', { alertId: alert.id, error });
+        }
+      }
+    } finally {
+      this.isCheckingIndicators = false;
+    }
+  }
+
+  private async checkIndicatorAlert(
+    alert: PriceAlertRow,
+    getBars: (symbol: string, resolution: number, limit: number) => Promise<Bar[]>
+  ): Promise<void> {
+    const price = this.getCurrentPrice(alert.symbol);
+    if (price === null) return;
+
+    let value: number | null = null;
+    let conditionMet = false;
+    let message = '';
+
+    if (alert.type === 'PERCENT_CHANGE') {
+      const windowMinutes = alert.windowMinutes!;
+      const resolution = windowMinutes <= 180 ? 60 : 300;
+      const barsBack = Math.ceil((windowMinutes * 60) / resolution);
+      const bars = await getBars(alert.symbol, resolution, barsBack + 2);
+
+      // Close of the last candle that ended before the window started
+      const windowStart = Math.floor(Date.now() / 1000) - windowMinutes * 60;
+      const reference = bars.filter((bar) => bar.time + resolution <= windowStart).pop();
+      if (!reference || reference.close <= 0) return;
+
+      value = ((price - reference.close) / reference.close) * 100;
+      conditionMet = Math.abs(value) >= alert.percentChange!;
+      message = `${alert.symbol} ${value >= 0 ? 'rose' : 'fell'} ${Math.abs(value).toFixed(2)}% in ${windowMinutes} min`;
+    } else {
+      const period = alert.rsiPeriod ?? DEFAULT_RSI_PERIOD;
+      const resolution = alert.rsiResolution ?? DEFAULT_RSI_RESOLUTION;
+      const bars = await getBars(alert.symbol, resolution, Math.min(period * 4 + 1, 500));
+
+      // The forming candle closes at the live price
+      const closes = bars.map((bar) => bar.close);
+      if (closes.length > 0) {
+        closes[closes.length - 1] = price;
+      }
+
+      value = this.calculateRSI(closes, period);
+      if (value === null) return;
+
+      const threshold = alert.rsiThreshold!;
+      conditionMet = alert.type === 'RSI_ABOVE' ? value >= threshold : value <= threshold;
+      message = `${alert.symbol} RSI(${period}) ${alert.type === 'RSI_ABOVE' ? 'rose above' : 'fell below'} ${threshold} (${value.toFixed(1)})`;
+    }
+
+    if (!conditionMet) {
+      this.disarmed.delete(alert.id);
+      return;
+    }
+
+    if (this.disarmed.has(alert.id) || !this.isOffCooldown(alert)) return;
+
+    this.disarmed.add(alert.id);
+    await this.fireAlert(alert, price, Number(value.toFixed(2)), message);
+  }
+
+  /**
+   * Wilder's RSI over the closes, oldest first. Null until there are enough.
+   */
+  private calculateRSI(closes: number[], period: number): number | null {
+    if (closes.length < period + 1) return null;
+
+    let avgGain = 0;
+    let avgLoss = 0;
+    for (let i = 1; i <= period; i++) {
+      const change = closes[i] - closes[i - 1];
+      if (change >= 0) avgGain += change;
+      else avgLoss -= change;
+    }
+    avgGain /= period;
+    avgLoss /= period;
+
+    for (let i = period + 1; i < closes.length; i++) {
+      const change = closes[i] - closes[i - 1];
+      avgGain = (avgGain * (period - 1) + Math.max(change, 0)) / period;
+      avgLoss = (avgLoss * (period - 1) + Math.max(-change, 0)) / period;
+    }
+
+    if (avgLoss === 0) return avgGain === 0 ? 50 : 100;
+    return 100 - 100 / (1 + avgGain / avgLoss);
+  }
+
+  private isOffCooldown(alert: PriceAlertRow): boolean {
+    if (!alert.lastTriggeredAt) return true;
+    return Date.now() - new Date(alert.lastTriggeredAt).getTime() >= alert.cooldownMinutes * 60 * 1000;
+  }
+
+  private async fireAlert(alert: PriceAlertRow, price: number, value: number | null, message: string): Promise<void> {
+    if (this.firing.has(alert.id)) return;
+    this.firing.add(alert.id);
+
+    try {
+      const now = new Date();
+      const isRecurring = alert.mode === 'RECURRING';
+
+      const fired = await transaction(async (client) => {
+        // Guard against a concurrent edit, delete or firing
+        const updated = await client.query<PriceAlertRow>(
+          `UPDATE "PriceAlert" SET
+            "triggerCount" = "triggerCount" + 1, "lastTriggeredAt" = $1, "isActive" = $2, "updatedAt" = $1
+           WHERE id = $3 AND "isActive" = true
+           RETURNING *`,
+          [now, isRecurring, alert.id]
+        );
+        if (updated.rows.length === 0) return null;
+
+        const event = await client.query<PriceAlertEventRow>(
+          `INSERT INTO "PriceAlertEvent" (id, "alertId", "userId", symbol, type, message, price, value, "createdAt")
+           VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9)
+           RETURNING *`,
+          [randomUUID(), alert.id, alert.userId, alert.symbol, alert.type, message, price, value, now]
+        );
+
+        return { alert: updated.rows[0], event: event.rows[0] };
+      });
+
+      if (!fired) {
+        this.unwatch(alert);
+        return;
+      }
+
+      if (isRecurring) {
+        alert.lastTriggeredAt = now;
+        alert.triggerCount = fired.alert.triggerCount;
+      } else {
+        this.unwatch(alert);
+      }
+
+      wsManager.notifyPriceAlert(alert.userId, {
+        eventId: fired.event.id,
+        alertId: alert.id,
+        symbol: alert.symbol,
+        type: alert.type,
+        message,
+        price,
+        value,
+        note: alert.note,
+        isActive: fired.alert.isActive,
+      });
+
+      if (alert.notifyEmail) {
+        this.sendAlertEmail(alert, fired.event).catch((error) => {
+          logger.error('[PriceAlerts] Failed to email alert', { alertId: alert.id, error });
+        });
+      }
+
+      logger.info('[PriceAlerts] Alert fired', {
+        alertId: alert.id,
+        userId: alert.userId,
+        symbol: alert.symbol,
+        type: alert.type,
+        price,
+        value,
+      });
+    } finally {
+      this.firing.delete(alert.id);
+    }
+  }
+
+  private async sendAlertEmail(alert: PriceAlertRow, event: PriceAlertEventRow): Promise<void> {
+    const user = await queryOne<{ email: string; name: string }>(
+      `SELECT email, name FROM "User" WHERE id = $1`,
+      [alert.userId]
+    );
+    if (!user) return;
+
+    const sent = await emailService.sendPriceAlert(user.email, user.name, alert.symbol, event.message, event.price, alert.note);
+    if (sent) {
+      await query(`UPDATE "PriceAlertEvent" SET "emailSent" = true WHERE id = $1`, [event.id]);
+    }
+  }
+
+  private getCurrentPrice(symbol: string): number | null {
+    const tick = isOTCSymbol(symbol)
+      ? otcMarketService.getCurrentPrice(symbol)
+      : marketService.getCurrentPrice(symbol);
+
+    return tick ? tick.price : null;
+  }
+
+  private async getBars(symbol: string, resolution: number, limit: number): Promise<Bar[]> {
+    if (isOTCSymbol(symbol)) {
+      return otcMarketService.getHistoricalBars(symbol, resolution, limit);
+    }
+
+    const bars = await marketService.getRealHistoricalBars(symbol, resolution, limit);
+    return bars.length > 0 ? bars : marketService.getHistoricalBars(symbol, resolution, limit);
+  }
+}
+
+export const priceAlertService = new PriceAlertService();
+export { PriceAlertServiceError };
+export type { PriceAlertRow, PriceAlertEventRow, PriceAlertType, PriceAlertMode };
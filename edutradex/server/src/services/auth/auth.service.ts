@@ -1,7 +1,8 @@
 import bcrypt from 'bcryptjs';
 import jwt from 'jsonwebtoken';
 import type { StringValue } from 'ms';
-import { query, queryOne } from '../../config/db.js';
+import type { PoolClient } from 'pg';
+import { query, queryOne, transaction } from '../../config/db.js';
 import { config } from '../../config/env.js';
 import { logger } from '../../utils/logger.js';
 import type { RegisterInput, LoginInput } from '../../validators/auth.validators.js';
@@ -13,6 +14,7 @@ import { twoFactorService } from './two-factor.service.js';
 import { securityService, LoginContext } from '../security/security.service.js';
 import { ipService } from '../security/ip.service.js';
 import { deviceService, DeviceInfo } from '../security/device.service.js';
+import { ledgerService, LedgerServiceError, type LedgerBalances } from '../ledger/ledger.service.js';
 import { randomUUID } from 'crypto';
 
 interface JwtPayload {
@@ -141,35 +143,44 @@ export class AuthService {
     const referralCode = referralService.generateReferralCode('temp', data.name);
     const now = new Date();
 
-    // Insert new user with registration tracking data
-    const user = await queryOne<UserRow>(
-      `INSERT INTO "User" (
-        id, email, password, name, role, "liveBalance", "demoBalance",
-        "activeAccountType", "isActive", "emailVerified", "referralCode",
-        "registrationIp", "registrationCountry", "registrationUserAgent",
-        "lastKnownCountry", "createdAt", "updatedAt"
-      ) VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10, $11, $12, $13, $14, $15, $16, $17)
-      RETURNING id, email, name, role, "liveBalance", "demoBalance", "practiceBalance", "activeAccountType", "emailVerified"`,
-      [
-        userId,
-        data.email,
-        hashedPassword,
-        data.name,
-        'USER',
-        0,
-        config.trading.defaultDemoBalance,
-        'LIVE',
-        true,
-        false,
-        referralCode,
-        ipAddress,
-        registrationCountry,
-        userAgent,
-        registrationCountry,
-        now,
-        now
-      ]
-    );
+    // Insert new user with registration tracking data and journal the starting balances
+    const user = await transaction(async (client) => {
+      const result = await client.query<UserRow>(
+        `INSERT INTO "User" (
+          id, email, password, name, role, "liveBalance", "demoBalance",
+          "activeAccountType", "isActive", "emailVerified", "referralCode",
+          "registrationIp", "registrationCountry", "registrationUserAgent",
+          "lastKnownCountry", "createdAt", "updatedAt"
+        ) VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10, $11, $12, $13, $14, $15, $16, $17)
+        RETURNING id, email, name, role, "liveBalance", "demoBalance", "practiceBalance", "activeAccountType", "emailVerified"`,
+        [
+          userId,
+          data.email,
+          hashedPassword,
+          data.name,
+          'USER',
+          0,
+          config.trading.defaultDemoBalance,
+          'LIVE',
+          true,
+          false,
+          referralCode,
+          ipAddress,
+          registrationCountry,
+          userAgent,
+          registrationCountry,
+          now,
+          now
+        ]
+      );
+
+      const created = result.rows[0];
+      if (created) {
+        await ledgerService.recordOpeningBalances(client, created.id, created);
+      }
+
+      return created;
+    });
 
     if (!user) {
       throw new AuthServiceError('Failed to create user', 500);
@@ -508,16 +519,18 @@ export class AuthService {
   async resetBalance(userId: string, newBalance?: number): Promise<{ demoBalance: number }> {
     const balance = newBalance ?? config.trading.defaultDemoBalance;
 
-    const result = await queryOne<{ demoBalance: number }>(
-      `UPDATE "User" SET "demoBalance" = $1, "updatedAt" = $2
-       WHERE id = $3 RETURNING "demoBalance"`,
-      [balance, new Date(), userId]
+    const result = await this.postBalanceMovement((client) =>
+      ledgerService.setBalance(client, {
+        userId,
+        accountType: 'LIVE',
+        target: balance,
+        reason: 'BALANCE_RESET',
+        sourceType: 'USER',
+        sourceId: userId,
+        description: 'Balance reset',
+      })
     );
 
-    if (!result) {
-      throw new AuthServiceError('User not found', 404);
-    }
-
     logger.info('User balance reset', { userId, newBalance: balance });
 
     return {
@@ -526,16 +539,17 @@ export class AuthService {
   }
 
   async updateBalance(userId: string, amount: number): Promise<{ demoBalance: number }> {
-    const result = await queryOne<{ demoBalance: number }>(
-      `UPDATE "User" SET "demoBalance" = "demoBalance" + $1, "updatedAt" = $2
-       WHERE id = $3 RETURNING "demoBalance"`,
-      [amount, new Date(), userId]
+    const result = await this.postBalanceMovement((client) =>
+      ledgerService.post(client, {
+        userId,
+        accountType: 'LIVE',
+        amount,
+        reason: 'BALANCE_ADJUSTMENT',
+        sourceType: 'USER',
+        sourceId: userId,
+      })
     );
 
-    if (!result) {
-      throw new AuthServiceError('User not found', 404);
-    }
-
     return {
       demoBalance: Number(result.demoBalance),
     };
@@ -546,16 +560,18 @@ export class AuthService {
       throw new AuthServiceError('Invalid top-up amount. Must be between 1 and 100,000', 400);
     }
 
-    const result = await queryOne<{ demoBalance: number }>(
-      `UPDATE "User" SET "demoBalance" = "demoBalance" + $1, "updatedAt" = $2
-       WHERE id = $3 RETURNING "demoBalance"`,
-      [amount, new Date(), userId]
+    const result = await this.postBalanceMovement((client) =>
+      ledgerService.post(client, {
+        userId,
+        accountType: 'LIVE',
+        amount,
+        reason: 'TOP_UP',
+        sourceType: 'USER',
+        sourceId: userId,
+        description: 'Balance top-up',
+      })
     );
 
-    if (!result) {
-      throw new AuthServiceError('User not found', 404);
-    }
-
     logger.info('Demo balance topped up', { userId, amount, newBalance: Number(result.demoBalance) });
 
     return {
@@ -575,16 +591,18 @@ export class AuthService {
       throw new AuthServiceError('Invalid top-up amount. Must be between 1 and 100,000', 400);
     }
 
-    const result = await queryOne<{ practiceBalance: number }>(
-      `UPDATE "User" SET "practiceBalance" = $1, "updatedAt" = $2
-       WHERE id = $3 RETURNING "practiceBalance"`,
-      [topUpAmount, new Date(), userId]
+    const result = await this.postBalanceMovement((client) =>
+      ledgerService.setBalance(client, {
+        userId,
+        accountType: 'DEMO',
+        target: topUpAmount,
+        reason: 'TOP_UP',
+        sourceType: 'USER',
+        sourceId: userId,
+        description: 'Practice balance top-up',
+      })
     );
 
-    if (!result) {
-      throw new AuthServiceError('User not found', 404);
-    }
-
     logger.info('Practice balance topped up', { userId, amount: topUpAmount, newBalance: Number(result.practiceBalance) });
 
     return {
@@ -592,6 +610,22 @@ export class AuthService {
     };
   }
 
+  /**
+   * Run a ledger posting in its own transaction, surfacing ledger errors as AuthServiceError
+   */
+  private async postBalanceMovement(
+    post: (client: PoolClient) => Promise<LedgerBalances>
+  ): Promise<LedgerBalances> {
+    try {
+      return await transaction(post);
+    } catch (error) {
+      if (error instanceof LedgerServiceError) {
+        throw new AuthServiceError(error.message, error.statusCode);
+      }
+      throw error;
+    }
+  }
+
   verifyToken(token: string): JwtPayload {
     try {
       const decoded = jwt.verify(token, config.jwt.secret) as JwtPayload;
@@ -888,29 +922,26 @@ export class AuthService {
       throw new AuthServiceError('User not found', 404);
     }
 
-    // NOTE: Due to legacy naming:
-    // - 'LIVE' mode uses demoBalance (which is actually the real money)
-    // - 'DEMO' mode uses practiceBalance (which is the practice/demo money)
-    const balanceField = user.activeAccountType === 'LIVE' ? 'demoBalance' : 'practiceBalance';
+    const accountType = user.activeAccountType as 'LIVE' | 'DEMO';
 
-    const updatedUser = await queryOne<{ demoBalance: number; practiceBalance: number; activeAccountType: string }>(
-      `UPDATE "User" SET "${balanceField}" = "${balanceField}" + $1, "updatedAt" = $2
-       WHERE id = $3
-       RETURNING "demoBalance", "practiceBalance", "activeAccountType"`,
-      [amount, new Date(), userId]
+    const updatedUser = await this.postBalanceMovement((client) =>
+      ledgerService.post(client, {
+        userId,
+        accountType,
+        amount,
+        reason: 'BALANCE_ADJUSTMENT',
+        sourceType: 'USER',
+        sourceId: userId,
+      })
     );
 
-    if (!updatedUser) {
-      throw new AuthServiceError('Failed to update balance', 500);
-    }
-
-    const balance = updatedUser.activeAccountType === 'LIVE'
+    const balance = accountType === 'LIVE'
       ? Number(updatedUser.demoBalance)
       : Number(updatedUser.practiceBalance);
 
     return {
       balance,
-      accountType: updatedUser.activeAccountType as 'LIVE' | 'DEMO',
+      accountType,
     };
   }
 
@@ -954,7 +985,7 @@ export class AuthService {
     const hashedPassword = await bcrypt.hash(newPassword, this.SALT_ROUNDS);
 
     await query(
-      `UPDATE "User" SET password = $1, "updatedAt" = $2 WHERE email = $3`,
+      `UPDATE "User" SET password = $1, "passwordChangedAt" = $2, "updatedAt" = $2 WHERE email = $3`,
       [hashedPassword, new Date(), email]
     );
 
@@ -1007,7 +1038,7 @@ export class AuthService {
     const hashedPassword = await bcrypt.hash(newPassword, this.SALT_ROUNDS);
 
     await query(
-      `UPDATE "User" SET password = $1, "updatedAt" = $2 WHERE id = $3`,
+      `UPDATE "User" SET password = $1, "passwordChangedAt" = $2, "updatedAt" = $2 WHERE id = $3`,
       [hashedPassword, new Date(), userId]
     );
 
@@ -214,6 +214,7 @@ export class TwoFactorService {
       `UPDATE "User"
        SET "twoFactorEnabled" = true,
            "twoFactorVerifiedAt" = NOW(),
+           "twoFactorChangedAt" = NOW(),
            "backupCodes" = $1
        WHERE id = $2`,
       [hashedCodes, userId]
@@ -260,6 +261,7 @@ export class TwoFactorService {
        SET "twoFactorEnabled" = false,
            "twoFactorSecret" = NULL,
            "twoFactorVerifiedAt" = NULL,
+           "twoFactorChangedAt" = NOW(),
            "backupCodes" = '{}'
        WHERE id = $1`,
       [userId]
@@ -79,12 +79,14 @@ class BinanceService {
   private lastMessageTime = 0;
   private healthCheckInterval: NodeJS.Timeout | null = null;
 
-  constructor() {
+  public start(): void {
     this.connect();
     this.startHealthCheck();
   }
 
   private startHealthCheck(): void {
+    if (this.healthCheckInterval) return;
+
     // Check every 30 seconds if we've received data recently
     this.healthCheckInterval = setInterval(() => {
       const now = Date.now();
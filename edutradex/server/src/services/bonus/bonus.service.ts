@@ -0,0 +1,686 @@
+import type { PoolClient } from 'pg';
+import { queryOne, queryMany, transaction } from '../../config/db.js';
+import { logger } from '../../utils/logger.js';
+import { ledgerService } from '../ledger/ledger.service.js';
+import { addMoney, multiplyMoney, percentOf, roundMoney, subtractMoney } from '../../utils/money.js';
+import { randomUUID } from 'crypto';
+
+/**
+ * Deposit Bonuses
+ *
+ * A Promotion grants a percentage of a qualifying deposit, capped at maxBonus.
+ * FIRST_DEPOSIT offers apply on their own to a user's first approved deposit;
+ * PROMO_CODE offers are claimed with a code and apply to the next deposit
+ * that meets minDeposit.
+ *
+ * Granted bonuses stay outside the wallet. Every real-money stake placed while
+ * a bonus is ACTIVE - manual LIVE trades and copied trades alike - counts toward
+ * its wagering requirement (draw refunds take the stake back off), and once the requirement is met the bonus is posted
+ * to the real balance as a BONUS_CONVERSION. Requesting a withdrawal first
+ * forfeits active bonuses - they are restored if that withdrawal is rejected,
+ * cancelled or fails - and unconverted ones expire after expiryDays.
+ */
+
+type PromotionType = 'FIRST_DEPOSIT' | 'PROMO_CODE';
+type BonusStatus = 'PENDING' | 'ACTIVE' | 'CONVERTED' | 'FORFEITED' | 'EXPIRED';
+
+interface PromotionRow {
+  id: string;
+  name: string;
+  code: string | null;
+  type: PromotionType;
+  bonusPercent: number;
+  maxBonus: number;
+  minDeposit: number;
+  wageringMultiplier: number;
+  expiryDays: number;
+  maxRedemptions: number | null;
+  redemptionCount: number;
+  startsAt: Date | null;
+  endsAt: Date | null;
+  isActive: boolean;
+  createdBy: string | null;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+interface PromotionWithStats extends PromotionRow {
+  activeCount: number;
+  grantedAmount: number;
+  convertedAmount: number;
+}
+
+interface PromotionInput {
+  name: string;
+  code?: string | null;
+  type: PromotionType;
+  bonusPercent: number;
+  maxBonus: number;
+  minDeposit?: number;
+  wageringMultiplier?: number;
+  expiryDays?: number;
+  maxRedemptions?: number | null;
+  startsAt?: Date | null;
+  endsAt?: Date | null;
+  isActive?: boolean;
+}
+
+interface UserBonusRow {
+  id: string;
+  userId: string;
+  promotionId: string;
+  depositId: string | null;
+  amount: number;
+  wageringRequired: number;
+  wageredAmount: number;
+  status: BonusStatus;
+  expiresAt: Date | null;
+  activatedAt: Date | null;
+  convertedAt: Date | null;
+  forfeitedAt: Date | null;
+  forfeitWithdrawalId: string | null;
+  expiredAt: Date | null;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+interface UserBonusWithPromotion extends UserBonusRow {
+  promotionName: string;
+  promotionCode: string | null;
+  bonusPercent: number;
+  maxBonus: number;
+  minDeposit: number;
+}
+
+interface BonusSummary {
+  bonusBalance: number;
+  activeCount: number;
+  wageringRequired: number;
+  wageredAmount: number;
+}
+
+const PROMOTION_COLUMNS: (keyof PromotionInput)[] = [
+  'name',
+  'code',
+  'type',
+  'bonusPercent',
+  'maxBonus',
+  'minDeposit',
+  'wageringMultiplier',
+  'expiryDays',
+  'maxRedemptions',
+  'startsAt',
+  'endsAt',
+  'isActive',
+];
+
+const EXPIRY_INTERVAL_MS = 60 * 60 * 1000;
+
+// A promotion can be redeemed while it is switched on, inside its window and under its cap
+const PROMOTION_AVAILABLE = `p."isActive" = true
+  AND (p."startsAt" IS NULL OR p."startsAt" <= $1)
+  AND (p."endsAt" IS NULL OR p."endsAt" > $1)
+  AND (p."maxRedemptions" IS NULL OR p."redemptionCount" < p."maxRedemptions")`;
+
+class BonusServiceError extends Error {
+  constructor(
+    message: string,
+    public statusCode: number = 400
+  ) {
+    super(message);
+    this.name = 'BonusServiceError';
+  }
+}
+
+function normalizeCode(code: string): string {
+  return code.trim().toUpperCase();
+}
+
+class BonusService {
+  private expiryInterval: NodeJS.Timeout | null = null;
+
+  // ==========================================
+  // PROMOTIONS (ADMIN)
+  // ==========================================
+
+  async getAllPromotions(): Promise<PromotionWithStats[]> {
+    return queryMany<PromotionWithStats>(
+      `SELECT p.*,
+        (SELECT COUNT(*)::int FROM "UserBonus" b WHERE b."promotionId" = p.id AND b.status = 'ACTIVE') as "activeCount",
+        (SELECT COALESCE(SUM(b.amount), 0) FROM "UserBonus" b
+          WHERE b."promotionId" = p.id AND b.status <> 'PENDING') as "grantedAmount",
+        (SELECT COALESCE(SUM(b.amount), 0) FROM "UserBonus" b
+          WHERE b."promotionId" = p.id AND b.status = 'CONVERTED') as "convertedAmount"
+       FROM "Promotion" p
+       ORDER BY p."createdAt" DESC`
+    );
+  }
+
+  async createPromotion(data: PromotionInput, adminId: string): Promise<PromotionRow> {
+    const code = data.code ? normalizeCode(data.code) : null;
+    this.validatePromotionShape({ ...data, code });
+
+    const now = new Date();
+
+    try {
+      const promotion = await queryOne<PromotionRow>(
+        `INSERT INTO "Promotion" (
+          id, name, code, type, "bonusPercent", "maxBonus", "minDeposit", "wageringMultiplier",
+          "expiryDays", "maxRedemptions", "startsAt", "endsAt", "isActive", "createdBy", "createdAt", "updatedAt"
+        ) VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10, $11, $12, $13, $14, $15, $15)
+        RETURNING *`,
+        [
+          randomUUID(),
+          data.name,
+          code,
+          data.type,
+          data.bonusPercent,
+          data.maxBonus,
+          data.minDeposit ?? 0,
+          data.wageringMultiplier ?? 10,
+          data.expiryDays ?? 30,
+          data.maxRedemptions ?? null,
+          data.startsAt ?? null,
+          data.endsAt ?? null,
+          data.isActive ?? true,
+          adminId,
+          now,
+        ]
+      );
+
+      logger.info('[Bonus] Promotion created', { id: promotion!.id, name: promotion!.name, code, adminId });
+
+      return promotion!;
+    } catch (error) {
+      throw this.translateUniqueViolation(error);
+    }
+  }
+
+  async updatePromotion(id: string, data: Partial<PromotionInput>): Promise<PromotionRow> {
+    const existing = await queryOne<PromotionRow>(
+      `SELECT * FROM "Promotion" WHERE id = $1`,
+      [id]
+    );
+
+    if (!existing) {
+      throw new BonusServiceError('Promotion not found', 404);
+    }
+
+    const changes: Partial<PromotionInput> = { ...data };
+    if (data.code !== undefined) {
+      changes.code = data.code ? normalizeCode(data.code) : null;
+    }
+
+    this.validatePromotionShape({ ...existing, ...changes });
+
+    const updates: string[] = [];
+    const params: unknown[] = [];
+    let paramIndex = 1;
+
+    for (const column of PROMOTION_COLUMNS) {
+      if (changes[column] !== undefined) {
+        updates.push(`"${column}" = $${paramIndex++}`);
+        params.push(changes[column]);
+      }
+    }
+
+    updates.push(`"updatedAt" = $${paramIndex++}`);
+    params.push(new Date());
+    params.push(id);
+
+    try {
+      const promotion = await queryOne<PromotionRow>(
+        `UPDATE "Promotion" SET ${updates.join(', ')} WHERE id = $${paramIndex} RETURNING *`,
+        params
+      );
+
+      return promotion!;
+    } catch (error) {
+      throw this.translateUniqueViolation(error);
+    }
+  }
+
+  async deletePromotion(id: string): Promise<{ success: boolean }> {
+    const redeemed = await queryOne<{ id: string }>(
+      `SELECT id FROM "UserBonus" WHERE "promotionId" = $1 LIMIT 1`,
+      [id]
+    );
+
+    if (redeemed) {
+      throw new BonusServiceError('Promotion has been redeemed - deactivate it instead', 409);
+    }
+
+    const deleted = await queryOne<{ id: string }>(
+      `DELETE FROM "Promotion" WHERE id = $1 RETURNING id`,
+      [id]
+    );
+
+    if (!deleted) {
+      throw new BonusServiceError('Promotion not found', 404);
+    }
+
+    logger.info('[Bonus] Promotion deleted', { id });
+
+    return { success: true };
+  }
+
+  private validatePromotionShape(data: Partial<PromotionInput>): void {
+    if (data.type === 'PROMO_CODE' && !data.code) {
+      throw new BonusServiceError('Promo code promotions need a code');
+    }
+    if (data.type === 'FIRST_DEPOSIT' && data.code) {
+      throw new BonusServiceError('First deposit promotions are applied automatically and take no code');
+    }
+    if (data.startsAt && data.endsAt && new Date(data.startsAt) >= new Date(data.endsAt)) {
+      throw new BonusServiceError('The promotion must end after it starts');
+    }
+  }
+
+  private translateUniqueViolation(error: unknown): unknown {
+    if ((error as { code?: string }).code === '23505') {
+      return new BonusServiceError('A promotion with this code already exists', 409);
+    }
+    return error;
+  }
+
+  // ==========================================
+  // USER BONUSES
+  // ==========================================
+
+  /**
+   * Claim a promo code. The bonus is granted on the next deposit that meets
+   * the promotion's minimum.
+   */
+  async claimCode(userId: string, rawCode: string): Promise<UserBonusWithPromotion> {
+    const code = normalizeCode(rawCode);
+    const now = new Date();
+
+    const bonusId = await transaction(async (client) => {
+      const promotion = (await client.query<PromotionRow>(
+        `SELECT p.* FROM "Promotion" p WHERE p.code = $2 AND p.type = 'PROMO_CODE' AND ${PROMOTION_AVAILABLE}
+         FOR UPDATE`,
+        [now, code]
+      )).rows[0];
+
+      if (!promotion) {
+        throw new BonusServiceError('This promo code is invalid or no longer available', 404);
+      }
+
+      const existing = await client.query<{ promotionId: string; status: BonusStatus }>(
+        `SELECT "promotionId", status FROM "UserBonus"
+         WHERE "userId" = $1 AND ("promotionId" = $2 OR status = 'PENDING')`,
+        [userId, promotion.id]
+      );
+
+      if (existing.rows.some((row) => row.promotionId === promotion.id)) {
+        throw new BonusServiceError('You have already used this promo code', 409);
+      }
+      if (existing.rows.length > 0) {
+        throw new BonusServiceError('You already have a promo code waiting for your next deposit', 409);
+      }
+
+      await client.query(
+        `UPDATE "Promotion" SET "redemptionCount" = "redemptionCount" + 1, "updatedAt" = $1 WHERE id = $2`,
+        [now, promotion.id]
+      );
+
+      const inserted = await client.query<{ id: string }>(
+        `INSERT INTO "UserBonus" (id, "userId", "promotionId", status, "createdAt", "updatedAt")
+         VALUES ($1, $2, $3, 'PENDING', $4, $4)
+         RETURNING id`,
+        [randomUUID(), userId, promotion.id, now]
+      );
+
+      return inserted.rows[0].id;
+    });
+
+    logger.info('[Bonus] Promo code claimed', { userId, code, bonusId });
+
+    const bonuses = await this.getUserBonuses(userId);
+    return bonuses.bonuses.find((bonus) => bonus.id === bonusId)!;
+  }
+
+  async getUserBonuses(userId: string): Promise<{ summary: BonusSummary; bonuses: UserBonusWithPromotion[] }> {
+    const bonuses = await queryMany<UserBonusWithPromotion>(
+      `SELECT b.*, p.name as "promotionName", p.code as "promotionCode",
+        p."bonusPercent", p."maxBonus", p."minDeposit"
+       FROM "UserBonus" b
+       JOIN "Promotion" p ON p.id = b."promotionId"
+       WHERE b."userId" = $1
+       ORDER BY b."createdAt" DESC
+       LIMIT 50`,
+      [userId]
+    );
+
+    const active = bonuses.filter((bonus) => bonus.status === 'ACTIVE');
+
+    return {
+      summary: {
+        bonusBalance: addMoney(...active.map((bonus) => bonus.amount)),
+        activeCount: active.length,
+        wageringRequired: addMoney(...active.map((bonus) => bonus.wageringRequired)),
+        wageredAmount: addMoney(...active.map((bonus) => bonus.wageredAmount)),
+      },
+      bonuses,
+    };
+  }
+
+  // ==========================================
+  // LIFECYCLE (called inside money transactions)
+  // ==========================================
+
+  /**
+   * Grant a bonus on a deposit that has just been credited. A waiting promo
+   * code claim takes precedence over the automatic first-deposit offer; a
+   * deposit earns at most one bonus.
+   */
+  async grantDepositBonus(
+    client: PoolClient,
+    userId: string,
+    depositId: string,
+    depositAmount: number
+  ): Promise<UserBonusRow | null> {
+    const now = new Date();
+
+    const claim = (await client.query<UserBonusRow & { minDeposit: number; promotionLive: boolean }>(
+      `SELECT b.*, p."minDeposit",
+        (p."isActive" = true AND (p."endsAt" IS NULL OR p."endsAt" > $2)) as "promotionLive"
+       FROM "UserBonus" b
+       JOIN "Promotion" p ON p.id = b."promotionId"
+       WHERE b."userId" = $1 AND b.status = 'PENDING'
+       ORDER BY b."createdAt" ASC
+       LIMIT 1
+       FOR UPDATE OF b`,
+      [userId, now]
+    )).rows[0];
+
+    if (claim && !claim.promotionLive) {
+      await client.query(
+        `UPDATE "UserBonus" SET status = 'EXPIRED', "expiredAt" = $1, "updatedAt" = $1 WHERE id = $2`,
+        [now, claim.id]
+      );
+    } else if (claim && depositAmount >= claim.minDeposit) {
+      return this.activate(client, claim.id, claim.promotionId, depositId, depositAmount, now);
+    }
+
+    const earlierDeposit = await client.query(
+      `SELECT 1 FROM "Deposit" WHERE "userId" = $1 AND status = 'APPROVED' AND id <> $2 LIMIT 1`,
+      [userId, depositId]
+    );
+    if (earlierDeposit.rows.length > 0) {
+      return null;
+    }
+
+    const offer = (await client.query<PromotionRow>(
+      `SELECT p.* FROM "Promotion" p
+       WHERE p.type = 'FIRST_DEPOSIT' AND ${PROMOTION_AVAILABLE}
+         AND p."minDeposit" <= $2
+         AND NOT EXISTS (SELECT 1 FROM "UserBonus" b WHERE b."promotionId" = p.id AND b."userId" = $3)
+       ORDER BY p."createdAt" DESC
+       LIMIT 1
+       FOR UPDATE OF p`,
+      [now, depositAmount, userId]
+    )).rows[0];
+
+    if (!offer) {
+      return null;
+    }
+
+    await client.query(
+      `UPDATE "Promotion" SET "redemptionCount" = "redemptionCount" + 1, "updatedAt" = $1 WHERE id = $2`,
+      [now, offer.id]
+    );
+
+    const inserted = await client.query<{ id: string }>(
+      `INSERT INTO "UserBonus" (id, "userId", "promotionId", status, "createdAt", "updatedAt")
+       VALUES ($1, $2, $3, 'PENDING', $4, $4)
+       RETURNING id`,
+      [randomUUID(), userId, offer.id, now]
+    );
+
+    return this.activate(client, inserted.rows[0].id, offer.id, depositId, depositAmount, now);
+  }
+
+  private async activate(
+    client: PoolClient,
+    bonusId: string,
+    promotionId: string,
+    depositId: string,
+    depositAmount: number,
+    now: Date
+  ): Promise<UserBonusRow | null> {
+    const promotion = (await client.query<PromotionRow>(
+      `SELECT * FROM "Promotion" WHERE id = $1`,
+      [promotionId]
+    )).rows[0];
+
+    const amount = Math.min(percentOf(depositAmount, promotion.bonusPercent), roundMoney(promotion.maxBonus));
+    if (amount <= 0) {
+      return null;
+    }
+
+    const bonus = (await client.query<UserBonusRow>(
+      `UPDATE "UserBonus" SET
+        status = 'ACTIVE', "depositId" = $1, amount = $2, "wageringRequired" = $3,
+        "expiresAt" = $4, "activatedAt" = $5, "updatedAt" = $5
+       WHERE id = $6
+       RETURNING *`,
+      [
+        depositId,
+        amount,
+        multiplyMoney(amount, promotion.wageringMultiplier),
+        new Date(now.getTime() + promotion.expiryDays * 24 * 60 * 60 * 1000),
+        now,
+        bonusId,
+      ]
+    )).rows[0];
+
+    logger.info('[Bonus] Bonus granted', {
+      bonusId,
+      userId: bonus.userId,
+      promotion: promotion.name,
+      depositId,
+      amount,
+      wageringRequired: bonus.wageringRequired,
+    });
+
+    // A zero multiplier needs no trading at all
+    await this.convertWagered(client, bonus.userId);
+
+    return bonus;
+  }
+
+  /**
+   * Count a real-money stake toward active wagering requirements, filling the
+   * oldest bonus first. Turnover beyond every requirement is not carried.
+   */
+  async recordWager(client: PoolClient, userId: string, stake: number): Promise<void> {
+    const active = await client.query<UserBonusRow>(
+      `SELECT * FROM "UserBonus"
+       WHERE "userId" = $1 AND status = 'ACTIVE' AND "wageredAmount" < "wageringRequired" AND "expiresAt" > $2
+       ORDER BY "activatedAt" ASC
+       FOR UPDATE`,
+      [userId, new Date()]
+    );
+
+    let remaining = stake;
+    for (const bonus of active.rows) {
+      if (remaining <= 0) break;
+
+      const counted = Math.min(remaining, subtractMoney(bonus.wageringRequired, bonus.wageredAmount));
+      await client.query(
+        `UPDATE "UserBonus" SET "wageredAmount" = $1, "updatedAt" = $2 WHERE id = $3`,
+        [addMoney(bonus.wageredAmount, counted), new Date(), bonus.id]
+      );
+      remaining = subtractMoney(remaining, counted);
+    }
+  }
+
+  /**
+   * Take a refunded stake back off active requirements, newest bonus first
+   */
+  async reverseWager(client: PoolClient, userId: string, stake: number): Promise<void> {
+    const active = await client.query<UserBonusRow>(
+      `SELECT * FROM "UserBonus"
+       WHERE "userId" = $1 AND status = 'ACTIVE' AND "wageredAmount" > 0
+       ORDER BY "activatedAt" DESC
+       FOR UPDATE`,
+      [userId]
+    );
+
+    let remaining = stake;
+    for (const bonus of active.rows) {
+      if (remaining <= 0) break;
+
+      const reversed = Math.min(remaining, bonus.wageredAmount);
+      await client.query(
+        `UPDATE "UserBonus" SET "wageredAmount" = $1, "updatedAt" = $2 WHERE id = $3`,
+        [subtractMoney(bonus.wageredAmount, reversed), new Date(), bonus.id]
+      );
+      remaining = subtractMoney(remaining, reversed);
+    }
+  }
+
+  /**
+   * Post every fully wagered bonus to the user's real balance
+   */
+  async convertWagered(client: PoolClient, userId: string): Promise<UserBonusRow[]> {
+    const now = new Date();
+    const converted = await client.query<UserBonusRow>(
+      `UPDATE "UserBonus" SET status = 'CONVERTED', "convertedAt" = $1, "updatedAt" = $1
+       WHERE "userId" = $2 AND status = 'ACTIVE' AND "wageredAmount" >= "wageringRequired" AND "expiresAt" > $1
+       RETURNING *`,
+      [now, userId]
+    );
+
+    for (const bonus of converted.rows) {
+      await ledgerService.post(client, {
+        userId,
+        accountType: 'LIVE',
+        amount: bonus.amount,
+        reason: 'BONUS_CONVERSION',
+        sourceType: 'BONUS',
+        sourceId: bonus.id,
+        description: 'Deposit bonus converted',
+      });
+
+      logger.info('[Bonus] Bonus converted', { bonusId: bonus.id, userId, amount: bonus.amount });
+    }
+
+    return converted.rows;
+  }
+
+  /**
+   * Forfeit active bonuses when the user withdraws before meeting the
+   * wagering requirement. Waiting promo code claims are kept.
+   */
+  async forfeitActive(client: PoolClient, userId: string, withdrawalId: string): Promise<UserBonusRow[]> {
+    const now = new Date();
+    const forfeited = await client.query<UserBonusRow>(
+      `UPDATE "UserBonus" SET status = 'FORFEITED', "forfeitedAt" = $1, "forfeitWithdrawalId" = $3, "updatedAt" = $1
+       WHERE "userId" = $2 AND status = 'ACTIVE'
+       RETURNING *`,
+      [now, userId, withdrawalId]
+    );
+
+    if (forfeited.rows.length > 0) {
+      logger.info('[Bonus] Bonuses forfeited on withdrawal', {
+        userId,
+        withdrawalId,
+        bonusIds: forfeited.rows.map((bonus) => bonus.id),
+        amount: addMoney(...forfeited.rows.map((bonus) => bonus.amount)),
+      });
+    }
+
+    return forfeited.rows;
+  }
+
+  /**
+   * Give back the bonuses a withdrawal forfeited when its held funds are
+   * released (rejected, cancelled or failed). Wagering progress is kept; a
+   * bonus whose deadline passed in the meantime comes back as EXPIRED.
+   */
+  async restoreForfeited(client: PoolClient, withdrawalId: string): Promise<UserBonusRow[]> {
+    const now = new Date();
+    const restored = await client.query<UserBonusRow>(
+      `UPDATE "UserBonus" SET
+        status = CASE WHEN "expiresAt" <= $1 THEN 'EXPIRED' ELSE 'ACTIVE' END,
+        "expiredAt" = CASE WHEN "expiresAt" <= $1 THEN $1 ELSE NULL END,
+        "forfeitedAt" = NULL, "forfeitWithdrawalId" = NULL, "updatedAt" = $1
+       WHERE "forfeitWithdrawalId" = $2 AND status = 'FORFEITED'
+       RETURNING *`,
+      [now, withdrawalId]
+    );
+
+    if (restored.rows.length > 0) {
+      logger.info('[Bonus] Forfeited bonuses restored after withdrawal release', {
+        withdrawalId,
+        bonuses: restored.rows.map((bonus) => ({ id: bonus.id, status: bonus.status })),
+      });
+    }
+
+    return restored.rows;
+  }
+
+  // ==========================================
+  // EXPIRY
+  // ==========================================
+
+  /**
+   * Expire active bonuses past their deadline, and promo code claims whose
+   * promotion has ended or been switched off
+   */
+  async expireBonuses(): Promise<number> {
+    const now = new Date();
+
+    const expired = await queryMany<{ id: string }>(
+      `UPDATE "UserBonus" b SET status = 'EXPIRED', "expiredAt" = $1, "updatedAt" = $1
+       FROM "Promotion" p
+       WHERE p.id = b."promotionId"
+         AND (
+           (b.status = 'ACTIVE' AND b."expiresAt" <= $1)
+           OR (b.status = 'PENDING' AND (p."isActive" = false OR (p."endsAt" IS NOT NULL AND p."endsAt" <= $1)))
+         )
+       RETURNING b.id`,
+      [now]
+    );
+
+    return expired.length;
+  }
+
+  startExpiryCheck(): void {
+    if (this.expiryInterval) return;
+
+    this.expiryInterval = setInterval(() => {
+      this.expireBonuses()
+        .then((expired) => {
+          if (expired > 0) {
+            logger.info('[Bonus] Expired bonuses', { expired });
+          }
+        })
+        .catch((error) => {
+          logger.error('[Bonus] Failed to expire bonuses', { error });
+        });
+    }, EXPIRY_INTERVAL_MS);
+  }
+
+  stopExpiryCheck(): void {
+    if (this.expiryInterval) {
+      clearInterval(this.expiryInterval);
+      this.expiryInterval = null;
+    }
+  }
+}
+
+export const bonusService = new BonusService();
+export { BonusServiceError };
+export type {
+  PromotionType,
+  BonusStatus,
+  PromotionRow,
+  PromotionWithStats,
+  PromotionInput,
+  UserBonusRow,
+  UserBonusWithPromotion,
+  BonusSummary,
+};
@@ -0,0 +1,196 @@
+import { randomUUID } from 'crypto';
+import type { Client, Notification } from 'pg';
+import { query, createDedicatedClient } from '../../config/db.js';
+import { config } from '../../config/env.js';
+import { logger } from '../../utils/logger.js';
+
+/**
+ * Cluster Backplane
+ *
+ * Pub/sub between server instances so WebSocket messages, OTC prices and
+ * leader-only work reach the node that needs them.
+ *
+ * - LocalBackplane: single instance (the default) - there are no peers, so
+ *   publishing is a no-op
+ * - PostgresBackplane: LISTEN/NOTIFY on one channel, no extra infrastructure.
+ *   A Redis implementation can replace it behind the same interface.
+ *
+ * Messages are delivered to every node except the one that published them;
+ * publishers handle their own node directly.
+ */
+
+type MessageHandler<T = unknown> = (payload: T, originNodeId: string) => void;
+
+interface ClusterBackplane {
+  readonly nodeId: string;
+  // True when messages actually leave this process
+  readonly isDistributed: boolean;
+  start(): Promise<void>;
+  stop(): Promise<void>;
+  publish(channel: string, payload: unknown): void;
+  subscribe<T>(channel: string, handler: MessageHandler<T>): () => void;
+}
+
+interface Envelope {
+  n: string;   // origin node id
+  c: string;   // logical channel
+  p: unknown;  // payload
+}
+
+// Postgres rejects NOTIFY payloads of 8000 bytes or more
+const MAX_NOTIFY_PAYLOAD_BYTES = 7900;
+const RECONNECT_DELAY_MS = 5000;
+
+const NODE_ID = config.cluster.nodeId || randomUUID();
+
+abstract class BaseBackplane implements ClusterBackplane {
+  readonly nodeId = NODE_ID;
+  abstract readonly isDistributed: boolean;
+  protected handlers: Map<string, Set<MessageHandler>> = new Map();
+
+  abstract start(): Promise<void>;
+  abstract stop(): Promise<void>;
+  abstract publish(channel: string, payload: unknown): void;
+
+  subscribe<T>(channel: string, handler: MessageHandler<T>): () => void {
+    if (!this.handlers.has(channel)) {
+      this.handlers.set(channel, new Set());
+    }
+    const handlers = this.handlers.get(channel)!;
+    handlers.add(handler as MessageHandler);
+
+    return () => {
+      handlers.delete(handler as MessageHandler);
+    };
+  }
+
+  protected dispatch(envelope: Envelope): void {
+    if (envelope.n === this.nodeId) return;
+
+    this.handlers.get(envelope.c)?.forEach((handler) => {
+      try {
+        handler(envelope.p, envelope.n);
+      } catch (error) {
+        logger.error('[Cluster] Message handler failed', { channel: envelope.c, error });
+      }
+    });
+  }
+}
+
+class LocalBackplane extends BaseBackplane {
+  readonly isDistributed = false;
+
+  async start(): Promise<void> {}
+
+  async stop(): Promise<void> {}
+
+  publish(): void {}
+}
+
+class PostgresBackplane extends BaseBackplane {
+  readonly isDistributed = true;
+  private client: Client | null = null;
+  private reconnectTimer: NodeJS.Timeout | null = null;
+  private isStopping = false;
+  private readonly CHANNEL = config.cluster.channel;
+
+  async start(): Promise<void> {
+    this.isStopping = false;
+    await this.connect();
+    logger.info('[Cluster] Postgres backplane started', { nodeId: this.nodeId, channel: this.CHANNEL });
+  }
+
+  async stop(): Promise<void> {
+    this.isStopping = true;
+    if (this.reconnectTimer) {
+      clearTimeout(this.reconnectTimer);
+      this.reconnectTimer = null;
+    }
+
+    const client = this.client;
+    this.client = null;
+    if (client) {
+      await client.end().catch(() => undefined);
+    }
+  }
+
+  publish(channel: string, payload: unknown): void {
+    const message = JSON.stringify({ n: this.nodeId, c: channel, p: payload } satisfies Envelope);
+
+    if (Buffer.byteLength(message) > MAX_NOTIFY_PAYLOAD_BYTES) {
+      logger.error('[Cluster] Message too large for NOTIFY - not published', {
+        channel,
+        bytes: Buffer.byteLength(message),
+      });
+      return;
+    }
+
+    // pg_notify goes through the pool; only LISTEN needs the dedicated connection
+    query(`SELECT pg_notify($1, $2)`, [this.CHANNEL, message]).catch((error) => {
+      logger.error('[Cluster] Publish failed', { channel, error });
+    });
+  }
+
+  private async connect(): Promise<void> {
+    const client = createDedicatedClient();
+
+    client.on('notification', (notification: Notification) => this.handleNotification(notification));
+    client.on('error', (error) => {
+      logger.error('[Cluster] Backplane connection error', { error: error.message });
+      this.handleDisconnect(client);
+    });
+    client.on('end', () => this.handleDisconnect(client));
+
+    try {
+      await client.connect();
+      await client.query(`LISTEN "${this.CHANNEL}"`);
+    } catch (error) {
+      client.end().catch(() => undefined);
+      throw error;
+    }
+    this.client = client;
+  }
+
+  private handleDisconnect(client: Client): void {
+    if (this.isStopping || this.client !== client) return;
+
+    this.client = null;
+    client.end().catch(() => undefined);
+    this.scheduleReconnect();
+  }
+
+  /**
+   * Messages published while disconnected are lost; consumers treat the
+   * backplane as best effort and fall back to the database where it matters
+   */
+  private scheduleReconnect(): void {
+    if (this.isStopping || this.reconnectTimer) return;
+
+    this.reconnectTimer = setTimeout(async () => {
+      this.reconnectTimer = null;
+      try {
+        await this.connect();
+        logger.info('[Cluster] Backplane reconnected');
+      } catch (error) {
+        logger.error('[Cluster] Backplane reconnect failed', { error });
+        this.scheduleReconnect();
+      }
+    }, RECONNECT_DELAY_MS);
+  }
+
+  private handleNotification(notification: Notification): void {
+    if (notification.channel !== this.CHANNEL || !notification.payload) return;
+
+    try {
+      this.dispatch(JSON.parse(notification.payload) as Envelope);
+    } catch (error) {
+      logger.error('[Cluster] Malformed backplane message', { error });
+    }
+  }
+}
+
+export const clusterBus: ClusterBackplane = config.cluster.enabled
+  ? new PostgresBackplane()
+  : new LocalBackplane();
+
+export type { ClusterBackplane, MessageHandler };
@@ -0,0 +1,163 @@
+import type { Client } from 'pg';
+import { createDedicatedClient } from '../../config/db.js';
+import { config } from '../../config/env.js';
+import { logger } from '../../utils/logger.js';
+import { clusterBus } from './backplane.js';
+
+/**
+ * Leader Election
+ *
+ * Exactly one instance runs the singleton work: OTC price generation, the
+ * schedulers, trade settlement timers and the pending order watcher.
+ *
+ * The leader holds a session-level Postgres advisory lock on a dedicated
+ * connection. If that connection drops (crash, network partition) Postgres
+ * releases the lock and another node takes it on its next check. Without
+ * clustering this node is always the leader.
+ */
+
+type LeadershipListener = (isLeader: boolean) => void | Promise<void>;
+
+const LEADER_LOCK_NAME = 'optigo:cluster-leader';
+
+class LeaderElection {
+  private client: Client | null = null;
+  private checkInterval: NodeJS.Timeout | null = null;
+  private isChecking = false;
+  private leader = false;
+  private listeners = new Set<LeadershipListener>();
+  private readonly CHECK_INTERVAL_MS = config.cluster.leaderCheckIntervalMs;
+
+  isLeader(): boolean {
+    return this.leader;
+  }
+
+  /**
+   * Called with true when this node becomes leader and false when it loses
+   * leadership (including on stop)
+   */
+  onLeadershipChange(listener: LeadershipListener): () => void {
+    this.listeners.add(listener);
+    return () => {
+      this.listeners.delete(listener);
+    };
+  }
+
+  async start(): Promise<void> {
+    if (!config.cluster.enabled) {
+      await this.setLeader(true);
+      return;
+    }
+
+    await this.check();
+    this.checkInterval = setInterval(() => {
+      this.check().catch((error) => {
+        logger.error('[Cluster] Leader check failed', { error });
+      });
+    }, this.CHECK_INTERVAL_MS);
+
+    logger.info('[Cluster] Leader election started', {
+      nodeId: clusterBus.nodeId,
+      isLeader: this.leader,
+      intervalMs: this.CHECK_INTERVAL_MS,
+    });
+  }
+
+  async stop(): Promise<void> {
+    if (this.checkInterval) {
+      clearInterval(this.checkInterval);
+      this.checkInterval = null;
+    }
+
+    await this.setLeader(false);
+
+    // Ending the session releases the advisory lock for the next leader
+    const client = this.client;
+    this.client = null;
+    if (client) {
+      await client.end().catch(() => undefined);
+    }
+  }
+
+  /**
+   * Leaders confirm their lock connection is alive; followers try to take the lock
+   */
+  private async check(): Promise<void> {
+    if (this.isChecking) return;
+    this.isChecking = true;
+
+    try {
+      if (this.leader) {
+        await this.client!.query('SELECT 1');
+        return;
+      }
+
+      if (!this.client) {
+        this.client = await this.connect();
+      }
+
+      const result = await this.client.query<{ acquired: boolean }>(
+        `SELECT pg_try_advisory_lock(hashtext($1)) AS acquired`,
+        [LEADER_LOCK_NAME]
+      );
+      if (result.rows[0]?.acquired) {
+        await this.setLeader(true);
+      }
+    } catch (error) {
+      logger.error('[Cluster] Lost leader election connection', { error });
+      await this.dropConnection();
+    } finally {
+      this.isChecking = false;
+    }
+  }
+
+  private async connect(): Promise<Client> {
+    const client = createDedicatedClient();
+    client.on('error', (error) => {
+      logger.error('[Cluster] Leader election connection error', { error: error.message });
+      if (this.client === client) {
+        this.dropConnection().catch(() => undefined);
+      }
+    });
+
+    try {
+      await client.connect();
+    } catch (error) {
+      client.end().catch(() => undefined);
+      throw error;
+    }
+    return client;
+  }
+
+  /**
+   * Without the connection the lock is gone, so step down immediately rather
+   * than risk two leaders; the next check reconnects and competes again
+   */
+  private async dropConnection(): Promise<void> {
+    const client = this.client;
+    this.client = null;
+    if (client) {
+      client.end().catch(() => undefined);
+    }
+    await this.setLeader(false);
+  }
+
+  private async setLeader(isLeader: boolean): Promise<void> {
+    if (this.leader === isLeader) return;
+    this.leader = isLeader;
+
+    logger.info(isLeader ? '[Cluster] This node is now the leader' : '[Cluster] This node is no longer the leader', {
+      nodeId: clusterBus.nodeId,
+    });
+
+    for (const listener of this.listeners) {
+      try {
+        await listener(isLeader);
+      } catch (error) {
+        logger.error('[Cluster] Leadership listener failed', { isLeader, error });
+      }
+    }
+  }
+}
+
+export const leaderElection = new LeaderElection();
@@ -1,7 +1,12 @@
+import type { PoolClient } from 'pg';
 import { query, queryOne, queryMany, transaction } from '../../config/db.js';
 import { logger } from '../../utils/logger.js';
-import { config } from '../../config/env.js';
 import { wsManager } from '../websocket/websocket.manager.js';
+import { payoutScheduleService } from '../market/payout-schedule.service.js';
+import { ledgerService } from '../ledger/ledger.service.js';
+import { tradingLimitsService } from '../limits/trading-limits.service.js';
+import { bonusService } from '../bonus/bonus.service.js';
+import { addMoney, percentOf } from '../../utils/money.js';
 import { randomUUID } from 'crypto';
 
 interface TradeData {
@@ -232,9 +237,9 @@ export class CopyExecutionService {
         let tradeAmount: number;
         if (follow.copyMode === 'PERCENTAGE') {
           // Percentage of leader's trade amount
-          tradeAmount = (leaderTradeAmount * follow.percentageAmount) / 100;
+          tradeAmount = percentOf(leaderTradeAmount, follow.percentageAmount);
           // Ensure minimum $1 trade
-          tradeAmount = Math.max(1, Math.round(tradeAmount * 100) / 100);
+          tradeAmount = Math.max(1, tradeAmount);
         } else {
           // Fixed amount per trade
           tradeAmount = follow.fixedAmount;
@@ -263,6 +268,17 @@ export class CopyExecutionService {
           status: 'copied',
         });
       } catch (error) {
+        // Balance or trading limits failed the re-check under lock - skip this follower
+        if (error instanceof CopyExecutionServiceError) {
+          results.push({
+            followerId: follow.followerId,
+            copiedTradeId: null,
+            status: 'skipped',
+            reason: error.message,
+          });
+          continue;
+        }
+
         logger.error('Error copying trade for follower', {
           followerId: follow.followerId,
           originalTradeId: originalTrade.id,
@@ -296,11 +312,13 @@ export class CopyExecutionService {
     leaderId: string,
     tradeAmount: number
   ) {
-    const payoutPercent = config.trading.defaultPayoutPercentage;
+    const { payoutPercent } = await payoutScheduleService.resolvePayout(originalTrade.symbol, originalTrade.duration);
     const tradeId = randomUUID();
     const now = new Date();
 
     const copiedTrade = await transaction(async (client) => {
+      await this.assertCanStake(client, follow.followerId, tradeAmount);
+
       // Create trade
       const tradeResult = await client.query<TradeRow>(
         `INSERT INTO "Trade" (
@@ -321,16 +339,23 @@ export class CopyExecutionService {
           'OPEN',
           true,
           originalTrade.expiresAt,
-          'DEMO',
+          'LIVE',
           now,
         ]
       );
 
       // Deduct balance
-      await client.query(
-        `UPDATE "User" SET "demoBalance" = "demoBalance" - $1, "updatedAt" = $2 WHERE id = $3`,
-        [tradeAmount, now, follow.followerId]
-      );
+      await ledgerService.post(client, {
+        userId: follow.followerId,
+        accountType: 'LIVE',
+        amount: -tradeAmount,
+        reason: 'TRADE_STAKE',
+        sourceType: 'TRADE',
+        sourceId: tradeId,
+        description: `Copy trade ${originalTrade.symbol} stake`,
+      });
+
+      await bonusService.recordWager(client, follow.followerId, tradeAmount);
 
       // Update follower stats
       await client.query(
@@ -544,12 +569,14 @@ export class CopyExecutionService {
       Math.floor((pending.originalTradeExpiresAt.getTime() - Date.now()) / 1000)
     );
 
-    const payoutPercent = config.trading.defaultPayoutPercentage;
+    const { payoutPercent } = await payoutScheduleService.resolvePayout(pending.symbol, remainingDuration);
     const expiresAt = new Date(Date.now() + remainingDuration * 1000);
     const tradeId = randomUUID();
     const now = new Date();
 
     const copiedTrade = await transaction(async (client) => {
+      await this.assertCanStake(client, userId, pending.suggestedAmount);
+
       // Create trade
       const tradeResult = await client.query<TradeRow>(
         `INSERT INTO "Trade" (
@@ -570,16 +597,23 @@ export class CopyExecutionService {
           'OPEN',
           true,
           expiresAt,
-          'DEMO',
+          'LIVE',
           now,
         ]
       );
 
       // Deduct balance
-      await client.query(
-        `UPDATE "User" SET "demoBalance" = "demoBalance" - $1, "updatedAt" = $2 WHERE id = $3`,
-        [pending.suggestedAmount, now, userId]
-      );
+      await ledgerService.post(client, {
+        userId: userId,
+        accountType: 'LIVE',
+        amount: -pending.suggestedAmount,
+        reason: 'TRADE_STAKE',
+        sourceType: 'TRADE',
+        sourceId: tradeId,
+        description: `Copy trade ${pending.symbol} stake`,
+      });
+
+      await bonusService.recordWager(client, userId, pending.suggestedAmount);
 
       // Update follower stats
       await client.query(
@@ -666,6 +700,27 @@ export class CopyExecutionService {
     return count;
   }
 
+  /**
+   * Re-check the follower's real-money balance and self-imposed trading limits
+   * under the User row lock. Copied stakes come out of the same balance as manual
+   * LIVE trades, so time-outs, self-exclusion and the stake caps apply to them too.
+   */
+  private async assertCanStake(client: PoolClient, followerId: string, amount: number): Promise<void> {
+    const balance = await client.query<{ balance: number }>(
+      `SELECT "demoBalance" as balance FROM "User" WHERE id = $1 FOR UPDATE`,
+      [followerId]
+    );
+
+    if (!balance.rows[0] || balance.rows[0].balance < amount) {
+      throw new CopyExecutionServiceError('Insufficient balance', 400);
+    }
+
+    const limitBlock = await tradingLimitsService.getTradeBlockReason(client, followerId, 'LIVE', amount);
+    if (limitBlock) {
+      throw new CopyExecutionServiceError(limitBlock, 403);
+    }
+  }
+
   private scheduleTradeSettlement(
     tradeId: string,
     duration: number,
@@ -766,11 +821,13 @@ export class CopyExecutionService {
     const stats = await queryOne<{
       totalTrades: string;
       winningTrades: string;
+      drawTrades: string;
       totalProfit: number;
     }>(
       `SELECT
         COUNT(*) as "totalTrades",
         COUNT(*) FILTER (WHERE result = 'WON') as "winningTrades",
+        COUNT(*) FILTER (WHERE result = 'DRAW') as "drawTrades",
         COALESCE(SUM(profit), 0) as "totalProfit"
        FROM "Trade"
        WHERE "userId" = $1 AND status = 'CLOSED' AND "isCopyTrade" = false`,
@@ -779,8 +836,11 @@ export class CopyExecutionService {
 
     const totalTrades = parseInt(stats?.totalTrades || '0', 10);
     const winningTrades = parseInt(stats?.winningTrades || '0', 10);
+    const drawTrades = parseInt(stats?.drawTrades || '0', 10);
     const totalProfit = Number(stats?.totalProfit || 0);
-    const winRate = totalTrades > 0 ? (winningTrades / totalTrades) * 100 : 0;
+    // Refunded draws are excluded from the win rate
+    const decidedTrades = totalTrades - drawTrades;
+    const winRate = decidedTrades > 0 ? (winningTrades / decidedTrades) * 100 : 0;
 
     await query(
       `UPDATE "CopyTradingLeader" SET "totalTrades" = $1, "winningTrades" = $2, "totalProfit" = $3, "winRate" = $4, "updatedAt" = $5
@@ -918,9 +978,10 @@ export class CopyExecutionService {
       };
     }
 
-    const copiedTradesStats = await queryOne<{ totalCopied: string; wonTrades: string }>(
+    const copiedTradesStats = await queryOne<{ totalCopied: string; wonTrades: string; drawTrades: string }>(
       `SELECT COUNT(*) as "totalCopied",
-        COUNT(*) FILTER (WHERE t.result = 'WON') as "wonTrades"
+        COUNT(*) FILTER (WHERE t.result = 'WON') as "wonTrades",
+        COUNT(*) FILTER (WHERE t.result = 'DRAW') as "drawTrades"
        FROM "CopiedTrade" ct
        JOIN "Trade" t ON t.id = ct."copiedTradeId"
        WHERE ct."followerId" = ANY($1)`,
@@ -929,8 +990,10 @@ export class CopyExecutionService {
 
     const totalCopied = parseInt(copiedTradesStats?.totalCopied || '0', 10);
     const wonTrades = parseInt(copiedTradesStats?.wonTrades || '0', 10);
-    const totalProfit = followerRelations.reduce((sum, f) => sum + Number(f.totalProfit), 0);
-    const winRate = totalCopied > 0 ? (wonTrades / totalCopied) * 100 : 0;
+    const drawTrades = parseInt(copiedTradesStats?.drawTrades || '0', 10);
+    const totalProfit = followerRelations.reduce((sum, f) => addMoney(sum, f.totalProfit), 0);
+    const decidedCopies = totalCopied - drawTrades;
+    const winRate = decidedCopies > 0 ? (wonTrades / decidedCopies) * 100 : 0;
 
     return {
       totalCopied,
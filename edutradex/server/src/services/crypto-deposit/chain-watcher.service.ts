@@ -0,0 +1,185 @@
+import { query, queryOne, queryMany } from '../../config/db.js';
+import { config } from '../../config/env.js';
+import { logger } from '../../utils/logger.js';
+import { roundMoney } from '../../utils/money.js';
+import { marketService } from '../market/market.service.js';
+import { depositService } from '../deposit/deposit.service.js';
+import { cryptoAddressService, type CryptoAddressRow } from './crypto-address.service.js';
+import { CRYPTO_NETWORKS, USD_STABLECOINS, type CryptoNetwork } from './crypto-networks.js';
+import {
+  createChainProviders,
+  MockChainProvider,
+  type ChainProvider,
+  type ChainTransfer,
+} from './providers/index.js';
+import { randomUUID } from 'crypto';
+
+interface CryptoTransferRow {
+  id: string;
+  network: CryptoNetwork;
+  txHash: string;
+  transferIndex: number;
+  address: string;
+  userId: string;
+  asset: string;
+  amount: string;
+  confirmations: number;
+  status: 'CONFIRMING' | 'CREDITED' | 'REVIEW';
+}
+
+// Addresses requested this recently are polled every cycle, the rest once a day
+const ACTIVE_ADDRESS_DAYS = 7;
+const FULL_SWEEP_INTERVAL_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * Chain Watcher
+ *
+ * Polls the chain providers for payments to users' deposit addresses,
+ * records each one as a CryptoTransfer, and once it has the network's
+ * required confirmations hands it to DepositService to be credited or
+ * queued for review. Runs on the cluster leader only.
+ */
+class ChainWatcherService {
+  private providers: ChainProvider[] = [];
+  private intervalId: NodeJS.Timeout | null = null;
+  private isRunning = false;
+  private lastFullSweepAt = 0;
+
+  start(): void {
+    if (this.intervalId) return;
+
+    const networks = cryptoAddressService.getEnabledNetworks();
+    if (networks.length === 0) {
+      logger.info('[ChainWatcher] No deposit xpubs configured - personal crypto addresses disabled');
+      return;
+    }
+
+    this.providers = createChainProviders();
+    networks
+      .filter((network) => !this.providerFor(network))
+      .forEach((network) => logger.warn(`[ChainWatcher] No chain provider for ${network} - its deposits will not be detected`));
+
+    this.intervalId = setInterval(() => this.poll(), config.cryptoDeposits.watchIntervalMs);
+    this.poll();
+
+    logger.info(`[ChainWatcher] Watching ${networks.join(', ')} via ${this.providers.map((p) => p.name).join(', ')}`);
+  }
+
+  stop(): void {
+    if (this.intervalId) {
+      clearInterval(this.intervalId);
+      this.intervalId = null;
+      logger.info('[ChainWatcher] Stopped');
+    }
+  }
+
+  /**
+   * The in-memory chain, when CRYPTO_CHAIN_PROVIDER=mock and the watcher runs here
+   */
+  getMockChain(): MockChainProvider | null {
+    return this.providers.find((provider): provider is MockChainProvider => provider instanceof MockChainProvider) ?? null;
+  }
+
+  private providerFor(network: CryptoNetwork): ChainProvider | undefined {
+    return this.providers.find((provider) => provider.supports(network));
+  }
+
+  private async poll(): Promise<void> {
+    if (this.isRunning) return;
+    this.isRunning = true;
+
+    try {
+      const fullSweep = Date.now() - this.lastFullSweepAt >= FULL_SWEEP_INTERVAL_MS;
+      const activeSince = new Date(Date.now() - ACTIVE_ADDRESS_DAYS * 24 * 60 * 60 * 1000);
+
+      // Recently requested addresses, plus any with a payment still confirming
+      const addresses = await queryMany<CryptoAddressRow>(
+        `SELECT a.* FROM "CryptoDepositAddress" a
+         WHERE a.network = ANY($1)
+           AND ($2 OR a."lastRequestedAt" >= $3 OR EXISTS (
+             SELECT 1 FROM "CryptoTransfer" t
+             WHERE t.network = a.network AND t.address = a.address AND t.status = 'CONFIRMING'
+           ))`,
+        [cryptoAddressService.getEnabledNetworks(), fullSweep, activeSince]
+      );
+
+      for (const address of addresses) {
+        const provider = this.providerFor(address.network);
+        if (!provider) continue;
+
+        try {
+          const transfers = await provider.getIncomingTransfers(address.network, address.address, address.createdAt);
+          await this.processTransfers(address, transfers);
+          await query(
+            `UPDATE "CryptoDepositAddress" SET "lastCheckedAt" = $1 WHERE id = $2`,
+            [new Date(), address.id]
+          );
+        } catch (error) {
+          logger.error('[ChainWatcher] Failed to check deposit address', {
+            network: address.network,
+            address: address.address,
+            provider: provider.name,
+            error: error instanceof Error ? error.message : error,
+          });
+        }
+      }
+
+      if (fullSweep) {
+        this.lastFullSweepAt = Date.now();
+      }
+    } catch (error) {
+      logger.error('[ChainWatcher] Poll failed', { error });
+    } finally {
+      this.isRunning = false;
+    }
+  }
+
+  private async processTransfers(address: CryptoAddressRow, transfers: ChainTransfer[]): Promise<void> {
+    const required = CRYPTO_NETWORKS[address.network].confirmations;
+
+    for (const transfer of transfers) {
+      // Record on first sight; afterwards only the confirmation count moves
+      const row = await queryOne<CryptoTransferRow>(
+        `INSERT INTO "CryptoTransfer" (
+          id, network, "txHash", "transferIndex", address, "userId", asset, amount, confirmations, "detectedAt"
+        ) VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10)
+        ON CONFLICT (network, "txHash", "transferIndex")
+        DO UPDATE SET confirmations = EXCLUDED.confirmations
+        RETURNING *`,
+        [
+          randomUUID(), address.network, transfer.txHash, transfer.index, address.address, address.userId,
+          transfer.asset, transfer.amount, transfer.confirmations, new Date(),
+        ]
+      );
+
+      if (!row || row.status !== 'CONFIRMING' || transfer.confirmations < required) continue;
+
+      const value = this.toAccountCurrency(transfer.asset, transfer.amount);
+      if (value === null) {
+        logger.warn(`[ChainWatcher] No ${transfer.asset}/USD price - settlement of ${transfer.txHash} deferred`);
+        continue;
+      }
+
+      await depositService.settleCryptoTransfer({
+        transferId: row.id,
+        userId: address.userId,
+        network: address.network,
+        address: address.address,
+        asset: transfer.asset,
+        cryptoAmount: transfer.amount,
+        value,
+        txHash: transfer.txHash,
+      });
+    }
+  }
+
+  private toAccountCurrency(asset: string, amount: string): number | null {
+    if (USD_STABLECOINS.has(asset)) {
+      return roundMoney(amount);
+    }
+    const price = marketService.getCurrentPrice(`${asset}/USD`)?.price;
+    return price ? roundMoney(Number(amount) * price) : null;
+  }
+}
+
+export const chainWatcherService = new ChainWatcherService();
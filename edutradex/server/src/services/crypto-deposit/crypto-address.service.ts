@@ -0,0 +1,139 @@
+import { queryOne, transaction } from '../../config/db.js';
+import { config } from '../../config/env.js';
+import { logger } from '../../utils/logger.js';
+import { deriveReceiveAddress, isValidExtendedPublicKey } from './hd-wallet.js';
+import { CRYPTO_NETWORKS, resolveNetwork, type CryptoNetwork } from './crypto-networks.js';
+import { randomUUID } from 'crypto';
+
+interface CryptoAddressRow {
+  id: string;
+  userId: string;
+  network: CryptoNetwork;
+  address: string;
+  derivationIndex: number;
+  lastRequestedAt: Date;
+  lastCheckedAt: Date | null;
+  createdAt: Date;
+}
+
+interface DepositAddress {
+  network: CryptoNetwork;
+  networkLabel: string;
+  asset: string;
+  address: string;
+  confirmations: number;
+}
+
+class CryptoAddressServiceError extends Error {
+  constructor(
+    message: string,
+    public statusCode: number = 400
+  ) {
+    super(message);
+    this.name = 'CryptoAddressServiceError';
+  }
+}
+
+/**
+ * Per-user deposit addresses. Each user gets one address per network, the
+ * next unused index of that network's xpub, so any payment to it can be
+ * attributed without a memo or amount matching.
+ */
+class CryptoAddressService {
+  private xpubs = new Map<CryptoNetwork, string>();
+
+  constructor() {
+    (Object.keys(CRYPTO_NETWORKS) as CryptoNetwork[]).forEach((network) => {
+      const xpub = config.cryptoDeposits.xpubs[network];
+      if (!xpub) return;
+
+      if (isValidExtendedPublicKey(xpub)) {
+        this.xpubs.set(network, xpub);
+      } else {
+        logger.error(`[CryptoAddress] CRYPTO_XPUB_${network} is not a valid extended public key - ignoring it`);
+      }
+    });
+  }
+
+  getEnabledNetworks(): CryptoNetwork[] {
+    return Array.from(this.xpubs.keys());
+  }
+
+  /**
+   * Network for a currency and free-text network name, if personal
+   * addresses are enabled for it
+   */
+  getEnabledNetwork(currency: string, network?: string | null): CryptoNetwork | null {
+    const resolved = resolveNetwork(network, currency);
+    return resolved && this.xpubs.has(resolved) ? resolved : null;
+  }
+
+  async getAddressForUser(userId: string, network: CryptoNetwork): Promise<CryptoAddressRow> {
+    const xpub = this.xpubs.get(network);
+    if (!xpub) {
+      throw new CryptoAddressServiceError('Personal deposit addresses are not available for this network');
+    }
+
+    const existing = await queryOne<CryptoAddressRow>(
+      `UPDATE "CryptoDepositAddress" SET "lastRequestedAt" = $3
+       WHERE "userId" = $1 AND network = $2
+       RETURNING *`,
+      [userId, network, new Date()]
+    );
+    if (existing) return existing;
+
+    // Serialise index allocation per network so two users never share an index
+    return transaction(async (client) => {
+      await client.query(`SELECT pg_advisory_xact_lock(hashtext($1))`, [`crypto-address:${network}`]);
+
+      const raced = await client.query<CryptoAddressRow>(
+        `SELECT * FROM "CryptoDepositAddress" WHERE "userId" = $1 AND network = $2`,
+        [userId, network]
+      );
+      if (raced.rows[0]) return raced.rows[0];
+
+      const next = await client.query<{ index: number }>(
+        `SELECT COALESCE(MAX("derivationIndex"), -1) + 1 as index FROM "CryptoDepositAddress" WHERE network = $1`,
+        [network]
+      );
+      const derivationIndex = Number(next.rows[0].index);
+      const address = deriveReceiveAddress(xpub, derivationIndex, CRYPTO_NETWORKS[network].addressFormat);
+      const now = new Date();
+
+      const inserted = await client.query<CryptoAddressRow>(
+        `INSERT INTO "CryptoDepositAddress" (id, "userId", network, address, "derivationIndex", "lastRequestedAt", "createdAt")
+         VALUES ($1, $2, $3, $4, $5, $6, $6)
+         RETURNING *`,
+        [randomUUID(), userId, network, address, derivationIndex, now]
+      );
+
+      logger.info('Crypto deposit address assigned', { userId, network, derivationIndex });
+      return inserted.rows[0];
+    });
+  }
+
+  /**
+   * The user's address for paying in `currency`, as shown on the deposit page
+   */
+  async getDepositAddress(userId: string, currency: string, network?: string | null): Promise<DepositAddress> {
+    const resolved = this.getEnabledNetwork(currency, network);
+    if (!resolved) {
+      throw new CryptoAddressServiceError('Personal deposit addresses are not available for this currency', 404);
+    }
+
+    const row = await this.getAddressForUser(userId, resolved);
+    const { label, confirmations } = CRYPTO_NETWORKS[resolved];
+
+    return {
+      network: resolved,
+      networkLabel: label,
+      asset: currency.toUpperCase(),
+      address: row.address,
+      confirmations,
+    };
+  }
+}
+
+export const cryptoAddressService = new CryptoAddressService();
+export { CryptoAddressServiceError };
+export type { CryptoAddressRow, DepositAddress };
@@ -0,0 +1,91 @@
+import type { AddressFormat } from './hd-wallet.js';
+
+/**
+ * Networks that support per-user deposit addresses. Payment methods name
+ * their network as free text ('TRC20', 'Bitcoin', ...), so lookups go
+ * through resolveNetwork. Token contracts are mainnet.
+ */
+
+type CryptoNetwork = 'BITCOIN' | 'ERC20' | 'BEP20' | 'TRC20';
+
+interface NetworkAsset {
+  decimals: number;
+  // Token contract; absent for the chain's native coin
+  contract?: string;
+}
+
+interface NetworkConfig {
+  label: string;
+  addressFormat: AddressFormat;
+  confirmations: number;
+  assets: Record<string, NetworkAsset>;
+  // Etherscan V2 chain id for EVM networks
+  chainId?: number;
+}
+
+const CRYPTO_NETWORKS: Record<CryptoNetwork, NetworkConfig> = {
+  BITCOIN: {
+    label: 'Bitcoin',
+    addressFormat: 'BECH32',
+    confirmations: 2,
+    assets: { BTC: { decimals: 8 } },
+  },
+  ERC20: {
+    label: 'Ethereum (ERC20)',
+    addressFormat: 'EVM',
+    confirmations: 12,
+    chainId: 1,
+    assets: {
+      ETH: { decimals: 18 },
+      USDT: { decimals: 6, contract: '0xdAC17F958D2ee523a2206206994597C13D831ec7' },
+      USDC: { decimals: 6, contract: '0xA0b86991c6218b36c1d19D4a2e9Eb0cE3606eB48' },
+    },
+  },
+  BEP20: {
+    label: 'BNB Smart Chain (BEP20)',
+    addressFormat: 'EVM',
+    confirmations: 15,
+    chainId: 56,
+    assets: {
+      BNB: { decimals: 18 },
+      USDT: { decimals: 18, contract: '0x55d398326f99059fF775485246999027B3197955' },
+      USDC: { decimals: 18, contract: '0x8AC76a51cc950d9822D68b83fE1Ad97B32Cd580d' },
+    },
+  },
+  TRC20: {
+    label: 'Tron (TRC20)',
+    addressFormat: 'TRON',
+    confirmations: 19,
+    assets: {
+      USDT: { decimals: 6, contract: 'TR7NHqjeKQxGTCi8q8ZY4pL8otSzgjLj6t' },
+    },
+  },
+};
+
+const NETWORK_ALIASES: Record<string, CryptoNetwork> = {
+  BITCOIN: 'BITCOIN',
+  BTC: 'BITCOIN',
+  ERC20: 'ERC20',
+  ETHEREUM: 'ERC20',
+  ETH: 'ERC20',
+  BEP20: 'BEP20',
+  BSC: 'BEP20',
+  TRC20: 'TRC20',
+  TRON: 'TRC20',
+};
+
+// Coins priced at par with the account currency
+const USD_STABLECOINS = new Set(['USDT', 'USDC', 'BUSD', 'DAI']);
+
+/**
+ * The network for a payment method, falling back to the currency's home
+ * chain when the method does not name one. Null if unsupported.
+ */
+function resolveNetwork(network: string | null | undefined, currency: string): CryptoNetwork | null {
+  const key = (network || currency).trim().toUpperCase().replace(/[\s()-]/g, '');
+  const resolved = NETWORK_ALIASES[key];
+  return resolved && CRYPTO_NETWORKS[resolved].assets[currency.toUpperCase()] ? resolved : null;
+}
+
+export { CRYPTO_NETWORKS, USD_STABLECOINS, resolveNetwork };
+export type { CryptoNetwork, NetworkAsset, NetworkConfig };
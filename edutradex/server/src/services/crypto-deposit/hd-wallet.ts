@@ -0,0 +1,310 @@
+import { createHash, createHmac, createECDH, ECDH } from 'crypto';
+
+/**
+ * Watch-only HD wallet helpers
+ *
+ * Derives receive addresses from an account-level extended public key
+ * (BIP32, non-hardened m/.../0/i) so the server never holds private keys.
+ * secp256k1 scalar multiplication and point (de)compression come from
+ * Node's ECDH; only the point addition of CKDpub is done here.
+ */
+
+type AddressFormat = 'BECH32' | 'EVM' | 'TRON';
+
+interface ExtendedPublicKey {
+  publicKey: Buffer; // 33-byte compressed point
+  chainCode: Buffer;
+}
+
+const CURVE_P = BigInt('0xfffffffffffffffffffffffffffffffffffffffffffffffffffffffefffffc2f');
+const CURVE_N = BigInt('0xfffffffffffffffffffffffffffffffebaaedce6af48a03bbfd25e8cd0364141');
+const HARDENED_OFFSET = 0x80000000;
+const BASE58_ALPHABET = '123456789ABCDEFGHJKLMNPQRSTUVWXYZabcdefghijkmnopqrstuvwxyz';
+const BECH32_ALPHABET = 'qpzry9x8gf2tvdw0s3jn54khce6mua7l';
+
+// ============= Hashing =============
+
+function sha256(data: Buffer): Buffer {
+  return createHash('sha256').update(data).digest();
+}
+
+function hash160(data: Buffer): Buffer {
+  return createHash('ripemd160').update(sha256(data)).digest();
+}
+
+// Keccak-256 as used by Ethereum (original padding, not NIST SHA3-256)
+const LANE_MASK = (1n << 64n) - 1n;
+const KECCAK_ROUND_CONSTANTS: bigint[] = [];
+const KECCAK_ROTATIONS: number[] = new Array(25).fill(0);
+
+(function initKeccakTables() {
+  let lfsr = 1;
+  for (let round = 0; round < 24; round++) {
+    let constant = 0n;
+    for (let j = 0; j < 7; j++) {
+      if (lfsr & 1) constant |= 1n << BigInt((1 << j) - 1);
+      lfsr = lfsr & 0x80 ? ((lfsr << 1) ^ 0x71) & 0xff : (lfsr << 1) & 0xff;
+    }
+    KECCAK_ROUND_CONSTANTS.push(constant);
+  }
+
+  let x = 1;
+  let y = 0;
+  for (let t = 0; t < 24; t++) {
+    KECCAK_ROTATIONS[x + 5 * y] = (((t + 1) * (t + 2)) / 2) % 64;
+    [x, y] = [y, (2 * x + 3 * y) % 5];
+  }
+})();
+
+function rotateLane(lane: bigint, bits: number): bigint {
+  if (bits === 0) return lane;
+  return ((lane << BigInt(bits)) | (lane >> BigInt(64 - bits))) & LANE_MASK;
+}
+
+function keccakF(state: bigint[]): void {
+  const columns = new Array<bigint>(5);
+  const permuted = new Array<bigint>(25);
+
+  for (let round = 0; round < 24; round++) {
+    for (let x = 0; x < 5; x++) {
+      columns[x] = state[x] ^ state[x + 5] ^ state[x + 10] ^ state[x + 15] ^ state[x + 20];
+    }
+    for (let x = 0; x < 5; x++) {
+      const d = columns[(x + 4) % 5] ^ rotateLane(columns[(x + 1) % 5], 1);
+      for (let y = 0; y < 25; y += 5) state[x + y] ^= d;
+    }
+    for (let x = 0; x < 5; x++) {
+      for (let y = 0; y < 5; y++) {
+        permuted[y + 5 * ((2 * x + 3 * y) % 5)] = rotateLane(state[x + 5 * y], KECCAK_ROTATIONS[x + 5 * y]);
+      }
+    }
+    for (let y = 0; y < 25; y += 5) {
+      for (let x = 0; x < 5; x++) {
+        state[x + y] = permuted[x + y] ^ (~permuted[((x + 1) % 5) + y] & LANE_MASK & permuted[((x + 2) % 5) + y]);
+      }
+    }
+    state[0] ^= KECCAK_ROUND_CONSTANTS[round];
+  }
+}
+
+function keccak256(data: Buffer): Buffer {
+  const rate = 136;
+  const padded = Buffer.alloc(Math.floor(data.length / rate) * rate + rate);
+  data.copy(padded);
+  padded[data.length] ^= 0x01;
+  padded[padded.length - 1] ^= 0x80;
+
+  const state = new Array<bigint>(25).fill(0n);
+  for (let offset = 0; offset < padded.length; offset += rate) {
+    for (let lane = 0; lane < rate / 8; lane++) {
+      state[lane] ^= padded.readBigUInt64LE(offset + lane * 8);
+    }
+    keccakF(state);
+  }
+
+  const output = Buffer.alloc(32);
+  for (let lane = 0; lane < 4; lane++) {
+    output.writeBigUInt64LE(state[lane], lane * 8);
+  }
+  return output;
+}
+
+// ============= Encodings =============
+
+function base58Encode(data: Buffer): string {
+  let value = BigInt('0x' + (data.toString('hex') || '0'));
+  let encoded = '';
+  while (value > 0n) {
+    encoded = BASE58_ALPHABET[Number(value % 58n)] + encoded;
+    value /= 58n;
+  }
+  for (const byte of data) {
+    if (byte !== 0) break;
+    encoded = '1' + encoded;
+  }
+  return encoded;
+}
+
+function base58Decode(text: string): Buffer {
+  let value = 0n;
+  for (const char of text) {
+    const digit = BASE58_ALPHABET.indexOf(char);
+    if (digit === -1) throw new Error('Invalid base58 character');
+    value = value * 58n + BigInt(digit);
+  }
+  let hex = value === 0n ? '' : value.toString(16);
+  if (hex.length % 2) hex = '0' + hex;
+  const leadingZeros = text.length - text.replace(/^1+/, '').length;
+  return Buffer.concat([Buffer.alloc(leadingZeros), Buffer.from(hex, 'hex')]);
+}
+
+function base58CheckEncode(payload: Buffer): string {
+  const checksum = sha256(sha256(payload)).subarray(0, 4);
+  return base58Encode(Buffer.concat([payload, checksum]));
+}
+
+function base58CheckDecode(text: string): Buffer {
+  const data = base58Decode(text);
+  const payload = data.subarray(0, -4);
+  if (!sha256(sha256(payload)).subarray(0, 4).equals(data.subarray(-4))) {
+    throw new Error('Invalid base58 checksum');
+  }
+  return payload;
+}
+
+function bech32Polymod(values: number[]): number {
+  const generators = [0x3b6a57b2, 0x26508e6d, 0x1ea119fa, 0x3d4233dd, 0x2a1462b3];
+  let checksum = 1;
+  for (const value of values) {
+    const top = checksum >> 25;
+    checksum = ((checksum & 0x1ffffff) << 5) ^ value;
+    generators.forEach((generator, i) => {
+      if ((top >> i) & 1) checksum ^= generator;
+    });
+  }
+  return checksum;
+}
+
+// Native SegWit v0 address (BIP173)
+function segwitAddress(hrp: string, program: Buffer): string {
+  const words = [0];
+  let accumulator = 0;
+  let bits = 0;
+  for (const byte of program) {
+    accumulator = (accumulator << 8) | byte;
+    bits += 8;
+    while (bits >= 5) {
+      bits -= 5;
+      words.push((accumulator >> bits) & 31);
+    }
+  }
+  if (bits > 0) words.push((accumulator << (5 - bits)) & 31);
+
+  const expandedHrp = [...hrp].map((c) => c.charCodeAt(0) >> 5)
+    .concat([0], [...hrp].map((c) => c.charCodeAt(0) & 31));
+  const polymod = bech32Polymod([...expandedHrp, ...words, 0, 0, 0, 0, 0, 0]) ^ 1;
+  const checksum = [0, 1, 2, 3, 4, 5].map((i) => (polymod >> (5 * (5 - i))) & 31);
+
+  return hrp + '1' + [...words, ...checksum].map((word) => BECH32_ALPHABET[word]).join('');
+}
+
+// EIP-55 mixed-case checksum
+function checksumEvmAddress(addressHex: string): string {
+  const hash = keccak256(Buffer.from(addressHex, 'ascii')).toString('hex');
+  return '0x' + [...addressHex]
+    .map((char, i) => (parseInt(hash[i], 16) >= 8 ? char.toUpperCase() : char))
+    .join('');
+}
+
+// ============= BIP32 =============
+
+function decodePoint(publicKey: Buffer): { x: bigint; y: bigint } {
+  const uncompressed = ECDH.convertKey(publicKey, 'secp256k1', undefined, undefined, 'uncompressed') as Buffer;
+  return {
+    x: BigInt('0x' + uncompressed.subarray(1, 33).toString('hex')),
+    y: BigInt('0x' + uncompressed.subarray(33).toString('hex')),
+  };
+}
+
+function encodePoint(point: { x: bigint; y: bigint }): Buffer {
+  const prefix = point.y % 2n === 0n ? '02' : '03';
+  return Buffer.from(prefix + point.x.toString(16).padStart(64, '0'), 'hex');
+}
+
+function modPow(base: bigint, exponent: bigint, modulus: bigint): bigint {
+  let result = 1n;
+  base %= modulus;
+  while (exponent > 0n) {
+    if (exponent & 1n) result = (result * base) % modulus;
+    base = (base * base) % modulus;
+    exponent >>= 1n;
+  }
+  return result;
+}
+
+function addPoints(a: { x: bigint; y: bigint }, b: { x: bigint; y: bigint }): { x: bigint; y: bigint } | null {
+  const mod = (value: bigint) => ((value % CURVE_P) + CURVE_P) % CURVE_P;
+  let slope: bigint;
+
+  if (a.x === b.x) {
+    if (mod(a.y + b.y) === 0n) return null; // Point at infinity
+    slope = mod(3n * a.x * a.x * modPow(2n * a.y, CURVE_P - 2n, CURVE_P));
+  } else {
+    slope = mod((b.y - a.y) * modPow(mod(b.x - a.x), CURVE_P - 2n, CURVE_P));
+  }
+
+  const x = mod(slope * slope - a.x - b.x);
+  return { x, y: mod(slope * (a.x - x) - a.y) };
+}
+
+function parseExtendedPublicKey(xpub: string): ExtendedPublicKey {
+  const data = base58CheckDecode(xpub.trim());
+  if (data.length !== 78) {
+    throw new Error('Extended public key must be 78 bytes');
+  }
+  const publicKey = data.subarray(45, 78);
+  if (publicKey[0] !== 0x02 && publicKey[0] !== 0x03) {
+    throw new Error('Extended key does not hold a public key');
+  }
+  return { chainCode: data.subarray(13, 45), publicKey };
+}
+
+// CKDpub - non-hardened child of an extended public key
+function deriveChild(parent: ExtendedPublicKey, index: number): ExtendedPublicKey {
+  if (!Number.isInteger(index) || index < 0 || index >= HARDENED_OFFSET) {
+    throw new Error('Only non-hardened indexes can be derived from a public key');
+  }
+
+  const indexBytes = Buffer.alloc(4);
+  indexBytes.writeUInt32BE(index);
+  const digest = createHmac('sha512', parent.chainCode)
+    .update(Buffer.concat([parent.publicKey, indexBytes]))
+    .digest();
+  const tweak = digest.subarray(0, 32);
+
+  if (BigInt('0x' + tweak.toString('hex')) >= CURVE_N) {
+    throw new Error(`Invalid child at index ${index}`);
+  }
+
+  const ecdh = createECDH('secp256k1');
+  ecdh.setPrivateKey(tweak);
+  const child = addPoints(decodePoint(ecdh.getPublicKey()), decodePoint(parent.publicKey));
+  if (!child) {
+    throw new Error(`Invalid child at index ${index}`);
+  }
+
+  return { publicKey: encodePoint(child), chainCode: digest.subarray(32) };
+}
+
+function encodeAddress(publicKey: Buffer, format: AddressFormat): string {
+  if (format === 'BECH32') {
+    return segwitAddress('bc', hash160(publicKey));
+  }
+
+  const uncompressed = ECDH.convertKey(publicKey, 'secp256k1', undefined, undefined, 'uncompressed') as Buffer;
+  const accountId = keccak256(uncompressed.subarray(1)).subarray(12);
+
+  return format === 'EVM'
+    ? checksumEvmAddress(accountId.toString('hex'))
+    : base58CheckEncode(Buffer.concat([Buffer.from([0x41]), accountId]));
+}
+
+/**
+ * Receive address i of an account-level xpub (external chain, m/.../0/i)
+ */
+function deriveReceiveAddress(xpub: string, index: number, format: AddressFormat): string {
+  const account = parseExtendedPublicKey(xpub);
+  return encodeAddress(deriveChild(deriveChild(account, 0), index).publicKey, format);
+}
+
+function isValidExtendedPublicKey(xpub: string): boolean {
+  try {
+    parseExtendedPublicKey(xpub);
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+export { deriveReceiveAddress, isValidExtendedPublicKey };
+export type { AddressFormat };
@@ -0,0 +1,41 @@
+import type { CryptoNetwork } from '../crypto-networks.js';
+
+type ChainProviderName = 'MOCK' | 'ESPLORA' | 'ETHERSCAN' | 'TRONGRID';
+
+interface ChainTransfer {
+  txHash: string;
+  // Output index (UTXO chains), log index (token transfers) or -1 for an EVM
+  // transaction's own value; tells apart several payments in one transaction
+  index: number;
+  address: string;
+  asset: string;
+  amount: string; // Decimal string in asset units
+  confirmations: number;
+}
+
+/**
+ * Read-only view of a blockchain for the deposit watcher. Implementations
+ * report incoming transfers to one of our addresses, unconfirmed ones
+ * included, and never sign or send anything.
+ */
+interface ChainProvider {
+  readonly name: ChainProviderName;
+  supports(network: CryptoNetwork): boolean;
+  // Transfers to the address first seen at or after `since`
+  getIncomingTransfers(network: CryptoNetwork, address: string, since: Date): Promise<ChainTransfer[]>;
+}
+
+/**
+ * Integer base units (satoshi, wei, ...) to a decimal string
+ */
+function formatUnits(raw: string | bigint, decimals: number): string {
+  const value = BigInt(raw);
+  const negative = value < 0n;
+  const digits = (negative ? -value : value).toString().padStart(decimals + 1, '0');
+  const whole = digits.slice(0, digits.length - decimals);
+  const fraction = digits.slice(digits.length - decimals).replace(/0+$/, '');
+  return `${negative ? '-' : ''}${whole}${fraction ? `.${fraction}` : ''}`;
+}
+
+export { formatUnits };
+export type { ChainProvider, ChainProviderName, ChainTransfer };
@@ -0,0 +1,60 @@
+import { formatUnits, type ChainProvider, type ChainTransfer } from './chain-provider.js';
+import type { CryptoNetwork } from '../crypto-networks.js';
+
+interface EsploraTransaction {
+  txid: string;
+  status: { confirmed: boolean; block_height?: number; block_time?: number };
+  vout: { scriptpubkey_address?: string; value: number }[];
+}
+
+/**
+ * Bitcoin via an Esplora REST API (blockstream.info, mempool.space or self-hosted)
+ */
+class EsploraProvider implements ChainProvider {
+  readonly name = 'ESPLORA' as const;
+
+  constructor(private readonly baseUrl: string) {}
+
+  supports(network: CryptoNetwork): boolean {
+    return network === 'BITCOIN';
+  }
+
+  private async get<T>(path: string, parse: (response: Response) => Promise<T>): Promise<T> {
+    const response = await fetch(`${this.baseUrl}${path}`);
+    if (!response.ok) {
+      throw new Error(`Esplora HTTP ${response.status}: ${response.statusText}`);
+    }
+    return parse(response);
+  }
+
+  async getIncomingTransfers(_network: CryptoNetwork, address: string, since: Date): Promise<ChainTransfer[]> {
+    // Mempool transactions first, then the latest confirmed ones
+    const [tipHeight, transactions] = await Promise.all([
+      this.get('/blocks/tip/height', async (response) => parseInt(await response.text(), 10)),
+      this.get(`/address/${address}/txs`, (response) => response.json() as Promise<EsploraTransaction[]>),
+    ]);
+
+    const transfers: ChainTransfer[] = [];
+    transactions.forEach((tx) => {
+      if (tx.status.confirmed && (tx.status.block_time ?? 0) * 1000 < since.getTime()) return;
+
+      tx.vout.forEach((output, index) => {
+        if (output.scriptpubkey_address !== address || output.value <= 0) return;
+        transfers.push({
+          txHash: tx.txid,
+          index,
+          address,
+          asset: 'BTC',
+          amount: formatUnits(BigInt(output.value), 8),
+          confirmations: tx.status.confirmed && tx.status.block_height !== undefined
+            ? tipHeight - tx.status.block_height + 1
+            : 0,
+        });
+      });
+    });
+
+    return transfers;
+  }
+}
+
+export { EsploraProvider };
@@ -0,0 +1,107 @@
+import { formatUnits, type ChainProvider, type ChainTransfer } from './chain-provider.js';
+import { CRYPTO_NETWORKS, type CryptoNetwork } from '../crypto-networks.js';
+
+interface EtherscanTransaction {
+  hash: string;
+  to: string;
+  value: string;
+  timeStamp: string;
+  confirmations: string;
+  isError?: string;
+  contractAddress?: string;
+  logIndex?: string;
+}
+
+/**
+ * EVM chains via the Etherscan V2 multichain API (one key covers Ethereum
+ * and BNB Smart Chain). Only mined transactions are listed, so transfers
+ * always arrive with at least one confirmation.
+ */
+class EtherscanProvider implements ChainProvider {
+  readonly name = 'ETHERSCAN' as const;
+
+  constructor(
+    private readonly baseUrl: string,
+    private readonly apiKey: string
+  ) {}
+
+  supports(network: CryptoNetwork): boolean {
+    return CRYPTO_NETWORKS[network].chainId !== undefined;
+  }
+
+  private async list(network: CryptoNetwork, action: 'txlist' | 'tokentx', address: string): Promise<EtherscanTransaction[]> {
+    const params = new URLSearchParams({
+      chainid: String(CRYPTO_NETWORKS[network].chainId),
+      module: 'account',
+      action,
+      address,
+      page: '1',
+      offset: '100',
+      sort: 'desc',
+      apikey: this.apiKey,
+    });
+
+    const response = await fetch(`${this.baseUrl}?${params.toString()}`);
+    if (!response.ok) {
+      throw new Error(`Etherscan HTTP ${response.status}: ${response.statusText}`);
+    }
+
+    const data = await response.json() as { status: string; message: string; result: EtherscanTransaction[] | string };
+    if (!Array.isArray(data.result)) {
+      // "No transactions found" comes back as status 0 with an empty list
+      if (data.message.startsWith('No transactions')) return [];
+      throw new Error(`Etherscan error: ${data.result || data.message}`);
+    }
+    return data.result;
+  }
+
+  async getIncomingTransfers(network: CryptoNetwork, address: string, since: Date): Promise<ChainTransfer[]> {
+    const { assets } = CRYPTO_NETWORKS[network];
+    const [nativeAsset] = Object.entries(assets).find(([, asset]) => !asset.contract) ?? [];
+    const tokensByContract = new Map(
+      Object.entries(assets)
+        .filter(([, asset]) => asset.contract)
+        .map(([symbol, asset]) => [asset.contract!.toLowerCase(), { symbol, decimals: asset.decimals }])
+    );
+
+    const [transactions, tokenTransfers] = await Promise.all([
+      this.list(network, 'txlist', address),
+      this.list(network, 'tokentx', address),
+    ]);
+    const isIncoming = (tx: EtherscanTransaction) =>
+      tx.to?.toLowerCase() === address.toLowerCase() && parseInt(tx.timeStamp, 10) * 1000 >= since.getTime();
+
+    const transfers: ChainTransfer[] = [];
+
+    if (nativeAsset) {
+      transactions
+        .filter((tx) => isIncoming(tx) && tx.isError === '0' && BigInt(tx.value) > 0n)
+        .forEach((tx) => transfers.push({
+          txHash: tx.hash,
+          index: -1, // The transaction's own value, as opposed to a token log
+          address,
+          asset: nativeAsset,
+          amount: formatUnits(tx.value, assets[nativeAsset].decimals),
+          confirmations: parseInt(tx.confirmations, 10),
+        }));
+    }
+
+    tokenTransfers.forEach((tx) => {
+      const token = tokensByContract.get(tx.contractAddress?.toLowerCase() ?? '');
+      if (!token || !isIncoming(tx) || BigInt(tx.value) <= 0n) return;
+
+      transfers.push({
+        txHash: tx.hash,
+        index: parseInt(tx.logIndex ?? '0', 10),
+        address,
+        asset: token.symbol,
+        amount: formatUnits(tx.value, token.decimals),
+        confirmations: parseInt(tx.confirmations, 10),
+      });
+    });
+
+    return transfers;
+  }
+}
+
+export { EtherscanProvider };
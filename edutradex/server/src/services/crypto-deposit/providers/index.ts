@@ -0,0 +1,38 @@
+/**
+ * Chain providers - public explorer APIs and the in-memory mock chain
+ */
+
+import { config } from '../../../config/env.js';
+import { logger } from '../../../utils/logger.js';
+import type { ChainProvider } from './chain-provider.js';
+import { MockChainProvider } from './mock-chain.provider.js';
+import { EsploraProvider } from './esplora.provider.js';
+import { EtherscanProvider } from './etherscan.provider.js';
+import { TronGridProvider } from './trongrid.provider.js';
+
+export * from './chain-provider.js';
+export { MockChainProvider, EsploraProvider, EtherscanProvider, TronGridProvider };
+
+/**
+ * Providers for the configured chain mode. Mock mode answers for every
+ * network from one in-memory chain.
+ */
+export function createChainProviders(): ChainProvider[] {
+  const settings = config.cryptoDeposits;
+
+  if (settings.chainProvider === 'mock') {
+    return [new MockChainProvider(settings.mockBlockTimeMs)];
+  }
+
+  const providers: ChainProvider[] = [new EsploraProvider(settings.esploraUrl)];
+
+  if (settings.etherscanApiKey) {
+    providers.push(new EtherscanProvider(settings.etherscanUrl, settings.etherscanApiKey));
+  } else if (settings.xpubs.ERC20 || settings.xpubs.BEP20) {
+    logger.warn('[ChainWatcher] No Etherscan API key configured - ERC20/BEP20 deposits will not be detected');
+  }
+
+  providers.push(new TronGridProvider(settings.tronGridUrl, settings.tronGridApiKey));
+
+  return providers;
+}
@@ -0,0 +1,64 @@
+import { randomBytes } from 'crypto';
+import { CRYPTO_NETWORKS, type CryptoNetwork } from '../crypto-networks.js';
+import type { ChainProvider, ChainTransfer } from './chain-provider.js';
+
+interface MockTransfer extends Omit<ChainTransfer, 'confirmations'> {
+  network: CryptoNetwork;
+  blockHeight: number;
+  sentAt: Date;
+}
+
+/**
+ * In-memory chain for development and tests. Every network produces a block
+ * each `blockTimeMs` and a sent transfer lands in the next one; mine() skips
+ * ahead to confirm on demand. State lives in this process only, so use it
+ * with clustering off.
+ */
+class MockChainProvider implements ChainProvider {
+  readonly name = 'MOCK' as const;
+  private readonly genesis = Date.now();
+  private minedAhead = new Map<CryptoNetwork, number>();
+  private transfers: MockTransfer[] = [];
+
+  constructor(private readonly blockTimeMs: number) {}
+
+  supports(network: CryptoNetwork): boolean {
+    return network in CRYPTO_NETWORKS;
+  }
+
+  getHeight(network: CryptoNetwork): number {
+    return Math.floor((Date.now() - this.genesis) / this.blockTimeMs) + (this.minedAhead.get(network) ?? 0);
+  }
+
+  send(network: CryptoNetwork, address: string, asset: string, amount: string): { txHash: string; blockHeight: number } {
+    const txHash = network === 'BITCOIN' || network === 'TRC20'
+      ? randomBytes(32).toString('hex')
+      : `0x${randomBytes(32).toString('hex')}`;
+    const blockHeight = this.getHeight(network) + 1;
+
+    this.transfers.push({ network, txHash, index: 0, address, asset, amount, blockHeight, sentAt: new Date() });
+    return { txHash, blockHeight };
+  }
+
+  mine(network: CryptoNetwork, blocks: number): number {
+    this.minedAhead.set(network, (this.minedAhead.get(network) ?? 0) + blocks);
+    return this.getHeight(network);
+  }
+
+  async getIncomingTransfers(network: CryptoNetwork, address: string, since: Date): Promise<ChainTransfer[]> {
+    const height = this.getHeight(network);
+
+    return this.transfers
+      .filter((t) => t.network === network && t.address === address && t.sentAt >= since)
+      .map(({ txHash, index, asset, amount, blockHeight }) => ({
+        txHash,
+        index,
+        address,
+        asset,
+        amount,
+        confirmations: Math.max(0, height - blockHeight + 1),
+      }));
+  }
+}
+
+export { MockChainProvider };
@@ -0,0 +1,70 @@
+import { formatUnits, type ChainProvider, type ChainTransfer } from './chain-provider.js';
+import { CRYPTO_NETWORKS, type CryptoNetwork } from '../crypto-networks.js';
+
+interface TronGridTransfer {
+  transaction_id: string;
+  to: string;
+  value: string;
+  type: string;
+  block_timestamp: number;
+  token_info: { address: string; decimals: number };
+}
+
+/**
+ * Tron TRC20 tokens via TronGrid. Only solidified (irreversible) transfers
+ * are requested, and those are reported as fully confirmed since TronGrid
+ * does not return block numbers for token transfers.
+ */
+class TronGridProvider implements ChainProvider {
+  readonly name = 'TRONGRID' as const;
+
+  constructor(
+    private readonly baseUrl: string,
+    private readonly apiKey: string
+  ) {}
+
+  supports(network: CryptoNetwork): boolean {
+    return network === 'TRC20';
+  }
+
+  async getIncomingTransfers(network: CryptoNetwork, address: string, since: Date): Promise<ChainTransfer[]> {
+    const { assets, confirmations } = CRYPTO_NETWORKS[network];
+    const tokensByContract = new Map(
+      Object.entries(assets).map(([symbol, asset]) => [asset.contract, symbol])
+    );
+
+    const params = new URLSearchParams({
+      only_to: 'true',
+      only_confirmed: 'true',
+      limit: '200',
+      min_timestamp: String(since.getTime()),
+    });
+    const response = await fetch(`${this.baseUrl}/v1/accounts/${address}/transactions/trc20?${params.toString()}`, {
+      headers: this.apiKey ? { 'TRON-PRO-API-KEY': this.apiKey } : {},
+    });
+    if (!response.ok) {
+      throw new Error(`TronGrid HTTP ${response.status}: ${response.statusText}`);
+    }
+
+    const { data } = await response.json() as { data?: TronGridTransfer[] };
+    const transfers: ChainTransfer[] = [];
+
+    (data ?? []).forEach((transfer) => {
+      const asset = tokensByContract.get(transfer.token_info.address);
+      if (!asset || transfer.type !== 'Transfer' || transfer.to !== address || BigInt(transfer.value) <= 0n) return;
+
+      transfers.push({
+        txHash: transfer.transaction_id,
+        index: 0,
+        address,
+        asset,
+        amount: formatUnits(transfer.value, transfer.token_info.decimals),
+        confirmations,
+      });
+    });
+
+    return transfers;
+  }
+}
+
+export { TronGridProvider };
@@ -2,10 +2,22 @@ import { query, queryOne, queryMany, transaction } from '../../config/db.js';
 import { logger } from '../../utils/logger.js';
 import { wsManager } from '../websocket/websocket.manager.js';
 import { emailService } from '../email/email.service.js';
+import { notificationService } from '../notification/notification.service.js';
+import { ledgerService } from '../ledger/ledger.service.js';
+import { bonusService } from '../bonus/bonus.service.js';
+import { tradingLimitsService } from '../limits/trading-limits.service.js';
+import { cryptoAddressService } from '../crypto-deposit/crypto-address.service.js';
+import { mobileMoneyGatewayService } from '../mobile-money/mobile-money-gateway.service.js';
+import { config } from '../../config/env.js';
+import { roundMoney, subtractMoney } from '../../utils/money.js';
 import { randomUUID } from 'crypto';
 
 export type DepositMethod = 'MOBILE_MONEY' | 'CRYPTO';
 export type DepositStatus = 'PENDING' | 'APPROVED' | 'REJECTED';
+export type CryptoReviewReason = 'UNDERPAID' | 'OVERPAID' | 'LATE' | 'BLOCKED';
+
+// A request whose payment arrives later than this is no longer matched to it
+const LATE_PAYMENT_MATCH_DAYS = 7;
 
 interface CreateMobileMoneyDeposit {
   userId: string;
@@ -18,12 +30,26 @@ interface CreateCryptoDeposit {
   userId: string;
   amount: number;
   cryptoCurrency: string;
+  network?: string;
+}
+
+interface ConfirmedCryptoTransfer {
+  transferId: string; // CryptoTransfer row, settled together with the deposit
+  userId: string;
+  network: string;
+  address: string;
+  asset: string;
+  cryptoAmount: string;
+  value: number; // In account currency at confirmation time
+  txHash: string;
 }
 
 interface DepositFilters {
   status?: DepositStatus;
   method?: DepositMethod;
   userId?: string;
+  // Only detected crypto payments waiting for an admin
+  review?: boolean;
   page?: number;
   limit?: number;
 }
@@ -37,8 +63,11 @@ interface DepositRow {
   phoneNumber: string | null;
   mobileProvider: string | null;
   cryptoCurrency: string | null;
+  network: string | null;
   walletAddress: string | null;
   transactionHash: string | null;
+  cryptoAmount: string | null;
+  reviewReason: CryptoReviewReason | null;
   adminNote: string | null;
   processedBy: string | null;
   processedAt: Date | null;
@@ -62,7 +91,24 @@ class DepositServiceError extends Error {
 }
 
 export class DepositService {
+  /**
+   * Deposits are blocked during a self-imposed time-out or self-exclusion
+   */
+  private async assertDepositsAllowed(userId: string): Promise<void> {
+    const block = await tradingLimitsService.getDepositBlockReason(userId);
+    if (block) {
+      throw new DepositServiceError(block, 403);
+    }
+  }
+
+  /**
+   * Mobile money deposit request. Where the operator is served by the
+   * gateway a push-payment request goes to the user's phone and the deposit
+   * settles from the provider's callback; otherwise it waits for an admin.
+   */
   async createMobileMoneyDeposit(data: CreateMobileMoneyDeposit) {
+    await this.assertDepositsAllowed(data.userId);
+
     const id = randomUUID();
     const now = new Date();
 
@@ -80,35 +126,67 @@ export class DepositService {
       [id, data.userId, data.amount, 'MOBILE_MONEY', 'PENDING', data.phoneNumber, data.mobileProvider, now, now]
     );
 
+    const paymentRequested = mobileMoneyGatewayService.handles(data.mobileProvider);
+
     logger.info('Mobile money deposit request created', {
       depositId: id,
       userId: data.userId,
       amount: data.amount,
       provider: data.mobileProvider,
+      paymentRequested,
     });
 
+    if (paymentRequested) {
+      const payment = await mobileMoneyGatewayService.requestCollection(id, {
+        userId: data.userId,
+        phoneNumber: data.phoneNumber,
+        mobileProvider: data.mobileProvider,
+        amount: data.amount,
+      });
+
+      if (payment.status === 'FAILED') {
+        const reason = payment.failureReason || 'Payment request refused';
+        await this.failMobileMoneyDeposit(id, reason);
+        throw new DepositServiceError(`Could not start the mobile money payment: ${reason}`, 502);
+      }
+    }
+
     return {
       ...result,
+      paymentRequested,
       user: result ? { id: data.userId, name: result.userName, email: result.userEmail } : null
     };
   }
 
+  /**
+   * Crypto deposit request. Where the network has personal addresses the
+   * request carries the user's address and is credited by the chain watcher
+   * once paid; otherwise it waits for an admin as before.
+   */
   async createCryptoDeposit(data: CreateCryptoDeposit) {
+    await this.assertDepositsAllowed(data.userId);
+
+    const network = cryptoAddressService.getEnabledNetwork(data.cryptoCurrency, data.network);
+    const depositAddress = network ? await cryptoAddressService.getAddressForUser(data.userId, network) : null;
+
     const id = randomUUID();
     const now = new Date();
 
     const result = await queryOne<DepositWithUser>(
       `WITH inserted AS (
         INSERT INTO "Deposit" (
-          id, "userId", amount, method, status, "cryptoCurrency",
+          id, "userId", amount, method, status, "cryptoCurrency", network, "walletAddress",
           "createdAt", "updatedAt"
-        ) VALUES ($1, $2, $3, $4, $5, $6, $7, $8)
+        ) VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10)
         RETURNING *
       )
       SELECT i.*, u.name as "userName", u.email as "userEmail"
       FROM inserted i
       JOIN "User" u ON u.id = i."userId"`,
-      [id, data.userId, data.amount, 'CRYPTO', 'PENDING', data.cryptoCurrency, now, now]
+      [
+        id, data.userId, data.amount, 'CRYPTO', 'PENDING', data.cryptoCurrency,
+        network ?? data.network ?? null, depositAddress?.address ?? null, now, now,
+      ]
     );
 
     logger.info('Crypto deposit request created', {
@@ -116,6 +194,8 @@ export class DepositService {
       userId: data.userId,
       amount: data.amount,
       currency: data.cryptoCurrency,
+      network,
+      autoCredit: !!depositAddress,
     });
 
     return {
@@ -178,6 +258,9 @@ export class DepositService {
       whereClause += ` AND d."userId" = $${paramIndex++}`;
       params.push(filters.userId);
     }
+    if (filters.review) {
+      whereClause += ` AND d.status = 'PENDING' AND d."reviewReason" IS NOT NULL`;
+    }
 
     const countParams = [...params];
     params.push(limit, offset);
@@ -234,10 +317,17 @@ export class DepositService {
         [adminNote, adminId, now, depositId]
       );
 
-      await client.query(
-        `UPDATE "User" SET "demoBalance" = "demoBalance" + $1, "updatedAt" = $2 WHERE id = $3`,
-        [deposit.amount, now, deposit.userId]
-      );
+      await ledgerService.post(client, {
+        userId: deposit.userId,
+        accountType: 'LIVE',
+        amount: deposit.amount,
+        reason: 'DEPOSIT',
+        sourceType: 'DEPOSIT',
+        sourceId: depositId,
+        description: `${deposit.method === 'CRYPTO' ? 'Crypto' : 'Mobile money'} deposit`,
+      });
+
+      await bonusService.grantDepositBonus(client, deposit.userId, depositId, deposit.amount);
 
       const userResult = await client.query<{ name: string; email: string }>(
         `SELECT name, email FROM "User" WHERE id = $1`,
@@ -249,24 +339,245 @@ export class DepositService {
 
     logger.info('Deposit approved', { depositId, userId: deposit.userId, amount: deposit.amount, approvedBy: adminId });
 
+    this.notifyApproved(deposit, updatedDeposit.user, adminNote);
+
+    return updatedDeposit;
+  }
+
+  private notifyApproved(deposit: DepositRow, user: { name: string; email: string } | undefined, adminNote?: string) {
     wsManager.notifyDepositUpdate(deposit.userId, {
-      id: depositId,
+      id: deposit.id,
       amount: deposit.amount,
       status: 'APPROVED',
       method: deposit.method,
       adminNote,
     });
 
-    if (updatedDeposit.user) {
-      emailService.sendDepositApproved(
-        updatedDeposit.user.email,
-        updatedDeposit.user.name,
-        deposit.amount,
-        deposit.method
-      ).catch(err => logger.error('Failed to send deposit approved email', { error: err }));
+    if (user) {
+      notificationService.isEmailEnabled(deposit.userId, 'DEPOSIT')
+        .then((enabled) => enabled && emailService.sendDepositApproved(
+          user.email,
+          user.name,
+          deposit.amount,
+          deposit.method
+        ))
+        .catch(err => logger.error('Failed to send deposit approved email', { error: err }));
     }
+  }
 
-    return updatedDeposit;
+  private notifyRejected(deposit: DepositRow, user: { name: string; email: string } | undefined, adminNote?: string) {
+    wsManager.notifyDepositUpdate(deposit.userId, {
+      id: deposit.id,
+      amount: deposit.amount,
+      status: 'REJECTED',
+      method: deposit.method,
+      adminNote,
+    });
+
+    if (user) {
+      notificationService.isEmailEnabled(deposit.userId, 'DEPOSIT')
+        .then((enabled) => enabled && emailService.sendDepositRejected(
+          user.email,
+          user.name,
+          deposit.amount,
+          adminNote
+        ))
+        .catch(err => logger.error('Failed to send deposit rejected email', { error: err }));
+    }
+  }
+
+  /**
+   * Settle a confirmed on-chain payment to a user's deposit address.
+   *
+   * The payment is matched to the user's latest open request for that
+   * address and coin. It is credited at once when it arrived within the
+   * request window for the requested value (within tolerance), or when there
+   * was no request at all. Underpayments, overpayments, late payments and
+   * payments from users whose deposits are blocked stay PENDING with a
+   * reviewReason for an admin to approve or reject. Returns null if the
+   * transfer was already settled.
+   */
+  async settleCryptoTransfer(transfer: ConfirmedCryptoTransfer): Promise<{
+    depositId: string;
+    reviewReason: CryptoReviewReason | null;
+  } | null> {
+    const now = new Date();
+    const windowStart = new Date(now.getTime() - config.cryptoDeposits.windowHours * 60 * 60 * 1000);
+    const lateCutoff = new Date(now.getTime() - LATE_PAYMENT_MATCH_DAYS * 24 * 60 * 60 * 1000);
+    const value = roundMoney(transfer.value);
+    const blockReason = await tradingLimitsService.getDepositBlockReason(transfer.userId);
+
+    const result = await transaction(async (client) => {
+      const claimed = await client.query(
+        `SELECT id FROM "CryptoTransfer" WHERE id = $1 AND status = 'CONFIRMING' FOR UPDATE`,
+        [transfer.transferId]
+      );
+      if (claimed.rowCount === 0) return null;
+
+      const request = (await client.query<DepositRow>(
+        `SELECT * FROM "Deposit"
+         WHERE "userId" = $1 AND method = 'CRYPTO' AND status = 'PENDING' AND "walletAddress" = $2
+           AND "cryptoCurrency" = $3 AND "transactionHash" IS NULL AND "createdAt" >= $4
+         ORDER BY "createdAt" DESC
+         LIMIT 1
+         FOR UPDATE`,
+        [transfer.userId, transfer.address, transfer.asset, lateCutoff]
+      )).rows[0];
+
+      let reviewReason: CryptoReviewReason | null = null;
+      if (blockReason) {
+        reviewReason = 'BLOCKED';
+      } else if (value < 0.01) {
+        reviewReason = 'UNDERPAID';
+      } else if (request) {
+        const tolerance = request.amount * config.cryptoDeposits.tolerancePercent / 100;
+        const difference = subtractMoney(value, request.amount);
+        if (request.createdAt < windowStart) reviewReason = 'LATE';
+        else if (difference < -tolerance) reviewReason = 'UNDERPAID';
+        else if (difference > tolerance) reviewReason = 'OVERPAID';
+      }
+
+      const status = reviewReason ? 'PENDING' : 'APPROVED';
+      const adminNote = reviewReason
+        ? `${reviewReason}: received ${transfer.cryptoAmount} ${transfer.asset} ($${value.toFixed(2)})` +
+          (request ? ` against a $${Number(request.amount).toFixed(2)} request` : '')
+        : null;
+
+      // The deposit amount is what actually arrived
+      const deposit = request
+        ? (await client.query<DepositRow>(
+            `UPDATE "Deposit" SET amount = $1, status = $2, network = $3, "transactionHash" = $4,
+               "cryptoAmount" = $5, "reviewReason" = $6, "adminNote" = $7,
+               "processedAt" = $8, "updatedAt" = $9
+             WHERE id = $10 RETURNING *`,
+            [value, status, transfer.network, transfer.txHash, transfer.cryptoAmount, reviewReason, adminNote,
+              reviewReason ? null : now, now, request.id]
+          )).rows[0]
+        : (await client.query<DepositRow>(
+            `INSERT INTO "Deposit" (
+              id, "userId", amount, method, status, "cryptoCurrency", network, "walletAddress",
+              "transactionHash", "cryptoAmount", "reviewReason", "adminNote", "processedAt", "createdAt", "updatedAt"
+            ) VALUES ($1, $2, $3, 'CRYPTO', $4, $5, $6, $7, $8, $9, $10, $11, $12, $13, $13)
+            RETURNING *`,
+            [randomUUID(), transfer.userId, value, status, transfer.asset, transfer.network, transfer.address,
+              transfer.txHash, transfer.cryptoAmount, reviewReason, adminNote, reviewReason ? null : now, now]
+          )).rows[0];
+
+      if (!reviewReason) {
+        await ledgerService.post(client, {
+          userId: transfer.userId,
+          accountType: 'LIVE',
+          amount: value,
+          reason: 'DEPOSIT',
+          sourceType: 'DEPOSIT',
+          sourceId: deposit.id,
+          description: `Crypto deposit (${transfer.asset} ${transfer.network})`,
+        });
+
+        await bonusService.grantDepositBonus(client, transfer.userId, deposit.id, value);
+      }
+
+      await client.query(
+        `UPDATE "CryptoTransfer" SET status = $1, "depositId" = $2, "settledAt" = $3 WHERE id = $4`,
+        [reviewReason ? 'REVIEW' : 'CREDITED', deposit.id, now, transfer.transferId]
+      );
+
+      const user = (await client.query<{ name: string; email: string }>(
+        `SELECT name, email FROM "User" WHERE id = $1`,
+        [transfer.userId]
+      )).rows[0];
+
+      return { deposit, reviewReason, user };
+    });
+
+    if (!result) return null;
+
+    const { deposit, reviewReason, user } = result;
+    if (reviewReason) {
+      logger.warn('Crypto deposit needs review', { depositId: deposit.id, userId: transfer.userId, reviewReason, txHash: transfer.txHash });
+    } else {
+      logger.info('Crypto deposit credited', { depositId: deposit.id, userId: transfer.userId, amount: value, txHash: transfer.txHash });
+      this.notifyApproved({ ...deposit, amount: value }, user);
+    }
+
+    return { depositId: deposit.id, reviewReason };
+  }
+
+  /**
+   * Credit a mobile money deposit whose push payment the provider reports as
+   * paid. Returns null if an admin already processed the deposit.
+   */
+  async completeMobileMoneyDeposit(depositId: string, providerReference: string | null) {
+    const now = new Date();
+
+    const result = await transaction(async (client) => {
+      const depositResult = await client.query<DepositRow>(
+        `UPDATE "Deposit" SET status = 'APPROVED', "transactionHash" = $1, "processedAt" = $2, "updatedAt" = $2
+         WHERE id = $3 AND status = 'PENDING' RETURNING *`,
+        [providerReference, now, depositId]
+      );
+      const deposit = depositResult.rows[0];
+      if (!deposit) return null;
+
+      await ledgerService.post(client, {
+        userId: deposit.userId,
+        accountType: 'LIVE',
+        amount: deposit.amount,
+        reason: 'DEPOSIT',
+        sourceType: 'DEPOSIT',
+        sourceId: depositId,
+        description: 'Mobile money deposit',
+      });
+
+      await bonusService.grantDepositBonus(client, deposit.userId, depositId, deposit.amount);
+
+      const userResult = await client.query<{ name: string; email: string }>(
+        `SELECT name, email FROM "User" WHERE id = $1`,
+        [deposit.userId]
+      );
+
+      return { deposit, user: userResult.rows[0] };
+    });
+
+    if (!result) return null;
+
+    logger.info('Mobile money deposit credited', {
+      depositId,
+      userId: result.deposit.userId,
+      amount: result.deposit.amount,
+      providerReference,
+    });
+
+    this.notifyApproved(result.deposit, result.user);
+
+    return result.deposit;
+  }
+
+  /**
+   * Reject a mobile money deposit whose push payment failed, expired or was
+   * declined. Returns null if the deposit is no longer pending.
+   */
+  async failMobileMoneyDeposit(depositId: string, reason: string) {
+    const now = new Date();
+
+    const deposit = await queryOne<DepositWithUser>(
+      `WITH updated AS (
+        UPDATE "Deposit" SET status = 'REJECTED', "adminNote" = $1, "processedAt" = $2, "updatedAt" = $2
+        WHERE id = $3 AND status = 'PENDING' RETURNING *
+      )
+      SELECT u.*, usr.name as "userName", usr.email as "userEmail"
+      FROM updated u
+      JOIN "User" usr ON usr.id = u."userId"`,
+      [reason, now, depositId]
+    );
+
+    if (!deposit) return null;
+
+    logger.info('Mobile money deposit failed', { depositId, userId: deposit.userId, reason });
+
+    this.notifyRejected(deposit, { name: deposit.userName!, email: deposit.userEmail! }, reason);
+
+    return deposit;
   }
 
   async rejectDeposit(depositId: string, adminId: string, adminNote?: string) {
@@ -293,22 +604,11 @@ export class DepositService {
 
     logger.info('Deposit rejected', { depositId, userId: deposit.userId, amount: deposit.amount, rejectedBy: adminId, reason: adminNote });
 
-    wsManager.notifyDepositUpdate(deposit.userId, {
-      id: depositId,
-      amount: deposit.amount,
-      status: 'REJECTED',
-      method: deposit.method,
-      adminNote,
-    });
-
-    if (updatedDeposit) {
-      emailService.sendDepositRejected(
-        updatedDeposit.userEmail!,
-        updatedDeposit.userName!,
-        deposit.amount,
-        adminNote
-      ).catch(err => logger.error('Failed to send deposit rejected email', { error: err }));
-    }
+    this.notifyRejected(
+      deposit,
+      updatedDeposit ? { name: updatedDeposit.userName!, email: updatedDeposit.userEmail! } : undefined,
+      adminNote
+    );
 
     return {
       ...updatedDeposit,
@@ -319,12 +619,14 @@ export class DepositService {
   async getDepositStats() {
     const result = await queryOne<{
       pending: string;
+      review: string;
       approved: string;
       rejected: string;
       totalVolume: number;
     }>(
       `SELECT
         COUNT(*) FILTER (WHERE status = 'PENDING') as pending,
+        COUNT(*) FILTER (WHERE status = 'PENDING' AND "reviewReason" IS NOT NULL) as review,
         COUNT(*) FILTER (WHERE status = 'APPROVED') as approved,
         COUNT(*) FILTER (WHERE status = 'REJECTED') as rejected,
         COALESCE(SUM(amount) FILTER (WHERE status = 'APPROVED'), 0) as "totalVolume"
@@ -333,6 +635,7 @@ export class DepositService {
 
     return {
       pending: parseInt(result?.pending || '0', 10),
+      review: parseInt(result?.review || '0', 10),
       approved: parseInt(result?.approved || '0', 10),
       rejected: parseInt(result?.rejected || '0', 10),
       totalVolume: Number(result?.totalVolume || 0),
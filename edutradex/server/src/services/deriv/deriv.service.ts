@@ -98,6 +98,10 @@ class DerivService {
     ['NZD/CAD', 'frxNZDCAD'],
     ['NZD/CHF', 'frxNZDCHF'],
 
+    // Crypto (failover source when the Binance feed stalls)
+    ['BTC/USD', 'cryBTCUSD'],
+    ['ETH/USD', 'cryETHUSD'],
+
     // OTC pairs (use same as forex)
     ['OTC_EUR/USD', 'frxEURUSD'],
     ['OTC_GBP/USD', 'frxGBPUSD'],
@@ -159,7 +163,11 @@ class DerivService {
     ['RANGE_200', 'RDBEAR'],
   ]);
 
-  constructor() {
+  /**
+   * Open the live connection. Called by the market data provider rather than
+   * on construction so replay mode never reaches out to Deriv.
+   */
+  public start(): void {
     if (config.deriv.useDerivApi) {
       this.connect();
     } else {
@@ -3,6 +3,7 @@ import type { Transporter } from 'nodemailer';
 import { query, queryOne, queryMany } from '../../config/db.js';
 import { logger } from '../../utils/logger.js';
 import { emailTemplates } from './email.templates.js';
+import { notificationService } from '../notification/notification.service.js';
 import { randomUUID } from 'crypto';
 
 interface EmailConfig {
@@ -39,7 +40,16 @@ class EmailService {
     logger.info('Email service initialized', { host: config.host, port: config.port });
   }
 
-  private async sendEmail(to: string, subject: string, html: string): Promise<boolean> {
+  isConfigured(): boolean {
+    return this.transporter !== null;
+  }
+
+  private async sendEmail(
+    to: string,
+    subject: string,
+    html: string,
+    attachments?: { filename: string; content: Buffer; contentType?: string }[]
+  ): Promise<boolean> {
     if (!this.transporter || !this.config) {
       logger.warn('Email not sent - service not configured', { to, subject });
       return false;
@@ -51,6 +61,7 @@ class EmailService {
         to,
         subject,
         html,
+        attachments,
       });
 
       logger.info('Email sent successfully', { to, subject });
@@ -131,18 +142,60 @@ class EmailService {
     return this.sendEmail(email, 'Deposit Request Update - OptigoBroker', html);
   }
 
+  // Send withdrawal under review email
+  async sendWithdrawalUnderReview(email: string, userName: string, amount: number): Promise<boolean> {
+    const html = emailTemplates.withdrawalUnderReview(userName, amount);
+    return this.sendEmail(email, 'Withdrawal Under Review - OptigoBroker', html);
+  }
+
   // Send withdrawal approved email
   async sendWithdrawalApproved(email: string, userName: string, amount: number, method: string): Promise<boolean> {
     const html = emailTemplates.withdrawalApproved(userName, amount, method);
     return this.sendEmail(email, 'Withdrawal Approved - OptigoBroker', html);
   }
 
+  // Send withdrawal payout sent email
+  async sendWithdrawalProcessing(
+    email: string,
+    userName: string,
+    amount: number,
+    method: string,
+    reference?: string | null
+  ): Promise<boolean> {
+    const html = emailTemplates.withdrawalProcessing(userName, amount, method, reference);
+    return this.sendEmail(email, 'Withdrawal Sent - OptigoBroker', html);
+  }
+
+  // Send withdrawal completed email
+  async sendWithdrawalCompleted(
+    email: string,
+    userName: string,
+    amount: number,
+    method: string,
+    reference?: string | null
+  ): Promise<boolean> {
+    const html = emailTemplates.withdrawalCompleted(userName, amount, method, reference);
+    return this.sendEmail(email, 'Withdrawal Completed - OptigoBroker', html);
+  }
+
+  // Send withdrawal failed email
+  async sendWithdrawalFailed(email: string, userName: string, amount: number, reason?: string): Promise<boolean> {
+    const html = emailTemplates.withdrawalFailed(userName, amount, reason);
+    return this.sendEmail(email, 'Withdrawal Failed - OptigoBroker', html);
+  }
+
   // Send withdrawal rejected email
   async sendWithdrawalRejected(email: string, userName: string, amount: number, reason?: string): Promise<boolean> {
     const html = emailTemplates.withdrawalRejected(userName, amount, reason);
     return this.sendEmail(email, 'Withdrawal Request Update - OptigoBroker', html);
   }
 
+  // Send withdrawal cancelled email
+  async sendWithdrawalCancelled(email: string, userName: string, amount: number): Promise<boolean> {
+    const html = emailTemplates.withdrawalCancelled(userName, amount);
+    return this.sendEmail(email, 'Withdrawal Cancelled - OptigoBroker', html);
+  }
+
   // Send referral signup notification
   async sendReferralSignup(referrerEmail: string, referrerName: string, newUserName: string, bonus: number): Promise<boolean> {
     const html = emailTemplates.referralSignup(referrerName, newUserName, bonus);
@@ -171,22 +224,27 @@ class EmailService {
     subject: string,
     content: string,
     adminId: string
-  ): Promise<{ sent: number; failed: number }> {
+  ): Promise<{ sent: number; failed: number; skipped: number; recipientIds: string[] }> {
     const users = await queryMany<{ id: string; email: string; name: string }>(
       `SELECT id, email, name FROM "User" WHERE "isActive" = true`
     );
+    const optedOut = await notificationService.getEmailOptOuts(users.map((user) => user.id), 'ADMIN_MESSAGE');
 
     let sent = 0;
     let failed = 0;
     const now = new Date();
 
     for (const user of users) {
+      const viaEmail = !optedOut.has(user.id);
       await query(
         `INSERT INTO "AdminMessage" (id, "senderId", "recipientId", subject, content, type, "sentViaEmail", "createdAt")
          VALUES ($1, $2, $3, $4, $5, $6, $7, $8)`,
-        [randomUUID(), adminId, user.id, subject, content, 'ANNOUNCEMENT', true, now]
+        [randomUUID(), adminId, user.id, subject, content, 'ANNOUNCEMENT', viaEmail, now]
       );
 
+      // Announcements still reach the notification center
+      if (!viaEmail) continue;
+
       const html = emailTemplates.adminMessage(user.name, subject, content);
       const success = await this.sendEmail(user.email, subject, html);
 
@@ -197,8 +255,8 @@ class EmailService {
       }
     }
 
-    logger.info('Bulk email completed', { sent, failed, total: users.length });
-    return { sent, failed };
+    logger.info('Bulk email completed', { sent, failed, skipped: optedOut.size, total: users.length });
+    return { sent, failed, skipped: optedOut.size, recipientIds: users.map((user) => user.id) };
   }
 
   // Send email verified confirmation
@@ -447,6 +505,33 @@ class EmailService {
     const html = emailTemplates.accountLocked(userName, lockDuration, reason);
     return this.sendEmail(email, 'Account Security Alert - OptigoBroker', html);
   }
+
+  // Send a triggered price alert
+  async sendPriceAlert(
+    email: string,
+    userName: string,
+    symbol: string,
+    message: string,
+    price: number,
+    note?: string | null
+  ): Promise<boolean> {
+    const html = emailTemplates.priceAlert(userName, symbol, message, price, note);
+    return this.sendEmail(email, `Price Alert: ${symbol} - OptigoBroker`, html);
+  }
+
+  // Send the monthly account statement with the PDF attached
+  async sendAccountStatement(
+    email: string,
+    userName: string,
+    periodLabel: string,
+    pdf: Buffer,
+    filename: string
+  ): Promise<boolean> {
+    const html = emailTemplates.accountStatement(userName, periodLabel);
+    return this.sendEmail(email, `Your ${periodLabel} Account Statement - OptigoBroker`, html, [
+      { filename, content: pdf, contentType: 'application/pdf' },
+    ]);
+  }
 }
 
 export const emailService = new EmailService();
@@ -116,6 +116,17 @@ export const emailTemplates = {
     `);
   },
 
+  withdrawalUnderReview: (userName: string, amount: number): string => {
+    return wrapTemplate(`
+      <h2>Hello ${userName},</h2>
+      <div class="info">
+        <strong>Your withdrawal is being reviewed.</strong>
+      </div>
+      <p>Our team has started reviewing your withdrawal request for <strong>$${amount.toFixed(2)}</strong>.</p>
+      <p>We will let you know as soon as it is approved. You can still cancel the request from your dashboard until then.</p>
+    `);
+  },
+
   withdrawalApproved: (userName: string, amount: number, method: string): string => {
     return wrapTemplate(`
       <h2>Hello ${userName},</h2>
@@ -123,17 +134,70 @@ export const emailTemplates = {
         <strong>Your withdrawal has been approved!</strong>
       </div>
       <div style="text-align: center; padding: 20px; background-color: #f8f9fa; border-radius: 8px; margin: 20px 0;">
-        <p style="margin: 0; color: #666;">Amount Withdrawn</p>
+        <p style="margin: 0; color: #666;">Amount Approved</p>
         <p class="amount">$${amount.toFixed(2)}</p>
         <p style="margin: 0; color: #666;">via ${method}</p>
       </div>
       <div class="info">
         <strong>Processing Time:</strong> Mobile Money: 5-30 min | Crypto: 10-60 min | Bank: 1-3 days
       </div>
+      <p>We will email you again once the payment has been sent.</p>
+    `);
+  },
+
+  withdrawalProcessing: (userName: string, amount: number, method: string, reference?: string | null): string => {
+    const referenceHtml = reference ? `<div class="info"><strong>Reference:</strong> ${reference}</div>` : '';
+    return wrapTemplate(`
+      <h2>Hello ${userName},</h2>
+      <div class="info">
+        <strong>Your withdrawal is on its way.</strong>
+      </div>
+      <p>We have sent <strong>$${amount.toFixed(2)}</strong> via ${method}. It usually arrives within minutes, depending on the network.</p>
+      ${referenceHtml}
+    `);
+  },
+
+  withdrawalCompleted: (userName: string, amount: number, method: string, reference?: string | null): string => {
+    const referenceHtml = reference ? `<div class="info"><strong>Reference:</strong> ${reference}</div>` : '';
+    return wrapTemplate(`
+      <h2>Hello ${userName},</h2>
+      <div class="success">
+        <strong>Your withdrawal is complete!</strong>
+      </div>
+      <div style="text-align: center; padding: 20px; background-color: #f8f9fa; border-radius: 8px; margin: 20px 0;">
+        <p style="margin: 0; color: #666;">Amount Withdrawn</p>
+        <p class="amount">$${amount.toFixed(2)}</p>
+        <p style="margin: 0; color: #666;">via ${method}</p>
+      </div>
+      ${referenceHtml}
       <p>Thank you for trading with OptigoBroker!</p>
     `);
   },
 
+  withdrawalFailed: (userName: string, amount: number, reason?: string): string => {
+    const reasonHtml = reason ? `<div class="info"><strong>Reason:</strong> ${reason}</div>` : '';
+    return wrapTemplate(`
+      <h2>Hello ${userName},</h2>
+      <div class="warning">
+        <strong>Your withdrawal payment failed.</strong>
+      </div>
+      <p>We could not complete the payment of <strong>$${amount.toFixed(2)}</strong>.</p>
+      ${reasonHtml}
+      <p>The full amount has been returned to your trading account. Please check your payout details and try again, or contact support for assistance.</p>
+    `);
+  },
+
+  withdrawalCancelled: (userName: string, amount: number): string => {
+    return wrapTemplate(`
+      <h2>Hello ${userName},</h2>
+      <div class="info">
+        <strong>Your withdrawal request was cancelled.</strong>
+      </div>
+      <p>You cancelled your withdrawal request for <strong>$${amount.toFixed(2)}</strong>. The amount is back in your trading account.</p>
+      <p>If you did not do this, please change your password and contact support immediately.</p>
+    `);
+  },
+
   withdrawalRejected: (userName: string, amount: number, reason?: string): string => {
     const reasonHtml = reason ? `<div class="info"><strong>Reason:</strong> ${reason}</div>` : '';
     return wrapTemplate(`
@@ -518,4 +582,30 @@ export const emailTemplates = {
       <p>Stay safe!<br><strong>The OptigoBroker Security Team</strong></p>
     `);
   },
+
+  priceAlert: (userName: string, symbol: string, message: string, price: number, note?: string | null): string => {
+    return wrapTemplate(`
+      <h2>Price Alert: ${symbol}</h2>
+      <p>Hello ${userName},</p>
+      <div class="info">
+        <strong>${message}</strong>
+        <p style="margin: 10px 0 0 0;">Price when triggered: <span class="highlight">${price}</span></p>
+        ${note ? `<p style="margin: 10px 0 0 0;">Your note: ${note}</p>` : ''}
+      </div>
+      <p>You can manage your alerts from the trading platform.</p>
+      <p>Best regards,<br><strong>The OptigoBroker Team</strong></p>
+    `);
+  },
+
+  accountStatement: (userName: string, periodLabel: string): string => {
+    return wrapTemplate(`
+      <h2>Hello ${userName},</h2>
+      <p>Your account statement for <span class="highlight">${periodLabel}</span> is attached as a PDF.</p>
+      <div class="info">
+        It lists your opening and closing balance, deposits, withdrawals, trades and commissions for the month.
+      </div>
+      <p>You can download statements for any period from your transaction history, and turn these emails off in your notification settings.</p>
+      <p>Best regards,<br><strong>The OptigoBroker Team</strong></p>
+    `);
+  },
 };
@@ -366,11 +366,11 @@ class BrokerAnalyticsService {
       });
 
       // Calculate metrics
-      const currentRevenue = recentSnapshots.reduce((sum, s) => sum + s.grossTradingRevenue, 0);
-      const currentProfit = recentSnapshots.reduce((sum, s) => sum + s.netProfit, 0);
-      const currentVolume = recentSnapshots.reduce((sum, s) => sum + s.totalTradeVolume, 0);
-      const previousRevenue = previousSnapshots.reduce((sum, s) => sum + s.grossTradingRevenue, 0);
-      const previousVolume = previousSnapshots.reduce((sum, s) => sum + s.totalTradeVolume, 0);
+      const currentRevenue = recentSnapshots.reduce((sum, s) => sum + Number(s.grossTradingRevenue), 0);
+      const currentProfit = recentSnapshots.reduce((sum, s) => sum + Number(s.netProfit), 0);
+      const currentVolume = recentSnapshots.reduce((sum, s) => sum + Number(s.totalTradeVolume), 0);
+      const previousRevenue = previousSnapshots.reduce((sum, s) => sum + Number(s.grossTradingRevenue), 0);
+      const previousVolume = previousSnapshots.reduce((sum, s) => sum + Number(s.totalTradeVolume), 0);
 
       // 1. Profit Margin Score (25%)
       const profitMargin = currentRevenue > 0 ? (currentProfit / currentRevenue) * 100 : 0;
@@ -378,7 +378,7 @@ class BrokerAnalyticsService {
       const profitMarginScore = Math.min(100, Math.max(0, (profitMargin / profitMarginThreshold) * 100));
 
       // 2. Cash Flow Score (25%)
-      const netDeposits = recentSnapshots.reduce((sum, s) => sum + s.netDeposits, 0);
+      const netDeposits = recentSnapshots.reduce((sum, s) => sum + Number(s.netDeposits), 0);
       const cashFlowScore = netDeposits >= 0 ? Math.min(100, 50 + (netDeposits / 10000) * 50) : Math.max(0, 50 + (netDeposits / 10000) * 50);
 
       // 3. Volume Growth Score (20%)
@@ -393,8 +393,8 @@ class BrokerAnalyticsService {
 
       // 5. Risk Exposure Score (15%) - Inverse of exposure
       const realTimeMetrics = await prisma.brokerRealTimeMetrics.findFirst({ where: { isActive: true } });
-      const exposure = Math.abs(realTimeMetrics?.netExposure || 0);
-      const exposureThreshold = realTimeMetrics?.exposureAlertThreshold || 100000;
+      const exposure = Math.abs(Number(realTimeMetrics?.netExposure || 0));
+      const exposureThreshold = Number(realTimeMetrics?.exposureAlertThreshold || 100000);
       const exposureRatio = exposure / exposureThreshold;
       const riskScore = Math.max(0, 100 - exposureRatio * 100);
       const riskLevel = exposureRatio < 0.3 ? 'LOW' : exposureRatio < 0.6 ? 'MEDIUM' : exposureRatio < 0.9 ? 'HIGH' : 'CRITICAL';
@@ -465,7 +465,7 @@ class BrokerAnalyticsService {
         where: { month_year: { month, year } },
       });
 
-      const currentProfit = snapshots.reduce((sum, s) => sum + s.netProfit, 0);
+      const currentProfit = snapshots.reduce((sum, s) => sum + Number(s.netProfit), 0);
       const targetProfit = budgetTargets?.profitTarget || 0;
       const currentDailyAvg = daysPassed > 0 ? currentProfit / daysPassed : 0;
 
@@ -513,10 +513,10 @@ class BrokerAnalyticsService {
       });
 
       // Calculate available cash (simplified: net deposits - operating costs)
-      const totalDeposits = snapshots.reduce((sum, s) => sum + s.totalDeposits, 0);
-      const totalWithdrawals = snapshots.reduce((sum, s) => sum + s.totalWithdrawals, 0);
-      const operatingCosts = snapshots.reduce((sum, s) => sum + s.operatingCosts, 0);
-      const affiliateCosts = snapshots.reduce((sum, s) => sum + s.totalAffiliateCommissions, 0);
+      const totalDeposits = snapshots.reduce((sum, s) => sum + Number(s.totalDeposits), 0);
+      const totalWithdrawals = snapshots.reduce((sum, s) => sum + Number(s.totalWithdrawals), 0);
+      const operatingCosts = snapshots.reduce((sum, s) => sum + Number(s.operatingCosts), 0);
+      const affiliateCosts = snapshots.reduce((sum, s) => sum + Number(s.totalAffiliateCommissions), 0);
 
       const availableCash = totalDeposits - totalWithdrawals - operatingCosts - affiliateCosts;
       const monthlyBurnRate = (operatingCosts + affiliateCosts) / 3; // Average monthly
@@ -550,15 +550,15 @@ class BrokerAnalyticsService {
         where: { date: { gte: dateRange.start, lte: dateRange.end } },
       });
 
-      const totalRevenue = snapshots.reduce((sum, s) => sum + s.grossTradingRevenue, 0);
-      const totalProfit = snapshots.reduce((sum, s) => sum + s.netProfit, 0);
-      const totalLost = snapshots.reduce((sum, s) => sum + s.totalLostAmount, 0);
-      const totalPayouts = snapshots.reduce((sum, s) => sum + s.totalPayoutsPaid, 0);
-      const affiliateCosts = snapshots.reduce((sum, s) => sum + s.totalAffiliateCommissions, 0);
-      const newDepositors = snapshots.reduce((sum, s) => sum + s.newDepositors, 0);
+      const totalRevenue = snapshots.reduce((sum, s) => sum + Number(s.grossTradingRevenue), 0);
+      const totalProfit = snapshots.reduce((sum, s) => sum + Number(s.netProfit), 0);
+      const totalLost = snapshots.reduce((sum, s) => sum + Number(s.totalLostAmount), 0);
+      const totalPayouts = snapshots.reduce((sum, s) => sum + Number(s.totalPayoutsPaid), 0);
+      const affiliateCosts = snapshots.reduce((sum, s) => sum + Number(s.totalAffiliateCommissions), 0);
+      const newDepositors = snapshots.reduce((sum, s) => sum + Number(s.newDepositors), 0);
 
       // ROI = (Net Profit / Total Investment) * 100
-      const totalInvestment = affiliateCosts + snapshots.reduce((sum, s) => sum + s.operatingCosts, 0);
+      const totalInvestment = affiliateCosts + snapshots.reduce((sum, s) => sum + Number(s.operatingCosts), 0);
       const roi = totalInvestment > 0 ? (totalProfit / totalInvestment) * 100 : 0;
 
       // Profit Factor = Gross Profit / Gross Loss
@@ -571,7 +571,7 @@ class BrokerAnalyticsService {
       const customerAcquisitionCost = newDepositors > 0 ? affiliateCosts / newDepositors : 0;
 
       // LTV = Average Revenue Per User * Average Lifespan (simplified)
-      const activeTraders = snapshots.reduce((sum, s) => sum + s.activeTraders, 0) / Math.max(1, snapshots.length);
+      const activeTraders = snapshots.reduce((sum, s) => sum + Number(s.activeTraders), 0) / Math.max(1, snapshots.length);
       const lifetimeValue = activeTraders > 0 ? (totalRevenue / activeTraders) * 12 : 0; // Annualized
 
       // LTV:CAC Ratio
@@ -616,8 +616,8 @@ class BrokerAnalyticsService {
           COUNT(*) FILTER (WHERE t.result = 'WON')::bigint as "wonTrades",
           COUNT(*) FILTER (WHERE t.result = 'LOST')::bigint as "lostTrades",
           COALESCE(SUM(t.amount), 0) as "totalVolume",
-          COALESCE(SUM(CASE WHEN t.result = 'LOST' THEN t.amount ELSE 0 END), 0) as "brokerGain",
-          COALESCE(SUM(CASE WHEN t.result = 'WON' THEN t.amount * t."payoutPercent" / 100 ELSE 0 END), 0) as "payoutsCost"
+          COALESCE(SUM(CASE WHEN t.result = 'LOST' THEN t.amount WHEN t.result = 'CLOSED_EARLY' THEN GREATEST(-t.profit, 0) ELSE 0 END), 0) as "brokerGain",
+          COALESCE(SUM(CASE WHEN t.result = 'WON' THEN t.amount * t."payoutPercent" / 100 WHEN t.result = 'CLOSED_EARLY' THEN GREATEST(t.profit, 0) ELSE 0 END), 0) as "payoutsCost"
         FROM "Trade" t
         JOIN "User" u ON u.id = t."userId"
         WHERE t.status = 'CLOSED'
@@ -627,7 +627,7 @@ class BrokerAnalyticsService {
           AND t."closedAt" >= ${dateRange.start}
           AND t."closedAt" < ${dateRange.end}
         GROUP BY t.market
-        ORDER BY (COALESCE(SUM(CASE WHEN t.result = 'LOST' THEN t.amount ELSE 0 END), 0) - COALESCE(SUM(CASE WHEN t.result = 'WON' THEN t.amount * t."payoutPercent" / 100 ELSE 0 END), 0)) DESC
+        ORDER BY (COALESCE(SUM(CASE WHEN t.result = 'LOST' THEN t.amount WHEN t.result = 'CLOSED_EARLY' THEN GREATEST(-t.profit, 0) ELSE 0 END), 0) - COALESCE(SUM(CASE WHEN t.result = 'WON' THEN t.amount * t."payoutPercent" / 100 WHEN t.result = 'CLOSED_EARLY' THEN GREATEST(t.profit, 0) ELSE 0 END), 0)) DESC
       `;
 
       const totalRevenue = result.reduce((sum, r) => sum + (r.brokerGain - r.payoutsCost), 0);
@@ -690,8 +690,8 @@ class BrokerAnalyticsService {
           COUNT(*) FILTER (WHERE t.result = 'WON')::bigint as "wonTrades",
           COUNT(*) FILTER (WHERE t.result = 'LOST')::bigint as "lostTrades",
           COALESCE(SUM(t.amount), 0) as "totalVolume",
-          COALESCE(SUM(CASE WHEN t.result = 'LOST' THEN t.amount ELSE 0 END), 0) as "brokerGain",
-          COALESCE(SUM(CASE WHEN t.result = 'WON' THEN t.amount * t."payoutPercent" / 100 ELSE 0 END), 0) as "payoutsCost"
+          COALESCE(SUM(CASE WHEN t.result = 'LOST' THEN t.amount WHEN t.result = 'CLOSED_EARLY' THEN GREATEST(-t.profit, 0) ELSE 0 END), 0) as "brokerGain",
+          COALESCE(SUM(CASE WHEN t.result = 'WON' THEN t.amount * t."payoutPercent" / 100 WHEN t.result = 'CLOSED_EARLY' THEN GREATEST(t.profit, 0) ELSE 0 END), 0) as "payoutsCost"
         FROM "Trade" t
         JOIN "User" u ON u.id = t."userId"
         WHERE t.status = 'CLOSED'
@@ -701,7 +701,7 @@ class BrokerAnalyticsService {
           AND t."closedAt" >= ${dateRange.start}
           AND t."closedAt" < ${dateRange.end}
         GROUP BY t.symbol, t.market
-        ORDER BY (COALESCE(SUM(CASE WHEN t.result = 'LOST' THEN t.amount ELSE 0 END), 0) - COALESCE(SUM(CASE WHEN t.result = 'WON' THEN t.amount * t."payoutPercent" / 100 ELSE 0 END), 0)) DESC
+        ORDER BY (COALESCE(SUM(CASE WHEN t.result = 'LOST' THEN t.amount WHEN t.result = 'CLOSED_EARLY' THEN GREATEST(-t.profit, 0) ELSE 0 END), 0) - COALESCE(SUM(CASE WHEN t.result = 'WON' THEN t.amount * t."payoutPercent" / 100 WHEN t.result = 'CLOSED_EARLY' THEN GREATEST(t.profit, 0) ELSE 0 END), 0)) DESC
         LIMIT ${limit}
       `;
 
@@ -739,14 +739,14 @@ class BrokerAnalyticsService {
       });
 
       // Aggregate trading metrics
-      const grossTradeAmount = snapshots.reduce((sum, s) => sum + s.totalLostAmount, 0);
-      const payoutsPaid = snapshots.reduce((sum, s) => sum + s.totalPayoutsPaid, 0);
+      const grossTradeAmount = snapshots.reduce((sum, s) => sum + Number(s.totalLostAmount), 0);
+      const payoutsPaid = snapshots.reduce((sum, s) => sum + Number(s.totalPayoutsPaid), 0);
       const netTradingRevenue = grossTradeAmount - payoutsPaid;
 
       // Affiliate costs
-      const signupBonuses = snapshots.reduce((sum, s) => sum + s.signupBonusCosts, 0);
-      const depositCommissions = snapshots.reduce((sum, s) => sum + s.depositCommissionCosts, 0);
-      const tradeCommissions = snapshots.reduce((sum, s) => sum + s.tradeCommissionCosts, 0);
+      const signupBonuses = snapshots.reduce((sum, s) => sum + Number(s.signupBonusCosts), 0);
+      const depositCommissions = snapshots.reduce((sum, s) => sum + Number(s.depositCommissionCosts), 0);
+      const tradeCommissions = snapshots.reduce((sum, s) => sum + Number(s.tradeCommissionCosts), 0);
       const totalAffiliateCosts = signupBonuses + depositCommissions + tradeCommissions;
 
       // Operating expenses by category
@@ -761,7 +761,7 @@ class BrokerAnalyticsService {
         amount: round2(amount),
       }));
 
-      const totalOperating = snapshots.reduce((sum, s) => sum + s.operatingCosts, 0) +
+      const totalOperating = snapshots.reduce((sum, s) => sum + Number(s.operatingCosts), 0) +
         expenses.reduce((sum, e) => sum + e.amount, 0);
 
       // Calculate totals
@@ -781,8 +781,8 @@ class BrokerAnalyticsService {
         where: { date: { gte: previousStart, lte: previousEnd } },
       });
 
-      const previousNetProfit = previousSnapshots.reduce((sum, s) => sum + s.netProfit, 0);
-      const previousRevenue = previousSnapshots.reduce((sum, s) => sum + s.grossTradingRevenue, 0);
+      const previousNetProfit = previousSnapshots.reduce((sum, s) => sum + Number(s.netProfit), 0);
+      const previousRevenue = previousSnapshots.reduce((sum, s) => sum + Number(s.grossTradingRevenue), 0);
       const previousProfitMargin = previousRevenue > 0 ? (previousNetProfit / previousRevenue) * 100 : 0;
 
       return {
@@ -1059,7 +1059,7 @@ class BrokerAnalyticsService {
       // BATCH QUERY 3: Get all withdrawal aggregates
       const withdrawalAggregates = await prisma.withdrawal.groupBy({
         by: ['userId'],
-        where: { userId: { in: userIds }, status: 'APPROVED' },
+        where: { userId: { in: userIds }, status: { in: ['APPROVED', 'PROCESSING', 'COMPLETED'] } },
         _sum: { amount: true },
       });
       const withdrawalMap = new Map(withdrawalAggregates.map(w => [w.userId, w]));
@@ -1195,10 +1195,10 @@ class BrokerAnalyticsService {
           firstDepositDate: firstDeposit?.firstDepositDate || null,
           firstTradeDate: activity?.firstTradeDate || null,
           lastActiveDate: activity?.lastTradeDate || null,
-          totalDeposits: deposits?._sum.amount || 0,
-          totalWithdrawals: withdrawals?._sum.amount || 0,
+          totalDeposits: Number(deposits?._sum.amount || 0),
+          totalWithdrawals: Number(withdrawals?._sum.amount || 0),
           totalTrades: trades?._count || 0,
-          totalVolume: trades?._sum.amount || 0,
+          totalVolume: Number(trades?._sum.amount || 0),
           netRevenue: 0,
           day30Active: retention?.day30Active ?? false,
           day60Active: retention?.day60Active ?? false,
@@ -1379,12 +1379,12 @@ class BrokerAnalyticsService {
 
       snapshots.forEach(s => {
         const month = s.date.getMonth() + 1;
-        monthlyData[month].revenues.push(s.grossTradingRevenue);
-        monthlyData[month].volumes.push(s.totalTradeVolume);
+        monthlyData[month].revenues.push(Number(s.grossTradingRevenue));
+        monthlyData[month].volumes.push(Number(s.totalTradeVolume));
         monthlyData[month].trades.push(s.totalTrades);
       });
 
-      const overallAvgRevenue = snapshots.reduce((sum, s) => sum + s.grossTradingRevenue, 0) / Math.max(1, snapshots.length);
+      const overallAvgRevenue = snapshots.reduce((sum, s) => sum + Number(s.grossTradingRevenue), 0) / Math.max(1, snapshots.length);
 
       const monthly = Object.entries(monthlyData).map(([month, data]) => {
         const avgRevenue = data.revenues.length > 0 ? data.revenues.reduce((a, b) => a + b, 0) / data.revenues.length : 0;
@@ -1408,7 +1408,7 @@ class BrokerAnalyticsService {
 
       snapshots.forEach(s => {
         const dayOfWeek = s.date.getDay();
-        dayOfWeekData[dayOfWeek].revenues.push(s.grossTradingRevenue);
+        dayOfWeekData[dayOfWeek].revenues.push(Number(s.grossTradingRevenue));
         dayOfWeekData[dayOfWeek].trades.push(s.totalTrades);
       });
 
@@ -1494,7 +1494,7 @@ class BrokerAnalyticsService {
       // Prepare data for linear regression
       const regressionData = snapshots.map((s, i) => ({
         x: i,
-        y: s.grossTradingRevenue,
+        y: Number(s.grossTradingRevenue),
       }));
 
       const { slope, intercept, rSquared, standardError, meanX } = linearRegression(regressionData);
@@ -1558,7 +1558,7 @@ class BrokerAnalyticsService {
       const projectedRevenue = monthEndForecasts.reduce((sum, f) => sum + f.expected, 0);
 
       // Profit margin from recent data
-      const avgProfitMargin = snapshots.reduce((sum, s) => sum + (s.netProfit / Math.max(1, s.grossTradingRevenue)), 0) / snapshots.length;
+      const avgProfitMargin = snapshots.reduce((sum, s) => sum + (Number(s.netProfit) / Math.max(1, Number(s.grossTradingRevenue))), 0) / snapshots.length;
       const projectedProfit = projectedRevenue * avgProfitMargin;
 
       return {
@@ -1595,7 +1595,7 @@ class BrokerAnalyticsService {
         where: { date: { gte: ninetyDaysAgo } },
       });
 
-      const historicalRevenues = snapshots.map(s => s.grossTradingRevenue);
+      const historicalRevenues = snapshots.map(s => Number(s.grossTradingRevenue));
       const result = monteCarloSimulation(historicalRevenues, daysAhead, iterations);
 
       return {
@@ -1670,11 +1670,11 @@ class BrokerAnalyticsService {
         where: { date: { gte: monthStart, lte: today < monthEnd ? today : monthEnd } },
       });
 
-      const currentRevenue = snapshots.reduce((sum, s) => sum + s.grossTradingRevenue, 0);
-      const currentProfit = snapshots.reduce((sum, s) => sum + s.netProfit, 0);
-      const currentVolume = snapshots.reduce((sum, s) => sum + s.totalTradeVolume, 0);
-      const currentNewUsers = snapshots.reduce((sum, s) => sum + s.newRegistrations, 0);
-      const currentDeposits = snapshots.reduce((sum, s) => sum + s.totalDeposits, 0);
+      const currentRevenue = snapshots.reduce((sum, s) => sum + Number(s.grossTradingRevenue), 0);
+      const currentProfit = snapshots.reduce((sum, s) => sum + Number(s.netProfit), 0);
+      const currentVolume = snapshots.reduce((sum, s) => sum + Number(s.totalTradeVolume), 0);
+      const currentNewUsers = snapshots.reduce((sum, s) => sum + Number(s.newRegistrations), 0);
+      const currentDeposits = snapshots.reduce((sum, s) => sum + Number(s.totalDeposits), 0);
 
       // Calculate projections
       const dailyAvgRevenue = daysPassed > 0 ? currentRevenue / daysPassed : 0;
@@ -1783,7 +1783,7 @@ class BrokerAnalyticsService {
           u.email as "userEmail",
           COALESCE(SUM(t.amount), 0) as "totalVolume",
           COUNT(*)::bigint as "totalTrades",
-          COALESCE(SUM(CASE WHEN t.result = 'LOST' THEN t.amount ELSE -(t.amount * t."payoutPercent" / 100) END), 0) as "totalRevenue"
+          COALESCE(SUM(CASE WHEN t.result = 'LOST' THEN t.amount WHEN t.result = 'CLOSED_EARLY' THEN -t.profit WHEN t.result = 'DRAW' THEN 0 ELSE -(t.amount * t."payoutPercent" / 100) END), 0) as "totalRevenue"
         FROM "Trade" t
         JOIN "User" u ON u.id = t."userId"
         WHERE t.status = 'CLOSED'
@@ -1911,17 +1911,17 @@ class BrokerAnalyticsService {
       });
 
       // Operating Activities
-      const tradingRevenue = snapshots.reduce((sum, s) => sum + s.totalLostAmount, 0);
-      const tradingPayouts = snapshots.reduce((sum, s) => sum + s.totalPayoutsPaid, 0);
+      const tradingRevenue = snapshots.reduce((sum, s) => sum + Number(s.totalLostAmount), 0);
+      const tradingPayouts = snapshots.reduce((sum, s) => sum + Number(s.totalPayoutsPaid), 0);
       const netTradingCash = tradingRevenue - tradingPayouts;
 
-      const affiliateCommissions = snapshots.reduce((sum, s) => sum + s.totalAffiliateCommissions, 0);
-      const operatingExpenses = snapshots.reduce((sum, s) => sum + s.operatingCosts, 0);
+      const affiliateCommissions = snapshots.reduce((sum, s) => sum + Number(s.totalAffiliateCommissions), 0);
+      const operatingExpenses = snapshots.reduce((sum, s) => sum + Number(s.operatingCosts), 0);
       const netOperatingCash = netTradingCash - affiliateCommissions - operatingExpenses;
 
       // Financing Activities
-      const customerDeposits = snapshots.reduce((sum, s) => sum + s.totalDeposits, 0);
-      const customerWithdrawals = snapshots.reduce((sum, s) => sum + s.totalWithdrawals, 0);
+      const customerDeposits = snapshots.reduce((sum, s) => sum + Number(s.totalDeposits), 0);
+      const customerWithdrawals = snapshots.reduce((sum, s) => sum + Number(s.totalWithdrawals), 0);
       const netFinancingCash = customerDeposits - customerWithdrawals;
 
       // Get previous month's closing balance
@@ -2387,8 +2387,8 @@ class BrokerAnalyticsService {
         if (!monthlyData[month]) {
           monthlyData[month] = { revenues: [], volumes: [], trades: [] };
         }
-        monthlyData[month].revenues.push(snapshot._sum?.grossTradingRevenue || 0);
-        monthlyData[month].volumes.push(snapshot._sum?.totalTradeVolume || 0);
+        monthlyData[month].revenues.push(Number(snapshot._sum?.grossTradingRevenue || 0));
+        monthlyData[month].volumes.push(Number(snapshot._sum?.totalTradeVolume || 0));
         monthlyData[month].trades.push(snapshot._sum?.totalTrades || 0);
       }
 
@@ -2435,8 +2435,8 @@ class BrokerAnalyticsService {
         if (!dayOfWeekData[dayOfWeek]) {
           dayOfWeekData[dayOfWeek] = { revenues: [], volumes: [], trades: [] };
         }
-        dayOfWeekData[dayOfWeek].revenues.push(snapshot._sum?.grossTradingRevenue || 0);
-        dayOfWeekData[dayOfWeek].volumes.push(snapshot._sum?.totalTradeVolume || 0);
+        dayOfWeekData[dayOfWeek].revenues.push(Number(snapshot._sum?.grossTradingRevenue || 0));
+        dayOfWeekData[dayOfWeek].volumes.push(Number(snapshot._sum?.totalTradeVolume || 0));
         dayOfWeekData[dayOfWeek].trades.push(snapshot._sum?.totalTrades || 0);
       }
 
@@ -1,5 +1,6 @@
 import { query, queryOne, queryMany, transaction } from '../../config/db.js';
 import { logger } from '../../utils/logger.js';
+import { addMoney, percentOf } from '../../utils/money.js';
 import { randomUUID } from 'crypto';
 import { wsManager } from '../websocket/websocket.manager.js';
 
@@ -17,6 +18,7 @@ interface DailySnapshot {
   totalTrades: number;
   wonTrades: number;
   lostTrades: number;
+  drawTrades: number;
   brokerWinRate: number;
   avgPayoutPercent: number;
   totalWonAmount: number;
@@ -27,6 +29,9 @@ interface DailySnapshot {
   depositCommissionCosts: number;
   tradeCommissionCosts: number;
   affiliateCount: number;
+  bonusCosts: number;
+  bonusesGranted: number;
+  bonusesForfeited: number;
   netRevenue: number;
   operatingCosts: number;
   netProfit: number;
@@ -66,6 +71,7 @@ interface MonthlyReport {
   totalRevenue: number;
   totalVolume: number;
   totalTrades: number;
+  totalBonusCosts: number;
   netProfit: number;
   profitMargin: number;
   totalDeposits: number;
@@ -98,7 +104,7 @@ interface RealTimeMetrics {
 interface TradePLResult {
   tradeId: string;
   brokerPL: number;
-  userResult: 'WON' | 'LOST';
+  userResult: 'WON' | 'LOST' | 'DRAW' | 'CLOSED_EARLY';
   amount: number;
   payoutPercent: number;
   isRealUser: boolean;
@@ -133,20 +139,27 @@ class BrokerFinancialService {
    * Binary options P&L:
    * - User LOSES: Broker keeps the stake amount (+amount)
    * - User WINS: Broker pays the profit (-amount * payoutPercent/100)
+   * - User CLOSES EARLY: Broker takes the other side of the buy-back (-profit)
+   * - DRAW: Stake is refunded, no P&L
    */
   calculateTradePL(trade: {
-    result: 'WON' | 'LOST' | null;
+    result: 'WON' | 'LOST' | 'DRAW' | 'CLOSED_EARLY' | null;
     amount: number;
     payoutPercent: number;
+    profit?: number | null;
   }): number {
-    if (!trade.result) return 0;
+    if (!trade.result || trade.result === 'DRAW') return 0;
+
+    if (trade.result === 'CLOSED_EARLY') {
+      return -(trade.profit ?? 0);
+    }
 
     if (trade.result === 'LOST') {
       // User lost - broker keeps the stake
       return trade.amount;
     } else {
       // User won - broker pays the profit (stake is returned to user, not broker profit)
-      return -(trade.amount * (trade.payoutPercent / 100));
+      return -percentOf(trade.amount, trade.payoutPercent);
     }
   }
 
@@ -159,6 +172,7 @@ class BrokerFinancialService {
     totalTrades: number;
     wonTrades: number;
     lostTrades: number;
+    drawTrades: number;
     brokerWinRate: number;
     avgPayoutPercent: number;
     totalWonAmount: number;
@@ -169,6 +183,7 @@ class BrokerFinancialService {
       totalTrades: string;
       wonTrades: string;
       lostTrades: string;
+      drawTrades: string;
       totalVolume: number;
       totalWonAmount: number;
       totalLostAmount: number;
@@ -179,10 +194,17 @@ class BrokerFinancialService {
         COUNT(*) as "totalTrades",
         COUNT(*) FILTER (WHERE t.result = 'WON') as "wonTrades",
         COUNT(*) FILTER (WHERE t.result = 'LOST') as "lostTrades",
+        COUNT(*) FILTER (WHERE t.result = 'DRAW') as "drawTrades",
         COALESCE(SUM(t.amount), 0) as "totalVolume",
         COALESCE(SUM(t.amount) FILTER (WHERE t.result = 'WON'), 0) as "totalWonAmount",
-        COALESCE(SUM(t.amount) FILTER (WHERE t.result = 'LOST'), 0) as "totalLostAmount",
-        COALESCE(SUM(t.amount * t."payoutPercent" / 100) FILTER (WHERE t.result = 'WON'), 0) as "totalPayoutsPaid",
+        COALESCE(SUM(CASE
+          WHEN t.result = 'LOST' THEN t.amount
+          WHEN t.result = 'CLOSED_EARLY' THEN GREATEST(-t.profit, 0)
+          ELSE 0 END), 0) as "totalLostAmount",
+        COALESCE(SUM(CASE
+          WHEN t.result = 'WON' THEN t.amount * t."payoutPercent" / 100
+          WHEN t.result = 'CLOSED_EARLY' THEN GREATEST(t.profit, 0)
+          ELSE 0 END), 0) as "totalPayoutsPaid",
         COALESCE(AVG(t."payoutPercent"), 0) as "avgPayoutPercent"
        FROM "Trade" t
        JOIN "User" u ON u.id = t."userId"
@@ -197,6 +219,7 @@ class BrokerFinancialService {
     const totalTrades = parseInt(result?.totalTrades || '0', 10);
     const wonTrades = parseInt(result?.wonTrades || '0', 10);
     const lostTrades = parseInt(result?.lostTrades || '0', 10);
+    const drawTrades = parseInt(result?.drawTrades || '0', 10);
     const totalVolume = Number(result?.totalVolume || 0);
     const totalWonAmount = Number(result?.totalWonAmount || 0);
     const totalLostAmount = Number(result?.totalLostAmount || 0);
@@ -215,6 +238,7 @@ class BrokerFinancialService {
       totalTrades,
       wonTrades,
       lostTrades,
+      drawTrades,
       brokerWinRate,
       avgPayoutPercent,
       totalWonAmount,
@@ -252,6 +276,7 @@ class BrokerFinancialService {
       segregatedMetrics,
       copyTradingMetrics,
       otcMetrics,
+      bonusMetrics,
     ] = await Promise.all([
       this.calculatePeriodPL(dateRange),
       this.calculateAffiliateMetrics(dateRange),
@@ -261,10 +286,11 @@ class BrokerFinancialService {
       this.calculateSegregatedMetrics(dateRange),
       this.calculateCopyTradingMetrics(dateRange),
       this.calculateOTCMetrics(dateRange),
+      this.calculateBonusMetrics(dateRange),
     ]);
 
     // Calculate net values
-    const netRevenue = tradingMetrics.grossRevenue - affiliateMetrics.totalCommissions;
+    const netRevenue = tradingMetrics.grossRevenue - affiliateMetrics.totalCommissions - bonusMetrics.bonusCosts;
     const netDeposits = depositMetrics.totalDeposits - withdrawalMetrics.totalWithdrawals;
 
     // Calculate business health indicators
@@ -304,7 +330,9 @@ class BrokerFinancialService {
         "copyTradingVolume", "copyTradingTrades", "activeLeaders", "activeFollowers",
         "otcTradingVolume", "otcTradingTrades", "otcBrokerRevenue", "otcInterventions",
         "profitFactor", "revenuePerUser", "revenuePerTrade", "userWinRate",
-        "isFinalized", "generatedAt", "lastUpdatedAt"
+        "isFinalized", "generatedAt", "lastUpdatedAt",
+        "drawTrades",
+        "bonusCosts", "bonusesGranted", "bonusesForfeited"
       ) VALUES (
         $1, $2,
         $3, $4, $5, $6, $7,
@@ -317,7 +345,9 @@ class BrokerFinancialService {
         $34, $35, $36, $37,
         $38, $39, $40, $41,
         $42, $43, $44, $45,
-        $46, $47, $48
+        $46, $47, $48,
+        $49,
+        $50, $51, $52
       )
       ON CONFLICT (date) DO UPDATE SET
         "grossTradingRevenue" = $3, "totalTradeVolume" = $4, "totalTrades" = $5, "wonTrades" = $6, "lostTrades" = $7,
@@ -330,7 +360,9 @@ class BrokerFinancialService {
         "copyTradingVolume" = $34, "copyTradingTrades" = $35, "activeLeaders" = $36, "activeFollowers" = $37,
         "otcTradingVolume" = $38, "otcTradingTrades" = $39, "otcBrokerRevenue" = $40, "otcInterventions" = $41,
         "profitFactor" = $42, "revenuePerUser" = $43, "revenuePerTrade" = $44, "userWinRate" = $45,
-        "isFinalized" = $46, "lastUpdatedAt" = $48
+        "isFinalized" = $46, "lastUpdatedAt" = $48,
+        "drawTrades" = $49,
+        "bonusCosts" = $50, "bonusesGranted" = $51, "bonusesForfeited" = $52
       RETURNING *`,
       [
         snapshotId, snapshotDate,
@@ -345,6 +377,8 @@ class BrokerFinancialService {
         otcMetrics.volume, otcMetrics.trades, otcMetrics.brokerRevenue, otcMetrics.interventions,
         profitFactor, revenuePerUser, revenuePerTrade, userWinRate,
         isFinalized, new Date(), new Date(),
+        tradingMetrics.drawTrades,
+        bonusMetrics.bonusCosts, bonusMetrics.bonusesGranted, bonusMetrics.bonusesForfeited,
       ]
     );
 
@@ -417,6 +451,40 @@ class BrokerFinancialService {
     };
   }
 
+  /**
+   * Calculate deposit bonus metrics for a period. Only converted bonuses cost
+   * the broker money; granted and forfeited amounts track the pipeline.
+   */
+  private async calculateBonusMetrics(dateRange: DateRange): Promise<{
+    bonusCosts: number;
+    bonusesGranted: number;
+    bonusesForfeited: number;
+  }> {
+    const result = await queryOne<{
+      bonusCosts: number;
+      bonusesGranted: number;
+      bonusesForfeited: number;
+    }>(
+      `SELECT
+        COALESCE(SUM(b.amount) FILTER (WHERE b."convertedAt" >= $1 AND b."convertedAt" < $2), 0) as "bonusCosts",
+        COALESCE(SUM(b.amount) FILTER (WHERE b."activatedAt" >= $1 AND b."activatedAt" < $2), 0) as "bonusesGranted",
+        COALESCE(SUM(b.amount) FILTER (WHERE
+          (b."forfeitedAt" >= $1 AND b."forfeitedAt" < $2)
+          OR (b."expiredAt" >= $1 AND b."expiredAt" < $2 AND b."activatedAt" IS NOT NULL)), 0) as "bonusesForfeited"
+       FROM "UserBonus" b
+       JOIN "User" u ON u.id = b."userId"
+       WHERE u."userType" = 'REAL'
+         AND u."isTestAccount" = false`,
+      [dateRange.start, dateRange.end]
+    );
+
+    return {
+      bonusCosts: Number(result?.bonusCosts || 0),
+      bonusesGranted: Number(result?.bonusesGranted || 0),
+      bonusesForfeited: Number(result?.bonusesForfeited || 0),
+    };
+  }
+
   /**
    * Calculate deposit metrics for a period
    */
@@ -462,7 +530,7 @@ class BrokerFinancialService {
         COUNT(*) as "withdrawalCount"
        FROM "Withdrawal" w
        JOIN "User" u ON u.id = w."userId"
-       WHERE w.status = 'APPROVED'
+       WHERE w.status IN ('APPROVED', 'PROCESSING', 'COMPLETED')
          AND w."processedAt" >= $1 AND w."processedAt" < $2
          AND u."userType" = 'REAL'
          AND u."isTestAccount" = false`,
@@ -637,8 +705,14 @@ class BrokerFinancialService {
         `SELECT
           COALESCE(SUM(t.amount), 0) as volume,
           COUNT(*) as trades,
-          COALESCE(SUM(t.amount) FILTER (WHERE t.result = 'LOST'), 0) as "lostAmount",
-          COALESCE(SUM(t.amount * t."payoutPercent" / 100) FILTER (WHERE t.result = 'WON'), 0) as "payoutsPaid"
+          COALESCE(SUM(CASE
+            WHEN t.result = 'LOST' THEN t.amount
+            WHEN t.result = 'CLOSED_EARLY' THEN GREATEST(-t.profit, 0)
+            ELSE 0 END), 0) as "lostAmount",
+          COALESCE(SUM(CASE
+            WHEN t.result = 'WON' THEN t.amount * t."payoutPercent" / 100
+            WHEN t.result = 'CLOSED_EARLY' THEN GREATEST(t.profit, 0)
+            ELSE 0 END), 0) as "payoutsPaid"
          FROM "Trade" t
          JOIN "User" u ON u.id = t."userId"
          WHERE t.symbol LIKE '%-OTC'
@@ -693,17 +767,18 @@ class BrokerFinancialService {
     }
 
     // Aggregate metrics
-    const totalRevenue = snapshots.reduce((sum, s) => sum + Number(s.grossTradingRevenue), 0);
-    const totalVolume = snapshots.reduce((sum, s) => sum + Number(s.totalTradeVolume), 0);
+    const totalRevenue = snapshots.reduce((sum, s) => addMoney(sum, s.grossTradingRevenue), 0);
+    const totalVolume = snapshots.reduce((sum, s) => addMoney(sum, s.totalTradeVolume), 0);
     const totalTrades = snapshots.reduce((sum, s) => sum + s.totalTrades, 0);
     const totalWonTrades = snapshots.reduce((sum, s) => sum + s.wonTrades, 0);
     const totalLostTrades = snapshots.reduce((sum, s) => sum + s.lostTrades, 0);
-    const totalAffiliateCommissions = snapshots.reduce((sum, s) => sum + Number(s.totalAffiliateCommissions), 0);
-    const totalOperatingCosts = snapshots.reduce((sum, s) => sum + Number(s.operatingCosts), 0);
-    const totalDeposits = snapshots.reduce((sum, s) => sum + Number(s.totalDeposits), 0);
-    const totalWithdrawals = snapshots.reduce((sum, s) => sum + Number(s.totalWithdrawals), 0);
+    const totalAffiliateCommissions = snapshots.reduce((sum, s) => addMoney(sum, s.totalAffiliateCommissions), 0);
+    const totalOperatingCosts = snapshots.reduce((sum, s) => addMoney(sum, s.operatingCosts), 0);
+    const totalBonusCosts = snapshots.reduce((sum, s) => addMoney(sum, s.bonusCosts), 0);
+    const totalDeposits = snapshots.reduce((sum, s) => addMoney(sum, s.totalDeposits), 0);
+    const totalWithdrawals = snapshots.reduce((sum, s) => addMoney(sum, s.totalWithdrawals), 0);
 
-    const netProfit = totalRevenue - totalAffiliateCommissions - totalOperatingCosts;
+    const netProfit = totalRevenue - totalAffiliateCommissions - totalBonusCosts - totalOperatingCosts;
     const profitMargin = totalRevenue > 0 ? (netProfit / totalRevenue) * 100 : 0;
     const netDeposits = totalDeposits - totalWithdrawals;
 
@@ -775,7 +850,8 @@ class BrokerFinancialService {
         "peakDayRevenue", "peakDayDate", "lowestDayRevenue", "lowestDayDate",
         "profitableDays", "lossDays",
         "avgBrokerWinRate", "avgProfitFactor", "arpu",
-        "isFinalized", "generatedAt", "lastUpdatedAt"
+        "isFinalized", "generatedAt", "lastUpdatedAt",
+        "totalBonusCosts"
       ) VALUES (
         $1, $2, $3,
         $4, $5, $6, $7, $8,
@@ -788,7 +864,8 @@ class BrokerFinancialService {
         $26, $27, $28, $29,
         $30, $31,
         $32, $33, $34,
-        $35, $36, $37
+        $35, $36, $37,
+        $38
       )
       ON CONFLICT (month, year) DO UPDATE SET
         "totalRevenue" = $4, "totalVolume" = $5, "totalTrades" = $6, "totalWonTrades" = $7, "totalLostTrades" = $8,
@@ -801,7 +878,8 @@ class BrokerFinancialService {
         "peakDayRevenue" = $26, "peakDayDate" = $27, "lowestDayRevenue" = $28, "lowestDayDate" = $29,
         "profitableDays" = $30, "lossDays" = $31,
         "avgBrokerWinRate" = $32, "avgProfitFactor" = $33, "arpu" = $34,
-        "lastUpdatedAt" = $37
+        "lastUpdatedAt" = $37,
+        "totalBonusCosts" = $38
       RETURNING *`,
       [
         reportId, month, year,
@@ -816,6 +894,7 @@ class BrokerFinancialService {
         profitableDays, lossDays,
         avgBrokerWinRate, avgProfitFactor, arpu,
         false, new Date(), new Date(),
+        totalBonusCosts,
       ]
     );
 
@@ -907,7 +986,7 @@ class BrokerFinancialService {
       queryOne<{ total: number }>(
         `SELECT COALESCE(SUM(amount), 0) as total
          FROM "Withdrawal"
-         WHERE status = 'APPROVED' AND "processedAt" >= $1`,
+         WHERE status IN ('APPROVED', 'PROCESSING', 'COMPLETED') AND "processedAt" >= $1`,
         [todayStart]
       ),
       queryOne<{ total: number }>(
@@ -1372,10 +1451,10 @@ class BrokerFinancialService {
     ]);
 
     const thisMonth = {
-      totalRevenue: thisMonthSnapshots.reduce((sum, s) => sum + Number(s.grossTradingRevenue), 0),
-      totalVolume: thisMonthSnapshots.reduce((sum, s) => sum + Number(s.totalTradeVolume), 0),
+      totalRevenue: thisMonthSnapshots.reduce((sum, s) => addMoney(sum, s.grossTradingRevenue), 0),
+      totalVolume: thisMonthSnapshots.reduce((sum, s) => addMoney(sum, s.totalTradeVolume), 0),
       totalTrades: thisMonthSnapshots.reduce((sum, s) => sum + s.totalTrades, 0),
-      netProfit: thisMonthSnapshots.reduce((sum, s) => sum + Number(s.netProfit), 0),
+      netProfit: thisMonthSnapshots.reduce((sum, s) => addMoney(sum, s.netProfit), 0),
       daysReported: thisMonthSnapshots.length,
     };
 
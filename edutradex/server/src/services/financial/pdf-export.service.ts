@@ -6,6 +6,11 @@
  */
 
 import { logger } from '../../utils/logger.js';
+import {
+  STATEMENT_CATEGORY_LABELS,
+  type AccountStatement,
+  type StatementCategory,
+} from '../user/account-statement.service.js';
 
 interface PDFExportOptions {
   title: string;
@@ -74,6 +79,184 @@ function getStatusColor(status: string): string {
   return colors[status] || '#64748b';
 }
 
+function escapeHtml(value: string): string {
+  return value
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;');
+}
+
+function generateAccountStatementHTML(statement: AccountStatement): string {
+  const formatDay = (date: Date) => date.toLocaleDateString('en-US', {
+    year: 'numeric',
+    month: 'short',
+    day: 'numeric',
+    timeZone: 'UTC',
+  });
+  const formatDateTime = (date: Date) => new Date(date).toLocaleString('en-US', {
+    year: 'numeric',
+    month: 'short',
+    day: 'numeric',
+    hour: '2-digit',
+    minute: '2-digit',
+    timeZone: 'UTC',
+  });
+  const signed = (value: number) => `<span class="${value < 0 ? 'negative' : value > 0 ? 'positive' : ''}">${formatCurrency(value)}</span>`;
+  // The period end is exclusive; show the last day it covers
+  const lastDay = new Date(statement.to.getTime() - 1);
+  const categories = Object.keys(STATEMENT_CATEGORY_LABELS) as StatementCategory[];
+
+  const entryRows = statement.entries.map((entry) => `
+      <tr>
+        <td>${formatDateTime(entry.date)}</td>
+        <td>${STATEMENT_CATEGORY_LABELS[entry.category]}</td>
+        <td>${escapeHtml(entry.description || entry.reason.replace(/_/g, ' ').toLowerCase())}</td>
+        <td class="amount">${signed(entry.amount)}</td>
+        <td class="amount">${entry.balanceAfter !== null ? formatCurrency(entry.balanceAfter) : '-'}</td>
+      </tr>`).join('');
+
+  const tradeRows = statement.trades.map((trade) => `
+      <tr>
+        <td>${formatDateTime(trade.closedAt)}</td>
+        <td>${escapeHtml(trade.symbol)}</td>
+        <td>${trade.direction}</td>
+        <td class="amount">${formatCurrency(trade.amount)}</td>
+        <td>${trade.result ?? '-'}</td>
+        <td class="amount">${signed(trade.profit)}</td>
+      </tr>`).join('');
+
+  return `
+<!DOCTYPE html>
+<html>
+<head>
+  <meta charset="UTF-8">
+  <title>Account Statement</title>
+  <style>
+    * { box-sizing: border-box; margin: 0; padding: 0; }
+    body {
+      font-family: 'Segoe UI', Tahoma, Geneva, Verdana, sans-serif;
+      color: #1e293b;
+      font-size: 12px;
+      line-height: 1.5;
+    }
+    .header {
+      display: flex;
+      justify-content: space-between;
+      align-items: flex-start;
+      border-bottom: 2px solid #e2e8f0;
+      padding-bottom: 16px;
+      margin-bottom: 24px;
+    }
+    .header h1 { font-size: 22px; color: #0f172a; }
+    .muted { color: #64748b; }
+    .holder { text-align: right; }
+    .summary {
+      display: grid;
+      grid-template-columns: 1fr 1fr 1fr 1fr;
+      gap: 12px;
+      margin-bottom: 24px;
+    }
+    .metric-card {
+      background: #f8fafc;
+      border-radius: 8px;
+      padding: 12px;
+    }
+    .metric-label { font-size: 11px; color: #64748b; }
+    .metric-value { font-size: 16px; font-weight: 700; }
+    h2 { font-size: 15px; margin: 24px 0 8px; color: #0f172a; }
+    table { width: 100%; border-collapse: collapse; }
+    th, td { padding: 6px 8px; border-bottom: 1px solid #e2e8f0; text-align: left; }
+    th { background: #f8fafc; font-weight: 600; color: #475569; }
+    tr { page-break-inside: avoid; }
+    .amount { text-align: right; font-family: monospace; white-space: nowrap; }
+    .empty { padding: 16px; text-align: center; color: #64748b; }
+    .footer {
+      margin-top: 32px;
+      padding-top: 12px;
+      border-top: 1px solid #e2e8f0;
+      color: #64748b;
+      font-size: 10px;
+    }
+    .positive { color: #16a34a; }
+    .negative { color: #dc2626; }
+  </style>
+</head>
+<body>
+  <div class="header">
+    <div>
+      <h1>Account Statement</h1>
+      <p class="muted">${formatDay(statement.from)} - ${formatDay(lastDay)} (UTC)</p>
+      <p class="muted">${statement.accountType === 'LIVE' ? 'Live' : 'Demo'} account</p>
+    </div>
+    <div class="holder">
+      <strong>${escapeHtml(statement.holder.name)}</strong>
+      <p class="muted">${escapeHtml(statement.holder.email)}</p>
+      <p class="muted">Account ID ${statement.holder.userId}</p>
+    </div>
+  </div>
+
+  <div class="summary">
+    <div class="metric-card">
+      <div class="metric-label">Opening Balance</div>
+      <div class="metric-value">${formatCurrency(statement.openingBalance)}</div>
+    </div>
+    <div class="metric-card">
+      <div class="metric-label">Closing Balance</div>
+      <div class="metric-value">${formatCurrency(statement.closingBalance)}</div>
+    </div>
+    <div class="metric-card">
+      <div class="metric-label">Trades</div>
+      <div class="metric-value">${statement.tradeSummary.count}</div>
+      <div class="muted">${statement.tradeSummary.won} won / ${statement.tradeSummary.lost} lost</div>
+    </div>
+    <div class="metric-card">
+      <div class="metric-label">Trading Volume</div>
+      <div class="metric-value">${formatCurrency(statement.tradeSummary.volume)}</div>
+    </div>
+  </div>
+
+  <h2>Summary</h2>
+  <table>
+    <tr><td>Opening balance</td><td class="amount">${formatCurrency(statement.openingBalance)}</td></tr>
+    ${categories.map((category) => `
+    <tr><td>${STATEMENT_CATEGORY_LABELS[category]}</td><td class="amount">${signed(statement.totals[category])}</td></tr>`).join('')}
+    <tr><th>Closing balance</th><th class="amount">${formatCurrency(statement.closingBalance)}</th></tr>
+  </table>
+
+  <h2>Account Activity</h2>
+  ${statement.truncated ? `<p class="muted">Only the latest ${statement.entries.length} movements are listed; the summary covers the whole period.</p>` : ''}
+  ${statement.entries.length === 0 ? '<p class="empty">No account activity in this period</p>' : `
+  <table>
+    <thead>
+      <tr><th>Date</th><th>Category</th><th>Description</th><th class="amount">Amount</th><th class="amount">Balance</th></tr>
+    </thead>
+    <tbody>${entryRows}
+    </tbody>
+  </table>`}
+
+  <h2>Closed Trades</h2>
+  ${statement.trades.length === 0 ? '<p class="empty">No trades closed in this period</p>' : `
+  <table>
+    <thead>
+      <tr><th>Closed</th><th>Symbol</th><th>Direction</th><th class="amount">Amount</th><th>Result</th><th class="amount">Profit</th></tr>
+    </thead>
+    <tbody>${tradeRows}
+    </tbody>
+    <tfoot>
+      <tr><th colspan="5">Net trading result</th><th class="amount">${signed(statement.tradeSummary.netProfit)}</th></tr>
+    </tfoot>
+  </table>`}
+
+  <div class="footer">
+    <p>Generated ${formatDateTime(statement.generatedAt)} UTC. All amounts in USD. Times in UTC.</p>
+    <p>Balances are taken from the account ledger. Please contact support if anything in this statement looks wrong.</p>
+  </div>
+</body>
+</html>
+  `;
+}
+
 function generateExecutiveSummaryHTML(data: ExecutiveSummaryData, generatedAt: Date): string {
   const formatDate = (date: Date) => date.toLocaleDateString('en-US', {
     year: 'numeric',
@@ -363,45 +546,16 @@ class PDFExportService {
   }
 
   async generateExecutiveSummaryPDF(data: ExecutiveSummaryData): Promise<Buffer> {
-    const puppeteer = await this.getPuppeteer();
-
     logger.info('Generating Executive Summary PDF');
 
     const html = generateExecutiveSummaryHTML(data, new Date());
+    const pdf = await this.renderPDF(html);
 
-    let browser;
-    try {
-      browser = await puppeteer.default.launch({
-        headless: true,
-        args: ['--no-sandbox', '--disable-setuid-sandbox'],
-      });
-
-      const page = await browser.newPage();
-      await page.setContent(html, { waitUntil: 'networkidle0' });
-
-      const pdf = await page.pdf({
-        format: 'A4',
-        printBackground: true,
-        margin: {
-          top: '20mm',
-          right: '20mm',
-          bottom: '20mm',
-          left: '20mm',
-        },
-      });
-
-      logger.info('Executive Summary PDF generated successfully');
-      return Buffer.from(pdf);
-    } finally {
-      if (browser) {
-        await browser.close();
-      }
-    }
+    logger.info('Executive Summary PDF generated successfully');
+    return pdf;
   }
 
   async generatePLStatementPDF(data: unknown): Promise<Buffer> {
-    const puppeteer = await this.getPuppeteer();
-
     logger.info('Generating P&L Statement PDF');
 
     // Placeholder HTML - would be more detailed in production
@@ -430,6 +584,17 @@ ${JSON.stringify(data, null, 2)}
 </html>
     `;
 
+    return this.renderPDF(html);
+  }
+
+  async generateAccountStatementPDF(statement: AccountStatement): Promise<Buffer> {
+    logger.info('Generating account statement PDF', { userId: statement.holder.userId });
+    return this.renderPDF(generateAccountStatementHTML(statement));
+  }
+
+  private async renderPDF(html: string): Promise<Buffer> {
+    const puppeteer = await this.getPuppeteer();
+
     let browser;
     try {
       browser = await puppeteer.default.launch({
@@ -443,7 +608,12 @@ ${JSON.stringify(data, null, 2)}
       const pdf = await page.pdf({
         format: 'A4',
         printBackground: true,
-        margin: { top: '20mm', right: '20mm', bottom: '20mm', left: '20mm' },
+        margin: {
+          top: '20mm',
+          right: '20mm',
+          bottom: '20mm',
+          left: '20mm',
+        },
       });
 
       return Buffer.from(pdf);
@@ -77,6 +77,11 @@ const FOREX_SYMBOL_MAP: Record<string, string> = {
   'NZD/CHF': 'OANDA:NZD_CHF',
 };
 
+const REVERSE_FOREX_SYMBOL_MAP: Record<string, string> = {};
+Object.entries(FOREX_SYMBOL_MAP).forEach(([ourSymbol, finnhubSymbol]) => {
+  REVERSE_FOREX_SYMBOL_MAP[finnhubSymbol] = ourSymbol;
+});
+
 class FinnhubService {
   private ws: WebSocket | null = null;
   private isConnecting = false;
@@ -87,11 +92,15 @@ class FinnhubService {
   private callbacks = new Set<PriceUpdateCallback>();
   private isAvailable = false;
   private latestPrices = new Map<string, FinnhubTick>();
+  // Forex pairs subscribed on demand (failover source when the Deriv feed stalls)
+  private forexSubscriptions = new Set<string>();
   private apiKey: string;
 
   constructor() {
     this.apiKey = config.finnhub?.apiKey || '';
+  }
 
+  public start(): void {
     if (this.apiKey) {
       this.connect();
     } else {
@@ -184,7 +193,35 @@ class FinnhubService {
       this.ws!.send(JSON.stringify({ type: 'subscribe', symbol }));
     });
 
-    logger.info(`[Finnhub] Subscribed to ${STOCK_SYMBOLS.length + Object.keys(INDEX_SYMBOLS).length} symbols`);
+    // Re-subscribe forex pairs after a reconnect
+    this.forexSubscriptions.forEach(symbol => {
+      this.ws!.send(JSON.stringify({ type: 'subscribe', symbol: FOREX_SYMBOL_MAP[symbol] }));
+    });
+
+    logger.info(`[Finnhub] Subscribed to ${STOCK_SYMBOLS.length + Object.keys(INDEX_SYMBOLS).length + this.forexSubscriptions.size} symbols`);
+  }
+
+  /**
+   * Stream a forex pair (our symbol format, e.g. 'EUR/USD') from OANDA
+   */
+  public subscribeForex(symbol: string): void {
+    const finnhubSymbol = FOREX_SYMBOL_MAP[symbol];
+    if (!finnhubSymbol || this.forexSubscriptions.has(symbol)) return;
+
+    this.forexSubscriptions.add(symbol);
+    if (this.ws && this.ws.readyState === WebSocket.OPEN) {
+      this.ws.send(JSON.stringify({ type: 'subscribe', symbol: finnhubSymbol }));
+      logger.info(`[Finnhub] Subscribed to ${symbol} (${finnhubSymbol})`);
+    }
+  }
+
+  public unsubscribeForex(symbol: string): void {
+    if (!this.forexSubscriptions.delete(symbol)) return;
+
+    if (this.ws && this.ws.readyState === WebSocket.OPEN) {
+      this.ws.send(JSON.stringify({ type: 'unsubscribe', symbol: FOREX_SYMBOL_MAP[symbol] }));
+      logger.info(`[Finnhub] Unsubscribed from ${symbol}`);
+    }
   }
 
   private handleMessage(message: any): void {
@@ -193,7 +230,7 @@ class FinnhubService {
     message.data.forEach((trade: any) => {
       const symbol = trade.s;
 
-      // Check if it's an index ETF and map to our index symbol
+      // Check if it's an index ETF or a forex pair and map to our symbol
       let ourSymbol = symbol;
       for (const [indexSymbol, etfSymbol] of Object.entries(INDEX_SYMBOLS)) {
         if (etfSymbol === symbol) {
@@ -201,6 +238,9 @@ class FinnhubService {
           break;
         }
       }
+      if (ourSymbol === symbol && symbol.startsWith('OANDA:')) {
+        ourSymbol = REVERSE_FOREX_SYMBOL_MAP[symbol] || symbol;
+      }
 
       const tick: FinnhubTick = {
         symbol: ourSymbol,
@@ -276,11 +316,15 @@ class FinnhubService {
       Object.values(INDEX_SYMBOLS).forEach(symbol => {
         this.ws!.send(JSON.stringify({ type: 'unsubscribe', symbol }));
       });
+      this.forexSubscriptions.forEach(symbol => {
+        this.ws!.send(JSON.stringify({ type: 'unsubscribe', symbol: FOREX_SYMBOL_MAP[symbol] }));
+      });
 
       this.ws.close();
       this.ws = null;
     }
 
+    this.forexSubscriptions.clear();
     this.callbacks.clear();
     this.isAvailable = false;
   }
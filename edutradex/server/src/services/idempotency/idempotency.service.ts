@@ -0,0 +1,168 @@
+import { query, queryOne } from '../../config/db.js';
+import { config } from '../../config/env.js';
+import { logger } from '../../utils/logger.js';
+import { randomUUID } from 'crypto';
+
+/**
+ * Idempotency Service
+ *
+ * Backs the Idempotency-Key header on money-moving endpoints. The first request
+ * for a (user, key, route) claims the key while it runs; its response is then
+ * stored and replayed to any retry carrying the same key. A retry that arrives
+ * while the first request is still running is rejected rather than executed.
+ *
+ * Claims left IN_PROGRESS by a crashed request are reclaimable once their lock
+ * times out, and completed records are purged after the key TTL.
+ */
+
+interface IdempotencyRecord {
+  id: string;
+  requestHash: string;
+  status: 'IN_PROGRESS' | 'COMPLETED';
+  responseStatus: number | null;
+  responseBody: unknown;
+  lockedUntil: Date;
+  expiresAt: Date;
+}
+
+type IdempotencyClaim =
+  | { state: 'CLAIMED'; id: string }
+  | { state: 'REPLAY'; responseStatus: number; responseBody: unknown };
+
+class IdempotencyServiceError extends Error {
+  constructor(
+    message: string,
+    public statusCode: number = 400
+  ) {
+    super(message);
+    this.name = 'IdempotencyServiceError';
+  }
+}
+
+const CLEANUP_INTERVAL_MS = 60 * 60 * 1000;
+
+class IdempotencyService {
+  private readonly KEY_TTL_MS = config.idempotency.keyTtlHours * 60 * 60 * 1000;
+  private readonly LOCK_TIMEOUT_MS = config.idempotency.lockTimeoutMs;
+  private cleanupInterval: NodeJS.Timeout | null = null;
+
+  /**
+   * Claim a key for a request, or return the stored response of an earlier one
+   */
+  async claim(userId: string, key: string, route: string, requestHash: string): Promise<IdempotencyClaim> {
+    const now = new Date();
+    const lockedUntil = new Date(now.getTime() + this.LOCK_TIMEOUT_MS);
+    const expiresAt = new Date(now.getTime() + this.KEY_TTL_MS);
+
+    const inserted = await queryOne<{ id: string }>(
+      `INSERT INTO "IdempotencyKey" (
+        id, "userId", key, route, "requestHash", status, "lockedUntil", "expiresAt", "createdAt"
+      ) VALUES ($1, $2, $3, $4, $5, 'IN_PROGRESS', $6, $7, $8)
+      ON CONFLICT ("userId", key, route) DO NOTHING
+      RETURNING id`,
+      [randomUUID(), userId, key, route, requestHash, lockedUntil, expiresAt, now]
+    );
+
+    if (inserted) {
+      return { state: 'CLAIMED', id: inserted.id };
+    }
+
+    const existing = await queryOne<IdempotencyRecord>(
+      `SELECT id, "requestHash", status, "responseStatus", "responseBody", "lockedUntil", "expiresAt"
+       FROM "IdempotencyKey"
+       WHERE "userId" = $1 AND key = $2 AND route = $3`,
+      [userId, key, route]
+    );
+
+    if (!existing) {
+      // Purged between the insert and the lookup - let the client retry
+      throw new IdempotencyServiceError('A request with this Idempotency-Key is already in progress', 409);
+    }
+
+    const isExpired = existing.expiresAt < now;
+    const isAbandoned = existing.status === 'IN_PROGRESS' && existing.lockedUntil < now;
+
+    if (isExpired || isAbandoned) {
+      // Only one concurrent retry wins the reclaim
+      const reclaimed = await queryOne<{ id: string }>(
+        `UPDATE "IdempotencyKey" SET
+          "requestHash" = $1, status = 'IN_PROGRESS', "responseStatus" = NULL, "responseBody" = NULL,
+          "lockedUntil" = $2, "expiresAt" = $3, "createdAt" = $4, "completedAt" = NULL
+         WHERE id = $5 AND ("expiresAt" < $4 OR (status = 'IN_PROGRESS' AND "lockedUntil" < $4))
+         RETURNING id`,
+        [requestHash, lockedUntil, expiresAt, now, existing.id]
+      );
+
+      if (reclaimed) {
+        return { state: 'CLAIMED', id: reclaimed.id };
+      }
+      throw new IdempotencyServiceError('A request with this Idempotency-Key is already in progress', 409);
+    }
+
+    if (existing.requestHash !== requestHash) {
+      throw new IdempotencyServiceError('Idempotency-Key was already used for a different request', 422);
+    }
+
+    if (existing.status === 'IN_PROGRESS' || existing.responseStatus === null) {
+      throw new IdempotencyServiceError('A request with this Idempotency-Key is already in progress', 409);
+    }
+
+    return {
+      state: 'REPLAY',
+      responseStatus: existing.responseStatus,
+      responseBody: existing.responseBody,
+    };
+  }
+
+  /**
+   * Store the response of a claimed request for replay
+   */
+  async complete(id: string, responseStatus: number, responseBody: unknown): Promise<void> {
+    const now = new Date();
+    await query(
+      `UPDATE "IdempotencyKey" SET
+        status = 'COMPLETED', "responseStatus" = $1, "responseBody" = $2, "completedAt" = $3
+       WHERE id = $4`,
+      [responseStatus, JSON.stringify(responseBody ?? null), now, id]
+    );
+  }
+
+  /**
+   * Drop a claim so the request can be retried (server errors and thrown handlers)
+   */
+  async release(id: string): Promise<void> {
+    await query(`DELETE FROM "IdempotencyKey" WHERE id = $1 AND status = 'IN_PROGRESS'`, [id]);
+  }
+
+  async purgeExpired(): Promise<number> {
+    const result = await query(`DELETE FROM "IdempotencyKey" WHERE "expiresAt" < $1`, [new Date()]);
+    return result.rowCount || 0;
+  }
+
+  startCleanup(): void {
+    if (this.cleanupInterval) return;
+
+    this.cleanupInterval = setInterval(() => {
+      this.purgeExpired()
+        .then((purged) => {
+          if (purged > 0) {
+            logger.info('[Idempotency] Purged expired keys', { purged });
+          }
+        })
+        .catch((error) => {
+          logger.error('[Idempotency] Failed to purge expired keys', { error });
+        });
+    }, CLEANUP_INTERVAL_MS);
+  }
+
+  stopCleanup(): void {
+    if (this.cleanupInterval) {
+      clearInterval(this.cleanupInterval);
+      this.cleanupInterval = null;
+    }
+  }
+}
+
+export const idempotencyService = new IdempotencyService();
+export { IdempotencyServiceError };
+export type { IdempotencyClaim };
@@ -1,6 +1,8 @@
 import { query, queryOne, queryMany } from '../../config/db.js';
 import { logger } from '../../utils/logger.js';
 import { emailService } from '../email/email.service.js';
+import { notificationService } from '../notification/notification.service.js';
+import { wsManager } from '../websocket/websocket.manager.js';
 import { randomUUID } from 'crypto';
 
 export type KYCStatus = 'NOT_SUBMITTED' | 'PENDING' | 'APPROVED' | 'REJECTED';
@@ -292,8 +294,11 @@ export class KYCService {
       [adminId, now, adminNote, kycId]
     );
 
-    // Send email notification
-    await emailService.sendKYCApproved(kyc.userEmail, kyc.userName);
+    wsManager.notifyKycUpdate(kyc.userId, { status: 'APPROVED' });
+
+    if (await notificationService.isEmailEnabled(kyc.userId, 'KYC')) {
+      await emailService.sendKYCApproved(kyc.userEmail, kyc.userName);
+    }
 
     logger.info('KYC approved', { kycId, userId: kyc.userId, approvedBy: adminId });
 
@@ -325,8 +330,11 @@ export class KYCService {
       [adminId, now, reason, adminNote, kycId]
     );
 
-    // Send email notification
-    await emailService.sendKYCRejected(kyc.userEmail, kyc.userName, reason);
+    wsManager.notifyKycUpdate(kyc.userId, { status: 'REJECTED', rejectionReason: reason });
+
+    if (await notificationService.isEmailEnabled(kyc.userId, 'KYC')) {
+      await emailService.sendKYCRejected(kyc.userEmail, kyc.userName, reason);
+    }
 
     logger.info('KYC rejected', { kycId, userId: kyc.userId, rejectedBy: adminId, reason });
 
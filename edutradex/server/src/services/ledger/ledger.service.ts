@@ -0,0 +1,462 @@
+import type { PoolClient } from 'pg';
+import { queryOne, queryMany, transaction } from '../../config/db.js';
+import { logger } from '../../utils/logger.js';
+import { addMoney, roundMoney, subtractMoney } from '../../utils/money.js';
+import { randomUUID } from 'crypto';
+
+/**
+ * Ledger
+ *
+ * Double-entry journal behind every balance on User. Each movement is posted
+ * as a journal of two lines - one on the user's wallet account, one on a house
+ * account - with equal debit and credit. The User balance columns are updated
+ * in the same transaction, so they are a cached projection of the ledger that
+ * the nightly reconciliation checks.
+ *
+ * Wallet accounts follow the trade accountType (legacy column naming):
+ * - USER_LIVE -> demoBalance (real money)
+ * - USER_DEMO -> practiceBalance (practice money)
+ * referralEarnings is the running total of REFERRAL_COMMISSION credits to USER_LIVE.
+ */
+
+type LedgerAccountType = 'LIVE' | 'DEMO';
+
+type LedgerAccount =
+  | 'USER_LIVE'
+  | 'USER_DEMO'
+  | 'HOUSE_TRADING'
+  | 'HOUSE_DEMO'
+  | 'HOUSE_CASH'
+  | 'HOUSE_WITHDRAWAL_HOLD'
+  | 'HOUSE_REFERRAL'
+  | 'HOUSE_BONUS'
+  | 'HOUSE_ADJUSTMENT'
+  | 'HOUSE_OPENING';
+
+type LedgerReason =
+  | 'OPENING_BALANCE'
+  | 'TRADE_STAKE'
+  | 'TRADE_PAYOUT'
+  | 'TRADE_REFUND'
+  | 'TRADE_EARLY_CLOSE'
+  | 'DEPOSIT'
+  | 'WITHDRAWAL_HOLD'
+  | 'WITHDRAWAL_RELEASE'
+  | 'REFERRAL_COMMISSION'
+  | 'BONUS_CONVERSION'
+  | 'BALANCE_RESET'
+  | 'BALANCE_ADJUSTMENT'
+  | 'TOP_UP';
+
+type LedgerSourceType = 'TRADE' | 'DEPOSIT' | 'WITHDRAWAL' | 'REFERRAL' | 'BONUS' | 'USER' | 'ADMIN';
+
+interface LedgerMovement {
+  userId: string;
+  accountType: LedgerAccountType;
+  amount: number; // Signed change to the user's wallet
+  reason: LedgerReason;
+  sourceType?: LedgerSourceType;
+  sourceId?: string | null;
+  description?: string;
+}
+
+interface LedgerBalances {
+  demoBalance: number;
+  practiceBalance: number;
+  referralEarnings: number;
+}
+
+interface LedgerEntryRow {
+  id: string;
+  journalId: string;
+  userId: string | null;
+  account: LedgerAccount;
+  side: 'DEBIT' | 'CREDIT';
+  amount: number;
+  reason: LedgerReason;
+  sourceType: LedgerSourceType | null;
+  sourceId: string | null;
+  description: string | null;
+  balanceAfter: number | null;
+  createdAt: Date;
+}
+
+interface StatementEntry {
+  id: string;
+  journalId: string;
+  date: Date;
+  reason: LedgerReason;
+  description: string | null;
+  sourceType: LedgerSourceType | null;
+  sourceId: string | null;
+  amount: number;
+  balanceAfter: number | null;
+}
+
+interface Statement {
+  accountType: LedgerAccountType;
+  from: Date | null;
+  to: Date | null;
+  openingBalance: number;
+  closingBalance: number;
+  totalCredits: number;
+  totalDebits: number;
+  entries: StatementEntry[];
+  total: number;
+}
+
+interface ReconciliationResult {
+  usersChecked: number;
+  discrepancies: number;
+  resolved: number;
+  unbalancedJournals: number;
+}
+
+class LedgerServiceError extends Error {
+  constructor(
+    message: string,
+    public statusCode: number = 400
+  ) {
+    super(message);
+    this.name = 'LedgerServiceError';
+  }
+}
+
+const HOUSE_ACCOUNTS: Record<LedgerReason, LedgerAccount> = {
+  OPENING_BALANCE: 'HOUSE_OPENING',
+  TRADE_STAKE: 'HOUSE_TRADING',
+  TRADE_PAYOUT: 'HOUSE_TRADING',
+  TRADE_REFUND: 'HOUSE_TRADING',
+  TRADE_EARLY_CLOSE: 'HOUSE_TRADING',
+  DEPOSIT: 'HOUSE_CASH',
+  WITHDRAWAL_HOLD: 'HOUSE_WITHDRAWAL_HOLD',
+  WITHDRAWAL_RELEASE: 'HOUSE_WITHDRAWAL_HOLD',
+  REFERRAL_COMMISSION: 'HOUSE_REFERRAL',
+  BONUS_CONVERSION: 'HOUSE_BONUS',
+  BALANCE_RESET: 'HOUSE_ADJUSTMENT',
+  BALANCE_ADJUSTMENT: 'HOUSE_ADJUSTMENT',
+  TOP_UP: 'HOUSE_ADJUSTMENT',
+};
+
+class LedgerService {
+  /**
+   * Post a balance movement: update the wallet column and write the balanced
+   * journal lines. Must run inside the caller's transaction.
+   */
+  async post(client: PoolClient, posting: LedgerMovement): Promise<LedgerBalances> {
+    const movement = { ...posting, amount: roundMoney(posting.amount) };
+    const column = movement.accountType === 'LIVE' ? 'demoBalance' : 'practiceBalance';
+    const referralUpdate = movement.reason === 'REFERRAL_COMMISSION'
+      ? `"referralEarnings" = "referralEarnings" + $1,`
+      : '';
+
+    const result = await client.query<LedgerBalances>(
+      `UPDATE "User" SET "${column}" = "${column}" + $1, ${referralUpdate} "updatedAt" = $2
+       WHERE id = $3
+       RETURNING "demoBalance", "practiceBalance", "referralEarnings"`,
+      [movement.amount, new Date(), movement.userId]
+    );
+
+    const row = result.rows[0];
+    if (!row) {
+      throw new LedgerServiceError('User not found', 404);
+    }
+
+    const balances = {
+      demoBalance: Number(row.demoBalance),
+      practiceBalance: Number(row.practiceBalance),
+      referralEarnings: Number(row.referralEarnings),
+    };
+
+    if (movement.amount !== 0) {
+      await this.writeJournal(
+        client,
+        movement,
+        movement.accountType === 'LIVE' ? balances.demoBalance : balances.practiceBalance
+      );
+    }
+
+    return balances;
+  }
+
+  /**
+   * Set a wallet to an absolute value by posting the difference
+   */
+  async setBalance(
+    client: PoolClient,
+    movement: Omit<LedgerMovement, 'amount'> & { target: number }
+  ): Promise<LedgerBalances> {
+    const column = movement.accountType === 'LIVE' ? 'demoBalance' : 'practiceBalance';
+    const current = await client.query<{ balance: number }>(
+      `SELECT "${column}" as balance FROM "User" WHERE id = $1 FOR UPDATE`,
+      [movement.userId]
+    );
+
+    if (!current.rows[0]) {
+      throw new LedgerServiceError('User not found', 404);
+    }
+
+    const { target, ...rest } = movement;
+    return this.post(client, { ...rest, amount: subtractMoney(target, current.rows[0].balance) });
+  }
+
+  /**
+   * Journal the starting balances of a newly created user
+   */
+  async recordOpeningBalances(
+    client: PoolClient,
+    userId: string,
+    balances: { demoBalance: number; practiceBalance: number }
+  ): Promise<void> {
+    const openings: Array<[LedgerAccountType, number]> = [
+      ['LIVE', Number(balances.demoBalance)],
+      ['DEMO', Number(balances.practiceBalance)],
+    ];
+
+    for (const [accountType, amount] of openings) {
+      if (amount === 0) continue;
+      await this.writeJournal(client, {
+        userId,
+        accountType,
+        amount,
+        reason: 'OPENING_BALANCE',
+        sourceType: 'USER',
+        sourceId: userId,
+        description: 'Opening balance',
+      }, amount);
+    }
+  }
+
+  /**
+   * Account statement for one wallet, newest entries first
+   */
+  async getStatement(
+    userId: string,
+    options: { accountType?: LedgerAccountType; from?: Date; to?: Date; limit?: number; offset?: number } = {}
+  ): Promise<Statement> {
+    const accountType = options.accountType ?? 'LIVE';
+    const account: LedgerAccount = accountType === 'LIVE' ? 'USER_LIVE' : 'USER_DEMO';
+    const from = options.from ?? null;
+    const to = options.to ?? null;
+    const limit = options.limit ?? 50;
+    const offset = options.offset ?? 0;
+
+    const signedAmount = `CASE WHEN side = 'CREDIT' THEN amount ELSE -amount END`;
+
+    const [summary, entries] = await Promise.all([
+      queryOne<{ opening: number; credits: number; debits: number; total: string }>(
+        `SELECT
+          COALESCE(SUM(${signedAmount}) FILTER (WHERE $3::timestamp IS NOT NULL AND "createdAt" < $3), 0) as opening,
+          COALESCE(SUM(amount) FILTER (WHERE side = 'CREDIT' AND ($3::timestamp IS NULL OR "createdAt" >= $3)), 0) as credits,
+          COALESCE(SUM(amount) FILTER (WHERE side = 'DEBIT' AND ($3::timestamp IS NULL OR "createdAt" >= $3)), 0) as debits,
+          COUNT(*) FILTER (WHERE $3::timestamp IS NULL OR "createdAt" >= $3) as total
+         FROM "LedgerEntry"
+         WHERE "userId" = $1 AND account = $2
+           AND ($4::timestamp IS NULL OR "createdAt" < $4)`,
+        [userId, account, from, to]
+      ),
+      queryMany<LedgerEntryRow>(
+        `SELECT * FROM "LedgerEntry"
+         WHERE "userId" = $1 AND account = $2
+           AND ($3::timestamp IS NULL OR "createdAt" >= $3)
+           AND ($4::timestamp IS NULL OR "createdAt" < $4)
+         ORDER BY "createdAt" DESC, id DESC
+         LIMIT $5 OFFSET $6`,
+        [userId, account, from, to, limit, offset]
+      ),
+    ]);
+
+    const openingBalance = Number(summary?.opening || 0);
+    const totalCredits = Number(summary?.credits || 0);
+    const totalDebits = Number(summary?.debits || 0);
+
+    return {
+      accountType,
+      from,
+      to,
+      openingBalance,
+      closingBalance: subtractMoney(addMoney(openingBalance, totalCredits), totalDebits),
+      totalCredits,
+      totalDebits,
+      entries: entries.map((entry) => ({
+        id: entry.id,
+        journalId: entry.journalId,
+        date: entry.createdAt,
+        reason: entry.reason,
+        description: entry.description,
+        sourceType: entry.sourceType,
+        sourceId: entry.sourceId,
+        amount: entry.side === 'CREDIT' ? Number(entry.amount) : -Number(entry.amount),
+        balanceAfter: entry.balanceAfter !== null ? Number(entry.balanceAfter) : null,
+      })),
+      total: parseInt(summary?.total || '0', 10),
+    };
+  }
+
+  /**
+   * Compare every user's stored balances with the ledger sums and record
+   * mismatches as open LedgerDiscrepancy rows. Discrepancies that no longer
+   * reproduce are marked resolved.
+   */
+  async reconcileBalances(): Promise<ReconciliationResult> {
+    const rows = await queryMany<{
+      userId: string;
+      demoBalance: number;
+      practiceBalance: number;
+      referralEarnings: number;
+      ledgerLive: number;
+      ledgerDemo: number;
+      ledgerReferral: number;
+    }>(
+      `SELECT
+        u.id as "userId", u."demoBalance", u."practiceBalance", u."referralEarnings",
+        COALESCE(l.live, 0) as "ledgerLive",
+        COALESCE(l.demo, 0) as "ledgerDemo",
+        COALESCE(l.referral, 0) as "ledgerReferral"
+       FROM "User" u
+       LEFT JOIN (
+         SELECT "userId",
+           SUM(CASE WHEN side = 'CREDIT' THEN amount ELSE -amount END) FILTER (WHERE account = 'USER_LIVE') as live,
+           SUM(CASE WHEN side = 'CREDIT' THEN amount ELSE -amount END) FILTER (WHERE account = 'USER_DEMO') as demo,
+           SUM(CASE WHEN side = 'CREDIT' THEN amount ELSE -amount END)
+             FILTER (WHERE account = 'USER_LIVE' AND reason = 'REFERRAL_COMMISSION') as referral
+         FROM "LedgerEntry"
+         WHERE account IN ('USER_LIVE', 'USER_DEMO')
+         GROUP BY "userId"
+       ) l ON l."userId" = u.id`
+    );
+
+    const found: Array<{ userId: string; account: string; stored: number; ledger: number }> = [];
+
+    for (const row of rows) {
+      const checks: Array<[string, number, number]> = [
+        ['USER_LIVE', Number(row.demoBalance), Number(row.ledgerLive)],
+        ['USER_DEMO', Number(row.practiceBalance), Number(row.ledgerDemo)],
+        ['REFERRAL_EARNINGS', Number(row.referralEarnings), Number(row.ledgerReferral)],
+      ];
+
+      for (const [account, stored, ledger] of checks) {
+        // Amounts are exact decimals, so any difference is a real discrepancy
+        if (subtractMoney(stored, ledger) !== 0) {
+          found.push({ userId: row.userId, account, stored, ledger });
+        }
+      }
+    }
+
+    const now = new Date();
+
+    const resolved = await transaction(async (client) => {
+      const open = await client.query<{ id: string; userId: string; account: string }>(
+        `SELECT id, "userId", account FROM "LedgerDiscrepancy" WHERE "resolvedAt" IS NULL FOR UPDATE`
+      );
+      const openByKey = new Map(open.rows.map((d) => [`${d.userId}:${d.account}`, d.id]));
+
+      for (const discrepancy of found) {
+        const key = `${discrepancy.userId}:${discrepancy.account}`;
+        const existingId = openByKey.get(key);
+
+        if (existingId) {
+          await client.query(
+            `UPDATE "LedgerDiscrepancy" SET "storedBalance" = $1, "ledgerBalance" = $2, difference = $3, "lastCheckedAt" = $4
+             WHERE id = $5`,
+            [discrepancy.stored, discrepancy.ledger, subtractMoney(discrepancy.stored, discrepancy.ledger), now, existingId]
+          );
+          openByKey.delete(key);
+        } else {
+          await client.query(
+            `INSERT INTO "LedgerDiscrepancy" (
+              id, "userId", account, "storedBalance", "ledgerBalance", difference, "detectedAt", "lastCheckedAt"
+            ) VALUES ($1, $2, $3, $4, $5, $6, $7, $7)`,
+            [
+              randomUUID(),
+              discrepancy.userId,
+              discrepancy.account,
+              discrepancy.stored,
+              discrepancy.ledger,
+              subtractMoney(discrepancy.stored, discrepancy.ledger),
+              now,
+            ]
+          );
+        }
+      }
+
+      // Whatever is left open no longer reproduces
+      const staleIds = Array.from(openByKey.values());
+      if (staleIds.length > 0) {
+        await client.query(
+          `UPDATE "LedgerDiscrepancy" SET "resolvedAt" = $1, "lastCheckedAt" = $1 WHERE id = ANY($2)`,
+          [now, staleIds]
+        );
+      }
+
+      return staleIds.length;
+    });
+
+    const unbalanced = await queryOne<{ count: string }>(
+      `SELECT COUNT(*) as count FROM (
+        SELECT "journalId" FROM "LedgerEntry"
+        GROUP BY "journalId"
+        HAVING SUM(CASE WHEN side = 'DEBIT' THEN amount ELSE -amount END) <> 0
+      ) j`
+    );
+
+    const result = {
+      usersChecked: rows.length,
+      discrepancies: found.length,
+      resolved,
+      unbalancedJournals: parseInt(unbalanced?.count || '0', 10),
+    };
+
+    if (result.discrepancies > 0 || result.unbalancedJournals > 0) {
+      logger.warn('[Ledger] Reconciliation found mismatches', result);
+    } else {
+      logger.info('[Ledger] Reconciliation clean', result);
+    }
+
+    return result;
+  }
+
+  private async writeJournal(
+    client: PoolClient,
+    movement: LedgerMovement,
+    balanceAfter: number
+  ): Promise<void> {
+    const journalId = randomUUID();
+    const userAccount: LedgerAccount = movement.accountType === 'LIVE' ? 'USER_LIVE' : 'USER_DEMO';
+    // Practice money never leaves the platform, so every DEMO movement is against HOUSE_DEMO
+    const houseAccount: LedgerAccount = movement.accountType === 'DEMO' ? 'HOUSE_DEMO' : HOUSE_ACCOUNTS[movement.reason];
+    const isCredit = movement.amount > 0;
+    const amount = Math.abs(movement.amount);
+    const now = new Date();
+
+    await client.query(
+      `INSERT INTO "LedgerEntry" (
+        id, "journalId", "userId", account, side, amount, reason,
+        "sourceType", "sourceId", description, "balanceAfter", "createdAt"
+      ) VALUES
+        ($1, $3, $4, $5, $6, $8, $9, $10, $11, $12, $13, $14),
+        ($2, $3, $4, $7, $15, $8, $9, $10, $11, $12, NULL, $14)`,
+      [
+        randomUUID(),
+        randomUUID(),
+        journalId,
+        movement.userId,
+        userAccount,
+        isCredit ? 'CREDIT' : 'DEBIT',
+        houseAccount,
+        amount,
+        movement.reason,
+        movement.sourceType ?? null,
+        movement.sourceId ?? null,
+        movement.description ?? null,
+        balanceAfter,
+        now,
+        isCredit ? 'DEBIT' : 'CREDIT',
+      ]
+    );
+  }
+}
+
+export const ledgerService = new LedgerService();
+export { LedgerServiceError };
+export type { LedgerMovement, LedgerBalances, LedgerAccountType, LedgerReason, Statement, StatementEntry, ReconciliationResult };
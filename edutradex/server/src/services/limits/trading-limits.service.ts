@@ -0,0 +1,484 @@
+import { PoolClient } from 'pg';
+import { transaction, queryOne } from '../../config/db.js';
+import { config } from '../../config/env.js';
+import { logger } from '../../utils/logger.js';
+import { addMoney, subtractMoney } from '../../utils/money.js';
+import { randomUUID } from 'crypto';
+
+/**
+ * Trading Limits Service
+ *
+ * Self-imposed limits a user sets to cap their own risk:
+ * - daily loss limit, daily stake turnover, max open trades, max stake per trade
+ *   and a session time limit (counted from the session's first trade, followed by
+ *   a cool-off before a new session can start) - LIVE trades only
+ * - time-out and self-exclusion periods, which block all trading and deposits
+ *   until they end and cannot be shortened
+ *
+ * Lowering (tightening) a limit applies immediately. Raising or removing one is
+ * stored as a PendingLimitChange and only applies after the cooling delay; due
+ * changes are applied lazily whenever the user's limits are read or enforced.
+ */
+
+type LimitType =
+  | 'dailyLossLimit'
+  | 'dailyStakeLimit'
+  | 'maxOpenTrades'
+  | 'maxStakePerTrade'
+  | 'sessionTimeLimitMinutes';
+
+type TimeOutPeriod = '24_HOURS' | '7_DAYS' | '30_DAYS';
+type SelfExclusionPeriod = '6_MONTHS' | '1_YEAR' | '5_YEARS';
+
+type LimitValues = Record<LimitType, number | null>;
+
+interface PendingLimitChangeInfo {
+  limitType: LimitType;
+  newValue: number | null;
+  effectiveAt: Date;
+}
+
+interface LimitUsage {
+  dailyLoss: number;
+  dailyStake: number;
+  openTrades: number;
+  sessionMinutes: number | null;
+  sessionCoolOffUntil: Date | null;
+}
+
+interface TradingLimitsState {
+  limits: LimitValues;
+  pendingChanges: PendingLimitChangeInfo[];
+  timeOutUntil: Date | null;
+  selfExcludedUntil: Date | null;
+  usage: LimitUsage;
+  increaseDelayHours: number;
+}
+
+interface TradingLimitsRow extends LimitValues {
+  timeOutUntil: Date | null;
+  selfExcludedUntil: Date | null;
+  sessionStartedAt: Date | null;
+}
+
+interface SessionStatus {
+  minutes: number | null;
+  coolOffUntil: Date | null;
+}
+
+class TradingLimitsServiceError extends Error {
+  constructor(
+    message: string,
+    public statusCode: number = 400
+  ) {
+    super(message);
+    this.name = 'TradingLimitsServiceError';
+  }
+}
+
+// Whitelist - limit types are interpolated as column names
+const LIMIT_TYPES: LimitType[] = [
+  'dailyLossLimit',
+  'dailyStakeLimit',
+  'maxOpenTrades',
+  'maxStakePerTrade',
+  'sessionTimeLimitMinutes',
+];
+
+const MINUTE_MS = 60 * 1000;
+const HOUR_MS = 60 * MINUTE_MS;
+
+const TIME_OUT_HOURS: Record<TimeOutPeriod, number> = {
+  '24_HOURS': 24,
+  '7_DAYS': 7 * 24,
+  '30_DAYS': 30 * 24,
+};
+
+const SELF_EXCLUSION_MONTHS: Record<SelfExclusionPeriod, number> = {
+  '6_MONTHS': 6,
+  '1_YEAR': 12,
+  '5_YEARS': 60,
+};
+
+function startOfUtcDay(date: Date): Date {
+  return new Date(Date.UTC(date.getUTCFullYear(), date.getUTCMonth(), date.getUTCDate()));
+}
+
+function formatUntil(date: Date): string {
+  return date.toISOString().replace('T', ' ').slice(0, 16) + ' UTC';
+}
+
+class TradingLimitsService {
+  private readonly INCREASE_DELAY_MS = config.tradingLimits.increaseDelayHours * HOUR_MS;
+  private readonly SESSION_COOL_OFF_MS = config.tradingLimits.sessionCoolOffMinutes * MINUTE_MS;
+
+  /**
+   * Current limits, pending increases, exclusions and today's usage
+   */
+  async getLimits(userId: string): Promise<TradingLimitsState> {
+    return transaction(async (client) => {
+      await this.applyDueChanges(client, userId);
+
+      const row = await this.getRow(client, userId);
+      const pending = await client.query<PendingLimitChangeInfo>(
+        `SELECT "limitType", "newValue", "effectiveAt"
+         FROM "PendingLimitChange" WHERE "userId" = $1
+         ORDER BY "effectiveAt" ASC`,
+        [userId]
+      );
+      const usage = await this.getUsage(client, userId, row, new Date());
+
+      return {
+        limits: this.pickLimits(row),
+        pendingChanges: pending.rows,
+        timeOutUntil: row?.timeOutUntil ?? null,
+        selfExcludedUntil: row?.selfExcludedUntil ?? null,
+        usage,
+        increaseDelayHours: config.tradingLimits.increaseDelayHours,
+      };
+    });
+  }
+
+  /**
+   * Set limits. A decrease (or a new limit) applies now; an increase or removal
+   * (null) waits out the cooling delay. Omitted limits are left unchanged.
+   */
+  async updateLimits(userId: string, changes: Partial<LimitValues>): Promise<TradingLimitsState> {
+    const now = new Date();
+    const effectiveAt = new Date(now.getTime() + this.INCREASE_DELAY_MS);
+
+    await transaction(async (client) => {
+      await this.applyDueChanges(client, userId);
+      await this.ensureRow(client, userId);
+
+      const locked = await client.query<TradingLimitsRow>(
+        `SELECT * FROM "TradingLimits" WHERE "userId" = $1 FOR UPDATE`,
+        [userId]
+      );
+      const current = this.pickLimits(locked.rows[0]);
+
+      for (const limitType of LIMIT_TYPES) {
+        const next = changes[limitType];
+        if (next === undefined) continue;
+
+        const previous = current[limitType];
+        const isTightening = next !== null && (previous === null || next < previous);
+
+        if (isTightening || next === previous) {
+          if (next !== previous) {
+            await client.query(
+              `UPDATE "TradingLimits" SET "${limitType}" = $1, "updatedAt" = $2 WHERE "userId" = $3`,
+              [next, now, userId]
+            );
+          }
+          // Keeping or tightening a limit supersedes any increase still cooling down
+          await client.query(
+            `DELETE FROM "PendingLimitChange" WHERE "userId" = $1 AND "limitType" = $2`,
+            [userId, limitType]
+          );
+        } else {
+          // Re-requesting an increase restarts the cooling delay
+          await client.query(
+            `INSERT INTO "PendingLimitChange" (id, "userId", "limitType", "newValue", "effectiveAt", "createdAt")
+             VALUES ($1, $2, $3, $4, $5, $6)
+             ON CONFLICT ("userId", "limitType") DO UPDATE SET
+               "newValue" = EXCLUDED."newValue",
+               "effectiveAt" = EXCLUDED."effectiveAt",
+               "createdAt" = EXCLUDED."createdAt"`,
+            [randomUUID(), userId, limitType, next, effectiveAt, now]
+          );
+        }
+      }
+    });
+
+    logger.info('[TradingLimits] Limits updated', { userId, changes });
+
+    return this.getLimits(userId);
+  }
+
+  /**
+   * Withdraw an increase that has not taken effect yet
+   */
+  async cancelPendingChange(userId: string, limitType: LimitType): Promise<TradingLimitsState> {
+    const deleted = await queryOne<{ id: string }>(
+      `DELETE FROM "PendingLimitChange" WHERE "userId" = $1 AND "limitType" = $2 RETURNING id`,
+      [userId, limitType]
+    );
+
+    if (!deleted) {
+      throw new TradingLimitsServiceError('No pending change for this limit', 404);
+    }
+
+    return this.getLimits(userId);
+  }
+
+  /**
+   * Take a break from trading and deposits. Extends, never shortens, an active time-out.
+   */
+  async startTimeOut(userId: string, period: TimeOutPeriod): Promise<TradingLimitsState> {
+    const until = new Date(Date.now() + TIME_OUT_HOURS[period] * HOUR_MS);
+    await this.extendExclusion(userId, 'timeOutUntil', until);
+
+    logger.info('[TradingLimits] Time-out started', { userId, period, until });
+
+    return this.getLimits(userId);
+  }
+
+  /**
+   * Self-exclude from trading and deposits. Extends, never shortens, an active exclusion.
+   */
+  async startSelfExclusion(userId: string, period: SelfExclusionPeriod): Promise<TradingLimitsState> {
+    const until = new Date();
+    until.setUTCMonth(until.getUTCMonth() + SELF_EXCLUSION_MONTHS[period]);
+    await this.extendExclusion(userId, 'selfExcludedUntil', until);
+
+    logger.warn('[TradingLimits] Self-exclusion started', { userId, period, until });
+
+    return this.getLimits(userId);
+  }
+
+  /**
+   * Reason a trade may not be placed, or null if it is within the user's limits.
+   * Runs on the caller's transaction, which must hold the User row lock so
+   * concurrent placements for the same user are checked one at a time. An allowed
+   * trade with no session running starts one, committed with the trade itself.
+   */
+  async getTradeBlockReason(
+    client: PoolClient,
+    userId: string,
+    accountType: 'LIVE' | 'DEMO',
+    amount: number
+  ): Promise<string | null> {
+    await this.applyDueChanges(client, userId);
+
+    const row = await this.getRow(client, userId);
+    if (!row) return null;
+
+    const now = new Date();
+    const exclusion = this.getExclusionReason(row, now);
+    if (exclusion) return exclusion;
+
+    // Limits cap real-money risk only
+    if (accountType !== 'LIVE') return null;
+
+    const limits = this.pickLimits(row);
+
+    if (limits.maxStakePerTrade !== null && amount > limits.maxStakePerTrade) {
+      return `Your stake limit is $${limits.maxStakePerTrade.toFixed(2)} per trade`;
+    }
+
+    const usage = await this.getUsage(client, userId, row, now);
+
+    if (usage.sessionCoolOffUntil) {
+      return `You have reached your session time limit of ${limits.sessionTimeLimitMinutes} minutes. You can trade again after ${formatUntil(usage.sessionCoolOffUntil)}`;
+    }
+
+    if (limits.maxOpenTrades !== null && usage.openTrades >= limits.maxOpenTrades) {
+      return `You have reached your limit of ${limits.maxOpenTrades} open trades`;
+    }
+
+    if (limits.dailyStakeLimit !== null && addMoney(usage.dailyStake, amount) > limits.dailyStakeLimit) {
+      const remaining = Math.max(0, subtractMoney(limits.dailyStakeLimit, usage.dailyStake));
+      return `This trade would exceed your daily stake limit ($${remaining.toFixed(2)} remaining today)`;
+    }
+
+    if (limits.dailyLossLimit !== null) {
+      // Worst case: every open stake and this one are lost
+      const openStake = await this.getOpenStake(client, userId);
+      const potentialLoss = addMoney(usage.dailyLoss, openStake, amount);
+
+      if (potentialLoss > limits.dailyLossLimit) {
+        return `This trade could exceed your daily loss limit of $${limits.dailyLossLimit.toFixed(2)}`;
+      }
+    }
+
+    if (limits.sessionTimeLimitMinutes !== null && usage.sessionMinutes === null) {
+      await client.query(
+        `UPDATE "TradingLimits" SET "sessionStartedAt" = $1, "updatedAt" = $1 WHERE "userId" = $2`,
+        [now, userId]
+      );
+    }
+
+    return null;
+  }
+
+  /**
+   * Reason a deposit may not be made (active time-out or self-exclusion), or null
+   */
+  async getDepositBlockReason(userId: string): Promise<string | null> {
+    const row = await queryOne<TradingLimitsRow>(
+      `SELECT * FROM "TradingLimits" WHERE "userId" = $1`,
+      [userId]
+    );
+
+    return row ? this.getExclusionReason(row, new Date()) : null;
+  }
+
+  private getExclusionReason(row: TradingLimitsRow, now: Date): string | null {
+    if (row.selfExcludedUntil && row.selfExcludedUntil > now) {
+      return `Your account is self-excluded until ${formatUntil(row.selfExcludedUntil)}`;
+    }
+    if (row.timeOutUntil && row.timeOutUntil > now) {
+      return `You are on a time-out until ${formatUntil(row.timeOutUntil)}`;
+    }
+    return null;
+  }
+
+  private async extendExclusion(
+    userId: string,
+    column: 'timeOutUntil' | 'selfExcludedUntil',
+    until: Date
+  ): Promise<void> {
+    await transaction(async (client) => {
+      await this.ensureRow(client, userId);
+      await client.query(
+        `UPDATE "TradingLimits"
+         SET "${column}" = GREATEST(COALESCE("${column}", $1), $1), "updatedAt" = NOW()
+         WHERE "userId" = $2`,
+        [until, userId]
+      );
+    });
+  }
+
+  /**
+   * Move increases whose cooling delay has passed onto the limits row
+   */
+  private async applyDueChanges(client: PoolClient, userId: string): Promise<void> {
+    const due = await client.query<{ limitType: LimitType; newValue: number | null }>(
+      `DELETE FROM "PendingLimitChange"
+       WHERE "userId" = $1 AND "effectiveAt" <= $2
+       RETURNING "limitType", "newValue"`,
+      [userId, new Date()]
+    );
+
+    if (due.rows.length === 0) return;
+
+    await this.ensureRow(client, userId);
+
+    for (const change of due.rows) {
+      if (!LIMIT_TYPES.includes(change.limitType)) continue;
+
+      await client.query(
+        `UPDATE "TradingLimits" SET "${change.limitType}" = $1, "updatedAt" = NOW() WHERE "userId" = $2`,
+        [change.newValue, userId]
+      );
+    }
+
+    logger.info('[TradingLimits] Applied limit increases after cooling delay', {
+      userId,
+      changes: due.rows,
+    });
+  }
+
+  private async ensureRow(client: PoolClient, userId: string): Promise<void> {
+    await client.query(
+      `INSERT INTO "TradingLimits" (id, "userId", "createdAt", "updatedAt")
+       VALUES ($1, $2, NOW(), NOW())
+       ON CONFLICT ("userId") DO NOTHING`,
+      [randomUUID(), userId]
+    );
+  }
+
+  private async getRow(client: PoolClient, userId: string): Promise<TradingLimitsRow | null> {
+    const result = await client.query<TradingLimitsRow>(
+      `SELECT * FROM "TradingLimits" WHERE "userId" = $1`,
+      [userId]
+    );
+    return result.rows[0] || null;
+  }
+
+  private pickLimits(row: TradingLimitsRow | null | undefined): LimitValues {
+    return {
+      dailyLossLimit: row?.dailyLossLimit ?? null,
+      dailyStakeLimit: row?.dailyStakeLimit ?? null,
+      maxOpenTrades: row?.maxOpenTrades ?? null,
+      maxStakePerTrade: row?.maxStakePerTrade ?? null,
+      sessionTimeLimitMinutes: row?.sessionTimeLimitMinutes ?? null,
+    };
+  }
+
+  /**
+   * Where the user is in their trading session: minutes into the current one, or
+   * the end of the cool-off after one that ran out. Once the cool-off has passed
+   * the old session no longer counts and the next trade starts a new one.
+   */
+  private getSessionStatus(row: TradingLimitsRow | null, now: Date): SessionStatus {
+    const limitMinutes = row?.sessionTimeLimitMinutes ?? null;
+    if (limitMinutes === null || !row?.sessionStartedAt) {
+      return { minutes: null, coolOffUntil: null };
+    }
+
+    const elapsedMs = now.getTime() - row.sessionStartedAt.getTime();
+    if (elapsedMs < limitMinutes * MINUTE_MS) {
+      return { minutes: Math.floor(elapsedMs / MINUTE_MS), coolOffUntil: null };
+    }
+
+    const coolOffUntil = new Date(row.sessionStartedAt.getTime() + limitMinutes * MINUTE_MS + this.SESSION_COOL_OFF_MS);
+    if (now < coolOffUntil) {
+      return { minutes: limitMinutes, coolOffUntil };
+    }
+
+    return { minutes: null, coolOffUntil: null };
+  }
+
+  /**
+   * Today's (UTC) LIVE usage against the limits, copied trades included
+   */
+  private async getUsage(
+    client: PoolClient,
+    userId: string,
+    row: TradingLimitsRow | null,
+    now: Date
+  ): Promise<LimitUsage> {
+    const dayStart = startOfUtcDay(now);
+
+    const result = await client.query<{
+      dailyStake: number;
+      dailyProfit: number;
+      openTrades: string;
+    }>(
+      `SELECT
+        COALESCE(SUM(t.amount) FILTER (WHERE t."openedAt" >= $2), 0) as "dailyStake",
+        COALESCE(SUM(t.profit) FILTER (WHERE t.status = 'CLOSED' AND t."closedAt" >= $2), 0) as "dailyProfit",
+        COUNT(t.id) FILTER (WHERE t.status = 'OPEN') as "openTrades"
+       FROM "User" u
+       LEFT JOIN "Trade" t ON t."userId" = u.id AND t."accountType" = 'LIVE'
+         AND (t.status = 'OPEN' OR t."openedAt" >= $2 OR t."closedAt" >= $2)
+       WHERE u.id = $1
+       GROUP BY u.id`,
+      [userId, dayStart]
+    );
+
+    const totals = result.rows[0];
+    const dailyProfit = Number(totals?.dailyProfit || 0);
+    const session = this.getSessionStatus(row, now);
+
+    return {
+      dailyLoss: dailyProfit < 0 ? -dailyProfit : 0,
+      dailyStake: Number(totals?.dailyStake || 0),
+      openTrades: parseInt(totals?.openTrades || '0', 10),
+      sessionMinutes: session.minutes,
+      sessionCoolOffUntil: session.coolOffUntil,
+    };
+  }
+
+  private async getOpenStake(client: PoolClient, userId: string): Promise<number> {
+    const result = await client.query<{ total: number }>(
+      `SELECT COALESCE(SUM(amount), 0) as total
+       FROM "Trade" WHERE "userId" = $1 AND "accountType" = 'LIVE' AND status = 'OPEN'`,
+      [userId]
+    );
+    return Number(result.rows[0]?.total || 0);
+  }
+}
+
+export const tradingLimitsService = new TradingLimitsService();
+export { TradingLimitsServiceError, LIMIT_TYPES };
+export type {
+  LimitType,
+  LimitValues,
+  TimeOutPeriod,
+  SelfExclusionPeriod,
+  TradingLimitsState,
+  PendingLimitChangeInfo,
+};
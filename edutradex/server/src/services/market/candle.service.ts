@@ -0,0 +1,422 @@
+import { query, queryMany } from '../../config/db.js';
+import { logger } from '../../utils/logger.js';
+import { wsManager } from '../websocket/websocket.manager.js';
+import { marketService, type OHLCBar } from './market.service.js';
+import { otcMarketService } from '../otc/otc-market.service.js';
+
+/**
+ * Candle Service
+ *
+ * Builds OHLC candles from live ticks as they arrive, at the resolutions in
+ * STORED_RESOLUTIONS. Every node aggregates the ticks it receives so it can
+ * push live candles to its own WebSocket clients; only the running service
+ * (the cluster leader's) writes them to the Candle table.
+ *
+ * Other resolutions are rolled up from the largest stored one that divides
+ * them. Stored history is topped up with older bars from the external feeds
+ * (or OTCPriceHistory) until enough candles have been collected.
+ *
+ * Candle times are unix seconds at the start of the bucket, like OHLCBar.
+ * Volume is the number of ticks in the candle.
+ */
+
+interface Candle {
+  symbol: string;
+  resolution: number;
+  time: number;
+  open: number;
+  high: number;
+  low: number;
+  close: number;
+  volume: number;
+}
+
+interface CandleRow {
+  time: Date;
+  open: number;
+  high: number;
+  low: number;
+  close: number;
+  volume: number;
+}
+
+interface BarsQuery {
+  from?: number; // inclusive, unix seconds
+  to?: number; // exclusive, unix seconds
+  limit: number;
+}
+
+// 5s, 1m, 5m, 15m, 1h, 4h, 1d
+const STORED_RESOLUTIONS = [5, 60, 300, 900, 3600, 14400, 86400] as const;
+
+// How long each resolution is kept, in days (null = forever)
+const RETENTION_DAYS: Record<number, number | null> = {
+  5: 2,
+  60: 30,
+  300: 90,
+  900: 180,
+  3600: 730,
+  14400: 1825,
+  86400: null,
+};
+
+const FLUSH_INTERVAL_MS = 5000;
+const CLEANUP_INTERVAL_MS = 60 * 60 * 1000;
+const UPSERT_BATCH_SIZE = 500;
+// Upper bound on stored rows read to roll up one request
+const MAX_ROLLUP_ROWS = 10000;
+
+class CandleService {
+  // symbol -> resolution -> candle currently being built
+  private liveCandles: Map<string, Map<number, Candle>> = new Map();
+  // Candles changed since the last flush, by symbol|resolution|time
+  private dirty: Map<string, Candle> = new Map();
+  private unsubscribers: (() => void)[] = [];
+  private flushInterval: NodeJS.Timeout | null = null;
+  private cleanupInterval: NodeJS.Timeout | null = null;
+  private isFlushing = false;
+
+  /**
+   * Start aggregating live ticks. Runs on every node.
+   */
+  initialize(): void {
+    if (this.unsubscribers.length > 0) return;
+
+    this.unsubscribers.push(
+      marketService.onPriceUpdate((tick) => this.ingest(tick.symbol, tick.price, tick.timestamp)),
+      otcMarketService.onPriceUpdate((tick) => this.ingest(tick.symbol, tick.price, tick.timestamp))
+    );
+  }
+
+  shutdown(): void {
+    this.unsubscribers.forEach((unsubscribe) => unsubscribe());
+    this.unsubscribers = [];
+  }
+
+  /**
+   * Start persisting candles (cluster leader only)
+   */
+  start(): void {
+    if (this.flushInterval) return;
+
+    // Write what this node built before it took over, e.g. after a failover
+    this.liveCandles.forEach((candles) => {
+      candles.forEach((candle) => {
+        this.dirty.set(`${candle.symbol}|${candle.resolution}|${candle.time}`, candle);
+      });
+    });
+
+    this.flushInterval = setInterval(() => {
+      this.flush().catch((error) => {
+        logger.error('[Candles] Flush failed', { error });
+      });
+    }, FLUSH_INTERVAL_MS);
+
+    this.cleanupInterval = setInterval(() => {
+      this.cleanup().catch((error) => {
+        logger.error('[Candles] Cleanup failed', { error });
+      });
+    }, CLEANUP_INTERVAL_MS);
+
+    logger.info('[Candles] Started', { resolutions: STORED_RESOLUTIONS });
+  }
+
+  stop(): void {
+    if (this.flushInterval) {
+      clearInterval(this.flushInterval);
+      this.flushInterval = null;
+    }
+    if (this.cleanupInterval) {
+      clearInterval(this.cleanupInterval);
+      this.cleanupInterval = null;
+    }
+
+    // Last write of the candles changed since the previous flush
+    this.flush().catch((error) => {
+      logger.error('[Candles] Final flush failed', { error });
+    });
+  }
+
+  isStoredResolution(resolution: number): boolean {
+    return (STORED_RESOLUTIONS as readonly number[]).includes(resolution);
+  }
+
+  /**
+   * Bars for a symbol in [from, to), oldest first. Returns at most `limit`
+   * bars, the most recent ones in the range.
+   */
+  async getBars(symbol: string, resolution: number, { from, to, limit }: BarsQuery): Promise<OHLCBar[]> {
+    const now = Math.floor(Date.now() / 1000);
+    const end = Math.min(to ?? now + resolution, now + resolution);
+    const start = from ?? 0;
+    if (start >= end) return [];
+
+    const baseResolution = this.getBaseResolution(resolution);
+    let bars: OHLCBar[] = [];
+
+    if (baseResolution !== null) {
+      const ratio = resolution / baseResolution;
+      const baseLimit = Math.min(limit * ratio, MAX_ROLLUP_ROWS);
+      // Widen the window to whole target buckets so the first bar is complete
+      const baseStart = Math.floor(start / resolution) * resolution;
+
+      const stored = await this.getStoredCandles(symbol, baseResolution, baseStart, end, baseLimit);
+      bars = ratio === 1 ? stored : this.rollUp(stored, resolution);
+      bars = bars.filter((bar) => bar.time >= start && bar.time < end).slice(-limit);
+    }
+
+    if (bars.length >= limit) return bars;
+
+    const legacy = await this.getLegacyBars(symbol, resolution, limit, bars.length === 0);
+    const oldestStored = bars.length > 0 ? bars[0].time : end;
+    const older = legacy.filter((bar) => bar.time >= start && bar.time < oldestStored);
+
+    return [...older, ...bars].slice(-limit);
+  }
+
+  private ingest(symbol: string, price: number, timestamp: Date): void {
+    if (!Number.isFinite(price) || price <= 0) return;
+
+    const tickTime = Math.floor(timestamp.getTime() / 1000);
+    if (!Number.isFinite(tickTime)) return;
+
+    let candles = this.liveCandles.get(symbol);
+    if (!candles) {
+      candles = new Map();
+      this.liveCandles.set(symbol, candles);
+    }
+
+    for (const resolution of STORED_RESOLUTIONS) {
+      const time = Math.floor(tickTime / resolution) * resolution;
+      let candle = candles.get(resolution);
+
+      // Late tick for a candle that has already closed
+      if (candle && time < candle.time) continue;
+
+      if (!candle || time > candle.time) {
+        candle = { symbol, resolution, time, open: price, high: price, low: price, close: price, volume: 1 };
+        candles.set(resolution, candle);
+      } else {
+        candle.high = Math.max(candle.high, price);
+        candle.low = Math.min(candle.low, price);
+        candle.close = price;
+        candle.volume++;
+      }
+
+      // Only the running service (the cluster leader's) persists, so each candle is written once
+      if (this.flushInterval) {
+        this.dirty.set(`${symbol}|${resolution}|${time}`, candle);
+      }
+
+      if (wsManager.hasCandleSubscribers(symbol, resolution)) {
+        wsManager.broadcastCandleUpdate(candle);
+      }
+    }
+  }
+
+  /**
+   * Largest stored resolution that divides the requested one, or null when
+   * the resolution can't be built from stored candles
+   */
+  private getBaseResolution(resolution: number): number | null {
+    for (let i = STORED_RESOLUTIONS.length - 1; i >= 0; i--) {
+      if (resolution % STORED_RESOLUTIONS[i] === 0) return STORED_RESOLUTIONS[i];
+    }
+    return null;
+  }
+
+  /**
+   * Stored candles in [from, to) merged with the candle still being built
+   */
+  private async getStoredCandles(
+    symbol: string,
+    resolution: number,
+    from: number,
+    to: number,
+    limit: number
+  ): Promise<OHLCBar[]> {
+    const rows = await queryMany<CandleRow>(
+      `SELECT time, open, high, low, close, volume
+       FROM "Candle"
+       WHERE symbol = $1 AND resolution = $2 AND time >= $3 AND time < $4
+       ORDER BY time DESC
+       LIMIT $5`,
+      [symbol, resolution, new Date(from * 1000), new Date(to * 1000), limit]
+    );
+
+    const bars: OHLCBar[] = rows.reverse().map((row) => ({
+      time: Math.floor(row.time.getTime() / 1000),
+      open: row.open,
+      high: row.high,
+      low: row.low,
+      close: row.close,
+      volume: row.volume,
+    }));
+
+    const live = this.liveCandles.get(symbol)?.get(resolution);
+    if (!live || live.time < from || live.time >= to) return bars;
+
+    const last = bars[bars.length - 1];
+    if (last && last.time === live.time) {
+      // This node may have joined mid-candle: keep the stored open and widest range
+      bars[bars.length - 1] = {
+        time: live.time,
+        open: last.open,
+        high: Math.max(last.high, live.high),
+        low: Math.min(last.low, live.low),
+        close: live.close,
+        volume: Math.max(last.volume ?? 0, live.volume),
+      };
+    } else if (!last || last.time < live.time) {
+      bars.push({
+        time: live.time,
+        open: live.open,
+        high: live.high,
+        low: live.low,
+        close: live.close,
+        volume: live.volume,
+      });
+    }
+
+    return bars;
+  }
+
+  private rollUp(bars: OHLCBar[], resolution: number): OHLCBar[] {
+    const rolled: OHLCBar[] = [];
+
+    for (const bar of bars) {
+      const time = Math.floor(bar.time / resolution) * resolution;
+      const current = rolled[rolled.length - 1];
+
+      if (current && current.time === time) {
+        current.high = Math.max(current.high, bar.high);
+        current.low = Math.min(current.low, bar.low);
+        current.close = bar.close;
+        current.volume = (current.volume ?? 0) + (bar.volume ?? 0);
+      } else {
+        rolled.push({ ...bar, time, volume: bar.volume ?? 0 });
+      }
+    }
+
+    return rolled;
+  }
+
+  /**
+   * Bars from the sources used before candles were stored. Real feeds only
+   * go down to one minute, so sub-minute history is only filled from them when
+   * nothing has been stored yet.
+   */
+  private async getLegacyBars(
+    symbol: string,
+    resolution: number,
+    limit: number,
+    nothingStored: boolean
+  ): Promise<OHLCBar[]> {
+    try {
+      if (otcMarketService.isOTCSymbol(symbol)) {
+        return await otcMarketService.getHistoricalBars(symbol, resolution, limit);
+      }
+      if (resolution < 60 && !nothingStored) return [];
+      return await marketService.getRealHistoricalBars(symbol, resolution, limit);
+    } catch (error) {
+      logger.warn('[Candles] Failed to load fallback bars', { symbol, resolution, error });
+      return [];
+    }
+  }
+
+  private async flush(): Promise<void> {
+    if (this.isFlushing || this.dirty.size === 0) return;
+    this.isFlushing = true;
+
+    try {
+      // Copy the values now - live candles keep changing while we write
+      const candles = Array.from(this.dirty.values(), (candle) => ({ ...candle }));
+      this.dirty.clear();
+
+      for (let i = 0; i < candles.length; i += UPSERT_BATCH_SIZE) {
+        await this.upsertBatch(candles.slice(i, i + UPSERT_BATCH_SIZE));
+      }
+    } finally {
+      this.isFlushing = false;
+    }
+  }
+
+  /**
+   * Insert or extend candles. A candle already written by a previous leader
+   * keeps its open, and high/low/volume never shrink.
+   */
+  private async upsertBatch(candles: Candle[]): Promise<void> {
+    const values: string[] = [];
+    const params: (string | number | Date)[] = [];
+    let paramIndex = 1;
+    const now = new Date();
+
+    for (const candle of candles) {
+      const placeholders = Array.from({ length: 9 }, (_, offset) => `$${paramIndex + offset}`);
+      values.push(`(gen_random_uuid(), ${placeholders.join(', ')})`);
+      params.push(
+        candle.symbol,
+        candle.resolution,
+        new Date(candle.time * 1000),
+        candle.open,
+        candle.high,
+        candle.low,
+        candle.close,
+        candle.volume,
+        now
+      );
+      paramIndex += 9;
+    }
+
+    await query(
+      `INSERT INTO "Candle" (id, symbol, resolution, time, open, high, low, close, volume, "updatedAt")
+       VALUES ${values.join(', ')}
+       ON CONFLICT (symbol, resolution, time) DO UPDATE SET
+         high = GREATEST("Candle".high, EXCLUDED.high),
+         low = LEAST("Candle".low, EXCLUDED.low),
+         close = EXCLUDED.close,
+         volume = GREATEST("Candle".volume, EXCLUDED.volume),
+         "updatedAt" = EXCLUDED."updatedAt"`,
+      params
+    );
+  }
+
+  /**
+   * Delete candles past their resolution's retention in small batches to
+   * keep locks short
+   */
+  private async cleanup(): Promise<void> {
+    const BATCH_SIZE = 5000;
+    const MAX_BATCHES = 20;
+
+    for (const resolution of STORED_RESOLUTIONS) {
+      const retentionDays = RETENTION_DAYS[resolution];
+      if (retentionDays === null) continue;
+
+      let totalDeleted = 0;
+      for (let i = 0; i < MAX_BATCHES; i++) {
+        const result = await query(
+          `DELETE FROM "Candle"
+           WHERE ctid IN (
+             SELECT ctid FROM "Candle"
+             WHERE resolution = $1 AND time < NOW() - make_interval(days => $2)
+             LIMIT $3
+           )`,
+          [resolution, retentionDays, BATCH_SIZE]
+        );
+
+        const deletedCount = result?.rowCount || 0;
+        totalDeleted += deletedCount;
+        if (deletedCount < BATCH_SIZE) break;
+      }
+
+      if (totalDeleted > 0) {
+        logger.info('[Candles] Purged old candles', { resolution, deletedCount: totalDeleted });
+      }
+    }
+  }
+}
+
+export const candleService = new CandleService();
+export { STORED_RESOLUTIONS };
+export type { Candle };
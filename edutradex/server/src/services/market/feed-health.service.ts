@@ -0,0 +1,587 @@
+import { randomUUID } from 'crypto';
+import { queryMany } from '../../config/db.js';
+import { config } from '../../config/env.js';
+import { logger } from '../../utils/logger.js';
+import { wsManager } from '../websocket/websocket.manager.js';
+import { leaderElection } from '../cluster/leader-election.js';
+import { marketCalendarService } from './market-calendar.service.js';
+import type { ProviderName } from './providers/market-data-provider.js';
+
+/**
+ * Feed Supervisor
+ *
+ * MarketService passes every live tick through acceptTick() before using it.
+ * The supervisor keeps per-symbol, per-source statistics (tick gaps, latency
+ * from the exchange timestamp, outliers) and decides which ticks get through:
+ *
+ * - A tick that moves more than FEED_OUTLIER_SIGMA standard deviations of the
+ *   recent tick-to-tick returns is dropped. Three consistent outliers in a row
+ *   are taken as a genuine level change and accepted.
+ * - When the active source sends nothing for the stale threshold while the
+ *   market is open, trading on the symbol is suspended and its secondary
+ *   source (if it has one) is subscribed. Trading resumes on the first tick
+ *   from the active source. The primary takes over again once it has ticked
+ *   without a stale gap for FEED_RECOVERY_MS.
+ *
+ * Every node supervises the feed connections it holds itself. Alerts are
+ * kept for the admin page on every node but only pushed to online admins by
+ * the cluster leader, so a dead feed is reported once.
+ */
+
+type FeedSource = ProviderName;
+type FeedState = 'HEALTHY' | 'FAILOVER' | 'SUSPENDED' | 'CLOSED';
+type FeedAlertType = 'STALE' | 'OUTLIER' | 'FAILOVER' | 'RESUMED' | 'RECOVERED';
+type FeedAlertSeverity = 'info' | 'warning' | 'critical';
+
+interface FeedRoute {
+  primary: FeedSource;
+  secondary: FeedSource | null;
+}
+
+// Implemented by MarketService - subscribes/unsubscribes a secondary source
+interface FailoverHandler {
+  activate(symbol: string, source: FeedSource): void;
+  release(symbol: string, source: FeedSource): void;
+}
+
+interface SourceStats {
+  tickCount: number;
+  lastTickAt: number | null;
+  lastPrice: number | null;
+  avgGapMs: number | null;
+  maxGapMs: number;
+  avgLatencyMs: number | null;
+  maxLatencyMs: number;
+  outliers: number;
+  // EWMA of squared log returns between accepted ticks
+  returnVariance: number;
+  returnSamples: number;
+  // Run of outliers that agree with each other (a possible level change)
+  outlierRun: number;
+  outlierRunPrice: number | null;
+  // Start of the current run of ticks without a stale gap
+  steadySince: number | null;
+}
+
+interface SymbolFeed {
+  symbol: string;
+  marketType: string;
+  route: FeedRoute;
+  activeSource: FeedSource;
+  state: FeedState;
+  suspendedReason: string | null;
+  stateSince: number;
+  // When the active source was selected or the market opened - the stale clock starts here
+  watchSince: number;
+  staleEvents: number;
+  lastOutlierAlertAt: number;
+  sources: Map<FeedSource, SourceStats>;
+}
+
+interface FeedAlert {
+  id: string;
+  symbol: string;
+  type: FeedAlertType;
+  severity: FeedAlertSeverity;
+  source: FeedSource;
+  message: string;
+  createdAt: Date;
+}
+
+interface SourceHealth {
+  source: FeedSource;
+  tickCount: number;
+  lastTickAt: Date | null;
+  lastTickAgeMs: number | null;
+  avgGapMs: number | null;
+  maxGapMs: number;
+  avgLatencyMs: number | null;
+  maxLatencyMs: number;
+  outliers: number;
+}
+
+interface SymbolFeedHealth {
+  symbol: string;
+  marketType: string;
+  state: FeedState;
+  activeSource: FeedSource;
+  primarySource: FeedSource;
+  secondarySource: FeedSource | null;
+  suspendedReason: string | null;
+  stateSince: Date;
+  staleEvents: number;
+  staleThresholdMs: number;
+  sources: SourceHealth[];
+}
+
+interface FeedHealthSummary {
+  total: number;
+  healthy: number;
+  failover: number;
+  suspended: number;
+  closed: number;
+  suspendedSymbols: string[];
+}
+
+// Weight of the newest sample in the gap, latency and return averages
+const EWMA_ALPHA = 0.06;
+// Returns needed before outliers are judged
+const MIN_RETURN_SAMPLES = 30;
+// Floor for the return deviation so a quiet feed does not flag every normal move
+const MIN_RETURN_SD = 0.0001;
+const OUTLIER_RUN_TO_ACCEPT = 3;
+const OUTLIER_ALERT_INTERVAL_MS = 5 * 60 * 1000;
+const MAX_ALERTS = 200;
+
+class FeedHealthService {
+  private feeds: Map<string, SymbolFeed> = new Map();
+  private failoverHandler: FailoverHandler | null = null;
+  private alerts: FeedAlert[] = [];
+  // Alerts raised since the last push to admins
+  private pendingAlerts: FeedAlert[] = [];
+  private checkInterval: NodeJS.Timeout | null = null;
+  private isChecking = false;
+
+  /**
+   * Supervise a symbol's live feed. Symbols that are never registered pass
+   * acceptTick() unchecked.
+   */
+  register(symbol: string, marketType: string, route: FeedRoute): void {
+    const now = Date.now();
+    this.feeds.set(symbol, {
+      symbol,
+      marketType,
+      route,
+      activeSource: route.primary,
+      state: 'HEALTHY',
+      suspendedReason: null,
+      stateSince: now,
+      watchSince: now,
+      staleEvents: 0,
+      lastOutlierAlertAt: 0,
+      sources: new Map(),
+    });
+  }
+
+  setFailoverHandler(handler: FailoverHandler): void {
+    this.failoverHandler = handler;
+  }
+
+  /**
+   * Start the stale checks. Runs on every node.
+   */
+  start(): void {
+    if (this.checkInterval) return;
+
+    const now = Date.now();
+    this.feeds.forEach((feed) => {
+      feed.watchSince = now;
+    });
+
+    this.checkInterval = setInterval(() => {
+      this.check().catch((error) => {
+        logger.error('[FeedHealth] Check failed', { error });
+      });
+    }, config.feedHealth.checkIntervalMs);
+
+    logger.info(`[FeedHealth] Supervising ${this.feeds.size} symbols`);
+  }
+
+  stop(): void {
+    if (this.checkInterval) {
+      clearInterval(this.checkInterval);
+      this.checkInterval = null;
+    }
+  }
+
+  /**
+   * Record a tick from `source` and decide whether MarketService should use
+   * it. Rejects invalid prices, outliers and ticks from a source that is not
+   * the symbol's active one.
+   */
+  acceptTick(symbol: string, source: FeedSource, price: number, exchangeTime: number): boolean {
+    const feed = this.feeds.get(symbol);
+    if (!feed) return true;
+    if (!Number.isFinite(price) || price <= 0) return false;
+
+    const now = Date.now();
+    const stats = this.getSourceStats(feed, source);
+    const previousTickAt = stats.lastTickAt;
+    const staleThreshold = this.getStaleThreshold(feed.marketType);
+
+    this.recordArrival(stats, now, exchangeTime, staleThreshold);
+
+    // After a stale gap the first tick sets a new baseline instead of being judged
+    const isAfterGap = previousTickAt === null || now - previousTickAt > staleThreshold;
+    if (!isAfterGap && this.isOutlier(stats, price)) {
+      stats.outliers++;
+      if (now - feed.lastOutlierAlertAt >= OUTLIER_ALERT_INTERVAL_MS) {
+        feed.lastOutlierAlertAt = now;
+        this.raiseAlert(feed, 'OUTLIER', 'warning', source,
+          `${symbol}: dropped outlier tick ${price} from ${source} (last ${stats.lastPrice})`);
+      }
+      return false;
+    }
+
+    stats.lastPrice = price;
+
+    if (source !== feed.activeSource) return false;
+
+    if (feed.state === 'SUSPENDED') {
+      this.resume(feed, now);
+    }
+
+    return true;
+  }
+
+  /**
+   * Why trading on a symbol is suspended, or null when it can be traded
+   */
+  getSuspension(symbol: string): string | null {
+    const feed = this.feeds.get(symbol);
+    return feed?.state === 'SUSPENDED' ? feed.suspendedReason : null;
+  }
+
+  /**
+   * Whether a tick is too old to price the symbol at `at`. Symbols that are
+   * never registered are not judged.
+   */
+  isTickStale(symbol: string, tickAt: Date, at: Date): boolean {
+    const feed = this.feeds.get(symbol);
+    if (!feed) return false;
+    return at.getTime() - tickAt.getTime() > this.getStaleThreshold(feed.marketType);
+  }
+
+  getSummary(): FeedHealthSummary {
+    const summary: FeedHealthSummary = {
+      total: this.feeds.size,
+      healthy: 0,
+      failover: 0,
+      suspended: 0,
+      closed: 0,
+      suspendedSymbols: [],
+    };
+
+    this.feeds.forEach((feed) => {
+      switch (feed.state) {
+        case 'HEALTHY':
+          summary.healthy++;
+          break;
+        case 'FAILOVER':
+          summary.failover++;
+          break;
+        case 'SUSPENDED':
+          summary.suspended++;
+          summary.suspendedSymbols.push(feed.symbol);
+          break;
+        case 'CLOSED':
+          summary.closed++;
+          break;
+      }
+    });
+
+    return summary;
+  }
+
+  /**
+   * Per-symbol state and per-source statistics, for the admin page
+   */
+  getSymbolHealth(): SymbolFeedHealth[] {
+    const now = Date.now();
+
+    return Array.from(this.feeds.values()).map((feed) => ({
+      symbol: feed.symbol,
+      marketType: feed.marketType,
+      state: feed.state,
+      activeSource: feed.activeSource,
+      primarySource: feed.route.primary,
+      secondarySource: feed.route.secondary,
+      suspendedReason: feed.suspendedReason,
+      stateSince: new Date(feed.stateSince),
+      staleEvents: feed.staleEvents,
+      staleThresholdMs: this.getStaleThreshold(feed.marketType),
+      sources: Array.from(feed.sources.entries()).map(([source, stats]) => ({
+        source,
+        tickCount: stats.tickCount,
+        lastTickAt: stats.lastTickAt !== null ? new Date(stats.lastTickAt) : null,
+        lastTickAgeMs: stats.lastTickAt !== null ? now - stats.lastTickAt : null,
+        avgGapMs: stats.avgGapMs !== null ? Math.round(stats.avgGapMs) : null,
+        maxGapMs: stats.maxGapMs,
+        avgLatencyMs: stats.avgLatencyMs !== null ? Math.round(stats.avgLatencyMs) : null,
+        maxLatencyMs: stats.maxLatencyMs,
+        outliers: stats.outliers,
+      })),
+    }));
+  }
+
+  /**
+   * Most recent alerts first
+   */
+  getRecentAlerts(limit: number = 50): FeedAlert[] {
+    return this.alerts.slice(-limit).reverse();
+  }
+
+  private async check(): Promise<void> {
+    if (this.isChecking) return;
+    this.isChecking = true;
+
+    try {
+      const now = Date.now();
+      const statuses = await marketCalendarService.getAllSymbolStatuses(new Date(now));
+      const isOpen = new Map(statuses.map((status) => [status.symbol, status.isOpen]));
+
+      this.feeds.forEach((feed) => {
+        if (isOpen.get(feed.symbol) === false) {
+          this.markClosed(feed, now);
+        } else {
+          this.evaluate(feed, now);
+        }
+      });
+
+      await this.pushAlerts();
+    } finally {
+      this.isChecking = false;
+    }
+  }
+
+  private evaluate(feed: SymbolFeed, now: number): void {
+    if (feed.state === 'CLOSED') {
+      // Market just opened - give the feed a full threshold to start ticking
+      this.setState(feed, 'HEALTHY', null, now);
+      feed.watchSince = now;
+      return;
+    }
+
+    const staleThreshold = this.getStaleThreshold(feed.marketType);
+    const { primary, secondary } = feed.route;
+    const activeAge = now - Math.max(this.getSourceStats(feed, feed.activeSource).lastTickAt ?? 0, feed.watchSince);
+    const staleSeconds = Math.round(staleThreshold / 1000);
+
+    if (feed.activeSource === primary) {
+      if (activeAge <= staleThreshold || feed.state === 'SUSPENDED') return;
+
+      feed.staleEvents++;
+      if (secondary && this.failoverHandler) {
+        this.switchSource(feed, secondary, now);
+        this.suspend(feed, `${primary} feed stalled, switching to ${secondary}`, now);
+      } else {
+        this.suspend(feed, `No prices from ${primary} for over ${staleSeconds}s`, now);
+      }
+      return;
+    }
+
+    const primaryStats = this.getSourceStats(feed, primary);
+    const primaryRecovered =
+      primaryStats.lastTickAt !== null &&
+      now - primaryStats.lastTickAt <= staleThreshold &&
+      primaryStats.steadySince !== null &&
+      now - primaryStats.steadySince >= config.feedHealth.recoveryMs;
+
+    if (primaryRecovered) {
+      this.switchSource(feed, primary, now);
+      this.setState(feed, 'HEALTHY', null, now);
+      this.raiseAlert(feed, 'RECOVERED', 'info', primary, `${feed.symbol}: ${primary} feed recovered, switched back from failover`);
+      return;
+    }
+
+    if (activeAge > staleThreshold && feed.state !== 'SUSPENDED') {
+      feed.staleEvents++;
+      this.suspend(feed, `No prices from ${primary} or ${feed.activeSource} for over ${staleSeconds}s`, now);
+    }
+  }
+
+  private markClosed(feed: SymbolFeed, now: number): void {
+    if (feed.state === 'CLOSED') return;
+
+    if (feed.activeSource !== feed.route.primary) {
+      this.switchSource(feed, feed.route.primary, now);
+    }
+    this.setState(feed, 'CLOSED', null, now);
+  }
+
+  private suspend(feed: SymbolFeed, reason: string, now: number): void {
+    this.setState(feed, 'SUSPENDED', reason, now);
+    this.raiseAlert(feed, 'STALE', 'critical', feed.activeSource, `${feed.symbol}: trading suspended - ${reason}`);
+  }
+
+  private resume(feed: SymbolFeed, now: number): void {
+    const isFailover = feed.activeSource !== feed.route.primary;
+    this.setState(feed, isFailover ? 'FAILOVER' : 'HEALTHY', null, now);
+
+    if (isFailover) {
+      this.raiseAlert(feed, 'FAILOVER', 'warning', feed.activeSource,
+        `${feed.symbol}: trading resumed on ${feed.activeSource} prices (failover from ${feed.route.primary})`);
+    } else {
+      this.raiseAlert(feed, 'RESUMED', 'info', feed.activeSource, `${feed.symbol}: ${feed.activeSource} prices resumed, trading re-enabled`);
+    }
+  }
+
+  private switchSource(feed: SymbolFeed, source: FeedSource, now: number): void {
+    const previous = feed.activeSource;
+    if (previous === source) return;
+
+    feed.activeSource = source;
+    feed.watchSince = now;
+
+    try {
+      if (source === feed.route.primary) {
+        this.failoverHandler?.release(feed.symbol, previous);
+      } else {
+        this.failoverHandler?.activate(feed.symbol, source);
+      }
+    } catch (error) {
+      logger.error('[FeedHealth] Failed to switch feed source', { symbol: feed.symbol, from: previous, to: source, error });
+    }
+  }
+
+  private setState(feed: SymbolFeed, state: FeedState, reason: string | null, now: number): void {
+    if (feed.state !== state) {
+      feed.stateSince = now;
+    }
+    feed.state = state;
+    feed.suspendedReason = reason;
+  }
+
+  private recordArrival(stats: SourceStats, now: number, exchangeTime: number, staleThreshold: number): void {
+    if (stats.lastTickAt !== null) {
+      const gap = now - stats.lastTickAt;
+      stats.avgGapMs = stats.avgGapMs === null ? gap : stats.avgGapMs + EWMA_ALPHA * (gap - stats.avgGapMs);
+      stats.maxGapMs = Math.max(stats.maxGapMs, gap);
+      if (gap > staleThreshold) {
+        stats.steadySince = now;
+      }
+    } else {
+      stats.steadySince = now;
+    }
+
+    // Exchange clocks can run slightly ahead of ours
+    const latency = Math.max(0, now - exchangeTime);
+    stats.avgLatencyMs = stats.avgLatencyMs === null ? latency : stats.avgLatencyMs + EWMA_ALPHA * (latency - stats.avgLatencyMs);
+    stats.maxLatencyMs = Math.max(stats.maxLatencyMs, latency);
+
+    stats.tickCount++;
+    stats.lastTickAt = now;
+  }
+
+  private isOutlier(stats: SourceStats, price: number): boolean {
+    if (stats.lastPrice === null) return false;
+
+    const logReturn = Math.log(price / stats.lastPrice);
+    const deviation = Math.max(Math.sqrt(stats.returnVariance), MIN_RETURN_SD);
+    const limit = config.feedHealth.outlierSigma * deviation;
+
+    if (stats.returnSamples >= MIN_RETURN_SAMPLES && Math.abs(logReturn) > limit) {
+      const continuesRun =
+        stats.outlierRunPrice !== null && Math.abs(Math.log(price / stats.outlierRunPrice)) <= limit;
+      stats.outlierRun = continuesRun ? stats.outlierRun + 1 : 1;
+      stats.outlierRunPrice = price;
+
+      if (stats.outlierRun < OUTLIER_RUN_TO_ACCEPT) {
+        return true;
+      }
+    }
+
+    stats.outlierRun = 0;
+    stats.outlierRunPrice = null;
+    stats.returnVariance += EWMA_ALPHA * (logReturn * logReturn - stats.returnVariance);
+    stats.returnSamples++;
+    return false;
+  }
+
+  private getSourceStats(feed: SymbolFeed, source: FeedSource): SourceStats {
+    let stats = feed.sources.get(source);
+    if (!stats) {
+      stats = {
+        tickCount: 0,
+        lastTickAt: null,
+        lastPrice: null,
+        avgGapMs: null,
+        maxGapMs: 0,
+        avgLatencyMs: null,
+        maxLatencyMs: 0,
+        outliers: 0,
+        returnVariance: 0,
+        returnSamples: 0,
+        outlierRun: 0,
+        outlierRunPrice: null,
+        steadySince: null,
+      };
+      feed.sources.set(source, stats);
+    }
+    return stats;
+  }
+
+  private getStaleThreshold(marketType: string): number {
+    return marketType === 'stock' || marketType === 'index'
+      ? config.feedHealth.staleThresholdEquityMs
+      : config.feedHealth.staleThresholdMs;
+  }
+
+  private raiseAlert(
+    feed: SymbolFeed,
+    type: FeedAlertType,
+    severity: FeedAlertSeverity,
+    source: FeedSource,
+    message: string
+  ): void {
+    const alert: FeedAlert = {
+      id: randomUUID(),
+      symbol: feed.symbol,
+      type,
+      severity,
+      source,
+      message,
+      createdAt: new Date(),
+    };
+
+    this.alerts.push(alert);
+    if (this.alerts.length > MAX_ALERTS) {
+      this.alerts.shift();
+    }
+    this.pendingAlerts.push(alert);
+
+    if (severity === 'info') {
+      logger.info(`[FeedHealth] ${message}`);
+    } else {
+      logger.warn(`[FeedHealth] ${message}`);
+    }
+  }
+
+  /**
+   * Send the alerts raised since the last check to online admins, batched
+   * so a whole feed going down arrives as one message
+   */
+  private async pushAlerts(): Promise<void> {
+    if (this.pendingAlerts.length === 0) return;
+
+    const alerts = this.pendingAlerts;
+    this.pendingAlerts = [];
+    if (!leaderElection.isLeader()) return;
+
+    const onlineUserIds = wsManager.getOnlineUserIds();
+    if (onlineUserIds.length === 0) return;
+
+    const admins = await queryMany<{ id: string }>(
+      `SELECT id FROM "User" WHERE role IN ('ADMIN', 'SUPERADMIN') AND id = ANY($1)`,
+      [onlineUserIds]
+    );
+
+    admins.forEach((admin) => {
+      wsManager.sendToUser(admin.id, {
+        type: 'feed_alerts',
+        payload: { alerts },
+      });
+    });
+  }
+}
+
+export const feedHealthService = new FeedHealthService();
+export type {
+  FeedSource,
+  FeedState,
+  FeedRoute,
+  FeedAlert,
+  FeedHealthSummary,
+  SymbolFeedHealth,
+  SourceHealth,
+};
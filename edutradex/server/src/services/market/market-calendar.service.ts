@@ -0,0 +1,531 @@
+import { queryOne, queryMany } from '../../config/db.js';
+import { logger } from '../../utils/logger.js';
+import { marketService } from './market.service.js';
+import { otcMarketService } from '../otc/otc-market.service.js';
+import { randomUUID } from 'crypto';
+
+/**
+ * Market Calendar
+ *
+ * Decides when forex, stock and index symbols can be traded. Each market type
+ * has weekly MarketSessions, optionally per exchange (MarketConfig.exchange
+ * picks a symbol's exchange; exchanges without their own sessions follow the
+ * market type's default ones). MarketHolidays close a local date entirely or
+ * from an early close time.
+ *
+ * Market types without sessions, like crypto, trade around the clock. OTC
+ * symbols follow their own OTCConfig schedule and are not covered here.
+ *
+ * Sessions, holidays and exchanges are cached in memory and reloaded every
+ * minute, or immediately after an admin change through this service.
+ */
+
+type SessionMarketType = 'forex' | 'stock' | 'index';
+
+type SessionState = 'OPEN' | 'CLOSED' | 'HOLIDAY' | 'ALWAYS_OPEN';
+
+interface MarketSessionRow {
+  id: string;
+  marketType: string;
+  exchange: string | null;
+  openDay: number;
+  openTime: string;
+  closeDay: number;
+  closeTime: string;
+  timezone: string;
+  isActive: boolean;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+interface MarketHolidayRow {
+  id: string;
+  name: string;
+  date: string;
+  marketType: string | null;
+  exchange: string | null;
+  earlyCloseTime: string | null;
+  createdBy: string | null;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+interface MarketSessionInput {
+  marketType: SessionMarketType;
+  exchange?: string | null;
+  openDay: number;
+  openTime: string;
+  closeDay: number;
+  closeTime: string;
+  timezone?: string;
+  isActive?: boolean;
+}
+
+interface MarketHolidayInput {
+  name: string;
+  date: string;
+  marketType?: SessionMarketType | null;
+  exchange?: string | null;
+  earlyCloseTime?: string | null;
+}
+
+interface TradingStatus {
+  isOpen: boolean;
+  state: SessionState;
+  holiday: string | null;
+  nextOpen: Date | null;
+  nextClose: Date | null;
+}
+
+interface SymbolTradingStatus extends TradingStatus {
+  symbol: string;
+  marketType: string;
+  exchange: string | null;
+}
+
+interface Calendar {
+  sessions: MarketSessionRow[];
+  holidays: MarketHolidayRow[];
+}
+
+interface LocalTime {
+  date: string;
+  weekday: number;
+  minute: number;
+}
+
+const MINUTE_MS = 60 * 1000;
+// How far ahead to look for the next open/close - covers long holiday weekends
+const SEARCH_HORIZON_MINUTES = 14 * 24 * 60;
+// Coarse search step; transitions are then pinned down to the minute
+const SEARCH_STEP_MINUTES = 5;
+
+const WEEKDAYS: Record<string, number> = { Sun: 0, Mon: 1, Tue: 2, Wed: 3, Thu: 4, Fri: 5, Sat: 6 };
+
+class MarketCalendarServiceError extends Error {
+  constructor(
+    message: string,
+    public statusCode: number = 400
+  ) {
+    super(message);
+    this.name = 'MarketCalendarServiceError';
+  }
+}
+
+class MarketCalendarService {
+  private sessions: MarketSessionRow[] = [];
+  private holidays: MarketHolidayRow[] = [];
+  private exchanges: Map<string, string> = new Map();
+  private statusCache: Map<string, { status: TradingStatus; validUntil: number }> = new Map();
+  private formatters: Map<string, Intl.DateTimeFormat> = new Map();
+  private loadedAt = 0;
+  private loadPromise: Promise<void> | null = null;
+  private readonly CACHE_TTL_MS = 60000;
+
+  /**
+   * Trading status of a symbol at `at`, or null for symbols the calendar does
+   * not cover (OTC and unknown symbols)
+   */
+  async getSymbolStatus(symbol: string, at: Date = new Date()): Promise<SymbolTradingStatus | null> {
+    if (otcMarketService.isOTCSymbol(symbol)) return null;
+
+    const asset = marketService.getAsset(symbol);
+    if (!asset) return null;
+
+    await this.ensureLoaded();
+
+    const exchange = this.exchanges.get(symbol) ?? null;
+    return {
+      symbol,
+      marketType: asset.marketType,
+      exchange,
+      ...this.getCalendarStatus(asset.marketType, exchange, at),
+    };
+  }
+
+  /**
+   * Status of every non-OTC symbol, for greying out closed assets
+   */
+  async getAllSymbolStatuses(at: Date = new Date()): Promise<SymbolTradingStatus[]> {
+    await this.ensureLoaded();
+
+    return marketService.getAllAssets().map((asset) => {
+      const exchange = this.exchanges.get(asset.symbol) ?? null;
+      return {
+        symbol: asset.symbol,
+        marketType: asset.marketType,
+        exchange,
+        ...this.getCalendarStatus(asset.marketType, exchange, at),
+      };
+    });
+  }
+
+  /**
+   * Status of each market type's default sessions
+   */
+  async getMarketTypeStatuses(at: Date = new Date()): Promise<Record<string, TradingStatus>> {
+    await this.ensureLoaded();
+
+    const statuses: Record<string, TradingStatus> = {};
+    for (const marketType of ['forex', 'crypto', 'stock', 'index']) {
+      statuses[marketType] = this.getCalendarStatus(marketType, null, at);
+    }
+    return statuses;
+  }
+
+  async getAllSessions(): Promise<MarketSessionRow[]> {
+    return queryMany<MarketSessionRow>(
+      `SELECT * FROM "MarketSession" ORDER BY "marketType" ASC, exchange ASC NULLS FIRST, "openDay" ASC, "openTime" ASC`
+    );
+  }
+
+  async createSession(data: MarketSessionInput): Promise<MarketSessionRow> {
+    this.validateTimezone(data.timezone);
+
+    const now = new Date();
+    const session = await queryOne<MarketSessionRow>(
+      `INSERT INTO "MarketSession" (
+        id, "marketType", exchange, "openDay", "openTime", "closeDay", "closeTime",
+        timezone, "isActive", "createdAt", "updatedAt"
+      ) VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10, $11)
+      RETURNING *`,
+      [
+        randomUUID(),
+        data.marketType,
+        data.exchange ?? null,
+        data.openDay,
+        data.openTime,
+        data.closeDay,
+        data.closeTime,
+        data.timezone ?? 'America/New_York',
+        data.isActive ?? true,
+        now,
+        now,
+      ]
+    );
+
+    logger.info('[MarketCalendar] Session created', { id: session!.id, marketType: data.marketType });
+    this.invalidate();
+
+    return session!;
+  }
+
+  async updateSession(id: string, data: Partial<MarketSessionInput>): Promise<MarketSessionRow> {
+    const existing = await queryOne<MarketSessionRow>(
+      `SELECT * FROM "MarketSession" WHERE id = $1`,
+      [id]
+    );
+
+    if (!existing) {
+      throw new MarketCalendarServiceError('Market session not found', 404);
+    }
+
+    this.validateTimezone(data.timezone);
+
+    const fields: Array<keyof MarketSessionInput> = [
+      'marketType', 'exchange', 'openDay', 'openTime', 'closeDay', 'closeTime', 'timezone', 'isActive',
+    ];
+    const updates: string[] = [];
+    const params: any[] = [];
+    let paramIndex = 1;
+
+    for (const field of fields) {
+      if (data[field] !== undefined) {
+        updates.push(`"${field}" = $${paramIndex++}`);
+        params.push(data[field]);
+      }
+    }
+
+    updates.push(`"updatedAt" = $${paramIndex++}`);
+    params.push(new Date());
+    params.push(id);
+
+    const session = await queryOne<MarketSessionRow>(
+      `UPDATE "MarketSession" SET ${updates.join(', ')} WHERE id = $${paramIndex} RETURNING *`,
+      params
+    );
+
+    logger.info('[MarketCalendar] Session updated', { id, data });
+    this.invalidate();
+
+    return session!;
+  }
+
+  async deleteSession(id: string): Promise<{ success: boolean }> {
+    const deleted = await queryOne<{ id: string }>(
+      `DELETE FROM "MarketSession" WHERE id = $1 RETURNING id`,
+      [id]
+    );
+
+    if (!deleted) {
+      throw new MarketCalendarServiceError('Market session not found', 404);
+    }
+
+    logger.info('[MarketCalendar] Session deleted', { id });
+    this.invalidate();
+
+    return { success: true };
+  }
+
+  async getAllHolidays(): Promise<MarketHolidayRow[]> {
+    return queryMany<MarketHolidayRow>(
+      `SELECT * FROM "MarketHoliday" ORDER BY date ASC, "marketType" ASC NULLS FIRST`
+    );
+  }
+
+  async createHoliday(data: MarketHolidayInput, adminId: string): Promise<MarketHolidayRow> {
+    const now = new Date();
+    const holiday = await queryOne<MarketHolidayRow>(
+      `INSERT INTO "MarketHoliday" (
+        id, name, date, "marketType", exchange, "earlyCloseTime", "createdBy", "createdAt", "updatedAt"
+      ) VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9)
+      RETURNING *`,
+      [
+        randomUUID(),
+        data.name,
+        data.date,
+        data.marketType ?? null,
+        data.exchange ?? null,
+        data.earlyCloseTime ?? null,
+        adminId,
+        now,
+        now,
+      ]
+    );
+
+    logger.info('[MarketCalendar] Holiday created', { id: holiday!.id, date: data.date, adminId });
+    this.invalidate();
+
+    return holiday!;
+  }
+
+  async deleteHoliday(id: string): Promise<{ success: boolean }> {
+    const deleted = await queryOne<{ id: string }>(
+      `DELETE FROM "MarketHoliday" WHERE id = $1 RETURNING id`,
+      [id]
+    );
+
+    if (!deleted) {
+      throw new MarketCalendarServiceError('Market holiday not found', 404);
+    }
+
+    logger.info('[MarketCalendar] Holiday deleted', { id });
+    this.invalidate();
+
+    return { success: true };
+  }
+
+  /**
+   * Drop the cache so the next lookup reloads the calendar. Call after
+   * changing MarketConfig exchanges outside this service.
+   */
+  invalidate(): void {
+    this.loadedAt = 0;
+  }
+
+  private async ensureLoaded(): Promise<void> {
+    if (Date.now() - this.loadedAt < this.CACHE_TTL_MS) return;
+
+    if (!this.loadPromise) {
+      this.loadPromise = this.load().finally(() => {
+        this.loadPromise = null;
+      });
+    }
+
+    await this.loadPromise;
+  }
+
+  private async load(): Promise<void> {
+    try {
+      const [sessions, holidays, marketConfigs] = await Promise.all([
+        queryMany<MarketSessionRow>(`SELECT * FROM "MarketSession" WHERE "isActive" = true`),
+        // Holidays more than a day old can no longer affect any status
+        queryMany<MarketHolidayRow>(
+          `SELECT * FROM "MarketHoliday" WHERE date >= to_char(NOW() - INTERVAL '1 day', 'YYYY-MM-DD')`
+        ),
+        queryMany<{ symbol: string; exchange: string }>(
+          `SELECT symbol, exchange FROM "MarketConfig" WHERE exchange IS NOT NULL`
+        ),
+      ]);
+
+      this.sessions = sessions;
+      this.holidays = holidays;
+      this.exchanges = new Map(marketConfigs.map((row) => [row.symbol, row.exchange]));
+      this.statusCache.clear();
+      this.loadedAt = Date.now();
+    } catch (error) {
+      // Keep serving the last loaded calendar rather than failing trades
+      logger.error('[MarketCalendar] Failed to load market calendar', { error });
+    }
+  }
+
+  private getCalendarStatus(marketType: string, exchange: string | null, at: Date): TradingStatus {
+    const key = `${marketType}|${exchange ?? ''}`;
+    const cached = this.statusCache.get(key);
+    // Cached statuses are only reused for "now" lookups
+    const isNow = Math.abs(at.getTime() - Date.now()) < MINUTE_MS;
+    if (isNow && cached && at.getTime() < cached.validUntil) {
+      return cached.status;
+    }
+
+    const status = this.computeStatus(this.getCalendar(marketType, exchange), at);
+
+    if (isNow) {
+      const nextChange = status.isOpen ? status.nextClose : status.nextOpen;
+      this.statusCache.set(key, {
+        status,
+        validUntil: Math.min(at.getTime() + this.CACHE_TTL_MS, nextChange?.getTime() ?? Infinity),
+      });
+    }
+
+    return status;
+  }
+
+  private getCalendar(marketType: string, exchange: string | null): Calendar {
+    const forType = this.sessions.filter((session) => session.marketType === marketType);
+    const exchangeSessions = exchange ? forType.filter((session) => session.exchange === exchange) : [];
+    const sessions = exchangeSessions.length > 0
+      ? exchangeSessions
+      : forType.filter((session) => session.exchange === null);
+
+    const holidays = this.holidays.filter((holiday) =>
+      (holiday.marketType === null || holiday.marketType === marketType) &&
+      (holiday.exchange === null || holiday.exchange === exchange)
+    );
+
+    return { sessions, holidays };
+  }
+
+  private computeStatus(calendar: Calendar, at: Date): TradingStatus {
+    if (calendar.sessions.length === 0) {
+      return { isOpen: true, state: 'ALWAYS_OPEN', holiday: null, nextOpen: null, nextClose: null };
+    }
+
+    const current = this.evaluate(calendar, at);
+    const firstChange = this.findNextChange(calendar, at, current.isOpen);
+    const secondChange = firstChange ? this.findNextChange(calendar, firstChange, !current.isOpen) : null;
+
+    return {
+      isOpen: current.isOpen,
+      state: current.isOpen ? 'OPEN' : current.holiday ? 'HOLIDAY' : 'CLOSED',
+      holiday: current.holiday,
+      nextOpen: current.isOpen ? secondChange : firstChange,
+      nextClose: current.isOpen ? firstChange : secondChange,
+    };
+  }
+
+  /**
+   * First minute after `from` at which the open state differs from `isOpen`
+   */
+  private findNextChange(calendar: Calendar, from: Date, isOpen: boolean): Date | null {
+    const start = Math.floor(from.getTime() / MINUTE_MS) * MINUTE_MS;
+    let previous = start;
+
+    for (let offset = SEARCH_STEP_MINUTES; offset <= SEARCH_HORIZON_MINUTES; offset += SEARCH_STEP_MINUTES) {
+      const time = start + offset * MINUTE_MS;
+      if (this.evaluate(calendar, new Date(time)).isOpen === isOpen) {
+        previous = time;
+        continue;
+      }
+
+      // The change happened within the last step - find the exact minute
+      for (let minute = previous + MINUTE_MS; minute < time; minute += MINUTE_MS) {
+        if (this.evaluate(calendar, new Date(minute)).isOpen !== isOpen) return new Date(minute);
+      }
+      return new Date(time);
+    }
+
+    return null;
+  }
+
+  private evaluate(calendar: Calendar, at: Date): { isOpen: boolean; holiday: string | null } {
+    let holidayName: string | null = null;
+    const localTimes: Map<string, LocalTime | null> = new Map();
+
+    for (const session of calendar.sessions) {
+      if (!localTimes.has(session.timezone)) {
+        localTimes.set(session.timezone, this.toLocalTime(at, session.timezone));
+      }
+      const local = localTimes.get(session.timezone);
+      if (!local || !this.isWithinSession(session, local)) continue;
+
+      const holiday = calendar.holidays.find((entry) => entry.date === local.date);
+      if (!holiday) return { isOpen: true, holiday: null };
+
+      if (holiday.earlyCloseTime && local.minute < this.toMinuteOfDay(holiday.earlyCloseTime)) {
+        return { isOpen: true, holiday: null };
+      }
+      holidayName = holiday.name;
+    }
+
+    return { isOpen: false, holiday: holidayName };
+  }
+
+  private isWithinSession(session: MarketSessionRow, local: LocalTime): boolean {
+    const open = session.openDay * 1440 + this.toMinuteOfDay(session.openTime);
+    const close = session.closeDay * 1440 + this.toMinuteOfDay(session.closeTime);
+    const now = local.weekday * 1440 + local.minute;
+
+    if (open === close) return true; // Open all week
+    return open < close
+      ? now >= open && now < close
+      : now >= open || now < close; // Wraps past Saturday into Sunday
+  }
+
+  private toLocalTime(at: Date, timezone: string): LocalTime | null {
+    let formatter = this.formatters.get(timezone);
+    if (!formatter) {
+      try {
+        formatter = new Intl.DateTimeFormat('en-US', {
+          timeZone: timezone,
+          year: 'numeric',
+          month: '2-digit',
+          day: '2-digit',
+          weekday: 'short',
+          hour: '2-digit',
+          minute: '2-digit',
+          hourCycle: 'h23',
+        });
+      } catch {
+        logger.warn('[MarketCalendar] Unknown session timezone', { timezone });
+        return null;
+      }
+      this.formatters.set(timezone, formatter);
+    }
+
+    const parts: Record<string, string> = {};
+    formatter.formatToParts(at).forEach((part) => {
+      parts[part.type] = part.value;
+    });
+
+    return {
+      date: `${parts.year}-${parts.month}-${parts.day}`,
+      weekday: WEEKDAYS[parts.weekday] ?? 0,
+      minute: (parseInt(parts.hour, 10) % 24) * 60 + parseInt(parts.minute, 10),
+    };
+  }
+
+  private validateTimezone(timezone: string | undefined): void {
+    if (timezone === undefined) return;
+    try {
+      new Intl.DateTimeFormat('en-US', { timeZone: timezone });
+    } catch {
+      throw new MarketCalendarServiceError(`Unknown timezone: ${timezone}`, 400);
+    }
+  }
+
+  private toMinuteOfDay(time: string): number {
+    const [hours, minutes] = time.split(':').map(Number);
+    return hours * 60 + minutes;
+  }
+}
+
+export const marketCalendarService = new MarketCalendarService();
+export { MarketCalendarServiceError };
+export type {
+  MarketSessionInput,
+  MarketHolidayInput,
+  SessionMarketType,
+  TradingStatus,
+  SymbolTradingStatus,
+};
@@ -1,10 +1,18 @@
 import { logger } from '../../utils/logger.js';
 import { wsManager } from '../websocket/websocket.manager.js';
-import { derivService, DerivService, DerivCandle } from '../deriv/deriv.service.js';
-import { binanceService, BinanceService, BinanceKline } from '../binance/binance.service.js';
-import { finnhubService, FinnhubService, FinnhubCandle } from '../finnhub/finnhub.service.js';
+import { derivService } from '../deriv/deriv.service.js';
 import { config } from '../../config/env.js';
 import { queryMany } from '../../config/db.js';
+import { tickJournal, TickSource } from './tick-journal.service.js';
+import { priceTickJournal } from './price-tick-journal.service.js';
+import { feedHealthService, type FeedRoute, type FeedHealthSummary } from './feed-health.service.js';
+import {
+  createMarketDataProviders,
+  type MarketDataProvider,
+  type ProviderName,
+  type ProviderStatus,
+  type ProviderTick,
+} from './providers/index.js';
 
 interface PriceTick {
   symbol: string;
@@ -16,6 +24,12 @@ interface PriceTick {
   changePercent: number;
 }
 
+interface SettlementTick {
+  price: number;
+  timestamp: Date;
+  source: TickSource;
+}
+
 interface MarketAsset {
   symbol: string;
   name: string;
@@ -183,19 +197,36 @@ const STOCK_ASSETS: MarketAsset[] = [
   { symbol: 'GE', name: 'General Electric', marketType: 'stock', basePrice: 125.00, pipSize: 0.01, isActive: true, payoutPercent: 78 },
 ];
 
+// Only the configured providers take part; replay mode configures REPLAY alone
+const LIVE_PROVIDER_PRIORITY: Record<MarketAsset['marketType'], ProviderName[]> = {
+  forex: ['REPLAY', 'DERIV', 'FINNHUB'],
+  crypto: ['REPLAY', 'BINANCE', 'DERIV'],
+  stock: ['REPLAY', 'FINNHUB'],
+  index: ['REPLAY', 'FINNHUB'],
+};
+
+// Finnhub's REST candles are more reliable than Deriv's for forex
+const HISTORY_PROVIDER_PRIORITY: Record<MarketAsset['marketType'], ProviderName[]> = {
+  forex: ['REPLAY', 'FINNHUB', 'DERIV'],
+  crypto: ['REPLAY', 'BINANCE'],
+  stock: ['REPLAY'],
+  index: ['REPLAY'],
+};
+
 class MarketService {
   private currentPrices: Map<string, PriceTick> = new Map();
   private priceHistory: Map<string, PriceHistory> = new Map();
   private assets: Map<string, MarketAsset> = new Map();
   private spreadConfigs: Map<string, { markupPips: number; isActive: boolean }> = new Map();
   private readonly HISTORY_LENGTH = 100;
-  private useDerivApi = false;
-  private derivUnsubscribe: (() => void) | null = null;
-  private derivInitialized: Set<string> = new Set();
-  private binanceUnsubscribe: (() => void) | null = null;
-  private binanceInitialized: Set<string> = new Set();
-  private finnhubUnsubscribe: (() => void) | null = null;
-  private finnhubInitialized: Set<string> = new Set();
+  private useDerivApi = config.deriv.useDerivApi;
+  private providers: MarketDataProvider[] = [];
+  private providerUnsubscribers: (() => void)[] = [];
+  // Live feed per symbol, with the provider to fail over to
+  private feedRoutes: Map<string, FeedRoute> = new Map();
+  // Symbols whose simulated history has been rebased onto their first live price
+  private liveInitialized: Set<string> = new Set();
+  private priceCallbacks = new Set<(tick: PriceTick) => void>();
 
   // Cache for historical bars to speed up chart loading
   private historicalBarsCache: Map<string, { bars: OHLCBar[]; timestamp: number }> = new Map();
@@ -207,9 +238,7 @@ class MarketService {
     this.loadSpreadConfigs().catch(error => {
       logger.error('Failed to load spread configs during initialization:', error);
     });
-    this.initializeDerivIntegration();
-    this.initializeBinanceIntegration();
-    this.initializeFinnhubIntegration();
+    this.initializeProviders();
   }
 
   private initializeAssets(): void {
@@ -242,117 +271,63 @@ class MarketService {
     }
   }
 
-  private initializeDerivIntegration(): void {
-    this.useDerivApi = config.deriv.useDerivApi;
-
-    if (config.deriv.useDerivApi) {
-      this.derivUnsubscribe = derivService.onPriceUpdate((tick) => {
-        this.handleDerivPrice(tick);
-      });
+  /**
+   * Connect the configured providers and subscribe each symbol to the first
+   * provider, in LIVE_PROVIDER_PRIORITY order, that carries it. The next one
+   * that carries it becomes its failover source.
+   */
+  private initializeProviders(): void {
+    this.providers = createMarketDataProviders();
 
-      let derivSubscriptionCount = 0;
-      this.assets.forEach((asset, symbol) => {
-        if (asset.marketType === 'forex') {
-          derivService.subscribe(symbol);
-          derivSubscriptionCount++;
-        }
-      });
+    this.providers.forEach((provider) => {
+      this.providerUnsubscribers.push(provider.onTick((tick) => this.handleProviderTick(provider.name, tick)));
+      provider.connect();
+    });
 
-      logger.info(`Deriv API integration initialized - subscribed to ${derivSubscriptionCount} forex pairs`);
-    } else {
-      logger.warn('Deriv API disabled or unavailable - forex prices will not update');
-    }
-  }
+    const subscriptionCounts = new Map<ProviderName, number>();
+    this.assets.forEach((asset, symbol) => {
+      const [primary, secondary] = this.getProvidersFor(symbol, LIVE_PROVIDER_PRIORITY[asset.marketType]);
+      if (!primary) return;
 
-  private initializeBinanceIntegration(): void {
-    this.binanceUnsubscribe = binanceService.onPriceUpdate((tick) => {
-      this.handleBinancePrice(tick);
+      primary.subscribe(symbol);
+      this.feedRoutes.set(symbol, { primary: primary.name, secondary: secondary?.name ?? null });
+      subscriptionCounts.set(primary.name, (subscriptionCounts.get(primary.name) ?? 0) + 1);
     });
 
-    const status = binanceService.getStatus();
-    logger.info(`Binance integration initialized - ${status.symbolCount} crypto pairs available`);
+    subscriptionCounts.forEach((count, name) => {
+      logger.info(`[Market] ${name} provider initialized - subscribed to ${count} symbols`);
+    });
   }
 
-  private handleBinancePrice(tick: { symbol: string; price: number; bid: number; ask: number; timestamp: number }): void {
-    const asset = this.assets.get(tick.symbol);
-    if (!asset) return;
-
-    const spreadConfig = this.spreadConfigs.get(tick.symbol);
-    const markupPips = spreadConfig?.markupPips ?? config.spread.defaultMarkup;
-    const pipValue = asset.pipSize;
-    const markupValue = markupPips * pipValue;
-
-    const bid = tick.bid - markupValue / 2;
-    const ask = tick.ask + markupValue / 2;
-    const price = tick.price;
-
-    if (!this.binanceInitialized.has(tick.symbol)) {
-      this.binanceInitialized.add(tick.symbol);
-      this.regenerateHistoryFromPrice(tick.symbol, price, asset);
-      logger.info(`[Market] Initialized ${tick.symbol} with Binance price: ${price}`);
-    }
-
-    const history = this.priceHistory.get(tick.symbol);
-    const openPrice = history && history.prices.length > 0
-      ? history.prices[0].price
-      : price;
-    const change = price - openPrice;
-    const changePercent = openPrice !== 0 ? (change / openPrice) * 100 : 0;
-
-    const newTick: PriceTick = {
-      symbol: tick.symbol,
-      price: Number(price.toFixed(asset.pipSize < 0.01 ? 5 : 2)),
-      bid: Number(bid.toFixed(asset.pipSize < 0.01 ? 5 : 2)),
-      ask: Number(ask.toFixed(asset.pipSize < 0.01 ? 5 : 2)),
-      timestamp: new Date(tick.timestamp),
-      change: Number(change.toFixed(asset.pipSize < 0.01 ? 5 : 2)),
-      changePercent: Number(changePercent.toFixed(2)),
-    };
-
-    this.currentPrices.set(tick.symbol, newTick);
-
-    if (history) {
-      history.prices.push({ price: newTick.price, timestamp: newTick.timestamp });
-      if (history.prices.length > this.HISTORY_LENGTH) {
-        history.prices.shift();
-      }
-    }
-
-    wsManager.broadcastAllPrices([newTick]);
+  private getProvider(name: ProviderName): MarketDataProvider | undefined {
+    return this.providers.find((provider) => provider.name === name);
   }
 
-  private initializeFinnhubIntegration(): void {
-    const status = finnhubService.getStatus();
-
-    if (!status.hasApiKey) {
-      logger.warn('[Finnhub] No API key configured - stock/index prices will not update');
-      return;
-    }
-
-    this.finnhubUnsubscribe = finnhubService.onPriceUpdate((tick) => {
-      this.handleFinnhubPrice(tick);
-    });
-
-    logger.info(`Finnhub integration initialized - ${status.stockCount} stocks, ${status.indexCount} indices available`);
+  private getProvidersFor(symbol: string, priority: ProviderName[]): MarketDataProvider[] {
+    return priority
+      .map((name) => this.getProvider(name))
+      .filter((provider): provider is MarketDataProvider => !!provider && provider.supports(symbol));
   }
 
-  private handleFinnhubPrice(tick: { symbol: string; price: number; timestamp: number; volume: number }): void {
+  private handleProviderTick(source: ProviderName, tick: ProviderTick): void {
     const asset = this.assets.get(tick.symbol);
     if (!asset) return;
+    if (!feedHealthService.acceptTick(tick.symbol, source, tick.price, tick.timestamp)) return;
 
     const spreadConfig = this.spreadConfigs.get(tick.symbol);
     const markupPips = spreadConfig?.markupPips ?? config.spread.defaultMarkup;
     const pipValue = asset.pipSize;
     const markupValue = markupPips * pipValue;
 
-    const bid = tick.price - markupValue / 2;
-    const ask = tick.price + markupValue / 2;
+    const bid = (tick.bid ?? tick.price) - markupValue / 2;
+    const ask = (tick.ask ?? tick.price) + markupValue / 2;
     const price = tick.price;
 
-    if (!this.finnhubInitialized.has(tick.symbol)) {
-      this.finnhubInitialized.add(tick.symbol);
+    // A failover source keeps the history built from the primary feed
+    if (!this.liveInitialized.has(tick.symbol)) {
+      this.liveInitialized.add(tick.symbol);
       this.regenerateHistoryFromPrice(tick.symbol, price, asset);
-      logger.info(`[Market] Initialized ${tick.symbol} with Finnhub price: ${price}`);
+      logger.info(`[Market] Initialized ${tick.symbol} with ${source} price: ${price}`);
     }
 
     const history = this.priceHistory.get(tick.symbol);
@@ -362,17 +337,20 @@ class MarketService {
     const change = price - openPrice;
     const changePercent = openPrice !== 0 ? (change / openPrice) * 100 : 0;
 
+    const decimals = asset.pipSize < 0.01 ? 5 : 2;
     const newTick: PriceTick = {
       symbol: tick.symbol,
-      price: Number(price.toFixed(2)),
-      bid: Number(bid.toFixed(2)),
-      ask: Number(ask.toFixed(2)),
+      price: Number(price.toFixed(decimals)),
+      bid: Number(bid.toFixed(decimals)),
+      ask: Number(ask.toFixed(decimals)),
       timestamp: new Date(tick.timestamp),
-      change: Number(change.toFixed(2)),
+      change: Number(change.toFixed(decimals)),
       changePercent: Number(changePercent.toFixed(2)),
     };
 
     this.currentPrices.set(tick.symbol, newTick);
+    tickJournal.record({ ...this.toJournalTick(newTick), source });
+    this.notifyPriceUpdate(newTick);
 
     if (history) {
       history.prices.push({ price: newTick.price, timestamp: newTick.timestamp });
@@ -384,60 +362,31 @@ class MarketService {
     wsManager.broadcastAllPrices([newTick]);
   }
 
-  private handleDerivPrice(derivTick: any): void {
-    const asset = this.assets.get(derivTick.symbol);
-    if (!asset) return;
-
-    if (asset.marketType !== 'forex') return;
-
-    const basePrice = derivTick.quote || ((derivTick.bid + derivTick.ask) / 2);
-    if (!basePrice || isNaN(basePrice)) {
-      logger.warn(`Invalid Deriv tick for ${derivTick.symbol}:`, derivTick);
-      return;
-    }
-
-    const spreadConfig = this.spreadConfigs.get(derivTick.symbol);
-    const markupPips = spreadConfig?.markupPips ?? config.spread.defaultMarkup;
-    const pipValue = asset.pipSize;
-    const markupValue = markupPips * pipValue;
-
-    const bid = basePrice - markupValue / 2;
-    const ask = basePrice + markupValue / 2;
-    const price = basePrice;
-
-    if (!this.derivInitialized.has(derivTick.symbol)) {
-      this.derivInitialized.add(derivTick.symbol);
-      this.regenerateHistoryFromPrice(derivTick.symbol, price, asset);
-      logger.info(`[Market] Initialized ${derivTick.symbol} with Deriv price: ${price}`);
-    }
-
-    const history = this.priceHistory.get(derivTick.symbol);
-    const openPrice = history && history.prices.length > 0
-      ? history.prices[0].price
-      : price;
-    const change = price - openPrice;
-    const changePercent = openPrice !== 0 ? (change / openPrice) * 100 : 0;
-
-    const newTick: PriceTick = {
-      symbol: derivTick.symbol,
-      price: Number(price.toFixed(asset.pipSize < 0.01 ? 5 : 2)),
-      bid: Number(bid.toFixed(asset.pipSize < 0.01 ? 5 : 2)),
-      ask: Number(ask.toFixed(asset.pipSize < 0.01 ? 5 : 2)),
-      timestamp: new Date(derivTick.epoch * 1000),
-      change: Number(change.toFixed(asset.pipSize < 0.01 ? 5 : 2)),
-      changePercent: Number(changePercent.toFixed(2)),
-    };
+  /**
+   * Register each live symbol's feed with the supervisor and start its
+   * checks. Runs on every node.
+   */
+  startFeedSupervision(): void {
+    this.feedRoutes.forEach((route, symbol) => {
+      feedHealthService.register(symbol, this.assets.get(symbol)!.marketType, route);
+    });
 
-    this.currentPrices.set(derivTick.symbol, newTick);
+    feedHealthService.setFailoverHandler({
+      activate: (symbol, source) => {
+        this.getProvider(source)?.subscribe(symbol);
+        logger.warn(`[Market] ${symbol} failing over to ${source}`);
+      },
+      release: (symbol, source) => {
+        this.getProvider(source)?.unsubscribe(symbol);
+        logger.info(`[Market] ${symbol} released failover feed ${source}`);
+      },
+    });
 
-    if (history) {
-      history.prices.push({ price: newTick.price, timestamp: newTick.timestamp });
-      if (history.prices.length > this.HISTORY_LENGTH) {
-        history.prices.shift();
-      }
-    }
+    feedHealthService.start();
+  }
 
-    wsManager.broadcastAllPrices([newTick]);
+  stopFeedSupervision(): void {
+    feedHealthService.stop();
   }
 
   private regenerateHistoryFromPrice(symbol: string, currentPrice: number, asset: MarketAsset): void {
@@ -551,30 +500,86 @@ class MarketService {
     return STOCK_ASSETS.filter((asset) => asset.isActive);
   }
 
-  generateExitPrice(symbol: string, entryPrice: number, _durationSeconds: number): number {
-    // Use current market price as exit price (real prices only)
-    const currentTick = this.currentPrices.get(symbol);
-    if (currentTick) {
-      return currentTick.price;
-    }
-    return entryPrice;
+  /**
+   * Spread markup currently applied to a real symbol's bid/ask
+   */
+  getSpreadMarkup(symbol: string): { markupPips: number; pipSize: number; markupValue: number } | null {
+    const asset = this.assets.get(symbol);
+    if (!asset) return null;
+
+    const spreadConfig = this.spreadConfigs.get(symbol);
+    const markupPips = spreadConfig?.markupPips ?? config.spread.defaultMarkup;
+
+    return {
+      markupPips,
+      pipSize: asset.pipSize,
+      markupValue: markupPips * asset.pipSize,
+    };
   }
 
-  stopPriceUpdates(): void {
-    if (this.derivUnsubscribe) {
-      this.derivUnsubscribe();
-      this.derivUnsubscribe = null;
+  /**
+   * Get the price a trade should settle at: the last tick recorded at or
+   * before its expiry. Ticks the in-memory journal has rotated out (e.g.
+   * trades recovered after a restart) are read from the persisted journal.
+   * Returns null when neither has a tick that old.
+   */
+  async getSettlementTick(symbol: string, expiresAt: Date): Promise<SettlementTick | null> {
+    const journalTick = tickJournal.getTickAt(symbol, expiresAt);
+    if (journalTick) {
+      return {
+        price: journalTick.price,
+        timestamp: journalTick.timestamp,
+        source: journalTick.source,
+      };
     }
 
-    if (this.binanceUnsubscribe) {
-      this.binanceUnsubscribe();
-      this.binanceUnsubscribe = null;
+    const persistedTick = await priceTickJournal.getTickAt(symbol, expiresAt);
+    if (persistedTick) {
+      return {
+        price: persistedTick.price,
+        timestamp: persistedTick.timestamp,
+        source: persistedTick.source as TickSource,
+      };
     }
 
-    if (this.finnhubUnsubscribe) {
-      this.finnhubUnsubscribe();
-      this.finnhubUnsubscribe = null;
-    }
+    logger.warn('[Market] No tick recorded at or before expiry', { symbol, expiresAt });
+    return null;
+  }
+
+  /**
+   * Subscribe to live feed ticks (Deriv/Binance/Finnhub). OTC ticks are
+   * published by OTCMarketService.onPriceUpdate.
+   */
+  onPriceUpdate(callback: (tick: PriceTick) => void): () => void {
+    this.priceCallbacks.add(callback);
+    return () => {
+      this.priceCallbacks.delete(callback);
+    };
+  }
+
+  private notifyPriceUpdate(tick: PriceTick): void {
+    this.priceCallbacks.forEach((callback) => {
+      try {
+        callback(tick);
+      } catch (error) {
+        logger.error('[Market] Error in price callback:', error);
+      }
+    });
+  }
+
+  private toJournalTick(tick: PriceTick): { symbol: string; price: number; bid: number; ask: number; timestamp: Date } {
+    return {
+      symbol: tick.symbol,
+      price: tick.price,
+      bid: tick.bid,
+      ask: tick.ask,
+      timestamp: tick.timestamp,
+    };
+  }
+
+  stopPriceUpdates(): void {
+    this.providerUnsubscribers.forEach((unsubscribe) => unsubscribe());
+    this.providerUnsubscribers = [];
 
     logger.info('Market price updates stopped');
   }
@@ -585,6 +590,8 @@ class MarketService {
   }
 
   getMarketStatus(): {
+    dataMode: 'live' | 'replay';
+    providers: ProviderStatus[];
     derivAvailable: boolean;
     derivConnected: boolean;
     binanceAvailable: boolean;
@@ -596,24 +603,28 @@ class MarketService {
     stockPairsCount: number;
     indexPairsCount: number;
     spreadConfigsLoaded: number;
+    feedHealth: FeedHealthSummary;
   } {
-    const derivAvailable = derivService.isServiceAvailable();
-    const derivStatus = derivService.getStatus();
-    const binanceStatus = binanceService.getStatus();
-    const finnhubStatus = finnhubService.getStatus();
+    const providers = this.providers.map((provider) => provider.getStatus());
+    const derivStatus = providers.find((status) => status.name === 'DERIV');
+    const binanceStatus = providers.find((status) => status.name === 'BINANCE');
+    const finnhubStatus = providers.find((status) => status.name === 'FINNHUB');
 
     return {
-      derivAvailable,
-      derivConnected: derivStatus.connected,
-      binanceAvailable: binanceStatus.available,
-      binanceConnected: binanceStatus.connected,
-      finnhubAvailable: finnhubStatus.available,
-      finnhubConnected: finnhubStatus.connected,
+      dataMode: config.marketData.mode,
+      providers,
+      derivAvailable: derivStatus?.available ?? false,
+      derivConnected: derivStatus?.connected ?? false,
+      binanceAvailable: binanceStatus?.available ?? false,
+      binanceConnected: binanceStatus?.connected ?? false,
+      finnhubAvailable: finnhubStatus?.available ?? false,
+      finnhubConnected: finnhubStatus?.connected ?? false,
       forexPairsCount: FOREX_ASSETS.length,
       cryptoPairsCount: CRYPTO_ASSETS.length,
       stockPairsCount: STOCK_ASSETS.length,
       indexPairsCount: INDEX_ASSETS.length,
       spreadConfigsLoaded: this.spreadConfigs.size,
+      feedHealth: feedHealthService.getSummary(),
     };
   }
 
@@ -665,10 +676,8 @@ class MarketService {
   }
 
   /**
-   * Fetch real historical candles from external APIs
-   * - Crypto: Binance API (free)
-   * - Forex: Deriv API (free)
-   * Returns OHLC bars with real market data
+   * Fetch real historical candles from the providers, in
+   * HISTORY_PROVIDER_PRIORITY order, falling back to in-memory history
    * Includes caching to speed up chart loading
    */
   async getRealHistoricalBars(
@@ -688,67 +697,24 @@ class MarketService {
     const asset = this.assets.get(symbol);
     let bars: OHLCBar[] = [];
 
-    // Fetch from Binance for crypto assets
-    if (asset?.marketType === 'crypto') {
-      const interval = BinanceService.resolutionToInterval(effectiveResolution);
-      const klines = await binanceService.getHistoricalKlines(symbol, interval, limit);
-
-      if (klines.length > 0) {
-        bars = klines.map((kline) => ({
-          time: kline.time,
-          open: kline.open,
-          high: kline.high,
-          low: kline.low,
-          close: kline.close,
-          volume: kline.volume,
+    const providers = asset ? this.getProvidersFor(symbol, HISTORY_PROVIDER_PRIORITY[asset.marketType]) : [];
+    for (const provider of providers) {
+      const candles = await provider.getHistoricalCandles(symbol, effectiveResolution, limit);
+
+      if (candles.length > 0) {
+        bars = candles.map((candle) => ({
+          time: candle.time,
+          open: candle.open,
+          high: candle.high,
+          low: candle.low,
+          close: candle.close,
+          volume: candle.volume,
         }));
-      }
-    }
-
-    // Fetch from Finnhub first for forex assets (more reliable), then fall back to Deriv
-    if (bars.length === 0 && asset?.marketType === 'forex') {
-      // Try Finnhub first (REST API - more reliable for historical data)
-      if (finnhubService.isForexSymbol(symbol)) {
-        const finnhubResolution = FinnhubService.resolutionToInterval(effectiveResolution);
-        logger.info(`[Market] Fetching forex candles from Finnhub for ${symbol}, resolution=${finnhubResolution}, requested=${limit}`);
-
-        const finnhubCandles = await finnhubService.getForexCandles(symbol, finnhubResolution, limit);
-
-        if (finnhubCandles.length > 0) {
-          bars = finnhubCandles.map((candle) => ({
-            time: candle.time,
-            open: candle.open,
-            high: candle.high,
-            low: candle.low,
-            close: candle.close,
-            volume: candle.volume,
-          }));
-          logger.info(`[Market] Received ${bars.length} candles from Finnhub for ${symbol}`);
-        } else {
-          logger.warn(`[Market] No candles from Finnhub for ${symbol}, trying Deriv...`);
-        }
+        logger.info(`[Market] Received ${bars.length} candles from ${provider.name} for ${symbol}`);
+        break;
       }
 
-      // Fall back to Deriv if Finnhub didn't return data
-      if (bars.length === 0) {
-        const granularity = DerivService.resolutionToGranularity(effectiveResolution);
-        logger.info(`[Market] Fetching forex candles from Deriv for ${symbol}, granularity=${granularity}s, requested=${limit}`);
-
-        const derivCandles = await derivService.getHistoricalCandles(symbol, granularity, limit);
-
-        if (derivCandles.length > 0) {
-          bars = derivCandles.map((candle) => ({
-            time: candle.time,
-            open: candle.open,
-            high: candle.high,
-            low: candle.low,
-            close: candle.close,
-          }));
-          logger.info(`[Market] Received ${bars.length} candles from Deriv for ${symbol}`);
-        } else {
-          logger.warn(`[Market] No candles received from Deriv for ${symbol}`);
-        }
-      }
+      logger.warn(`[Market] No candles from ${provider.name} for ${symbol}`);
     }
 
     // Fallback to in-memory history for other assets or if API fails
@@ -983,4 +949,4 @@ class MarketService {
 }
 
 export const marketService = new MarketService();
-export type { PriceTick, MarketAsset, PriceHistory, OHLCBar };
+export type { PriceTick, MarketAsset, PriceHistory, OHLCBar, SettlementTick };
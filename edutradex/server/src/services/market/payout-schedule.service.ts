@@ -0,0 +1,401 @@
+import { queryOne, queryMany } from '../../config/db.js';
+import { config } from '../../config/env.js';
+import { logger } from '../../utils/logger.js';
+import { marketService } from './market.service.js';
+import { otcMarketService } from '../otc/otc-market.service.js';
+import { randomUUID } from 'crypto';
+
+/**
+ * Payout Schedule
+ *
+ * Resolves the payout percentage applied to a trade. Admin-defined PayoutRules
+ * can target a symbol, a market type, a duration bucket and a UTC time-of-day
+ * window. When no rule matches, the per-symbol OTCConfig/MarketConfig payout
+ * applies, then the asset's built-in payout, then the platform default.
+ *
+ * Also resolves the draw policy - what happens to a trade whose exit price
+ * equals its entry price - from the same per-symbol configs.
+ *
+ * Rules and market configs are cached in memory and reloaded every minute, or
+ * immediately after an admin change through this service.
+ */
+
+type PayoutMarketType = 'forex' | 'crypto' | 'stock' | 'index' | 'otc';
+
+type PayoutSource = 'RULE' | 'OTC_CONFIG' | 'MARKET_CONFIG' | 'ASSET' | 'DEFAULT';
+
+type DrawPolicy = 'REFUND' | 'LOSE';
+
+interface PayoutRuleRow {
+  id: string;
+  name: string;
+  symbol: string | null;
+  marketType: string | null;
+  minDuration: number | null;
+  maxDuration: number | null;
+  windowStart: string | null;
+  windowEnd: string | null;
+  payoutPercent: number;
+  priority: number;
+  isActive: boolean;
+  createdBy: string | null;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+interface PayoutRuleInput {
+  name: string;
+  symbol?: string | null;
+  marketType?: PayoutMarketType | null;
+  minDuration?: number | null;
+  maxDuration?: number | null;
+  windowStart?: string | null;
+  windowEnd?: string | null;
+  payoutPercent: number;
+  priority?: number;
+  isActive?: boolean;
+}
+
+interface PayoutQuote {
+  symbol: string;
+  marketType: string | null;
+  duration: number;
+  payoutPercent: number;
+  source: PayoutSource;
+  ruleId: string | null;
+  ruleName: string | null;
+}
+
+class PayoutScheduleServiceError extends Error {
+  constructor(
+    message: string,
+    public statusCode: number = 400
+  ) {
+    super(message);
+    this.name = 'PayoutScheduleServiceError';
+  }
+}
+
+class PayoutScheduleService {
+  private rules: PayoutRuleRow[] = [];
+  private marketPayouts: Map<string, number> = new Map();
+  private marketDrawPolicies: Map<string, DrawPolicy> = new Map();
+  private loadedAt = 0;
+  private loadPromise: Promise<void> | null = null;
+  private readonly CACHE_TTL_MS = 60000;
+
+  /**
+   * Resolve the payout that applies to a trade on `symbol` for `duration`
+   * seconds, placed at `at`.
+   */
+  async resolvePayout(symbol: string, duration: number, at: Date = new Date()): Promise<PayoutQuote> {
+    await this.ensureLoaded();
+
+    const isOTC = otcMarketService.isOTCSymbol(symbol);
+    const marketType = this.getMarketType(symbol, isOTC);
+    const minuteOfDay = at.getUTCHours() * 60 + at.getUTCMinutes();
+
+    const matching = this.rules.filter((rule) =>
+      this.ruleMatches(rule, symbol, marketType, isOTC, duration, minuteOfDay)
+    );
+
+    if (matching.length > 0) {
+      matching.sort((a, b) =>
+        b.priority - a.priority ||
+        this.specificity(b) - this.specificity(a) ||
+        b.updatedAt.getTime() - a.updatedAt.getTime()
+      );
+      const rule = matching[0];
+
+      return {
+        symbol,
+        marketType,
+        duration,
+        payoutPercent: rule.payoutPercent,
+        source: 'RULE',
+        ruleId: rule.id,
+        ruleName: rule.name,
+      };
+    }
+
+    const fallback = this.getFallbackPayout(symbol, isOTC);
+
+    return {
+      symbol,
+      marketType,
+      duration,
+      payoutPercent: fallback.payoutPercent,
+      source: fallback.source,
+      ruleId: null,
+      ruleName: null,
+    };
+  }
+
+  /**
+   * Resolve what happens to a trade on `symbol` that expires at its entry price
+   */
+  async resolveDrawPolicy(symbol: string): Promise<DrawPolicy> {
+    await this.ensureLoaded();
+
+    if (otcMarketService.isOTCSymbol(symbol)) {
+      const otcPolicy = otcMarketService.getConfig(symbol)?.drawPolicy;
+      if (otcPolicy) return otcPolicy;
+    } else {
+      const marketPolicy = this.marketDrawPolicies.get(symbol);
+      if (marketPolicy) return marketPolicy;
+    }
+
+    return config.trading.defaultDrawPolicy;
+  }
+
+  async getAllRules(): Promise<PayoutRuleRow[]> {
+    const rules = await queryMany<PayoutRuleRow>(
+      `SELECT * FROM "PayoutRule" ORDER BY priority DESC, "createdAt" ASC`
+    );
+
+    return rules.map((rule) => this.normalizeRule(rule));
+  }
+
+  async createRule(data: PayoutRuleInput, adminId: string): Promise<PayoutRuleRow> {
+    this.validateRuleShape(data);
+
+    const now = new Date();
+    const rule = await queryOne<PayoutRuleRow>(
+      `INSERT INTO "PayoutRule" (
+        id, name, symbol, "marketType", "minDuration", "maxDuration",
+        "windowStart", "windowEnd", "payoutPercent", priority, "isActive",
+        "createdBy", "createdAt", "updatedAt"
+      ) VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10, $11, $12, $13, $14)
+      RETURNING *`,
+      [
+        randomUUID(),
+        data.name,
+        data.symbol ?? null,
+        data.marketType ?? null,
+        data.minDuration ?? null,
+        data.maxDuration ?? null,
+        data.windowStart ?? null,
+        data.windowEnd ?? null,
+        data.payoutPercent,
+        data.priority ?? 0,
+        data.isActive ?? true,
+        adminId,
+        now,
+        now,
+      ]
+    );
+
+    logger.info('[PayoutSchedule] Rule created', { id: rule!.id, name: rule!.name, adminId });
+    this.invalidate();
+
+    return this.normalizeRule(rule!);
+  }
+
+  async updateRule(id: string, data: Partial<PayoutRuleInput>): Promise<PayoutRuleRow> {
+    const existing = await queryOne<PayoutRuleRow>(
+      `SELECT * FROM "PayoutRule" WHERE id = $1`,
+      [id]
+    );
+
+    if (!existing) {
+      throw new PayoutScheduleServiceError('Payout rule not found', 404);
+    }
+
+    this.validateRuleShape({ ...this.normalizeRule(existing), ...data });
+
+    const fields: Array<keyof PayoutRuleInput> = [
+      'name', 'symbol', 'marketType', 'minDuration', 'maxDuration',
+      'windowStart', 'windowEnd', 'payoutPercent', 'priority', 'isActive',
+    ];
+    const updates: string[] = [];
+    const params: any[] = [];
+    let paramIndex = 1;
+
+    for (const field of fields) {
+      if (data[field] !== undefined) {
+        updates.push(`"${field}" = $${paramIndex++}`);
+        params.push(data[field]);
+      }
+    }
+
+    updates.push(`"updatedAt" = $${paramIndex++}`);
+    params.push(new Date());
+    params.push(id);
+
+    const rule = await queryOne<PayoutRuleRow>(
+      `UPDATE "PayoutRule" SET ${updates.join(', ')} WHERE id = $${paramIndex} RETURNING *`,
+      params
+    );
+
+    logger.info('[PayoutSchedule] Rule updated', { id, data });
+    this.invalidate();
+
+    return this.normalizeRule(rule!);
+  }
+
+  async deleteRule(id: string): Promise<{ success: boolean }> {
+    const deleted = await queryOne<{ id: string }>(
+      `DELETE FROM "PayoutRule" WHERE id = $1 RETURNING id`,
+      [id]
+    );
+
+    if (!deleted) {
+      throw new PayoutScheduleServiceError('Payout rule not found', 404);
+    }
+
+    logger.info('[PayoutSchedule] Rule deleted', { id });
+    this.invalidate();
+
+    return { success: true };
+  }
+
+  /**
+   * Drop the cache so the next resolution reloads rules and market configs.
+   * Call after changing MarketConfig payouts outside this service.
+   */
+  invalidate(): void {
+    this.loadedAt = 0;
+  }
+
+  private async ensureLoaded(): Promise<void> {
+    if (Date.now() - this.loadedAt < this.CACHE_TTL_MS) return;
+
+    if (!this.loadPromise) {
+      this.loadPromise = this.load().finally(() => {
+        this.loadPromise = null;
+      });
+    }
+
+    await this.loadPromise;
+  }
+
+  private async load(): Promise<void> {
+    try {
+      const [rules, marketConfigs] = await Promise.all([
+        queryMany<PayoutRuleRow>(`SELECT * FROM "PayoutRule" WHERE "isActive" = true`),
+        queryMany<{ symbol: string; payoutPercent: number; drawPolicy: DrawPolicy | null }>(
+          `SELECT symbol, "payoutPercent", "drawPolicy" FROM "MarketConfig" WHERE "isActive" = true`
+        ),
+      ]);
+
+      this.rules = rules.map((rule) => this.normalizeRule(rule));
+      this.marketPayouts = new Map(
+        marketConfigs.map((row) => [row.symbol, Number(row.payoutPercent)])
+      );
+      this.marketDrawPolicies = new Map(
+        marketConfigs
+          .filter((row) => row.drawPolicy)
+          .map((row) => [row.symbol, row.drawPolicy!])
+      );
+      this.loadedAt = Date.now();
+    } catch (error) {
+      // Keep serving the last loaded schedule rather than failing trades
+      logger.error('[PayoutSchedule] Failed to load payout rules', { error });
+    }
+  }
+
+  private ruleMatches(
+    rule: PayoutRuleRow,
+    symbol: string,
+    marketType: string | null,
+    isOTC: boolean,
+    duration: number,
+    minuteOfDay: number
+  ): boolean {
+    if (rule.symbol && rule.symbol !== symbol) return false;
+
+    if (rule.marketType) {
+      const matchesType = rule.marketType === 'otc' ? isOTC : rule.marketType === marketType;
+      if (!matchesType) return false;
+    }
+
+    if (rule.minDuration !== null && duration < rule.minDuration) return false;
+    if (rule.maxDuration !== null && duration > rule.maxDuration) return false;
+
+    if (rule.windowStart && rule.windowEnd) {
+      const start = this.toMinuteOfDay(rule.windowStart);
+      const end = this.toMinuteOfDay(rule.windowEnd);
+      const inWindow = start <= end
+        ? minuteOfDay >= start && minuteOfDay < end
+        : minuteOfDay >= start || minuteOfDay < end;
+      if (!inWindow) return false;
+    }
+
+    return true;
+  }
+
+  /**
+   * Tie-breaker between rules of equal priority: a symbol match beats a market
+   * type match, which beats a duration bucket, which beats a time window.
+   */
+  private specificity(rule: PayoutRuleRow): number {
+    let score = 0;
+    if (rule.symbol) score += 8;
+    if (rule.marketType) score += 4;
+    if (rule.minDuration !== null || rule.maxDuration !== null) score += 2;
+    if (rule.windowStart && rule.windowEnd) score += 1;
+    return score;
+  }
+
+  private getFallbackPayout(symbol: string, isOTC: boolean): { payoutPercent: number; source: PayoutSource } {
+    if (isOTC) {
+      const otcConfig = otcMarketService.getConfig(symbol);
+      if (otcConfig) {
+        return { payoutPercent: Number(otcConfig.payoutPercent), source: 'OTC_CONFIG' };
+      }
+    }
+
+    const marketPayout = this.marketPayouts.get(symbol);
+    if (marketPayout !== undefined) {
+      return { payoutPercent: marketPayout, source: 'MARKET_CONFIG' };
+    }
+
+    const asset = marketService.getAsset(symbol);
+    if (asset) {
+      return { payoutPercent: asset.payoutPercent, source: 'ASSET' };
+    }
+
+    return { payoutPercent: config.trading.defaultPayoutPercentage, source: 'DEFAULT' };
+  }
+
+  private getMarketType(symbol: string, isOTC: boolean): string | null {
+    if (isOTC) {
+      const otcConfig = otcMarketService.getConfig(symbol);
+      if (otcConfig) return otcConfig.marketType.toLowerCase();
+    }
+
+    return marketService.getAsset(symbol)?.marketType ?? null;
+  }
+
+  private validateRuleShape(
+    data: Pick<Partial<PayoutRuleInput>, 'minDuration' | 'maxDuration' | 'windowStart' | 'windowEnd'>
+  ): void {
+    if (
+      data.minDuration !== null && data.minDuration !== undefined &&
+      data.maxDuration !== null && data.maxDuration !== undefined &&
+      data.minDuration > data.maxDuration
+    ) {
+      throw new PayoutScheduleServiceError('minDuration cannot be greater than maxDuration', 400);
+    }
+
+    if (!data.windowStart !== !data.windowEnd) {
+      throw new PayoutScheduleServiceError('windowStart and windowEnd must be set together', 400);
+    }
+  }
+
+  private toMinuteOfDay(time: string): number {
+    const [hours, minutes] = time.split(':').map(Number);
+    return hours * 60 + minutes;
+  }
+
+  private normalizeRule(rule: PayoutRuleRow): PayoutRuleRow {
+    return {
+      ...rule,
+      payoutPercent: Number(rule.payoutPercent),
+    };
+  }
+}
+
+export const payoutScheduleService = new PayoutScheduleService();
+export { PayoutScheduleServiceError };
+export type { PayoutQuote, PayoutRuleInput, PayoutMarketType, DrawPolicy };
@@ -0,0 +1,189 @@
+import { query, queryMany, queryOne } from '../../config/db.js';
+import { config } from '../../config/env.js';
+import { logger } from '../../utils/logger.js';
+import type { JournalTick } from './tick-journal.service.js';
+
+/**
+ * Price Tick Journal
+ *
+ * Persists the ticks of real (non-OTC) symbols so a trade's price path can be
+ * replayed after the in-memory TickJournal has rotated them out. OTC symbols
+ * already have OTCPriceHistory and are not stored here.
+ *
+ * Ticks are buffered in memory and flushed in batches. To keep the table small,
+ * only ticks for symbols that currently have open trades are written - every
+ * replay window (openedAt to settlement) falls inside such a period.
+ */
+
+interface PersistedTick {
+  symbol: string;
+  price: number;
+  bid: number;
+  ask: number;
+  source: string;
+  timestamp: Date;
+}
+
+const FLUSH_INTERVAL_MS = 1000;
+const CLEANUP_INTERVAL_MS = 60 * 60 * 1000;
+// Drop the oldest buffered ticks beyond this, e.g. while the database is unreachable
+const MAX_BUFFERED_TICKS = 20000;
+const INSERT_BATCH_SIZE = 1000;
+
+class PriceTickJournal {
+  private buffer: PersistedTick[] = [];
+  private flushInterval: NodeJS.Timeout | null = null;
+  private cleanupInterval: NodeJS.Timeout | null = null;
+  private isFlushing = false;
+  private readonly RETENTION_DAYS = config.tickJournal.persistRetentionDays;
+
+  enqueue(tick: JournalTick): void {
+    // Only the running journal (the cluster leader's) persists, so each tick is stored once
+    if (tick.source === 'OTC' || !this.flushInterval) return;
+
+    this.buffer.push({
+      symbol: tick.symbol,
+      price: tick.price,
+      bid: tick.bid,
+      ask: tick.ask,
+      source: tick.source,
+      timestamp: tick.timestamp,
+    });
+
+    if (this.buffer.length > MAX_BUFFERED_TICKS) {
+      this.buffer.splice(0, this.buffer.length - MAX_BUFFERED_TICKS);
+    }
+  }
+
+  /**
+   * Ticks for a symbol between two times (inclusive), oldest first
+   */
+  async getTicksBetween(symbol: string, from: Date, to: Date, limit: number): Promise<PersistedTick[]> {
+    return queryMany<PersistedTick>(
+      `SELECT symbol, price, bid, ask, source, timestamp
+       FROM "PriceTickJournal"
+       WHERE symbol = $1 AND timestamp >= $2 AND timestamp <= $3
+       ORDER BY timestamp ASC
+       LIMIT $4`,
+      [symbol, from, to, limit]
+    );
+  }
+
+  /**
+   * Last persisted tick for a symbol at or before the given time
+   */
+  async getTickAt(symbol: string, at: Date): Promise<PersistedTick | null> {
+    return queryOne<PersistedTick>(
+      `SELECT symbol, price, bid, ask, source, timestamp
+       FROM "PriceTickJournal"
+       WHERE symbol = $1 AND timestamp <= $2
+       ORDER BY timestamp DESC
+       LIMIT 1`,
+      [symbol, at]
+    );
+  }
+
+  start(): void {
+    if (this.flushInterval) return;
+
+    this.flushInterval = setInterval(() => {
+      this.flush().catch((error) => {
+        logger.error('[PriceTickJournal] Flush failed', { error });
+      });
+    }, FLUSH_INTERVAL_MS);
+
+    this.cleanupInterval = setInterval(() => {
+      this.cleanup().catch((error) => {
+        logger.error('[PriceTickJournal] Cleanup failed', { error });
+      });
+    }, CLEANUP_INTERVAL_MS);
+
+    logger.info('[PriceTickJournal] Started', { retentionDays: this.RETENTION_DAYS });
+  }
+
+  stop(): void {
+    if (this.flushInterval) {
+      clearInterval(this.flushInterval);
+      this.flushInterval = null;
+    }
+    if (this.cleanupInterval) {
+      clearInterval(this.cleanupInterval);
+      this.cleanupInterval = null;
+    }
+  }
+
+  private async flush(): Promise<void> {
+    if (this.isFlushing || this.buffer.length === 0) return;
+    this.isFlushing = true;
+
+    try {
+      // Decide which symbols are worth keeping before taking the buffer, so
+      // ticks that arrived just before a trade was inserted are still kept
+      const openSymbols = await queryMany<{ symbol: string }>(
+        `SELECT DISTINCT symbol FROM "Trade" WHERE status = 'OPEN'`
+      );
+      const symbols = new Set(openSymbols.map((row) => row.symbol));
+
+      const pending = this.buffer;
+      this.buffer = [];
+
+      const ticks = pending.filter((tick) => symbols.has(tick.symbol));
+
+      for (let i = 0; i < ticks.length; i += INSERT_BATCH_SIZE) {
+        await this.insertBatch(ticks.slice(i, i + INSERT_BATCH_SIZE));
+      }
+    } finally {
+      this.isFlushing = false;
+    }
+  }
+
+  private async insertBatch(ticks: PersistedTick[]): Promise<void> {
+    const values: string[] = [];
+    const params: (string | number | Date)[] = [];
+    let paramIndex = 1;
+
+    for (const tick of ticks) {
+      values.push(`(gen_random_uuid(), $${paramIndex}, $${paramIndex + 1}, $${paramIndex + 2}, $${paramIndex + 3}, $${paramIndex + 4}, $${paramIndex + 5})`);
+      params.push(tick.symbol, tick.price, tick.bid, tick.ask, tick.source, tick.timestamp);
+      paramIndex += 6;
+    }
+
+    await query(
+      `INSERT INTO "PriceTickJournal" (id, symbol, price, bid, ask, source, timestamp)
+       VALUES ${values.join(', ')}`,
+      params
+    );
+  }
+
+  /**
+   * Delete ticks past the retention period in small batches to keep locks short
+   */
+  private async cleanup(): Promise<void> {
+    const BATCH_SIZE = 5000;
+    const MAX_BATCHES = 20;
+    let totalDeleted = 0;
+
+    for (let i = 0; i < MAX_BATCHES; i++) {
+      const result = await query(
+        `DELETE FROM "PriceTickJournal"
+         WHERE ctid IN (
+           SELECT ctid FROM "PriceTickJournal"
+           WHERE timestamp < NOW() - make_interval(days => $1)
+           LIMIT $2
+         )`,
+        [this.RETENTION_DAYS, BATCH_SIZE]
+      );
+
+      const deletedCount = result?.rowCount || 0;
+      totalDeleted += deletedCount;
+      if (deletedCount < BATCH_SIZE) break;
+    }
+
+    if (totalDeleted > 0) {
+      logger.info('[PriceTickJournal] Purged old ticks', { deletedCount: totalDeleted });
+    }
+  }
+}
+
+export const priceTickJournal = new PriceTickJournal();
+export type { PersistedTick };
@@ -0,0 +1,54 @@
+import { binanceService, BinanceService } from '../../binance/binance.service.js';
+import { BaseMarketDataProvider, type ProviderCandle, type ProviderStatus } from './market-data-provider.js';
+
+/**
+ * Binance ticker streams for crypto. The socket carries every mapped pair,
+ * so subscriptions only filter which ticks are passed on.
+ */
+class BinanceProvider extends BaseMarketDataProvider {
+  readonly name = 'BINANCE' as const;
+  private unsubscribeService: (() => void) | null = null;
+
+  connect(): void {
+    if (!this.unsubscribeService) {
+      this.unsubscribeService = binanceService.onPriceUpdate((tick) => {
+        this.emit({
+          symbol: tick.symbol,
+          price: tick.price,
+          bid: tick.bid,
+          ask: tick.ask,
+          timestamp: tick.timestamp,
+        });
+      });
+    }
+
+    binanceService.start();
+  }
+
+  disconnect(): void {
+    binanceService.cleanup();
+    this.unsubscribeService = null;
+    this.subscriptions.clear();
+  }
+
+  supports(symbol: string): boolean {
+    return binanceService.getBinanceSymbol(symbol) !== null;
+  }
+
+  async getHistoricalCandles(symbol: string, resolutionSeconds: number, count: number): Promise<ProviderCandle[]> {
+    const interval = BinanceService.resolutionToInterval(resolutionSeconds);
+    return binanceService.getHistoricalKlines(symbol, interval, count);
+  }
+
+  getStatus(): ProviderStatus {
+    const status = binanceService.getStatus();
+    return {
+      name: this.name,
+      available: status.available,
+      connected: status.connected,
+      subscriptions: this.subscriptions.size,
+    };
+  }
+}
+
+export { BinanceProvider };
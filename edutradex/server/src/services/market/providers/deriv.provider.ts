@@ -0,0 +1,65 @@
+import { logger } from '../../../utils/logger.js';
+import { derivService, DerivService } from '../../deriv/deriv.service.js';
+import { BaseMarketDataProvider, type ProviderCandle, type ProviderStatus } from './market-data-provider.js';
+
+/**
+ * Deriv WebSocket feed: forex, plus crypto as a failover source
+ */
+class DerivProvider extends BaseMarketDataProvider {
+  readonly name = 'DERIV' as const;
+  private unsubscribeService: (() => void) | null = null;
+
+  connect(): void {
+    if (!this.unsubscribeService) {
+      this.unsubscribeService = derivService.onPriceUpdate((tick) => {
+        const price = tick.quote || ((tick.bid + tick.ask) / 2);
+        if (!price || isNaN(price)) {
+          logger.warn(`Invalid Deriv tick for ${tick.symbol}:`, tick);
+          return;
+        }
+
+        this.emit({ symbol: tick.symbol, price, timestamp: tick.epoch * 1000 });
+      });
+    }
+
+    derivService.start();
+  }
+
+  disconnect(): void {
+    // cleanup() drops every service callback, ours included
+    derivService.cleanup();
+    this.unsubscribeService = null;
+    this.subscriptions.clear();
+  }
+
+  supports(symbol: string): boolean {
+    return derivService.getDerivSymbol(symbol) !== null;
+  }
+
+  subscribe(symbol: string): void {
+    super.subscribe(symbol);
+    derivService.subscribe(symbol);
+  }
+
+  unsubscribe(symbol: string): void {
+    super.unsubscribe(symbol);
+    derivService.unsubscribe(symbol);
+  }
+
+  async getHistoricalCandles(symbol: string, resolutionSeconds: number, count: number): Promise<ProviderCandle[]> {
+    const granularity = DerivService.resolutionToGranularity(resolutionSeconds);
+    return derivService.getHistoricalCandles(symbol, granularity, count);
+  }
+
+  getStatus(): ProviderStatus {
+    const status = derivService.getStatus();
+    return {
+      name: this.name,
+      available: derivService.isServiceAvailable(),
+      connected: status.connected,
+      subscriptions: status.subscriptions,
+    };
+  }
+}
+
+export { DerivProvider };
@@ -0,0 +1,71 @@
+import { logger } from '../../../utils/logger.js';
+import { finnhubService, FinnhubService } from '../../finnhub/finnhub.service.js';
+import { BaseMarketDataProvider, type ProviderCandle, type ProviderStatus } from './market-data-provider.js';
+
+/**
+ * Finnhub trades for stocks and index ETFs, which are always streamed, and
+ * OANDA forex pairs, which are streamed on demand
+ */
+class FinnhubProvider extends BaseMarketDataProvider {
+  readonly name = 'FINNHUB' as const;
+  private unsubscribeService: (() => void) | null = null;
+  private equitySymbols = new Set([
+    ...finnhubService.getSupportedStockSymbols(),
+    ...finnhubService.getSupportedIndexSymbols(),
+  ]);
+
+  connect(): void {
+    if (!this.unsubscribeService) {
+      this.unsubscribeService = finnhubService.onPriceUpdate((tick) => {
+        this.emit({ symbol: tick.symbol, price: tick.price, timestamp: tick.timestamp });
+      });
+    }
+
+    finnhubService.start();
+  }
+
+  disconnect(): void {
+    finnhubService.cleanup();
+    this.unsubscribeService = null;
+    this.subscriptions.clear();
+  }
+
+  supports(symbol: string): boolean {
+    return this.equitySymbols.has(symbol) || finnhubService.isForexSymbol(symbol);
+  }
+
+  subscribe(symbol: string): void {
+    super.subscribe(symbol);
+    if (finnhubService.isForexSymbol(symbol)) {
+      finnhubService.subscribeForex(symbol);
+    }
+  }
+
+  unsubscribe(symbol: string): void {
+    super.unsubscribe(symbol);
+    if (finnhubService.isForexSymbol(symbol)) {
+      finnhubService.unsubscribeForex(symbol);
+    }
+  }
+
+  // Only forex candles are available on our Finnhub plan
+  async getHistoricalCandles(symbol: string, resolutionSeconds: number, count: number): Promise<ProviderCandle[]> {
+    if (!finnhubService.isForexSymbol(symbol)) return [];
+
+    const resolution = FinnhubService.resolutionToInterval(resolutionSeconds);
+    logger.info(`[Finnhub] Fetching forex candles for ${symbol}, resolution=${resolution}, requested=${count}`);
+    return finnhubService.getForexCandles(symbol, resolution, count);
+  }
+
+  getStatus(): ProviderStatus {
+    const status = finnhubService.getStatus();
+    return {
+      name: this.name,
+      available: status.available,
+      connected: status.connected,
+      subscriptions: this.subscriptions.size,
+    };
+  }
+}
+
+export { FinnhubProvider };
@@ -0,0 +1,42 @@
+/**
+ * Market data providers - live feeds and the offline replay source
+ */
+
+import { config } from '../../../config/env.js';
+import { logger } from '../../../utils/logger.js';
+import type { MarketDataProvider } from './market-data-provider.js';
+import { DerivProvider } from './deriv.provider.js';
+import { BinanceProvider } from './binance.provider.js';
+import { FinnhubProvider } from './finnhub.provider.js';
+import { ReplayProvider } from './replay.provider.js';
+
+export * from './market-data-provider.js';
+export { DerivProvider, BinanceProvider, FinnhubProvider, ReplayProvider };
+
+/**
+ * Providers for the configured market data mode. Replay mode replaces the
+ * live feeds entirely so nothing connects to an external service.
+ */
+export function createMarketDataProviders(): MarketDataProvider[] {
+  if (config.marketData.mode === 'replay') {
+    return [new ReplayProvider(config.marketData.replay)];
+  }
+
+  const providers: MarketDataProvider[] = [];
+
+  if (config.deriv.useDerivApi) {
+    providers.push(new DerivProvider());
+  } else {
+    logger.warn('Deriv API disabled or unavailable - forex prices will not update');
+  }
+
+  providers.push(new BinanceProvider());
+
+  if (config.finnhub.apiKey) {
+    providers.push(new FinnhubProvider());
+  } else {
+    logger.warn('[Finnhub] No API key configured - stock/index prices will not update');
+  }
+
+  return providers;
+}
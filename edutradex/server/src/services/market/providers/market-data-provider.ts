@@ -0,0 +1,99 @@
+import { logger } from '../../../utils/logger.js';
+
+type ProviderName = 'DERIV' | 'BINANCE' | 'FINNHUB' | 'REPLAY';
+
+interface ProviderTick {
+  symbol: string;
+  price: number;
+  // Raw quote from the source; the broker spread is applied on top of these
+  bid?: number;
+  ask?: number;
+  timestamp: number; // ms
+}
+
+interface ProviderCandle {
+  time: number; // seconds
+  open: number;
+  high: number;
+  low: number;
+  close: number;
+  volume?: number;
+}
+
+interface ProviderStatus {
+  name: ProviderName;
+  available: boolean;
+  connected: boolean;
+  subscriptions: number;
+}
+
+type ProviderTickCallback = (tick: ProviderTick) => void;
+
+/**
+ * A source of live ticks and historical candles, in our symbol format
+ * (e.g. 'EUR/USD'). MarketService routes each symbol to the first provider
+ * that supports it and only ever talks to providers through this interface.
+ */
+interface MarketDataProvider {
+  readonly name: ProviderName;
+  connect(): void;
+  disconnect(): void;
+  supports(symbol: string): boolean;
+  subscribe(symbol: string): void;
+  unsubscribe(symbol: string): void;
+  onTick(callback: ProviderTickCallback): () => void;
+  getHistoricalCandles(symbol: string, resolutionSeconds: number, count: number): Promise<ProviderCandle[]>;
+  getStatus(): ProviderStatus;
+}
+
+/**
+ * Tick fan-out and subscription bookkeeping shared by the providers
+ */
+abstract class BaseMarketDataProvider implements MarketDataProvider {
+  abstract readonly name: ProviderName;
+  protected subscriptions = new Set<string>();
+  private callbacks = new Set<ProviderTickCallback>();
+
+  abstract connect(): void;
+  abstract disconnect(): void;
+  abstract supports(symbol: string): boolean;
+  abstract getHistoricalCandles(symbol: string, resolutionSeconds: number, count: number): Promise<ProviderCandle[]>;
+  abstract getStatus(): ProviderStatus;
+
+  subscribe(symbol: string): void {
+    this.subscriptions.add(symbol);
+  }
+
+  unsubscribe(symbol: string): void {
+    this.subscriptions.delete(symbol);
+  }
+
+  onTick(callback: ProviderTickCallback): () => void {
+    this.callbacks.add(callback);
+    return () => {
+      this.callbacks.delete(callback);
+    };
+  }
+
+  protected emit(tick: ProviderTick): void {
+    if (!this.subscriptions.has(tick.symbol)) return;
+
+    this.callbacks.forEach((callback) => {
+      try {
+        callback(tick);
+      } catch (error) {
+        logger.error(`[${this.name}] Error in tick callback:`, error);
+      }
+    });
+  }
+}
+
+export { BaseMarketDataProvider };
+export type {
+  MarketDataProvider,
+  ProviderName,
+  ProviderTick,
+  ProviderCandle,
+  ProviderStatus,
+  ProviderTickCallback,
+};
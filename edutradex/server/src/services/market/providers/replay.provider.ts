@@ -0,0 +1,225 @@
+import { readFileSync } from 'fs';
+import path from 'path';
+import { logger } from '../../../utils/logger.js';
+import { BaseMarketDataProvider, type ProviderCandle, type ProviderStatus } from './market-data-provider.js';
+
+interface ReplayTick {
+  symbol: string;
+  price: number;
+  bid?: number;
+  ask?: number;
+  time: number; // recorded time, ms
+}
+
+interface ReplayOptions {
+  files: string[];
+  speed: number;
+  loop: boolean;
+}
+
+const PUMP_INTERVAL_MS = 100;
+// Replayed ticks kept per symbol for historical candles
+const MAX_BUFFERED_TICKS = 20000;
+
+function parseTimestamp(value: unknown): number | null {
+  if (typeof value === 'number' || (typeof value === 'string' && /^\d+(\.\d+)?$/.test(value.trim()))) {
+    const numeric = Number(value);
+    // Epoch seconds vs milliseconds
+    return numeric < 1e12 ? numeric * 1000 : numeric;
+  }
+  if (typeof value === 'string') {
+    const parsed = Date.parse(value);
+    return isNaN(parsed) ? null : parsed;
+  }
+  return null;
+}
+
+function parseOptionalPrice(value: unknown): number | undefined {
+  if (value === undefined || value === null || value === '') return undefined;
+  const price = Number(value);
+  return isFinite(price) && price > 0 ? price : undefined;
+}
+
+/**
+ * Streams recorded ticks from CSV or JSONL files so the server, charts and
+ * settlement can run without any external feed. Ticks are replayed at their
+ * recorded spacing divided by the speed factor and stamped with the current
+ * time, so the rest of the system sees them as live.
+ *
+ * CSV needs a header row; columns are timestamp, symbol, price and optionally
+ * bid and ask. JSONL lines are objects with the same fields. Timestamps are
+ * epoch seconds, epoch milliseconds or ISO 8601.
+ */
+class ReplayProvider extends BaseMarketDataProvider {
+  readonly name = 'REPLAY' as const;
+  private ticks: ReplayTick[] = [];
+  private symbols = new Set<string>();
+  private replayed = new Map<string, { price: number; timestamp: number }[]>();
+  private readonly speed: number;
+  private readonly loop: boolean;
+  private pumpInterval: NodeJS.Timeout | null = null;
+  private cursor = 0;
+  private startedAt = 0;
+  private passes = 0;
+
+  constructor(options: ReplayOptions) {
+    super();
+    this.speed = options.speed > 0 ? options.speed : 1;
+    this.loop = options.loop;
+
+    options.files.forEach((file) => {
+      this.ticks.push(...this.loadFile(file));
+    });
+    this.ticks.sort((a, b) => a.time - b.time);
+    this.ticks.forEach((tick) => this.symbols.add(tick.symbol));
+
+    logger.info(`[Replay] Loaded ${this.ticks.length} ticks for ${this.symbols.size} symbols from ${options.files.length} file(s)`);
+  }
+
+  private loadFile(file: string): ReplayTick[] {
+    let content: string;
+    try {
+      content = readFileSync(path.resolve(file), 'utf8');
+    } catch (error) {
+      logger.error(`[Replay] Failed to read ${file}:`, error);
+      return [];
+    }
+
+    const lines = content.split(/\r?\n/).filter((line) => line.trim() !== '');
+    const records: Record<string, unknown>[] = [];
+    let skipped = 0;
+
+    if (path.extname(file).toLowerCase() === '.csv') {
+      const header = (lines.shift() ?? '').split(',').map((column) => column.trim().toLowerCase());
+      lines.forEach((line) => {
+        const values = line.split(',');
+        records.push(Object.fromEntries(header.map((column, i) => [column, values[i]?.trim()])));
+      });
+    } else {
+      lines.forEach((line) => {
+        try {
+          records.push(JSON.parse(line));
+        } catch {
+          skipped++;
+        }
+      });
+    }
+
+    const ticks: ReplayTick[] = [];
+    records.forEach((record) => {
+      const time = parseTimestamp(record.timestamp);
+      const price = parseOptionalPrice(record.price);
+      if (typeof record.symbol !== 'string' || !record.symbol || time === null || price === undefined) {
+        skipped++;
+        return;
+      }
+
+      ticks.push({
+        symbol: record.symbol,
+        price,
+        bid: parseOptionalPrice(record.bid),
+        ask: parseOptionalPrice(record.ask),
+        time,
+      });
+    });
+
+    if (skipped > 0) {
+      logger.warn(`[Replay] Skipped ${skipped} invalid rows in ${file}`);
+    }
+    return ticks;
+  }
+
+  connect(): void {
+    if (this.pumpInterval) return;
+    if (this.ticks.length === 0) {
+      logger.error('[Replay] No ticks to replay - check MARKET_REPLAY_FILES');
+      return;
+    }
+
+    this.cursor = 0;
+    this.startedAt = Date.now();
+    this.pumpInterval = setInterval(() => this.pump(), PUMP_INTERVAL_MS);
+    logger.info(`[Replay] Replaying at ${this.speed}x${this.loop ? ', looping' : ''}`);
+  }
+
+  disconnect(): void {
+    if (this.pumpInterval) {
+      clearInterval(this.pumpInterval);
+      this.pumpInterval = null;
+    }
+  }
+
+  private pump(): void {
+    const replayTime = this.ticks[0].time + (Date.now() - this.startedAt) * this.speed;
+
+    while (this.cursor < this.ticks.length && this.ticks[this.cursor].time <= replayTime) {
+      const tick = this.ticks[this.cursor++];
+      const now = Date.now();
+
+      let buffer = this.replayed.get(tick.symbol);
+      if (!buffer) {
+        buffer = [];
+        this.replayed.set(tick.symbol, buffer);
+      }
+      buffer.push({ price: tick.price, timestamp: now });
+      if (buffer.length > MAX_BUFFERED_TICKS) {
+        buffer.shift();
+      }
+
+      this.emit({ symbol: tick.symbol, price: tick.price, bid: tick.bid, ask: tick.ask, timestamp: now });
+    }
+
+    if (this.cursor < this.ticks.length) return;
+
+    this.passes++;
+    if (this.loop) {
+      this.cursor = 0;
+      this.startedAt = Date.now();
+      logger.info(`[Replay] Reached end of recording, restarting (pass ${this.passes + 1})`);
+    } else {
+      this.disconnect();
+      logger.info('[Replay] Reached end of recording');
+    }
+  }
+
+  supports(symbol: string): boolean {
+    return this.symbols.has(symbol);
+  }
+
+  // Candles are built from what has been replayed so far
+  async getHistoricalCandles(symbol: string, resolutionSeconds: number, count: number): Promise<ProviderCandle[]> {
+    const buffer = this.replayed.get(symbol);
+    if (!buffer) return [];
+
+    const resolutionMs = resolutionSeconds * 1000;
+    const candles: ProviderCandle[] = [];
+
+    buffer.forEach(({ price, timestamp }) => {
+      const time = Math.floor(timestamp / resolutionMs) * resolutionSeconds;
+      const last = candles[candles.length - 1];
+
+      if (last && last.time === time) {
+        last.high = Math.max(last.high, price);
+        last.low = Math.min(last.low, price);
+        last.close = price;
+        last.volume = (last.volume ?? 0) + 1;
+      } else {
+        candles.push({ time, open: price, high: price, low: price, close: price, volume: 1 });
+      }
+    });
+
+    return candles.slice(-count);
+  }
+
+  getStatus(): ProviderStatus {
+    return {
+      name: this.name,
+      available: this.ticks.length > 0,
+      connected: this.pumpInterval !== null,
+      subscriptions: this.subscriptions.size,
+    };
+  }
+}
+
+export { ReplayProvider };
+export type { ReplayOptions };
@@ -0,0 +1,139 @@
+import { logger } from '../../utils/logger.js';
+import { config } from '../../config/env.js';
+import { priceTickJournal } from './price-tick-journal.service.js';
+
+/**
+ * Tick Journal
+ *
+ * Keeps a short, time-ordered record of every tick received per symbol so that
+ * trades can be settled against the price that was live at their exact expiry,
+ * instead of whatever price happens to be current when the settlement job runs.
+ *
+ * Fed by the Deriv/Binance/Finnhub handlers in MarketService and by the OTC
+ * price loop in OTCMarketService. Real-symbol ticks are also handed to the
+ * PriceTickJournal, which persists them for trade replay.
+ */
+
+type TickSource = 'DERIV' | 'BINANCE' | 'FINNHUB' | 'REPLAY' | 'OTC';
+
+interface JournalTick {
+  symbol: string;
+  price: number;
+  bid: number;
+  ask: number;
+  timestamp: Date;
+  source: TickSource;
+}
+
+class TickJournal {
+  private ticks: Map<string, JournalTick[]> = new Map();
+  private readonly RETENTION_MS = config.tickJournal.retentionMs;
+  private readonly MAX_TICKS_PER_SYMBOL = config.tickJournal.maxTicksPerSymbol;
+
+  /**
+   * Record a tick for a symbol. Ticks normally arrive in order, but late
+   * ticks are inserted at their correct position so lookups stay accurate.
+   */
+  record(tick: JournalTick): void {
+    if (!Number.isFinite(tick.price) || isNaN(tick.timestamp.getTime())) {
+      logger.warn('[TickJournal] Ignoring invalid tick', { symbol: tick.symbol, source: tick.source });
+      return;
+    }
+
+    let journal = this.ticks.get(tick.symbol);
+    if (!journal) {
+      journal = [];
+      this.ticks.set(tick.symbol, journal);
+    }
+
+    const last = journal[journal.length - 1];
+    if (!last || last.timestamp.getTime() <= tick.timestamp.getTime()) {
+      journal.push(tick);
+    } else {
+      const index = this.findInsertIndex(journal, tick.timestamp.getTime());
+      journal.splice(index, 0, tick);
+    }
+
+    this.prune(journal);
+    priceTickJournal.enqueue(tick);
+  }
+
+  /**
+   * Get the last tick recorded at or before the given time.
+   * Returns null if the journal has no tick that old (e.g. after a restart).
+   */
+  getTickAt(symbol: string, at: Date): JournalTick | null {
+    const journal = this.ticks.get(symbol);
+    if (!journal || journal.length === 0) return null;
+
+    const index = this.findInsertIndex(journal, at.getTime()) - 1;
+    return index >= 0 ? journal[index] : null;
+  }
+
+  /**
+   * Get all ticks recorded between two times (inclusive)
+   */
+  getTicksBetween(symbol: string, from: Date, to: Date): JournalTick[] {
+    const journal = this.ticks.get(symbol);
+    if (!journal || journal.length === 0) return [];
+
+    const start = this.findInsertIndex(journal, from.getTime() - 1);
+    const end = this.findInsertIndex(journal, to.getTime());
+    return journal.slice(start, end);
+  }
+
+  getLatestTick(symbol: string): JournalTick | null {
+    const journal = this.ticks.get(symbol);
+    return journal && journal.length > 0 ? journal[journal.length - 1] : null;
+  }
+
+  getStatus(): { symbols: number; totalTicks: number; retentionMs: number } {
+    let totalTicks = 0;
+    this.ticks.forEach((journal) => {
+      totalTicks += journal.length;
+    });
+
+    return {
+      symbols: this.ticks.size,
+      totalTicks,
+      retentionMs: this.RETENTION_MS,
+    };
+  }
+
+  /**
+   * Index of the first tick with a timestamp strictly after `time`
+   */
+  private findInsertIndex(journal: JournalTick[], time: number): number {
+    let low = 0;
+    let high = journal.length;
+
+    while (low < high) {
+      const mid = (low + high) >>> 1;
+      if (journal[mid].timestamp.getTime() <= time) {
+        low = mid + 1;
+      } else {
+        high = mid;
+      }
+    }
+
+    return low;
+  }
+
+  private prune(journal: JournalTick[]): void {
+    const cutoff = Date.now() - this.RETENTION_MS;
+    let removeCount = 0;
+
+    while (removeCount < journal.length - 1 && journal[removeCount].timestamp.getTime() < cutoff) {
+      removeCount++;
+    }
+
+    removeCount = Math.max(removeCount, journal.length - this.MAX_TICKS_PER_SYMBOL);
+
+    if (removeCount > 0) {
+      journal.splice(0, removeCount);
+    }
+  }
+}
+
+export const tickJournal = new TickJournal();
+export type { JournalTick, TickSource };
@@ -0,0 +1,252 @@
+import { queryOne, queryMany, transaction } from '../../config/db.js';
+import { config } from '../../config/env.js';
+import { logger } from '../../utils/logger.js';
+import {
+  createMobileMoneyProviders,
+  MobileMoneySignatureError,
+  type MobileMoneyProvider,
+  type MobileMoneyRequest,
+  type MobileMoneyRequestResult,
+  type MobileMoneyTransactionStatus,
+  type MobileMoneyTransactionType,
+} from './providers/index.js';
+import { randomUUID } from 'crypto';
+
+interface MobileMoneyTransactionRow {
+  id: string;
+  type: MobileMoneyTransactionType;
+  provider: string;
+  userId: string;
+  depositId: string | null;
+  withdrawalId: string | null;
+  phoneNumber: string;
+  mobileProvider: string;
+  amount: number;
+  currency: string;
+  status: MobileMoneyTransactionStatus;
+  providerReference: string | null;
+  failureReason: string | null;
+  completedAt: Date | null;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+interface MobileMoneyPayment {
+  userId: string;
+  phoneNumber: string;
+  mobileProvider: string;
+  amount: number;
+}
+
+class MobileMoneyGatewayError extends Error {
+  constructor(
+    message: string,
+    public statusCode: number = 400
+  ) {
+    super(message);
+    this.name = 'MobileMoneyGatewayError';
+  }
+}
+
+/**
+ * Mobile money gateway. Starts push-payment collections and payouts with the
+ * provider serving the customer's operator, keeps one MobileMoneyTransaction
+ * per request, and turns verified provider callbacks into status changes.
+ * Crediting deposits and settling withdrawals is left to the settlement
+ * service.
+ */
+class MobileMoneyGatewayService {
+  private providers: MobileMoneyProvider[] = createMobileMoneyProviders();
+
+  isEnabled(): boolean {
+    return this.providers.length > 0;
+  }
+
+  /**
+   * Whether payments with this operator go through the gateway rather than
+   * admin approval
+   */
+  handles(mobileProvider: string | null | undefined): boolean {
+    return !!mobileProvider && !!this.providerFor(mobileProvider);
+  }
+
+  private providerFor(mobileProvider: string): MobileMoneyProvider | undefined {
+    return this.providers.find((provider) => provider.supports(mobileProvider));
+  }
+
+  async requestCollection(depositId: string, payment: MobileMoneyPayment): Promise<MobileMoneyTransactionRow> {
+    return this.startTransaction('COLLECTION', payment, { depositId }, (provider, request) =>
+      provider.requestCollection(request)
+    );
+  }
+
+  async sendPayout(withdrawalId: string, payment: MobileMoneyPayment): Promise<MobileMoneyTransactionRow> {
+    return this.startTransaction('PAYOUT', payment, { withdrawalId }, (provider, request) =>
+      provider.sendPayout(request)
+    );
+  }
+
+  private async startTransaction(
+    type: MobileMoneyTransactionType,
+    payment: MobileMoneyPayment,
+    source: { depositId?: string; withdrawalId?: string },
+    send: (provider: MobileMoneyProvider, request: MobileMoneyRequest) => Promise<MobileMoneyRequestResult>
+  ): Promise<MobileMoneyTransactionRow> {
+    const provider = this.providerFor(payment.mobileProvider);
+    if (!provider) {
+      throw new MobileMoneyGatewayError(`No mobile money gateway for ${payment.mobileProvider}`);
+    }
+
+    const id = randomUUID();
+    const now = new Date();
+
+    // Recorded before the request goes out so a callback can never outrun it
+    try {
+      await queryOne(
+        `INSERT INTO "MobileMoneyTransaction" (
+          id, type, provider, "userId", "depositId", "withdrawalId", "phoneNumber", "mobileProvider",
+          amount, currency, status, "createdAt", "updatedAt"
+        ) VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10, 'PENDING', $11, $11)`,
+        [
+          id, type, provider.name, payment.userId, source.depositId ?? null, source.withdrawalId ?? null,
+          payment.phoneNumber, payment.mobileProvider, payment.amount, config.mobileMoney.currency, now,
+        ]
+      );
+    } catch (error) {
+      if ((error as { code?: string }).code === '23505') {
+        throw new MobileMoneyGatewayError('A payout is already in progress for this withdrawal', 409);
+      }
+      throw error;
+    }
+
+    let result: MobileMoneyRequestResult;
+    try {
+      result = await send(provider, {
+        reference: id,
+        phoneNumber: payment.phoneNumber,
+        mobileProvider: payment.mobileProvider,
+        amount: payment.amount,
+        currency: config.mobileMoney.currency,
+        description: type === 'COLLECTION' ? 'Account deposit' : 'Account withdrawal',
+        callbackUrl: `${config.mobileMoney.callbackUrl}/${provider.name.toLowerCase()}`,
+      });
+    } catch (error) {
+      logger.error(`[MobileMoney] ${provider.name} ${type.toLowerCase()} request failed`, {
+        transactionId: id,
+        error: error instanceof Error ? error.message : error,
+      });
+      result = { providerReference: '', status: 'FAILED', failureReason: 'Mobile money provider unavailable' };
+    }
+
+    const row = await queryOne<MobileMoneyTransactionRow>(
+      `UPDATE "MobileMoneyTransaction"
+       SET "providerReference" = $1, status = $2, "failureReason" = $3, "completedAt" = $4, "updatedAt" = $5
+       WHERE id = $6
+       RETURNING *`,
+      [
+        result.providerReference || null, result.status, result.failureReason ?? null,
+        result.status === 'PENDING' ? null : new Date(), new Date(), id,
+      ]
+    );
+
+    logger.info(`[MobileMoney] ${type} sent`, {
+      transactionId: id,
+      provider: provider.name,
+      providerReference: result.providerReference,
+      status: result.status,
+      ...source,
+    });
+
+    return row!;
+  }
+
+  /**
+   * Verify a provider callback and apply it. Returns the transaction it
+   * completed, or null for a replayed callback or one about a transaction
+   * that is no longer pending.
+   */
+  async receiveCallback(
+    providerName: string,
+    headers: Record<string, string | string[] | undefined>,
+    rawBody: Buffer
+  ): Promise<MobileMoneyTransactionRow | null> {
+    const provider = this.providers.find((p) => p.name.toLowerCase() === providerName.toLowerCase());
+    if (!provider) {
+      throw new MobileMoneyGatewayError('Unknown mobile money provider', 404);
+    }
+
+    let callback;
+    try {
+      callback = provider.parseCallback(headers, rawBody);
+    } catch (error) {
+      if (error instanceof MobileMoneySignatureError) {
+        throw new MobileMoneyGatewayError(error.message, 401);
+      }
+      throw new MobileMoneyGatewayError('Malformed callback', 400);
+    }
+
+    // Stale signatures are refused outright; the event log below catches replays inside the window
+    const ageSeconds = Math.abs(Date.now() - callback.timestamp.getTime()) / 1000;
+    if (ageSeconds > config.mobileMoney.callbackToleranceSeconds) {
+      throw new MobileMoneyGatewayError('Callback timestamp outside the allowed window', 401);
+    }
+
+    return transaction(async (client) => {
+      const event = await client.query(
+        `INSERT INTO "MobileMoneyCallbackEvent" (id, provider, "eventId", "providerReference", "receivedAt")
+         VALUES ($1, $2, $3, $4, $5)
+         ON CONFLICT (provider, "eventId") DO NOTHING
+         RETURNING id`,
+        [randomUUID(), provider.name, callback.eventId, callback.providerReference, new Date()]
+      );
+      if (event.rowCount === 0) {
+        logger.info('[MobileMoney] Duplicate callback ignored', { provider: provider.name, eventId: callback.eventId });
+        return null;
+      }
+
+      const now = new Date();
+      const updated = await client.query<MobileMoneyTransactionRow>(
+        `UPDATE "MobileMoneyTransaction"
+         SET status = $1, "failureReason" = $2, "completedAt" = $3, "updatedAt" = $3
+         WHERE id = $4 AND provider = $5 AND "providerReference" = $6 AND status = 'PENDING'
+         RETURNING *`,
+        [callback.status, callback.failureReason ?? null, now, callback.reference, provider.name, callback.providerReference]
+      );
+
+      const row = updated.rows[0];
+      if (!row) {
+        // e.g. a payment approved on the phone after its request expired
+        const level = callback.status === 'SUCCESSFUL' ? 'error' : 'warn';
+        logger[level]('[MobileMoney] Callback for a transaction that is not pending', {
+          provider: provider.name,
+          reference: callback.reference,
+          providerReference: callback.providerReference,
+          status: callback.status,
+        });
+        return null;
+      }
+
+      return row;
+    });
+  }
+
+  /**
+   * Fail push payments the customer never approved
+   */
+  async expireCollections(): Promise<MobileMoneyTransactionRow[]> {
+    const cutoff = new Date(Date.now() - config.mobileMoney.collectionTimeoutMinutes * 60 * 1000);
+    const now = new Date();
+
+    return queryMany<MobileMoneyTransactionRow>(
+      `UPDATE "MobileMoneyTransaction"
+       SET status = 'FAILED', "failureReason" = 'Payment request expired', "completedAt" = $1, "updatedAt" = $1
+       WHERE type = 'COLLECTION' AND status = 'PENDING' AND "createdAt" < $2
+       RETURNING *`,
+      [now, cutoff]
+    );
+  }
+}
+
+export const mobileMoneyGatewayService = new MobileMoneyGatewayService();
+export { MobileMoneyGatewayError };
+export type { MobileMoneyTransactionRow, MobileMoneyPayment };
@@ -0,0 +1,111 @@
+import { queryMany } from '../../config/db.js';
+import { logger } from '../../utils/logger.js';
+import { depositService } from '../deposit/deposit.service.js';
+import { withdrawalService } from '../withdrawal/withdrawal.service.js';
+import { mobileMoneyGatewayService, type MobileMoneyTransactionRow } from './mobile-money-gateway.service.js';
+
+const RECONCILE_INTERVAL_MS = 60 * 1000;
+
+/**
+ * Mobile Money Settlement
+ *
+ * Applies finished gateway transactions to the deposits and withdrawals they
+ * belong to: a paid collection credits its deposit, a failed one rejects it,
+ * and a payout completes or fails its withdrawal. Callbacks settle at once; a
+ * minute-by-minute pass on the cluster leader expires unanswered push
+ * payments and retries any settlement that did not go through.
+ */
+class MobileMoneySettlementService {
+  private intervalId: NodeJS.Timeout | null = null;
+  private isRunning = false;
+
+  start(): void {
+    if (this.intervalId || !mobileMoneyGatewayService.isEnabled()) return;
+
+    this.intervalId = setInterval(() => this.reconcile(), RECONCILE_INTERVAL_MS);
+    logger.info('[MobileMoneySettlement] Started');
+  }
+
+  stop(): void {
+    if (this.intervalId) {
+      clearInterval(this.intervalId);
+      this.intervalId = null;
+      logger.info('[MobileMoneySettlement] Stopped');
+    }
+  }
+
+  async handleCallback(
+    provider: string,
+    headers: Record<string, string | string[] | undefined>,
+    rawBody: Buffer
+  ): Promise<void> {
+    const transaction = await mobileMoneyGatewayService.receiveCallback(provider, headers, rawBody);
+    if (transaction) {
+      await this.settle(transaction);
+    }
+  }
+
+  private async settle(transaction: MobileMoneyTransactionRow): Promise<void> {
+    const reason = transaction.failureReason || 'Mobile money payment failed';
+
+    if (transaction.type === 'COLLECTION' && transaction.depositId) {
+      if (transaction.status === 'SUCCESSFUL') {
+        await depositService.completeMobileMoneyDeposit(transaction.depositId, transaction.providerReference);
+      } else if (transaction.status === 'FAILED') {
+        await depositService.failMobileMoneyDeposit(transaction.depositId, reason);
+      }
+      return;
+    }
+
+    if (transaction.type === 'PAYOUT' && transaction.withdrawalId) {
+      if (transaction.status === 'SUCCESSFUL') {
+        await withdrawalService.completeMobileMoneyPayout(transaction.withdrawalId, transaction.providerReference);
+      } else if (transaction.status === 'FAILED') {
+        await withdrawalService.failMobileMoneyPayout(transaction.withdrawalId, reason);
+      }
+    }
+  }
+
+  private async reconcile(): Promise<void> {
+    if (this.isRunning) return;
+    this.isRunning = true;
+
+    try {
+      const expired = await mobileMoneyGatewayService.expireCollections();
+
+      // Finished transactions whose deposit or withdrawal was left behind,
+      // e.g. when the server stopped between callback and settlement
+      const unsettled = await queryMany<MobileMoneyTransactionRow>(
+        `SELECT t.* FROM "MobileMoneyTransaction" t
+         JOIN "Deposit" d ON d.id = t."depositId"
+         WHERE t.type = 'COLLECTION' AND t.status <> 'PENDING' AND d.status = 'PENDING'
+         UNION ALL
+         SELECT t.* FROM "MobileMoneyTransaction" t
+         JOIN "Withdrawal" w ON w.id = t."withdrawalId" AND w."payoutReference" = t."providerReference"
+         WHERE t.type = 'PAYOUT' AND t.status <> 'PENDING' AND w.status = 'PROCESSING'`
+      );
+
+      const settled = new Set<string>();
+      for (const transaction of [...expired, ...unsettled]) {
+        if (settled.has(transaction.id)) continue;
+        settled.add(transaction.id);
+
+        try {
+          await this.settle(transaction);
+        } catch (error) {
+          logger.error('[MobileMoneySettlement] Failed to settle transaction', { transactionId: transaction.id, error });
+        }
+      }
+
+      if (expired.length > 0) {
+        logger.info(`[MobileMoneySettlement] Expired ${expired.length} unanswered payment request(s)`);
+      }
+    } catch (error) {
+      logger.error('[MobileMoneySettlement] Reconciliation failed', { error });
+    } finally {
+      this.isRunning = false;
+    }
+  }
+}
+
+export const mobileMoneySettlementService = new MobileMoneySettlementService();
@@ -0,0 +1,25 @@
+/**
+ * Mobile money providers - the local simulator for now; operators and
+ * aggregators plug in alongside it
+ */
+
+import { config } from '../../../config/env.js';
+import type { MobileMoneyProvider } from './mobile-money-provider.js';
+import { SimulatorProvider } from './simulator.provider.js';
+
+export * from './mobile-money-provider.js';
+export { SimulatorProvider };
+
+/**
+ * Providers for the configured gateway mode. Manual mode has none and
+ * mobile money keeps going through admin approval.
+ */
+export function createMobileMoneyProviders(): MobileMoneyProvider[] {
+  const settings = config.mobileMoney;
+
+  if (settings.gateway === 'simulator') {
+    return [new SimulatorProvider(settings.simulatorSecret, settings.simulatorDelayMs)];
+  }
+
+  return [];
+}
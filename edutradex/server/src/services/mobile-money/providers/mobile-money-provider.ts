@@ -0,0 +1,81 @@
+import { createHmac, timingSafeEqual } from 'crypto';
+
+type MobileMoneyProviderName = 'SIMULATOR';
+type MobileMoneyTransactionType = 'COLLECTION' | 'PAYOUT';
+type MobileMoneyTransactionStatus = 'PENDING' | 'SUCCESSFUL' | 'FAILED';
+
+interface MobileMoneyRequest {
+  reference: string; // Our transaction id, echoed back in callbacks
+  phoneNumber: string;
+  mobileProvider: string; // MPESA, MTN, ...
+  amount: number;
+  currency: string;
+  description: string;
+  callbackUrl: string;
+}
+
+interface MobileMoneyRequestResult {
+  providerReference: string;
+  // Most requests complete later through a callback; a provider may also
+  // refuse one outright
+  status: MobileMoneyTransactionStatus;
+  failureReason?: string;
+}
+
+interface MobileMoneyCallback {
+  eventId: string; // Unique per delivery attempt group, used for replay protection
+  timestamp: Date; // When the provider signed the callback
+  providerReference: string;
+  reference: string;
+  status: 'SUCCESSFUL' | 'FAILED';
+  failureReason?: string;
+}
+
+/**
+ * A mobile money operator or aggregator. Push-payment collections and payouts
+ * are started here and finish asynchronously with a signed callback, which
+ * the provider verifies and decodes in parseCallback.
+ */
+interface MobileMoneyProvider {
+  readonly name: MobileMoneyProviderName;
+  supports(mobileProvider: string): boolean;
+  // Ask the customer to approve a payment on their phone
+  requestCollection(request: MobileMoneyRequest): Promise<MobileMoneyRequestResult>;
+  sendPayout(request: MobileMoneyRequest): Promise<MobileMoneyRequestResult>;
+  // Throws MobileMoneySignatureError unless the body is signed by the provider
+  parseCallback(headers: Record<string, string | string[] | undefined>, rawBody: Buffer): MobileMoneyCallback;
+}
+
+class MobileMoneySignatureError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'MobileMoneySignatureError';
+  }
+}
+
+/**
+ * HMAC-SHA256 over `<timestamp>.<body>`, hex encoded
+ */
+function signPayload(secret: string, timestamp: number, body: Buffer | string): string {
+  return createHmac('sha256', secret)
+    .update(`${timestamp}.`)
+    .update(body)
+    .digest('hex');
+}
+
+function verifyPayloadSignature(secret: string, timestamp: number, body: Buffer, signature: string): boolean {
+  const expected = Buffer.from(signPayload(secret, timestamp, body), 'hex');
+  const received = Buffer.from(signature, 'hex');
+  return received.length === expected.length && timingSafeEqual(received, expected);
+}
+
+export { MobileMoneySignatureError, signPayload, verifyPayloadSignature };
+export type {
+  MobileMoneyProvider,
+  MobileMoneyProviderName,
+  MobileMoneyTransactionType,
+  MobileMoneyTransactionStatus,
+  MobileMoneyRequest,
+  MobileMoneyRequestResult,
+  MobileMoneyCallback,
+};
@@ -0,0 +1,125 @@
+import { randomUUID } from 'crypto';
+import { logger } from '../../../utils/logger.js';
+import {
+  MobileMoneySignatureError,
+  signPayload,
+  verifyPayloadSignature,
+  type MobileMoneyCallback,
+  type MobileMoneyProvider,
+  type MobileMoneyRequest,
+  type MobileMoneyRequestResult,
+} from './mobile-money-provider.js';
+
+const SIGNATURE_HEADER = 'x-simulator-signature';
+const DELIVERY_ATTEMPTS = 3;
+
+// Test numbers - the last four digits pick the outcome
+const FAILURE_SUFFIXES: Record<string, { collection: string; payout: string }> = {
+  '0000': { collection: 'Insufficient funds in mobile wallet', payout: 'Recipient wallet is not registered' },
+  '1111': { collection: 'Customer declined the payment request', payout: 'Recipient wallet is suspended' },
+};
+const NO_RESPONSE_SUFFIX = '9999';
+
+/**
+ * Local stand-in for a mobile money operator. Accepts every request, then
+ * after `delayMs` posts a signed callback to our own webhook, exactly as a
+ * real operator would, so the full flow runs offline. Numbers ending in
+ * 0000 or 1111 fail and 9999 never answers; anything else succeeds.
+ */
+class SimulatorProvider implements MobileMoneyProvider {
+  readonly name = 'SIMULATOR' as const;
+
+  constructor(
+    private readonly secret: string,
+    private readonly delayMs: number
+  ) {}
+
+  supports(): boolean {
+    return true;
+  }
+
+  async requestCollection(request: MobileMoneyRequest): Promise<MobileMoneyRequestResult> {
+    return this.accept(request, 'collection');
+  }
+
+  async sendPayout(request: MobileMoneyRequest): Promise<MobileMoneyRequestResult> {
+    return this.accept(request, 'payout');
+  }
+
+  parseCallback(headers: Record<string, string | string[] | undefined>, rawBody: Buffer): MobileMoneyCallback {
+    const header = headers[SIGNATURE_HEADER];
+    const parts = new Map(
+      (Array.isArray(header) ? header[0] : header ?? '')
+        .split(',')
+        .map((part) => part.split('=', 2) as [string, string])
+    );
+    const timestamp = Number(parts.get('t'));
+    const signature = parts.get('v1');
+
+    if (!Number.isFinite(timestamp) || !signature || !verifyPayloadSignature(this.secret, timestamp, rawBody, signature)) {
+      throw new MobileMoneySignatureError('Invalid simulator signature');
+    }
+
+    const body = JSON.parse(rawBody.toString('utf8')) as {
+      eventId: string;
+      providerReference: string;
+      reference: string;
+      status: 'SUCCESSFUL' | 'FAILED';
+      failureReason?: string;
+    };
+
+    return { ...body, timestamp: new Date(timestamp * 1000) };
+  }
+
+  private accept(request: MobileMoneyRequest, kind: 'collection' | 'payout'): MobileMoneyRequestResult {
+    const providerReference = `SIM-${randomUUID().slice(0, 8).toUpperCase()}`;
+    const suffix = request.phoneNumber.slice(-4);
+
+    if (suffix !== NO_RESPONSE_SUFFIX) {
+      const failure = FAILURE_SUFFIXES[suffix]?.[kind];
+      const timer = setTimeout(() => {
+        this.deliver(request.callbackUrl, {
+          eventId: randomUUID(),
+          providerReference,
+          reference: request.reference,
+          status: failure ? 'FAILED' : 'SUCCESSFUL',
+          ...(failure && { failureReason: failure }),
+        });
+      }, this.delayMs);
+      timer.unref();
+    }
+
+    logger.info(`[MobileMoneySimulator] ${kind} accepted`, { providerReference, reference: request.reference });
+    return { providerReference, status: 'PENDING' };
+  }
+
+  private async deliver(url: string, payload: Record<string, unknown>): Promise<void> {
+    const body = JSON.stringify(payload);
+
+    for (let attempt = 1; attempt <= DELIVERY_ATTEMPTS; attempt++) {
+      // Sign each attempt afresh, like a real operator retrying a delivery
+      const timestamp = Math.floor(Date.now() / 1000);
+      try {
+        const response = await fetch(url, {
+          method: 'POST',
+          headers: {
+            'Content-Type': 'application/json',
+            'X-Simulator-Signature': `t=${timestamp},v1=${signPayload(this.secret, timestamp, body)}`,
+          },
+          body,
+        });
+        if (response.ok) return;
+        logger.warn(`[MobileMoneySimulator] Callback rejected with HTTP ${response.status}`, { url, attempt });
+      } catch (error) {
+        logger.warn('[MobileMoneySimulator] Callback delivery failed', {
+          url,
+          attempt,
+          error: error instanceof Error ? error.message : error,
+        });
+      }
+      await new Promise((resolve) => setTimeout(resolve, attempt * this.delayMs));
+    }
+  }
+}
+
+export { SimulatorProvider };
@@ -0,0 +1,306 @@
+import { query, queryOne, queryMany } from '../../config/db.js';
+import { logger } from '../../utils/logger.js';
+import { randomUUID } from 'crypto';
+
+/**
+ * Notification Center
+ *
+ * Persistent in-app notifications with read state, plus per-type delivery
+ * preferences. Rows are written by the wsManager.notify* helpers; services
+ * that send email check isEmailEnabled() first.
+ *
+ * Preferences only store overrides - a type without a row uses the defaults
+ * below. Security and account emails (verification, password, 2FA) are not
+ * notification types and cannot be switched off.
+ */
+
+const NOTIFICATION_TYPES = {
+  TRADE_SETTLED: { inApp: true, email: false, emailAvailable: false },
+  PENDING_ORDER: { inApp: true, email: false, emailAvailable: false },
+  DEPOSIT: { inApp: true, email: true, emailAvailable: true },
+  WITHDRAWAL: { inApp: true, email: true, emailAvailable: true },
+  KYC: { inApp: true, email: true, emailAvailable: true },
+  TICKET_REPLY: { inApp: true, email: true, emailAvailable: true },
+  COPY_TRADING: { inApp: true, email: false, emailAvailable: false },
+  // Email applies to announcements; direct messages from support are always emailed
+  ADMIN_MESSAGE: { inApp: true, email: true, emailAvailable: true },
+  // Price alerts are emailed per alert (PriceAlert.notifyEmail)
+  PRICE_ALERT: { inApp: true, email: false, emailAvailable: false },
+  // Opt-in: the monthly statement is emailed as a PDF on the 1st
+  ACCOUNT_STATEMENT: { inApp: true, email: false, emailAvailable: true },
+} as const;
+
+type NotificationType = keyof typeof NOTIFICATION_TYPES;
+
+interface UserNotificationRow {
+  id: string;
+  userId: string;
+  type: NotificationType;
+  title: string;
+  message: string;
+  data: Record<string, unknown> | null;
+  isRead: boolean;
+  readAt: Date | null;
+  createdAt: Date;
+}
+
+interface NotificationInput {
+  type: NotificationType;
+  title: string;
+  message: string;
+  data?: Record<string, unknown>;
+}
+
+interface NotificationPreference {
+  type: NotificationType;
+  inApp: boolean;
+  email: boolean;
+  emailAvailable: boolean;
+}
+
+class NotificationServiceError extends Error {
+  constructor(
+    message: string,
+    public statusCode: number = 400
+  ) {
+    super(message);
+    this.name = 'NotificationServiceError';
+  }
+}
+
+class NotificationService {
+  /**
+   * Store a notification unless the user switched in-app delivery off for
+   * its type. Returns the stored row, or null when skipped.
+   */
+  async create(userId: string, input: NotificationInput): Promise<UserNotificationRow | null> {
+    const preference = await this.getPreference(userId, input.type);
+    if (!preference.inApp) return null;
+
+    return queryOne<UserNotificationRow>(
+      `INSERT INTO "UserNotification" (id, "userId", type, title, message, data, "createdAt")
+       VALUES ($1, $2, $3, $4, $5, $6, $7)
+       RETURNING *`,
+      [
+        randomUUID(),
+        userId,
+        input.type,
+        input.title,
+        input.message,
+        input.data ? JSON.stringify(input.data) : null,
+        new Date(),
+      ]
+    );
+  }
+
+  /**
+   * Store the same notification for many users (announcements). Returns the
+   * users it was stored for.
+   */
+  async createMany(userIds: string[], input: NotificationInput): Promise<UserNotificationRow[]> {
+    if (userIds.length === 0) return [];
+
+    const optedOut = await queryMany<{ userId: string }>(
+      `SELECT "userId" FROM "NotificationPreference"
+       WHERE "userId" = ANY($1) AND type = $2 AND "inApp" = false`,
+      [userIds, input.type]
+    );
+    const skip = new Set(optedOut.map((row) => row.userId));
+    const recipients = NOTIFICATION_TYPES[input.type].inApp
+      ? userIds.filter((userId) => !skip.has(userId))
+      : [];
+    if (recipients.length === 0) return [];
+
+    const now = new Date();
+    const data = input.data ? JSON.stringify(input.data) : null;
+
+    return queryMany<UserNotificationRow>(
+      `INSERT INTO "UserNotification" (id, "userId", type, title, message, data, "createdAt")
+       SELECT gen_random_uuid()::text, recipient, $2, $3, $4, $5, $6
+       FROM unnest($1::text[]) AS recipient
+       RETURNING *`,
+      [recipients, input.type, input.title, input.message, data, now]
+    );
+  }
+
+  async getUserNotifications(
+    userId: string,
+    options: { unreadOnly?: boolean; type?: NotificationType; limit?: number; offset?: number } = {}
+  ): Promise<{ notifications: UserNotificationRow[]; total: number; unreadCount: number }> {
+    const { unreadOnly = false, type, limit = 20, offset = 0 } = options;
+
+    let whereClause = `"userId" = $1`;
+    const params: any[] = [userId];
+
+    if (unreadOnly) {
+      whereClause += ` AND "isRead" = false`;
+    }
+    if (type) {
+      params.push(type);
+      whereClause += ` AND type = $${params.length}`;
+    }
+
+    const [notifications, countResult, unreadResult] = await Promise.all([
+      queryMany<UserNotificationRow>(
+        `SELECT * FROM "UserNotification" WHERE ${whereClause}
+         ORDER BY "createdAt" DESC LIMIT $${params.length + 1} OFFSET $${params.length + 2}`,
+        [...params, limit, offset]
+      ),
+      queryOne<{ count: string }>(
+        `SELECT COUNT(*) as count FROM "UserNotification" WHERE ${whereClause}`,
+        params
+      ),
+      queryOne<{ count: string }>(
+        `SELECT COUNT(*) as count FROM "UserNotification" WHERE "userId" = $1 AND "isRead" = false`,
+        [userId]
+      ),
+    ]);
+
+    return {
+      notifications,
+      total: parseInt(countResult?.count || '0', 10),
+      unreadCount: parseInt(unreadResult?.count || '0', 10),
+    };
+  }
+
+  async markRead(userId: string, notificationId: string): Promise<void> {
+    const notification = await queryOne<{ id: string }>(
+      `UPDATE "UserNotification" SET "isRead" = true, "readAt" = COALESCE("readAt", $1)
+       WHERE id = $2 AND "userId" = $3
+       RETURNING id`,
+      [new Date(), notificationId, userId]
+    );
+
+    if (!notification) {
+      throw new NotificationServiceError('Notification not found', 404);
+    }
+  }
+
+  async markAllRead(userId: string): Promise<number> {
+    const result = await query(
+      `UPDATE "UserNotification" SET "isRead" = true, "readAt" = $1
+       WHERE "userId" = $2 AND "isRead" = false`,
+      [new Date(), userId]
+    );
+    return result.rowCount || 0;
+  }
+
+  async deleteNotification(userId: string, notificationId: string): Promise<void> {
+    const result = await query(
+      `DELETE FROM "UserNotification" WHERE id = $1 AND "userId" = $2`,
+      [notificationId, userId]
+    );
+
+    if (result.rowCount === 0) {
+      throw new NotificationServiceError('Notification not found', 404);
+    }
+  }
+
+  async clearAll(userId: string): Promise<number> {
+    const result = await query(
+      `DELETE FROM "UserNotification" WHERE "userId" = $1`,
+      [userId]
+    );
+    return result.rowCount || 0;
+  }
+
+  async getPreferences(userId: string): Promise<NotificationPreference[]> {
+    const overrides = await queryMany<{ type: string; inApp: boolean; email: boolean }>(
+      `SELECT type, "inApp", email FROM "NotificationPreference" WHERE "userId" = $1`,
+      [userId]
+    );
+    const byType = new Map(overrides.map((row) => [row.type, row]));
+
+    return (Object.keys(NOTIFICATION_TYPES) as NotificationType[]).map((type) => {
+      const defaults = NOTIFICATION_TYPES[type];
+      const override = byType.get(type);
+      return {
+        type,
+        inApp: override?.inApp ?? defaults.inApp,
+        email: defaults.emailAvailable && (override?.email ?? defaults.email),
+        emailAvailable: defaults.emailAvailable,
+      };
+    });
+  }
+
+  async updatePreferences(
+    userId: string,
+    updates: Array<{ type: NotificationType; inApp?: boolean; email?: boolean }>
+  ): Promise<NotificationPreference[]> {
+    for (const update of updates) {
+      if (update.email === true && !NOTIFICATION_TYPES[update.type].emailAvailable) {
+        throw new NotificationServiceError(`Email is not available for ${update.type} notifications`, 400);
+      }
+    }
+
+    const current = new Map((await this.getPreferences(userId)).map((pref) => [pref.type, pref]));
+    const now = new Date();
+
+    for (const update of updates) {
+      const existing = current.get(update.type)!;
+      await query(
+        `INSERT INTO "NotificationPreference" (id, "userId", type, "inApp", email, "updatedAt")
+         VALUES ($1, $2, $3, $4, $5, $6)
+         ON CONFLICT ("userId", type) DO UPDATE SET
+           "inApp" = EXCLUDED."inApp", email = EXCLUDED.email, "updatedAt" = EXCLUDED."updatedAt"`,
+        [randomUUID(), userId, update.type, update.inApp ?? existing.inApp, update.email ?? existing.email, now]
+      );
+    }
+
+    logger.info('[Notifications] Preferences updated', { userId, updates });
+
+    return this.getPreferences(userId);
+  }
+
+  /**
+   * Whether to email this user about an event of this type
+   */
+  async isEmailEnabled(userId: string, type: NotificationType): Promise<boolean> {
+    const preference = await this.getPreference(userId, type);
+    return preference.email;
+  }
+
+  /**
+   * Users among the given ones who switched email off for this type
+   */
+  async getEmailOptOuts(userIds: string[], type: NotificationType): Promise<Set<string>> {
+    if (!NOTIFICATION_TYPES[type].emailAvailable) return new Set(userIds);
+
+    const rows = await queryMany<{ userId: string }>(
+      `SELECT "userId" FROM "NotificationPreference"
+       WHERE "userId" = ANY($1) AND type = $2 AND email = false`,
+      [userIds, type]
+    );
+    return new Set(rows.map((row) => row.userId));
+  }
+
+  /**
+   * Users who switched email on for this type (for types that default to off)
+   */
+  async getEmailOptIns(type: NotificationType): Promise<string[]> {
+    if (!NOTIFICATION_TYPES[type].emailAvailable) return [];
+
+    const rows = await queryMany<{ userId: string }>(
+      `SELECT "userId" FROM "NotificationPreference" WHERE type = $1 AND email = true`,
+      [type]
+    );
+    return rows.map((row) => row.userId);
+  }
+
+  private async getPreference(userId: string, type: NotificationType): Promise<{ inApp: boolean; email: boolean }> {
+    const defaults = NOTIFICATION_TYPES[type];
+    const override = await queryOne<{ inApp: boolean; email: boolean }>(
+      `SELECT "inApp", email FROM "NotificationPreference" WHERE "userId" = $1 AND type = $2`,
+      [userId, type]
+    );
+
+    return {
+      inApp: override?.inApp ?? defaults.inApp,
+      email: defaults.emailAvailable && (override?.email ?? defaults.email),
+    };
+  }
+}
+
+export const notificationService = new NotificationService();
+export { NotificationServiceError, NOTIFICATION_TYPES };
+export type { UserNotificationRow, NotificationType, NotificationInput, NotificationPreference };
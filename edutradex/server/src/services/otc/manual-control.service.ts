@@ -13,6 +13,7 @@
 
 import { query, queryOne, queryMany } from '../../config/db.js';
 import { logger } from '../../utils/logger.js';
+import { clusterBus } from '../cluster/backplane.js';
 import {
   ManualControl,
   UserTargeting,
@@ -25,6 +26,13 @@ import {
   IManualControlService
 } from './types.js';
 
+// Admin changes made on one node reach the others (the OTC leader applies them)
+const MANUAL_CONTROL_CHANNEL = 'otc:manual-control';
+
+type ManualControlChange =
+  | { type: 'reload' }
+  | { type: 'trade-force'; tradeId: string; outcome: 'WIN' | 'LOSE' };
+
 export class ManualControlService implements IManualControlService {
   // In-memory caches for fast lookups
   private controls: Map<string, ManualControl> = new Map();
@@ -36,6 +44,19 @@ export class ManualControlService implements IManualControlService {
   private directionBiasTimers: Map<string, NodeJS.Timeout> = new Map();
   private volatilityTimers: Map<string, NodeJS.Timeout> = new Map();
 
+  constructor() {
+    clusterBus.subscribe<ManualControlChange>(MANUAL_CONTROL_CHANNEL, (change) => {
+      if (change.type === 'trade-force') {
+        this.tradeForces.set(change.tradeId, change.outcome);
+        return;
+      }
+
+      this.reloadFromDatabase().catch((error) => {
+        logger.error('[ManualControl] Failed to reload after cluster change', { error });
+      });
+    });
+  }
+
   /**
    * Load all manual controls from database on startup
    */
@@ -138,6 +159,27 @@ export class ManualControlService implements IManualControlService {
     }
   }
 
+  /**
+   * Replace the in-memory state with the database copy, dropping controls
+   * and targets that were removed elsewhere
+   */
+  async reloadFromDatabase(): Promise<void> {
+    for (const timers of [this.priceOverrideTimers, this.directionBiasTimers, this.volatilityTimers]) {
+      timers.forEach((timer) => clearTimeout(timer));
+      timers.clear();
+    }
+    this.controls.clear();
+    this.userTargets.clear();
+
+    await this.loadFromDatabase();
+  }
+
+  private announceChange(change: ManualControlChange): void {
+    if (clusterBus.isDistributed) {
+      clusterBus.publish(MANUAL_CONTROL_CHANNEL, change);
+    }
+  }
+
   private getUserTargetKey(userId: string, symbol: string | null): string {
     return `${userId}:${symbol || 'ALL'}`;
   }
@@ -221,6 +263,7 @@ export class ManualControlService implements IManualControlService {
       reason
     });
 
+    this.announceChange({ type: 'reload' });
     logger.info(`[ManualControl] Direction bias set`, { symbol, bias, strength, durationMinutes, adminId });
   }
 
@@ -262,6 +305,7 @@ export class ManualControlService implements IManualControlService {
       });
     }
 
+    this.announceChange({ type: 'reload' });
     logger.info(`[ManualControl] Direction bias cleared`, { symbol, adminId });
   }
 
@@ -370,6 +414,7 @@ export class ManualControlService implements IManualControlService {
       reason
     });
 
+    this.announceChange({ type: 'reload' });
     logger.info(`[ManualControl] Volatility multiplier set`, { symbol, multiplier, durationMinutes, adminId });
   }
 
@@ -406,6 +451,7 @@ export class ManualControlService implements IManualControlService {
       });
     }
 
+    this.announceChange({ type: 'reload' });
     logger.info(`[ManualControl] Volatility multiplier cleared`, { symbol, adminId });
   }
 
@@ -507,6 +553,7 @@ export class ManualControlService implements IManualControlService {
       reason
     });
 
+    this.announceChange({ type: 'reload' });
     logger.info(`[ManualControl] Price override set`, { symbol, price, expiryMinutes, adminId });
   }
 
@@ -545,6 +592,7 @@ export class ManualControlService implements IManualControlService {
       });
     }
 
+    this.announceChange({ type: 'reload' });
     logger.info(`[ManualControl] Price override cleared`, { symbol, adminId });
   }
 
@@ -605,6 +653,7 @@ export class ManualControlService implements IManualControlService {
       reason
     });
 
+    this.announceChange({ type: 'trade-force', tradeId, outcome });
     logger.info(`[ManualControl] Trade outcome forced`, { tradeId, outcome, adminId });
   }
 
@@ -762,6 +811,7 @@ export class ManualControlService implements IManualControlService {
       reason: config.reason
     });
 
+    this.announceChange({ type: 'reload' });
     logger.info(`[ManualControl] User targeting set`, { userId, config, adminId });
   }
 
@@ -846,6 +896,7 @@ export class ManualControlService implements IManualControlService {
         reason: 'Targeting removed'
       });
 
+      this.announceChange({ type: 'reload' });
       logger.info(`[ManualControl] User targeting removed`, { userId, symbol, adminId });
     }
   }
@@ -962,6 +1013,7 @@ export class ManualControlService implements IManualControlService {
       });
     }
 
+    this.announceChange({ type: 'reload' });
     logger.info(`[ManualControl] All controls reset for ${symbol}`, { adminId });
   }
 
@@ -40,6 +40,7 @@ interface OTCConfigRow {
   payoutPercent: number;
   minTradeAmount: number;
   maxTradeAmount: number;
+  drawPolicy: 'REFUND' | 'LOSE' | null;
   anchoringDurationMins: number;
   createdAt: Date;
   updatedAt: Date;
@@ -127,6 +128,7 @@ interface UpdateConfigInput {
   payoutPercent?: number;
   minTradeAmount?: number;
   maxTradeAmount?: number;
+  drawPolicy?: 'REFUND' | 'LOSE' | null;
   anchoringDurationMins?: number;
 }
 
@@ -313,7 +315,7 @@ export class OTCAdminService {
       'maxDeviationPercent', 'priceOffsetPips', 'momentumFactor',
       'garchAlpha', 'garchBeta', 'garchOmega',
       'exposureThreshold', 'minInterventionRate', 'maxInterventionRate', 'spreadMultiplier',
-      'payoutPercent', 'minTradeAmount', 'maxTradeAmount',
+      'payoutPercent', 'minTradeAmount', 'maxTradeAmount', 'drawPolicy',
       'anchoringDurationMins',
     ];
 
@@ -13,11 +13,14 @@
 import { queryMany, queryOne, query } from '../../config/db.js';
 import { logger } from '../../utils/logger.js';
 import { wsManager } from '../websocket/websocket.manager.js';
-import { marketService } from '../market/market.service.js';
+import { marketService, SettlementTick } from '../market/market.service.js';
+import { tickJournal } from '../market/tick-journal.service.js';
 import { OTCPriceGenerator, otcPriceGenerator } from './otc-price-generator.js';
 import { RiskEngine, riskEngine } from './risk-engine.js';
 import { OTCScheduler, otcScheduler } from './otc-scheduler.js';
 import { manualControlService } from './manual-control.service.js';
+import { clusterBus } from '../cluster/backplane.js';
+import { leaderElection } from '../cluster/leader-election.js';
 import {
   OTCConfigRow,
   OTCPriceTick,
@@ -36,6 +39,28 @@ const PRICE_HISTORY_SAVE_INTERVAL_MS = config.otc.priceHistorySaveInterval;
 const CLEANUP_INTERVAL_MS = config.otc.cleanupInterval;
 const DIAGNOSTIC_LOG_INTERVAL_MS = config.otc.diagnosticLogInterval;
 
+// Cluster: only the leader generates prices and owns the risk engine. It relays
+// its ticks to the other nodes; they forward trade tracking and config changes.
+const OTC_PRICES_CHANNEL = 'otc:prices';
+const OTC_RISK_CHANNEL = 'otc:risk';
+const OTC_CONFIG_CHANNEL = 'otc:config';
+// Ticks per relay message, to stay under the NOTIFY payload limit
+const PRICE_RELAY_CHUNK_SIZE = 20;
+
+type OTCRiskMessage =
+  | { action: 'track'; trade: TrackedTradeInput }
+  | { action: 'remove'; tradeId: string; symbol: string };
+
+interface TrackedTradeInput {
+  id: string;
+  symbol: string;
+  direction: 'UP' | 'DOWN';
+  amount: number;
+  entryPrice: number;
+  userId: string;
+  expiresAt: Date;
+}
+
 /**
  * OTC System Metrics for monitoring performance
  */
@@ -62,6 +87,7 @@ export class OTCMarketService {
   private configs: Map<string, OTCConfigRow> = new Map();
   private realPrices: Map<string, number> = new Map();
   private priceUpdateCount = 0;
+  private priceCallbacks = new Set<(tick: OTCPriceTick) => void>();
   private lastDiagnosticTime = Date.now();
 
   // Metrics tracking
@@ -85,6 +111,27 @@ export class OTCMarketService {
   private riskEngine: RiskEngine = riskEngine;
   private scheduler: OTCScheduler = otcScheduler;
 
+  constructor() {
+    clusterBus.subscribe<OTCPriceTick[]>(OTC_PRICES_CHANNEL, (ticks) => this.handleRelayedPrices(ticks));
+
+    clusterBus.subscribe<OTCRiskMessage>(OTC_RISK_CHANNEL, (message) => {
+      if (!leaderElection.isLeader()) return;
+
+      const work = message.action === 'track'
+        ? this.trackTrade({ ...message.trade, expiresAt: new Date(message.trade.expiresAt) })
+        : this.removeTrade(message.tradeId, message.symbol);
+      work.catch((error) => {
+        logger.error('[OTCMarket] Failed to apply relayed risk update', { action: message.action, error });
+      });
+    });
+
+    clusterBus.subscribe<{ symbol: string }>(OTC_CONFIG_CHANNEL, ({ symbol }) => {
+      this.loadConfig(symbol).catch((error) => {
+        logger.error('[OTCMarket] Failed to reload config from cluster', { symbol, error });
+      });
+    });
+  }
+
   /**
    * Initialize the OTC market service
    * Loads configurations and starts price generation
@@ -312,6 +359,15 @@ export class OTCMarketService {
     return price;
   }
 
+  /**
+   * Reload the state another leader kept while this node was following:
+   * risk exposure and manual controls. Call before start() on takeover.
+   */
+  async refreshSharedState(): Promise<void> {
+    await this.riskEngine.loadFromDatabase();
+    await manualControlService.reloadFromDatabase();
+  }
+
   /**
    * Start the OTC market (price generation and broadcasting)
    */
@@ -575,6 +631,24 @@ export class OTCMarketService {
         changePercent: tick.changePercent
       });
 
+      // Journal the tick so trades settle at the price live at their expiry
+      tickJournal.record({
+        symbol: tick.symbol,
+        price: tick.price,
+        bid: tick.bid,
+        ask: tick.ask,
+        timestamp: tick.timestamp,
+        source: 'OTC'
+      });
+
+      this.priceCallbacks.forEach((callback) => {
+        try {
+          callback(tick);
+        } catch (error) {
+          logger.error('[OTC] Error in price callback:', error);
+        }
+      });
+
       // Update market service for chart historical data
       marketService.updateOTCPrice({
         symbol: tick.symbol,
@@ -586,6 +660,28 @@ export class OTCMarketService {
         changePercent: tick.changePercent
       });
     }
+
+    // Generated here - let the other nodes serve them too
+    if (this.isRunning && clusterBus.isDistributed) {
+      for (let i = 0; i < priceTicks.length; i += PRICE_RELAY_CHUNK_SIZE) {
+        clusterBus.publish(OTC_PRICES_CHANNEL, priceTicks.slice(i, i + PRICE_RELAY_CHUNK_SIZE));
+      }
+    }
+  }
+
+  /**
+   * Serve ticks relayed by the leader as if generated locally, keeping the
+   * generator in step so a takeover continues from the same price
+   */
+  private handleRelayedPrices(ticks: OTCPriceTick[]): void {
+    // A leader generates its own; ignore a stale relay from a previous leader
+    if (this.isRunning) return;
+
+    const revived = ticks.map((tick) => ({ ...tick, timestamp: new Date(tick.timestamp) }));
+    for (const tick of revived) {
+      this.priceGenerator.followPrice(tick.symbol, tick.price);
+    }
+    this.broadcastPrices(revived);
   }
 
   /**
@@ -717,15 +813,13 @@ export class OTCMarketService {
   /**
    * Track a new OTC trade in the risk engine
    */
-  async trackTrade(trade: {
-    id: string;
-    symbol: string;
-    direction: 'UP' | 'DOWN';
-    amount: number;
-    entryPrice: number;
-    userId: string;
-    expiresAt: Date;
-  }): Promise<void> {
+  async trackTrade(trade: TrackedTradeInput): Promise<void> {
+    // The leader settles OTC trades, so it owns the exposure
+    if (!leaderElection.isLeader()) {
+      clusterBus.publish(OTC_RISK_CHANNEL, { action: 'track', trade } satisfies OTCRiskMessage);
+      return;
+    }
+
     await this.riskEngine.trackTrade({
       tradeId: trade.id,
       symbol: trade.symbol,
@@ -748,8 +842,40 @@ export class OTCMarketService {
     });
   }
 
+  /**
+   * Get the OTC tick a trade should settle at: the last journaled tick at or
+   * before expiry, falling back to the persisted price history. Returns null
+   * when neither has a price that old.
+   */
+  async getSettlementTick(symbol: string, expiresAt: Date): Promise<SettlementTick | null> {
+    const journalTick = tickJournal.getTickAt(symbol, expiresAt);
+    if (journalTick) {
+      return {
+        price: journalTick.price,
+        timestamp: journalTick.timestamp,
+        source: journalTick.source
+      };
+    }
+
+    const history = await queryOne<{ price: number; timestamp: Date }>(
+      `SELECT price, timestamp FROM "OTCPriceHistory"
+       WHERE symbol = $1 AND timestamp <= $2
+         AND "priceMode" NOT IN ('SYNTHETIC', 'SEEDED')
+       ORDER BY timestamp DESC
+       LIMIT 1`,
+      [symbol, expiresAt]
+    );
+    if (history) {
+      return { price: history.price, timestamp: history.timestamp, source: 'OTC' };
+    }
+
+    logger.warn('[OTCMarket] No price recorded at or before expiry', { symbol, expiresAt });
+    return null;
+  }
+
   /**
    * Calculate exit price for a trade with risk adjustment
+   * @param marketPrice - Price to settle against (defaults to the current price)
    */
   calculateExitPrice(trade: {
     id: string;
@@ -758,9 +884,8 @@ export class OTCMarketService {
     direction: 'UP' | 'DOWN';
     amount: number;
     entryPrice: number;
-  }): ExitPriceResult {
-    // Get current market price
-    const currentPrice = this.priceGenerator.getCurrentPrice(trade.symbol);
+  }, marketPrice?: number): ExitPriceResult {
+    const currentPrice = marketPrice ?? this.priceGenerator.getCurrentPrice(trade.symbol);
 
     if (!currentPrice) {
       return {
@@ -780,6 +905,11 @@ export class OTCMarketService {
    * Remove a trade from risk tracking after settlement
    */
   async removeTrade(tradeId: string, symbol: string): Promise<void> {
+    if (!leaderElection.isLeader()) {
+      clusterBus.publish(OTC_RISK_CHANNEL, { action: 'remove', tradeId, symbol } satisfies OTCRiskMessage);
+      return;
+    }
+
     await this.riskEngine.removeTrade(tradeId, symbol);
 
     await this.riskEngine.logActivity({
@@ -790,6 +920,16 @@ export class OTCMarketService {
     });
   }
 
+  /**
+   * Subscribe to generated OTC price ticks
+   */
+  onPriceUpdate(callback: (tick: OTCPriceTick) => void): () => void {
+    this.priceCallbacks.add(callback);
+    return () => {
+      this.priceCallbacks.delete(callback);
+    };
+  }
+
   /**
    * Get current price for an OTC symbol
    */
@@ -1053,6 +1193,14 @@ export class OTCMarketService {
    * Called when a config is created or updated via admin panel
    */
   async reloadConfig(symbol: string): Promise<void> {
+    await this.loadConfig(symbol);
+
+    if (clusterBus.isDistributed) {
+      clusterBus.publish(OTC_CONFIG_CHANNEL, { symbol });
+    }
+  }
+
+  private async loadConfig(symbol: string): Promise<void> {
     const configRow = await queryOne<OTCConfigRow>(
       `SELECT * FROM "OTCConfig" WHERE symbol = $1`,
       [symbol]
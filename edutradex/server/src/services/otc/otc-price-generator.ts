@@ -335,6 +335,19 @@ export class OTCPriceGenerator implements IOTCPriceGenerator {
     return this.createPriceTick(symbol, price, config, state, 'REAL');
   }
 
+  /**
+   * Follow a price generated on another cluster node, so this node's state
+   * (and its generation, should it take over) continues from it
+   */
+  followPrice(symbol: string, price: number): void {
+    const state = this.priceStates.get(symbol);
+    if (!state || !Number.isFinite(price) || price <= 0) return;
+
+    state.currentPrice = price;
+    state.lastUpdate = Date.now();
+    this.updateCandleTracking(state, price);
+  }
+
   getCurrentPrice(symbol: string): number | null {
     return this.priceStates.get(symbol)?.currentPrice ?? null;
   }
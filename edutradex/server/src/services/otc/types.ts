@@ -218,6 +218,7 @@ export interface OTCConfigRow {
   minTradeAmount: number;
   maxTradeAmount: number;
   pipSize: number;
+  drawPolicy: 'REFUND' | 'LOSE' | null;
   is24Hours: boolean;
   anchoringDurationMins: number;
   createdAt: Date;
@@ -1,5 +1,7 @@
 import { query, queryOne, queryMany, transaction } from '../../config/db.js';
 import { emailService } from '../email/email.service.js';
+import { ledgerService } from '../ledger/ledger.service.js';
+import { addMoney, percentOf, subtractMoney } from '../../utils/money.js';
 import { logger } from '../../utils/logger.js';
 import { randomUUID } from 'crypto';
 
@@ -220,6 +222,7 @@ export class ReferralService {
       if (!user.referredBy) continue;
 
       // Get winning LIVE trades for this user in the last 24 hours
+      // (DRAW trades only refund the stake, so they never generate commission)
       const trades = await queryMany<{ id: string; profit: number }>(
         `SELECT id, profit FROM "Trade"
          WHERE "userId" = $1 AND status = 'CLOSED' AND result = 'WON'
@@ -229,7 +232,7 @@ export class ReferralService {
 
       if (trades.length === 0) continue;
 
-      const totalProfit = trades.reduce((sum, trade) => sum + (trade.profit || 0), 0);
+      const totalProfit = trades.reduce((sum, trade) => addMoney(sum, trade.profit || 0), 0);
       if (totalProfit <= 0) continue;
 
       // Check for existing commissions on these trades
@@ -245,8 +248,8 @@ export class ReferralService {
 
       if (newTrades.length === 0) continue;
 
-      const newProfit = newTrades.reduce((sum, trade) => sum + (trade.profit || 0), 0);
-      const newCommission = (newProfit * settings.tradeCommission) / 100;
+      const newProfit = newTrades.reduce((sum, trade) => addMoney(sum, trade.profit || 0), 0);
+      const newCommission = percentOf(newProfit, settings.tradeCommission);
 
       if (newCommission <= 0) continue;
 
@@ -258,7 +261,7 @@ export class ReferralService {
       );
 
       const currentTotal = existingTotal?.total || 0;
-      const remainingLimit = settings.maxCommissionPerUser - currentTotal;
+      const remainingLimit = subtractMoney(settings.maxCommissionPerUser, currentTotal);
 
       if (remainingLimit <= 0) {
         logger.info(`Commission limit reached for user ${user.id}`);
@@ -272,7 +275,7 @@ export class ReferralService {
       await transaction(async (client) => {
         for (const trade of newTrades) {
           const tradeProfit = trade.profit || 0;
-          const tradeCommission = (tradeProfit * settings.tradeCommission) / 100;
+          const tradeCommission = percentOf(tradeProfit, settings.tradeCommission);
 
           if (tradeCommission <= 0) continue;
 
@@ -299,19 +302,20 @@ export class ReferralService {
           );
         }
 
-        // Credit referral earnings to referrer
-        await client.query(
-          `UPDATE "User" SET
-            "referralEarnings" = "referralEarnings" + $1,
-            "demoBalance" = "demoBalance" + $1,
-            "updatedAt" = $2
-           WHERE id = $3`,
-          [finalCommission, now, user.referredBy]
-        );
+        // Credit referral earnings to referrer (also bumps referralEarnings)
+        await ledgerService.post(client, {
+          userId: user.referredBy,
+          accountType: 'LIVE',
+          amount: finalCommission,
+          reason: 'REFERRAL_COMMISSION',
+          sourceType: 'REFERRAL',
+          sourceId: user.id,
+          description: `Referral commission from ${user.name}`,
+        });
       });
 
       totalProcessed++;
-      totalCommission += finalCommission;
+      totalCommission = addMoney(totalCommission, finalCommission);
 
       logger.info(`Profit commission credited`, {
         referrerId: user.referredBy,
@@ -0,0 +1,79 @@
+import { ledgerService } from '../ledger/ledger.service.js';
+import { config } from '../../config/env.js';
+import { logger } from '../../utils/logger.js';
+
+/**
+ * Ledger Reconciliation Scheduler
+ *
+ * Runs the balance reconciliation once a night at LEDGER_RECONCILIATION_HOUR,
+ * flagging users whose stored balances differ from their ledger sums.
+ */
+class LedgerScheduler {
+  private timeoutId: NodeJS.Timeout | null = null;
+  private isRunning = false;
+
+  start() {
+    if (this.timeoutId) {
+      logger.warn('Ledger scheduler is already running');
+      return;
+    }
+
+    this.scheduleNextRun();
+  }
+
+  stop() {
+    if (this.timeoutId) {
+      clearTimeout(this.timeoutId);
+      this.timeoutId = null;
+      logger.info('Ledger scheduler stopped');
+    }
+  }
+
+  private scheduleNextRun(): void {
+    const now = new Date();
+    const nextRun = new Date(now);
+    nextRun.setHours(config.ledger.reconciliationHour, 0, 0, 0);
+    if (nextRun.getTime() <= now.getTime()) {
+      nextRun.setDate(nextRun.getDate() + 1);
+    }
+
+    const msUntilRun = nextRun.getTime() - now.getTime();
+
+    this.timeoutId = setTimeout(async () => {
+      await this.runReconciliation();
+      // Reschedule for the next night
+      this.scheduleNextRun();
+    }, msUntilRun);
+
+    logger.info('Ledger reconciliation scheduled', {
+      msUntilRun,
+      scheduledTime: nextRun.toISOString(),
+    });
+  }
+
+  private async runReconciliation() {
+    if (this.isRunning) {
+      logger.warn('Ledger reconciliation already in progress, skipping');
+      return null;
+    }
+
+    this.isRunning = true;
+
+    try {
+      return await ledgerService.reconcileBalances();
+    } catch (error) {
+      logger.error('Scheduled ledger reconciliation failed', { error });
+      return null;
+    } finally {
+      this.isRunning = false;
+    }
+  }
+
+  // Manually trigger reconciliation (for admin use)
+  async triggerManually() {
+    logger.info('Manual ledger reconciliation triggered');
+    return this.runReconciliation();
+  }
+}
+
+export const ledgerScheduler = new LedgerScheduler();
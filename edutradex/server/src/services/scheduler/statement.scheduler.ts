@@ -0,0 +1,125 @@
+import { query, queryMany } from '../../config/db.js';
+import { accountStatementService } from '../user/account-statement.service.js';
+import { pdfExportService } from '../financial/pdf-export.service.js';
+import { emailService } from '../email/email.service.js';
+import { notificationService } from '../notification/notification.service.js';
+import { wsManager } from '../websocket/websocket.manager.js';
+import { logger } from '../../utils/logger.js';
+import { randomUUID } from 'crypto';
+
+/**
+ * Monthly Statement Scheduler
+ *
+ * Checks hourly for users who opted in to emailed statements (ACCOUNT_STATEMENT
+ * email preference) and have not yet been sent last month's live-account
+ * statement. Deliveries are recorded in AccountStatementDelivery, so a failed
+ * send is retried on the next check and nobody gets the same month twice.
+ */
+class StatementScheduler {
+  private intervalId: NodeJS.Timeout | null = null;
+  private isRunning = false;
+  private readonly CHECK_INTERVAL_MS = 60 * 60 * 1000;
+
+  start() {
+    if (this.intervalId) {
+      logger.warn('Statement scheduler is already running');
+      return;
+    }
+
+    this.deliverMonthlyStatements();
+
+    this.intervalId = setInterval(() => {
+      this.deliverMonthlyStatements();
+    }, this.CHECK_INTERVAL_MS);
+
+    logger.info('Statement scheduler started - checks hourly for monthly statements to email');
+  }
+
+  stop() {
+    if (this.intervalId) {
+      clearInterval(this.intervalId);
+      this.intervalId = null;
+      logger.info('Statement scheduler stopped');
+    }
+  }
+
+  private async deliverMonthlyStatements(): Promise<{ sent: number; failed: number } | null> {
+    if (this.isRunning) {
+      logger.warn('Monthly statement delivery already in progress, skipping');
+      return null;
+    }
+    if (!emailService.isConfigured()) {
+      return null;
+    }
+
+    this.isRunning = true;
+
+    try {
+      const { from, to, period } = accountStatementService.getPreviousMonth();
+      const optedIn = await notificationService.getEmailOptIns('ACCOUNT_STATEMENT');
+      if (optedIn.length === 0) return { sent: 0, failed: 0 };
+
+      // Accounts opened after the period have nothing to report
+      const recipients = await queryMany<{ id: string; email: string; name: string }>(
+        `SELECT u.id, u.email, u.name FROM "User" u
+         WHERE u.id = ANY($1) AND u."isActive" = true AND u."createdAt" < $2
+           AND NOT EXISTS (
+             SELECT 1 FROM "AccountStatementDelivery" d WHERE d."userId" = u.id AND d.period = $3
+           )`,
+        [optedIn, to, period]
+      );
+      if (recipients.length === 0) return { sent: 0, failed: 0 };
+
+      const periodLabel = from.toLocaleDateString('en-US', { month: 'long', year: 'numeric', timeZone: 'UTC' });
+      let sent = 0;
+      let failed = 0;
+
+      for (const user of recipients) {
+        try {
+          const statement = await accountStatementService.getStatement(user.id, { accountType: 'LIVE', from, to });
+          const pdf = await pdfExportService.generateAccountStatementPDF(statement);
+          const success = await emailService.sendAccountStatement(
+            user.email,
+            user.name,
+            periodLabel,
+            pdf,
+            `statement-${period}.pdf`
+          );
+
+          if (!success) {
+            failed++;
+            continue;
+          }
+
+          await query(
+            `INSERT INTO "AccountStatementDelivery" (id, "userId", period, "sentAt")
+             VALUES ($1, $2, $3, $4)
+             ON CONFLICT ("userId", period) DO NOTHING`,
+            [randomUUID(), user.id, period, new Date()]
+          );
+          wsManager.notifyAccountStatement(user.id, { period, periodLabel });
+          sent++;
+        } catch (error) {
+          failed++;
+          logger.error('Failed to deliver monthly statement', { userId: user.id, period, error });
+        }
+      }
+
+      logger.info('Monthly statements delivered', { period, sent, failed });
+      return { sent, failed };
+    } catch (error) {
+      logger.error('Monthly statement delivery failed', { error });
+      return null;
+    } finally {
+      this.isRunning = false;
+    }
+  }
+
+  // Manually trigger delivery (for admin use)
+  async triggerManually() {
+    logger.info('Manual monthly statement delivery triggered');
+    return this.deliverMonthlyStatements();
+  }
+}
+
+export const statementScheduler = new StatementScheduler();
@@ -10,9 +10,10 @@
 
 import bcrypt from 'bcryptjs';
 import { randomBytes } from 'crypto';
-import { query, queryOne, queryMany } from '../../config/db.js';
+import { query, queryOne, queryMany, transaction } from '../../config/db.js';
 import { logger } from '../../utils/logger.js';
 import { auditService } from '../audit/audit.service.js';
+import { ledgerService } from '../ledger/ledger.service.js';
 
 const SALT_ROUNDS = 10;
 
@@ -263,18 +264,29 @@ class SuperAdminService {
     const tempPassword = input.password || this.generateTempPassword();
     const hashedPassword = await bcrypt.hash(tempPassword, SALT_ROUNDS);
 
-    const admin = await queryOne<AdminUser>(`
-      INSERT INTO "User" (
-        id, email, password, name, role, "isActive", "isProtected",
-        "demoBalance", "liveBalance", "activeAccountType", "emailVerified",
-        "createdAt", "updatedAt"
-      ) VALUES (
-        gen_random_uuid(), $1, $2, $3, 'ADMIN', true, false,
-        0, 0, 'LIVE', true, NOW(), NOW()
-      )
-      RETURNING id, email, name, role, "isActive", "isProtected",
-                "lastLoginAt", "lastLoginIp", "loginCount", "createdAt", "updatedAt"
-    `, [input.email.toLowerCase(), hashedPassword, input.name]);
+    const admin = await transaction(async (client) => {
+      const result = await client.query<AdminUser & { demoBalance: number; practiceBalance: number }>(`
+        INSERT INTO "User" (
+          id, email, password, name, role, "isActive", "isProtected",
+          "demoBalance", "liveBalance", "activeAccountType", "emailVerified",
+          "createdAt", "updatedAt"
+        ) VALUES (
+          gen_random_uuid(), $1, $2, $3, 'ADMIN', true, false,
+          0, 0, 'LIVE', true, NOW(), NOW()
+        )
+        RETURNING id, email, name, role, "isActive", "isProtected",
+                  "lastLoginAt", "lastLoginIp", "loginCount", "createdAt", "updatedAt",
+                  "demoBalance", "practiceBalance"
+      `, [input.email.toLowerCase(), hashedPassword, input.name]);
+
+      const row = result.rows[0];
+      if (!row) return null;
+
+      await ledgerService.recordOpeningBalances(client, row.id, row);
+
+      const { demoBalance: _demoBalance, practiceBalance: _practiceBalance, ...created } = row;
+      return created as AdminUser;
+    });
 
     if (!admin) {
       throw new SuperAdminServiceError('Failed to create admin', 500);
@@ -407,7 +419,7 @@ class SuperAdminService {
     const hashedPassword = await bcrypt.hash(tempPassword, SALT_ROUNDS);
 
     await query(`
-      UPDATE "User" SET password = $1, "updatedAt" = NOW() WHERE id = $2
+      UPDATE "User" SET password = $1, "passwordChangedAt" = NOW(), "updatedAt" = NOW() WHERE id = $2
     `, [hashedPassword, adminId]);
 
     // Log the action
@@ -1,5 +1,6 @@
 import { query, queryOne, queryMany } from '../../config/db.js';
 import { emailService } from '../email/email.service.js';
+import { notificationService } from '../notification/notification.service.js';
 import { logger } from '../../utils/logger.js';
 import { wsManager } from '../websocket/websocket.manager.js';
 import { randomUUID } from 'crypto';
@@ -250,7 +251,7 @@ class SupportService {
       subject: updatedTicket!.subject,
       adminReply: updatedTicket!.adminReply,
       status: updatedTicket!.status,
-      user: { name: ticket.userName, email: ticket.userEmail },
+      user: { id: ticket.userId, name: ticket.userName, email: ticket.userEmail },
     });
 
     // Send WebSocket notification for real-time update
@@ -383,10 +384,11 @@ class SupportService {
     subject: string;
     adminReply: string | null;
     status: string;
-    user: { name: string; email: string };
+    user: { id: string; name: string; email: string };
   }) {
     try {
       if (!ticket.adminReply) return;
+      if (!(await notificationService.isEmailEnabled(ticket.user.id, 'TICKET_REPLY'))) return;
 
       await emailService.sendTicketReplyNotification(
         ticket.user.email,
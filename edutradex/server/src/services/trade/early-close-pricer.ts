@@ -0,0 +1,246 @@
+import { query, queryOne } from '../../config/db.js';
+import { config } from '../../config/env.js';
+import { logger } from '../../utils/logger.js';
+import { addMoney, percentOf, roundMoney } from '../../utils/money.js';
+import { marketService } from '../market/market.service.js';
+import { tickJournal } from '../market/tick-journal.service.js';
+import { otcMarketService } from '../otc/otc-market.service.js';
+import { randomUUID } from 'crypto';
+
+/**
+ * Early Close Pricer
+ *
+ * Prices the buy-back value of an open binary trade. The value is the trade's
+ * full return (stake + payout) weighted by the probability of it finishing in
+ * the money, less the early close fee. The probability treats the remaining
+ * price path as a random walk whose volatility is measured from the tick
+ * journal.
+ *
+ * Quotes are stored in the EarlyCloseQuote table for a short validity window,
+ * so any server instance can accept a quote another one issued. Accepting a
+ * quote deletes it, which keeps it single-use across the cluster.
+ */
+
+interface PricedTrade {
+  id: string;
+  userId: string;
+  symbol: string;
+  direction: string;
+  amount: number;
+  entryPrice: number;
+  payoutPercent: number;
+  expiresAt: Date;
+}
+
+interface EarlyCloseQuote {
+  quoteId: string;
+  tradeId: string;
+  userId: string;
+  closeValue: number;
+  currentPrice: number;
+  priceTimestamp: Date;
+  priceSource: string;
+  remainingSeconds: number;
+  winProbability: number;
+  feePercent: number;
+  quotedAt: Date;
+  validUntil: Date;
+}
+
+class EarlyClosePricerError extends Error {
+  constructor(
+    message: string,
+    public statusCode: number = 400
+  ) {
+    super(message);
+    this.name = 'EarlyClosePricerError';
+  }
+}
+
+// Per-second volatility used when the journal has too few ticks to measure it
+const DEFAULT_VOLATILITY_PER_SECOND = 0.0002;
+const VOLATILITY_WINDOW_MS = 5 * 60 * 1000;
+const MIN_TICKS_FOR_VOLATILITY = 10;
+
+class EarlyClosePricer {
+  private readonly QUOTE_TTL_MS = config.earlyClose.quoteTtlMs;
+  private readonly FEE_PERCENT = config.earlyClose.feePercent;
+  private readonly MIN_REMAINING_SECONDS = config.earlyClose.minRemainingSeconds;
+
+  /**
+   * Price a trade and hold the quote so the user can accept it
+   */
+  async createQuote(trade: PricedTrade): Promise<EarlyCloseQuote> {
+    await this.pruneExpiredQuotes();
+
+    const quote = this.priceTrade(trade);
+    await query(
+      `INSERT INTO "EarlyCloseQuote" (
+        id, "tradeId", "userId", "closeValue", "currentPrice", "priceTimestamp", "priceSource",
+        "remainingSeconds", "winProbability", "feePercent", "quotedAt", "validUntil"
+      ) VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10, $11, $12)`,
+      [
+        quote.quoteId,
+        quote.tradeId,
+        quote.userId,
+        quote.closeValue,
+        quote.currentPrice,
+        quote.priceTimestamp,
+        quote.priceSource,
+        quote.remainingSeconds,
+        quote.winProbability,
+        quote.feePercent,
+        quote.quotedAt,
+        quote.validUntil,
+      ]
+    );
+
+    logger.debug('[EarlyClose] Quote created', {
+      quoteId: quote.quoteId,
+      tradeId: trade.id,
+      closeValue: quote.closeValue,
+      winProbability: quote.winProbability,
+    });
+
+    return quote;
+  }
+
+  /**
+   * Price a trade without holding the quote (used for closes that are
+   * executed immediately, e.g. mirroring a leader's early close)
+   */
+  priceTrade(trade: PricedTrade): EarlyCloseQuote {
+    const now = new Date();
+    const remainingSeconds = (trade.expiresAt.getTime() - now.getTime()) / 1000;
+
+    if (remainingSeconds < this.MIN_REMAINING_SECONDS) {
+      throw new EarlyClosePricerError('Trade is too close to expiry to close early', 400);
+    }
+
+    const tick = this.getCurrentTick(trade.symbol);
+    if (!tick) {
+      throw new EarlyClosePricerError('Price unavailable for this symbol', 503);
+    }
+
+    const volatility = this.estimateVolatility(trade.symbol, now);
+    const winProbability = this.calculateWinProbability(
+      trade.direction,
+      trade.entryPrice,
+      tick.price,
+      volatility,
+      remainingSeconds
+    );
+
+    const fullReturn = addMoney(trade.amount, percentOf(trade.amount, trade.payoutPercent));
+    const fairValue = fullReturn * winProbability;
+    const closeValue = roundMoney(fairValue * (1 - this.FEE_PERCENT / 100));
+
+    return {
+      quoteId: randomUUID(),
+      tradeId: trade.id,
+      userId: trade.userId,
+      closeValue: Math.min(Math.max(closeValue, 0), fullReturn),
+      currentPrice: tick.price,
+      priceTimestamp: tick.timestamp,
+      priceSource: tick.source,
+      remainingSeconds: Math.floor(remainingSeconds),
+      winProbability,
+      feePercent: this.FEE_PERCENT,
+      quotedAt: now,
+      validUntil: new Date(now.getTime() + this.QUOTE_TTL_MS),
+    };
+  }
+
+  /**
+   * Take a quote for acceptance. Quotes are single-use and must still be
+   * within their validity window.
+   */
+  async consumeQuote(quoteId: string, userId: string, tradeId: string): Promise<EarlyCloseQuote> {
+    // Deleting is the claim - of two concurrent accepts only one gets the row back
+    const quote = await queryOne<EarlyCloseQuote>(
+      `DELETE FROM "EarlyCloseQuote"
+       WHERE id = $1 AND "userId" = $2 AND "tradeId" = $3
+       RETURNING id as "quoteId", "tradeId", "userId", "closeValue", "currentPrice", "priceTimestamp",
+         "priceSource", "remainingSeconds", "winProbability", "feePercent", "quotedAt", "validUntil"`,
+      [quoteId, userId, tradeId]
+    );
+
+    if (!quote) {
+      throw new EarlyClosePricerError('Quote not found', 404);
+    }
+
+    if (quote.validUntil.getTime() < Date.now()) {
+      throw new EarlyClosePricerError('Quote has expired, request a new one', 410);
+    }
+
+    return quote;
+  }
+
+  private getCurrentTick(symbol: string): { price: number; timestamp: Date; source: string } | null {
+    const latest = tickJournal.getLatestTick(symbol);
+    if (latest) {
+      return { price: latest.price, timestamp: latest.timestamp, source: latest.source };
+    }
+
+    const current = otcMarketService.isOTCSymbol(symbol)
+      ? otcMarketService.getCurrentPrice(symbol)
+      : marketService.getCurrentPrice(symbol);
+
+    return current ? { price: current.price, timestamp: current.timestamp, source: 'CURRENT_PRICE' } : null;
+  }
+
+  /**
+   * Realized volatility per sqrt(second) from recent journaled log returns
+   */
+  private estimateVolatility(symbol: string, now: Date): number {
+    const ticks = tickJournal.getTicksBetween(symbol, new Date(now.getTime() - VOLATILITY_WINDOW_MS), now);
+    if (ticks.length < MIN_TICKS_FOR_VOLATILITY) {
+      return DEFAULT_VOLATILITY_PER_SECOND;
+    }
+
+    let sumSquares = 0;
+    for (let i = 1; i < ticks.length; i++) {
+      const logReturn = Math.log(ticks[i].price / ticks[i - 1].price);
+      sumSquares += logReturn * logReturn;
+    }
+
+    const elapsedSeconds =
+      (ticks[ticks.length - 1].timestamp.getTime() - ticks[0].timestamp.getTime()) / 1000;
+    if (elapsedSeconds <= 0 || sumSquares === 0) {
+      return DEFAULT_VOLATILITY_PER_SECOND;
+    }
+
+    return Math.sqrt(sumSquares / elapsedSeconds);
+  }
+
+  private calculateWinProbability(
+    direction: string,
+    entryPrice: number,
+    currentPrice: number,
+    volatility: number,
+    remainingSeconds: number
+  ): number {
+    const distance = Math.log(currentPrice / entryPrice);
+    const spread = volatility * Math.sqrt(remainingSeconds);
+    const z = (direction === 'UP' ? distance : -distance) / spread;
+
+    return this.normalCdf(z);
+  }
+
+  // Abramowitz & Stegun 7.1.26 approximation of the standard normal CDF
+  private normalCdf(z: number): number {
+    const t = 1 / (1 + 0.3275911 * Math.abs(z) / Math.SQRT2);
+    const erf = 1 - t * Math.exp(-(z * z) / 2) *
+      (0.254829592 + t * (-0.284496736 + t * (1.421413741 + t * (-1.453152027 + t * 1.061405429))));
+
+    return z >= 0 ? (1 + erf) / 2 : (1 - erf) / 2;
+  }
+
+  private async pruneExpiredQuotes(): Promise<void> {
+    await query(`DELETE FROM "EarlyCloseQuote" WHERE "validUntil" < $1`, [new Date()]);
+  }
+}
+
+export const earlyClosePricer = new EarlyClosePricer();
+export { EarlyClosePricerError };
+export type { EarlyCloseQuote };
@@ -0,0 +1,644 @@
+import { query, queryOne, queryMany } from '../../config/db.js';
+import { config } from '../../config/env.js';
+import { logger } from '../../utils/logger.js';
+import { marketService } from '../market/market.service.js';
+import { otcMarketService } from '../otc/otc-market.service.js';
+import { wsManager } from '../websocket/websocket.manager.js';
+import { tradeService, TradeServiceError } from './trade.service.js';
+import { clusterBus } from '../cluster/backplane.js';
+import { leaderElection } from '../cluster/leader-election.js';
+import { randomUUID } from 'crypto';
+
+/**
+ * Pending Orders
+ *
+ * Orders that open a trade automatically, either when the price touches a
+ * level (PRICE) or at a set time (TIME). PENDING price orders are indexed in
+ * memory by symbol and checked against every market and OTC tick; time
+ * orders are held on timers. Triggered orders go through
+ * tradeService.placeTrade, so balance and limit checks run at trigger time.
+ *
+ * In a cluster only the leader watches; other nodes ask it to re-read an
+ * order from the database whenever they create, change or cancel one.
+ */
+
+const ORDER_SYNC_CHANNEL = 'pending-orders:sync';
+
+type TriggerType = 'PRICE' | 'TIME';
+type TriggerCondition = 'ABOVE' | 'BELOW';
+type PendingOrderStatus = 'PENDING' | 'TRIGGERED' | 'CANCELLED' | 'EXPIRED' | 'FAILED';
+
+interface PendingOrderRow {
+  id: string;
+  userId: string;
+  symbol: string;
+  direction: 'UP' | 'DOWN';
+  amount: number;
+  duration: number;
+  marketType: 'forex' | 'crypto' | 'stock' | 'index';
+  accountType: 'LIVE' | 'DEMO';
+  triggerType: TriggerType;
+  triggerPrice: number | null;
+  triggerCondition: TriggerCondition | null;
+  triggerAt: Date | null;
+  status: PendingOrderStatus;
+  expiresAt: Date;
+  tradeId: string | null;
+  failureReason: string | null;
+  triggeredAt: Date | null;
+  cancelledAt: Date | null;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+interface CreatePendingOrderInput {
+  symbol: string;
+  direction: 'UP' | 'DOWN';
+  amount: number;
+  duration: number;
+  marketType: 'forex' | 'crypto' | 'stock' | 'index';
+  triggerType: TriggerType;
+  triggerPrice?: number;
+  triggerAt?: Date;
+  expiresAt?: Date;
+}
+
+interface UpdatePendingOrderInput {
+  amount?: number;
+  duration?: number;
+  triggerPrice?: number;
+  triggerAt?: Date;
+  expiresAt?: Date;
+}
+
+class PendingOrderServiceError extends Error {
+  constructor(
+    message: string,
+    public statusCode: number = 400
+  ) {
+    super(message);
+    this.name = 'PendingOrderServiceError';
+  }
+}
+
+class PendingOrderService {
+  private priceOrders: Map<string, Map<string, PendingOrderRow>> = new Map(); // symbol -> orderId -> order
+  private timeTriggers: Map<string, NodeJS.Timeout> = new Map();
+  private firing: Set<string> = new Set();
+  private expiryInterval: NodeJS.Timeout | null = null;
+  private unsubscribers: Array<() => void> = [];
+  private readonly EXPIRY_CHECK_INTERVAL_MS = 10000;
+  private readonly DEFAULT_PRICE_ORDER_EXPIRY_MS = 24 * 60 * 60 * 1000;
+  private readonly TIME_TRIGGER_GRACE_MS = 60000;
+  private readonly MAX_ORDER_LIFETIME_MS = 7 * 24 * 60 * 60 * 1000;
+  private readonly MAX_PENDING_PER_USER = 20;
+
+  constructor() {
+    clusterBus.subscribe<{ orderId: string; symbol: string }>(ORDER_SYNC_CHANNEL, ({ orderId, symbol }) => {
+      if (!leaderElection.isLeader()) return;
+
+      this.syncOrder(orderId, symbol).catch((error) => {
+        logger.error('[PendingOrders] Failed to sync order from cluster', { orderId, error });
+      });
+    });
+  }
+
+  /**
+   * Load pending orders and start watching prices.
+   * Call on server startup after the market services are running.
+   */
+  async initialize(): Promise<void> {
+    await this.expireOrders();
+
+    const orders = await queryMany<PendingOrderRow>(
+      `SELECT * FROM "PendingOrder" WHERE status = 'PENDING'`
+    );
+    orders.forEach((order) => this.watch(this.normalizeOrder(order)));
+
+    this.unsubscribers.push(
+      marketService.onPriceUpdate((tick) => this.handleTick(tick.symbol, tick.price)),
+      otcMarketService.onPriceUpdate((tick) => this.handleTick(tick.symbol, tick.price))
+    );
+
+    this.expiryInterval = setInterval(() => {
+      this.expireOrders().catch((error) => {
+        logger.error('[PendingOrders] Expiry check failed', { error });
+      });
+    }, this.EXPIRY_CHECK_INTERVAL_MS);
+
+    logger.info('[PendingOrders] Watcher started', { pendingOrders: orders.length });
+  }
+
+  shutdown(): void {
+    this.unsubscribers.forEach((unsubscribe) => unsubscribe());
+    this.unsubscribers = [];
+
+    if (this.expiryInterval) {
+      clearInterval(this.expiryInterval);
+      this.expiryInterval = null;
+    }
+
+    for (const timer of this.timeTriggers.values()) {
+      clearTimeout(timer);
+    }
+    this.timeTriggers.clear();
+    this.priceOrders.clear();
+
+    logger.info('[PendingOrders] Watcher stopped');
+  }
+
+  async createOrder(userId: string, data: CreatePendingOrderInput): Promise<PendingOrderRow> {
+    const user = await queryOne<{ demoBalance: number; practiceBalance: number; activeAccountType: string; isActive: boolean }>(
+      `SELECT "demoBalance", "practiceBalance", "activeAccountType", "isActive" FROM "User" WHERE id = $1`,
+      [userId]
+    );
+
+    if (!user || !user.isActive) {
+      throw new PendingOrderServiceError('User not found or account deactivated', 404);
+    }
+
+    if (!marketService.getAsset(data.symbol) && !otcMarketService.getConfig(data.symbol)) {
+      throw new PendingOrderServiceError('Symbol not found', 404);
+    }
+
+    this.validateTradeParams(data.amount, data.duration);
+
+    // NOTE: 'LIVE' uses demoBalance (real money), 'DEMO' uses practiceBalance
+    const accountType = user.activeAccountType as 'LIVE' | 'DEMO';
+    const balance = accountType === 'LIVE' ? user.demoBalance : user.practiceBalance;
+    if (data.amount > balance) {
+      throw new PendingOrderServiceError('Insufficient balance', 400);
+    }
+
+    const pendingCount = await queryOne<{ count: string }>(
+      `SELECT COUNT(*) as count FROM "PendingOrder" WHERE "userId" = $1 AND status = 'PENDING'`,
+      [userId]
+    );
+    if (parseInt(pendingCount?.count || '0', 10) >= this.MAX_PENDING_PER_USER) {
+      throw new PendingOrderServiceError(
+        `You can have at most ${this.MAX_PENDING_PER_USER} pending orders`,
+        400
+      );
+    }
+
+    const now = new Date();
+    let triggerCondition: TriggerCondition | null = null;
+    let defaultExpiry: Date;
+
+    if (data.triggerType === 'PRICE') {
+      const currentPrice = this.getCurrentPrice(data.symbol);
+      if (currentPrice === null) {
+        throw new PendingOrderServiceError('Price unavailable for this symbol', 503);
+      }
+      // Fire when price reaches the level from whichever side it is on now
+      triggerCondition = data.triggerPrice! >= currentPrice ? 'ABOVE' : 'BELOW';
+      defaultExpiry = new Date(now.getTime() + this.DEFAULT_PRICE_ORDER_EXPIRY_MS);
+    } else {
+      if (data.triggerAt!.getTime() <= now.getTime()) {
+        throw new PendingOrderServiceError('Trigger time must be in the future', 400);
+      }
+      defaultExpiry = new Date(data.triggerAt!.getTime() + this.TIME_TRIGGER_GRACE_MS);
+    }
+
+    const expiresAt = data.expiresAt ?? defaultExpiry;
+    this.validateExpiry(expiresAt, data.triggerType === 'TIME' ? data.triggerAt! : null, now);
+
+    const order = await queryOne<PendingOrderRow>(
+      `INSERT INTO "PendingOrder" (
+        id, "userId", symbol, direction, amount, duration, "marketType", "accountType",
+        "triggerType", "triggerPrice", "triggerCondition", "triggerAt", status, "expiresAt",
+        "createdAt", "updatedAt"
+      ) VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10, $11, $12, $13, $14, $15, $16)
+      RETURNING *`,
+      [
+        randomUUID(),
+        userId,
+        data.symbol,
+        data.direction,
+        data.amount,
+        data.duration,
+        data.marketType,
+        accountType,
+        data.triggerType,
+        data.triggerType === 'PRICE' ? data.triggerPrice : null,
+        triggerCondition,
+        data.triggerType === 'TIME' ? data.triggerAt : null,
+        'PENDING',
+        expiresAt,
+        now,
+        now,
+      ]
+    );
+
+    const created = this.normalizeOrder(order!);
+    this.watch(created);
+
+    logger.info('[PendingOrders] Order created', {
+      orderId: created.id,
+      userId,
+      symbol: created.symbol,
+      triggerType: created.triggerType,
+      triggerPrice: created.triggerPrice,
+      triggerAt: created.triggerAt,
+    });
+
+    return created;
+  }
+
+  async getUserOrders(
+    userId: string,
+    options: { status?: string; limit?: number; offset?: number } = {}
+  ): Promise<{ orders: PendingOrderRow[]; total: number }> {
+    const { status, limit = 50, offset = 0 } = options;
+
+    let whereClause = `"userId" = $1`;
+    const params: any[] = [userId];
+
+    if (status) {
+      whereClause += ` AND status = $2`;
+      params.push(status.toUpperCase());
+    }
+
+    const [orders, countResult] = await Promise.all([
+      queryMany<PendingOrderRow>(
+        `SELECT * FROM "PendingOrder" WHERE ${whereClause}
+         ORDER BY "createdAt" DESC LIMIT $${params.length + 1} OFFSET $${params.length + 2}`,
+        [...params, limit, offset]
+      ),
+      queryOne<{ count: string }>(
+        `SELECT COUNT(*) as count FROM "PendingOrder" WHERE ${whereClause}`,
+        params
+      ),
+    ]);
+
+    return {
+      orders: orders.map((order) => this.normalizeOrder(order)),
+      total: parseInt(countResult?.count || '0', 10),
+    };
+  }
+
+  async getOrderById(orderId: string, userId: string): Promise<PendingOrderRow | null> {
+    const order = await queryOne<PendingOrderRow>(
+      `SELECT * FROM "PendingOrder" WHERE id = $1 AND "userId" = $2`,
+      [orderId, userId]
+    );
+
+    return order ? this.normalizeOrder(order) : null;
+  }
+
+  async updateOrder(userId: string, orderId: string, data: UpdatePendingOrderInput): Promise<PendingOrderRow> {
+    const existing = await this.getOrderById(orderId, userId);
+
+    if (!existing) {
+      throw new PendingOrderServiceError('Order not found', 404);
+    }
+
+    if (existing.status !== 'PENDING') {
+      throw new PendingOrderServiceError(`Order is already ${existing.status.toLowerCase()}`, 400);
+    }
+
+    if (data.triggerPrice !== undefined && existing.triggerType !== 'PRICE') {
+      throw new PendingOrderServiceError('triggerPrice only applies to price orders', 400);
+    }
+
+    if (data.triggerAt !== undefined && existing.triggerType !== 'TIME') {
+      throw new PendingOrderServiceError('triggerAt only applies to time orders', 400);
+    }
+
+    this.validateTradeParams(data.amount ?? existing.amount, data.duration ?? existing.duration);
+
+    const now = new Date();
+    const updates: string[] = [];
+    const params: any[] = [];
+    let paramIndex = 1;
+
+    if (data.amount !== undefined) {
+      updates.push(`amount = $${paramIndex++}`);
+      params.push(data.amount);
+    }
+    if (data.duration !== undefined) {
+      updates.push(`duration = $${paramIndex++}`);
+      params.push(data.duration);
+    }
+    if (data.triggerPrice !== undefined) {
+      const currentPrice = this.getCurrentPrice(existing.symbol);
+      if (currentPrice === null) {
+        throw new PendingOrderServiceError('Price unavailable for this symbol', 503);
+      }
+      updates.push(`"triggerPrice" = $${paramIndex++}`);
+      params.push(data.triggerPrice);
+      updates.push(`"triggerCondition" = $${paramIndex++}`);
+      params.push(data.triggerPrice >= currentPrice ? 'ABOVE' : 'BELOW');
+    }
+    if (data.triggerAt !== undefined) {
+      if (data.triggerAt.getTime() <= now.getTime()) {
+        throw new PendingOrderServiceError('Trigger time must be in the future', 400);
+      }
+      updates.push(`"triggerAt" = $${paramIndex++}`);
+      params.push(data.triggerAt);
+    }
+
+    let expiresAt = data.expiresAt;
+    if (!expiresAt && data.triggerAt !== undefined) {
+      expiresAt = new Date(data.triggerAt.getTime() + this.TIME_TRIGGER_GRACE_MS);
+    }
+    if (expiresAt) {
+      this.validateExpiry(expiresAt, data.triggerAt ?? existing.triggerAt, now);
+      updates.push(`"expiresAt" = $${paramIndex++}`);
+      params.push(expiresAt);
+    }
+
+    updates.push(`"updatedAt" = $${paramIndex++}`);
+    params.push(now);
+    params.push(orderId);
+
+    const order = await queryOne<PendingOrderRow>(
+      `UPDATE "PendingOrder" SET ${updates.join(', ')}
+       WHERE id = $${paramIndex} AND status = 'PENDING' RETURNING *`,
+      params
+    );
+
+    if (!order) {
+      throw new PendingOrderServiceError('Order is no longer pending', 409);
+    }
+
+    const updated = this.normalizeOrder(order);
+    this.unwatch(existing);
+    this.watch(updated);
+
+    logger.info('[PendingOrders] Order updated', { orderId, userId, data });
+
+    return updated;
+  }
+
+  async cancelOrder(userId: string, orderId: string): Promise<PendingOrderRow> {
+    const now = new Date();
+    const order = await queryOne<PendingOrderRow>(
+      `UPDATE "PendingOrder" SET status = 'CANCELLED', "cancelledAt" = $1, "updatedAt" = $1
+       WHERE id = $2 AND "userId" = $3 AND status = 'PENDING' RETURNING *`,
+      [now, orderId, userId]
+    );
+
+    if (!order) {
+      const existing = await this.getOrderById(orderId, userId);
+      if (!existing) {
+        throw new PendingOrderServiceError('Order not found', 404);
+      }
+      throw new PendingOrderServiceError(`Order is already ${existing.status.toLowerCase()}`, 400);
+    }
+
+    const cancelled = this.normalizeOrder(order);
+    this.unwatch(cancelled);
+
+    logger.info('[PendingOrders] Order cancelled', { orderId, userId });
+
+    return cancelled;
+  }
+
+  private handleTick(symbol: string, price: number): void {
+    const orders = this.priceOrders.get(symbol);
+    if (!orders || orders.size === 0) return;
+
+    for (const order of orders.values()) {
+      const touched = order.triggerCondition === 'ABOVE'
+        ? price >= order.triggerPrice!
+        : price <= order.triggerPrice!;
+
+      if (touched) {
+        this.triggerOrder(order, price).catch((error) => {
+          logger.error('[PendingOrders] Trigger failed', { orderId: order.id, error });
+        });
+      }
+    }
+  }
+
+  private async triggerOrder(order: PendingOrderRow, price: number): Promise<void> {
+    if (this.firing.has(order.id)) return;
+    this.firing.add(order.id);
+    this.unwatch(order);
+
+    try {
+      if (order.expiresAt.getTime() < Date.now()) {
+        await this.markExpired([order.id]);
+        return;
+      }
+
+      const now = new Date();
+      // Claim the order so it can only fire once
+      const claimed = await queryOne<{ id: string }>(
+        `UPDATE "PendingOrder" SET status = 'TRIGGERED', "triggeredAt" = $1, "updatedAt" = $1
+         WHERE id = $2 AND status = 'PENDING' RETURNING id`,
+        [now, order.id]
+      );
+
+      if (!claimed) return;
+
+      try {
+        const trade = await tradeService.placeTrade(
+          order.userId,
+          {
+            symbol: order.symbol,
+            direction: order.direction,
+            amount: order.amount,
+            duration: order.duration,
+            entryPrice: price,
+            marketType: order.marketType,
+          },
+          { accountType: order.accountType }
+        );
+
+        await query(
+          `UPDATE "PendingOrder" SET "tradeId" = $1, "updatedAt" = $2 WHERE id = $3`,
+          [trade.id, new Date(), order.id]
+        );
+
+        logger.info('[PendingOrders] Order triggered', {
+          orderId: order.id,
+          tradeId: trade.id,
+          symbol: order.symbol,
+          price,
+        });
+
+        wsManager.notifyPendingOrderUpdate(order.userId, {
+          id: order.id,
+          symbol: order.symbol,
+          status: 'TRIGGERED',
+          tradeId: trade.id,
+          triggeredPrice: price,
+        });
+      } catch (error) {
+        // Balance or account state changed since the order was created
+        const reason = error instanceof TradeServiceError ? error.message : 'Failed to place trade';
+
+        await query(
+          `UPDATE "PendingOrder" SET status = 'FAILED', "failureReason" = $1, "updatedAt" = $2 WHERE id = $3`,
+          [reason, new Date(), order.id]
+        );
+
+        logger.warn('[PendingOrders] Order failed at trigger', { orderId: order.id, reason, error });
+
+        wsManager.notifyPendingOrderUpdate(order.userId, {
+          id: order.id,
+          symbol: order.symbol,
+          status: 'FAILED',
+          failureReason: reason,
+        });
+      }
+    } finally {
+      this.firing.delete(order.id);
+    }
+  }
+
+  private async expireOrders(): Promise<void> {
+    const expired = await queryMany<{ id: string }>(
+      `SELECT id FROM "PendingOrder" WHERE status = 'PENDING' AND "expiresAt" <= NOW() LIMIT 100`
+    );
+
+    if (expired.length > 0) {
+      await this.markExpired(expired.map((order) => order.id));
+    }
+  }
+
+  private async markExpired(orderIds: string[]): Promise<void> {
+    const expired = await queryMany<PendingOrderRow>(
+      `UPDATE "PendingOrder" SET status = 'EXPIRED', "updatedAt" = $1
+       WHERE id = ANY($2) AND status = 'PENDING' RETURNING *`,
+      [new Date(), orderIds]
+    );
+
+    for (const order of expired) {
+      this.unwatch(order);
+      wsManager.notifyPendingOrderUpdate(order.userId, {
+        id: order.id,
+        symbol: order.symbol,
+        status: 'EXPIRED',
+      });
+    }
+
+    if (expired.length > 0) {
+      logger.info('[PendingOrders] Orders expired', { count: expired.length });
+    }
+  }
+
+  private watch(order: PendingOrderRow): void {
+    if (!leaderElection.isLeader()) {
+      clusterBus.publish(ORDER_SYNC_CHANNEL, { orderId: order.id, symbol: order.symbol });
+      return;
+    }
+
+    if (order.triggerType === 'PRICE') {
+      let orders = this.priceOrders.get(order.symbol);
+      if (!orders) {
+        orders = new Map();
+        this.priceOrders.set(order.symbol, orders);
+      }
+      orders.set(order.id, order);
+      return;
+    }
+
+    const delay = Math.max(0, order.triggerAt!.getTime() - Date.now());
+    const timer = setTimeout(() => {
+      this.timeTriggers.delete(order.id);
+      const price = this.getCurrentPrice(order.symbol);
+
+      if (price === null) {
+        logger.warn('[PendingOrders] No price at trigger time', { orderId: order.id, symbol: order.symbol });
+        query(
+          `UPDATE "PendingOrder" SET status = 'FAILED', "failureReason" = $1, "updatedAt" = $2
+           WHERE id = $3 AND status = 'PENDING'`,
+          ['Price unavailable at trigger time', new Date(), order.id]
+        ).catch((error) => {
+          logger.error('[PendingOrders] Failed to mark order failed', { orderId: order.id, error });
+        });
+        return;
+      }
+
+      this.triggerOrder(order, price).catch((error) => {
+        logger.error('[PendingOrders] Trigger failed', { orderId: order.id, error });
+      });
+    }, delay);
+
+    this.timeTriggers.set(order.id, timer);
+  }
+
+  private unwatch(order: Pick<PendingOrderRow, 'id' | 'symbol'>): void {
+    if (!leaderElection.isLeader()) {
+      clusterBus.publish(ORDER_SYNC_CHANNEL, { orderId: order.id, symbol: order.symbol });
+      return;
+    }
+
+    this.priceOrders.get(order.symbol)?.delete(order.id);
+
+    const timer = this.timeTriggers.get(order.id);
+    if (timer) {
+      clearTimeout(timer);
+      this.timeTriggers.delete(order.id);
+    }
+  }
+
+  /**
+   * Match the watch state to the database copy of an order. Safe to repeat
+   * and to receive out of order.
+   */
+  private async syncOrder(orderId: string, symbol: string): Promise<void> {
+    this.unwatch({ id: orderId, symbol });
+
+    const order = await queryOne<PendingOrderRow>(
+      `SELECT * FROM "PendingOrder" WHERE id = $1 AND status = 'PENDING'`,
+      [orderId]
+    );
+    if (order) {
+      const normalized = this.normalizeOrder(order);
+      this.unwatch(normalized);
+      this.watch(normalized);
+    }
+  }
+
+  private getCurrentPrice(symbol: string): number | null {
+    const tick = otcMarketService.isOTCSymbol(symbol)
+      ? otcMarketService.getCurrentPrice(symbol)
+      : marketService.getCurrentPrice(symbol);
+
+    return tick ? tick.price : null;
+  }
+
+  private validateTradeParams(amount: number, duration: number): void {
+    if (amount < config.trading.minTradeAmount) {
+      throw new PendingOrderServiceError(`Minimum trade amount is $${config.trading.minTradeAmount}`, 400);
+    }
+
+    if (amount > config.trading.maxTradeAmount) {
+      throw new PendingOrderServiceError(`Maximum trade amount is $${config.trading.maxTradeAmount}`, 400);
+    }
+
+    if (duration < 5 || duration > 86400) {
+      throw new PendingOrderServiceError('Trade duration must be between 5 seconds and 24 hours', 400);
+    }
+  }
+
+  private validateExpiry(expiresAt: Date, triggerAt: Date | null, now: Date): void {
+    if (expiresAt.getTime() <= now.getTime()) {
+      throw new PendingOrderServiceError('Expiry must be in the future', 400);
+    }
+
+    if (expiresAt.getTime() - now.getTime() > this.MAX_ORDER_LIFETIME_MS) {
+      throw new PendingOrderServiceError('Orders can stay pending for at most 7 days', 400);
+    }
+
+    if (triggerAt && expiresAt.getTime() < triggerAt.getTime()) {
+      throw new PendingOrderServiceError('Expiry must be after the trigger time', 400);
+    }
+  }
+
+  private normalizeOrder(order: PendingOrderRow): PendingOrderRow {
+    return {
+      ...order,
+      amount: Number(order.amount),
+      triggerPrice: order.triggerPrice !== null ? Number(order.triggerPrice) : null,
+    };
+  }
+}
+
+export const pendingOrderService = new PendingOrderService();
+export { PendingOrderServiceError };
+export type { PendingOrderRow, CreatePendingOrderInput, UpdatePendingOrderInput };
@@ -0,0 +1,217 @@
+import { queryOne, queryMany } from '../../config/db.js';
+import { marketService } from '../market/market.service.js';
+import { tickJournal } from '../market/tick-journal.service.js';
+import { priceTickJournal } from '../market/price-tick-journal.service.js';
+
+/**
+ * Trade Replay
+ *
+ * Rebuilds the price path of a trade from entry to settlement so support (and
+ * the user) can see exactly what happened when a loss is disputed.
+ *
+ * - Real symbols replay from the persisted PriceTickJournal
+ * - OTC symbols replay from OTCPriceHistory, topped up with any ticks still in
+ *   the in-memory TickJournal (OTC history is stored per candle, not per tick)
+ *
+ * Long trades are downsampled; the entry and settlement ticks are always kept.
+ */
+
+interface ReplayTick {
+  timestamp: Date;
+  price: number;
+  bid: number;
+  ask: number;
+}
+
+interface TradeReplay {
+  trade: {
+    id: string;
+    userId: string;
+    symbol: string;
+    market: string;
+    direction: string;
+    amount: number;
+    entryPrice: number;
+    exitPrice: number | null;
+    payoutPercent: number;
+    status: string;
+    result: string | null;
+    profit: number | null;
+    accountType: string;
+    openedAt: Date;
+    expiresAt: Date;
+    closedAt: Date | null;
+  };
+  source: 'PRICE_TICK_JOURNAL' | 'OTC_PRICE_HISTORY';
+  ticks: ReplayTick[];
+  totalTicks: number;
+  isDownsampled: boolean;
+  entryTick: { timestamp: Date; price: number };
+  settlementTick: { timestamp: Date; price: number; source: string | null } | null;
+  spread: {
+    // Markup configured for the symbol now - real symbols only
+    markupPips: number | null;
+    markupValue: number | null;
+    // Average ask - bid across the replayed ticks
+    averageSpread: number | null;
+  };
+}
+
+interface ReplayTradeRow {
+  id: string;
+  userId: string;
+  symbol: string;
+  market: string;
+  direction: string;
+  amount: number;
+  entryPrice: number;
+  exitPrice: number | null;
+  payoutPercent: number;
+  status: string;
+  result: string | null;
+  profit: number | null;
+  accountType: string;
+  openedAt: Date;
+  expiresAt: Date;
+  closedAt: Date | null;
+  exitTickAt: Date | null;
+  exitTickSource: string | null;
+}
+
+class TradeReplayError extends Error {
+  constructor(
+    message: string,
+    public statusCode: number = 400
+  ) {
+    super(message);
+    this.name = 'TradeReplayError';
+  }
+}
+
+const MAX_TICKS_FETCHED = 50000;
+const MAX_TICKS_RETURNED = 2000;
+
+const isOTCSymbol = (symbol: string): boolean => symbol.endsWith('-OTC');
+
+class TradeReplayService {
+  /**
+   * Replay a trade. Pass userId to restrict to the user's own trades.
+   */
+  async getReplay(tradeId: string, userId?: string): Promise<TradeReplay> {
+    const trade = await queryOne<ReplayTradeRow>(
+      `SELECT id, "userId", symbol, market, direction, amount, "entryPrice", "exitPrice",
+              "payoutPercent", status, result, profit, "accountType", "openedAt", "expiresAt",
+              "closedAt", "exitTickAt", "exitTickSource"
+       FROM "Trade" WHERE id = $1`,
+      [tradeId]
+    );
+
+    if (!trade || (userId && trade.userId !== userId)) {
+      throw new TradeReplayError('Trade not found', 404);
+    }
+
+    // Settlement uses the last tick at or before expiry; early closes stop at closedAt
+    const from = trade.openedAt;
+    const to = trade.exitTickAt && trade.exitTickAt > from
+      ? trade.exitTickAt
+      : trade.closedAt ?? new Date();
+
+    const isOTC = isOTCSymbol(trade.symbol);
+    const ticks = isOTC
+      ? await this.getOTCTicks(trade.symbol, from, to)
+      : await this.getJournalTicks(trade.symbol, from, to);
+
+    const { ticks: sampled, isDownsampled } = this.downsample(ticks);
+    const markup = isOTC ? null : marketService.getSpreadMarkup(trade.symbol);
+
+    return {
+      trade: {
+        id: trade.id,
+        userId: trade.userId,
+        symbol: trade.symbol,
+        market: trade.market,
+        direction: trade.direction,
+        amount: trade.amount,
+        entryPrice: trade.entryPrice,
+        exitPrice: trade.exitPrice,
+        payoutPercent: trade.payoutPercent,
+        status: trade.status,
+        result: trade.result,
+        profit: trade.profit,
+        accountType: trade.accountType,
+        openedAt: trade.openedAt,
+        expiresAt: trade.expiresAt,
+        closedAt: trade.closedAt,
+      },
+      source: isOTC ? 'OTC_PRICE_HISTORY' : 'PRICE_TICK_JOURNAL',
+      ticks: sampled,
+      totalTicks: ticks.length,
+      isDownsampled,
+      entryTick: { timestamp: trade.openedAt, price: trade.entryPrice },
+      settlementTick: trade.exitPrice !== null
+        ? {
+          timestamp: trade.exitTickAt ?? trade.closedAt ?? trade.expiresAt,
+          price: trade.exitPrice,
+          source: trade.exitTickSource,
+        }
+        : null,
+      spread: {
+        markupPips: markup?.markupPips ?? null,
+        markupValue: markup?.markupValue ?? null,
+        averageSpread: ticks.length > 0
+          ? ticks.reduce((sum, tick) => sum + (tick.ask - tick.bid), 0) / ticks.length
+          : null,
+      },
+    };
+  }
+
+  private async getJournalTicks(symbol: string, from: Date, to: Date): Promise<ReplayTick[]> {
+    const ticks = await priceTickJournal.getTicksBetween(symbol, from, to, MAX_TICKS_FETCHED);
+    return ticks.map(({ timestamp, price, bid, ask }) => ({ timestamp, price, bid, ask }));
+  }
+
+  private async getOTCTicks(symbol: string, from: Date, to: Date): Promise<ReplayTick[]> {
+    const history = await queryMany<ReplayTick>(
+      `SELECT timestamp, price, bid, ask
+       FROM "OTCPriceHistory"
+       WHERE symbol = $1 AND timestamp >= $2 AND timestamp <= $3
+         AND "priceMode" NOT IN ('SYNTHETIC', 'SEEDED')
+       ORDER BY timestamp ASC
+       LIMIT $4`,
+      [symbol, from, to, MAX_TICKS_FETCHED]
+    );
+
+    const journal = tickJournal.getTicksBetween(symbol, from, to)
+      .map(({ timestamp, price, bid, ask }) => ({ timestamp, price, bid, ask }));
+
+    if (journal.length === 0) return history;
+
+    // The in-memory journal is finer grained - use it for the span it covers
+    const journalStart = journal[0].timestamp.getTime();
+    return [
+      ...history.filter((tick) => tick.timestamp.getTime() < journalStart),
+      ...journal,
+    ];
+  }
+
+  /**
+   * Evenly thin out a long series, keeping the first and last tick
+   */
+  private downsample(ticks: ReplayTick[]): { ticks: ReplayTick[]; isDownsampled: boolean } {
+    if (ticks.length <= MAX_TICKS_RETURNED) {
+      return { ticks, isDownsampled: false };
+    }
+
+    const step = (ticks.length - 1) / (MAX_TICKS_RETURNED - 1);
+    const sampled: ReplayTick[] = [];
+    for (let i = 0; i < MAX_TICKS_RETURNED; i++) {
+      sampled.push(ticks[Math.round(i * step)]);
+    }
+
+    return { ticks: sampled, isDownsampled: true };
+  }
+}
+
+export const tradeReplayService = new TradeReplayService();
+export { TradeReplayError };
+export type { TradeReplay, ReplayTick };
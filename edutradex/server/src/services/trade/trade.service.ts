@@ -1,15 +1,28 @@
 import { query, queryOne, queryMany, transaction, serializableTransaction } from '../../config/db.js';
 import { config } from '../../config/env.js';
 import { logger } from '../../utils/logger.js';
-import { marketService } from '../market/market.service.js';
+import { marketService, SettlementTick } from '../market/market.service.js';
+import { marketCalendarService } from '../market/market-calendar.service.js';
+import { feedHealthService } from '../market/feed-health.service.js';
+import { payoutScheduleService } from '../market/payout-schedule.service.js';
 import { copyExecutionService } from '../copy-trading/index.js';
 import { wsManager } from '../websocket/websocket.manager.js';
+import { ledgerService } from '../ledger/ledger.service.js';
+import { bonusService } from '../bonus/bonus.service.js';
+import { tradingLimitsService } from '../limits/trading-limits.service.js';
+import { clusterBus } from '../cluster/backplane.js';
+import { leaderElection } from '../cluster/leader-election.js';
+import { addMoney, percentOf, subtractMoney } from '../../utils/money.js';
 import { randomUUID } from 'crypto';
 
 import { otcMarketService } from '../otc/index.js';
+import { earlyClosePricer, EarlyClosePricerError, type EarlyCloseQuote } from './early-close-pricer.js';
 
 // Helper to check if symbol is OTC
 const isOTCSymbol = (symbol: string): boolean => symbol.endsWith('-OTC');
+
+// Settlement timers run on the cluster leader; other nodes hand trades to it
+const SETTLEMENT_CHANNEL = 'trade:settlement';
 interface PlaceTradeInput {
   symbol: string;
   direction: 'UP' | 'DOWN';
@@ -37,6 +50,8 @@ interface TradeResult {
   openedAt: Date;
   closedAt: Date | null;
   expiresAt: Date;
+  exitTickAt: Date | null;
+  exitTickSource: string | null;
 }
 
 interface TradeRow {
@@ -57,6 +72,8 @@ interface TradeRow {
   openedAt: Date;
   closedAt: Date | null;
   expiresAt: Date;
+  exitTickAt: Date | null;
+  exitTickSource: string | null;
   isCopyTrade: boolean;
 }
 
@@ -64,6 +81,7 @@ interface TradeStats {
   totalTrades: number;
   wonTrades: number;
   lostTrades: number;
+  drawTrades: number;
   totalProfit: number;
   winRate: number;
 }
@@ -79,7 +97,18 @@ class TradeServiceError extends Error {
 }
 
 export class TradeService {
-  async placeTrade(userId: string, data: PlaceTradeInput): Promise<TradeResult> {
+  constructor() {
+    clusterBus.subscribe<{ tradeId: string; expiresAt: string }>(SETTLEMENT_CHANNEL, ({ tradeId, expiresAt }) => {
+      if (!leaderElection.isLeader()) return;
+      this.scheduleTradeSettlement(tradeId, (new Date(expiresAt).getTime() - Date.now()) / 1000);
+    });
+  }
+
+  async placeTrade(
+    userId: string,
+    data: PlaceTradeInput,
+    options: { accountType?: 'LIVE' | 'DEMO' } = {}
+  ): Promise<TradeResult> {
     const user = await queryOne<{ demoBalance: number; practiceBalance: number; activeAccountType: string; isActive: boolean }>(
       `SELECT "demoBalance", "practiceBalance", "activeAccountType", "isActive" FROM "User" WHERE id = $1`,
       [userId]
@@ -92,10 +121,11 @@ export class TradeService {
     // NOTE: Due to legacy naming:
     // - 'LIVE' mode uses demoBalance (which is actually the real money)
     // - 'DEMO' mode uses practiceBalance (which is the practice/demo money)
-    const isLiveMode = user.activeAccountType === 'LIVE';
+    // Pending orders pass the account they were created on; otherwise use the active one
+    const accountType = options.accountType ?? user.activeAccountType; // 'LIVE' or 'DEMO'
+    const isLiveMode = accountType === 'LIVE';
     const currentBalance = isLiveMode ? user.demoBalance : user.practiceBalance;
     const balanceField = isLiveMode ? 'demoBalance' : 'practiceBalance';
-    const accountType = user.activeAccountType; // 'LIVE' or 'DEMO'
 
     if (data.amount < config.trading.minTradeAmount) {
       throw new TradeServiceError(
@@ -121,7 +151,30 @@ export class TradeService {
 
     const now = new Date();
     const expiresAt = new Date(now.getTime() + data.duration * 1000);
-    const payoutPercent = config.trading.defaultPayoutPercentage;
+
+    const session = await marketCalendarService.getSymbolStatus(data.symbol, now);
+    if (session && !session.isOpen) {
+      throw new TradeServiceError(
+        session.holiday
+          ? `${data.symbol} market is closed for ${session.holiday}`
+          : `${data.symbol} market is closed`,
+        400
+      );
+    }
+    if (session?.nextClose && expiresAt > session.nextClose) {
+      throw new TradeServiceError(
+        `Trade would expire after the ${data.symbol} market closes at ${session.nextClose.toISOString()}`,
+        400
+      );
+    }
+
+    // The feed supervisor stops trading while a symbol's prices cannot be trusted
+    const suspension = feedHealthService.getSuspension(data.symbol);
+    if (suspension) {
+      throw new TradeServiceError(`Trading on ${data.symbol} is temporarily suspended: ${suspension}`, 503);
+    }
+
+    const { payoutPercent } = await payoutScheduleService.resolvePayout(data.symbol, data.duration, now);
     const tradeId = randomUUID();
 
     // Create trade and deduct balance atomically using serializable transaction
@@ -137,6 +190,17 @@ export class TradeService {
         throw new TradeServiceError('Insufficient balance', 400);
       }
 
+      // Self-imposed limits, checked under the User row lock taken above
+      const limitBlock = await tradingLimitsService.getTradeBlockReason(
+        client,
+        userId,
+        accountType as 'LIVE' | 'DEMO',
+        data.amount
+      );
+      if (limitBlock) {
+        throw new TradeServiceError(limitBlock, 403);
+      }
+
       // Insert trade with correct accountType
       const tradeResult = await client.query<TradeRow>(
         `INSERT INTO "Trade" (
@@ -164,10 +228,19 @@ export class TradeService {
       );
 
       // Deduct from the correct balance
-      await client.query(
-        `UPDATE "User" SET "${balanceField}" = "${balanceField}" - $1, "updatedAt" = $2 WHERE id = $3`,
-        [data.amount, now, userId]
-      );
+      await ledgerService.post(client, {
+        userId,
+        accountType: accountType as 'LIVE' | 'DEMO',
+        amount: -data.amount,
+        reason: 'TRADE_STAKE',
+        sourceType: 'TRADE',
+        sourceId: tradeId,
+        description: `${data.direction} ${data.symbol} stake`,
+      });
+
+      if (isLiveMode) {
+        await bonusService.recordWager(client, userId, data.amount);
+      }
 
       return tradeResult.rows[0];
     });
@@ -201,25 +274,7 @@ export class TradeService {
       logger.error('Error executing copy trades', { tradeId: trade.id, error });
     });
 
-    return {
-      id: trade.id,
-      userId: trade.userId,
-      symbol: trade.symbol,
-      direction: trade.direction,
-      amount: trade.amount,
-      entryPrice: trade.entryPrice,
-      exitPrice: trade.exitPrice,
-      duration: trade.duration,
-      payoutPercent: trade.payoutPercent,
-      status: trade.status,
-      result: trade.result,
-      profit: trade.profit,
-      market: trade.market,
-      accountType: trade.accountType,
-      openedAt: trade.openedAt,
-      closedAt: trade.closedAt,
-      expiresAt: trade.expiresAt,
-    };
+    return this.toTradeResult(trade);
   }
 
   // Track pending settlements in memory for immediate trades
@@ -230,6 +285,12 @@ export class TradeService {
   private readonly SETTLEMENT_CHECK_INTERVAL_MS = config.tradeSettlement.checkInterval;
 
   private scheduleTradeSettlement(tradeId: string, duration: number): void {
+    if (!leaderElection.isLeader()) {
+      const expiresAt = new Date(Date.now() + duration * 1000);
+      clusterBus.publish(SETTLEMENT_CHANNEL, { tradeId, expiresAt: expiresAt.toISOString() });
+      return;
+    }
+
     // Clear any existing timer for this trade
     const existingTimer = this.pendingSettlements.get(tradeId);
     if (existingTimer) {
@@ -243,11 +304,27 @@ export class TradeService {
       } catch (error) {
         logger.error('Trade settlement failed', { tradeId, error });
       }
-    }, duration * 1000);
+    }, Math.max(0, duration * 1000));
 
     this.pendingSettlements.set(tradeId, timer);
   }
 
+  /**
+   * Schedule timers for every open trade - called when this node becomes the
+   * cluster leader, since the previous leader's timers died with it
+   */
+  async scheduleOpenTrades(): Promise<void> {
+    const openTrades = await queryMany<{ id: string; expiresAt: Date }>(
+      `SELECT id, "expiresAt" FROM "Trade" WHERE status = 'OPEN'`
+    );
+
+    for (const trade of openTrades) {
+      this.scheduleTradeSettlement(trade.id, (trade.expiresAt.getTime() - Date.now()) / 1000);
+    }
+
+    logger.info('[TradeService] Scheduled settlement for open trades', { count: openTrades.length });
+  }
+
   /**
    * Initialize trade settlement recovery system
    * Call this on server startup to recover unsettled trades
@@ -384,95 +461,342 @@ export class TradeService {
       return null;
     }
 
-    // Calculate exit price - use OTC risk engine for OTC symbols
+    // Calculate exit price from the last journaled tick at or before expiry
+    // OTC symbols additionally go through the risk engine
     let exitPrice: number;
     let wasInfluenced = false;
+    let settlementTick: SettlementTick | null;
 
     if (isOTCSymbol(trade.symbol)) {
-      // OTC symbol - use risk engine for exit price calculation
-      const riskResult = otcMarketService.calculateExitPrice({
-        id: trade.id,
-        userId: trade.userId,
-        symbol: trade.symbol,
-        direction: trade.direction as 'UP' | 'DOWN',
-        amount: trade.amount,
-        entryPrice: trade.entryPrice
-      });
-
-      exitPrice = riskResult.exitPrice;
-      wasInfluenced = riskResult.influenced;
+      settlementTick = await otcMarketService.getSettlementTick(trade.symbol, trade.expiresAt);
+
+      if (settlementTick) {
+        const riskResult = otcMarketService.calculateExitPrice({
+          id: trade.id,
+          userId: trade.userId,
+          symbol: trade.symbol,
+          direction: trade.direction as 'UP' | 'DOWN',
+          amount: trade.amount,
+          entryPrice: trade.entryPrice
+        }, settlementTick.price);
+
+        exitPrice = riskResult.exitPrice;
+        wasInfluenced = riskResult.influenced;
+      } else {
+        exitPrice = trade.entryPrice;
+      }
 
       // Remove trade from OTC exposure tracking
       await otcMarketService.removeTrade(tradeId, trade.symbol);
     } else {
-      // Regular symbol - use standard market price generation
-      exitPrice = marketService.generateExitPrice(trade.symbol, trade.entryPrice, trade.duration);
+      settlementTick = await marketService.getSettlementTick(trade.symbol, trade.expiresAt);
+      exitPrice = settlementTick?.price ?? trade.entryPrice;
     }
 
-    const priceWentUp = exitPrice > trade.entryPrice;
+    // Without a usable price at expiry the outcome is unknown, so the stake is refunded
+    let refundReason: string | null = null;
+    if (!settlementTick) {
+      refundReason = 'no price at expiry';
+    } else if (feedHealthService.getSuspension(trade.symbol)) {
+      refundReason = 'price feed suspended';
+    } else if (feedHealthService.isTickStale(trade.symbol, settlementTick.timestamp, trade.expiresAt)) {
+      refundReason = 'stale price at expiry';
+    }
 
-    const won =
-      (trade.direction === 'UP' && priceWentUp) ||
-      (trade.direction === 'DOWN' && !priceWentUp);
+    if (refundReason) {
+      logger.warn('Refunding stake instead of settling', {
+        tradeId,
+        symbol: trade.symbol,
+        reason: refundReason,
+        tickAt: settlementTick?.timestamp,
+        expiresAt: trade.expiresAt,
+      });
+      settlementTick = null;
+      exitPrice = trade.entryPrice;
+    }
 
-    const profit = won ? trade.amount * (trade.payoutPercent / 100) : 0;
-    const returnAmount = won ? trade.amount + profit : 0;
-    const now = new Date();
+    // An unchanged price is a draw; the market's draw policy decides whether
+    // the stake is refunded or lost
+    let result: 'WON' | 'LOST' | 'DRAW';
+    if (refundReason) {
+      result = 'DRAW';
+    } else if (exitPrice === trade.entryPrice) {
+      const drawPolicy = await payoutScheduleService.resolveDrawPolicy(trade.symbol);
+      result = drawPolicy === 'REFUND' ? 'DRAW' : 'LOST';
+    } else {
+      const priceWentUp = exitPrice > trade.entryPrice;
+      const won =
+        (trade.direction === 'UP' && priceWentUp) ||
+        (trade.direction === 'DOWN' && !priceWentUp);
+      result = won ? 'WON' : 'LOST';
+    }
 
-    // Determine which balance to credit based on trade's accountType
-    // NOTE: Due to legacy naming:
-    // - 'LIVE' trades use demoBalance (which is actually the real money)
-    // - 'DEMO' trades use practiceBalance (which is the practice/demo money)
-    const balanceField = trade.accountType === 'LIVE' ? 'demoBalance' : 'practiceBalance';
+    const profit =
+      result === 'WON' ? percentOf(trade.amount, trade.payoutPercent) :
+      result === 'DRAW' ? 0 :
+      -trade.amount;
+    const returnAmount =
+      result === 'WON' ? addMoney(trade.amount, profit) :
+      result === 'DRAW' ? trade.amount :
+      0;
+    const refundDescription = refundReason
+      ? `${trade.symbol} refund - ${refundReason}`
+      : `${trade.symbol} draw refund`;
+    const now = new Date();
 
     // Update trade and user balance atomically with serializable isolation
     // This prevents race conditions during settlement
-    const { updatedTrade, newBalance, newPracticeBalance } = await serializableTransaction(async (client) => {
+    const settlement = await serializableTransaction(async (client) => {
       // Lock the user row to prevent concurrent balance modifications
       await client.query(`SELECT id FROM "User" WHERE id = $1 FOR UPDATE`, [trade.userId]);
 
+      // Re-check status under lock - the trade may have been closed early meanwhile
+      const lockedTrade = await client.query<{ status: string }>(
+        `SELECT status FROM "Trade" WHERE id = $1 FOR UPDATE`,
+        [tradeId]
+      );
+      if (lockedTrade.rows[0]?.status !== 'OPEN') {
+        return null;
+      }
+
       // Update trade
       const tradeResult = await client.query<TradeRow>(
         `UPDATE "Trade" SET
-          "exitPrice" = $1, status = $2, result = $3, profit = $4, "closedAt" = $5
-        WHERE id = $6 RETURNING *`,
-        [exitPrice, 'CLOSED', won ? 'WON' : 'LOST', won ? profit : -trade.amount, now, tradeId]
+          "exitPrice" = $1, status = $2, result = $3, profit = $4, "closedAt" = $5,
+          "exitTickAt" = $6, "exitTickSource" = $7
+        WHERE id = $8 RETURNING *`,
+        [
+          exitPrice,
+          'CLOSED',
+          result,
+          profit,
+          now,
+          settlementTick?.timestamp ?? null,
+          settlementTick?.source ?? null,
+          tradeId
+        ]
       );
 
+      // Bonus turnover is settled first so the balances returned below include any conversion
+      if (trade.accountType === 'LIVE') {
+        if (result === 'DRAW') {
+          await bonusService.reverseWager(client, trade.userId, trade.amount);
+        }
+        await bonusService.convertWagered(client, trade.userId);
+      }
+
       // Add return amount to the correct balance and return new balances
-      const balanceResult = await client.query<{ demoBalance: number; practiceBalance: number }>(
-        `UPDATE "User" SET "${balanceField}" = "${balanceField}" + $1, "updatedAt" = $2
-         WHERE id = $3
-         RETURNING "demoBalance", "practiceBalance"`,
-        [returnAmount, now, trade.userId]
-      );
+      const balances = await ledgerService.post(client, {
+        userId: trade.userId,
+        accountType: trade.accountType as 'LIVE' | 'DEMO',
+        amount: returnAmount,
+        reason: result === 'DRAW' ? 'TRADE_REFUND' : 'TRADE_PAYOUT',
+        sourceType: 'TRADE',
+        sourceId: tradeId,
+        description: result === 'DRAW' ? refundDescription : `${trade.symbol} payout`,
+      });
 
       return {
         updatedTrade: tradeResult.rows[0],
-        newBalance: balanceResult.rows[0].demoBalance,
-        newPracticeBalance: balanceResult.rows[0].practiceBalance,
+        newBalance: balances.demoBalance,
+        newPracticeBalance: balances.practiceBalance,
       };
     });
 
+    if (!settlement) {
+      logger.debug('Trade closed before settlement', { tradeId });
+      return null;
+    }
+
+    const { updatedTrade, newBalance, newPracticeBalance } = settlement;
+
     logger.info('Trade settled', {
       tradeId,
-      result: won ? 'WON' : 'LOST',
-      profit: won ? profit : -trade.amount,
+      result,
+      profit,
       exitPrice,
+      exitTickAt: settlementTick?.timestamp ?? null,
+      exitTickSource: settlementTick?.source ?? null,
       isOTC: isOTCSymbol(trade.symbol),
       wasInfluenced,
     });
 
+    this.notifyTradeClosed(trade, updatedTrade, newBalance, newPracticeBalance);
+
+    return this.toTradeResult(updatedTrade);
+  }
+
+  /**
+   * Early close (sell-back) of an open trade.
+   * Without a quoteId this returns a buy-back quote; with the quoteId of a
+   * still-valid quote it closes the trade at the quoted value.
+   */
+  async closeTradeEarly(
+    userId: string,
+    tradeId: string,
+    quoteId?: string
+  ): Promise<{ quote: EarlyCloseQuote; trade: TradeResult | null }> {
+    const trade = await queryOne<TradeRow>(
+      `SELECT * FROM "Trade" WHERE id = $1 AND "userId" = $2`,
+      [tradeId, userId]
+    );
+
+    if (!trade) {
+      throw new TradeServiceError('Trade not found', 404);
+    }
+
+    if (trade.status !== 'OPEN') {
+      throw new TradeServiceError('Trade is already closed', 400);
+    }
+
+    try {
+      if (!quoteId) {
+        return { quote: await earlyClosePricer.createQuote(trade), trade: null };
+      }
+
+      const quote = await earlyClosePricer.consumeQuote(quoteId, userId, tradeId);
+      const closedTrade = await this.executeEarlyClose(trade, quote);
+
+      return { quote, trade: closedTrade };
+    } catch (error) {
+      if (error instanceof EarlyClosePricerError) {
+        throw new TradeServiceError(error.message, error.statusCode);
+      }
+      throw error;
+    }
+  }
+
+  /**
+   * Settle a trade at a buy-back value: the quoted amount is returned to the
+   * balance and the trade is closed with the CLOSED_EARLY result
+   */
+  private async executeEarlyClose(trade: TradeRow, quote: EarlyCloseQuote): Promise<TradeResult> {
+    const existingTimer = this.pendingSettlements.get(trade.id);
+    if (existingTimer) {
+      clearTimeout(existingTimer);
+      this.pendingSettlements.delete(trade.id);
+    }
+
+    const profit = subtractMoney(quote.closeValue, trade.amount);
+    const now = new Date();
+
+    // Same locking pattern as settleTrade so a close and an expiry can't both pay out
+    const { updatedTrade, newBalance, newPracticeBalance } = await serializableTransaction(async (client) => {
+      await client.query(`SELECT id FROM "User" WHERE id = $1 FOR UPDATE`, [trade.userId]);
+
+      const lockedTrade = await client.query<{ status: string }>(
+        `SELECT status FROM "Trade" WHERE id = $1 FOR UPDATE`,
+        [trade.id]
+      );
+      if (lockedTrade.rows[0]?.status !== 'OPEN') {
+        throw new TradeServiceError('Trade is already closed', 409);
+      }
+
+      const tradeResult = await client.query<TradeRow>(
+        `UPDATE "Trade" SET
+          "exitPrice" = $1, status = $2, result = $3, profit = $4, "closedAt" = $5,
+          "exitTickAt" = $6, "exitTickSource" = $7
+        WHERE id = $8 RETURNING *`,
+        [
+          quote.currentPrice,
+          'CLOSED',
+          'CLOSED_EARLY',
+          profit,
+          now,
+          quote.priceTimestamp,
+          quote.priceSource,
+          trade.id
+        ]
+      );
+
+      if (trade.accountType === 'LIVE') {
+        await bonusService.convertWagered(client, trade.userId);
+      }
+
+      const balances = await ledgerService.post(client, {
+        userId: trade.userId,
+        accountType: trade.accountType as 'LIVE' | 'DEMO',
+        amount: quote.closeValue,
+        reason: 'TRADE_EARLY_CLOSE',
+        sourceType: 'TRADE',
+        sourceId: trade.id,
+        description: `${trade.symbol} early close`,
+      });
+
+      return {
+        updatedTrade: tradeResult.rows[0],
+        newBalance: balances.demoBalance,
+        newPracticeBalance: balances.practiceBalance,
+      };
+    });
+
+    logger.info('Trade closed early', {
+      tradeId: trade.id,
+      closeValue: quote.closeValue,
+      profit,
+      exitPrice: quote.currentPrice,
+      remainingSeconds: quote.remainingSeconds,
+      winProbability: quote.winProbability,
+      isOTC: isOTCSymbol(trade.symbol),
+    });
+
+    if (isOTCSymbol(trade.symbol)) {
+      await otcMarketService.removeTrade(trade.id, trade.symbol);
+    }
+
+    this.notifyTradeClosed(trade, updatedTrade, newBalance, newPracticeBalance);
+
+    // Followers copying this trade are closed out alongside the leader
+    if (!trade.isCopyTrade) {
+      this.closeCopiedTradesEarly(trade.id).catch((error) => {
+        logger.error('Error closing copied trades early', { tradeId: trade.id, error });
+      });
+    }
+
+    return this.toTradeResult(updatedTrade);
+  }
+
+  private async closeCopiedTradesEarly(originalTradeId: string): Promise<void> {
+    const copiedTrades = await queryMany<TradeRow>(
+      `SELECT t.* FROM "CopiedTrade" ct
+       JOIN "Trade" t ON t.id = ct."copiedTradeId"
+       WHERE ct."originalTradeId" = $1 AND t.status = 'OPEN'`,
+      [originalTradeId]
+    );
+
+    for (const copiedTrade of copiedTrades) {
+      try {
+        await this.executeEarlyClose(copiedTrade, earlyClosePricer.priceTrade(copiedTrade));
+      } catch (error) {
+        logger.error('Failed to close copied trade early', {
+          originalTradeId,
+          copiedTradeId: copiedTrade.id,
+          error,
+        });
+      }
+    }
+  }
+
+  /**
+   * Push the closed trade and new balances to the user and refresh leader
+   * stats. Shared by expiry settlement and early close.
+   */
+  private notifyTradeClosed(
+    trade: TradeRow,
+    updatedTrade: TradeRow,
+    newBalance: number,
+    newPracticeBalance: number
+  ): void {
     // Send real-time WebSocket notification to user with updated balance
     wsManager.notifyTradeSettled(trade.userId, {
-      id: tradeId,
+      id: trade.id,
       symbol: trade.symbol,
       direction: trade.direction,
       amount: trade.amount,
-      result: won ? 'WON' : 'LOST',
-      profit: won ? profit : -trade.amount,
+      result: updatedTrade.result as 'WON' | 'LOST' | 'DRAW' | 'CLOSED_EARLY',
+      profit: updatedTrade.profit ?? 0,
       entryPrice: trade.entryPrice,
-      exitPrice,
+      exitPrice: updatedTrade.exitPrice ?? trade.entryPrice,
       newBalance: trade.accountType === 'LIVE' ? newBalance : newPracticeBalance,
       accountType: trade.accountType as 'LIVE' | 'DEMO',
     });
@@ -490,26 +814,6 @@ export class TradeService {
         logger.error('Error updating leader stats', { userId: trade.userId, error });
       });
     }
-
-    return {
-      id: updatedTrade.id,
-      userId: updatedTrade.userId,
-      symbol: updatedTrade.symbol,
-      direction: updatedTrade.direction,
-      amount: updatedTrade.amount,
-      entryPrice: updatedTrade.entryPrice,
-      exitPrice: updatedTrade.exitPrice,
-      duration: updatedTrade.duration,
-      payoutPercent: updatedTrade.payoutPercent,
-      status: updatedTrade.status,
-      result: updatedTrade.result,
-      profit: updatedTrade.profit,
-      market: updatedTrade.market,
-      accountType: updatedTrade.accountType,
-      openedAt: updatedTrade.openedAt,
-      closedAt: updatedTrade.closedAt,
-      expiresAt: updatedTrade.expiresAt,
-    };
   }
 
   async getUserTrades(
@@ -539,25 +843,7 @@ export class TradeService {
     ]);
 
     return {
-      trades: trades.map((trade) => ({
-        id: trade.id,
-        userId: trade.userId,
-        symbol: trade.symbol,
-        direction: trade.direction,
-        amount: trade.amount,
-        entryPrice: trade.entryPrice,
-        exitPrice: trade.exitPrice,
-        duration: trade.duration,
-        payoutPercent: trade.payoutPercent,
-        status: trade.status,
-        result: trade.result,
-        profit: trade.profit,
-        market: trade.market,
-        accountType: trade.accountType,
-        openedAt: trade.openedAt,
-        closedAt: trade.closedAt,
-        expiresAt: trade.expiresAt,
-      })),
+      trades: trades.map((trade) => this.toTradeResult(trade)),
       total: parseInt(countResult?.count || '0', 10),
     };
   }
@@ -570,25 +856,7 @@ export class TradeService {
 
     if (!trade) return null;
 
-    return {
-      id: trade.id,
-      userId: trade.userId,
-      symbol: trade.symbol,
-      direction: trade.direction,
-      amount: trade.amount,
-      entryPrice: trade.entryPrice,
-      exitPrice: trade.exitPrice,
-      duration: trade.duration,
-      payoutPercent: trade.payoutPercent,
-      status: trade.status,
-      result: trade.result,
-      profit: trade.profit,
-      market: trade.market,
-      accountType: trade.accountType,
-      openedAt: trade.openedAt,
-      closedAt: trade.closedAt,
-      expiresAt: trade.expiresAt,
-    };
+    return this.toTradeResult(trade);
   }
 
   async getActiveTrades(userId: string): Promise<TradeResult[]> {
@@ -597,25 +865,7 @@ export class TradeService {
       [userId]
     );
 
-    return trades.map((trade) => ({
-      id: trade.id,
-      userId: trade.userId,
-      symbol: trade.symbol,
-      direction: trade.direction,
-      amount: trade.amount,
-      entryPrice: trade.entryPrice,
-      exitPrice: trade.exitPrice,
-      duration: trade.duration,
-      payoutPercent: trade.payoutPercent,
-      status: trade.status,
-      result: trade.result,
-      profit: trade.profit,
-      market: trade.market,
-      accountType: trade.accountType,
-      openedAt: trade.openedAt,
-      closedAt: trade.closedAt,
-      expiresAt: trade.expiresAt,
-    }));
+    return trades.map((trade) => this.toTradeResult(trade));
   }
 
   async getUserStats(userId: string): Promise<TradeStats> {
@@ -623,12 +873,14 @@ export class TradeService {
       total: string;
       won: string;
       lost: string;
+      draw: string;
       profit: number;
     }>(
       `SELECT
         COUNT(*) as total,
         COUNT(*) FILTER (WHERE result = 'WON') as won,
         COUNT(*) FILTER (WHERE result = 'LOST') as lost,
+        COUNT(*) FILTER (WHERE result = 'DRAW') as draw,
         COALESCE(SUM(profit), 0) as profit
        FROM "Trade" WHERE "userId" = $1 AND status = 'CLOSED'`,
       [userId]
@@ -637,13 +889,17 @@ export class TradeService {
     const totalTrades = parseInt(stats?.total || '0', 10);
     const wonTrades = parseInt(stats?.won || '0', 10);
     const lostTrades = parseInt(stats?.lost || '0', 10);
+    const drawTrades = parseInt(stats?.draw || '0', 10);
     const totalProfit = Number(stats?.profit || 0);
-    const winRate = totalTrades > 0 ? (wonTrades / totalTrades) * 100 : 0;
+    // Refunded draws have no winner, so they are left out of the win rate
+    const decidedTrades = totalTrades - drawTrades;
+    const winRate = decidedTrades > 0 ? (wonTrades / decidedTrades) * 100 : 0;
 
     return {
       totalTrades,
       wonTrades,
       lostTrades,
+      drawTrades,
       totalProfit,
       winRate,
     };
@@ -661,6 +917,30 @@ export class TradeService {
     return { deletedCount };
   }
 
+  private toTradeResult(trade: TradeRow): TradeResult {
+    return {
+      id: trade.id,
+      userId: trade.userId,
+      symbol: trade.symbol,
+      direction: trade.direction,
+      amount: trade.amount,
+      entryPrice: trade.entryPrice,
+      exitPrice: trade.exitPrice,
+      duration: trade.duration,
+      payoutPercent: trade.payoutPercent,
+      status: trade.status,
+      result: trade.result,
+      profit: trade.profit,
+      market: trade.market,
+      accountType: trade.accountType,
+      openedAt: trade.openedAt,
+      closedAt: trade.closedAt,
+      expiresAt: trade.expiresAt,
+      exitTickAt: trade.exitTickAt,
+      exitTickSource: trade.exitTickSource,
+    };
+  }
+
   private async executeCopyTradesForLeader(
     userId: string,
     trade: {
@@ -711,5 +991,17 @@ export class TradeService {
   }
 }
 
+/**
+ * Response body of an early close. The REST route and the WebSocket channel
+ * record it under the same idempotency key, so both must send exactly this.
+ */
+export function toEarlyCloseBody(result: { quote: EarlyCloseQuote; trade: TradeResult | null }) {
+  if (!result.trade) {
+    return { success: true, data: { quote: result.quote } };
+  }
+
+  return { success: true, message: 'Trade closed early', data: result };
+}
+
 export const tradeService = new TradeService();
 export { TradeServiceError };
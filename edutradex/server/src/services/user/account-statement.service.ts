@@ -0,0 +1,281 @@
+import { queryOne, queryMany } from '../../config/db.js';
+import { addMoney } from '../../utils/money.js';
+import {
+  ledgerService,
+  type LedgerAccountType,
+  type LedgerReason,
+  type StatementEntry,
+} from '../ledger/ledger.service.js';
+
+/**
+ * Account Statements
+ *
+ * Period statements for one wallet, built from the ledger: opening and
+ * closing balance, totals per category and every movement in the period,
+ * plus the trades that closed in it. Rendered as CSV here and as PDF by
+ * PDFExportService. Periods are whole UTC days; a monthly statement runs
+ * from the 1st of the month to the 1st of the next.
+ */
+
+type StatementCategory = 'DEPOSITS' | 'WITHDRAWALS' | 'TRADING' | 'COMMISSIONS' | 'BONUSES' | 'ADJUSTMENTS';
+
+const REASON_CATEGORIES: Record<LedgerReason, StatementCategory> = {
+  DEPOSIT: 'DEPOSITS',
+  TOP_UP: 'DEPOSITS',
+  WITHDRAWAL_HOLD: 'WITHDRAWALS',
+  WITHDRAWAL_RELEASE: 'WITHDRAWALS',
+  TRADE_STAKE: 'TRADING',
+  TRADE_PAYOUT: 'TRADING',
+  TRADE_REFUND: 'TRADING',
+  TRADE_EARLY_CLOSE: 'TRADING',
+  REFERRAL_COMMISSION: 'COMMISSIONS',
+  BONUS_CONVERSION: 'BONUSES',
+  OPENING_BALANCE: 'ADJUSTMENTS',
+  BALANCE_RESET: 'ADJUSTMENTS',
+  BALANCE_ADJUSTMENT: 'ADJUSTMENTS',
+};
+
+const CATEGORY_LABELS: Record<StatementCategory, string> = {
+  DEPOSITS: 'Deposits',
+  WITHDRAWALS: 'Withdrawals',
+  TRADING: 'Trading',
+  COMMISSIONS: 'Commissions',
+  BONUSES: 'Bonuses',
+  ADJUSTMENTS: 'Adjustments',
+};
+
+const MAX_PERIOD_DAYS = 366;
+const MAX_STATEMENT_ENTRIES = 10000;
+
+interface AccountStatementEntry extends StatementEntry {
+  category: StatementCategory;
+}
+
+interface AccountStatementTrade {
+  id: string;
+  symbol: string;
+  direction: string;
+  amount: number;
+  payoutPercent: number;
+  entryPrice: number;
+  exitPrice: number | null;
+  result: string | null;
+  profit: number;
+  openedAt: Date;
+  closedAt: Date;
+}
+
+interface AccountStatement {
+  holder: { userId: string; name: string; email: string };
+  accountType: LedgerAccountType;
+  from: Date;
+  to: Date;
+  generatedAt: Date;
+  openingBalance: number;
+  closingBalance: number;
+  // Net movement per category, signed
+  totals: Record<StatementCategory, number>;
+  tradeSummary: {
+    count: number;
+    won: number;
+    lost: number;
+    draw: number;
+    closedEarly: number;
+    volume: number;
+    netProfit: number;
+  };
+  entries: AccountStatementEntry[]; // Oldest first
+  trades: AccountStatementTrade[]; // By close time
+  // More movements than MAX_STATEMENT_ENTRIES; totals still cover the whole period
+  truncated: boolean;
+}
+
+class AccountStatementServiceError extends Error {
+  constructor(
+    message: string,
+    public statusCode: number = 400
+  ) {
+    super(message);
+    this.name = 'AccountStatementServiceError';
+  }
+}
+
+function startOfUtcMonth(date: Date): Date {
+  return new Date(Date.UTC(date.getUTCFullYear(), date.getUTCMonth(), 1));
+}
+
+// Text a spreadsheet would run as a formula; signed amounts are left as numbers
+const FORMULA_PREFIX = /^[=+\-@\t\r]/;
+const PLAIN_NUMBER = /^[+-]?\d+(\.\d+)?$/;
+
+function csvCell(cell: string | number | null): string {
+  let text = String(cell ?? '');
+  if (FORMULA_PREFIX.test(text) && !PLAIN_NUMBER.test(text)) {
+    text = `'${text}`;
+  }
+  return `"${text.replace(/"/g, '""')}"`;
+}
+
+function csvRow(cells: (string | number | null)[]): string {
+  return cells.map(csvCell).join(',');
+}
+
+class AccountStatementService {
+  /**
+   * The calendar month before the given date, as [from, to) plus its YYYY-MM key
+   */
+  getPreviousMonth(now: Date = new Date()): { from: Date; to: Date; period: string } {
+    const to = startOfUtcMonth(now);
+    const from = new Date(Date.UTC(to.getUTCFullYear(), to.getUTCMonth() - 1, 1));
+    const period = `${from.getUTCFullYear()}-${String(from.getUTCMonth() + 1).padStart(2, '0')}`;
+    return { from, to, period };
+  }
+
+  /**
+   * Statement for [from, to). Defaults to the current month so far.
+   */
+  async getStatement(
+    userId: string,
+    options: { accountType?: LedgerAccountType; from?: Date; to?: Date } = {}
+  ): Promise<AccountStatement> {
+    const now = new Date();
+    const accountType = options.accountType ?? 'LIVE';
+    const from = options.from ?? startOfUtcMonth(now);
+    const to = options.to ?? now;
+
+    if (from.getTime() >= to.getTime()) {
+      throw new AccountStatementServiceError('Statement start must be before its end');
+    }
+    if (to.getTime() - from.getTime() > MAX_PERIOD_DAYS * 24 * 60 * 60 * 1000) {
+      throw new AccountStatementServiceError(`Statement period cannot exceed ${MAX_PERIOD_DAYS} days`);
+    }
+
+    const [holder, ledgerStatement, categoryRows, trades] = await Promise.all([
+      queryOne<{ id: string; name: string; email: string }>(
+        `SELECT id, name, email FROM "User" WHERE id = $1`,
+        [userId]
+      ),
+      ledgerService.getStatement(userId, { accountType, from, to, limit: MAX_STATEMENT_ENTRIES, offset: 0 }),
+      queryMany<{ reason: LedgerReason; net: number }>(
+        `SELECT reason, SUM(CASE WHEN side = 'CREDIT' THEN amount ELSE -amount END) as net
+         FROM "LedgerEntry"
+         WHERE "userId" = $1 AND account = $2 AND "createdAt" >= $3 AND "createdAt" < $4
+         GROUP BY reason`,
+        [userId, accountType === 'LIVE' ? 'USER_LIVE' : 'USER_DEMO', from, to]
+      ),
+      queryMany<AccountStatementTrade>(
+        `SELECT id, symbol, direction, amount, "payoutPercent", "entryPrice", "exitPrice", result,
+                COALESCE(profit, 0) as profit, "openedAt", "closedAt"
+         FROM "Trade"
+         WHERE "userId" = $1 AND "accountType" = $2 AND status = 'CLOSED'
+           AND "closedAt" >= $3 AND "closedAt" < $4
+         ORDER BY "closedAt" ASC`,
+        [userId, accountType, from, to]
+      ),
+    ]);
+
+    if (!holder) {
+      throw new AccountStatementServiceError('User not found', 404);
+    }
+
+    const totals: Record<StatementCategory, number> = {
+      DEPOSITS: 0,
+      WITHDRAWALS: 0,
+      TRADING: 0,
+      COMMISSIONS: 0,
+      BONUSES: 0,
+      ADJUSTMENTS: 0,
+    };
+    categoryRows.forEach((row) => {
+      const category = REASON_CATEGORIES[row.reason] ?? 'ADJUSTMENTS';
+      totals[category] = addMoney(totals[category], Number(row.net));
+    });
+
+    const tradeRows = trades.map((trade) => ({
+      ...trade,
+      amount: Number(trade.amount),
+      profit: Number(trade.profit),
+    }));
+
+    return {
+      holder: { userId: holder.id, name: holder.name, email: holder.email },
+      accountType,
+      from,
+      to,
+      generatedAt: now,
+      openingBalance: ledgerStatement.openingBalance,
+      closingBalance: ledgerStatement.closingBalance,
+      totals,
+      tradeSummary: {
+        count: tradeRows.length,
+        won: tradeRows.filter((trade) => trade.result === 'WON').length,
+        lost: tradeRows.filter((trade) => trade.result === 'LOST').length,
+        draw: tradeRows.filter((trade) => trade.result === 'DRAW').length,
+        closedEarly: tradeRows.filter((trade) => trade.result === 'CLOSED_EARLY').length,
+        volume: tradeRows.reduce((sum, trade) => addMoney(sum, trade.amount), 0),
+        netProfit: tradeRows.reduce((sum, trade) => addMoney(sum, trade.profit), 0),
+      },
+      entries: ledgerStatement.entries
+        .map((entry) => ({ ...entry, category: REASON_CATEGORIES[entry.reason] ?? 'ADJUSTMENTS' }))
+        .reverse(),
+      trades: tradeRows,
+      truncated: ledgerStatement.total > ledgerStatement.entries.length,
+    };
+  }
+
+  /**
+   * CSV rendering: a summary block, then the account movements, then the
+   * closed trades, separated by blank lines
+   */
+  toCsv(statement: AccountStatement): string {
+    const lines = [
+      csvRow(['Account Statement']),
+      csvRow(['Account Holder', statement.holder.name]),
+      csvRow(['Email', statement.holder.email]),
+      csvRow(['Account', statement.accountType]),
+      csvRow(['From', statement.from.toISOString()]),
+      csvRow(['To', statement.to.toISOString()]),
+      csvRow(['Opening Balance', statement.openingBalance.toFixed(2)]),
+      ...(Object.keys(CATEGORY_LABELS) as StatementCategory[]).map((category) =>
+        csvRow([CATEGORY_LABELS[category], statement.totals[category].toFixed(2)])
+      ),
+      csvRow(['Closing Balance', statement.closingBalance.toFixed(2)]),
+      ...(statement.truncated ? [csvRow(['Note', `Only the latest ${MAX_STATEMENT_ENTRIES} movements are listed`])] : []),
+      '',
+      csvRow(['Date', 'Category', 'Type', 'Description', 'Reference', 'Amount', 'Balance']),
+      ...statement.entries.map((entry) =>
+        csvRow([
+          new Date(entry.date).toISOString(),
+          CATEGORY_LABELS[entry.category],
+          entry.reason,
+          entry.description,
+          entry.sourceId,
+          entry.amount.toFixed(2),
+          entry.balanceAfter !== null ? entry.balanceAfter.toFixed(2) : null,
+        ])
+      ),
+      '',
+      csvRow(['Opened', 'Closed', 'Symbol', 'Direction', 'Amount', 'Payout %', 'Entry Price', 'Exit Price', 'Result', 'Profit']),
+      ...statement.trades.map((trade) =>
+        csvRow([
+          new Date(trade.openedAt).toISOString(),
+          new Date(trade.closedAt).toISOString(),
+          trade.symbol,
+          trade.direction,
+          trade.amount.toFixed(2),
+          trade.payoutPercent,
+          trade.entryPrice,
+          trade.exitPrice,
+          trade.result,
+          trade.profit.toFixed(2),
+        ])
+      ),
+    ];
+
+    return lines.join('\n');
+  }
+}
+
+export const accountStatementService = new AccountStatementService();
+export { AccountStatementServiceError, CATEGORY_LABELS as STATEMENT_CATEGORY_LABELS };
+export type { AccountStatement, AccountStatementEntry, AccountStatementTrade, StatementCategory };
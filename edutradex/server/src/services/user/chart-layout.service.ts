@@ -0,0 +1,142 @@
+import { query, queryOne, queryMany } from '../../config/db.js';
+import { logger } from '../../utils/logger.js';
+import { randomUUID } from 'crypto';
+
+/**
+ * Chart Layout Service
+ *
+ * Stores the chart workspace so it follows the user across devices. Each row
+ * is one JSON document:
+ * - SETTINGS/default - timeframe, chart type, indicators, volume, favorites
+ * - DRAWINGS/<symbol> - the drawn lines on that symbol
+ * - TEMPLATE/<id> - a named indicator template saved by the user
+ *
+ * Writes use optimistic concurrency: the client sends the version it last saw
+ * (0 to create) and the write only applies if it still matches. Otherwise a
+ * 409 is returned with the current server copy so the client can merge and retry.
+ */
+
+type ChartLayoutKind = 'SETTINGS' | 'DRAWINGS' | 'TEMPLATE';
+
+interface ChartLayout {
+  kind: ChartLayoutKind;
+  key: string;
+  data: unknown;
+  version: number;
+  updatedAt: Date;
+}
+
+const MAX_TEMPLATES = 20;
+const MAX_DRAWING_SYMBOLS = 200;
+
+class ChartLayoutServiceError extends Error {
+  constructor(
+    message: string,
+    public statusCode: number = 400,
+    public current?: ChartLayout | null
+  ) {
+    super(message);
+    this.name = 'ChartLayoutServiceError';
+  }
+}
+
+class ChartLayoutService {
+  async getLayouts(userId: string): Promise<ChartLayout[]> {
+    return queryMany<ChartLayout>(
+      `SELECT kind, key, data, version, "updatedAt" FROM "ChartLayout"
+       WHERE "userId" = $1
+       ORDER BY kind, key`,
+      [userId]
+    );
+  }
+
+  /**
+   * Create (baseVersion 0) or replace a layout document. Fails with 409 and
+   * the current copy when another device wrote it first.
+   */
+  async saveLayout(
+    userId: string,
+    kind: ChartLayoutKind,
+    key: string,
+    data: unknown,
+    baseVersion: number
+  ): Promise<ChartLayout> {
+    const now = new Date();
+    let saved: ChartLayout | null;
+
+    if (baseVersion === 0) {
+      await this.checkDocumentLimit(userId, kind);
+
+      saved = await queryOne<ChartLayout>(
+        `INSERT INTO "ChartLayout" (id, "userId", kind, key, data, version, "createdAt", "updatedAt")
+         VALUES ($1, $2, $3, $4, $5, 1, $6, $6)
+         ON CONFLICT ("userId", kind, key) DO NOTHING
+         RETURNING kind, key, data, version, "updatedAt"`,
+        [randomUUID(), userId, kind, key, JSON.stringify(data), now]
+      );
+    } else {
+      saved = await queryOne<ChartLayout>(
+        `UPDATE "ChartLayout" SET data = $1, version = version + 1, "updatedAt" = $2
+         WHERE "userId" = $3 AND kind = $4 AND key = $5 AND version = $6
+         RETURNING kind, key, data, version, "updatedAt"`,
+        [JSON.stringify(data), now, userId, kind, key, baseVersion]
+      );
+    }
+
+    if (!saved) {
+      const current = await this.getLayout(userId, kind, key);
+      logger.info('[ChartLayout] Version conflict', {
+        userId,
+        kind,
+        key,
+        baseVersion,
+        currentVersion: current?.version ?? null,
+      });
+      throw new ChartLayoutServiceError('Layout was changed on another device', 409, current);
+    }
+
+    return saved;
+  }
+
+  async deleteLayout(userId: string, kind: ChartLayoutKind, key: string): Promise<void> {
+    const result = await query(
+      `DELETE FROM "ChartLayout" WHERE "userId" = $1 AND kind = $2 AND key = $3`,
+      [userId, kind, key]
+    );
+
+    if (result.rowCount === 0) {
+      throw new ChartLayoutServiceError('Layout not found', 404);
+    }
+  }
+
+  private async getLayout(userId: string, kind: ChartLayoutKind, key: string): Promise<ChartLayout | null> {
+    return queryOne<ChartLayout>(
+      `SELECT kind, key, data, version, "updatedAt" FROM "ChartLayout"
+       WHERE "userId" = $1 AND kind = $2 AND key = $3`,
+      [userId, kind, key]
+    );
+  }
+
+  private async checkDocumentLimit(userId: string, kind: ChartLayoutKind): Promise<void> {
+    const limit = kind === 'TEMPLATE' ? MAX_TEMPLATES : kind === 'DRAWINGS' ? MAX_DRAWING_SYMBOLS : null;
+    if (limit === null) return;
+
+    const result = await queryOne<{ count: string }>(
+      `SELECT COUNT(*) as count FROM "ChartLayout" WHERE "userId" = $1 AND kind = $2`,
+      [userId, kind]
+    );
+
+    if (parseInt(result?.count || '0', 10) >= limit) {
+      throw new ChartLayoutServiceError(
+        kind === 'TEMPLATE'
+          ? `You can save up to ${MAX_TEMPLATES} chart templates`
+          : `Drawings can be saved on up to ${MAX_DRAWING_SYMBOLS} symbols`,
+        400
+      );
+    }
+  }
+}
+
+export const chartLayoutService = new ChartLayoutService();
+export { ChartLayoutServiceError };
+export type { ChartLayout, ChartLayoutKind };
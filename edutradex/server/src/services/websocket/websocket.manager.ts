@@ -1,15 +1,34 @@
 import { WebSocket } from 'ws';
 import { logger } from '../../utils/logger.js';
 import { PriceTick } from '../market/market.service.js';
+import type { Candle } from '../market/candle.service.js';
+import type { WithdrawalStatus } from '../withdrawal/withdrawal.service.js';
+import { clusterBus } from '../cluster/backplane.js';
+import { notificationService, type NotificationInput } from '../notification/notification.service.js';
 
 // Throttle price broadcasts to max 10 per second per symbol
 const PRICE_BROADCAST_THROTTLE_MS = 100;
+// Live candles change on every tick; a few updates per second is enough for charts
+const CANDLE_BROADCAST_THROTTLE_MS = 250;
+
+// Cross-node fan-out. A user may be connected to any instance, so user and
+// broadcast messages go out on the backplane as well as to local clients.
+// Price ticks are not relayed here: every node runs its own market feeds, and
+// the OTC leader relays its ticks through the OTC market service.
+const USER_MESSAGE_CHANNEL = 'ws:user';
+const BROADCAST_CHANNEL = 'ws:broadcast';
+const PRESENCE_CHANNEL = 'ws:presence';
+const PRESENCE_HEARTBEAT_MS = 15000;
+const PRESENCE_TTL_MS = 45000;
+// Keeps each presence message well under the NOTIFY payload limit
+const PRESENCE_CHUNK_SIZE = 100;
 
 interface Client {
   ws: WebSocket;
   id: string;
   userId?: string;
   subscribedSymbols: Set<string>;
+  candleSubscriptions: Set<string>; // symbol|resolution
 }
 
 interface WebSocketMessage {
@@ -17,21 +36,87 @@ interface WebSocketMessage {
   payload?: any;
 }
 
+interface UserMessageEnvelope {
+  userId: string;
+  message: WebSocketMessage;
+}
+
+interface BroadcastEnvelope {
+  // Only authenticated clients receive it when set
+  authenticatedOnly: boolean;
+  message: WebSocketMessage;
+}
+
+// One chunk of a node's [userId, connectionCount] snapshot
+interface PresenceSnapshot {
+  snapshotId: string;
+  users: [string, number][];
+  isLast: boolean;
+}
+
+interface RemotePresence {
+  users: Map<string, number>;
+  pending: { snapshotId: string; users: Map<string, number> } | null;
+  seenAt: number;
+}
+
 class WebSocketManager {
   private clients: Map<string, Client> = new Map();
   private userClients: Map<string, Set<string>> = new Map(); // userId -> Set of clientIds
   private symbolSubscribers: Map<string, Set<string>> = new Map();
+  private candleSubscribers: Map<string, Set<string>> = new Map(); // symbol|resolution -> clientIds
 
   // Throttling state for price broadcasts
   private lastPriceBroadcast: Map<string, number> = new Map();
   private pendingPriceUpdates: Map<string, PriceTick> = new Map();
   private priceUpdateTimers: Map<string, NodeJS.Timeout> = new Map();
 
+  // Throttling state for live candle broadcasts, by symbol|resolution
+  private lastCandleBroadcast: Map<string, number> = new Map();
+  private pendingCandleUpdates: Map<string, Candle> = new Map();
+  private candleUpdateTimers: Map<string, NodeJS.Timeout> = new Map();
+
+  // Users connected to other nodes, by node id
+  private remotePresence: Map<string, RemotePresence> = new Map();
+  private presenceInterval: NodeJS.Timeout | null = null;
+  private presenceSnapshotCount = 0;
+
+  constructor() {
+    clusterBus.subscribe<UserMessageEnvelope>(USER_MESSAGE_CHANNEL, ({ userId, message }) => {
+      this.deliverToUser(userId, message);
+    });
+    clusterBus.subscribe<BroadcastEnvelope>(BROADCAST_CHANNEL, ({ authenticatedOnly, message }) => {
+      this.deliverToAll(message, authenticatedOnly);
+    });
+    clusterBus.subscribe<PresenceSnapshot>(PRESENCE_CHANNEL, (snapshot, nodeId) => {
+      this.handlePresenceSnapshot(nodeId, snapshot);
+    });
+  }
+
+  /**
+   * Share this node's connected users with the cluster so online status
+   * covers every instance
+   */
+  startPresence(): void {
+    if (!clusterBus.isDistributed || this.presenceInterval) return;
+
+    this.publishPresence();
+    this.presenceInterval = setInterval(() => this.publishPresence(), PRESENCE_HEARTBEAT_MS);
+  }
+
+  stopPresence(): void {
+    if (this.presenceInterval) {
+      clearInterval(this.presenceInterval);
+      this.presenceInterval = null;
+    }
+  }
+
   addClient(ws: WebSocket, clientId: string): void {
     const client: Client = {
       ws,
       id: clientId,
       subscribedSymbols: new Set(),
+      candleSubscriptions: new Set(),
     };
     this.clients.set(clientId, client);
     logger.info('Client added to WebSocket manager', { clientId, totalClients: this.clients.size });
@@ -45,6 +130,9 @@ class WebSocketManager {
     client.subscribedSymbols.forEach((symbol) => {
       this.unsubscribeFromSymbol(clientId, symbol);
     });
+    client.candleSubscriptions.forEach((key) => {
+      this.removeCandleSubscriber(clientId, key);
+    });
 
     // Remove from user clients mapping
     if (client.userId) {
@@ -92,13 +180,24 @@ class WebSocketManager {
   }
 
   sendToUser(userId: string, message: WebSocketMessage): void {
+    this.deliverToUser(userId, message);
+
+    if (clusterBus.isDistributed) {
+      clusterBus.publish(USER_MESSAGE_CHANNEL, { userId, message } satisfies UserMessageEnvelope);
+    }
+  }
+
+  private deliverToUser(userId: string, message: WebSocketMessage): void {
     const clientIds = this.userClients.get(userId);
     if (!clientIds || clientIds.size === 0) {
-      logger.warn('No connected clients for user - message not delivered', {
-        userId,
-        messageType: message.type,
-        totalAuthenticatedUsers: this.userClients.size
-      });
+      // In a cluster the user is usually connected to another node
+      if (!clusterBus.isDistributed) {
+        logger.warn('No connected clients for user - message not delivered', {
+          userId,
+          messageType: message.type,
+          totalAuthenticatedUsers: this.userClients.size
+        });
+      }
       return;
     }
 
@@ -109,12 +208,29 @@ class WebSocketManager {
     logger.info('Message sent to user', { userId, clientCount: clientIds.size, type: message.type });
   }
 
+  /**
+   * Persist a notification center entry and push it to the user's bell.
+   * Runs after the event message so live delivery never waits on the database.
+   */
+  private recordNotification(userId: string, notification: NotificationInput): void {
+    notificationService.create(userId, notification)
+      .then((row) => {
+        if (row) {
+          this.sendToUser(userId, { type: 'notification', payload: row });
+        }
+      })
+      .catch((error) => {
+        logger.error('Failed to record notification', { userId, type: notification.type, error });
+      });
+  }
+
   notifyWithdrawalUpdate(userId: string, withdrawal: {
     id: string;
     amount: number;
-    status: 'APPROVED' | 'REJECTED';
+    status: Exclude<WithdrawalStatus, 'PENDING'>;
     method: string;
     adminNote?: string;
+    payoutReference?: string | null;
   }): void {
     this.sendToUser(userId, {
       type: 'withdrawal_update',
@@ -123,6 +239,27 @@ class WebSocketManager {
         timestamp: Date.now(),
       },
     });
+
+    const amount = `$${withdrawal.amount.toFixed(2)}`;
+    const { title, message } = {
+      UNDER_REVIEW: { title: 'Withdrawal Under Review', message: `Your withdrawal of ${amount} is being reviewed` },
+      APPROVED: { title: 'Withdrawal Approved', message: `Your withdrawal of ${amount} has been approved and will be sent shortly` },
+      PROCESSING: { title: 'Withdrawal Sent', message: `Your withdrawal of ${amount} via ${withdrawal.method} is on its way` },
+      COMPLETED: { title: 'Withdrawal Completed', message: `Your withdrawal of ${amount} via ${withdrawal.method} has been completed` },
+      FAILED: {
+        title: 'Withdrawal Failed',
+        message: `${withdrawal.adminNote || `The payment of ${amount} could not be completed`}. The funds are back in your account.`,
+      },
+      REJECTED: { title: 'Withdrawal Declined', message: withdrawal.adminNote || `Your withdrawal of ${amount} was not approved` },
+      CANCELLED: { title: 'Withdrawal Cancelled', message: `Your withdrawal of ${amount} was cancelled and the funds returned` },
+    }[withdrawal.status];
+
+    this.recordNotification(userId, {
+      type: 'WITHDRAWAL',
+      title,
+      message,
+      data: { withdrawalId: withdrawal.id, amount: withdrawal.amount, status: withdrawal.status },
+    });
   }
 
   notifyDepositUpdate(userId: string, deposit: {
@@ -147,6 +284,16 @@ class WebSocketManager {
         timestamp: Date.now(),
       },
     });
+
+    const isApproved = deposit.status === 'APPROVED';
+    this.recordNotification(userId, {
+      type: 'DEPOSIT',
+      title: isApproved ? 'Deposit Completed' : 'Deposit Declined',
+      message: isApproved
+        ? `$${deposit.amount.toFixed(2)} has been credited to your account`
+        : deposit.adminNote || `Your deposit of $${deposit.amount.toFixed(2)} was not approved`,
+      data: { depositId: deposit.id, amount: deposit.amount, status: deposit.status },
+    });
   }
 
   // Trade Notifications
@@ -156,7 +303,7 @@ class WebSocketManager {
     direction: string;
     amount: number;
     status: 'OPEN' | 'CLOSED';
-    result?: 'WON' | 'LOST' | null;
+    result?: 'WON' | 'LOST' | 'DRAW' | 'CLOSED_EARLY' | null;
     profit?: number | null;
     exitPrice?: number | null;
   }): void {
@@ -174,7 +321,7 @@ class WebSocketManager {
     symbol: string;
     direction: string;
     amount: number;
-    result: 'WON' | 'LOST';
+    result: 'WON' | 'LOST' | 'DRAW' | 'CLOSED_EARLY';
     profit: number;
     entryPrice: number;
     exitPrice: number;
@@ -195,6 +342,45 @@ class WebSocketManager {
         timestamp: Date.now(),
       },
     });
+
+    const titles = { WON: 'Trade Won', LOST: 'Trade Lost', DRAW: 'Trade Draw', CLOSED_EARLY: 'Trade Closed Early' };
+    const profit = trade.profit >= 0 ? `+$${trade.profit.toFixed(2)}` : `-$${Math.abs(trade.profit).toFixed(2)}`;
+    this.recordNotification(userId, {
+      type: 'TRADE_SETTLED',
+      title: titles[trade.result],
+      message: `${trade.direction} ${trade.symbol} $${trade.amount.toFixed(2)}: ${profit}${trade.accountType === 'DEMO' ? ' (demo)' : ''}`,
+      data: { tradeId: trade.id, result: trade.result, profit: trade.profit, accountType: trade.accountType },
+    });
+  }
+
+  notifyPendingOrderUpdate(userId: string, order: {
+    id: string;
+    symbol: string;
+    status: 'TRIGGERED' | 'FAILED' | 'EXPIRED';
+    tradeId?: string;
+    triggeredPrice?: number;
+    failureReason?: string;
+  }): void {
+    this.sendToUser(userId, {
+      type: 'pending_order_update',
+      payload: {
+        ...order,
+        timestamp: Date.now(),
+      },
+    });
+
+    const titles = { TRIGGERED: 'Pending Order Triggered', FAILED: 'Pending Order Failed', EXPIRED: 'Pending Order Expired' };
+    const messages = {
+      TRIGGERED: `Your pending order on ${order.symbol} opened a trade`,
+      FAILED: `Your pending order on ${order.symbol} could not be placed${order.failureReason ? `: ${order.failureReason}` : ''}`,
+      EXPIRED: `Your pending order on ${order.symbol} expired without triggering`,
+    };
+    this.recordNotification(userId, {
+      type: 'PENDING_ORDER',
+      title: titles[order.status],
+      message: messages[order.status],
+      data: { orderId: order.id, status: order.status, tradeId: order.tradeId },
+    });
   }
 
   notifyBalanceUpdate(userId: string, data: {
@@ -228,6 +414,13 @@ class WebSocketManager {
         timestamp: Date.now(),
       },
     });
+
+    this.recordNotification(userId, {
+      type: 'COPY_TRADING',
+      title: 'Trade Copied',
+      message: `Copied ${data.direction} trade on ${data.symbol} for $${data.amount.toFixed(2)} from ${data.leaderName}`,
+      data: { copiedTradeId: data.copiedTradeId, amount: data.amount },
+    });
   }
 
   notifyPendingCopyTrade(userId: string, data: {
@@ -246,6 +439,13 @@ class WebSocketManager {
         timestamp: Date.now(),
       },
     });
+
+    this.recordNotification(userId, {
+      type: 'COPY_TRADING',
+      title: 'Trade Pending Approval',
+      message: `${data.leaderName} placed a ${data.direction} trade on ${data.symbol}. Approve to copy for $${data.suggestedAmount.toFixed(2)}`,
+      data: { pendingTradeId: data.pendingTradeId, amount: data.suggestedAmount },
+    });
   }
 
   notifyLeaderTraded(userId: string, data: {
@@ -275,6 +475,20 @@ class WebSocketManager {
         timestamp: Date.now(),
       },
     });
+
+    const reason = data.adminNote ? ` Reason: ${data.adminNote}` : '';
+    this.recordNotification(userId, {
+      type: 'COPY_TRADING',
+      title: data.status === 'APPROVED'
+        ? 'Leader Application Approved'
+        : data.status === 'SUSPENDED' ? 'Leader Account Suspended' : 'Leader Application Rejected',
+      message: data.status === 'APPROVED'
+        ? 'Your leader application has been approved. Traders can now follow you.'
+        : data.status === 'SUSPENDED'
+        ? `Your leader account has been suspended.${reason}`
+        : `Your leader application has been rejected.${reason}`,
+      data: { leaderId: data.leaderId, status: data.status },
+    });
   }
 
   // Support Ticket Notifications
@@ -291,6 +505,104 @@ class WebSocketManager {
         timestamp: Date.now(),
       },
     });
+
+    this.recordNotification(userId, {
+      type: 'TICKET_REPLY',
+      title: data.isClosed ? 'Ticket Closed' : 'New Reply to Your Ticket',
+      message: `${data.ticketNumber}: ${data.subject}`,
+      data: { ticketId: data.ticketId, ticketNumber: data.ticketNumber },
+    });
+  }
+
+  notifyKycUpdate(userId: string, data: {
+    status: 'APPROVED' | 'REJECTED';
+    rejectionReason?: string;
+  }): void {
+    this.sendToUser(userId, {
+      type: 'kyc_update',
+      payload: {
+        ...data,
+        timestamp: Date.now(),
+      },
+    });
+
+    const isApproved = data.status === 'APPROVED';
+    this.recordNotification(userId, {
+      type: 'KYC',
+      title: isApproved ? 'Identity Verified' : 'Verification Rejected',
+      message: isApproved
+        ? 'Your identity verification has been approved'
+        : `Your identity verification was rejected${data.rejectionReason ? `: ${data.rejectionReason}` : ''}`,
+      data: { status: data.status },
+    });
+  }
+
+  // Admin messages and announcements - one notification per recipient
+  notifyAdminMessage(userIds: string[], data: {
+    subject: string;
+    content: string;
+    isAnnouncement: boolean;
+  }): void {
+    const notification: NotificationInput = {
+      type: 'ADMIN_MESSAGE',
+      title: data.subject,
+      message: data.content,
+      data: { isAnnouncement: data.isAnnouncement },
+    };
+
+    notificationService.createMany(userIds, notification)
+      .then((rows) => {
+        if (!data.isAnnouncement) {
+          rows.forEach((row) => this.sendToUser(row.userId, { type: 'notification', payload: row }));
+          return;
+        }
+
+        // One broadcast instead of a message per user - clients refetch their bell
+        const message: WebSocketMessage = { type: 'notifications_changed', payload: { timestamp: Date.now() } };
+        this.deliverToAll(message, true);
+        if (clusterBus.isDistributed) {
+          clusterBus.publish(BROADCAST_CHANNEL, { authenticatedOnly: true, message } satisfies BroadcastEnvelope);
+        }
+      })
+      .catch((error) => {
+        logger.error('Failed to record admin message notifications', { recipients: userIds.length, error });
+      });
+  }
+
+  notifyPriceAlert(userId: string, alert: {
+    eventId: string;
+    alertId: string;
+    symbol: string;
+    type: string;
+    message: string;
+    price: number;
+    value: number | null;
+    note: string | null;
+    isActive: boolean;
+  }): void {
+    this.sendToUser(userId, {
+      type: 'price_alert',
+      payload: {
+        ...alert,
+        timestamp: Date.now(),
+      },
+    });
+
+    this.recordNotification(userId, {
+      type: 'PRICE_ALERT',
+      title: `Price Alert: ${alert.symbol}`,
+      message: alert.note ? `${alert.message} - ${alert.note}` : alert.message,
+      data: { alertId: alert.alertId, eventId: alert.eventId, price: alert.price },
+    });
+  }
+
+  notifyAccountStatement(userId: string, statement: { period: string; periodLabel: string }): void {
+    this.recordNotification(userId, {
+      type: 'ACCOUNT_STATEMENT',
+      title: 'Monthly Statement',
+      message: `Your ${statement.periodLabel} account statement has been emailed to you`,
+      data: { period: statement.period },
+    });
   }
 
   subscribeToSymbol(clientId: string, symbol: string): void {
@@ -436,6 +748,110 @@ class WebSocketManager {
     }
   }
 
+  subscribeToCandles(clientId: string, symbol: string, resolution: number): void {
+    const client = this.clients.get(clientId);
+    if (!client) return;
+
+    const key = `${symbol}|${resolution}`;
+    client.candleSubscriptions.add(key);
+
+    if (!this.candleSubscribers.has(key)) {
+      this.candleSubscribers.set(key, new Set());
+    }
+    this.candleSubscribers.get(key)!.add(clientId);
+
+    this.sendToClient(clientId, {
+      type: 'candles_subscribed',
+      payload: { symbol, resolution, timestamp: Date.now() },
+    });
+  }
+
+  unsubscribeFromCandles(clientId: string, symbol: string, resolution: number): void {
+    const client = this.clients.get(clientId);
+    if (!client) return;
+
+    const key = `${symbol}|${resolution}`;
+    client.candleSubscriptions.delete(key);
+    this.removeCandleSubscriber(clientId, key);
+
+    this.sendToClient(clientId, {
+      type: 'candles_unsubscribed',
+      payload: { symbol, resolution, timestamp: Date.now() },
+    });
+  }
+
+  hasCandleSubscribers(symbol: string, resolution: number): boolean {
+    return (this.candleSubscribers.get(`${symbol}|${resolution}`)?.size ?? 0) > 0;
+  }
+
+  private removeCandleSubscriber(clientId: string, key: string): void {
+    const subscribers = this.candleSubscribers.get(key);
+    if (!subscribers) return;
+
+    subscribers.delete(clientId);
+    if (subscribers.size === 0) {
+      this.candleSubscribers.delete(key);
+
+      const timer = this.candleUpdateTimers.get(key);
+      if (timer) {
+        clearTimeout(timer);
+        this.candleUpdateTimers.delete(key);
+      }
+      this.pendingCandleUpdates.delete(key);
+      this.lastCandleBroadcast.delete(key);
+    }
+  }
+
+  /**
+   * Push the candle being built to its subscribers. Throttled like price
+   * updates, except that the last state of a candle is always sent before
+   * the next one starts.
+   */
+  broadcastCandleUpdate(candle: Candle): void {
+    const key = `${candle.symbol}|${candle.resolution}`;
+    const subscribers = this.candleSubscribers.get(key);
+    if (!subscribers || subscribers.size === 0) return;
+
+    const pending = this.pendingCandleUpdates.get(key);
+    if (pending && pending.time !== candle.time) {
+      this.sendCandleUpdate(key);
+    }
+
+    // Copy - the service keeps mutating the live candle
+    this.pendingCandleUpdates.set(key, { ...candle });
+
+    const timeSinceLastBroadcast = Date.now() - (this.lastCandleBroadcast.get(key) || 0);
+    if (timeSinceLastBroadcast >= CANDLE_BROADCAST_THROTTLE_MS) {
+      this.sendCandleUpdate(key);
+    } else if (!this.candleUpdateTimers.has(key)) {
+      const timer = setTimeout(() => {
+        this.candleUpdateTimers.delete(key);
+        this.sendCandleUpdate(key);
+      }, CANDLE_BROADCAST_THROTTLE_MS - timeSinceLastBroadcast);
+      this.candleUpdateTimers.set(key, timer);
+    }
+  }
+
+  private sendCandleUpdate(key: string): void {
+    const candle = this.pendingCandleUpdates.get(key);
+    if (!candle) return;
+    this.pendingCandleUpdates.delete(key);
+
+    const subscribers = this.candleSubscribers.get(key);
+    if (!subscribers || subscribers.size === 0) return;
+
+    const messageJson = JSON.stringify({
+      type: 'candle_update',
+      payload: candle,
+    });
+
+    subscribers.forEach((clientId) => {
+      this.sendRawToClient(clientId, messageJson);
+    });
+
+    this.lastCandleBroadcast.set(key, Date.now());
+  }
+
   broadcastAllPrices(priceTicks: PriceTick[]): void {
     priceTicks.forEach((tick) => {
       this.broadcastPriceUpdate(tick);
@@ -459,18 +875,34 @@ class WebSocketManager {
   }
 
   sendToAll(message: WebSocketMessage): void {
+    this.deliverToAll(message, false);
+
+    if (clusterBus.isDistributed) {
+      clusterBus.publish(BROADCAST_CHANNEL, { authenticatedOnly: false, message } satisfies BroadcastEnvelope);
+    }
+  }
+
+  private deliverToAll(message: WebSocketMessage, authenticatedOnly: boolean): number {
+    // Serialize once for all clients
+    const messageJson = JSON.stringify(message);
+    let sentCount = 0;
+
     this.clients.forEach((client) => {
-      if (client.ws.readyState === WebSocket.OPEN) {
-        try {
-          client.ws.send(JSON.stringify(message));
-        } catch (error) {
-          logger.error('Error broadcasting to client', {
-            clientId: client.id,
-            error: error instanceof Error ? error.message : 'Unknown error'
-          });
-        }
+      if (authenticatedOnly && !client.userId) return;
+      if (client.ws.readyState !== WebSocket.OPEN) return;
+
+      try {
+        client.ws.send(messageJson);
+        sentCount++;
+      } catch (error) {
+        logger.error('Error broadcasting to client', {
+          clientId: client.id,
+          error: error instanceof Error ? error.message : 'Unknown error'
+        });
       }
     });
+
+    return sentCount;
   }
 
   getClientCount(): number {
@@ -489,30 +921,103 @@ class WebSocketManager {
     return subscriptions;
   }
 
-  // Get all online (connected) user IDs
+  // Get all online (connected) user IDs, across the cluster
   getOnlineUserIds(): string[] {
-    return Array.from(this.userClients.keys());
+    return Array.from(this.getClusterConnectionCounts().keys());
   }
 
-  // Check if a specific user is online
+  // Check if a specific user is online on any node
   isUserOnline(userId: string): boolean {
-    return this.userClients.has(userId) && this.userClients.get(userId)!.size > 0;
+    if (this.userClients.has(userId) && this.userClients.get(userId)!.size > 0) {
+      return true;
+    }
+    return this.getLiveRemotePresence().some((presence) => presence.users.has(userId));
   }
 
   // Get count of online users
   getOnlineUserCount(): number {
-    return this.userClients.size;
+    return this.getClusterConnectionCounts().size;
   }
 
   // Get detailed online user info
   getOnlineUsersInfo(): { userId: string; connectionCount: number }[] {
     const users: { userId: string; connectionCount: number }[] = [];
-    this.userClients.forEach((clientIds, userId) => {
-      users.push({ userId, connectionCount: clientIds.size });
+    this.getClusterConnectionCounts().forEach((connectionCount, userId) => {
+      users.push({ userId, connectionCount });
     });
     return users;
   }
 
+  private getClusterConnectionCounts(): Map<string, number> {
+    const counts = new Map<string, number>();
+    this.userClients.forEach((clientIds, userId) => {
+      counts.set(userId, clientIds.size);
+    });
+
+    for (const presence of this.getLiveRemotePresence()) {
+      presence.users.forEach((count, userId) => {
+        counts.set(userId, (counts.get(userId) || 0) + count);
+      });
+    }
+
+    return counts;
+  }
+
+  // Nodes that stop heartbeating (crashed or shut down) drop out after the TTL
+  private getLiveRemotePresence(): RemotePresence[] {
+    const cutoff = Date.now() - PRESENCE_TTL_MS;
+    const live: RemotePresence[] = [];
+
+    this.remotePresence.forEach((presence, nodeId) => {
+      if (presence.seenAt < cutoff) {
+        this.remotePresence.delete(nodeId);
+      } else {
+        live.push(presence);
+      }
+    });
+
+    return live;
+  }
+
+  private publishPresence(): void {
+    const users: [string, number][] = [];
+    this.userClients.forEach((clientIds, userId) => {
+      users.push([userId, clientIds.size]);
+    });
+
+    const snapshotId = `${++this.presenceSnapshotCount}`;
+    const chunkCount = Math.max(1, Math.ceil(users.length / PRESENCE_CHUNK_SIZE));
+
+    for (let i = 0; i < chunkCount; i++) {
+      clusterBus.publish(PRESENCE_CHANNEL, {
+        snapshotId,
+        users: users.slice(i * PRESENCE_CHUNK_SIZE, (i + 1) * PRESENCE_CHUNK_SIZE),
+        isLast: i === chunkCount - 1,
+      } satisfies PresenceSnapshot);
+    }
+  }
+
+  private handlePresenceSnapshot(nodeId: string, snapshot: PresenceSnapshot): void {
+    let presence = this.remotePresence.get(nodeId);
+    if (!presence) {
+      presence = { users: new Map(), pending: null, seenAt: Date.now() };
+      this.remotePresence.set(nodeId, presence);
+    }
+
+    // Chunks of one snapshot are collected and swapped in together
+    if (!presence.pending || presence.pending.snapshotId !== snapshot.snapshotId) {
+      presence.pending = { snapshotId: snapshot.snapshotId, users: new Map() };
+    }
+    const pending = presence.pending;
+    snapshot.users.forEach(([userId, count]) => pending.users.set(userId, count));
+
+    presence.seenAt = Date.now();
+    if (snapshot.isLast) {
+      presence.users = pending.users;
+      presence.pending = null;
+    }
+  }
+
   // Financial Updates Broadcasting
   broadcastFinancialUpdate(data: {
     type: 'realtime_metrics' | 'daily_snapshot' | 'monthly_report' | 'alert';
@@ -527,20 +1032,11 @@ class WebSocketManager {
     };
 
     // Broadcast to all authenticated clients (superadmins will filter on frontend)
-    let sentCount = 0;
-    this.clients.forEach((client) => {
-      if (client.userId && client.ws.readyState === WebSocket.OPEN) {
-        try {
-          client.ws.send(JSON.stringify(message));
-          sentCount++;
-        } catch (error) {
-          logger.error('Error broadcasting financial update', {
-            clientId: client.id,
-            error: error instanceof Error ? error.message : 'Unknown error',
-          });
-        }
-      }
-    });
+    const sentCount = this.deliverToAll(message, true);
+
+    if (clusterBus.isDistributed) {
+      clusterBus.publish(BROADCAST_CHANNEL, { authenticatedOnly: true, message } satisfies BroadcastEnvelope);
+    }
 
     logger.debug('Financial update broadcast', {
       type: data.type,
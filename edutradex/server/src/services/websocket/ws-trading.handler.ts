@@ -0,0 +1,278 @@
+import { WebSocket } from 'ws';
+import { createHash } from 'crypto';
+import { z } from 'zod';
+import { logger } from '../../utils/logger.js';
+import { resolveTokenUser, type AuthenticatedUser } from '../../middleware/auth.middleware.js';
+import { tradeService, TradeServiceError, toEarlyCloseBody } from '../trade/trade.service.js';
+import {
+  idempotencyService,
+  IdempotencyServiceError,
+} from '../idempotency/idempotency.service.js';
+import {
+  placeTradeSchema,
+  wsTradingRequestSchema,
+  wsCloseTradeSchema,
+  type WsTradingRequest,
+} from '../../validators/trade.validators.js';
+
+/**
+ * WebSocket Trading Channel
+ *
+ * Request/response messages on /ws, so trading skips the REST round-trip:
+ *   -> { type: 'place_trade', requestId, idempotencyKey?, payload }
+ *   <- { type: 'response', payload: { requestId, requestType, status, success, data | error } }
+ *
+ * Each request re-checks the session token like authMiddleware and runs the
+ * same validators and trade service calls as the REST routes, so responses
+ * carry the same status codes and bodies. Idempotency keys are recorded under
+ * the REST route names: a request retried over REST after the socket dropped
+ * is replayed instead of executed twice.
+ */
+
+type TradingRequestType = WsTradingRequest['type'];
+
+// Per connection, sliding window
+const RATE_LIMITS: Record<TradingRequestType, { max: number; windowMs: number }> = {
+  place_trade: { max: 5, windowMs: 1000 },
+  close_trade: { max: 5, windowMs: 1000 },
+  get_active_trades: { max: 10, windowMs: 10000 },
+  get_balance: { max: 10, windowMs: 10000 },
+};
+
+interface TradingSession {
+  token: string | null;
+  requestTimes: Map<TradingRequestType, number[]>;
+}
+
+interface TradingResponse {
+  status: number;
+  body: {
+    success: boolean;
+    message?: string;
+    data?: unknown;
+    error?: string;
+    details?: unknown;
+  };
+  replayed?: boolean;
+}
+
+class WsTradingHandler {
+  private sessions: Map<string, TradingSession> = new Map();
+
+  /**
+   * Remember the token a connection authenticated with (null on failure)
+   */
+  setToken(clientId: string, token: string | null): void {
+    this.getSession(clientId).token = token;
+  }
+
+  removeClient(clientId: string): void {
+    this.sessions.delete(clientId);
+  }
+
+  async handle(ws: WebSocket, clientId: string, message: unknown): Promise<void> {
+    const envelope = message as { type?: unknown; requestId?: unknown };
+    const parsed = wsTradingRequestSchema.safeParse(message);
+
+    if (!parsed.success) {
+      this.send(ws, envelope.requestId, envelope.type, {
+        status: 400,
+        body: { success: false, error: 'Invalid request', details: this.formatIssues(parsed.error) },
+      });
+      return;
+    }
+
+    const request = parsed.data;
+    let response: TradingResponse;
+
+    try {
+      response = await this.execute(clientId, request);
+    } catch (error) {
+      if (error instanceof IdempotencyServiceError) {
+        response = { status: error.statusCode, body: { success: false, error: error.message } };
+      } else {
+        logger.error('[WsTrading] Request failed', { clientId, type: request.type, error });
+        response = { status: 500, body: { success: false, error: 'Internal server error' } };
+      }
+    }
+
+    this.send(ws, request.requestId, request.type, response);
+  }
+
+  private async execute(clientId: string, request: WsTradingRequest): Promise<TradingResponse> {
+    const session = this.getSession(clientId);
+
+    if (this.isRateLimited(session, request.type)) {
+      return { status: 429, body: { success: false, error: 'Too many requests. Please slow down.' } };
+    }
+
+    if (!session.token) {
+      return { status: 401, body: { success: false, error: 'Not authenticated' } };
+    }
+
+    let user: AuthenticatedUser;
+    try {
+      const result = await resolveTokenUser(session.token);
+      if ('error' in result) {
+        return { status: 401, body: { success: false, error: result.error } };
+      }
+      user = result.user;
+    } catch {
+      return { status: 401, body: { success: false, error: 'Invalid or expired token' } };
+    }
+
+    switch (request.type) {
+      case 'place_trade':
+        return this.runIdempotent(user.id, request, 'POST /api/trades/', request.payload, async () => {
+          const input = placeTradeSchema.safeParse(request.payload);
+          if (!input.success) return this.validationFailed(input.error);
+
+          const trade = await tradeService.placeTrade(user.id, input.data);
+          logger.info('[WsTrading] Trade placed over WebSocket', { userId: user.id, tradeId: trade.id });
+          return { status: 201, body: { success: true, data: trade } };
+        });
+
+      case 'close_trade': {
+        const input = wsCloseTradeSchema.safeParse(request.payload);
+        if (!input.success) return this.validationFailed(input.error);
+
+        const { tradeId, quoteId } = input.data;
+        const body = quoteId ? { quoteId } : {};
+
+        return this.runIdempotent(user.id, request, `POST /api/trades/${tradeId}/close`, body, async () => {
+          const result = await tradeService.closeTradeEarly(user.id, tradeId, quoteId);
+          return { status: 200, body: toEarlyCloseBody(result) };
+        });
+      }
+
+      case 'get_active_trades':
+        return {
+          status: 200,
+          body: { success: true, data: await tradeService.getActiveTrades(user.id) },
+        };
+
+      case 'get_balance':
+        return {
+          status: 200,
+          body: {
+            success: true,
+            data: {
+              liveBalance: user.liveBalance,
+              demoBalance: user.demoBalance,
+              practiceBalance: user.practiceBalance,
+              activeAccountType: user.activeAccountType,
+            },
+          },
+        };
+    }
+  }
+
+  /**
+   * Same contract as idempotencyMiddleware: replay a finished request, store
+   * any outcome below 500 and release the key when the request fails.
+   */
+  private async runIdempotent(
+    userId: string,
+    request: WsTradingRequest,
+    route: string,
+    hashedBody: unknown,
+    run: () => Promise<TradingResponse>
+  ): Promise<TradingResponse> {
+    const key = request.idempotencyKey;
+    const execute = async (): Promise<TradingResponse> => {
+      try {
+        return await run();
+      } catch (error) {
+        if (error instanceof TradeServiceError) {
+          return { status: error.statusCode, body: { success: false, error: error.message } };
+        }
+        throw error;
+      }
+    };
+
+    if (!key) return execute();
+
+    const requestHash = createHash('sha256')
+      .update(JSON.stringify(hashedBody ?? null))
+      .digest('hex');
+    const claim = await idempotencyService.claim(userId, key, route, requestHash);
+
+    if (claim.state === 'REPLAY') {
+      return {
+        status: claim.responseStatus,
+        body: claim.responseBody as TradingResponse['body'],
+        replayed: true,
+      };
+    }
+
+    let response: TradingResponse;
+    try {
+      response = await execute();
+    } catch (error) {
+      idempotencyService.release(claim.id).catch((releaseError) => {
+        logger.error('[Idempotency] Failed to record request outcome', { userId, route, error: releaseError });
+      });
+      throw error;
+    }
+
+    idempotencyService.complete(claim.id, response.status, response.body).catch((error) => {
+      logger.error('[Idempotency] Failed to record request outcome', { userId, route, error });
+    });
+    return response;
+  }
+
+  private isRateLimited(session: TradingSession, type: TradingRequestType): boolean {
+    const { max, windowMs } = RATE_LIMITS[type];
+    const now = Date.now();
+    const recent = (session.requestTimes.get(type) ?? []).filter((time) => now - time < windowMs);
+
+    if (recent.length >= max) {
+      session.requestTimes.set(type, recent);
+      return true;
+    }
+
+    recent.push(now);
+    session.requestTimes.set(type, recent);
+    return false;
+  }
+
+  private validationFailed(error: z.ZodError): TradingResponse {
+    return {
+      status: 400,
+      body: { success: false, error: 'Validation failed', details: this.formatIssues(error) },
+    };
+  }
+
+  private formatIssues(error: z.ZodError): { field: string; message: string }[] {
+    return error.issues.map((issue) => ({
+      field: issue.path.join('.'),
+      message: issue.message,
+    }));
+  }
+
+  private getSession(clientId: string): TradingSession {
+    let session = this.sessions.get(clientId);
+    if (!session) {
+      session = { token: null, requestTimes: new Map() };
+      this.sessions.set(clientId, session);
+    }
+    return session;
+  }
+
+  private send(ws: WebSocket, requestId: unknown, requestType: unknown, response: TradingResponse): void {
+    if (ws.readyState !== WebSocket.OPEN) return;
+
+    ws.send(JSON.stringify({
+      type: 'response',
+      payload: {
+        requestId: typeof requestId === 'string' ? requestId : null,
+        requestType: typeof requestType === 'string' ? requestType : null,
+        status: response.status,
+        ...response.body,
+        ...(response.replayed && { replayed: true }),
+      },
+    }));
+  }
+}
+
+export const wsTradingHandler = new WsTradingHandler();
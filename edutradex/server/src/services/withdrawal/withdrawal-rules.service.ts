@@ -0,0 +1,365 @@
+import type { PoolClient } from 'pg';
+import { queryOne } from '../../config/db.js';
+import { depositService } from '../deposit/deposit.service.js';
+import { addMoney, multiplyMoney, subtractMoney } from '../../utils/money.js';
+import { randomUUID } from 'crypto';
+
+/**
+ * Withdrawal Rules
+ *
+ * Checks run on every withdrawal request before any funds are held:
+ * - turnover: LIVE trading since the last approved deposit must reach a
+ *   multiple of that deposit
+ * - closed loop: money goes back to the method it was deposited with until
+ *   the amount deposited that way has been returned
+ * - velocity: rolling 24 hour and 7 day caps on amount and request count
+ * - security cooldown: no withdrawals for a while after a password or
+ *   two-factor change
+ *
+ * Each rule is configured with an action - OFF, HOLD (the request goes to
+ * review) or DENY - and reports a reason whether it passes or not. The
+ * strictest failing action decides the request.
+ */
+
+type RuleAction = 'OFF' | 'HOLD' | 'DENY';
+type RuleOutcome = 'ALLOW' | 'HOLD' | 'DENY';
+type WithdrawalRule = 'TURNOVER' | 'CLOSED_LOOP' | 'VELOCITY' | 'SECURITY_COOLDOWN';
+
+interface WithdrawalRuleSettingsRow {
+  id: string;
+  turnoverAction: RuleAction;
+  turnoverMultiplier: number;
+  closedLoopAction: RuleAction;
+  velocityAction: RuleAction;
+  dailyAmountLimit: number | null;
+  dailyCountLimit: number | null;
+  weeklyAmountLimit: number | null;
+  weeklyCountLimit: number | null;
+  cooldownAction: RuleAction;
+  cooldownHours: number;
+  isActive: boolean;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+type WithdrawalRuleSettingsInput = Partial<Omit<WithdrawalRuleSettingsRow, 'id' | 'createdAt' | 'updatedAt'>>;
+
+interface WithdrawalRuleRequest {
+  amount: number;
+  method: 'MOBILE_MONEY' | 'CRYPTO';
+  mobileProvider?: string;
+  cryptoCurrency?: string;
+}
+
+interface RuleCheck {
+  rule: WithdrawalRule;
+  outcome: RuleOutcome;
+  reason: string;
+}
+
+interface RuleEvaluation {
+  outcome: RuleOutcome;
+  checks: RuleCheck[];
+}
+
+const SETTINGS_COLUMNS: (keyof WithdrawalRuleSettingsInput)[] = [
+  'turnoverAction',
+  'turnoverMultiplier',
+  'closedLoopAction',
+  'velocityAction',
+  'dailyAmountLimit',
+  'dailyCountLimit',
+  'weeklyAmountLimit',
+  'weeklyCountLimit',
+  'cooldownAction',
+  'cooldownHours',
+  'isActive',
+];
+
+// Requests that still hold or have paid out money; the rest gave it back
+const ACTIVE_WITHDRAWAL_STATUSES = `('PENDING', 'UNDER_REVIEW', 'APPROVED', 'PROCESSING', 'COMPLETED')`;
+
+const OUTCOME_RANK: Record<RuleOutcome, number> = { ALLOW: 0, HOLD: 1, DENY: 2 };
+
+function formatUsd(amount: number): string {
+  return `$${amount.toFixed(2)}`;
+}
+
+export class WithdrawalRulesService {
+  async getSettings(): Promise<WithdrawalRuleSettingsRow> {
+    let settings = await queryOne<WithdrawalRuleSettingsRow>(
+      `SELECT * FROM "WithdrawalRuleSettings" LIMIT 1`
+    );
+
+    if (!settings) {
+      const now = new Date();
+
+      // Column defaults hold the starting configuration
+      settings = await queryOne<WithdrawalRuleSettingsRow>(
+        `INSERT INTO "WithdrawalRuleSettings" (id, "createdAt", "updatedAt")
+         VALUES ($1, $2, $2)
+         RETURNING *`,
+        [randomUUID(), now]
+      );
+    }
+
+    return settings!;
+  }
+
+  async updateSettings(data: WithdrawalRuleSettingsInput): Promise<WithdrawalRuleSettingsRow> {
+    const settings = await this.getSettings();
+
+    const updates: string[] = [];
+    const params: unknown[] = [];
+    let paramIndex = 1;
+
+    for (const column of SETTINGS_COLUMNS) {
+      if (data[column] !== undefined) {
+        updates.push(`"${column}" = $${paramIndex++}`);
+        params.push(data[column]);
+      }
+    }
+
+    updates.push(`"updatedAt" = $${paramIndex++}`);
+    params.push(new Date());
+    params.push(settings.id);
+
+    const result = await queryOne<WithdrawalRuleSettingsRow>(
+      `UPDATE "WithdrawalRuleSettings" SET ${updates.join(', ')} WHERE id = $${paramIndex} RETURNING *`,
+      params
+    );
+
+    return result!;
+  }
+
+  /**
+   * Run the active rules against a withdrawal request. Called on the request's
+   * transaction while it holds the User row lock, so concurrent requests from
+   * the same user see each other in the velocity totals.
+   */
+  async evaluate(client: PoolClient, userId: string, request: WithdrawalRuleRequest): Promise<RuleEvaluation> {
+    const settings = await this.getSettings();
+    if (!settings.isActive) {
+      return { outcome: 'ALLOW', checks: [] };
+    }
+
+    const pending: Promise<RuleCheck | null>[] = [];
+    if (settings.turnoverAction !== 'OFF') {
+      pending.push(this.checkTurnover(client, userId, settings));
+    }
+    if (settings.closedLoopAction !== 'OFF') {
+      pending.push(this.checkClosedLoop(client, userId, request, settings));
+    }
+    if (settings.velocityAction !== 'OFF') {
+      pending.push(this.checkVelocity(client, userId, request, settings));
+    }
+    if (settings.cooldownAction !== 'OFF') {
+      pending.push(this.checkSecurityCooldown(client, userId, settings));
+    }
+
+    const checks = (await Promise.all(pending)).filter((check): check is RuleCheck => check !== null);
+    const outcome = checks.reduce<RuleOutcome>(
+      (worst, check) => (OUTCOME_RANK[check.outcome] > OUTCOME_RANK[worst] ? check.outcome : worst),
+      'ALLOW'
+    );
+
+    return { outcome, checks };
+  }
+
+  private async checkTurnover(
+    client: PoolClient,
+    userId: string,
+    settings: WithdrawalRuleSettingsRow
+  ): Promise<RuleCheck> {
+    const depositResult = await client.query<{ amount: number; approvedAt: Date }>(
+      `SELECT amount, COALESCE("processedAt", "createdAt") as "approvedAt"
+       FROM "Deposit"
+       WHERE "userId" = $1 AND status = 'APPROVED'
+       ORDER BY COALESCE("processedAt", "createdAt") DESC
+       LIMIT 1`,
+      [userId]
+    );
+    const deposit = depositResult.rows[0];
+
+    if (!deposit) {
+      return { rule: 'TURNOVER', outcome: 'ALLOW', reason: 'No deposit to turn over' };
+    }
+
+    // Draws refund the stake, so they do not count as trading
+    const traded = await client.query<{ total: number }>(
+      `SELECT COALESCE(SUM(amount), 0) as total
+       FROM "Trade"
+       WHERE "userId" = $1 AND "accountType" = 'LIVE' AND status = 'CLOSED'
+         AND (result IS NULL OR result <> 'DRAW') AND "openedAt" >= $2`,
+      [userId, deposit.approvedAt]
+    );
+
+    const turnover = Number(traded.rows[0]?.total || 0);
+    const required = multiplyMoney(deposit.amount, settings.turnoverMultiplier);
+
+    if (turnover >= required) {
+      return {
+        rule: 'TURNOVER',
+        outcome: 'ALLOW',
+        reason: `Traded ${formatUsd(turnover)} of the ${formatUsd(required)} required since the last deposit`,
+      };
+    }
+
+    return {
+      rule: 'TURNOVER',
+      outcome: settings.turnoverAction as RuleOutcome,
+      reason: `Trade ${formatUsd(subtractMoney(required, turnover))} more before withdrawing - ` +
+        `${formatUsd(turnover)} of the ${formatUsd(required)} required since your last deposit`,
+    };
+  }
+
+  private async checkClosedLoop(
+    client: PoolClient,
+    userId: string,
+    request: WithdrawalRuleRequest,
+    settings: WithdrawalRuleSettingsRow
+  ): Promise<RuleCheck | null> {
+    const depositMethod = await depositService.getUserDepositMethod(userId);
+    if (!depositMethod) {
+      return null;
+    }
+
+    const isMobile = depositMethod.type === 'MOBILE_MONEY';
+    const channel = isMobile
+      ? ('mobileProvider' in depositMethod ? depositMethod.mobileProvider : null)
+      : ('cryptoCurrency' in depositMethod ? depositMethod.cryptoCurrency : null);
+    const channelColumn = isMobile ? '"mobileProvider"' : '"cryptoCurrency"';
+
+    const requestChannel = request.method === 'MOBILE_MONEY' ? request.mobileProvider : request.cryptoCurrency;
+    if (request.method === depositMethod.type && requestChannel === channel) {
+      return { rule: 'CLOSED_LOOP', outcome: 'ALLOW', reason: `Withdrawing to ${depositMethod.name}, the deposit method` };
+    }
+
+    const totalsResult = await client.query<{ deposited: number; returned: number }>(
+      `SELECT
+        (SELECT COALESCE(SUM(amount), 0) FROM "Deposit"
+         WHERE "userId" = $1 AND status = 'APPROVED' AND method = $2 AND ${channelColumn} = $3) as deposited,
+        (SELECT COALESCE(SUM(amount), 0) FROM "Withdrawal"
+         WHERE "userId" = $1 AND status IN ${ACTIVE_WITHDRAWAL_STATUSES} AND method = $2 AND ${channelColumn} = $3) as returned`,
+      [userId, depositMethod.type, channel]
+    );
+    const totals = totalsResult.rows[0];
+
+    const outstanding = subtractMoney(totals?.deposited || 0, totals?.returned || 0);
+    if (outstanding <= 0) {
+      return {
+        rule: 'CLOSED_LOOP',
+        outcome: 'ALLOW',
+        reason: `Deposits through ${depositMethod.name} have already been returned`,
+      };
+    }
+
+    return {
+      rule: 'CLOSED_LOOP',
+      outcome: settings.closedLoopAction as RuleOutcome,
+      reason: `Withdraw ${formatUsd(outstanding)} to ${depositMethod.name} first - ` +
+        `funds go back to the method they were deposited with`,
+    };
+  }
+
+  private async checkVelocity(
+    client: PoolClient,
+    userId: string,
+    request: WithdrawalRuleRequest,
+    settings: WithdrawalRuleSettingsRow
+  ): Promise<RuleCheck | null> {
+    const { dailyAmountLimit, dailyCountLimit, weeklyAmountLimit, weeklyCountLimit } = settings;
+    if (dailyAmountLimit === null && dailyCountLimit === null && weeklyAmountLimit === null && weeklyCountLimit === null) {
+      return null;
+    }
+
+    const now = Date.now();
+    const usageResult = await client.query<{ dayAmount: number; dayCount: string; weekAmount: number; weekCount: string }>(
+      `SELECT
+        COALESCE(SUM(amount) FILTER (WHERE "createdAt" >= $2), 0) as "dayAmount",
+        COUNT(*) FILTER (WHERE "createdAt" >= $2) as "dayCount",
+        COALESCE(SUM(amount), 0) as "weekAmount",
+        COUNT(*) as "weekCount"
+       FROM "Withdrawal"
+       WHERE "userId" = $1 AND status IN ${ACTIVE_WITHDRAWAL_STATUSES} AND "createdAt" >= $3`,
+      [userId, new Date(now - 24 * 60 * 60 * 1000), new Date(now - 7 * 24 * 60 * 60 * 1000)]
+    );
+    const usage = usageResult.rows[0];
+
+    // Usage including this request
+    const dayAmount = addMoney(usage?.dayAmount || 0, request.amount);
+    const dayCount = parseInt(usage?.dayCount || '0', 10) + 1;
+    const weekAmount = addMoney(usage?.weekAmount || 0, request.amount);
+    const weekCount = parseInt(usage?.weekCount || '0', 10) + 1;
+
+    const exceeded: string[] = [];
+    if (dailyAmountLimit !== null && dayAmount > dailyAmountLimit) {
+      exceeded.push(`the daily limit of ${formatUsd(dailyAmountLimit)}`);
+    }
+    if (dailyCountLimit !== null && dayCount > dailyCountLimit) {
+      exceeded.push(`the limit of ${dailyCountLimit} withdrawal${dailyCountLimit === 1 ? '' : 's'} per day`);
+    }
+    if (weeklyAmountLimit !== null && weekAmount > weeklyAmountLimit) {
+      exceeded.push(`the weekly limit of ${formatUsd(weeklyAmountLimit)}`);
+    }
+    if (weeklyCountLimit !== null && weekCount > weeklyCountLimit) {
+      exceeded.push(`the limit of ${weeklyCountLimit} withdrawal${weeklyCountLimit === 1 ? '' : 's'} per week`);
+    }
+
+    if (exceeded.length === 0) {
+      return {
+        rule: 'VELOCITY',
+        outcome: 'ALLOW',
+        reason: `Within withdrawal limits (${formatUsd(dayAmount)} in 24 hours, ${formatUsd(weekAmount)} in 7 days)`,
+      };
+    }
+
+    return {
+      rule: 'VELOCITY',
+      outcome: settings.velocityAction as RuleOutcome,
+      reason: `This withdrawal goes over ${exceeded.join(' and ')}`,
+    };
+  }
+
+  private async checkSecurityCooldown(
+    client: PoolClient,
+    userId: string,
+    settings: WithdrawalRuleSettingsRow
+  ): Promise<RuleCheck | null> {
+    if (settings.cooldownHours <= 0) {
+      return null;
+    }
+
+    const userResult = await client.query<{ passwordChangedAt: Date | null; twoFactorChangedAt: Date | null }>(
+      `SELECT "passwordChangedAt", "twoFactorChangedAt" FROM "User" WHERE id = $1`,
+      [userId]
+    );
+    const user = userResult.rows[0];
+
+    const changes = [user?.passwordChangedAt, user?.twoFactorChangedAt].filter((at): at is Date => !!at);
+    const lastChange = changes.length > 0 ? new Date(Math.max(...changes.map((at) => at.getTime()))) : null;
+    const availableAt = lastChange ? new Date(lastChange.getTime() + settings.cooldownHours * 60 * 60 * 1000) : null;
+
+    if (!availableAt || availableAt.getTime() <= Date.now()) {
+      return { rule: 'SECURITY_COOLDOWN', outcome: 'ALLOW', reason: 'No recent password or two-factor change' };
+    }
+
+    return {
+      rule: 'SECURITY_COOLDOWN',
+      outcome: settings.cooldownAction as RuleOutcome,
+      reason: `Withdrawals are restricted for ${settings.cooldownHours} hours after a password or two-factor change ` +
+        `(until ${availableAt.toISOString().replace('T', ' ').slice(0, 16)} UTC)`,
+    };
+  }
+}
+
+export const withdrawalRulesService = new WithdrawalRulesService();
+export type {
+  RuleAction,
+  RuleOutcome,
+  WithdrawalRule,
+  RuleCheck,
+  RuleEvaluation,
+  WithdrawalRuleSettingsRow,
+  WithdrawalRuleSettingsInput,
+};
@@ -2,10 +2,61 @@ import { query, queryOne, queryMany, transaction } from '../../config/db.js';
 import { logger } from '../../utils/logger.js';
 import { wsManager } from '../websocket/websocket.manager.js';
 import { emailService } from '../email/email.service.js';
+import { notificationService } from '../notification/notification.service.js';
+import { ledgerService } from '../ledger/ledger.service.js';
+import { bonusService } from '../bonus/bonus.service.js';
+import { mobileMoneyGatewayService, MobileMoneyGatewayError } from '../mobile-money/mobile-money-gateway.service.js';
+import { withdrawalRulesService, type RuleCheck, type RuleOutcome } from './withdrawal-rules.service.js';
 import { randomUUID } from 'crypto';
 
 export type WithdrawalMethod = 'MOBILE_MONEY' | 'CRYPTO';
-export type WithdrawalStatus = 'PENDING' | 'APPROVED' | 'REJECTED';
+export type WithdrawalStatus =
+  | 'PENDING'
+  | 'UNDER_REVIEW'
+  | 'APPROVED'
+  | 'PROCESSING'
+  | 'COMPLETED'
+  | 'FAILED'
+  | 'REJECTED'
+  | 'CANCELLED';
+
+// PENDING -> UNDER_REVIEW -> APPROVED -> PROCESSING -> COMPLETED | FAILED,
+// with REJECTED by an admin and CANCELLED by the user before approval
+const WITHDRAWAL_TRANSITIONS: Record<WithdrawalStatus, WithdrawalStatus[]> = {
+  PENDING: ['UNDER_REVIEW', 'APPROVED', 'REJECTED', 'CANCELLED'],
+  UNDER_REVIEW: ['APPROVED', 'REJECTED', 'CANCELLED'],
+  APPROVED: ['PROCESSING', 'FAILED'],
+  PROCESSING: ['COMPLETED', 'FAILED'],
+  COMPLETED: [],
+  FAILED: [],
+  REJECTED: [],
+  CANCELLED: [],
+};
+
+const TRANSITION_VERBS: Record<WithdrawalStatus, string> = {
+  PENDING: 'reopened',
+  UNDER_REVIEW: 'put under review',
+  APPROVED: 'approved',
+  PROCESSING: 'marked as sent',
+  COMPLETED: 'completed',
+  FAILED: 'marked as failed',
+  REJECTED: 'rejected',
+  CANCELLED: 'cancelled',
+};
+
+// Final states that return the held amount, with their ledger description
+const RELEASE_DESCRIPTIONS: Partial<Record<WithdrawalStatus, string>> = {
+  FAILED: 'Withdrawal payout failed, funds returned',
+  REJECTED: 'Withdrawal rejected, funds returned',
+  CANCELLED: 'Withdrawal cancelled, funds returned',
+};
+
+// Where a new request starts, by the withdrawal rules verdict
+const RULE_OUTCOME_STATUSES: Record<RuleOutcome, WithdrawalStatus> = {
+  ALLOW: 'PENDING',
+  HOLD: 'UNDER_REVIEW',
+  DENY: 'REJECTED',
+};
 
 interface CreateMobileMoneyWithdrawal {
   userId: string;
@@ -35,15 +86,25 @@ interface WithdrawalRow {
   userId: string;
   amount: number;
   method: string;
-  status: string;
+  status: WithdrawalStatus;
   phoneNumber: string | null;
   mobileProvider: string | null;
   cryptoCurrency: string | null;
   walletAddress: string | null;
   network: string | null;
   adminNote: string | null;
+  reviewedBy: string | null;
+  reviewedAt: Date | null;
   processedBy: string | null;
   processedAt: Date | null;
+  payoutReference: string | null;
+  payoutReceiptUrl: string | null;
+  payoutSentAt: Date | null;
+  completedAt: Date | null;
+  failedAt: Date | null;
+  cancelledAt: Date | null;
+  ruleOutcome: RuleOutcome | null;
+  ruleChecks: RuleCheck[];
   createdAt: Date;
   updatedAt: Date;
 }
@@ -53,6 +114,20 @@ interface WithdrawalWithUser extends WithdrawalRow {
   userEmail: string | null;
 }
 
+interface WithdrawalWithUserInfo extends WithdrawalRow {
+  user: { id: string; name: string; email: string } | null;
+}
+
+interface TransitionOptions {
+  actorId?: string; // Admin making the change; absent for the user and the gateway
+  userId?: string; // Only the owner may make this change
+  adminNote?: string;
+  payoutReference?: string;
+  payoutReceiptUrl?: string;
+  // Return null instead of throwing when the withdrawal has moved on
+  ifAllowed?: boolean;
+}
+
 class WithdrawalServiceError extends Error {
   constructor(
     message: string,
@@ -65,76 +140,59 @@ class WithdrawalServiceError extends Error {
 
 export class WithdrawalService {
   async createMobileMoneyWithdrawal(data: CreateMobileMoneyWithdrawal) {
-    const user = await queryOne<{ demoBalance: number; emailVerified: boolean; kycStatus: string | null }>(
-      `SELECT u."demoBalance", u."emailVerified", k.status as "kycStatus"
-       FROM "User" u
-       LEFT JOIN "KYC" k ON k."userId" = u.id
-       WHERE u.id = $1`,
-      [data.userId]
-    );
-
-    if (!user) {
-      throw new WithdrawalServiceError('User not found', 404);
-    }
-
-    // Verify email is verified
-    if (!user.emailVerified) {
-      throw new WithdrawalServiceError('Email verification required before withdrawal', 400);
-    }
-
-    // Verify KYC is approved
-    if (user.kycStatus !== 'APPROVED') {
-      throw new WithdrawalServiceError('KYC verification required before withdrawal', 400);
-    }
-
-    if (user.demoBalance < data.amount) {
-      throw new WithdrawalServiceError('Insufficient balance', 400);
-    }
-
-    const id = randomUUID();
-    const now = new Date();
-
-    // Create withdrawal and deduct balance immediately (hold funds)
-    const withdrawal = await transaction(async (client) => {
-      const withdrawalResult = await client.query<WithdrawalRow>(
-        `INSERT INTO "Withdrawal" (
-          id, "userId", amount, method, status, "phoneNumber", "mobileProvider",
-          "createdAt", "updatedAt"
-        ) VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9)
-        RETURNING *`,
-        [id, data.userId, data.amount, 'MOBILE_MONEY', 'PENDING', data.phoneNumber, data.mobileProvider, now, now]
-      );
-
-      await client.query(
-        `UPDATE "User" SET "demoBalance" = "demoBalance" - $1, "updatedAt" = $2 WHERE id = $3`,
-        [data.amount, now, data.userId]
-      );
-
-      const userResult = await client.query<{ name: string; email: string }>(
-        `SELECT name, email FROM "User" WHERE id = $1`,
-        [data.userId]
-      );
-
-      return { ...withdrawalResult.rows[0], user: userResult.rows[0] };
+    const withdrawal = await this.createWithdrawal(data.userId, data.amount, {
+      method: 'MOBILE_MONEY',
+      destination: { phoneNumber: data.phoneNumber, mobileProvider: data.mobileProvider },
+      description: 'Mobile money withdrawal request',
     });
 
     logger.info('Mobile money withdrawal request created (balance held)', {
-      withdrawalId: id,
+      withdrawalId: withdrawal.id,
       userId: data.userId,
       amount: data.amount,
       provider: data.mobileProvider,
+      ruleOutcome: withdrawal.ruleOutcome,
     });
 
     return withdrawal;
   }
 
   async createCryptoWithdrawal(data: CreateCryptoWithdrawal) {
+    const withdrawal = await this.createWithdrawal(data.userId, data.amount, {
+      method: 'CRYPTO',
+      destination: { cryptoCurrency: data.cryptoCurrency, walletAddress: data.walletAddress, network: data.network },
+      description: 'Crypto withdrawal request',
+    });
+
+    logger.info('Crypto withdrawal request created (balance held)', {
+      withdrawalId: withdrawal.id,
+      userId: data.userId,
+      amount: data.amount,
+      currency: data.cryptoCurrency,
+      network: data.network,
+      ruleOutcome: withdrawal.ruleOutcome,
+    });
+
+    return withdrawal;
+  }
+
+  /**
+   * Run the account checks and withdrawal rules, then record the request and
+   * hold its amount. A request the rules hold starts UNDER_REVIEW; one they
+   * deny is recorded as REJECTED, without touching the balance, so admins
+   * can see it, and the reasons are returned to the user as the error.
+   */
+  private async createWithdrawal(
+    userId: string,
+    amount: number,
+    request: { method: WithdrawalMethod; destination: Record<string, string>; description: string }
+  ): Promise<WithdrawalWithUserInfo> {
     const user = await queryOne<{ demoBalance: number; emailVerified: boolean; kycStatus: string | null }>(
       `SELECT u."demoBalance", u."emailVerified", k.status as "kycStatus"
        FROM "User" u
        LEFT JOIN "KYC" k ON k."userId" = u.id
        WHERE u.id = $1`,
-      [data.userId]
+      [userId]
     );
 
     if (!user) {
@@ -151,46 +209,108 @@ export class WithdrawalService {
       throw new WithdrawalServiceError('KYC verification required before withdrawal', 400);
     }
 
-    if (user.demoBalance < data.amount) {
+    if (user.demoBalance < amount) {
       throw new WithdrawalServiceError('Insufficient balance', 400);
     }
 
-    const id = randomUUID();
-    const now = new Date();
+    // The rules run under the User row lock so parallel requests are counted
+    // against the velocity caps one at a time
+    const result = await transaction(async (client) => {
+      const locked = await client.query<{ demoBalance: number }>(
+        `SELECT "demoBalance" FROM "User" WHERE id = $1 FOR UPDATE`,
+        [userId]
+      );
 
-    // Create withdrawal and deduct balance immediately (hold funds)
-    const withdrawal = await transaction(async (client) => {
+      if (!locked.rows[0] || locked.rows[0].demoBalance < amount) {
+        throw new WithdrawalServiceError('Insufficient balance', 400);
+      }
+
+      const evaluation = await withdrawalRulesService.evaluate(client, userId, {
+        amount,
+        method: request.method,
+        mobileProvider: request.destination.mobileProvider,
+        cryptoCurrency: request.destination.cryptoCurrency,
+      });
+
+      const id = randomUUID();
+      const now = new Date();
+      const status = RULE_OUTCOME_STATUSES[evaluation.outcome];
+      const failedReasons = evaluation.checks
+        .filter((check) => check.outcome === evaluation.outcome)
+        .map((check) => check.reason);
+
+      const columns: Record<string, unknown> = {
+        id,
+        userId,
+        amount,
+        method: request.method,
+        status,
+        ...request.destination,
+        ruleOutcome: evaluation.outcome,
+        ruleChecks: JSON.stringify(evaluation.checks),
+        createdAt: now,
+        updatedAt: now,
+      };
+      if (status === 'UNDER_REVIEW') columns.reviewedAt = now;
+      if (status === 'REJECTED') {
+        columns.adminNote = failedReasons.join('. ');
+        columns.processedAt = now;
+      }
+
+      const names = Object.keys(columns);
       const withdrawalResult = await client.query<WithdrawalRow>(
-        `INSERT INTO "Withdrawal" (
-          id, "userId", amount, method, status, "cryptoCurrency", "walletAddress", network,
-          "createdAt", "updatedAt"
-        ) VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10)
-        RETURNING *`,
-        [id, data.userId, data.amount, 'CRYPTO', 'PENDING', data.cryptoCurrency, data.walletAddress, data.network, now, now]
+        `INSERT INTO "Withdrawal" (${names.map((name) => `"${name}"`).join(', ')})
+         VALUES (${names.map((_, i) => `$${i + 1}`).join(', ')})
+         RETURNING *`,
+        Object.values(columns)
       );
 
-      await client.query(
-        `UPDATE "User" SET "demoBalance" = "demoBalance" - $1, "updatedAt" = $2 WHERE id = $3`,
-        [data.amount, now, data.userId]
-      );
+      // A denied request is kept for admins without touching the balance
+      if (status === 'REJECTED') {
+        return { denied: { withdrawalId: id, reasons: failedReasons }, withdrawal: null };
+      }
+
+      // Deduct balance immediately (hold funds)
+      await ledgerService.post(client, {
+        userId,
+        accountType: 'LIVE',
+        amount: -amount,
+        reason: 'WITHDRAWAL_HOLD',
+        sourceType: 'WITHDRAWAL',
+        sourceId: id,
+        description: request.description,
+      });
+
+      // Withdrawing before the wagering requirement is met gives up the bonus
+      await bonusService.forfeitActive(client, userId, id);
 
       const userResult = await client.query<{ name: string; email: string }>(
         `SELECT name, email FROM "User" WHERE id = $1`,
-        [data.userId]
+        [userId]
       );
 
-      return { ...withdrawalResult.rows[0], user: userResult.rows[0] };
+      return { denied: null, withdrawal: { ...withdrawalResult.rows[0], user: userResult.rows[0] } };
     });
 
-    logger.info('Crypto withdrawal request created (balance held)', {
-      withdrawalId: id,
-      userId: data.userId,
-      amount: data.amount,
-      currency: data.cryptoCurrency,
-      network: data.network,
-    });
+    if (result.denied) {
+      logger.warn('Withdrawal request denied by withdrawal rules', {
+        withdrawalId: result.denied.withdrawalId,
+        userId,
+        amount,
+        method: request.method,
+        reasons: result.denied.reasons,
+      });
 
-    return withdrawal;
+      throw new WithdrawalServiceError(result.denied.reasons.join('. '), 400);
+    }
+
+    const withdrawal = result.withdrawal!;
+
+    if (withdrawal.status === 'UNDER_REVIEW') {
+      this.notifyTransition(withdrawal, withdrawal.user);
+    }
+
+    return { ...withdrawal, user: { id: userId, ...withdrawal.user } };
   }
 
   async getUserWithdrawals(userId: string, filters?: { status?: WithdrawalStatus; limit?: number }) {
@@ -284,14 +404,63 @@ export class WithdrawalService {
     };
   }
 
+  /**
+   * Requests still waiting for an admin decision
+   */
   async getPendingWithdrawalsCount() {
     const result = await queryOne<{ count: string }>(
-      `SELECT COUNT(*) as count FROM "Withdrawal" WHERE status = 'PENDING'`
+      `SELECT COUNT(*) as count FROM "Withdrawal" WHERE status IN ('PENDING', 'UNDER_REVIEW')`
     );
     return parseInt(result?.count || '0', 10);
   }
 
+  async reviewWithdrawal(withdrawalId: string, adminId: string, adminNote?: string) {
+    return this.transition(withdrawalId, 'UNDER_REVIEW', { actorId: adminId, adminNote });
+  }
+
+  /**
+   * Approve a request. Mobile money served by the gateway is paid out
+   * straight away; if the provider refuses, the withdrawal stays APPROVED
+   * for the admin to retry or fail.
+   */
   async approveWithdrawal(withdrawalId: string, adminId: string, adminNote?: string) {
+    const approved = await this.transition(withdrawalId, 'APPROVED', { actorId: adminId, adminNote });
+
+    if (approved.method === 'MOBILE_MONEY' && mobileMoneyGatewayService.handles(approved.mobileProvider)) {
+      try {
+        return await this.sendMobileMoneyPayout(approved, adminId);
+      } catch (error) {
+        logger.warn('Mobile money payout not sent on approval', {
+          withdrawalId,
+          error: error instanceof Error ? error.message : error,
+        });
+      }
+    }
+
+    return approved;
+  }
+
+  async rejectWithdrawal(withdrawalId: string, adminId: string, adminNote?: string) {
+    return this.transition(withdrawalId, 'REJECTED', { actorId: adminId, adminNote });
+  }
+
+  /**
+   * The user withdraws their own request before it is approved
+   */
+  async cancelWithdrawal(withdrawalId: string, userId: string) {
+    return this.transition(withdrawalId, 'CANCELLED', { userId });
+  }
+
+  /**
+   * Record that the payment has been sent. Mobile money served by the
+   * gateway is sent through it; anything else is paid by the admin outside
+   * the platform, optionally with its transaction hash or reference.
+   */
+  async markWithdrawalProcessing(
+    withdrawalId: string,
+    adminId: string,
+    details: { payoutReference?: string; adminNote?: string } = {}
+  ) {
     const withdrawal = await queryOne<WithdrawalRow>(
       `SELECT * FROM "Withdrawal" WHERE id = $1`,
       [withdrawalId]
@@ -301,144 +470,266 @@ export class WithdrawalService {
       throw new WithdrawalServiceError('Withdrawal not found', 404);
     }
 
-    if (withdrawal.status !== 'PENDING') {
-      throw new WithdrawalServiceError('Withdrawal has already been processed', 400);
+    if (withdrawal.method === 'MOBILE_MONEY' && mobileMoneyGatewayService.handles(withdrawal.mobileProvider)) {
+      if (withdrawal.status !== 'APPROVED') {
+        throw new WithdrawalServiceError(`Withdrawal is ${this.describeStatus(withdrawal.status)} and cannot be marked as sent`, 400);
+      }
+      return this.sendMobileMoneyPayout(withdrawal, adminId);
     }
 
-    const now = new Date();
+    return this.transition(withdrawalId, 'PROCESSING', {
+      actorId: adminId,
+      adminNote: details.adminNote,
+      payoutReference: details.payoutReference,
+    });
+  }
 
-    // Balance was already deducted when withdrawal was created
-    // Just update the withdrawal status to APPROVED
-    const updatedWithdrawal = await queryOne<WithdrawalWithUser>(
-      `WITH updated AS (
-        UPDATE "Withdrawal" SET status = 'APPROVED', "adminNote" = $1, "processedBy" = $2, "processedAt" = $3, "updatedAt" = $3
-        WHERE id = $4 RETURNING *
-      )
-      SELECT u.*, usr.name as "userName", usr.email as "userEmail"
-      FROM updated u
-      JOIN "User" usr ON usr.id = u."userId"`,
-      [adminNote, adminId, now, withdrawalId]
-    );
+  async completeWithdrawal(
+    withdrawalId: string,
+    adminId: string,
+    details: { payoutReference?: string; payoutReceiptUrl?: string; adminNote?: string } = {}
+  ) {
+    return this.transition(withdrawalId, 'COMPLETED', { actorId: adminId, ...details });
+  }
 
-    logger.info('Withdrawal approved', {
-      withdrawalId,
-      userId: withdrawal.userId,
-      amount: withdrawal.amount,
-      approvedBy: adminId,
-    });
+  async failWithdrawal(withdrawalId: string, adminId: string, reason: string) {
+    return this.transition(withdrawalId, 'FAILED', { actorId: adminId, adminNote: reason });
+  }
 
-    // Send real-time notification to user
-    wsManager.notifyWithdrawalUpdate(withdrawal.userId, {
-      id: withdrawalId,
-      amount: withdrawal.amount,
-      status: 'APPROVED',
-      method: withdrawal.method,
-      adminNote,
-    });
+  private async sendMobileMoneyPayout(withdrawal: WithdrawalRow, adminId: string) {
+    let payout;
+    try {
+      payout = await mobileMoneyGatewayService.sendPayout(withdrawal.id, {
+        userId: withdrawal.userId,
+        phoneNumber: withdrawal.phoneNumber!,
+        mobileProvider: withdrawal.mobileProvider!,
+        amount: Number(withdrawal.amount),
+      });
+    } catch (error) {
+      if (error instanceof MobileMoneyGatewayError) {
+        throw new WithdrawalServiceError(error.message, error.statusCode);
+      }
+      throw error;
+    }
 
-    // Send email notification
-    if (updatedWithdrawal) {
-      emailService.sendWithdrawalApproved(
-        updatedWithdrawal.userEmail!,
-        updatedWithdrawal.userName!,
-        withdrawal.amount,
-        withdrawal.method
-      ).catch(err => logger.error('Failed to send withdrawal approved email', { error: err }));
+    if (payout.status === 'FAILED') {
+      throw new WithdrawalServiceError(`Mobile money payout failed: ${payout.failureReason || 'refused by provider'}`, 502);
     }
 
-    return {
-      ...updatedWithdrawal,
-      user: updatedWithdrawal ? { id: withdrawal.userId, name: updatedWithdrawal.userName, email: updatedWithdrawal.userEmail } : null
-    };
+    return this.transition(withdrawal.id, 'PROCESSING', {
+      actorId: adminId,
+      payoutReference: payout.providerReference ?? undefined,
+    });
   }
 
-  async rejectWithdrawal(withdrawalId: string, adminId: string, adminNote?: string) {
-    const withdrawal = await queryOne<WithdrawalRow>(
-      `SELECT * FROM "Withdrawal" WHERE id = $1`,
-      [withdrawalId]
-    );
-
-    if (!withdrawal) {
-      throw new WithdrawalServiceError('Withdrawal not found', 404);
-    }
+  /**
+   * Gateway callback: the payout reached the user. Returns null if the
+   * withdrawal is not (or not yet) PROCESSING; the settlement pass retries.
+   */
+  async completeMobileMoneyPayout(withdrawalId: string, providerReference: string | null) {
+    return this.transition(withdrawalId, 'COMPLETED', {
+      payoutReference: providerReference ?? undefined,
+      ifAllowed: true,
+    });
+  }
 
-    if (withdrawal.status !== 'PENDING') {
-      throw new WithdrawalServiceError('Withdrawal has already been processed', 400);
-    }
+  /**
+   * Gateway callback: the payout failed, so the held funds go back
+   */
+  async failMobileMoneyPayout(withdrawalId: string, reason: string) {
+    return this.transition(withdrawalId, 'FAILED', {
+      adminNote: `Mobile money payout failed: ${reason}`,
+      ifAllowed: true,
+    });
+  }
 
+  /**
+   * Move a withdrawal to `to` if the lifecycle allows it, stamping the
+   * step's columns and releasing the held funds on FAILED, REJECTED and
+   * CANCELLED, then notify the user.
+   */
+  private async transition(withdrawalId: string, to: WithdrawalStatus, options: TransitionOptions & { ifAllowed: true }): Promise<WithdrawalWithUserInfo | null>;
+  private async transition(withdrawalId: string, to: WithdrawalStatus, options?: TransitionOptions): Promise<WithdrawalWithUserInfo>;
+  private async transition(withdrawalId: string, to: WithdrawalStatus, options: TransitionOptions = {}): Promise<WithdrawalWithUserInfo | null> {
     const now = new Date();
 
-    // Reject withdrawal and refund balance to user (balance was held at creation)
-    const updatedWithdrawal = await transaction(async (client) => {
-      const withdrawalResult = await client.query<WithdrawalRow>(
-        `UPDATE "Withdrawal" SET status = 'REJECTED', "adminNote" = $1, "processedBy" = $2, "processedAt" = $3, "updatedAt" = $3
-         WHERE id = $4 RETURNING *`,
-        [adminNote, adminId, now, withdrawalId]
+    const result = await transaction(async (client) => {
+      const current = await client.query<WithdrawalRow>(
+        `SELECT * FROM "Withdrawal" WHERE id = $1 FOR UPDATE`,
+        [withdrawalId]
       );
-
-      // Refund the balance
-      await client.query(
-        `UPDATE "User" SET "demoBalance" = "demoBalance" + $1, "updatedAt" = $2 WHERE id = $3`,
-        [withdrawal.amount, now, withdrawal.userId]
+      const withdrawal = current.rows[0];
+
+      if (!withdrawal) {
+        throw new WithdrawalServiceError('Withdrawal not found', 404);
+      }
+
+      if (options.userId && withdrawal.userId !== options.userId) {
+        throw new WithdrawalServiceError('Unauthorized', 403);
+      }
+
+      if (!WITHDRAWAL_TRANSITIONS[withdrawal.status].includes(to)) {
+        if (options.ifAllowed) return null;
+        throw new WithdrawalServiceError(
+          `Withdrawal is ${this.describeStatus(withdrawal.status)} and cannot be ${TRANSITION_VERBS[to]}`,
+          400
+        );
+      }
+
+      const changes: Record<string, unknown> = { status: to, updatedAt: now };
+      if (options.adminNote !== undefined) changes.adminNote = options.adminNote;
+      if (options.payoutReference) changes.payoutReference = options.payoutReference;
+      if (options.payoutReceiptUrl) changes.payoutReceiptUrl = options.payoutReceiptUrl;
+
+      switch (to) {
+        case 'UNDER_REVIEW':
+          changes.reviewedBy = options.actorId ?? null;
+          changes.reviewedAt = now;
+          break;
+        case 'APPROVED':
+        case 'REJECTED':
+          changes.processedBy = options.actorId ?? null;
+          changes.processedAt = now;
+          break;
+        case 'PROCESSING':
+          changes.payoutSentAt = now;
+          break;
+        case 'COMPLETED':
+          changes.completedAt = now;
+          break;
+        case 'FAILED':
+          changes.failedAt = now;
+          break;
+        case 'CANCELLED':
+          changes.cancelledAt = now;
+          break;
+      }
+
+      const columns = Object.keys(changes);
+      const updated = await client.query<WithdrawalRow>(
+        `UPDATE "Withdrawal" SET ${columns.map((column, i) => `"${column}" = $${i + 1}`).join(', ')}
+         WHERE id = $${columns.length + 1} RETURNING *`,
+        [...Object.values(changes), withdrawalId]
       );
 
+      // The amount was held when the request was made
+      const releaseDescription = RELEASE_DESCRIPTIONS[to];
+      if (releaseDescription) {
+        await ledgerService.post(client, {
+          userId: withdrawal.userId,
+          accountType: 'LIVE',
+          amount: withdrawal.amount,
+          reason: 'WITHDRAWAL_RELEASE',
+          sourceType: 'WITHDRAWAL',
+          sourceId: withdrawalId,
+          description: releaseDescription,
+        });
+
+        // The request forfeited the user's bonuses; it never paid out, so they come back
+        await bonusService.restoreForfeited(client, withdrawalId);
+      }
+
       const userResult = await client.query<{ name: string; email: string }>(
         `SELECT name, email FROM "User" WHERE id = $1`,
         [withdrawal.userId]
       );
 
-      return { ...withdrawalResult.rows[0], user: userResult.rows[0] };
+      return { withdrawal: updated.rows[0], from: withdrawal.status, user: userResult.rows[0] };
     });
 
-    logger.info('Withdrawal rejected (balance refunded)', {
+    if (!result) return null;
+
+    const { withdrawal, from, user } = result;
+
+    logger.info(`Withdrawal ${from} -> ${to}${RELEASE_DESCRIPTIONS[to] ? ' (balance refunded)' : ''}`, {
       withdrawalId,
       userId: withdrawal.userId,
       amount: withdrawal.amount,
-      rejectedBy: adminId,
-      reason: adminNote,
+      by: options.actorId ?? (options.userId ? 'user' : 'gateway'),
+      payoutReference: withdrawal.payoutReference,
+      note: options.adminNote,
     });
 
+    this.notifyTransition(withdrawal, user);
+
+    return {
+      ...withdrawal,
+      user: user ? { id: withdrawal.userId, name: user.name, email: user.email } : null,
+    };
+  }
+
+  private describeStatus(status: WithdrawalStatus): string {
+    return status.toLowerCase().replace('_', ' ');
+  }
+
+  private notifyTransition(withdrawal: WithdrawalRow, user: { name: string; email: string } | undefined) {
+    if (withdrawal.status === 'PENDING') return;
+
+    const { status, amount, method, payoutReference } = withdrawal;
+    const adminNote = withdrawal.adminNote ?? undefined;
+
     // Send real-time notification to user
     wsManager.notifyWithdrawalUpdate(withdrawal.userId, {
-      id: withdrawalId,
-      amount: withdrawal.amount,
-      status: 'REJECTED',
-      method: withdrawal.method,
+      id: withdrawal.id,
+      amount,
+      status,
+      method,
       adminNote,
+      payoutReference,
     });
 
     // Send email notification
-    if (updatedWithdrawal.user) {
-      emailService.sendWithdrawalRejected(
-        updatedWithdrawal.user.email,
-        updatedWithdrawal.user.name,
-        withdrawal.amount,
-        adminNote
-      ).catch(err => logger.error('Failed to send withdrawal rejected email', { error: err }));
-    }
-
-    return updatedWithdrawal;
+    if (!user) return;
+
+    const sendEmail = {
+      UNDER_REVIEW: () => emailService.sendWithdrawalUnderReview(user.email, user.name, amount),
+      APPROVED: () => emailService.sendWithdrawalApproved(user.email, user.name, amount, method),
+      PROCESSING: () => emailService.sendWithdrawalProcessing(user.email, user.name, amount, method, payoutReference),
+      COMPLETED: () => emailService.sendWithdrawalCompleted(user.email, user.name, amount, method, payoutReference),
+      FAILED: () => emailService.sendWithdrawalFailed(user.email, user.name, amount, adminNote),
+      REJECTED: () => emailService.sendWithdrawalRejected(user.email, user.name, amount, adminNote),
+      CANCELLED: () => emailService.sendWithdrawalCancelled(user.email, user.name, amount),
+    }[status];
+
+    notificationService.isEmailEnabled(withdrawal.userId, 'WITHDRAWAL')
+      .then((enabled) => enabled && sendEmail())
+      .catch(err => logger.error(`Failed to send withdrawal ${status.toLowerCase()} email`, { error: err }));
   }
 
   async getWithdrawalStats() {
     const result = await queryOne<{
       pending: string;
+      underReview: string;
       approved: string;
+      processing: string;
+      completed: string;
+      failed: string;
       rejected: string;
+      cancelled: string;
       totalVolume: number;
     }>(
       `SELECT
         COUNT(*) FILTER (WHERE status = 'PENDING') as pending,
+        COUNT(*) FILTER (WHERE status = 'UNDER_REVIEW') as "underReview",
         COUNT(*) FILTER (WHERE status = 'APPROVED') as approved,
+        COUNT(*) FILTER (WHERE status = 'PROCESSING') as processing,
+        COUNT(*) FILTER (WHERE status = 'COMPLETED') as completed,
+        COUNT(*) FILTER (WHERE status = 'FAILED') as failed,
         COUNT(*) FILTER (WHERE status = 'REJECTED') as rejected,
-        COALESCE(SUM(amount) FILTER (WHERE status = 'APPROVED'), 0) as "totalVolume"
+        COUNT(*) FILTER (WHERE status = 'CANCELLED') as cancelled,
+        COALESCE(SUM(amount) FILTER (WHERE status = 'COMPLETED'), 0) as "totalVolume"
        FROM "Withdrawal"`
     );
 
     return {
       pending: parseInt(result?.pending || '0', 10),
+      underReview: parseInt(result?.underReview || '0', 10),
       approved: parseInt(result?.approved || '0', 10),
+      processing: parseInt(result?.processing || '0', 10),
+      completed: parseInt(result?.completed || '0', 10),
+      failed: parseInt(result?.failed || '0', 10),
       rejected: parseInt(result?.rejected || '0', 10),
+      cancelled: parseInt(result?.cancelled || '0', 10),
       totalVolume: Number(result?.totalVolume || 0),
     };
   }
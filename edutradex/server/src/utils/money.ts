@@ -0,0 +1,104 @@
+/**
+ * Money Arithmetic
+ *
+ * Money columns are DECIMAL(18,2). Amounts travel through the server as JS
+ * numbers (see the NUMERIC type parser in config/db.ts), but every calculation
+ * that produces a stored amount goes through these helpers, which work in
+ * integer cents (BigInt) so no binary floating point drift accumulates.
+ *
+ * Rounding policy: half away from zero to whole cents - the same as
+ * Postgres ROUND(numeric, 2), so SQL-side and server-side rounding agree.
+ */
+
+type MoneyInput = number | string;
+
+// Fractional digits kept for rates and percentages before they scale an amount
+const RATE_SCALE = 6;
+
+/**
+ * Parse a decimal value into a BigInt scaled by 10^scale, rounding half away from zero
+ */
+function toScaled(value: MoneyInput, scale: number): bigint {
+  let text = typeof value === 'number' ? value.toString() : value.trim();
+
+  if (typeof value === 'number' && !Number.isFinite(value)) {
+    throw new RangeError(`Invalid money value: ${value}`);
+  }
+
+  // Exponent notation (very small or very large numbers) - expand first
+  if (/e/i.test(text)) {
+    text = Number(text).toFixed(scale + 1);
+  }
+
+  const match = /^([+-]?)(\d*)(?:\.(\d*))?$/.exec(text);
+  if (!match || (match[2] === '' && !match[3])) {
+    throw new RangeError(`Invalid money value: ${value}`);
+  }
+
+  const [, sign, whole, fraction = ''] = match;
+  const kept = fraction.slice(0, scale).padEnd(scale, '0');
+  let scaled = BigInt((whole || '0') + kept);
+
+  if (fraction.length > scale && fraction.charCodeAt(scale) >= 53 /* '5' */) {
+    scaled += 1n;
+  }
+
+  return sign === '-' ? -scaled : scaled;
+}
+
+/**
+ * Divide, rounding half away from zero
+ */
+function divideRounded(numerator: bigint, divisor: bigint): bigint {
+  const negative = numerator < 0n;
+  const magnitude = negative ? -numerator : numerator;
+  const quotient = (magnitude * 2n + divisor) / (divisor * 2n);
+  return negative ? -quotient : quotient;
+}
+
+function toCents(value: MoneyInput): bigint {
+  return toScaled(value, 2);
+}
+
+function fromCents(cents: bigint): number {
+  return Number(cents) / 100;
+}
+
+/**
+ * Round a value to whole cents
+ */
+export function roundMoney(value: MoneyInput): number {
+  return fromCents(toCents(value));
+}
+
+/**
+ * Exact sum of amounts
+ */
+export function addMoney(...values: MoneyInput[]): number {
+  return fromCents(values.reduce<bigint>((total, value) => total + toCents(value), 0n));
+}
+
+/**
+ * Exact difference a - b
+ */
+export function subtractMoney(a: MoneyInput, b: MoneyInput): number {
+  return fromCents(toCents(a) - toCents(b));
+}
+
+/**
+ * amount x factor, rounded to cents
+ */
+export function multiplyMoney(amount: MoneyInput, factor: MoneyInput): number {
+  const product = toCents(amount) * toScaled(factor, RATE_SCALE);
+  return fromCents(divideRounded(product, 10n ** BigInt(RATE_SCALE)));
+}
+
+/**
+ * percent% of amount, rounded to cents (e.g. the payout on a stake)
+ */
+export function percentOf(amount: MoneyInput, percent: MoneyInput): number {
+  const product = toCents(amount) * toScaled(percent, RATE_SCALE);
+  return fromCents(divideRounded(product, 100n * 10n ** BigInt(RATE_SCALE)));
+}
+
+export type { MoneyInput };
@@ -31,6 +31,56 @@ export const updateMarketConfigSchema = z.object({
   minTradeAmount: z.number().min(0.01).optional(),
   maxTradeAmount: z.number().min(1).optional(),
   volatilityMode: z.enum(['LOW', 'MEDIUM', 'HIGH']).optional(),
+  drawPolicy: z.enum(['REFUND', 'LOSE']).nullable().optional(),
+  exchange: z.string().min(1).max(20).nullable().optional(),
+});
+
+const timeOfDaySchema = z.string().regex(/^([01]\d|2[0-3]):[0-5]\d$/, 'Time must be HH:MM (UTC)');
+
+export const createPayoutRuleSchema = z.object({
+  name: z.string().min(1).max(100),
+  symbol: z.string().min(1).max(30).nullable().optional(),
+  marketType: z.enum(['forex', 'crypto', 'stock', 'index', 'otc']).nullable().optional(),
+  minDuration: z.number().int().min(5).max(86400).nullable().optional(),
+  maxDuration: z.number().int().min(5).max(86400).nullable().optional(),
+  windowStart: timeOfDaySchema.nullable().optional(),
+  windowEnd: timeOfDaySchema.nullable().optional(),
+  payoutPercent: z.number().min(0).max(100),
+  priority: z.number().int().min(0).max(1000).optional(),
+  isActive: z.boolean().optional(),
+});
+
+export const updatePayoutRuleSchema = createPayoutRuleSchema.partial().refine(
+  (data) => Object.keys(data).length > 0,
+  { message: 'At least one field must be provided for update' }
+);
+
+const sessionTimeSchema = z.string().regex(/^([01]\d|2[0-3]):[0-5]\d$/, 'Time must be HH:MM');
+const sessionMarketTypeSchema = z.enum(['forex', 'stock', 'index']);
+const weekdaySchema = z.number().int().min(0).max(6);
+
+export const createMarketSessionSchema = z.object({
+  marketType: sessionMarketTypeSchema,
+  exchange: z.string().min(1).max(20).nullable().optional(),
+  openDay: weekdaySchema,
+  openTime: sessionTimeSchema,
+  closeDay: weekdaySchema,
+  closeTime: sessionTimeSchema,
+  timezone: z.string().min(1).max(50).optional(),
+  isActive: z.boolean().optional(),
+});
+
+export const updateMarketSessionSchema = createMarketSessionSchema.partial().refine(
+  (data) => Object.keys(data).length > 0,
+  { message: 'At least one field must be provided for update' }
+);
+
+export const createMarketHolidaySchema = z.object({
+  name: z.string().min(1).max(100),
+  date: z.string().regex(/^\d{4}-(0[1-9]|1[0-2])-(0[1-9]|[12]\d|3[01])$/, 'Date must be YYYY-MM-DD'),
+  marketType: sessionMarketTypeSchema.nullable().optional(),
+  exchange: z.string().min(1).max(20).nullable().optional(),
+  earlyCloseTime: sessionTimeSchema.nullable().optional(),
 });
 
 export const setSystemSettingSchema = z.object({
@@ -43,4 +93,9 @@ export type UpdateUserStatusInput = z.infer<typeof updateUserStatusSchema>;
 export type UpdateUserRoleInput = z.infer<typeof updateUserRoleSchema>;
 export type ResetUserBalanceInput = z.infer<typeof resetUserBalanceSchema>;
 export type UpdateMarketConfigInput = z.infer<typeof updateMarketConfigSchema>;
+export type CreatePayoutRuleInput = z.infer<typeof createPayoutRuleSchema>;
+export type UpdatePayoutRuleInput = z.infer<typeof updatePayoutRuleSchema>;
+export type CreateMarketSessionInput = z.infer<typeof createMarketSessionSchema>;
+export type UpdateMarketSessionInput = z.infer<typeof updateMarketSessionSchema>;
+export type CreateMarketHolidayInput = z.infer<typeof createMarketHolidaySchema>;
 export type SetSystemSettingInput = z.infer<typeof setSystemSettingSchema>;
@@ -0,0 +1,39 @@
+import { z } from 'zod';
+import { roundMoney } from '../utils/money.js';
+
+const promoCodeSchema = z
+  .string()
+  .trim()
+  .min(3, 'Promo code must be at least 3 characters')
+  .max(32, 'Promo code is too long')
+  .regex(/^[A-Za-z0-9_-]+$/, 'Promo code may only contain letters, numbers, dashes and underscores');
+
+const promotionShape = {
+  name: z.string().trim().min(1, 'Name is required').max(100),
+  code: promoCodeSchema.nullable().optional(),
+  type: z.enum(['FIRST_DEPOSIT', 'PROMO_CODE']),
+  bonusPercent: z.number().positive('Bonus percent must be positive').max(500),
+  maxBonus: z.number().positive('Maximum bonus must be positive').max(100000).transform(roundMoney),
+  minDeposit: z.number().min(0).max(100000).transform(roundMoney).optional(),
+  wageringMultiplier: z.number().min(0).max(100).optional(),
+  expiryDays: z.number().int().min(1).max(365).optional(),
+  maxRedemptions: z.number().int().positive().nullable().optional(),
+  startsAt: z.coerce.date().nullable().optional(),
+  endsAt: z.coerce.date().nullable().optional(),
+  isActive: z.boolean().optional(),
+};
+
+export const createPromotionSchema = z.object(promotionShape);
+
+export const updatePromotionSchema = z.object(promotionShape).partial().refine(
+  (data) => Object.keys(data).length > 0,
+  { message: 'At least one field must be provided for update' }
+);
+
+export const claimPromoCodeSchema = z.object({
+  code: promoCodeSchema,
+});
+
+export type CreatePromotionInput = z.infer<typeof createPromotionSchema>;
+export type UpdatePromotionInput = z.infer<typeof updatePromotionSchema>;
+export type ClaimPromoCodeInput = z.infer<typeof claimPromoCodeSchema>;
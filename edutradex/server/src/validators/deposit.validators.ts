@@ -1,11 +1,13 @@
 import { z } from 'zod';
+import { roundMoney } from '../utils/money.js';
 
 export const mobileMoneyDepositSchema = z.object({
   amount: z
     .number()
     .positive('Amount must be positive')
     .min(1, 'Minimum deposit is $1')
-    .max(100000, 'Maximum deposit is $100,000'),
+    .max(100000, 'Maximum deposit is $100,000')
+    .transform(roundMoney),
 
   phoneNumber: z
     .string()
@@ -24,17 +26,39 @@ export const cryptoDepositSchema = z.object({
     .number()
     .positive('Amount must be positive')
     .min(1, 'Minimum deposit is $1')
-    .max(100000, 'Maximum deposit is $100,000'),
+    .max(100000, 'Maximum deposit is $100,000')
+    .transform(roundMoney),
 
   cryptoCurrency: z
     .string()
     .min(1, 'Cryptocurrency is required'),
+
+  // Network of the chosen payment method, e.g. TRC20 or Bitcoin
+  network: z
+    .string()
+    .max(50)
+    .optional(),
+});
+
+export const depositAddressQuerySchema = z.object({
+  cryptoCurrency: z.string().min(1, 'Cryptocurrency is required').max(20),
+  network: z.string().max(50).optional(),
+});
+
+export const mockChainTransferSchema = z.object({
+  network: z.enum(['BITCOIN', 'ERC20', 'BEP20', 'TRC20']),
+  address: z.string().min(1, 'Address is required'),
+  asset: z.string().min(1, 'Asset is required').transform((asset) => asset.toUpperCase()),
+  amount: z.string().regex(/^\d+(\.\d+)?$/, 'Amount must be a decimal number'),
+  // Mine enough blocks for the transfer to be credited on the next poll
+  confirm: z.boolean().optional().default(false),
 });
 
 export const depositFiltersSchema = z.object({
   status: z.enum(['PENDING', 'APPROVED', 'REJECTED']).optional(),
   method: z.enum(['MOBILE_MONEY', 'CRYPTO']).optional(),
   userId: z.string().uuid().optional(),
+  review: z.enum(['true', 'false']).transform((value) => value === 'true').optional(),
   page: z.coerce.number().positive().optional(),
   limit: z.coerce.number().positive().max(100).optional(),
 });
@@ -48,5 +72,7 @@ export const processDepositSchema = z.object({
 
 export type MobileMoneyDepositInput = z.infer<typeof mobileMoneyDepositSchema>;
 export type CryptoDepositInput = z.infer<typeof cryptoDepositSchema>;
+export type DepositAddressQueryInput = z.infer<typeof depositAddressQuerySchema>;
+export type MockChainTransferInput = z.infer<typeof mockChainTransferSchema>;
 export type DepositFiltersInput = z.infer<typeof depositFiltersSchema>;
 export type ProcessDepositInput = z.infer<typeof processDepositSchema>;
@@ -0,0 +1,48 @@
+import { z } from 'zod';
+
+const NOTIFICATION_TYPES = [
+  'TRADE_SETTLED',
+  'PENDING_ORDER',
+  'DEPOSIT',
+  'WITHDRAWAL',
+  'KYC',
+  'TICKET_REPLY',
+  'COPY_TRADING',
+  'ADMIN_MESSAGE',
+  'PRICE_ALERT',
+  'ACCOUNT_STATEMENT',
+] as const;
+
+export const getNotificationsQuerySchema = z.object({
+  unread: z
+    .string()
+    .optional()
+    .transform((val) => val === 'true'),
+  type: z.enum(NOTIFICATION_TYPES).optional(),
+  limit: z
+    .string()
+    .optional()
+    .transform((val) => (val ? parseInt(val, 10) : 20))
+    .refine((val) => val > 0 && val <= 100, 'Limit must be between 1 and 100'),
+  offset: z
+    .string()
+    .optional()
+    .transform((val) => (val ? parseInt(val, 10) : 0))
+    .refine((val) => val >= 0, 'Offset must be non-negative'),
+});
+
+export const updateNotificationPreferencesSchema = z.object({
+  preferences: z
+    .array(
+      z.object({
+        type: z.enum(NOTIFICATION_TYPES),
+        inApp: z.boolean().optional(),
+        email: z.boolean().optional(),
+      })
+    )
+    .min(1, 'At least one preference must be provided')
+    .max(NOTIFICATION_TYPES.length),
+});
+
+export type GetNotificationsQuery = z.infer<typeof getNotificationsQuerySchema>;
+export type UpdateNotificationPreferencesInput = z.infer<typeof updateNotificationPreferencesSchema>;
@@ -95,6 +95,7 @@ export const updateOTCConfigSchema = z.object({
   payoutPercent: z.number().min(50).max(100).optional(),
   minTradeAmount: z.number().min(0.01).optional(),
   maxTradeAmount: z.number().min(1).optional(),
+  drawPolicy: z.enum(['REFUND', 'LOSE']).nullable().optional(),
 
   // Anchoring
   anchoringDurationMins: z.number().min(1).max(60).optional(),
@@ -0,0 +1,49 @@
+import { z } from 'zod';
+import { roundMoney } from '../utils/money.js';
+
+export const createPendingOrderSchema = z.object({
+  symbol: z.string().min(1, 'Symbol is required'),
+  direction: z.enum(['UP', 'DOWN']),
+  amount: z.number().positive('Amount must be positive').transform(roundMoney),
+  duration: z.number().int().positive('Duration must be a positive integer'),
+  marketType: z.enum(['forex', 'crypto', 'stock', 'index']),
+  triggerType: z.enum(['PRICE', 'TIME']),
+  triggerPrice: z.number().positive('Trigger price must be positive').optional(),
+  triggerAt: z.coerce.date().optional(),
+  expiresAt: z.coerce.date().optional(),
+}).refine(
+  (data) => data.triggerType !== 'PRICE' || data.triggerPrice !== undefined,
+  { message: 'triggerPrice is required for price orders', path: ['triggerPrice'] }
+).refine(
+  (data) => data.triggerType !== 'TIME' || data.triggerAt !== undefined,
+  { message: 'triggerAt is required for time orders', path: ['triggerAt'] }
+);
+
+export const updatePendingOrderSchema = z.object({
+  amount: z.number().positive('Amount must be positive').transform(roundMoney).optional(),
+  duration: z.number().int().positive('Duration must be a positive integer').optional(),
+  triggerPrice: z.number().positive('Trigger price must be positive').optional(),
+  triggerAt: z.coerce.date().optional(),
+  expiresAt: z.coerce.date().optional(),
+}).refine(
+  (data) => Object.keys(data).length > 0,
+  { message: 'At least one field must be provided for update' }
+);
+
+export const getPendingOrdersQuerySchema = z.object({
+  status: z.enum(['pending', 'triggered', 'cancelled', 'expired', 'failed']).optional(),
+  limit: z
+    .string()
+    .optional()
+    .transform((val) => (val ? parseInt(val, 10) : 50))
+    .refine((val) => val > 0 && val <= 100, 'Limit must be between 1 and 100'),
+  offset: z
+    .string()
+    .optional()
+    .transform((val) => (val ? parseInt(val, 10) : 0))
+    .refine((val) => val >= 0, 'Offset must be non-negative'),
+});
+
+export type CreatePendingOrderInput = z.infer<typeof createPendingOrderSchema>;
+export type UpdatePendingOrderInput = z.infer<typeof updatePendingOrderSchema>;
+export type GetPendingOrdersQuery = z.infer<typeof getPendingOrdersQuerySchema>;
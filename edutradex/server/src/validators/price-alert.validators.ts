@@ -0,0 +1,77 @@
+import { z } from 'zod';
+
+const ALERT_TYPES = ['CROSS_UP', 'CROSS_DOWN', 'PERCENT_CHANGE', 'RSI_ABOVE', 'RSI_BELOW'] as const;
+
+// RSI candle sizes in seconds: 1m, 5m, 15m, 1h, 4h
+const RSI_RESOLUTIONS = [60, 300, 900, 3600, 14400] as const;
+
+const alertSettingsShape = {
+  targetPrice: z.number().positive('Target price must be positive').optional(),
+  percentChange: z.number().positive('Percent change must be positive').max(100).optional(),
+  windowMinutes: z.number().int().min(1).max(1440, 'Window must be at most 24 hours').optional(),
+  rsiPeriod: z.number().int().min(2).max(50).optional(),
+  rsiResolution: z.number().int().refine(
+    (val) => (RSI_RESOLUTIONS as readonly number[]).includes(val),
+    'RSI resolution must be one of 60, 300, 900, 3600 or 14400 seconds'
+  ).optional(),
+  rsiThreshold: z.number().min(1).max(99).optional(),
+  mode: z.enum(['ONE_SHOT', 'RECURRING']).optional(),
+  cooldownMinutes: z.number().int().min(1).max(10080, 'Cooldown must be at most 7 days').optional(),
+  notifyEmail: z.boolean().optional(),
+  note: z.string().trim().max(200).nullable().optional(),
+};
+
+export const createPriceAlertSchema = z.object({
+  symbol: z.string().min(1, 'Symbol is required'),
+  type: z.enum(ALERT_TYPES),
+  ...alertSettingsShape,
+}).refine(
+  (data) => !['CROSS_UP', 'CROSS_DOWN'].includes(data.type) || data.targetPrice !== undefined,
+  { message: 'targetPrice is required for crossing alerts', path: ['targetPrice'] }
+).refine(
+  (data) => data.type !== 'PERCENT_CHANGE' || (data.percentChange !== undefined && data.windowMinutes !== undefined),
+  { message: 'percentChange and windowMinutes are required for percent change alerts', path: ['percentChange'] }
+).refine(
+  (data) => !['RSI_ABOVE', 'RSI_BELOW'].includes(data.type) || data.rsiThreshold !== undefined,
+  { message: 'rsiThreshold is required for RSI alerts', path: ['rsiThreshold'] }
+);
+
+export const updatePriceAlertSchema = z.object({
+  ...alertSettingsShape,
+  isActive: z.boolean().optional(),
+}).refine(
+  (data) => Object.keys(data).length > 0,
+  { message: 'At least one field must be provided for update' }
+);
+
+const paginationShape = {
+  limit: z
+    .string()
+    .optional()
+    .transform((val) => (val ? parseInt(val, 10) : 50))
+    .refine((val) => val > 0 && val <= 100, 'Limit must be between 1 and 100'),
+  offset: z
+    .string()
+    .optional()
+    .transform((val) => (val ? parseInt(val, 10) : 0))
+    .refine((val) => val >= 0, 'Offset must be non-negative'),
+};
+
+export const getPriceAlertsQuerySchema = z.object({
+  status: z.enum(['active', 'inactive']).optional(),
+  symbol: z.string().optional(),
+  ...paginationShape,
+});
+
+export const getAlertInboxQuerySchema = z.object({
+  unread: z
+    .string()
+    .optional()
+    .transform((val) => val === 'true'),
+  ...paginationShape,
+});
+
+export type CreatePriceAlertInput = z.infer<typeof createPriceAlertSchema>;
+export type UpdatePriceAlertInput = z.infer<typeof updatePriceAlertSchema>;
+export type GetPriceAlertsQuery = z.infer<typeof getPriceAlertsQuerySchema>;
+export type GetAlertInboxQuery = z.infer<typeof getAlertInboxQuerySchema>;
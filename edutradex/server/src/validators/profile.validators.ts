@@ -1,4 +1,5 @@
 import { z } from 'zod';
+import { roundMoney } from '../utils/money.js';
 
 /**
  * Profile Validators
@@ -23,3 +24,140 @@ export const loginHistoryQuerySchema = z.object({
     .optional()
     .default(0),
 });
+
+export const statementQuerySchema = z.object({
+  accountType: z.enum(['LIVE', 'DEMO']).optional().default('LIVE'),
+  // pdf and csv download the full statement for the period (default: this month)
+  format: z.enum(['json', 'pdf', 'csv']).optional().default('json'),
+  from: z.coerce.date().optional(),
+  to: z.coerce.date().optional(),
+  limit: z.coerce
+    .number()
+    .min(1, 'Limit must be at least 1')
+    .max(200, 'Limit cannot exceed 200')
+    .optional()
+    .default(50),
+  offset: z.coerce
+    .number()
+    .min(0, 'Offset cannot be negative')
+    .optional()
+    .default(0),
+});
+
+const moneyLimit = z
+  .number()
+  .positive('Limit must be greater than 0')
+  .max(1_000_000, 'Limit cannot exceed 1,000,000')
+  .transform(roundMoney);
+
+// null removes a limit; omitted limits are left unchanged
+export const updateTradingLimitsSchema = z
+  .object({
+    dailyLossLimit: moneyLimit.nullable().optional(),
+    dailyStakeLimit: moneyLimit.nullable().optional(),
+    maxStakePerTrade: moneyLimit.nullable().optional(),
+    maxOpenTrades: z
+      .number()
+      .int('Must be a whole number')
+      .min(1, 'Must allow at least 1 open trade')
+      .max(1000, 'Cannot exceed 1000')
+      .nullable()
+      .optional(),
+    sessionTimeLimitMinutes: z
+      .number()
+      .int('Must be a whole number')
+      .min(5, 'Session limit must be at least 5 minutes')
+      .max(1440, 'Session limit cannot exceed 24 hours')
+      .nullable()
+      .optional(),
+  })
+  .refine((data) => Object.values(data).some((value) => value !== undefined), {
+    message: 'At least one limit must be provided',
+  });
+
+export const limitTypeParamsSchema = z.object({
+  limitType: z.enum([
+    'dailyLossLimit',
+    'dailyStakeLimit',
+    'maxOpenTrades',
+    'maxStakePerTrade',
+    'sessionTimeLimitMinutes',
+  ]),
+});
+
+export const timeOutSchema = z.object({
+  period: z.enum(['24_HOURS', '7_DAYS', '30_DAYS']),
+});
+
+export const selfExclusionSchema = z.object({
+  period: z.enum(['6_MONTHS', '1_YEAR', '5_YEARS']),
+  confirm: z.literal(true, 'Self-exclusion must be confirmed'),
+});
+
+export type UpdateTradingLimitsInput = z.infer<typeof updateTradingLimitsSchema>;
+
+const chartTypeSchema = z.enum(['candlestick', 'line', 'area', 'bars', 'heikin-ashi']);
+
+const chartIndicatorSchema = z.object({
+  id: z.string().min(1).max(50),
+  enabled: z.boolean(),
+  parameters: z.record(z.string(), z.number()),
+});
+
+const chartLayoutKinds = {
+  settings: 'SETTINGS',
+  drawings: 'DRAWINGS',
+  templates: 'TEMPLATE',
+} as const;
+
+// URL segment -> stored kind; the key is the symbol or template id (URL-encoded)
+export const chartLayoutParamsSchema = z
+  .object({
+    kind: z.enum(['settings', 'drawings', 'templates']).transform((kind) => chartLayoutKinds[kind]),
+    key: z.string().min(1).max(50),
+  })
+  .refine((params) => params.kind !== 'SETTINGS' || params.key === 'default', {
+    message: 'Settings are stored under the "default" key',
+  });
+
+export const chartLayoutDataSchemas = {
+  SETTINGS: z.object({
+    selectedTimeframe: z.object({
+      label: z.string().max(10),
+      seconds: z.number().int().positive(),
+    }),
+    chartType: chartTypeSchema,
+    indicators: z.array(chartIndicatorSchema).max(50),
+    showVolume: z.boolean(),
+    favoritePairs: z
+      .array(z.object({ symbol: z.string().min(1).max(50), payout: z.number() }))
+      .max(100),
+    activeTemplateId: z.string().max(50).nullable(),
+  }),
+  DRAWINGS: z.object({
+    lines: z
+      .array(
+        z.object({
+          id: z.string().min(1).max(100),
+          type: z.enum(['trendline', 'horizontal', 'fibonacci', 'rectangle', 'ray']),
+          points: z.array(z.object({ time: z.number(), value: z.number() })).max(10),
+          color: z.string().max(30).optional(),
+          createdAt: z.number(),
+        })
+      )
+      .max(50, 'Up to 50 drawings per symbol'),
+  }),
+  TEMPLATE: z.object({
+    name: z.string().trim().min(1, 'Template name is required').max(40, 'Template name is too long'),
+    description: z.string().max(120).optional().default(''),
+    chartType: chartTypeSchema,
+    showVolume: z.boolean(),
+    indicators: z.array(chartIndicatorSchema).max(50),
+  }),
+};
+
+// 0 creates the document; otherwise the version the client last saw
+export const saveChartLayoutSchema = z.object({
+  baseVersion: z.number().int().min(0),
+  data: z.unknown(),
+});
@@ -1,9 +1,10 @@
 import { z } from 'zod';
+import { roundMoney } from '../utils/money.js';
 
 export const placeTradeSchema = z.object({
   symbol: z.string().min(1, 'Symbol is required'),
   direction: z.enum(['UP', 'DOWN']),
-  amount: z.number().positive('Amount must be positive'),
+  amount: z.number().positive('Amount must be positive').transform(roundMoney),
   duration: z.number().int().positive('Duration must be a positive integer'),
   entryPrice: z.number().positive('Entry price must be positive'),
   marketType: z.enum(['forex', 'crypto', 'stock', 'index']),
@@ -23,5 +24,26 @@ export const getTradesQuerySchema = z.object({
     .refine((val) => val >= 0, 'Offset must be non-negative'),
 });
 
+// An empty body requests a quote; a quoteId accepts it
+export const closeTradeSchema = z.object({
+  quoteId: z.string().uuid('Invalid quote ID').optional(),
+}).default({});
+
+// WebSocket trading channel envelope: { type, requestId, idempotencyKey?, payload }
+export const wsTradingRequestSchema = z.object({
+  type: z.enum(['place_trade', 'close_trade', 'get_active_trades', 'get_balance']),
+  requestId: z.string().min(1, 'requestId is required').max(100, 'requestId is too long'),
+  idempotencyKey: z.string().trim().min(1).max(255).optional(),
+  payload: z.unknown().optional(),
+});
+
+// close_trade carries the trade id that REST takes from the URL
+export const wsCloseTradeSchema = z.object({
+  tradeId: z.string().min(1, 'Trade ID is required'),
+  quoteId: z.string().uuid('Invalid quote ID').optional(),
+});
+
 export type PlaceTradeInput = z.infer<typeof placeTradeSchema>;
 export type GetTradesQuery = z.infer<typeof getTradesQuerySchema>;
+export type CloseTradeInput = z.infer<typeof closeTradeSchema>;
+export type WsTradingRequest = z.infer<typeof wsTradingRequestSchema>;
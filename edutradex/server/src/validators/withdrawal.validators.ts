@@ -1,20 +1,25 @@
 import { z } from 'zod';
+import { roundMoney } from '../utils/money.js';
+
+const withdrawalStatusSchema = z.enum([
+  'PENDING', 'UNDER_REVIEW', 'APPROVED', 'PROCESSING', 'COMPLETED', 'FAILED', 'REJECTED', 'CANCELLED',
+]);
 
 export const mobileMoneyWithdrawalSchema = z.object({
-  amount: z.number().positive('Amount must be positive').min(1, 'Minimum withdrawal is $1').max(100000, 'Maximum withdrawal is $100,000'),
+  amount: z.number().positive('Amount must be positive').min(1, 'Minimum withdrawal is $1').max(100000, 'Maximum withdrawal is $100,000').transform(roundMoney),
   phoneNumber: z.string().min(10, 'Phone number must be at least 10 characters').max(20, 'Phone number is too long').regex(/^[+]?[0-9]+$/, 'Invalid phone number format'),
   mobileProvider: z.enum(['MPESA', 'AIRTEL', 'MTN', 'VODAFONE', 'ORANGE', 'TIGO', 'OTHER']),
 });
 
 export const cryptoWithdrawalSchema = z.object({
-  amount: z.number().positive('Amount must be positive').min(1, 'Minimum withdrawal is $1').max(100000, 'Maximum withdrawal is $100,000'),
+  amount: z.number().positive('Amount must be positive').min(1, 'Minimum withdrawal is $1').max(100000, 'Maximum withdrawal is $100,000').transform(roundMoney),
   cryptoCurrency: z.enum(['BTC', 'ETH', 'USDT', 'USDC', 'BNB', 'SOL', 'XRP', 'OTHER']),
   walletAddress: z.string().min(20, 'Wallet address is too short').max(100, 'Wallet address is too long'),
   network: z.string().min(1, 'Network is required').max(50, 'Network name is too long'),
 });
 
 export const withdrawalFiltersSchema = z.object({
-  status: z.enum(['PENDING', 'APPROVED', 'REJECTED']).optional(),
+  status: withdrawalStatusSchema.optional(),
   method: z.enum(['MOBILE_MONEY', 'CRYPTO']).optional(),
   userId: z.string().uuid().optional(),
   page: z.coerce.number().int().positive().optional(),
@@ -25,13 +30,42 @@ export const processWithdrawalSchema = z.object({
   adminNote: z.string().max(500, 'Note cannot exceed 500 characters').optional(),
 });
 
+export const markProcessingSchema = z.object({
+  payoutReference: z.string().trim().min(1).max(200, 'Reference cannot exceed 200 characters').optional(),
+  adminNote: z.string().max(500, 'Note cannot exceed 500 characters').optional(),
+});
+
+// Sent as multipart form data alongside the optional receipt file
+export const completeWithdrawalSchema = markProcessingSchema;
+
+export const failWithdrawalSchema = z.object({
+  reason: z.string().trim().min(1, 'A reason is required').max(500, 'Reason cannot exceed 500 characters'),
+});
+
+const ruleActionSchema = z.enum(['OFF', 'HOLD', 'DENY']);
+
+// Limits are nullable: null removes the cap
+export const withdrawalRuleSettingsSchema = z.object({
+  turnoverAction: ruleActionSchema.optional(),
+  turnoverMultiplier: z.number().min(0).max(100).optional(),
+  closedLoopAction: ruleActionSchema.optional(),
+  velocityAction: ruleActionSchema.optional(),
+  dailyAmountLimit: z.number().positive().max(10000000).transform(roundMoney).nullable().optional(),
+  dailyCountLimit: z.number().int().positive().max(1000).nullable().optional(),
+  weeklyAmountLimit: z.number().positive().max(10000000).transform(roundMoney).nullable().optional(),
+  weeklyCountLimit: z.number().int().positive().max(1000).nullable().optional(),
+  cooldownAction: ruleActionSchema.optional(),
+  cooldownHours: z.number().int().min(0).max(720).optional(),
+  isActive: z.boolean().optional(),
+});
+
 export const userWithdrawalsQuerySchema = z.object({
-  status: z.enum(['PENDING', 'APPROVED', 'REJECTED']).optional(),
+  status: withdrawalStatusSchema.optional(),
   limit: z.coerce.number().int().positive().max(100).optional(),
 });
 
 export const sendVerificationCodeSchema = z.object({
-  amount: z.number().positive('Amount must be positive').min(1, 'Minimum withdrawal is $1').max(100000, 'Maximum withdrawal is $100,000'),
+  amount: z.number().positive('Amount must be positive').min(1, 'Minimum withdrawal is $1').max(100000, 'Maximum withdrawal is $100,000').transform(roundMoney),
   method: z.string().min(1, 'Method is required'),
 });
 
@@ -43,5 +77,8 @@ export type MobileMoneyWithdrawalInput = z.infer<typeof mobileMoneyWithdrawalSch
 export type CryptoWithdrawalInput = z.infer<typeof cryptoWithdrawalSchema>;
 export type WithdrawalFiltersInput = z.infer<typeof withdrawalFiltersSchema>;
 export type ProcessWithdrawalInput = z.infer<typeof processWithdrawalSchema>;
+export type MarkProcessingInput = z.infer<typeof markProcessingSchema>;
+export type FailWithdrawalInput = z.infer<typeof failWithdrawalSchema>;
+export type WithdrawalRuleSettingsInput = z.infer<typeof withdrawalRuleSettingsSchema>;
 export type SendVerificationCodeInput = z.infer<typeof sendVerificationCodeSchema>;
 export type VerifyWithdrawalCodeInput = z.infer<typeof verifyWithdrawalCodeSchema>;